@@ -1,21 +1,36 @@
-import { Box, AppBar, Toolbar, Typography, Button, IconButton, useTheme as useMuiTheme } from '@mui/material';
+import { Box, AppBar, Toolbar, Typography, Button, IconButton, CircularProgress, useTheme as useMuiTheme } from '@mui/material';
 import { useTheme } from './contexts/ThemeContext';
-import { BrowserRouter, Routes, Route, Link, useLocation } from 'react-router-dom';
+import { AuthProvider, useAuth } from './contexts/AuthContext';
+import { BrowserRouter, Routes, Route, Link, Navigate, useLocation } from 'react-router-dom';
 import { Home } from './pages/Home';
+import { Login } from './pages/Login';
 import { AdminPanel } from './pages/AdminPanel';
 import { Board } from './pages/Board';
+import { MockDraft } from './pages/MockDraft';
+import { BigBoard } from './pages/BigBoard';
+import { TeamNeeds } from './pages/TeamNeeds';
 import { DebugLogWindow } from './components/DebugLogWindow';
+import { LeagueSwitcher } from './components/LeagueSwitcher';
 import BugReportIcon from '@mui/icons-material/BugReport';
-import { useState, useEffect } from 'react';
+import LogoutIcon from '@mui/icons-material/Logout';
+import { useState, useEffect, useCallback } from 'react';
+import { apiClient } from './services/apiClient';
 import { debugService } from './services/debugService';
+import { draftEventsService } from './services/draftEventsService';
+import { useQueryClient } from '@tanstack/react-query';
 
 import { ThemeProvider } from './contexts/ThemeContext';
 
 function AppContent() {
   const location = useLocation();
+  const queryClient = useQueryClient();
+  const { user, isCommissioner, isLoading: authLoading, logout } = useAuth();
   const isHome = location.pathname === '/';
   const isAdmin = location.pathname === '/admin';
   const isBoard = location.pathname === '/board';
+  const isMock = location.pathname === '/mock';
+  const isTeams = location.pathname === '/teams';
+  const isBigBoard = location.pathname === '/bigboard';
   const [showDebugLogs, setShowDebugLogs] = useState(() => {
     const saved = localStorage.getItem('showDebugLogs');
     return saved === 'true';
@@ -29,8 +44,37 @@ function AppContent() {
       debugService.disablePolling();
     }
   }, [showDebugLogs]);
+
+  const [leagueId, setLeagueId] = useState<string | null>(() => apiClient.getLeagueId());
+
+  const switchLeague = useCallback((id: string) => {
+    apiClient.setLeagueId(id);
+    setLeagueId(id);
+    // Everything cached belongs to the previous league
+    queryClient.resetQueries();
+  }, [queryClient]);
+
+  // Keep every open screen in sync with picks and trades made elsewhere in the league
+  const signedIn = user !== null;
+  useEffect(() => {
+    if (!signedIn) return;
+    draftEventsService.connect(queryClient);
+    return () => draftEventsService.disconnect();
+  }, [queryClient, leagueId, signedIn]);
   const muiTheme = useMuiTheme();
   const { theme } = useTheme();
+
+  if (authLoading) {
+    return (
+      <Box display="flex" justifyContent="center" mt={8}>
+        <CircularProgress />
+      </Box>
+    );
+  }
+
+  if (!user) {
+    return <Login />;
+  }
   
   return (
     <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: '100vh', width: '100%' }}>
@@ -52,6 +96,7 @@ function AppContent() {
               </Typography>
             </Link>
           </Box>
+          <LeagueSwitcher leagueId={leagueId} onChange={switchLeague} />
           <Link to="/" style={{ textDecoration: 'none', marginRight: '16px' }}>
             <Button 
               variant="contained"
@@ -84,6 +129,55 @@ function AppContent() {
               Board
             </Button>
           </Link>
+          <Link to="/teams" style={{ textDecoration: 'none', marginRight: '16px' }}>
+            <Button 
+              variant="contained"
+              sx={{ 
+                color: 'white',
+                backgroundColor: isTeams ? theme.colors.action.selected.light : theme.colors.action.hover.light,
+                cursor: 'pointer',
+                border: isTeams ? '2px solid white' : 'none',
+                '&:hover': {
+                  backgroundColor: isTeams ? theme.colors.action.selected.light : theme.colors.action.hover.light
+                }
+              }}
+            >
+              Teams
+            </Button>
+          </Link>
+          <Link to="/mock" style={{ textDecoration: 'none', marginRight: '16px' }}>
+            <Button 
+              variant="contained"
+              sx={{ 
+                color: 'white',
+                backgroundColor: isMock ? theme.colors.action.selected.light : theme.colors.action.hover.light,
+                cursor: 'pointer',
+                border: isMock ? '2px solid white' : 'none',
+                '&:hover': {
+                  backgroundColor: isMock ? theme.colors.action.selected.light : theme.colors.action.hover.light
+                }
+              }}
+            >
+              Mock
+            </Button>
+          </Link>
+          <Link to="/bigboard" style={{ textDecoration: 'none', marginRight: '16px' }}>
+            <Button 
+              variant="contained"
+              sx={{ 
+                color: 'white',
+                backgroundColor: isBigBoard ? theme.colors.action.selected.light : theme.colors.action.hover.light,
+                cursor: 'pointer',
+                border: isBigBoard ? '2px solid white' : 'none',
+                '&:hover': {
+                  backgroundColor: isBigBoard ? theme.colors.action.selected.light : theme.colors.action.hover.light
+                }
+              }}
+            >
+              Big Board
+            </Button>
+          </Link>
+          {isCommissioner && (
           <Link to="/admin" style={{ textDecoration: 'none', marginRight: '16px' }}>
             <Button 
               variant="contained"
@@ -100,6 +194,22 @@ function AppContent() {
               Admin
             </Button>
           </Link>
+          )}
+          <Typography variant="body2" sx={{ color: 'white', marginRight: '8px' }}>
+            {user.username}
+          </Typography>
+          <IconButton
+            onClick={() => logout()}
+            sx={{
+              color: 'white',
+              '&:hover': {
+                backgroundColor: theme.colors.action.hover.light
+              }
+            }}
+            title="Sign Out"
+          >
+            <LogoutIcon />
+          </IconButton>
           <IconButton
             onClick={() => setShowDebugLogs(!showDebugLogs)}
             sx={{ 
@@ -118,7 +228,10 @@ function AppContent() {
       <Routes>
         <Route path="/" element={<Home />} />
         <Route path="/board" element={<Board />} />
-        <Route path="/admin" element={<AdminPanel />} />
+        <Route path="/mock" element={<MockDraft />} />
+        <Route path="/teams" element={<TeamNeeds />} />
+        <Route path="/bigboard" element={<BigBoard />} />
+        <Route path="/admin" element={isCommissioner ? <AdminPanel /> : <Navigate to="/" replace />} />
       </Routes>
 
       {showDebugLogs && (
@@ -133,9 +246,11 @@ function AppContent() {
 function App() {
   return (
     <ThemeProvider>
-      <BrowserRouter>
-        <AppContent />
-      </BrowserRouter>
+      <AuthProvider>
+        <BrowserRouter>
+          <AppContent />
+        </BrowserRouter>
+      </AuthProvider>
     </ThemeProvider>
   );
 }
@@ -0,0 +1,191 @@
+import { useEffect, useState } from 'react';
+import { Alert, Box, Button, Chip, MenuItem, Paper, TextField, Tooltip, Typography } from '@mui/material';
+import GavelIcon from '@mui/icons-material/Gavel';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTheme } from '../contexts/ThemeContext';
+import { auctionService } from '../services/auctionService';
+import { playerService } from '../services/playerService';
+import { AuctionStatus, Draft, Manager } from '../types/models';
+import { useAuction } from '../hooks/useAuction';
+
+interface AuctionPanelProps {
+  activeDraft: Draft;
+  managers: Manager[];
+  currentUser?: Manager;
+  onResult?: (message: string, severity: 'success' | 'error') => void;
+}
+
+/**
+ * Bidding controls for an auction draft: who nominates next, the player up for bids, and what each
+ * manager can still spend. Nominations come from the player list's draft button.
+ */
+export function AuctionPanel({ activeDraft, managers, currentUser, onResult }: AuctionPanelProps) {
+  const queryClient = useQueryClient();
+  const { theme, mode } = useTheme();
+  const { status, getBudget } = useAuction(activeDraft);
+  const lot = status?.currentLot;
+
+  const [bidderId, setBidderId] = useState<string>(currentUser?.id ?? '');
+  const [amount, setAmount] = useState<string>('');
+
+  const { data: lotPlayer } = useQuery({
+    queryKey: ['player', lot?.playerId],
+    queryFn: () => playerService.getById(lot!.playerId),
+    enabled: !!lot?.playerId,
+    staleTime: 0
+  });
+
+  // Start every new high bid's raise at one more than it
+  const lotPlayerId = lot?.playerId;
+  const highBid = lot?.highBid;
+  useEffect(() => {
+    setAmount(lotPlayerId && highBid !== undefined ? String(highBid + 1) : '');
+  }, [lotPlayerId, highBid]);
+
+  const getManagerName = (managerId?: string | null) =>
+    managers.find(m => m.id === managerId)?.name ?? 'Unknown Manager';
+
+  const onSuccess = (response: { value: AuctionStatus | null }) => {
+    queryClient.setQueryData(['auction'], response);
+  };
+  const onError = (action: string) => (error: Error) => {
+    onResult?.(`Error ${action}: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+  };
+
+  const bidMutation = useMutation({
+    mutationFn: () => auctionService.bid(bidderId, parseInt(amount)),
+    onSuccess,
+    onError: onError('placing bid')
+  });
+
+  const closeMutation = useMutation({
+    mutationFn: () => auctionService.closeLot(),
+    onSuccess: (response) => {
+      onSuccess(response);
+      onResult?.(`${lotPlayer?.name ?? 'Player'} sold to ${getManagerName(lot?.highBidderId)} for $${lot?.highBid}`, 'success');
+    },
+    onError: onError('closing bidding')
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: () => auctionService.cancelLot(),
+    onSuccess,
+    onError: onError('cancelling bidding')
+  });
+
+  if (!status) return null;
+
+  const bidderBudget = getBudget(bidderId);
+  const bidAmount = parseInt(amount);
+  const bidProblem = !bidderId ? 'Choose who is bidding'
+    : bidderId === lot?.highBidderId ? 'Already the high bidder'
+    : !bidderBudget || bidderBudget.openRosterSpots === 0 ? 'Roster is full'
+    : isNaN(bidAmount) || bidAmount <= (lot?.highBid ?? 0) ? `Bid more than $${lot?.highBid}`
+    : bidAmount > bidderBudget.maxBid ? `Max bid is $${bidderBudget.maxBid}`
+    : null;
+
+  const paperColor = mode === 'light' ? theme.colors.background.elevated.light : theme.colors.background.elevated.dark;
+
+  return (
+    <Paper elevation={0} sx={{ p: 2, bgcolor: paperColor, display: 'flex', flexDirection: 'column', gap: 1.5 }}>
+      {!lot ? (
+        <Typography variant="body1">
+          {status.nominatorId ? (
+            <>
+              <Box component="span" sx={{ fontWeight: 600 }}>{getManagerName(status.nominatorId)}</Box> to nominate.
+              Use a player's draft button to put them up for bids.
+            </>
+          ) : 'Every roster is full'}
+        </Typography>
+      ) : (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+          <Box sx={{ minWidth: 180 }}>
+            <Typography variant="h6" sx={{ lineHeight: 1.2 }}>{lotPlayer?.name ?? 'Loading...'}</Typography>
+            <Typography variant="caption" color="text.secondary">
+              Nominated by {getManagerName(lot.nominatedBy)}
+            </Typography>
+          </Box>
+          <Box>
+            <Typography variant="h5" sx={{ fontWeight: 700, fontVariantNumeric: 'tabular-nums' }}>${lot.highBid}</Typography>
+            <Typography variant="caption" color="text.secondary">{getManagerName(lot.highBidderId)}</Typography>
+          </Box>
+          <TextField
+            select
+            size="small"
+            label="Bidder"
+            value={bidderId}
+            onChange={(e) => setBidderId(e.target.value)}
+            sx={{ minWidth: 160 }}
+          >
+            {managers.map(manager => (
+              <MenuItem key={manager.id} value={manager.id}>
+                {manager.name}
+                {getBudget(manager.id!) && ` (max $${getBudget(manager.id!)!.maxBid})`}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            type="number"
+            size="small"
+            label="Bid"
+            value={amount}
+            onChange={(e) => setAmount(e.target.value)}
+            inputProps={{ min: lot.highBid + 1, max: bidderBudget?.maxBid }}
+            sx={{ width: 100 }}
+          />
+          <Tooltip title={bidProblem ?? ''}>
+            <span>
+              <Button
+                variant="contained"
+                onClick={() => bidMutation.mutate()}
+                disabled={!!bidProblem || bidMutation.isPending}
+              >
+                Bid
+              </Button>
+            </span>
+          </Tooltip>
+          <Button
+            variant="contained"
+            color="success"
+            startIcon={<GavelIcon />}
+            onClick={() => closeMutation.mutate()}
+            disabled={closeMutation.isPending}
+          >
+            Sold
+          </Button>
+          <Button onClick={() => cancelMutation.mutate()} disabled={cancelMutation.isPending}>
+            Cancel
+          </Button>
+        </Box>
+      )}
+
+      {lot && lot.bids.length > 1 && (
+        <Typography variant="caption" color="text.secondary">
+          {lot.bids.slice(-5).map(bid => `${getManagerName(bid.managerId)} $${bid.amount}`).join(' → ')}
+        </Typography>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+        {status.budgets.map(budget => (
+          <Tooltip
+            key={budget.managerId}
+            title={`Spent $${budget.spent} of $${budget.budget} • ${budget.openRosterSpots} spots left • Max bid $${budget.maxBid}`}
+          >
+            <Chip
+              size="small"
+              variant={budget.managerId === status.nominatorId ? 'filled' : 'outlined'}
+              color={budget.managerId === lot?.highBidderId ? 'success' : 'default'}
+              label={`${getManagerName(budget.managerId)}: $${budget.remaining}`}
+            />
+          </Tooltip>
+        ))}
+      </Box>
+
+      {status.budgets.some(b => b.remaining < 0) && (
+        <Alert severity="warning">
+          Some managers have spent more than their budget, likely from trades or changed budgets
+        </Alert>
+      )}
+    </Paper>
+  );
+}
@@ -3,25 +3,35 @@ import { useTheme } from '../contexts/ThemeContext';
 import { Draft, Manager, DraftPosition, Player, DraftStatus } from '../types/models';
 import { useQuery } from '@tanstack/react-query';
 import { playerService } from '../services/playerService';
+import { usePickClock } from '../hooks/usePickClock';
+import { useAuction } from '../hooks/useAuction';
+import { PickClockDisplay } from './PickClockDisplay';
+import { getDisplayPickNumber, getPickOwner, isReversedRound } from '../utils/draftUtils';
 
 interface DraftBoardProps {
   activeDraft: Draft;
   managers: Manager[];
+  // Player names by overall pick, for boards that aren't backed by real draft statuses (e.g. mock drafts)
+  playerNames?: { [overallPickNumber: number]: string };
 }
 
 export function DraftBoard({
   activeDraft,
-  managers
+  managers,
+  playerNames
 }: DraftBoardProps) {
   const { theme, mode } = useTheme();
 
   const { data: playersResponse } = useQuery({
-    queryKey: ['players'],
-    queryFn: () => playerService.getAll(),
+    queryKey: ['players', 'drafted'],
+    queryFn: () => playerService.getDrafted(),
+    enabled: !playerNames,
     staleTime: 0
   });
 
   const players = playersResponse ?? [];
+  const pickClock = usePickClock();
+  const { getBudget } = useAuction(playerNames ? undefined : activeDraft);
 
   if (!activeDraft) {
     return (
@@ -48,9 +58,7 @@ export function DraftBoard({
   }
 
   const getManagerName = (pick: DraftPosition) => {
-    // If the pick has been traded, use the most recent manager in the TradedTo array
-    const currentManagerId = pick.tradedTo?.length ? pick.tradedTo[pick.tradedTo.length - 1] : pick.managerId;
-    const manager = managers.find(m => m.id === currentManagerId);
+    const manager = managers.find(m => m.id === getPickOwner(pick));
     return manager?.name ?? '';
   };
 
@@ -63,7 +71,7 @@ export function DraftBoard({
     if (!pick.tradedTo?.length) return '';
 
     const originalManager = managers.find(m => m.id === pick.managerId);
-    const currentManager = managers.find(m => m.id === pick.tradedTo[pick.tradedTo.length - 1]);
+    const currentManager = managers.find(m => m.id === getPickOwner(pick));
     
     const history = pick.tradedTo.map((managerId, index) => {
       const manager = managers.find(m => m.id === managerId);
@@ -76,29 +84,52 @@ export function DraftBoard({
     ].join('\n');
   };
 
+  const getPickStatus = (player: Player, pick: DraftPosition, roundNumber: number) =>
+    player.draftStatuses?.find((ds: DraftStatus) => 
+      ds.draftId === activeDraft.id && 
+      ds.round === roundNumber && 
+      ds.pick === pick.pickNumber
+    );
+
+  const getPlayer = (pick: DraftPosition, roundNumber: number) =>
+    players.find((p: Player) => getPickStatus(p, pick, roundNumber)?.isDrafted);
+
+  const isKeeperPick = (pick: DraftPosition, roundNumber: number) => {
+    if (playerNames) return false;
+    const player = getPlayer(pick, roundNumber);
+    return !!player && !!getPickStatus(player, pick, roundNumber)?.isKeeper;
+  };
+
+  const getPickPrice = (pick: DraftPosition, roundNumber: number) => {
+    if (playerNames || !activeDraft.auction) return null;
+    const player = getPlayer(pick, roundNumber);
+    return (player && getPickStatus(player, pick, roundNumber)?.price) ?? null;
+  };
+
   const getPlayerName = (pick: DraftPosition, roundNumber: number) => {
-    const player = players.find((p: Player) => {
-      const draftStatus = p.draftStatuses?.find((ds: DraftStatus) => 
-        ds.draftId === activeDraft.id && 
-        ds.round === roundNumber && 
-        ds.pick === pick.pickNumber
-      );
-      return draftStatus?.isDrafted;
-    });
-    return player?.name ?? '';
+    if (playerNames) return playerNames[pick.overallPickNumber] ?? '';
+    return getPlayer(pick, roundNumber)?.name ?? '';
   };
 
-  const getDisplayPickNumber = (round: number, actualPickNumber: number) => {
-    const totalManagers = activeDraft.draftOrder.length;
-    if (round % 2 === 0 && activeDraft.isSnakeDraft) {
-      return totalManagers - actualPickNumber + 1;
-    }
-    return actualPickNumber;
+  // A player traded after being drafted sits on a different roster than the pick that took them
+  const getPlayerMovement = (pick: DraftPosition, roundNumber: number) => {
+    if (playerNames) return '';
+
+    const player = getPlayer(pick, roundNumber);
+    const draftStatus = player && getPickStatus(player, pick, roundNumber);
+    const pickOwnerId = pick.tradedTo?.length ? pick.tradedTo[pick.tradedTo.length - 1] : pick.managerId;
+    if (!player || !draftStatus?.managerId || draftStatus.managerId === pickOwnerId) return '';
+
+    return `${player.name} traded to ${getOriginalManagerName(draftStatus.managerId) || 'Unknown'}`;
   };
 
+  // Column headers name the first-round managers, so auction boards show their spending there
+  const getColumnBudget = (pick: DraftPosition) =>
+    activeDraft.auction ? getBudget(pick.managerId) : undefined;
+
   const getPickStyle = (round: number, pickNumber: number, pick: DraftPosition) => {
     const isCurrent = pick.overallPickNumber === activeDraft.currentOverallPick;
-    const isSnakeRound = round % 2 === 0 && activeDraft.isSnakeDraft;
+    const isReversed = isReversedRound(activeDraft, round);
     const playerName = getPlayerName(pick, round);
     const currentManagerId = pick.tradedTo?.length ? pick.tradedTo[pick.tradedTo.length - 1] : pick.managerId;
     const isUserPick = managers.find(m => m.isUser && m.id === currentManagerId);
@@ -121,14 +152,14 @@ export function DraftBoard({
             `${theme.colors.background.paper.light}40` : 
             `${theme.colors.background.paper.dark}40`) :
           (mode === 'light' ? 
-            (isSnakeRound ? theme.colors.background.elevated.light : theme.colors.background.paper.light) :
-            (isSnakeRound ? theme.colors.background.paper.dark : theme.colors.background.elevated.dark)),
+            (isReversed ? theme.colors.background.elevated.light : theme.colors.background.paper.light) :
+            (isReversed ? theme.colors.background.paper.dark : theme.colors.background.elevated.dark)),
       color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark,
       border: isCurrent ? 
         `2px solid ${theme.colors.pickState.selected.light}` : 
         isUserPick ? 
           `2px solid ${theme.colors.primary.main}` : 
-          `${round === 1 || !isSnakeRound ? '0 0 0 1px' : '0 1px 0 0'} solid ${theme.colors.text.secondary.light}`,
+          `${round === 1 || !isReversed ? '0 0 0 1px' : '0 1px 0 0'} solid ${theme.colors.text.secondary.light}`,
       zIndex: isCurrent || pick.isComplete ? 1 : 'auto',
       position: 'relative',
       p: 1,
@@ -230,9 +261,17 @@ export function DraftBoard({
                     <Typography variant="body1" sx={{ color: theme.colors.text.primary.dark, opacity: 0.8 }}>
                       {getOriginalManagerName(activeDraft.draftOrder[pick.pickNumber - 1].managerId)}
                     </Typography>
-                    <Typography variant="h6" sx={{ color: theme.colors.text.primary.dark, fontWeight: 600 }}>
-                      {pick.pickNumber}
-                    </Typography>
+                    {getColumnBudget(pick) ? (
+                      <Tooltip title="Spent / remaining budget">
+                        <Typography variant="body2" sx={{ color: theme.colors.text.primary.dark, fontWeight: 600, fontVariantNumeric: 'tabular-nums' }}>
+                          ${getColumnBudget(pick)!.spent} / ${getColumnBudget(pick)!.remaining}
+                        </Typography>
+                      </Tooltip>
+                    ) : (
+                      <Typography variant="h6" sx={{ color: theme.colors.text.primary.dark, fontWeight: 600 }}>
+                        {pick.pickNumber}
+                      </Typography>
+                    )}
                   </Box>
                 </Box>
               ))}
@@ -248,14 +287,17 @@ export function DraftBoard({
               {activeDraft.rounds.map((round) => (
                 <Box key={round.roundNumber} sx={{ display: 'contents' }}>
                   {round.picks.map((pick) => {
-                    const displayNumber = getDisplayPickNumber(round.roundNumber, pick.pickNumber);
+                    const displayNumber = getDisplayPickNumber(activeDraft, pick.pickNumber, round.roundNumber);
                     const managerName = getManagerName(pick);
                     const playerName = getPlayerName(pick, round.roundNumber);
                     const tradeHistory = getTradeHistory(pick);
                     const isTraded = pick.tradedTo?.length > 0;
+                    const playerMovement = getPlayerMovement(pick, round.roundNumber);
+                    const isKeeper = isKeeperPick(pick, round.roundNumber);
+                    const price = getPickPrice(pick, round.roundNumber);
                     const tooltipTitle = `Round ${round.roundNumber}, Pick ${displayNumber} (Overall #${pick.overallPickNumber})${
                       isTraded ? '\n' + getTradeHistory(pick) : ''
-                    }`;
+                    }${playerMovement ? '\n' + playerMovement : ''}${isKeeper ? '\nKeeper from a prior season' : ''}`;
                     return (
                       <Tooltip
                         key={`${round.roundNumber}-${pick.pickNumber}`}
@@ -301,9 +343,19 @@ export function DraftBoard({
                                 fontWeight: 600
                               }}
                             >
+                              {isKeeper && (
+                                <Box component="span" sx={{ fontWeight: 700, mr: 0.5, opacity: 0.7 }}>K</Box>
+                              )}
                               {playerName}
+                              {price !== null && (
+                                <Box component="span" sx={{ ml: 0.5, opacity: 0.7, fontVariantNumeric: 'tabular-nums' }}>${price}</Box>
+                              )}
                             </Typography>
                           )}
+                          {!playerNames && !pick.isComplete && pick.overallPickNumber === activeDraft.currentOverallPick &&
+                            pick.overallPickNumber === pickClock.status?.overallPickNumber && (
+                            <PickClockDisplay clock={pickClock} compact />
+                          )}
                         </Paper>
                       </Tooltip>
                     );
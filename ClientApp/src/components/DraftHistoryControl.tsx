@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Box, IconButton, ListItemText, Menu, MenuItem, Typography } from '@mui/material';
+import UndoIcon from '@mui/icons-material/Undo';
+import RedoIcon from '@mui/icons-material/Redo';
+import HistoryIcon from '@mui/icons-material/History';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTheme } from '../contexts/ThemeContext';
+import { Draft, DraftHistoryEntry } from '../types/models';
+import { draftService } from '../services/draftService';
+
+interface DraftHistoryControlProps {
+  activeDraft: Draft;
+  onResult?: (message: string, severity: 'success' | 'error') => void;
+}
+
+export function DraftHistoryControl({ activeDraft, onResult }: DraftHistoryControlProps) {
+  const queryClient = useQueryClient();
+  const { theme, mode } = useTheme();
+  const [menuAnchor, setMenuAnchor] = useState<HTMLElement | null>(null);
+
+  const { data: historyResponse } = useQuery({
+    queryKey: ['draftHistory', activeDraft.id],
+    queryFn: () => draftService.getHistory(activeDraft.id!),
+    enabled: !!activeDraft.id,
+    staleTime: 0
+  });
+
+  const history = historyResponse?.value ?? [];
+  // Newest first
+  const applied = history.filter(entry => !entry.isUndone);
+  // Oldest first, i.e. the order redo replays them in
+  const undone = history.filter(entry => entry.isUndone).reverse();
+
+  const refresh = () => Promise.all([
+    queryClient.invalidateQueries({ queryKey: ['activeDraft'] }),
+    queryClient.invalidateQueries({ queryKey: ['currentPick'] }),
+    queryClient.invalidateQueries({ queryKey: ['players'] }),
+    queryClient.invalidateQueries({ queryKey: ['draftHistory', activeDraft.id] })
+  ]);
+
+  const undoMutation = useMutation({
+    mutationFn: (count: number) => draftService.undo(activeDraft.id!, count),
+    onSuccess: (_, count) => refresh().then(() => {
+      onResult?.(`Undid ${count} action${count === 1 ? '' : 's'}`, 'success');
+    }),
+    onError: (error) => {
+      onResult?.(`Error undoing: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  });
+
+  const redoMutation = useMutation({
+    mutationFn: (count: number) => draftService.redo(activeDraft.id!, count),
+    onSuccess: (_, count) => refresh().then(() => {
+      onResult?.(`Redid ${count} action${count === 1 ? '' : 's'}`, 'success');
+    }),
+    onError: (error) => {
+      onResult?.(`Error redoing: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  });
+
+  const isPending = undoMutation.isPending || redoMutation.isPending;
+
+  const handleEntryClick = (entry: DraftHistoryEntry) => {
+    setMenuAnchor(null);
+    if (entry.isUndone) {
+      // Redo everything up to and including this entry
+      redoMutation.mutate(undone.findIndex(e => e.id === entry.id) + 1);
+    } else {
+      // Undo everything back to and including this entry
+      undoMutation.mutate(applied.findIndex(e => e.id === entry.id) + 1);
+    }
+  };
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}>
+      <IconButton
+        size="small"
+        onClick={() => undoMutation.mutate(1)}
+        disabled={!applied.length || isPending}
+        title={applied.length ? `Undo: ${applied[0].description}` : 'Nothing to undo'}
+      >
+        <UndoIcon fontSize="small" />
+      </IconButton>
+      <IconButton
+        size="small"
+        onClick={() => redoMutation.mutate(1)}
+        disabled={!undone.length || isPending}
+        title={undone.length ? `Redo: ${undone[0].description}` : 'Nothing to redo'}
+      >
+        <RedoIcon fontSize="small" />
+      </IconButton>
+      <IconButton
+        size="small"
+        onClick={(event) => setMenuAnchor(event.currentTarget)}
+        disabled={!history.length || isPending}
+        title="Draft history"
+      >
+        <HistoryIcon fontSize="small" />
+      </IconButton>
+      <Menu
+        anchorEl={menuAnchor}
+        open={Boolean(menuAnchor)}
+        onClose={() => setMenuAnchor(null)}
+        PaperProps={{
+          sx: {
+            maxHeight: 400,
+            width: 360,
+            bgcolor: mode === 'light' ? theme.colors.background.paper.light : theme.colors.background.paper.dark
+          }
+        }}
+      >
+        <Typography variant="caption" sx={{ px: 2, py: 1, display: 'block', opacity: 0.7 }}>
+          Click an action to undo back to it, or an undone action to redo up to it
+        </Typography>
+        {[...undone].reverse().concat(applied).map(entry => (
+          <MenuItem
+            key={entry.id}
+            onClick={() => handleEntryClick(entry)}
+            sx={{ opacity: entry.isUndone ? 0.5 : 1 }}
+          >
+            <ListItemText
+              primary={entry.description}
+              secondary={`${new Date(entry.timestamp).toLocaleTimeString()}${entry.isUndone ? ' • undone' : ''}`}
+              primaryTypographyProps={{
+                sx: { textDecoration: entry.isUndone ? 'line-through' : 'none' }
+              }}
+            />
+          </MenuItem>
+        ))}
+      </Menu>
+    </Box>
+  );
+}
@@ -1,6 +1,8 @@
 import { Box, Popover, List, ListItem, ListItemButton, ListItemText, styled, useTheme as useMuiTheme } from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
 import { useTheme } from '../contexts/ThemeContext';
 import { Draft, DraftPosition, Manager } from '../types/models';
+import { managerService } from '../services/managerService';
 
 interface DraftManagerFlyoutProps {
   open: boolean;
@@ -9,6 +11,7 @@ interface DraftManagerFlyoutProps {
   activeDraft: Draft;
   currentUser?: Manager;
   onManagerSelect: (managerId: string) => void;
+  onDraftFromQueue?: (playerId: string, managerId: string) => void;
   managers: Manager[];
 }
 
@@ -38,6 +41,7 @@ export function DraftManagerFlyout({
   activeDraft, 
   currentUser,
   onManagerSelect,
+  onDraftFromQueue,
   managers
 }: DraftManagerFlyoutProps) {
   const muiTheme = useMuiTheme();
@@ -48,14 +52,23 @@ export function DraftManagerFlyout({
     .find(r => r.roundNumber === activeDraft.activeRound)
     ?.picks.find(p => p.pickNumber === activeDraft.activePick);
 
-  if (!currentPick) return null;
-
   // Get current owner (either original owner or most recent trade recipient)
-  const currentOwnerId = currentPick.tradedTo?.length 
+  const currentOwnerId = currentPick?.tradedTo?.length 
     ? currentPick.tradedTo[currentPick.tradedTo.length - 1] 
-    : currentPick.managerId;
+    : currentPick?.managerId;
+
+  const { data: queueResponse } = useQuery({
+    queryKey: ['managerQueue', currentOwnerId],
+    queryFn: () => managerService.getQueue(currentOwnerId!),
+    enabled: open && !!currentOwnerId && !!onDraftFromQueue,
+    staleTime: 0
+  });
+
+  if (!currentPick || !currentOwnerId) return null;
 
   const currentOwner = managers.find(m => m.id === currentOwnerId);
+  // Drafted players are pulled from queues server-side, but skip any the cache hasn't caught up on
+  const topOfQueue = queueResponse?.value?.find(p => !p.draftStatuses?.some(ds => ds.draftId === activeDraft.id));
 
   return (
     <Popover
@@ -71,7 +84,7 @@ export function DraftManagerFlyout({
         horizontal: 'right',
       }}
       PaperProps={{
-        sx: { width: 200 }
+        sx: { width: topOfQueue ? 260 : 200 }
       }}
     >
       <Box sx={{ p: 2 }}>
@@ -88,6 +101,22 @@ export function DraftManagerFlyout({
               <ListItemText primary={currentOwner?.name ?? '[Manager Deleted]'} />
             </StyledListItemButton>
           </ListItem>
+          {onDraftFromQueue && topOfQueue && (
+            <ListItem disablePadding>
+              <StyledListItemButton
+                customTheme={theme}
+                onClick={() => {
+                  onDraftFromQueue(topOfQueue.id!, currentOwnerId);
+                  onClose();
+                }}
+              >
+                <ListItemText
+                  primary="Draft top of queue"
+                  secondary={topOfQueue.name}
+                />
+              </StyledListItemButton>
+            </ListItem>
+          )}
         </List>
       </Box>
     </Popover>
@@ -4,6 +4,7 @@ import { Draft, Manager, DraftPosition } from '../types/models';
 import { useQuery } from '@tanstack/react-query';
 import { managerService } from '../services/managerService';
 import { config } from '../config/config';
+import { getDisplayPickNumber, getPickOwner, isReversedRound } from '../utils/draftUtils';
 
 /**
  * Props for the DraftPickSelector component
@@ -44,9 +45,7 @@ export function DraftPickSelector({
   const managers = managersResponse?.value ?? [];
 
   const getManagerName = (pick: DraftPosition) => {
-    // If the pick has been traded, use the most recent manager in the TradedTo array
-    const currentManagerId = pick.tradedTo?.length ? pick.tradedTo[pick.tradedTo.length - 1] : pick.managerId;
-    const manager = managers.find(m => m.id === currentManagerId);
+    const manager = managers.find(m => m.id === getPickOwner(pick));
     return manager?.name ?? '';
   };
 
@@ -62,27 +61,13 @@ export function DraftPickSelector({
     return `Original: ${originalManager?.name ?? 'Unknown'}\nTrade History:\n${history.join('\n')}`;
   };
 
-  /**
-   * Calculates the display pick number based on draft type
-   * For snake drafts:
-   * - Even rounds reverse the pick order (e.g., pick 12 becomes pick 1)
-   * - Odd rounds maintain normal order
-   */
-  const getDisplayPickNumber = (round: number, actualPickNumber: number) => {
-    const totalManagers = activeDraft.draftOrder.length;
-    if (round % 2 === 0 && activeDraft.isSnakeDraft) {
-      return totalManagers - actualPickNumber + 1;
-    }
-    return actualPickNumber;
-  };
-
   /**
    * Builds a dictionary of pick availability for the draft board
    * A pick is available if:
    * - It is not beyond the higher of current and active overall pick
    * 
-   * For snake drafts:
-   * - Even rounds have reversed pick order but maintain sequential overall numbers
+   * Whatever the draft's order strategy:
+   * - Rounds list their picks in the order they're made, with sequential overall numbers
    * - Pick availability follows the same rules regardless of round type
    * 
    * Returns an object mapping:
@@ -143,15 +128,15 @@ export function DraftPickSelector({
    * 
    * Border Rules:
    * - Left border for first round and normal rounds
-   * - Right border for snake rounds
-   * - Creates visual separation between normal and snake rounds
+   * - Right border for reversed rounds
+   * - Creates visual separation between forward and reversed rounds
    */
   const getPickStyle = (round: number, pickNumber: number, pick: DraftPosition) => {
     const isSelected = round === selectedRound && pickNumber === selectedPick;
     const isCurrent = pick.overallPickNumber === activeDraft.currentOverallPick;
     const isActive = pick.overallPickNumber === activeDraft.activeOverallPick;
     const isAvailable = isPickAvailable(round, pickNumber);
-    const isSnakeRound = round % 2 === 0 && activeDraft.isSnakeDraft;
+    const isReversed = isReversedRound(activeDraft, round);
     const isTraded = pick.tradedTo?.length > 0;
 
     return {
@@ -165,8 +150,8 @@ export function DraftPickSelector({
                isSelected ? theme.colors.primary.main :
                isCurrent ? (pick.managerId === currentUser?.id ? theme.colors.primary.dark : theme.colors.primary.dark) :
                isAvailable ? (mode === 'light' ? 
-                 (isSnakeRound ? theme.colors.background.elevated.light : theme.colors.background.paper.light) :
-                 (isSnakeRound ? theme.colors.background.paper.dark : theme.colors.background.elevated.dark)
+                 (isReversed ? theme.colors.background.elevated.light : theme.colors.background.paper.light) :
+                 (isReversed ? theme.colors.background.paper.dark : theme.colors.background.elevated.dark)
                ) : theme.colors.background.elevated.dark,
       color: isActive ? theme.colors.text.primary.light :
              isSelected || isCurrent ? theme.colors.primary.contrastText :
@@ -178,14 +163,14 @@ export function DraftPickSelector({
                   isSelected ? theme.colors.primary.dark :
                   isCurrent ? theme.colors.primary.dark : 
                   mode === 'light' ? 
-                    (isSnakeRound ? theme.colors.background.elevated.dark : theme.colors.action.hover.light) :
-                    (isSnakeRound ? theme.colors.background.elevated.dark : theme.colors.action.hover.dark),
+                    (isReversed ? theme.colors.background.elevated.dark : theme.colors.action.hover.light) :
+                    (isReversed ? theme.colors.background.elevated.dark : theme.colors.action.hover.dark),
           transform: 'translateY(-1px)',
           transition: 'all 0.2s'
         }
       }),
-      borderLeft: round === 1 || !isSnakeRound ? 1 : 0,
-      borderRight: isSnakeRound ? 1 : 0,
+      borderLeft: round === 1 || !isReversed ? 1 : 0,
+      borderRight: isReversed ? 1 : 0,
       borderColor: 'divider',
       outline: pick.isComplete ? '2px solid' : 'none',
       outlineColor: theme.colors.primary.main,
@@ -272,7 +257,7 @@ export function DraftPickSelector({
               <Box key={round.roundNumber} sx={{ display: 'contents' }}>
                 {round.picks.map((pick) => {
                   const isAvailable = isPickAvailable(round.roundNumber, pick.pickNumber);
-                  const displayNumber = getDisplayPickNumber(round.roundNumber, pick.pickNumber);
+                  const displayNumber = getDisplayPickNumber(activeDraft, pick.pickNumber, round.roundNumber);
                   const managerName = getManagerName(pick);
                   const tradeHistory = getTradeHistory(pick);
                   const tooltipTitle = `Round ${round.roundNumber}, Pick ${displayNumber} (Overall #${pick.overallPickNumber})${tradeHistory ? `\n\n${tradeHistory}` : ''}`;
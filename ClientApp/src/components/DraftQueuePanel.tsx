@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Box, IconButton, List, ListItem, MenuItem, TextField, Typography } from '@mui/material';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import CloseIcon from '@mui/icons-material/Close';
+import { draggable, dropTargetForElements, monitorForElements } from '@atlaskit/pragmatic-drag-and-drop/element/adapter';
+import { combine } from '@atlaskit/pragmatic-drag-and-drop/combine';
+import { reorder } from '@atlaskit/pragmatic-drag-and-drop/reorder';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useTheme } from '../contexts/ThemeContext';
+import { ApiResponse, Manager, Player } from '../types/models';
+import { managerService } from '../services/managerService';
+
+// Marks drag data as coming from the queue so other drop targets can ignore it
+const QUEUE_ITEM = 'draft-queue-item';
+
+interface QueueRowProps {
+  player: Player;
+  index: number;
+  onRemove: (playerId: string) => void;
+  onPlayerClick: (player: Player) => void;
+}
+
+function QueueRow({ player, index, onRemove, onPlayerClick }: QueueRowProps) {
+  const { theme, mode } = useTheme();
+  const ref = useRef<HTMLLIElement | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isDraggedOver, setIsDraggedOver] = useState(false);
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    return combine(
+      draggable({
+        element,
+        getInitialData: () => ({ type: QUEUE_ITEM, index }),
+        onDragStart: () => setIsDragging(true),
+        onDrop: () => setIsDragging(false)
+      }),
+      dropTargetForElements({
+        element,
+        canDrop: ({ source }) => source.data.type === QUEUE_ITEM,
+        getData: () => ({ index }),
+        onDragEnter: () => setIsDraggedOver(true),
+        onDragLeave: () => setIsDraggedOver(false),
+        onDrop: () => setIsDraggedOver(false)
+      })
+    );
+  }, [index]);
+
+  const secondaryText = mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark;
+
+  return (
+    <ListItem
+      ref={ref}
+      sx={{
+        py: 0.5,
+        px: 1,
+        gap: 1,
+        cursor: 'grab',
+        opacity: isDragging ? 0.5 : 1,
+        borderTop: isDraggedOver ? `2px dashed ${theme.colors.pickState.selected.light}` : '2px solid transparent',
+        '&:hover': {
+          bgcolor: mode === 'light' ? theme.colors.action.hover.light : theme.colors.action.hover.dark
+        }
+      }}
+    >
+      <DragIndicatorIcon fontSize="small" sx={{ color: secondaryText }} />
+      <Typography sx={{ minWidth: 24, color: secondaryText }}>{index + 1}.</Typography>
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Typography
+          noWrap
+          sx={{ cursor: 'pointer', fontWeight: 500, '&:hover': { textDecoration: 'underline' } }}
+          onClick={() => onPlayerClick(player)}
+        >
+          {player.name}
+        </Typography>
+        <Typography variant="caption" sx={{ color: secondaryText }}>
+          {[player.position?.join(', '), player.mlbTeam, player.level].filter(Boolean).join(' • ')}
+        </Typography>
+      </Box>
+      <IconButton size="small" onClick={() => onRemove(player.id!)} title="Remove from queue">
+        <CloseIcon fontSize="small" sx={{ color: secondaryText }} />
+      </IconButton>
+    </ListItem>
+  );
+}
+
+interface DraftQueuePanelProps {
+  managers: Manager[];
+  managerId?: string;
+  onManagerChange: (managerId: string) => void;
+  onPlayerClick: (player: Player) => void;
+  onResult?: (message: string, severity: 'success' | 'error') => void;
+}
+
+export function DraftQueuePanel({
+  managers,
+  managerId,
+  onManagerChange,
+  onPlayerClick,
+  onResult
+}: DraftQueuePanelProps) {
+  const queryClient = useQueryClient();
+  const { theme, mode } = useTheme();
+
+  const { data: queueResponse } = useQuery({
+    queryKey: ['managerQueue', managerId],
+    queryFn: () => managerService.getQueue(managerId!),
+    enabled: !!managerId,
+    staleTime: 0
+  });
+
+  const queue = useMemo(() => queueResponse?.value ?? [], [queueResponse?.value]);
+
+  const { mutate: saveQueue } = useMutation({
+    mutationFn: (players: Player[]) => managerService.setQueue(managerId!, players.map(p => p.id!)),
+    onMutate: (players) => {
+      // Show the new order right away rather than snapping back until the save returns
+      queryClient.setQueryData<ApiResponse<Player[]>>(['managerQueue', managerId], old => ({ ...old, value: players }));
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: ['managerQueue', managerId] }),
+    onError: (error) => {
+      onResult?.(`Error saving queue: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: (playerId: string) => managerService.removeFromQueue(managerId!, playerId),
+    onSuccess: (response) => {
+      queryClient.setQueryData(['managerQueue', managerId], response);
+    },
+    onError: (error) => {
+      onResult?.(`Error removing player from queue: ${error instanceof Error ? error.message : 'Unknown error'}`, 'error');
+    }
+  });
+
+  useEffect(() => {
+    return monitorForElements({
+      canMonitor: ({ source }) => source.data.type === QUEUE_ITEM,
+      onDrop: ({ source, location }) => {
+        const target = location.current.dropTargets[0];
+        if (!target) return;
+
+        const startIndex = source.data.index as number;
+        const finishIndex = target.data.index as number;
+        if (startIndex === finishIndex) return;
+
+        saveQueue(reorder({ list: queue, startIndex, finishIndex }));
+      }
+    });
+  }, [queue, saveQueue]);
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: 0, flex: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+        <Typography variant="h6">Draft Queue</Typography>
+        <TextField
+          select
+          size="small"
+          value={managerId ?? ''}
+          onChange={(e) => onManagerChange(e.target.value)}
+          sx={{ minWidth: 160 }}
+        >
+          {managers.map(manager => (
+            <MenuItem key={manager.id} value={manager.id}>
+              {manager.name}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+      {queue.length === 0 ? (
+        <Typography variant="body2" sx={{ color: mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark }}>
+          No players queued. Use the queue button on a player to add them.
+        </Typography>
+      ) : (
+        <List dense sx={{ overflow: 'auto', flex: 1 }}>
+          {queue.map((player, index) => (
+            <QueueRow
+              key={player.id}
+              player={player}
+              index={index}
+              onRemove={(playerId) => removeMutation.mutate(playerId)}
+              onPlayerClick={onPlayerClick}
+            />
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,209 @@
+import { useState } from 'react';
+import { Box, Chip, IconButton, List, ListItem, MenuItem, TextField, Typography } from '@mui/material';
+import GavelIcon from '@mui/icons-material/Gavel';
+import { useQuery } from '@tanstack/react-query';
+import { useTheme } from '../contexts/ThemeContext';
+import { Draft, Manager, Player, PlayerRecommendation, ProspectSource, RankingSource } from '../types/models';
+import { draftService } from '../services/draftService';
+
+const COUNT_OPTIONS = [5, 10, 20];
+
+interface RecommendationRowProps {
+  recommendation: PlayerRecommendation;
+  index: number;
+  onPlayerClick: (player: Player) => void;
+  onDraft?: (player: Player) => void;
+}
+
+function RecommendationRow({ recommendation, index, onPlayerClick, onDraft }: RecommendationRowProps) {
+  const { theme, mode } = useTheme();
+  const { player, eligiblePositions, score, needMultiplier, reasons } = recommendation;
+  const secondaryText = mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark;
+  const positions = eligiblePositions.length > 0 ? eligiblePositions : player.position ?? [];
+
+  return (
+    <ListItem
+      sx={{
+        py: 0.5,
+        px: 1,
+        gap: 1,
+        alignItems: 'flex-start',
+        '&:hover': {
+          bgcolor: mode === 'light' ? theme.colors.action.hover.light : theme.colors.action.hover.dark
+        }
+      }}
+    >
+      <Typography sx={{ minWidth: 24, color: secondaryText }}>{index + 1}.</Typography>
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography
+            noWrap
+            sx={{ cursor: 'pointer', fontWeight: 500, '&:hover': { textDecoration: 'underline' } }}
+            onClick={() => onPlayerClick(player)}
+          >
+            {player.name}
+          </Typography>
+          {needMultiplier > 1 && (
+            <Chip label="Need" size="small" color="success" variant="outlined" sx={{ height: 18, fontSize: '0.7rem' }} />
+          )}
+        </Box>
+        <Typography variant="caption" component="div" sx={{ color: secondaryText }}>
+          {[positions.join(', '), player.mlbTeam, player.level].filter(Boolean).join(' • ')}
+        </Typography>
+        <Typography variant="caption" component="div" sx={{ color: secondaryText, fontStyle: 'italic' }}>
+          {reasons.join(' • ')}
+        </Typography>
+      </Box>
+      <Typography
+        sx={{ fontWeight: 600, fontVariantNumeric: 'tabular-nums' }}
+        title="Composite score out of 100, adjusted for roster needs"
+      >
+        {Math.round(score)}
+      </Typography>
+      {onDraft && (
+        <IconButton size="small" onClick={() => onDraft(player)} title="Draft player">
+          <GavelIcon fontSize="small" sx={{ color: secondaryText }} />
+        </IconButton>
+      )}
+    </ListItem>
+  );
+}
+
+interface DraftRecommendationsProps {
+  activeDraft?: Draft;
+  managers: Manager[];
+  prospectSource: ProspectSource | null;
+  projectionConfig: {
+    source: string | null;
+    category: string | null;
+  };
+  onPlayerClick: (player: Player) => void;
+  onDraft?: (player: Player, managerId: string) => void;
+}
+
+/**
+ * Best-available suggestions for the active pick. Ranking sources are picked here;
+ * the prospect source and projection category follow whatever the player grid is showing.
+ */
+export function DraftRecommendations({
+  activeDraft,
+  managers,
+  prospectSource,
+  projectionConfig,
+  onPlayerClick,
+  onDraft
+}: DraftRecommendationsProps) {
+  const { theme, mode } = useTheme();
+  const [rankingSources, setRankingSources] = useState<RankingSource[]>(Object.values(RankingSource));
+  const [includePersonalRank, setIncludePersonalRank] = useState(true);
+  const [count, setCount] = useState(10);
+
+  const { data: recommendationsResponse, isLoading } = useQuery({
+    queryKey: ['recommendations', rankingSources, prospectSource, projectionConfig, includePersonalRank, count],
+    queryFn: () => draftService.getRecommendations({
+      rankingSources,
+      prospectSource,
+      projectionSource: projectionConfig.source,
+      projectionCategory: projectionConfig.category,
+      includePersonalRank,
+      count
+    }),
+    enabled: !!activeDraft,
+    staleTime: 0
+  });
+
+  const result = recommendationsResponse?.value;
+  const manager = managers.find(m => m.id === result?.managerId);
+  const secondaryText = mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark;
+
+  const toggleRankingSource = (source: RankingSource) => {
+    setRankingSources(prev => prev.includes(source)
+      ? prev.filter(s => s !== source)
+      : [...prev, source]);
+  };
+
+  const openPositions = Object.entries(result?.openPositions ?? {});
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', minHeight: 0, flex: 1 }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+        <Box>
+          <Typography variant="h6">Best Available</Typography>
+          {result && (
+            <Typography variant="caption" sx={{ color: secondaryText }}>
+              Pick {result.overallPickNumber}{manager ? ` • ${manager.name}` : ''}
+            </Typography>
+          )}
+        </Box>
+        <TextField
+          select
+          size="small"
+          value={count}
+          onChange={(e) => setCount(Number(e.target.value))}
+          sx={{ minWidth: 80 }}
+        >
+          {COUNT_OPTIONS.map(option => (
+            <MenuItem key={option} value={option}>
+              Top {option}
+            </MenuItem>
+          ))}
+        </TextField>
+      </Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, mb: 1 }}>
+        {Object.values(RankingSource).map(source => (
+          <Chip
+            key={source}
+            label={source}
+            size="small"
+            color={rankingSources.includes(source) ? 'primary' : 'default'}
+            variant={rankingSources.includes(source) ? 'filled' : 'outlined'}
+            onClick={() => toggleRankingSource(source)}
+          />
+        ))}
+        <Chip
+          label="Personal"
+          size="small"
+          color={includePersonalRank ? 'primary' : 'default'}
+          variant={includePersonalRank ? 'filled' : 'outlined'}
+          onClick={() => setIncludePersonalRank(prev => !prev)}
+        />
+        {prospectSource && <Chip label={`${prospectSource} prospects`} size="small" variant="outlined" />}
+        {projectionConfig.source && projectionConfig.category && (
+          <Chip label={`${projectionConfig.source} ${projectionConfig.category}`} size="small" variant="outlined" />
+        )}
+      </Box>
+      {openPositions.length > 0 && (
+        <Typography variant="caption" sx={{ color: secondaryText, mb: 1 }}>
+          Needs: {openPositions.map(([position, open]) => `${position}${open > 1 ? ` ×${open}` : ''}`).join(', ')}
+        </Typography>
+      )}
+      {!activeDraft ? (
+        <Typography variant="body2" sx={{ color: secondaryText }}>
+          No active draft.
+        </Typography>
+      ) : isLoading ? (
+        <Typography variant="body2" sx={{ color: secondaryText }}>
+          Loading suggestions...
+        </Typography>
+      ) : !result?.recommendations.length ? (
+        <Typography variant="body2" sx={{ color: secondaryText }}>
+          No ranked players available.
+        </Typography>
+      ) : (
+        <List dense sx={{ overflow: 'auto', flex: 1 }}>
+          {result.recommendations.map((recommendation, index) => (
+            <RecommendationRow
+              key={recommendation.player.id}
+              recommendation={recommendation}
+              index={index}
+              onPlayerClick={onPlayerClick}
+              onDraft={onDraft && result.managerId
+                ? (player) => onDraft(player, result.managerId!)
+                : undefined}
+            />
+          ))}
+        </List>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,132 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Divider,
+  MenuItem,
+  TextField
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTheme } from '../contexts/ThemeContext';
+import { leagueService } from '../services/leagueService';
+
+const NEW_LEAGUE = '__new';
+
+interface LeagueSwitcherProps {
+  leagueId: string | null;
+  onChange: (leagueId: string) => void;
+}
+
+/**
+ * Picks the league the whole app works in, and creates new ones. With nothing chosen yet the
+ * server's default league is shown as selected.
+ */
+export const LeagueSwitcher: React.FC<LeagueSwitcherProps> = ({ leagueId, onChange }) => {
+  const queryClient = useQueryClient();
+  const { theme, mode } = useTheme();
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [name, setName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const { data } = useQuery({
+    queryKey: ['leagues'],
+    queryFn: leagueService.getAll
+  });
+  const leagues = data?.value ?? [];
+  const selectedId = leagueId ?? data?.defaultLeagueId ?? '';
+
+  // A league deleted since it was chosen falls back to the default
+  useEffect(() => {
+    if (data?.defaultLeagueId && leagueId && !data.value.some(l => l.id === leagueId)) {
+      onChange(data.defaultLeagueId);
+    }
+  }, [data, leagueId, onChange]);
+
+  const createMutation = useMutation({
+    mutationFn: () => leagueService.create(name.trim()),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['leagues'] });
+      setDialogOpen(false);
+      onChange(response.value.id!);
+    },
+    onError: (error) => {
+      setError(`Error creating league: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  const openDialog = () => {
+    setName('');
+    setError(null);
+    setDialogOpen(true);
+  };
+
+  const dialogBgColor = mode === 'light' ? theme.colors.background.elevated.light : theme.colors.background.elevated.dark;
+
+  return (
+    <>
+      <TextField
+        select
+        size="small"
+        value={leagues.length > 0 ? selectedId : ''}
+        onChange={(e) => (e.target.value === NEW_LEAGUE ? openDialog() : onChange(e.target.value))}
+        sx={{
+          minWidth: 180,
+          marginRight: '16px',
+          '& .MuiInputBase-root': { color: 'white' },
+          '& .MuiOutlinedInput-notchedOutline': { borderColor: 'rgba(255, 255, 255, 0.5)' },
+          '& .MuiSvgIcon-root': { color: 'white' }
+        }}
+        SelectProps={{ displayEmpty: true }}
+      >
+        {leagues.length === 0 && <MenuItem value="" disabled>Loading leagues...</MenuItem>}
+        {leagues.map(league => (
+          <MenuItem key={league.id} value={league.id}>{league.name}</MenuItem>
+        ))}
+        <Divider />
+        <MenuItem value={NEW_LEAGUE}>
+          <AddIcon fontSize="small" sx={{ mr: 1 }} />
+          New League
+        </MenuItem>
+      </TextField>
+
+      <Dialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        maxWidth="xs"
+        fullWidth
+        PaperProps={{ sx: { bgcolor: dialogBgColor } }}
+      >
+        <DialogTitle>New League</DialogTitle>
+        <DialogContent>
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>
+          )}
+          <TextField
+            autoFocus
+            fullWidth
+            label="League Name"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            helperText="Starts with no managers or drafts, and default settings"
+            sx={{ mt: 1 }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            onClick={() => createMutation.mutate()}
+            disabled={!name.trim() || createMutation.isPending}
+          >
+            Create
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </>
+  );
+};
@@ -1,11 +1,14 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { DataGrid, GridActionsCellItem } from '@mui/x-data-grid';
-import { Box, CircularProgress, Alert, Button, Dialog, DialogTitle, DialogContent, DialogActions, TextField, Snackbar, Checkbox, FormControlLabel, Typography, useTheme as useMuiTheme } from '@mui/material';
+import { Box, CircularProgress, Alert, Button, Dialog, DialogTitle, DialogContent, DialogActions, TextField, Snackbar, MenuItem, useTheme as useMuiTheme } from '@mui/material';
 import { useTheme } from '../contexts/ThemeContext';
 import DeleteIcon from '@mui/icons-material/Delete';
 import EditIcon from '@mui/icons-material/Edit';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
 import { managerService } from '../services/managerService';
+import { userService } from '../services/userService';
 import { Manager } from '../types/models';
+import { ManagerPicksDialog } from './ManagerPicksDialog';
 import { useState } from 'react';
 
 interface ManagerListProps {
@@ -20,10 +23,11 @@ export function ManagerList({ dialogOpen, toggleDialog }: ManagerListProps) {
     name: '',
     teamName: '',
     email: '',
-    isUser: false
+    userId: null
   };
 
   const [editManager, setEditManager] = useState<Manager | null>(null);
+  const [picksManager, setPicksManager] = useState<Manager | null>(null);
   const [newManager, setNewManager] = useState<Omit<Manager, 'id'>>(initialManagerState);
   const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({
     open: false,
@@ -38,7 +42,17 @@ export function ManagerList({ dialogOpen, toggleDialog }: ManagerListProps) {
     queryFn: () => managerService.getAll(),
   });
 
-  const hasUserManager = response?.value?.some(m => m.isUser) ?? false;
+  const { data: usersResponse } = useQuery({
+    queryKey: ['users'],
+    queryFn: () => userService.getAll(),
+  });
+
+  const users = usersResponse?.value ?? [];
+  const selectedUserId = (editManager ? editManager.userId : newManager.userId) ?? '';
+  // An account manages one team per league
+  const linkedUserIds = new Set(
+    (response?.value ?? []).filter(m => m.userId && m.id !== editManager?.id).map(m => m.userId)
+  );
 
   const deleteMutation = useMutation({
     mutationFn: (id: string) => managerService.delete(id),
@@ -164,23 +178,23 @@ export function ManagerList({ dialogOpen, toggleDialog }: ManagerListProps) {
             fullWidth
             type="email"
           />
-          <FormControlLabel
-            control={
-              <Checkbox
-                checked={editManager?.isUser ?? newManager.isUser}
-                onChange={(e) => editManager
-                  ? setEditManager({ ...editManager, isUser: e.target.checked })
-                  : setNewManager({ ...newManager, isUser: e.target.checked })}
-                disabled={hasUserManager && !(editManager?.isUser ?? newManager.isUser)}
-              />
-            }
-            label="Is Current User"
-          />
-          {hasUserManager && !newManager.isUser && (
-            <Typography variant="caption" color="text.secondary">
-              A user manager already exists. Only one manager can be marked as the current user.
-            </Typography>
-          )}
+          <TextField
+            select
+            label="Account"
+            value={selectedUserId}
+            onChange={(e) => editManager
+              ? setEditManager({ ...editManager, userId: e.target.value || null })
+              : setNewManager({ ...newManager, userId: e.target.value || null })}
+            helperText="The account that picks and trades for this manager"
+            fullWidth
+          >
+            <MenuItem value="">No account</MenuItem>
+            {users.map(account => (
+              <MenuItem key={account.id} value={account.id} disabled={linkedUserIds.has(account.id!)}>
+                {account.username}
+              </MenuItem>
+            ))}
+          </TextField>
         </Box>
       </DialogContent>
       <DialogActions>
@@ -314,8 +328,20 @@ export function ManagerList({ dialogOpen, toggleDialog }: ManagerListProps) {
             field: 'actions',
             type: 'actions',
             headerName: 'Actions',
-            width: 100,
+            width: 150,
             getActions: (params) => [
+              <GridActionsCellItem
+                icon={<SwapHorizIcon sx={{ 
+                  color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark,
+                  '&:hover': {
+                    transform: 'scale(1.2)',
+                    transition: 'transform 0.2s'
+                  }
+                }} />}
+                label="Picks"
+                onClick={() => setPicksManager(params.row)}
+                title="Show this manager's picks and trades"
+              />,
               <GridActionsCellItem
                 icon={<EditIcon sx={{ 
                   color: mode === 'light' ? theme.colors.pickState.current.light : theme.colors.pickState.current.dark,
@@ -350,6 +376,11 @@ export function ManagerList({ dialogOpen, toggleDialog }: ManagerListProps) {
         ]}
       />
       {renderManagerDialog()}
+      <ManagerPicksDialog
+        manager={picksManager}
+        managers={managers}
+        onClose={() => setPicksManager(null)}
+      />
       <Snackbar
         open={snackbar.open}
         autoHideDuration={6000}
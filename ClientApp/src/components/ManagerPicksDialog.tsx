@@ -0,0 +1,161 @@
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Button,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography
+} from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { useTheme } from '../contexts/ThemeContext';
+import { managerService } from '../services/managerService';
+import { Manager, PickOwnership, PickOwnershipStatus } from '../types/models';
+
+interface ManagerPicksDialogProps {
+  manager: Manager | null;
+  managers: Manager[];
+  onClose: () => void;
+}
+
+const STATUS_LABELS: Record<PickOwnershipStatus, string> = {
+  [PickOwnershipStatus.Owned]: 'Own',
+  [PickOwnershipStatus.Acquired]: 'Acquired',
+  [PickOwnershipStatus.TradedAway]: 'Traded Away'
+};
+
+const STATUS_COLORS: Record<PickOwnershipStatus, 'default' | 'success' | 'warning'> = {
+  [PickOwnershipStatus.Owned]: 'default',
+  [PickOwnershipStatus.Acquired]: 'success',
+  [PickOwnershipStatus.TradedAway]: 'warning'
+};
+
+const describePick = (pick: PickOwnership) =>
+  pick.overallPickNumber
+    ? `Round ${pick.round}, Pick ${pick.pickNumber} (#${pick.overallPickNumber})`
+    : `Round ${pick.round}`;
+
+/**
+ * Every pick a manager owns or has traded away, grouped by draft year, with the trades that moved each one
+ */
+export function ManagerPicksDialog({ manager, managers, onClose }: ManagerPicksDialogProps) {
+  const { theme, mode } = useTheme();
+  const textSecondary = mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark;
+
+  const { data: response, isLoading, error } = useQuery({
+    queryKey: ['managerPicks', manager?.id],
+    queryFn: () => managerService.getPicks(manager!.id!),
+    enabled: !!manager?.id,
+    staleTime: 0
+  });
+
+  const picks = response?.value ?? [];
+  const picksByYear = picks.reduce((acc, pick) => {
+    (acc[pick.year] ??= []).push(pick);
+    return acc;
+  }, {} as Record<number, PickOwnership[]>);
+
+  const getManagerName = (managerId: string) =>
+    managers.find(m => m.id === managerId)?.name ?? 'Unknown Manager';
+
+  const countByStatus = (status: PickOwnershipStatus) => picks.filter(p => p.status === status).length;
+
+  return (
+    <Dialog open={!!manager} onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>{manager?.name}'s Picks</DialogTitle>
+      <DialogContent dividers>
+        {isLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && (
+          <Alert severity="error">
+            Error loading picks: {error instanceof Error ? error.message : 'Unknown error'}
+          </Alert>
+        )}
+
+        {!isLoading && !error && picks.length === 0 && (
+          <Alert severity="info">This manager has no picks in any draft</Alert>
+        )}
+
+        {picks.length > 0 && (
+          <Box sx={{ display: 'flex', gap: 1, mb: 2 }}>
+            {Object.values(PickOwnershipStatus).map(status => (
+              <Chip
+                key={status}
+                label={`${STATUS_LABELS[status]}: ${countByStatus(status)}`}
+                color={STATUS_COLORS[status]}
+                size="small"
+              />
+            ))}
+          </Box>
+        )}
+
+        {Object.entries(picksByYear).map(([year, yearPicks]) => (
+          <Box key={year} sx={{ mb: 3 }}>
+            <Typography variant="h6">
+              {year}
+              {yearPicks.every(p => !p.draftId) && (
+                <Typography component="span" variant="body2" sx={{ color: textSecondary, ml: 1 }}>
+                  Draft not created yet
+                </Typography>
+              )}
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Pick</TableCell>
+                  <TableCell>Status</TableCell>
+                  <TableCell>Original Owner</TableCell>
+                  <TableCell>Current Owner</TableCell>
+                  <TableCell>Trade History</TableCell>
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {yearPicks.map(pick => (
+                  <TableRow key={pick.futurePickId ?? `${pick.draftId}-${pick.overallPickNumber}`}>
+                    <TableCell>
+                      {describePick(pick)}
+                      {pick.isComplete && (
+                        <Typography variant="caption" sx={{ color: textSecondary, display: 'block' }}>
+                          Used
+                        </Typography>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Chip label={STATUS_LABELS[pick.status]} color={STATUS_COLORS[pick.status]} size="small" />
+                    </TableCell>
+                    <TableCell>{getManagerName(pick.originalManagerId)}</TableCell>
+                    <TableCell>{getManagerName(pick.currentOwnerId)}</TableCell>
+                    <TableCell>
+                      {pick.timeline.length === 0 ? (
+                        <Typography variant="body2" sx={{ color: textSecondary }}>Never traded</Typography>
+                      ) : pick.timeline.map((event, index) => (
+                        <Typography key={`${event.tradeId}-${index}`} variant="body2">
+                          {new Date(event.timestamp).toLocaleDateString()}: {getManagerName(event.fromManagerId)} → {getManagerName(event.toManagerId)}
+                        </Typography>
+                      ))}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </Box>
+        ))}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+import { Box, Typography } from '@mui/material';
+import TimerIcon from '@mui/icons-material/Timer';
+import { PickClockCountdown } from '../hooks/usePickClock';
+import { formatClockTime } from '../utils/draftUtils';
+
+// Start warning once this little time is left on the pick
+const WARNING_SECONDS = 15;
+
+interface PickClockDisplayProps {
+  clock: PickClockCountdown;
+  compact?: boolean;
+}
+
+export function PickClockDisplay({ clock, compact = false }: PickClockDisplayProps) {
+  const { status, pickSecondsRemaining, timeBankRemaining, totalSecondsRemaining } = clock;
+
+  if (!status?.enabled || status.overallPickNumber == null) return null;
+
+  const inTimeBank = pickSecondsRemaining === 0;
+  const color = totalSecondsRemaining <= WARNING_SECONDS || inTimeBank ? 'error.main' : 'inherit';
+
+  if (compact) {
+    return (
+      <Typography
+        variant="caption"
+        sx={{ fontWeight: 700, fontVariantNumeric: 'tabular-nums', color, opacity: status.isPaused ? 0.6 : 1 }}
+      >
+        {formatClockTime(inTimeBank ? timeBankRemaining : pickSecondsRemaining)}
+        {inTimeBank && ' bank'}
+        {status.isPaused && ' ⏸'}
+      </Typography>
+    );
+  }
+
+  return (
+    <Box
+      sx={{ display: 'flex', alignItems: 'center', gap: 0.5, color, opacity: status.isPaused ? 0.6 : 1 }}
+      title={status.isPaused ? 'Pick clock paused' : 'Time left on this pick'}
+    >
+      <TimerIcon fontSize="small" />
+      <Typography variant="h6" sx={{ fontWeight: 600, fontVariantNumeric: 'tabular-nums' }}>
+        {formatClockTime(pickSecondsRemaining)}
+      </Typography>
+      {(timeBankRemaining > 0 || inTimeBank) && (
+        <Typography variant="body2" sx={{ opacity: 0.8, fontVariantNumeric: 'tabular-nums' }}>
+          + {formatClockTime(timeBankRemaining)} bank
+        </Typography>
+      )}
+      {status.isPaused && (
+        <Typography variant="body2" sx={{ opacity: 0.8 }}>
+          (paused)
+        </Typography>
+      )}
+    </Box>
+  );
+}
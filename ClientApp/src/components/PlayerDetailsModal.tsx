@@ -1,10 +1,14 @@
 import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, Typography, Tabs, Tab, Divider, Select, MenuItem, SelectChangeEvent } from '@mui/material';
 import { useTheme } from '../contexts/ThemeContext';
-import { Player, ScoutingGrades, ProjectionData } from '../types/models';
+import { Player, ScoutingGrades, ProjectionData, ValuationMethod } from '../types/models';
 import { useState, useEffect } from 'react';
 import { formatAgeDisplay } from '../utils/dateUtils';
 import { formatPositionStats } from '../utils/positionUtils';
 import { StarRating } from './StarRating';
+import { useLeagueSettings } from '../hooks/useLeagueSettings';
+import { SCORING_FORMAT_LABELS } from '../utils/scoringUtils';
+import { useQuery } from '@tanstack/react-query';
+import { playerAnnotationService } from '../services/playerAnnotationService';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -101,12 +105,13 @@ const formatStatValue = (key: string, value: number) => {
   return value.toFixed(3);
 };
 
-const renderStatGroup = (group: StatGroup, stats: Record<string, number>) => {
+const renderStatGroup = (group: StatGroup, stats: Record<string, number>, scoredStats: string[]) => {
   const groupStats = Object.entries(stats)
     .filter(([key]) => group.stats.includes(key.toLowerCase()))
     .map(([key, value]) => ({
       key: group.displayNames?.[key.toLowerCase()] || key,
-      value: formatStatValue(key, value)
+      value: formatStatValue(key, value),
+      isScored: scoredStats.includes(key.toLowerCase())
     }));
 
   if (groupStats.length === 0) return null;
@@ -133,12 +138,17 @@ const renderStatGroup = (group: StatGroup, stats: Record<string, number>) => {
           }
           return (
             <Box key={stat.key} sx={{ display: 'flex', flexDirection: 'column' }}>
-              <Typography variant="subtitle2" color="text.secondary" sx={{ 
-                fontWeight: 500,
-                textAlign: 'center',
-                mb: 0.75,
-                minHeight: '20px'
-              }}>
+              <Typography
+                variant="subtitle2"
+                color={stat.isScored ? 'primary' : 'text.secondary'}
+                title={stat.isScored ? 'League scoring category' : undefined}
+                sx={{ 
+                  fontWeight: stat.isScored ? 700 : 500,
+                  textAlign: 'center',
+                  mb: 0.75,
+                  minHeight: '20px'
+                }}
+              >
                 {stat.key}
               </Typography>
               <Typography variant="body1" sx={{ 
@@ -157,7 +167,12 @@ const renderStatGroup = (group: StatGroup, stats: Record<string, number>) => {
   );
 };
 
-const formatProjections = (projections: Record<string, ProjectionData> | undefined, isPitcher: boolean, showBoth: boolean) => {
+const formatProjections = (
+  projections: Record<string, ProjectionData> | undefined,
+  isPitcher: boolean,
+  showBoth: boolean,
+  scoredStats: { hitter: string[]; pitcher: string[] }
+) => {
   if (!projections) return null;
 
   const pitcherGroups: StatGroup[] = [
@@ -218,7 +233,7 @@ const formatProjections = (projections: Record<string, ProjectionData> | undefin
                   Hitting Projections
                 </Typography>
               )}
-              {hitterGroups.map((group) => data.hitter?.stats && renderStatGroup(group, data.hitter.stats))}
+              {hitterGroups.map((group) => data.hitter?.stats && renderStatGroup(group, data.hitter.stats, scoredStats.hitter))}
             </Box>
           )}
 
@@ -230,7 +245,7 @@ const formatProjections = (projections: Record<string, ProjectionData> | undefin
                   Pitching Projections
                 </Typography>
               )}
-              {pitcherGroups.map((group) => data.pitcher?.stats && renderStatGroup(group, data.pitcher.stats))}
+              {pitcherGroups.map((group) => data.pitcher?.stats && renderStatGroup(group, data.pitcher.stats, scoredStats.pitcher))}
             </Box>
           )}
         </Box>
@@ -244,6 +259,14 @@ export function PlayerDetailsModal({ player, open, onClose }: PlayerDetailsModal
   const [tabValue, setTabValue] = useState(0);
   const [selectedProjection, setSelectedProjection] = useState<string>('');
   const { theme } = useTheme();
+  const { settings } = useLeagueSettings();
+
+  const { data: sharedNotesResponse } = useQuery({
+    queryKey: ['sharedNotes', player?.id],
+    queryFn: () => playerAnnotationService.getSharedNotes(player!.id!),
+    enabled: open && !!player?.id
+  });
+  const sharedNotes = sharedNotesResponse?.value ?? [];
 
   // Reset tab value when modal closes
   useEffect(() => {
@@ -273,6 +296,12 @@ export function PlayerDetailsModal({ player, open, onClose }: PlayerDetailsModal
   const isPitcher = player.position?.includes('P') || (hasPitcherStats && !hasHitterStats) || false;
   const isTWP = player.position?.includes('TWP') || (hasPitcherStats && hasHitterStats) || false;
 
+  // Scoring categories are highlighted in the projections
+  const scoredStats = {
+    hitter: (settings?.hitterCategories ?? []).map(c => c.stat.toLowerCase()),
+    pitcher: (settings?.pitcherCategories ?? []).map(c => c.stat.toLowerCase())
+  };
+
   // ... (keep all the JSX the same until the Projections tab)
 
   return (
@@ -369,6 +398,27 @@ export function PlayerDetailsModal({ player, open, onClose }: PlayerDetailsModal
                 </Typography>
               </Box>
             ))}
+            {player.valuation && (
+              <Box>
+                <Typography variant="subtitle2" color="text.secondary">
+                  Dollar Value ({player.valuation.method === ValuationMethod.Sgp ? 'SGP' : 'Z-Score'}, {player.valuation.projectionSource})
+                </Typography>
+                <Typography variant="body1">
+                  ${player.valuation.dollarValue.toFixed(1)} at {player.valuation.position}
+                  {' '}({player.valuation.valueAboveReplacement >= 0 ? '+' : ''}{player.valuation.valueAboveReplacement.toFixed(2)} over replacement)
+                </Typography>
+              </Box>
+            )}
+            {player.leagueValue !== null && player.leagueValue !== undefined && (
+              <Box>
+                <Typography variant="subtitle2" color="text.secondary">
+                  League Value{settings && ` (${SCORING_FORMAT_LABELS[settings.scoringFormat]})`}
+                </Typography>
+                <Typography variant="body1">
+                  {player.leagueValue.toFixed(2)}
+                </Typography>
+              </Box>
+            )}
             {player.personalRank && (
               <Box>
                 <Typography variant="subtitle2" color="text.secondary">
@@ -533,7 +583,8 @@ export function PlayerDetailsModal({ player, open, onClose }: PlayerDetailsModal
               {selectedProjection && formatProjections(
                 { [selectedProjection]: player.projections[selectedProjection] },
                 isPitcher,
-                isTWP
+                isTWP,
+                scoredStats
               )}
             </Box>
           ) : (
@@ -550,6 +601,26 @@ export function PlayerDetailsModal({ player, open, onClose }: PlayerDetailsModal
             <Typography variant="body1">
               {player.notes || 'No notes available'}
             </Typography>
+
+            {/* Notes others in the league have shared */}
+            {sharedNotes.length > 0 && (
+              <>
+                <Divider />
+                <Typography variant="h6">League Notes</Typography>
+                {sharedNotes.map(note => (
+                  <Box key={note.userId}>
+                    <Typography variant="subtitle2" color="text.secondary">
+                      {note.managerName ? `${note.managerName} (${note.username})` : note.username}
+                      {' - '}
+                      {new Date(note.updatedAt).toLocaleDateString()}
+                    </Typography>
+                    <Typography variant="body1" sx={{ whiteSpace: 'pre-wrap' }}>
+                      {note.notes}
+                    </Typography>
+                  </Box>
+                ))}
+              </>
+            )}
           </Box>
         </TabPanel>
       </DialogContent>
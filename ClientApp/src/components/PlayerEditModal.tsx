@@ -1,4 +1,4 @@
-import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, TextField, Typography } from '@mui/material';
+import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, TextField, Typography, Checkbox, FormControlLabel } from '@mui/material';
 import { Player, ScoutingGrades } from '../types/models';
 import { useState } from 'react';
 import { StarRating } from './StarRating';
@@ -134,6 +134,16 @@ export function PlayerEditModal({ player, open, onClose, onSave }: PlayerEditMod
             multiline
             rows={4}
           />
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={editedPlayer.isNoteShared ?? false}
+                onChange={(e) => setEditedPlayer({ ...editedPlayer, isNoteShared: e.target.checked })}
+              />
+            }
+            label="Share notes with the league"
+            sx={{ mt: -2 }}
+          />
         </Box>
       </DialogContent>
       <DialogActions>
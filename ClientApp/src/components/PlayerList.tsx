@@ -1,22 +1,37 @@
-import { Box, CircularProgress, Alert, Snackbar, Popover, Paper, useTheme as useMuiTheme } from '@mui/material';
+import { Box, Button, CircularProgress, Alert, Snackbar, Popover, Paper, Tabs, Tab, useTheme as useMuiTheme } from '@mui/material';
+import LayersIcon from '@mui/icons-material/Layers';
 import { useTheme } from '../contexts/ThemeContext';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { useDebounce } from '../hooks/useDebounce';
-import { Player, Manager, ApiResponse, Draft, PaginatedResult, RankingSource, ProspectSource, ProjectionSource } from '../types/models';
+import { useLeagueSettings } from '../hooks/useLeagueSettings';
+import { useTierSets } from '../hooks/useTierSets';
+import { Player, Manager, ApiResponse, Draft, PaginatedResult, RankingSource, ProspectSource, ProjectionSource, ALL_POSITIONS } from '../types/models';
 import { PickResponse } from '../services/draftService';
 import { playerService, PlayerFilters } from '../services/playerService';
 import { draftService } from '../services/draftService';
 import { managerService } from '../services/managerService';
+import { auctionService } from '../services/auctionService';
+import { playerAnnotationService } from '../services/playerAnnotationService';
+import { tierService } from '../services/tierService';
+import { useAuth } from '../contexts/AuthContext';
+import { useAuction } from '../hooks/useAuction';
 import { config } from '../config/config';
 import { DraftPickSelector } from './DraftPickSelector';
+import { AuctionPanel } from './AuctionPanel';
 import { PlayerListToolbar } from './PlayerListToolbar';
 import { PlayerListGrid } from './PlayerListGrid';
 import { PlayerListDialogs } from './PlayerListDialogs';
 import { UserDraftedPlayers } from './UserDraftedPlayers';
+import { DraftQueuePanel } from './DraftQueuePanel';
+import { DraftRecommendations } from './DraftRecommendations';
 import { SearchInput } from './SearchInput';
+import { TierEditor } from './TierEditor';
 import { PlayerListFilters } from './PlayerListFilters';
 import { MLB_TEAMS, LEVELS } from './PlayerListFilters';
+import { getScoringCategories } from '../utils/scoringUtils';
+import { getPicksInOrder } from '../utils/draftUtils';
+import { getTierPositionLabel } from '../utils/tierUtils';
 
 // Helper function to log pick state
 const logPickState = (activeDraft: Draft | undefined | null, context: string) => {
@@ -34,6 +49,8 @@ const logPickState = (activeDraft: Draft | undefined | null, context: string) =>
 export function PlayerList() {
   const muiTheme = useMuiTheme();
   const { theme, mode } = useTheme();
+  const { settings: leagueSettings } = useLeagueSettings();
+  const scoringStats = useMemo(() => getScoringCategories(leagueSettings).map(c => c.stat), [leagueSettings]);
   // State
   const [snackbar, setSnackbar] = useState<{ open: boolean; message: string; severity: 'success' | 'error' }>({
     open: false,
@@ -58,7 +75,9 @@ export function PlayerList() {
   const [pickSelectorAnchor, setPickSelectorAnchor] = useState<HTMLElement | null>(null);
   const [addDialogOpen, setAddDialogOpen] = useState(false);
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
+  const [tierEditorOpen, setTierEditorOpen] = useState(false);
   const queryClient = useQueryClient();
+  const { isCommissioner } = useAuth();
   // Queries
   const { data: managersResponse } = useQuery({
     queryKey: ['managers'],
@@ -113,14 +132,48 @@ export function PlayerList() {
     retry: false // Don't retry failed searches
   });
 
+  // Tiers follow the grid's position filter; pitchers are tiered together
+  const { getBreaks } = useTierSets();
+  const rankingSource = filters.rankingSource ?? null;
+  const tierPosition = filters.playerType === 'pitchers' ? 'P' : filters.position || ALL_POSITIONS;
+  const tierBreaks = rankingSource ? getBreaks(tierPosition, rankingSource) : undefined;
+  const overallTierBreaks = rankingSource ? getBreaks(ALL_POSITIONS, rankingSource) : undefined;
+
+  // Kept under 'players' so it's checked again whenever a pick changes who's available
+  const { data: tierAlertsResponse } = useQuery({
+    queryKey: ['players', 'tierAlerts', rankingSource],
+    queryFn: () => tierService.getAlerts(rankingSource!),
+    enabled: !!rankingSource && !!activeDraftResponse?.value,
+    staleTime: 0
+  });
+  const tierAlerts = tierAlertsResponse?.value ?? [];
+
   const managers = managersResponse?.value ?? [];
   const activeDraft = activeDraftResponse?.value;
   const currentPick = currentPickResponse?.value;
+  const { status: auctionStatus } = useAuction(activeDraft);
   const currentUser = useMemo(() => 
     managersResponse?.value?.find((m: Manager) => m.isUser), 
     [managersResponse?.value]
   );
 
+  // Whose queue the side panel shows and the grid's queue buttons edit; defaults to the user's
+  const [queueManagerId, setQueueManagerId] = useState<string | undefined>();
+  const [sidePanelTab, setSidePanelTab] = useState<'recommendations' | 'queue'>('recommendations');
+  const activeQueueManagerId = queueManagerId ?? currentUser?.id;
+
+  const { data: queueResponse } = useQuery({
+    queryKey: ['managerQueue', activeQueueManagerId],
+    queryFn: () => managerService.getQueue(activeQueueManagerId!),
+    enabled: !!activeQueueManagerId,
+    staleTime: 0
+  });
+
+  const queuedPlayerIds = useMemo(
+    () => (queueResponse?.value ?? []).map(p => p.id!),
+    [queueResponse?.value]
+  );
+
   // Mutations
   const advancePickMutation = useMutation<ApiResponse<PickResponse>, Error, boolean>({
     mutationFn: async (skipCompleted) => {
@@ -195,10 +248,9 @@ export function PlayerList() {
     const lastRound = activeDraft.rounds[activeDraft.rounds.length - 1];
     if (!lastRound) return false;
 
+    const lastRoundPicks = getPicksInOrder(lastRound);
     const isLastPick = activeDraft.activeRound === lastRound.roundNumber && 
-      activeDraft.activePick === (lastRound.roundNumber % 2 === 0 && activeDraft.isSnakeDraft
-        ? Math.min(...lastRound.picks.map(p => p.pickNumber))
-        : Math.max(...lastRound.picks.map(p => p.pickNumber)));
+      activeDraft.activePick === lastRoundPicks[lastRoundPicks.length - 1]?.pickNumber;
 
     return !isLastPick;
   }, [activeDraft]);
@@ -218,9 +270,7 @@ export function PlayerList() {
       if (round.roundNumber < activeRound) return false;
       if (round.roundNumber > activeRound) return round.picks.some(p => !p.isComplete);
       
-      const picks = round.roundNumber % 2 === 0 && activeDraft.isSnakeDraft
-        ? [...round.picks].sort((a, b) => b.pickNumber - a.pickNumber)
-        : [...round.picks].sort((a, b) => a.pickNumber - b.pickNumber);
+      const picks = getPicksInOrder(round);
         
       return picks
         .slice(picks.findIndex(p => p.pickNumber === activeDraft.activePick) + 1)
@@ -232,6 +282,9 @@ export function PlayerList() {
 
   // Determines if a player can be drafted with the active pick
   const canDraft = useCallback((playerId: string) => {
+    // In an auction the draft button nominates, which waits for the current player to sell
+    if (activeDraft?.auction) return !!auctionStatus?.nominatorId && !auctionStatus.currentLot;
+
     if (!activeDraft?.activeRound || !activeDraft?.activePick) return false;
 
     // Get the pick we're trying to draft from
@@ -245,7 +298,7 @@ export function PlayerList() {
     if (pick.isComplete) return false;
 
     return true;
-  }, [activeDraft]);
+  }, [activeDraft, auctionStatus]);
 
   const handleUndraftClick = async (playerId: string) => {
     if (!activeDraft) return;
@@ -279,7 +332,25 @@ export function PlayerList() {
     }
   };
 
+  const handleNominate = async (playerId: string, managerId: string) => {
+    try {
+      const response = await auctionService.nominate(managerId, playerId, auctionStatus?.minimumBid ?? 1);
+      queryClient.setQueryData(['auction'], response);
+    } catch (error) {
+      setSnackbar({
+        open: true,
+        message: `Error nominating player: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        severity: 'error'
+      });
+    }
+  };
+
   const handleDraftClick = async (playerId: string, managerId: string) => {
+    if (activeDraft?.auction) {
+      await handleNominate(playerId, managerId);
+      return;
+    }
+
     if (!activeDraft?.activeRound || !activeDraft?.activePick || !activeDraft?.activeOverallPick) return;
 
     if (config.debug.enableConsoleLogging) {
@@ -311,7 +382,9 @@ export function PlayerList() {
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ['activeDraft'] }),
         queryClient.invalidateQueries({ queryKey: ['currentPick'] }),
-        queryClient.invalidateQueries({ queryKey: ['players'] })
+        queryClient.invalidateQueries({ queryKey: ['players'] }),
+        queryClient.invalidateQueries({ queryKey: ['managerQueue'] }),
+        queryClient.invalidateQueries({ queryKey: ['recommendations'] })
       ]);
       
       // Now get the fresh data
@@ -367,15 +440,25 @@ export function PlayerList() {
 
   const handleSaveEdit = async (updatedPlayer: Player) => {
     try {
-      const response = await playerService.update(updatedPlayer.id!, updatedPlayer);
-      if (response) {
+      // Notes, stars and rank are the signed-in account's own; the rest of the player is shared
+      // and only commissioners can change it
+      await playerAnnotationService.update(updatedPlayer.id!, {
+        notes: updatedPlayer.notes || null,
+        personalRank: updatedPlayer.personalRank ?? null,
+        starsRating: updatedPlayer.starsRating ?? null,
+        isNoteShared: updatedPlayer.isNoteShared ?? false
+      });
+      await queryClient.invalidateQueries({ queryKey: ['playerAnnotations'] });
+      if (isCommissioner) {
+        const response = await playerService.update(updatedPlayer.id!, updatedPlayer);
+        if (!response) {
+          throw new Error('Failed to update player');
+        }
         await queryClient.invalidateQueries({ queryKey: ['players'] });
-        setEditModalOpen(false);
-        setSelectedPlayer(null);
-        setSnackbar({ open: true, message: 'Player updated successfully', severity: 'success' });
-      } else {
-        throw new Error('Failed to update player');
       }
+      setEditModalOpen(false);
+      setSelectedPlayer(null);
+      setSnackbar({ open: true, message: 'Player updated successfully', severity: 'success' });
     } catch (error) {
       setSnackbar({ 
         open: true, 
@@ -403,8 +486,8 @@ export function PlayerList() {
 
   const handleToggleHighlight = async (id: string) => {
     try {
-      await playerService.toggleHighlight(id);
-      await queryClient.invalidateQueries({ queryKey: ['players'] });
+      await playerAnnotationService.toggleHighlight(id);
+      await queryClient.invalidateQueries({ queryKey: ['playerAnnotations'] });
       setSnackbar({ open: true, message: 'Highlight status updated', severity: 'success' });
     } catch (error) {
       setSnackbar({ 
@@ -415,6 +498,28 @@ export function PlayerList() {
     }
   };
 
+  const handleToggleQueue = async (id: string) => {
+    if (!activeQueueManagerId) {
+      setSnackbar({ open: true, message: 'Select a manager to queue players for', severity: 'error' });
+      return;
+    }
+
+    try {
+      const isQueued = queuedPlayerIds.includes(id);
+      const response = isQueued
+        ? await managerService.removeFromQueue(activeQueueManagerId, id)
+        : await managerService.addToQueue(activeQueueManagerId, id);
+      queryClient.setQueryData(['managerQueue', activeQueueManagerId], response);
+      setSnackbar({ open: true, message: isQueued ? 'Removed from queue' : 'Added to queue', severity: 'success' });
+    } catch (error) {
+      setSnackbar({ 
+        open: true, 
+        message: `Error updating queue: ${error instanceof Error ? error.message : 'Unknown error'}`, 
+        severity: 'error' 
+      });
+    }
+  };
+
   // Render loading state
   if (isLoading) {
     return (
@@ -468,7 +573,16 @@ export function PlayerList() {
                 canAdvance={canAdvance()}
                 canSkipToIncomplete={canSkipToIncomplete()}
                 getActivePickManager={getActivePickManager}
+                onHistoryResult={(message, severity) => setSnackbar({ open: true, message, severity })}
               />
+              {gridMode === 'draft' && activeDraft?.auction && (
+                <AuctionPanel
+                  activeDraft={activeDraft}
+                  managers={managers}
+                  currentUser={currentUser}
+                  onResult={(message, severity) => setSnackbar({ open: true, message, severity })}
+                />
+              )}
               <Box sx={{ 
                 display: 'flex', 
                 gap: 2,
@@ -477,6 +591,15 @@ export function PlayerList() {
                 <PlayerListFilters
                   onFiltersChange={setFilters}
                 />
+                <Button
+                  variant="outlined"
+                  size="small"
+                  startIcon={<LayersIcon />}
+                  onClick={() => setTierEditorOpen(true)}
+                  title="Set tiers for this position and ranking"
+                >
+                  Tiers
+                </Button>
                 <Box sx={{ flex: 1 }}>
                   <SearchInput
                     value={searchTerm}
@@ -485,6 +608,11 @@ export function PlayerList() {
                   />
                 </Box>
               </Box>
+              {tierAlerts.map(alert => (
+                <Alert key={alert.tierSetId} severity="warning" sx={{ py: 0 }}>
+                  Last in {getTierPositionLabel(alert.position)} tier {alert.tier}: {alert.remaining.map(p => p.name).join(', ')}
+                </Alert>
+              ))}
             </Box>
             <PlayerListGrid
               gridMode={gridMode}
@@ -503,6 +631,8 @@ export function PlayerList() {
               onPlayerHighlight={handleToggleHighlight}
               onPlayerDraft={handleDraftClick}
               onPlayerUndraft={handleUndraftClick}
+              onPlayerQueueToggle={handleToggleQueue}
+              queuedPlayerIds={queuedPlayerIds}
               canDraft={canDraft}
               activeDraft={activeDraft}
               totalCount={searchResult.totalCount}
@@ -521,7 +651,8 @@ export function PlayerList() {
                   sortDescending: field ? descending : undefined
                 }));
               }}
-              rankingSource={filters.rankingSource ?? null}
+              rankingSource={rankingSource}
+              tierBreaks={tierBreaks}
               prospectSource={filters.prospectSource ?? null}
               projectionConfig={filters.projectionConfig ?? { source: null, category: null }}
               onRankingSourceChange={(source) => setFilters((prev: PlayerFilters) => ({ ...prev, rankingSource: source }))}
@@ -531,7 +662,7 @@ export function PlayerList() {
               availableProspectSources={Object.values(ProspectSource)}
               availableProjectionSources={Object.values(ProjectionSource)}
               availableProjectionCategories={{
-                [ProjectionSource.STEAMER]: ['AVG', 'HR', 'RBI', 'SB', 'OPS', 'ERA', 'WHIP', 'K', 'W', 'SV']
+                [ProjectionSource.STEAMER]: scoringStats
               }}
               noRowsOverlay={
                 searchTerm ? 
@@ -556,7 +687,7 @@ export function PlayerList() {
                   </Box>
               }
             />
-            {activeDraft?.activeRound && activeDraft?.activePick && (
+            {activeDraft?.activeRound && activeDraft?.activePick && !activeDraft.auction && (
               <Popover
                 open={Boolean(pickSelectorAnchor)}
                 anchorEl={pickSelectorAnchor}
@@ -591,12 +722,7 @@ export function PlayerList() {
                     }
 
                     try {
-                      // Calculate overall pick number
-                      const totalManagers = activeDraft.draftOrder.length;
-                      const overallPickNumber = ((round - 1) * totalManagers) + 
-                        (round % 2 === 0 && activeDraft.isSnakeDraft 
-                          ? totalManagers - pick + 1 
-                          : pick);
+                      const overallPickNumber = draftPick.overallPickNumber;
 
                       // Update backend state
                       await draftService.updateActivePick({ round, pick, overallPickNumber });
@@ -637,6 +763,13 @@ export function PlayerList() {
               onPlayerSave={handleSaveEdit}
               activeDraft={activeDraft}
             />
+            <TierEditor
+              open={tierEditorOpen}
+              onClose={() => setTierEditorOpen(false)}
+              position={tierPosition}
+              rankingSource={rankingSource ?? RankingSource.IBW}
+              onResult={(message, severity) => setSnackbar({ open: true, message, severity })}
+            />
             <Snackbar
               open={snackbar.open}
               autoHideDuration={6000}
@@ -659,15 +792,52 @@ export function PlayerList() {
             inset: 0
           }}
         >
-          <UserDraftedPlayers
-            players={searchResult.items}
-            activeDraft={activeDraft}
-            currentUser={currentUser}
-            onPlayerClick={(player) => {
-              setSelectedPlayer(player);
-              setDetailsModalOpen(true);
-            }}
-          />
+          <Tabs
+            value={sidePanelTab}
+            onChange={(_, value) => setSidePanelTab(value)}
+            sx={{ mb: 1, minHeight: 36, '& .MuiTab-root': { minHeight: 36 } }}
+          >
+            <Tab label="Suggestions" value="recommendations" />
+            <Tab label="Queue" value="queue" />
+          </Tabs>
+          {sidePanelTab === 'recommendations' ? (
+            <DraftRecommendations
+              activeDraft={activeDraft}
+              managers={managers}
+              prospectSource={filters.prospectSource ?? null}
+              projectionConfig={filters.projectionConfig ?? { source: null, category: null }}
+              onPlayerClick={(player) => {
+                setSelectedPlayer(player);
+                setDetailsModalOpen(true);
+              }}
+              onDraft={gridMode === 'draft' ? (player, managerId) => handleDraftClick(player.id!, managerId) : undefined}
+            />
+          ) : (
+            <DraftQueuePanel
+              managers={managers}
+              managerId={activeQueueManagerId}
+              onManagerChange={setQueueManagerId}
+              onPlayerClick={(player) => {
+                setSelectedPlayer(player);
+                setDetailsModalOpen(true);
+              }}
+              onResult={(message, severity) => setSnackbar({ open: true, message, severity })}
+            />
+          )}
+          <Box sx={{ flex: 1, minHeight: 0, mt: 3 }}>
+            <UserDraftedPlayers
+              players={searchResult.items}
+              activeDraft={activeDraft}
+              currentUser={currentUser}
+              managers={managers}
+              onPlayerClick={(player) => {
+                setSelectedPlayer(player);
+                setDetailsModalOpen(true);
+              }}
+              rankingSource={rankingSource}
+              tierBreaks={overallTierBreaks}
+            />
+          </Box>
         </Paper>
       </Box>
     </Box>
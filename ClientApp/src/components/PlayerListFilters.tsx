@@ -13,8 +13,10 @@ import {
 } from '@mui/material';
 import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
 import { useTheme } from '../contexts/ThemeContext';
-import { useState, useCallback } from 'react';
-import { RankingSource, ProspectSource, ProjectionSource } from '../types/models';
+import { useState, useCallback, useMemo } from 'react';
+import { PERSONAL_RANKING_SOURCE, RankingChoice, RankingSource, ProspectSource, ProjectionSource } from '../types/models';
+import { useLeagueSettings } from '../hooks/useLeagueSettings';
+import { getProjectionSortField, getScoringCategories, isLowerBetter } from '../utils/scoringUtils';
 import { RankingFilters } from './RankingFilters';
 
 // MLB Teams organized by league and division
@@ -52,7 +54,7 @@ interface PlayerListFiltersProps {
     position?: string;
     sortField?: string;
     sortDescending?: boolean;
-    rankingSource: RankingSource | null;
+    rankingSource: RankingChoice | null;
     prospectSource: ProspectSource | null;
     projectionConfig: {
       source: string | null;
@@ -69,6 +71,8 @@ export function PlayerListFilters({
   maxAge = 40
 }: PlayerListFiltersProps) {
   const { theme, mode } = useTheme();
+  const { settings } = useLeagueSettings();
+  const scoringStats = useMemo(() => getScoringCategories(settings).map(c => c.stat), [settings]);
 
   // Filter states
   const [excludeDrafted, setExcludeDrafted] = useState(false);
@@ -82,7 +86,7 @@ export function PlayerListFilters({
   const [playerType, setPlayerType] = useState<'all' | 'pitchers' | 'hitters'>('all');
   const [selectedPosition, setSelectedPosition] = useState<string>('');
   const [expandedAccordion, setExpandedAccordion] = useState<string | false>(false);
-  const [rankingSource, setRankingSource] = useState<RankingSource | null>(null);
+  const [rankingSource, setRankingSource] = useState<RankingChoice | null>(null);
   const [prospectSource, setProspectSource] = useState<ProspectSource | null>(null);
   const [projectionConfig, setProjectionConfig] = useState<{
     source: string | null;
@@ -625,8 +629,13 @@ export function PlayerListFilters({
         rankingSource={rankingSource}
         prospectSource={prospectSource}
         projectionConfig={projectionConfig}
-        onRankingSourceChange={(source: RankingSource | null) => {
+        onRankingSourceChange={(source: RankingChoice | null) => {
           setRankingSource(source);
+          // Big board ranks aren't on the players, so the server has to be asked to sort by them
+          const sortByBoard = source === PERSONAL_RANKING_SOURCE ? {
+            sortField: `rank.${PERSONAL_RANKING_SOURCE}`,
+            sortDescending: false
+          } : {};
           onFiltersChange({
             excludeDrafted,
             teams: selectedTeams,
@@ -636,7 +645,8 @@ export function PlayerListFilters({
             position: selectedPosition || undefined,
             rankingSource: source,
             prospectSource,
-            projectionConfig
+            projectionConfig,
+            ...sortByBoard
           });
         }}
         onProspectSourceChange={(source: ProspectSource | null) => {
@@ -655,6 +665,11 @@ export function PlayerListFilters({
         }}
         onProjectionConfigChange={(config: { source: string | null; category: string | null }) => {
           setProjectionConfig(config);
+          // Picking a stat sorts by it, best first, so ERA and WHIP run low to high
+          const sortByCategory = config.source && config.category ? {
+            sortField: getProjectionSortField(settings, config.source, config.category),
+            sortDescending: !isLowerBetter(settings, config.category)
+          } : {};
           onFiltersChange({
             excludeDrafted,
             teams: selectedTeams,
@@ -664,14 +679,15 @@ export function PlayerListFilters({
             position: selectedPosition || undefined,
             rankingSource,
             prospectSource,
-            projectionConfig: config
+            projectionConfig: config,
+            ...sortByCategory
           });
         }}
-        availableRankingSources={Object.values(RankingSource)}
+        availableRankingSources={[...Object.values(RankingSource), PERSONAL_RANKING_SOURCE]}
         availableProspectSources={Object.values(ProspectSource)}
         availableProjectionSources={Object.values(ProjectionSource)}
         availableProjectionCategories={{
-          [ProjectionSource.STEAMER]: ['AVG', 'HR', 'RBI', 'SB', 'OPS', 'ERA', 'WHIP', 'K', 'W', 'SV']
+          [ProjectionSource.STEAMER]: scoringStats
         }}
       />
     </Box>
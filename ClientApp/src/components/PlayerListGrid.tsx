@@ -1,7 +1,7 @@
 import { Box, Paper, Typography } from '@mui/material';
 import { useTheme } from '../contexts/ThemeContext';
 import { DataGrid, GridActionsCellItem, GridColDef, GridRenderCellParams, GridRowParams, GridSortModel, GridValueGetter } from '@mui/x-data-grid';
-import { Draft, Manager, Player, RankingSource, ProspectSource } from '../types/models';
+import { Draft, Manager, Player, RankingChoice, RankingSource, ProspectSource } from '../types/models';
 import React, { useState, useCallback, useEffect, useMemo } from 'react';
 import { DraftManagerFlyout } from './DraftManagerFlyout';
 import DeleteIcon from '@mui/icons-material/Delete';
@@ -10,10 +10,15 @@ import StarIcon from '@mui/icons-material/Star';
 import StarBorderIcon from '@mui/icons-material/StarBorder';
 import GavelIcon from '@mui/icons-material/Gavel';
 import UndoIcon from '@mui/icons-material/Undo';
+import PlaylistAddIcon from '@mui/icons-material/PlaylistAdd';
+import PlaylistAddCheckIcon from '@mui/icons-material/PlaylistAddCheck';
 import { calculateBaseballAge, CURRENT_BASEBALL_SEASON } from '../utils/dateUtils';
 import { getDisplayPickNumber } from '../utils/draftUtils';
 import { useLeagueSettings } from '../hooks/useLeagueSettings';
+import { usePlayerAnnotations } from '../hooks/usePlayerAnnotations';
 import { determineEligiblePositions } from '../utils/positionUtils';
+import { getProjectedStat, getProjectionSortField, SCORING_FORMAT_LABELS } from '../utils/scoringUtils';
+import { getRankingValue, getTier } from '../utils/tierUtils';
 
 interface GridPlayer {
   id?: string;
@@ -25,6 +30,8 @@ interface GridPlayer {
   rankingValue: number | null;
   prospectValue: number | null;
   projectionValue: number | null;
+  leagueValue: number | null;
+  dollarValue: number | null;
   age: number | null;
   draftingManagerName: string;
   draftRound?: number | null;
@@ -41,8 +48,25 @@ interface GridPlayer {
   notes?: string | null;
   personalRank?: number | null;
   starsRating?: number | null;
+  // Set on the separator rows drawn between tiers
+  tierLabel?: string;
 }
 
+const tierSeparatorRow = (tier: number): GridPlayer => ({
+  id: `tier-${tier}`,
+  name: '',
+  position: '',
+  eligible: '',
+  rankingValue: null,
+  prospectValue: null,
+  projectionValue: null,
+  leagueValue: null,
+  dollarValue: null,
+  age: null,
+  draftingManagerName: '',
+  tierLabel: `Tier ${tier}`
+});
+
 interface PlayerListGridProps {
   gridMode: 'prep' | 'draft';
   players: Player[];
@@ -55,25 +79,29 @@ interface PlayerListGridProps {
   onPlayerHighlight: (id: string) => void;
   onPlayerDraft: (id: string, managerId: string) => void;
   onPlayerUndraft: (id: string) => void;
+  onPlayerQueueToggle: (id: string) => void;
+  queuedPlayerIds: string[];
   canDraft: (playerId: string) => boolean;
   totalCount: number;
   onPaginationChange: (model: { page: number; pageSize: number }) => void;
   onSortChange?: (field: string, descending: boolean) => void;
   currentPage: number;
   noRowsOverlay?: React.ReactNode;
-  rankingSource: RankingSource | null;
+  rankingSource: RankingChoice | null;
   prospectSource: ProspectSource | null;
   projectionConfig: {
     source: string | null;
     category: string | null;
   };
-  onRankingSourceChange: (source: RankingSource | null) => void;
+  onRankingSourceChange: (source: RankingChoice | null) => void;
   onProspectSourceChange: (source: ProspectSource | null) => void;
   onProjectionConfigChange: (config: { source: string | null; category: string | null }) => void;
-  availableRankingSources: RankingSource[];
+  availableRankingSources: RankingChoice[];
   availableProspectSources: ProspectSource[];
   availableProjectionSources: string[];
   availableProjectionCategories: { [source: string]: string[] };
+  // Ranks where the ranking source's tiers 2, 3... start at the listed position
+  tierBreaks?: number[];
 }
 
 const PlayerListGridComponent = React.memo(function PlayerListGridInner({
@@ -88,6 +116,8 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
   onPlayerHighlight,
   onPlayerDraft,
   onPlayerUndraft,
+  onPlayerQueueToggle,
+  queuedPlayerIds,
   canDraft,
   totalCount,
   onPaginationChange,
@@ -103,7 +133,8 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
   availableRankingSources,
   availableProspectSources,
   availableProjectionSources,
-  availableProjectionCategories
+  availableProjectionCategories,
+  tierBreaks = []
 }: PlayerListGridProps): JSX.Element {
   const [flyoutOpen, setFlyoutOpen] = useState(false);
   const [selectedPlayerId, setSelectedPlayerId] = useState<string | null>(null);
@@ -124,22 +155,25 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
   }, [currentPage]);
   const { theme, mode } = useTheme();
   const { settings } = useLeagueSettings();
-  
+  // Rows show the signed-in account's own highlights, notes, stars and ranks
+  const { annotate } = usePlayerAnnotations();
+  const annotatedPlayers = useMemo(() => annotate(players), [annotate, players]);
+
 
   const handlePlayerClick = useCallback((id: string | undefined, event?: React.MouseEvent<HTMLElement>) => {
     event?.stopPropagation();
-    const player = players.find(p => p.id === id);
+    const player = annotatedPlayers.find(p => p.id === id);
     if (player) {
       onPlayerClick(player);
     }
-  }, [players, onPlayerClick]);
+  }, [annotatedPlayers, onPlayerClick]);
 
   const handlePlayerEdit = useCallback((id: string | undefined) => {
-    const player = players.find(p => p.id === id);
+    const player = annotatedPlayers.find(p => p.id === id);
     if (player) {
       onPlayerEdit(player);
     }
-  }, [players, onPlayerEdit]);
+  }, [annotatedPlayers, onPlayerEdit]);
 
   const handlePlayerDelete = useCallback((id: string | undefined) => {
     if (id) {
@@ -159,6 +193,12 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
     }
   }, [onPlayerUndraft]);
 
+  const handlePlayerQueueToggle = useCallback((id: string | undefined) => {
+    if (id) {
+      onPlayerQueueToggle(id);
+    }
+  }, [onPlayerQueueToggle]);
+
   const handleDraftClick = useCallback((event: React.MouseEvent<HTMLElement>, playerId: string, rowId: string) => {
     event.stopPropagation();
     setSelectedPlayerId(playerId);
@@ -177,7 +217,15 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
     setHoveredRowId(null);
   }, [selectedPlayerId, onPlayerDraft]);
 
-  const gridData: GridPlayer[] = players.map(player => {
+  const handleDraftFromQueue = useCallback((playerId: string, managerId: string) => {
+    onPlayerDraft(playerId, managerId);
+    setSelectedPlayerId(null);
+    setFlyoutOpen(false);
+    setAnchorEl(null);
+    setHoveredRowId(null);
+  }, [onPlayerDraft]);
+
+  const playerRows: GridPlayer[] = annotatedPlayers.map(player => {
     const draftStatus = player.draftStatuses?.find(ds => ds.draftId === activeDraft?.id);
     const draftingManager = draftStatus
       ? managers.find((m: Manager) => m.id === draftStatus.managerId)
@@ -197,15 +245,11 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
       ? determineEligiblePositions(mostRecentStats, settings?.minGamesForPosition || 10)
       : [];
 
-    const rankLower = rankingSource?.toLowerCase();
-    const rankValue = rankLower && player.rank ? player.rank[rankLower] : null;
-    const rankingValue: number | null = rankValue;
+    const rankingValue = rankingSource ? getRankingValue(player, rankingSource) : null;
     const prospectValue: number | null = prospectSource && player.prospectRank ? 
       (player.prospectRank[prospectSource] ?? null) : null;
-    const projectionValue = (projectionConfig.source && projectionConfig.category && player.projections?.[projectionConfig.source])
-      ? (player.projections[projectionConfig.source].hitter?.stats?.[projectionConfig.category] || 
-         player.projections[projectionConfig.source].pitcher?.stats?.[projectionConfig.category] || 
-         null)
+    const projectionValue = projectionConfig.source && projectionConfig.category
+      ? getProjectedStat(player, projectionConfig.source, projectionConfig.category)
       : null;
 
 
@@ -217,7 +261,9 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
       eligible: eligiblePositions.join(', '),
       rankingValue,
       prospectValue,
-      projectionValue: projectionValue as number | null,
+      projectionValue,
+      leagueValue: player.leagueValue ?? null,
+      dollarValue: player.valuation?.dollarValue ?? null,
       age: calculateBaseballAge(player.birthDate?.toISOString(), CURRENT_BASEBALL_SEASON),
       position: player.position?.join(', ') || '',
       draftingManagerName: draftStatus?.isDrafted ? (draftingManager?.name ?? '[Manager Deleted]') : '',
@@ -239,10 +285,26 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
     };
   });
 
+  // Tiers only read sensibly down a page sorted by rank, best first
+  const ranks = playerRows.map(row => row.rankingValue).filter((rank): rank is number => rank !== null);
+  const showTiers = tierBreaks.length > 0 && ranks.length > 0 && ranks.every((rank, i) => i === 0 || rank >= ranks[i - 1]);
+  const gridData: GridPlayer[] = showTiers
+    ? playerRows.flatMap((row, i) => {
+      const previous = playerRows[i - 1]?.rankingValue ?? null;
+      if (row.rankingValue === null) return [row];
+      const tier = getTier(tierBreaks, row.rankingValue);
+      return previous === null || getTier(tierBreaks, previous) !== tier ? [tierSeparatorRow(tier), row] : [row];
+    })
+    : playerRows;
+
   const getRowClassName = (params: GridRowParams<GridPlayer>) => {
     if (!params?.row) return '';
     
     const classes: string[] = [];
+
+    if (params.row.tierLabel) {
+      return 'tier-break';
+    }
     
     if (params.row.id === hoveredRowId) {
       classes.push('force-hover');
@@ -264,6 +326,35 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
   };
 
   const getActions = useCallback((params: GridRowParams<GridPlayer>): React.ReactElement[] => {
+    if (params.row.tierLabel) return [];
+
+    const isQueued = queuedPlayerIds.includes(params.row.id!);
+    const queueAction = (
+      <GridActionsCellItem
+        key="queue"
+        icon={isQueued ? (
+          <PlaylistAddCheckIcon sx={{ 
+            color: theme.colors.primary.main,
+            '&:hover': {
+              transform: 'scale(1.2)',
+              transition: 'transform 0.2s'
+            }
+          }} />
+        ) : (
+          <PlaylistAddIcon sx={{ 
+            color: mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark,
+            '&:hover': {
+              transform: 'scale(1.2)',
+              transition: 'transform 0.2s'
+            }
+          }} />
+        )}
+        label={isQueued ? 'Remove from Queue' : 'Add to Queue'}
+        onClick={() => handlePlayerQueueToggle(params.row.id)}
+        title={isQueued ? 'Remove from draft queue' : 'Add to draft queue'}
+      />
+    );
+
     if (gridMode === 'draft') {
       const actions: React.ReactElement[] = [];
       
@@ -284,7 +375,8 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
             onClick={(event) => handleDraftClick(event, params.row.id!.toString(), params.row.id!.toString())}
             label="Draft"
             title={canMakePick ? "Draft this player" : "No active draft or current pick"}
-          />
+          />,
+          queueAction
         );
       } else {
         actions.push(
@@ -332,6 +424,7 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
         onClick={() => handlePlayerHighlight(params.row.id)}
         title="Toggle highlight status"
       />,
+      ...(params.row.draftStatus?.isDrafted ? [] : [queueAction]),
       <GridActionsCellItem
         key="edit"
         icon={<EditIcon sx={{ 
@@ -359,21 +452,26 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
         title="Delete this player"
       />
     ];
-  }, [gridMode, theme, mode, handlePlayerHighlight, handlePlayerEdit, handlePlayerDelete, handlePlayerUndraft, handleDraftClick, canDraft]);
+  }, [gridMode, theme, mode, queuedPlayerIds, handlePlayerHighlight, handlePlayerEdit, handlePlayerDelete, handlePlayerUndraft, handlePlayerQueueToggle, handleDraftClick, canDraft]);
 
   const columns: GridColDef<GridPlayer>[] = [
     ...(rankingSource ? [{
       field: 'rankingValue',
       headerName: rankingSource.toUpperCase(),
-      width: 80,
+      width: rankingSource === RankingSource.VALUE ? 110 : 80,
       type: 'number' as const,
       align: 'center' as const,
       headerAlign: 'center' as const,
       sortable: true,
+      // Tier separators run the full width of the grid
+      colSpan: (_value: unknown, row: GridPlayer) => (row.tierLabel ? columns.length : undefined),
       renderCell: (params: GridRenderCellParams<GridPlayer>) => {
+        if (params.row?.tierLabel) return params.row.tierLabel;
         const value = params.row?.rankingValue;
         if (value === null || value === undefined) return '-';
-        return `#${value}`;
+        // Calculated values carry a price alongside the rank
+        const dollars = rankingSource === RankingSource.VALUE ? params.row?.dollarValue : null;
+        return dollars !== null && dollars !== undefined ? `#${value} ($${dollars.toFixed(0)})` : `#${value}`;
       }
     }] : []),
     ...(prospectSource ? [{
@@ -422,6 +520,23 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
         }
       }
     }] : []),
+    {
+      field: 'leagueValue',
+      headerName: 'Value',
+      description: settings
+        ? `League value under ${SCORING_FORMAT_LABELS[settings.scoringFormat]} scoring, from ${settings.valueProjectionSource} projections`
+        : 'League value from projections',
+      width: 80,
+      type: 'number' as const,
+      align: 'center' as const,
+      headerAlign: 'center' as const,
+      sortable: true,
+      renderCell: (params: GridRenderCellParams<GridPlayer>) => {
+        const value = params.row?.leagueValue;
+        if (value === null || value === undefined) return '-';
+        return value.toFixed(1);
+      }
+    },
     {
       field: 'name',
       headerName: 'Name',
@@ -490,7 +605,7 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
       field: 'actions',
       type: 'actions',
       headerName: 'Actions',
-      width: 140,
+      width: 180,
       getActions
     },
     ...(gridMode === 'draft' ? [
@@ -568,7 +683,8 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
                 : field === 'rankingValue' && rankingSource ? `rank.${rankingSource.toLowerCase()}`
                 : field === 'prospectValue' && prospectSource ? `prospectrank.${prospectSource}`
                 : field === 'projectionValue' && projectionConfig.source && projectionConfig.category ? 
-                    `Projections.${projectionConfig.source}.${projectionConfig.category}`
+                    getProjectionSortField(settings, projectionConfig.source, projectionConfig.category)
+                : field === 'leagueValue' ? 'leagueValue'
                 : field?.toLowerCase();
               const sortDescending = model[0]?.sort === 'desc';
               console.log('Sort changed:', JSON.stringify({ 
@@ -750,6 +866,20 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
                 bgcolor: `${mode === 'light' ? theme.colors.pickState.current.light : theme.colors.pickState.current.dark} !important`,
               }
             },
+            '& .tier-break': {
+              bgcolor: 'transparent',
+              '&:hover, &.MuiDataGrid-row:hover': {
+                bgcolor: 'transparent !important'
+              },
+              '& .MuiDataGrid-cell': {
+                justifyContent: 'flex-start',
+                fontSize: '0.875rem',
+                fontWeight: 600,
+                textTransform: 'uppercase',
+                color: theme.colors.primary.main,
+                borderBottom: `2px solid ${theme.colors.primary.main}`
+              }
+            },
             '& .MuiDataGrid-footerContainer': {
               backgroundColor: mode === 'light' ? theme.colors.background.elevated.light : theme.colors.background.paper.dark,
               color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark,
@@ -774,6 +904,7 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
           activeDraft={activeDraft}
           currentUser={currentUser}
           onManagerSelect={handleManagerSelect}
+          onDraftFromQueue={handleDraftFromQueue}
           managers={managers}
         />
       )}
@@ -786,11 +917,13 @@ const PlayerListGridComponent = React.memo(function PlayerListGridInner({
       prevProps.totalCount !== nextProps.totalCount ||
       prevProps.gridMode !== nextProps.gridMode ||
       prevProps.activeDraft !== nextProps.activeDraft ||
+      prevProps.queuedPlayerIds !== nextProps.queuedPlayerIds ||
       prevProps.onSortChange !== nextProps.onSortChange ||
       prevProps.rankingSource !== nextProps.rankingSource ||
       prevProps.prospectSource !== nextProps.prospectSource ||
       prevProps.projectionConfig.source !== nextProps.projectionConfig.source ||
-      prevProps.projectionConfig.category !== nextProps.projectionConfig.category) {
+      prevProps.projectionConfig.category !== nextProps.projectionConfig.category ||
+      prevProps.tierBreaks !== nextProps.tierBreaks) {
     return false;
   }
   return true;
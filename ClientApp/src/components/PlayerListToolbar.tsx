@@ -22,6 +22,9 @@ const logPickState = (activeDraft: Draft | undefined, context: string) => {
 };
 
 import { getDisplayPickNumber } from '../utils/draftUtils';
+import { DraftHistoryControl } from './DraftHistoryControl';
+import { PickClockDisplay } from './PickClockDisplay';
+import { usePickClock } from '../hooks/usePickClock';
 
 interface PlayerListToolbarProps {
   gridMode: 'prep' | 'draft';
@@ -34,6 +37,7 @@ interface PlayerListToolbarProps {
   canAdvance: boolean;
   canSkipToIncomplete: boolean;
   getActivePickManager: () => { name?: string, isOriginalOwner?: boolean, originalOwnerName?: string } | null;
+  onHistoryResult?: (message: string, severity: 'success' | 'error') => void;
 }
 
 export function PlayerListToolbar({
@@ -46,8 +50,11 @@ export function PlayerListToolbar({
   onPickSelectorClick,
   canAdvance,
   canSkipToIncomplete,
-  getActivePickManager
+  getActivePickManager,
+  onHistoryResult
 }: PlayerListToolbarProps) {
+  const pickClock = usePickClock();
+
   return (
     <Box sx={{ mb: 2, display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
       <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
@@ -69,7 +76,10 @@ export function PlayerListToolbar({
             Draft Mode
           </ToggleButton>
         </ToggleButtonGroup>
-        {gridMode === 'draft' && activeDraft && (
+        {gridMode === 'draft' && activeDraft?.auction && (
+          <DraftHistoryControl activeDraft={activeDraft} onResult={onHistoryResult} />
+        )}
+        {gridMode === 'draft' && activeDraft && !activeDraft.auction && (
           <>
             <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
               <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
@@ -105,6 +115,7 @@ export function PlayerListToolbar({
                 >
                   <EditIcon fontSize="small" />
                 </IconButton>
+                <DraftHistoryControl activeDraft={activeDraft} onResult={onHistoryResult} />
               </Box>
               <Typography variant="h6" sx={{ whiteSpace: 'nowrap', display: 'flex', alignItems: 'center', gap: 0.5 }}>
                 Round <Box component="span" sx={{ fontWeight: 600 }}>{activeDraft.activeRound}</Box>, 
@@ -126,6 +137,7 @@ export function PlayerListToolbar({
                   </>
                 )}
               </Typography>
+              <PickClockDisplay clock={pickClock} />
             </Box>
           </>
         )}
@@ -1,17 +1,17 @@
 import { Box, FormControl, InputLabel, MenuItem, Select } from '@mui/material';
-import { RankingSource, ProspectSource } from '../types/models';
+import { RankingChoice, ProspectSource } from '../types/models';
 
 interface RankingFiltersProps {
-  rankingSource: RankingSource | null;
+  rankingSource: RankingChoice | null;
   prospectSource: ProspectSource | null;
   projectionConfig: {
     source: string | null;
     category: string | null;
   };
-  onRankingSourceChange: (source: RankingSource | null) => void;
+  onRankingSourceChange: (source: RankingChoice | null) => void;
   onProspectSourceChange: (source: ProspectSource | null) => void;
   onProjectionConfigChange: (config: { source: string | null; category: string | null }) => void;
-  availableRankingSources: RankingSource[];
+  availableRankingSources: RankingChoice[];
   availableProspectSources: ProspectSource[];
   availableProjectionSources: string[];
   availableProjectionCategories: { [source: string]: string[] };
@@ -40,9 +40,9 @@ export const RankingFilters = ({
             console.log('Ranking source change:', {
               value: e.target.value,
               type: typeof e.target.value,
-              asEnum: e.target.value as RankingSource
+              asEnum: e.target.value as RankingChoice
             });
-            onRankingSourceChange(e.target.value ? e.target.value as RankingSource : null);
+            onRankingSourceChange(e.target.value ? e.target.value as RankingChoice : null);
           }}
         >
           <MenuItem value="">None</MenuItem>
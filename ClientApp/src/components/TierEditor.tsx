@@ -0,0 +1,224 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  MenuItem,
+  TextField,
+  Typography
+} from '@mui/material';
+import CallSplitIcon from '@mui/icons-material/CallSplit';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTheme } from '../contexts/ThemeContext';
+import { useTierSets } from '../hooks/useTierSets';
+import { tierService } from '../services/tierService';
+import { ALL_POSITIONS, PERSONAL_RANKING_SOURCE, RankingChoice, RankingSource } from '../types/models';
+import { getTier, getTierPositionLabel } from '../utils/tierUtils';
+import { POSITIONS } from './PlayerListFilters';
+
+const TIER_POSITIONS = [ALL_POSITIONS, ...POSITIONS, 'P'];
+const RANKING_CHOICES: RankingChoice[] = [...Object.values(RankingSource), PERSONAL_RANKING_SOURCE];
+const PLAYER_COUNT = 100;
+
+interface TierEditorProps {
+  open: boolean;
+  onClose: () => void;
+  // Where the editor starts; both can be changed inside it
+  position: string;
+  rankingSource: RankingChoice;
+  onResult: (message: string, severity: 'success' | 'error') => void;
+}
+
+/**
+ * Sets the signed-in account's tiers for a position and ranking source, by hand or by asking the
+ * server to cluster players' composite values. Changes stay local until saved.
+ */
+export const TierEditor: React.FC<TierEditorProps> = ({ open, onClose, position: initialPosition, rankingSource: initialSource, onResult }) => {
+  const queryClient = useQueryClient();
+  const { theme, mode } = useTheme();
+  const { getBreaks } = useTierSets();
+  const [position, setPosition] = useState(initialPosition);
+  const [rankingSource, setRankingSource] = useState<RankingChoice>(initialSource);
+  const [breaks, setBreaks] = useState<number[]>([]);
+  const [tierCount, setTierCount] = useState(6);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (open) {
+      setPosition(initialPosition);
+      setRankingSource(initialSource);
+    }
+  }, [open, initialPosition, initialSource]);
+
+  const savedBreaks = getBreaks(position, rankingSource);
+  useEffect(() => {
+    setBreaks(savedBreaks);
+    setError(null);
+  }, [savedBreaks]);
+
+  const { data: playersResponse, isLoading } = useQuery({
+    queryKey: ['tierPlayers', position, rankingSource],
+    queryFn: () => tierService.getPlayers(position, rankingSource, PLAYER_COUNT),
+    enabled: open
+  });
+  const players = playersResponse?.value ?? [];
+
+  const generateMutation = useMutation({
+    mutationFn: () => tierService.generate(position, rankingSource, tierCount, PLAYER_COUNT),
+    onSuccess: (response) => setBreaks(response.value),
+    onError: (err) => setError(err instanceof Error ? err.message : 'Error generating tiers')
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: () => tierService.save(position, rankingSource, breaks),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['tierSets'] });
+      queryClient.invalidateQueries({ queryKey: ['players', 'tierAlerts'] });
+      onResult(breaks.length > 0 ? 'Tiers saved' : 'Tiers removed', 'success');
+      onClose();
+    },
+    onError: (err) => setError(err instanceof Error ? err.message : 'Error saving tiers')
+  });
+
+  // A new tier at a player either starts there, or is merged back into the tier above
+  const toggleBreak = (index: number) => {
+    const rank = players[index].rank;
+    const previousRank = players[index - 1].rank;
+    setBreaks(current => getTier(current, rank) > getTier(current, previousRank)
+      ? current.filter(b => b <= previousRank || b > rank)
+      : [...current, rank].sort((a, b) => a - b));
+  };
+
+  const isDirty = breaks.length !== savedBreaks.length || breaks.some((b, i) => b !== savedBreaks[i]);
+  const dialogBgColor = mode === 'light' ? theme.colors.background.elevated.light : theme.colors.background.elevated.dark;
+  const textSecondary = mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth PaperProps={{ sx: { bgcolor: dialogBgColor } }}>
+      <DialogTitle>Tiers</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>
+        )}
+        <Box sx={{ display: 'flex', gap: 2, mt: 1, mb: 2 }}>
+          <TextField
+            select
+            size="small"
+            label="Position"
+            value={position}
+            onChange={(e) => setPosition(e.target.value)}
+            sx={{ minWidth: 120 }}
+          >
+            {TIER_POSITIONS.map(p => <MenuItem key={p} value={p}>{getTierPositionLabel(p)}</MenuItem>)}
+          </TextField>
+          <TextField
+            select
+            size="small"
+            label="Ranking"
+            value={rankingSource}
+            onChange={(e) => setRankingSource(e.target.value as RankingChoice)}
+            sx={{ minWidth: 140 }}
+          >
+            {RANKING_CHOICES.map(source => (
+              <MenuItem key={source} value={source}>
+                {source === PERSONAL_RANKING_SOURCE ? 'My Big Board' : source}
+              </MenuItem>
+            ))}
+          </TextField>
+          <Box sx={{ flex: 1 }} />
+          <TextField
+            type="number"
+            size="small"
+            label="Tiers"
+            value={tierCount}
+            onChange={(e) => setTierCount(Math.min(20, Math.max(2, Number(e.target.value) || 2)))}
+            sx={{ width: 80 }}
+          />
+          <Button
+            variant="outlined"
+            onClick={() => generateMutation.mutate()}
+            disabled={generateMutation.isPending || players.length < tierCount}
+          >
+            Auto
+          </Button>
+        </Box>
+        <Typography variant="body2" sx={{ color: textSecondary, mb: 1 }}>
+          Start a new tier at any player, or let Auto split the top {PLAYER_COUNT} where their values across
+          every ranking drop off. Players below the last tier shown stay in it.
+        </Typography>
+        {isLoading ? (
+          <Box sx={{ display: 'flex', justifyContent: 'center', p: 3 }}><CircularProgress /></Box>
+        ) : players.length === 0 ? (
+          <Typography sx={{ p: 3, textAlign: 'center', color: textSecondary }}>
+            Nobody is ranked here yet
+          </Typography>
+        ) : (
+          <Box sx={{ maxHeight: 420, overflowY: 'auto' }}>
+            {players.map((tierPlayer, index) => {
+              const tier = getTier(breaks, tierPlayer.rank);
+              const startsTier = index === 0 || tier > getTier(breaks, players[index - 1].rank);
+              return (
+                <React.Fragment key={tierPlayer.player.id}>
+                  {startsTier && (
+                    <Typography
+                      variant="overline"
+                      sx={{
+                        display: 'block',
+                        color: theme.colors.primary.main,
+                        fontWeight: 600,
+                        borderBottom: `2px solid ${theme.colors.primary.main}`,
+                        mt: index === 0 ? 0 : 1
+                      }}
+                    >
+                      Tier {tier}
+                    </Typography>
+                  )}
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, py: 0.25 }}>
+                    <Typography sx={{ width: 48, textAlign: 'right', fontWeight: 600 }}>#{tierPlayer.rank}</Typography>
+                    <Typography sx={{ flex: 1 }} noWrap>{tierPlayer.player.name}</Typography>
+                    <Typography variant="body2" sx={{ width: 80, color: textSecondary }} noWrap>
+                      {tierPlayer.player.position?.join(', ')}
+                    </Typography>
+                    <Typography variant="body2" sx={{ width: 56, textAlign: 'right', color: textSecondary }}
+                      title="Average rank across every ranking">
+                      {tierPlayer.compositeValue.toFixed(1)}
+                    </Typography>
+                    <IconButton
+                      size="small"
+                      disabled={index === 0}
+                      onClick={() => toggleBreak(index)}
+                      title={startsTier ? 'Merge into the tier above' : 'Start a new tier here'}
+                      sx={{ color: startsTier && index > 0 ? theme.colors.primary.main : textSecondary }}
+                    >
+                      <CallSplitIcon fontSize="small" />
+                    </IconButton>
+                  </Box>
+                </React.Fragment>
+              );
+            })}
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button color="warning" onClick={() => setBreaks([])} disabled={breaks.length === 0}>
+          Clear
+        </Button>
+        <Box sx={{ flex: 1 }} />
+        <Button onClick={onClose}>Cancel</Button>
+        <Button
+          variant="contained"
+          onClick={() => saveMutation.mutate()}
+          disabled={!isDirty || saveMutation.isPending}
+        >
+          Save
+        </Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -1,9 +1,15 @@
-import { Box, Paper, Typography } from '@mui/material';
+import { useMemo, useState } from 'react';
+import { Alert, Box, Chip, MenuItem, Paper, TextField, Typography } from '@mui/material';
 import { useTheme } from '../contexts/ThemeContext';
-import { DataGrid, GridColDef, GridRenderCellParams } from '@mui/x-data-grid';
-import { Draft, Manager, Player } from '../types/models';
+import { DataGrid, GridColDef, GridRenderCellParams, GridRowParams } from '@mui/x-data-grid';
+import { Draft, Manager, Player, RankingChoice } from '../types/models';
 import { calculateBaseballAge, CURRENT_BASEBALL_SEASON } from '../utils/dateUtils';
 import { getDisplayPickNumber } from '../utils/draftUtils';
+import { getEligiblePositions } from '../utils/positionUtils';
+import { assignRosterSlots } from '../utils/rosterUtils';
+import { getRankingValue, getTier } from '../utils/tierUtils';
+import { useLeagueSettings } from '../hooks/useLeagueSettings';
+import { usePlayerAnnotations } from '../hooks/usePlayerAnnotations';
 
 interface GridPlayer {
   id?: string;
@@ -15,35 +21,82 @@ interface GridPlayer {
   draftRound?: number | null;
   draftPick?: number | null;
   overallPick?: number | null;
+  slot: string;
+  // Set on the separator rows drawn between tiers
+  tierLabel?: string;
 }
 
 interface UserDraftedPlayersProps {
   players: Player[];
   activeDraft?: Draft;
   currentUser?: Manager;
+  managers?: Manager[];
   onPlayerClick: (player: Player) => void;
+  rankingSource?: RankingChoice | null;
+  // Overall tier breaks under the ranking source; when set, picks are grouped by tier
+  tierBreaks?: number[];
 }
 
 export function UserDraftedPlayers({
   players,
   activeDraft,
   currentUser,
-  onPlayerClick
+  managers = [],
+  onPlayerClick,
+  rankingSource = null,
+  tierBreaks = []
 }: UserDraftedPlayersProps) {
   const { theme, mode } = useTheme();
+  const { settings } = useLeagueSettings();
+  const { annotate } = usePlayerAnnotations();
+  const [selectedManagerId, setSelectedManagerId] = useState<string | undefined>();
+  const managerId = selectedManagerId ?? currentUser?.id;
+  const viewingUser = managerId === currentUser?.id;
 
-  const userDraftedPlayers = players
+  const userDraftedPlayers = useMemo(() => players
     .filter(player => {
       const draftStatus = player.draftStatuses?.find(ds => ds.draftId === activeDraft?.id);
-      return draftStatus?.isDrafted && draftStatus.managerId === currentUser?.id;
+      return draftStatus?.isDrafted && draftStatus.managerId === managerId;
     })
     .sort((a, b) => {
       const aStatus = a.draftStatuses?.find(ds => ds.draftId === activeDraft?.id);
       const bStatus = b.draftStatuses?.find(ds => ds.draftId === activeDraft?.id);
       return (bStatus?.overallPick ?? 0) - (aStatus?.overallPick ?? 0);
-    });
+    }), [players, activeDraft?.id, managerId]);
+
+  // Slots are filled in draft order, so earlier picks keep their places
+  const roster = useMemo(() => {
+    if (!settings?.rosterSlots) return null;
+    const inDraftOrder = [...userDraftedPlayers].reverse();
+    return assignRosterSlots(inDraftOrder, settings, player => getEligiblePositions(player, settings.minGamesForPosition));
+  }, [userDraftedPlayers, settings]);
+
+  const slotByPlayerId = useMemo(() => {
+    const slots = new Map<string, string>();
+    if (!roster) return slots;
+    roster.lineup.forEach(({ slot, player }) => player?.id && slots.set(player.id, slot));
+    roster.minors.forEach(player => player.id && slots.set(player.id, 'MiLB'));
+    roster.taxi.forEach(player => player.id && slots.set(player.id, 'Taxi'));
+    return slots;
+  }, [roster]);
+
+  const slotSummary = useMemo(() => {
+    if (!roster || !settings) return [];
+    const summary = settings.rosterSlots.map(({ position, count }) => ({
+      label: position,
+      filled: roster.lineup.filter(s => s.slot === position && s.player).length,
+      total: count
+    }));
+    if (settings.minorLeagueSlots > 0) {
+      summary.push({ label: 'MiLB', filled: roster.minors.length, total: settings.minorLeagueSlots });
+    }
+    if (settings.taxiSlots > 0) {
+      summary.push({ label: 'Taxi', filled: roster.taxi.length, total: settings.taxiSlots });
+    }
+    return summary;
+  }, [roster, settings]);
 
-  const gridData: GridPlayer[] = userDraftedPlayers.map(player => {
+  const toRow = (player: Player): GridPlayer => {
     const draftStatus = player.draftStatuses?.find(ds => ds.draftId === activeDraft?.id);
 
     return {
@@ -56,9 +109,31 @@ export function UserDraftedPlayers({
       draftRound: draftStatus?.round,
       draftPick: draftStatus && activeDraft ? 
         getDisplayPickNumber(activeDraft, draftStatus.pick, draftStatus.round) : null,
-      overallPick: draftStatus?.overallPick
+      overallPick: draftStatus?.overallPick,
+      slot: (player.id && slotByPlayerId.get(player.id)) || '-'
     };
-  });
+  };
+
+  const separatorRow = (label: string): GridPlayer => ({ id: `tier-${label}`, name: '', position: '', age: null, slot: '', tierLabel: label });
+
+  // Grouped by tier, each tier keeps the latest picks first; players the source doesn't rank go last
+  const tierGroups = useMemo(() => {
+    if (!rankingSource || tierBreaks.length === 0) return null;
+    const groups = new Map<number, Player[]>();
+    annotate(userDraftedPlayers).forEach(player => {
+      const rank = getRankingValue(player, rankingSource);
+      const tier = rank === null ? Number.MAX_SAFE_INTEGER : getTier(tierBreaks, rank);
+      groups.set(tier, [...(groups.get(tier) ?? []), player]);
+    });
+    return Array.from(groups.entries()).sort(([a], [b]) => a - b);
+  }, [userDraftedPlayers, annotate, rankingSource, tierBreaks]);
+
+  const gridData: GridPlayer[] = tierGroups
+    ? tierGroups.flatMap(([tier, tierPlayers]) => [
+      separatorRow(tier === Number.MAX_SAFE_INTEGER ? 'Unranked' : `Tier ${tier}`),
+      ...tierPlayers.map(toRow)
+    ])
+    : userDraftedPlayers.map(toRow);
 
   const columns: GridColDef<GridPlayer>[] = [
     {
@@ -67,7 +142,10 @@ export function UserDraftedPlayers({
       flex: 0.4,
       type: 'number' as const,
       align: 'center',
-      headerAlign: 'center'
+      headerAlign: 'center',
+      // Tier separators run the full width of the grid
+      colSpan: (_value, row) => (row.tierLabel ? columns.length : undefined),
+      renderCell: (params: GridRenderCellParams<GridPlayer>) => params.row.tierLabel ?? params.row.draftRound
     },
     {
       field: 'draftPick',
@@ -104,6 +182,13 @@ export function UserDraftedPlayers({
         </Box>
       )
     },
+    {
+      field: 'slot',
+      headerName: 'Slot',
+      flex: 0.5,
+      align: 'center',
+      headerAlign: 'center'
+    },
     {
       field: 'position',
       headerName: 'Pos',
@@ -145,9 +230,51 @@ export function UserDraftedPlayers({
       maxWidth: 550,
       flex: 1
     }}>
-      <Typography variant="h6" sx={{ px: 0.5 }}>
-        My Drafted Players ({userDraftedPlayers.length})
-      </Typography>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, px: 0.5 }}>
+        <Typography variant="h6">
+          {viewingUser ? 'My Drafted Players' : 'Drafted Players'} ({userDraftedPlayers.length}
+          {settings?.maxRosterSize ? `/${settings.maxRosterSize}` : ''})
+        </Typography>
+        {managers.length > 0 && (
+          <TextField
+            select
+            size="small"
+            value={managerId ?? ''}
+            onChange={(e) => setSelectedManagerId(e.target.value)}
+            sx={{ minWidth: 160 }}
+          >
+            {managers.map(manager => (
+              <MenuItem key={manager.id} value={manager.id}>
+                {manager.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+      </Box>
+      {slotSummary.length > 0 && (
+        <Box sx={{ display: 'flex', flexWrap: 'wrap', gap: 0.5, px: 0.5 }}>
+          {slotSummary.map(({ label, filled, total }) => (
+            <Chip
+              key={label}
+              size="small"
+              label={`${label} ${filled}/${total}`}
+              color={filled >= total ? 'default' : 'primary'}
+              variant={filled >= total ? 'filled' : 'outlined'}
+              title={filled >= total ? 'Filled' : `${total - filled} open`}
+            />
+          ))}
+        </Box>
+      )}
+      {roster && roster.unplaced.length > 0 && (
+        <Alert severity="warning" sx={{ py: 0 }}>
+          No open slot for {roster.unplaced.map(p => `${p.name} (${p.position?.join('/') || '?'})`).join(', ')}
+        </Alert>
+      )}
+      {roster?.overMaxRoster && (
+        <Alert severity="warning" sx={{ py: 0 }}>
+          Roster is over the {settings?.maxRosterSize}-player limit
+        </Alert>
+      )}
       <Paper elevation={0} sx={{
         width: 'auto',
         flex: 1,
@@ -169,6 +296,7 @@ export function UserDraftedPlayers({
             checkboxSelection={false}
             disableRowSelectionOnClick={true}
             density="compact"
+            getRowClassName={(params: GridRowParams<GridPlayer>) => (params.row.tierLabel ? 'tier-break' : '')}
             getRowSpacing={() => ({
               top: 0,
               bottom: 0
@@ -226,6 +354,20 @@ export function UserDraftedPlayers({
                   opacity: 0.8
                 }
               },
+              '& .tier-break': {
+                bgcolor: 'transparent',
+                color: theme.colors.primary.main,
+                '&:hover': {
+                  backgroundColor: 'transparent',
+                  opacity: 1
+                },
+                '& .MuiDataGrid-cell': {
+                  justifyContent: 'flex-start',
+                  fontSize: '0.875rem',
+                  fontWeight: 600,
+                  textTransform: 'uppercase'
+                }
+              },
               '& .MuiDataGrid-cell': {
                 fontSize: '1rem',
                 borderBottom: 'none',
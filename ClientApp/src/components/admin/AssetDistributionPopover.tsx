@@ -6,6 +6,8 @@ interface AssetDistributionPopoverProps {
   anchorEl: HTMLElement;
   onClose: () => void;
   managers: Manager[];
+  // What's being sent, e.g. a player's name or a pick
+  assetLabel?: string;
   onSelectManager: (managerId: string) => void;
 }
 
@@ -13,6 +15,7 @@ export function AssetDistributionPopover({
   anchorEl,
   onClose,
   managers,
+  assetLabel,
   onSelectManager
 }: AssetDistributionPopoverProps) {
   const { theme, mode } = useTheme();
@@ -45,9 +48,14 @@ export function AssetDistributionPopover({
       }}
     >
       <Box sx={{ p: 2 }}>
-        <Typography variant="subtitle2" sx={{ mb: 1 }}>
+        <Typography variant="subtitle2" sx={{ mb: assetLabel ? 0 : 1 }}>
           Select Receiving Manager
         </Typography>
+        {assetLabel && (
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+            Sending {assetLabel}
+          </Typography>
+        )}
         <List>
           {managers.map(manager => (
             <ListItem key={manager.id} disablePadding>
@@ -1,8 +1,9 @@
-import { Box, IconButton, List, ListItem, ListItemText, Popover, Typography } from '@mui/material';
+import { Box, IconButton, List, ListItem, ListItemText, ListSubheader, Popover, Typography } from '@mui/material';
 import AddIcon from '@mui/icons-material/Add';
 import { useTheme } from '../../contexts/ThemeContext';
-import { Draft, DraftPosition, Manager, TradeAsset } from '../../types/models';
+import { Draft, DraftPosition, FuturePick, Manager, Player, TradeAsset, TradeAssetType } from '../../types/models';
 import { getDisplayPickNumber } from '../../utils/draftUtils';
+import { getFuturePickOwner } from '../../utils/tradeUtils';
 
 interface AvailablePicksPopoverProps {
   anchorEl: HTMLElement | null;
@@ -11,7 +12,13 @@ interface AvailablePicksPopoverProps {
   draft: Draft;
   managers: Manager[];
   tradeAssets?: TradeAsset[];
+  // Players already drafted onto the manager's roster
+  players?: Player[];
+  // The future pick ledger; only the manager's own picks are offered
+  futurePicks?: FuturePick[];
   onAddPick: (pick: DraftPosition) => void;
+  onAddPlayer?: (player: Player) => void;
+  onAddFuturePick?: (pick: FuturePick) => void;
 }
 
 export function AvailablePicksPopover({
@@ -21,7 +28,11 @@ export function AvailablePicksPopover({
   draft,
   managers,
   tradeAssets = [],
-  onAddPick
+  players = [],
+  futurePicks = [],
+  onAddPick,
+  onAddPlayer,
+  onAddFuturePick
 }: AvailablePicksPopoverProps) {
   const { theme, mode } = useTheme();
 
@@ -43,13 +54,59 @@ export function AvailablePicksPopover({
       const currentOwner = pick.tradedTo.length 
         ? pick.tradedTo[pick.tradedTo.length - 1] 
         : pick.managerId;
+      // Used picks are traded as the player taken with them
       return currentOwner === managerId && 
+             !pick.isComplete &&
              !tradeAssets.some(asset => 
+               asset.type === TradeAssetType.DraftPick &&
                asset.overallPickNumber === pick.overallPickNumber
              );
     })
     .sort((a, b) => a.overallPickNumber - b.overallPickNumber);
 
+  const availablePlayers = onAddPlayer
+    ? players.filter(player => !tradeAssets.some(asset =>
+        asset.type === TradeAssetType.Player && asset.playerId === player.id
+      ))
+    : [];
+
+  const availableFuturePicks = onAddFuturePick
+    ? futurePicks.filter(pick =>
+        getFuturePickOwner(pick) === managerId &&
+        !tradeAssets.some(asset => asset.type === TradeAssetType.FuturePick && asset.futurePickId === pick.id)
+      )
+    : [];
+  const futureYears = [...new Set(availableFuturePicks.map(pick => pick.year))].sort((a, b) => a - b);
+
+  const getManagerName = (id: string) => managers.find(m => m.id === id)?.name || 'Unknown';
+
+  const getDraftStatus = (player: Player) =>
+    player.draftStatuses?.find(ds => ds.draftId === draft.id && ds.isDrafted);
+
+  const addButtonSx = {
+    color: mode === 'light' ? 
+      theme.colors.primary.main : 
+      theme.colors.primary.light
+  };
+
+  const listItemTextSx = {
+    color: mode === 'light' ? 
+      theme.colors.text.primary.light : 
+      theme.colors.text.primary.dark,
+    '.MuiListItemText-secondary': {
+      color: mode === 'light' ? 
+        theme.colors.text.secondary.light : 
+        theme.colors.text.secondary.dark
+    }
+  };
+
+  const subheaderSx = {
+    bgcolor: mode === 'light' ? 
+      theme.colors.background.paper.light : 
+      theme.colors.background.paper.dark,
+    lineHeight: '32px'
+  };
+
   const roundNumber = (pick: DraftPosition) => 
     Math.floor((pick.overallPickNumber - 1) / draft.draftOrder.length) + 1;
 
@@ -76,12 +133,15 @@ export function AvailablePicksPopover({
         }
       }}
     >
-      {availablePicks.length === 0 ? (
+      {availablePicks.length === 0 && availablePlayers.length === 0 && availableFuturePicks.length === 0 ? (
         <Box sx={{ p: 2 }}>
-          <Typography>No available picks</Typography>
+          <Typography>{onAddPlayer ? 'No available picks or players' : 'No available picks'}</Typography>
         </Box>
       ) : (
         <List>
+          {availablePicks.length > 0 && (onAddPlayer || onAddFuturePick) && (
+            <ListSubheader sx={subheaderSx}>Picks</ListSubheader>
+          )}
           {availablePicks.map(pick => {
             const rn = roundNumber(pick);
             const displayPickNumber = getDisplayPickNumber(draft, pick.pickNumber, rn);
@@ -95,11 +155,7 @@ export function AvailablePicksPopover({
                       onAddPick(pick);
                       onClose();
                     }}
-                    sx={{
-                      color: mode === 'light' ? 
-                        theme.colors.primary.main : 
-                        theme.colors.primary.light
-                    }}
+                    sx={addButtonSx}
                   >
                     <AddIcon />
                   </IconButton>
@@ -112,20 +168,70 @@ export function AvailablePicksPopover({
                       ? `(Traded from ${getOriginalManagerName(pick)})`
                       : undefined
                   }
-                  sx={{
-                    color: mode === 'light' ? 
-                      theme.colors.text.primary.light : 
-                      theme.colors.text.primary.dark,
-                    '.MuiListItemText-secondary': {
-                      color: mode === 'light' ? 
-                        theme.colors.text.secondary.light : 
-                        theme.colors.text.secondary.dark
-                    }
-                  }}
+                  sx={listItemTextSx}
+                />
+              </ListItem>
+            );
+          })}
+          {availablePlayers.length > 0 && (
+            <ListSubheader sx={subheaderSx}>Players</ListSubheader>
+          )}
+          {availablePlayers.map(player => {
+            const draftStatus = getDraftStatus(player);
+            
+            return (
+              <ListItem 
+                key={player.id}
+                secondaryAction={
+                  <IconButton 
+                    onClick={() => {
+                      onAddPlayer?.(player);
+                      onClose();
+                    }}
+                    sx={addButtonSx}
+                  >
+                    <AddIcon />
+                  </IconButton>
+                }
+              >
+                <ListItemText 
+                  primary={player.name}
+                  secondary={[
+                    player.position?.join(', '),
+                    draftStatus && `Drafted Round ${draftStatus.round} (Overall: ${draftStatus.overallPick})`
+                  ].filter(Boolean).join(' • ')}
+                  sx={listItemTextSx}
                 />
               </ListItem>
             );
           })}
+          {futureYears.map(year => [
+            <ListSubheader key={`year-${year}`} sx={subheaderSx}>{year} Picks</ListSubheader>,
+            ...availableFuturePicks.filter(pick => pick.year === year).map(pick => (
+              <ListItem
+                key={pick.id}
+                secondaryAction={
+                  <IconButton
+                    onClick={() => {
+                      onAddFuturePick?.(pick);
+                      onClose();
+                    }}
+                    sx={addButtonSx}
+                  >
+                    <AddIcon />
+                  </IconButton>
+                }
+              >
+                <ListItemText
+                  primary={`${year} Round ${pick.round}`}
+                  secondary={pick.originalManagerId !== managerId
+                    ? `(Traded from ${getManagerName(pick.originalManagerId)})`
+                    : undefined}
+                  sx={listItemTextSx}
+                />
+              </ListItem>
+            ))
+          ])}
         </List>
       )}
     </Popover>
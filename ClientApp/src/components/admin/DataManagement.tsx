@@ -16,13 +16,16 @@ import {
 } from '@mui/material';
 import { usePlayerService } from '../../services/playerService';
 import { apiClient } from '../../services/apiClient';
+import { valuationService } from '../../services/valuationService';
 import { 
   BirthDateVerificationResult, 
   PositionUpdateResult, 
   ProjectionType,
   ProjectionSource,
   RankingSource,
-  ProspectSource 
+  ProspectSource,
+  ValuationMethod,
+  ValuationResult
 } from '../../types/models';
 import { LeagueSettingsModal } from './LeagueSettingsModal';
 
@@ -76,6 +79,18 @@ export const DataManagement: React.FC = () => {
     details?: PositionUpdateResult;
   } | null>(null);
   const [leagueSettingsOpen, setLeagueSettingsOpen] = useState(false);
+  const [valuationConfig, setValuationConfig] = useState({
+    projectionSource: ProjectionSource.STEAMER as string,
+    method: ValuationMethod.ZScore,
+    budgetPerTeam: 260,
+    minimumBid: 1
+  });
+  const [valuationLoading, setValuationLoading] = useState(false);
+  const [valuationStatus, setValuationStatus] = useState<{
+    success: boolean;
+    message: string;
+    details?: ValuationResult;
+  } | null>(null);
 
   const playerService = usePlayerService();
 
@@ -152,6 +167,26 @@ export const DataManagement: React.FC = () => {
     }
   };
 
+  const handleCalculateValues = async () => {
+    try {
+      setValuationLoading(true);
+      setValuationStatus(null);
+      const result = await valuationService.calculate(valuationConfig);
+      setValuationStatus({
+        success: true,
+        message: `Valued ${result.value.playersValued} players from ${result.value.projectionSource} projections`,
+        details: result.value
+      });
+    } catch (error) {
+      setValuationStatus({
+        success: false,
+        message: `Error calculating values: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    } finally {
+      setValuationLoading(false);
+    }
+  };
+
   const handleCsvImport = async () => {
     if (!selectedFile) {
       setImportStatus({
@@ -197,6 +232,11 @@ export const DataManagement: React.FC = () => {
         success: true,
         message: result.message || `Successfully imported players from ${selectedFile.name}`
       });
+
+      // New projections make the current values stale
+      if (importConfig.dataType === 'projections' && importConfig.projectionSource === valuationConfig.projectionSource) {
+        await handleCalculateValues();
+      }
     } catch (error) {
       setImportStatus({
         success: false,
@@ -260,6 +300,84 @@ export const DataManagement: React.FC = () => {
 
         <Divider sx={{ my: 2 }} />
 
+        <Box>
+          <Typography variant="subtitle1" gutterBottom>
+            Player Values
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            Prices players from projections using the league's categories and roster slots.
+            Values are recalculated automatically after importing projections from the same source.
+          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, flexWrap: 'wrap' }}>
+            <TextField
+              select
+              size="small"
+              label="Projections"
+              value={valuationConfig.projectionSource}
+              onChange={(e) => setValuationConfig(prev => ({ ...prev, projectionSource: e.target.value }))}
+              sx={{ minWidth: 140 }}
+            >
+              {Object.values(ProjectionSource).map(source => (
+                <MenuItem key={source} value={source}>{source}</MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              select
+              size="small"
+              label="Method"
+              value={valuationConfig.method}
+              onChange={(e) => setValuationConfig(prev => ({ ...prev, method: e.target.value as ValuationMethod }))}
+              sx={{ minWidth: 160 }}
+            >
+              <MenuItem value={ValuationMethod.ZScore}>Z-Scores</MenuItem>
+              <MenuItem value={ValuationMethod.Sgp}>Standings Gain Points</MenuItem>
+            </TextField>
+            <TextField
+              size="small"
+              label="Budget per Team"
+              type="number"
+              value={valuationConfig.budgetPerTeam}
+              onChange={(e) => setValuationConfig(prev => ({ ...prev, budgetPerTeam: parseInt(e.target.value) || 0 }))}
+              inputProps={{ min: 1 }}
+              sx={{ width: 140 }}
+            />
+            <TextField
+              size="small"
+              label="Minimum Bid"
+              type="number"
+              value={valuationConfig.minimumBid}
+              onChange={(e) => setValuationConfig(prev => ({ ...prev, minimumBid: parseInt(e.target.value) || 0 }))}
+              inputProps={{ min: 0 }}
+              sx={{ width: 120 }}
+            />
+            <Button
+              variant="contained"
+              onClick={handleCalculateValues}
+              disabled={valuationLoading || valuationConfig.budgetPerTeam < 1}
+            >
+              {valuationLoading ? 'Calculating...' : 'Calculate Values'}
+            </Button>
+          </Box>
+          {valuationStatus && (
+            <Alert
+              severity={valuationStatus.success ? 'success' : 'error'}
+              sx={{ mt: 2 }}
+            >
+              <Typography>{valuationStatus.message}</Typography>
+              {valuationStatus.details && (
+                <Typography variant="body2" sx={{ mt: 1 }}>
+                  {valuationStatus.details.playersRostered} rostered across {valuationStatus.details.teams} teams.
+                  Replacement level: {Object.entries(valuationStatus.details.replacementLevels)
+                    .map(([position, level]) => `${position.toUpperCase()} ${level.toFixed(2)}`)
+                    .join(', ')}
+                </Typography>
+              )}
+            </Alert>
+          )}
+        </Box>
+
+        <Divider sx={{ my: 2 }} />
+
         <Box>
           <Typography variant="subtitle1" gutterBottom>
             Data Operations
@@ -452,9 +570,11 @@ export const DataManagement: React.FC = () => {
                   }))}
                   margin="normal"
                 >
-                  {Object.values(RankingSource).map(source => (
-                    <MenuItem key={source} value={source}>{source}</MenuItem>
-                  ))}
+                  {Object.values(RankingSource)
+                    .filter(source => source !== RankingSource.VALUE)
+                    .map(source => (
+                      <MenuItem key={source} value={source}>{source}</MenuItem>
+                    ))}
                 </TextField>
               )}
 
@@ -0,0 +1,365 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Grow,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Typography
+} from '@mui/material';
+import CasinoIcon from '@mui/icons-material/Casino';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTheme } from '../../contexts/ThemeContext';
+import { lotteryService } from '../../services/lotteryService';
+import { DraftLottery, LotteryEntry, Manager } from '../../types/models';
+
+// Time between revealing each slot, last slot first
+const REVEAL_INTERVAL_MS = 900;
+
+interface EntryForm {
+  managerId: string;
+  standing: string;
+  // Percent chance at each drawn slot
+  slotOdds: string[];
+}
+
+/**
+ * Each team's chance of landing each of the first `draws` slots when every slot is drawn from the teams
+ * left, weighted the same way each time. Worked out over every way the drawing can go.
+ */
+const getSlotOdds = (weights: number[], draws: number): number[][] => {
+  const odds = weights.map(() => new Array<number>(draws).fill(0));
+  const drawFrom = (left: number[], slot: number, chance: number) => {
+    if (slot >= draws) return;
+    const total = left.reduce((sum, team) => sum + weights[team], 0);
+    if (total <= 0) return;
+    left.forEach(team => {
+      if (weights[team] <= 0) return;
+      const won = chance * weights[team] / total;
+      odds[team][slot] += won;
+      drawFrom(left.filter(t => t !== team), slot + 1, won);
+    });
+  };
+  drawFrom(weights.map((_, team) => team), 0, 1);
+  const rounded = odds.map(row => row.map(chance => Math.round(chance * 1000) / 10));
+
+  // Rounding can leave a slot a little off 100%; the favourite for it takes up the difference
+  for (let slot = 0; slot < draws; slot++) {
+    const total = rounded.reduce((sum, row) => sum + row[slot], 0);
+    const favourite = rounded.reduce((best, row, team) => (row[slot] > rounded[best][slot] ? team : best), 0);
+    if (total > 0) {
+      rounded[favourite][slot] = Math.round((rounded[favourite][slot] + 100 - total) * 10) / 10;
+    }
+  }
+  return rounded;
+};
+
+interface DraftLotteryDialogProps {
+  open: boolean;
+  year: number;
+  managers: Manager[];
+  onClose: () => void;
+  onUseOrder: (lottery: DraftLottery) => void;
+}
+
+/**
+ * Draws the top of a draft order for teams that missed the playoffs. Results are revealed from the last
+ * slot up, and every lottery's seed is kept so it can be loaded and rerun to check the order.
+ * Mount it only while open so each visit starts from the current manager list.
+ */
+export const DraftLotteryDialog: React.FC<DraftLotteryDialogProps> = ({ open, year, managers, onClose, onUseOrder }) => {
+  const queryClient = useQueryClient();
+  const { theme, mode } = useTheme();
+  const [entries, setEntries] = useState<EntryForm[]>(() =>
+    managers.map((manager, index) => ({ managerId: manager.id!, standing: String(index + 1), slotOdds: [] })));
+  const [playoffTeams, setPlayoffTeams] = useState<string>('');
+  const [draws, setDraws] = useState<string>('3');
+  const [seed, setSeed] = useState<string>('');
+  const [lottery, setLottery] = useState<DraftLottery | null>(null);
+  const [revealed, setRevealed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: historyResponse } = useQuery({
+    queryKey: ['lotteries', year],
+    queryFn: () => lotteryService.getAll(year),
+    enabled: open,
+    staleTime: 0
+  });
+  const history = historyResponse?.value ?? [];
+
+  useEffect(() => {
+    if (!lottery || revealed >= lottery.results.length) return;
+    const timer = setTimeout(() => setRevealed(count => count + 1), REVEAL_INTERVAL_MS);
+    return () => clearTimeout(timer);
+  }, [lottery, revealed]);
+
+  const getManagerName = (managerId: string) =>
+    managers.find(m => m.id === managerId)?.name ?? 'Unknown Manager';
+
+  const drawCount = Math.max(0, parseInt(draws) || 0);
+  const slots = Array.from({ length: drawCount }, (_, slot) => slot);
+  const slotTotals = slots.map(slot =>
+    entries.reduce((sum, e) => sum + (parseFloat(e.slotOdds[slot] ?? '') || 0), 0));
+
+  const updateEntry = (managerId: string, changes: Partial<EntryForm>) =>
+    setEntries(entries.map(e => (e.managerId === managerId ? { ...e, ...changes } : e)));
+
+  const updateSlotOdds = (entry: EntryForm, slot: number, value: string) => {
+    const slotOdds = slots.map(s => entry.slotOdds[s] ?? '');
+    slotOdds[slot] = value;
+    updateEntry(entry.managerId, { slotOdds });
+  };
+
+  // Worst record gets the best odds, falling evenly to the last non-playoff team
+  const fillDefaultOdds = () => {
+    const playoffs = parseInt(playoffTeams) || 0;
+    const lotteryTeams = entries.length - playoffs;
+    const weights = entries.map(e => {
+      const fromWorst = entries.length - (parseInt(e.standing) || 0) + 1;
+      return fromWorst >= 1 && fromWorst <= lotteryTeams ? lotteryTeams - fromWorst + 1 : 0;
+    });
+    const odds = getSlotOdds(weights, drawCount);
+    setEntries(entries.map((e, index) => ({
+      ...e,
+      slotOdds: weights[index] > 0 ? odds[index].map(String) : []
+    })));
+  };
+
+  const loadLottery = (past: DraftLottery) => {
+    setEntries(past.entries.map(e => ({
+      managerId: e.managerId,
+      standing: String(e.standing),
+      slotOdds: e.slotOdds.map(String)
+    })));
+    setDraws(String(past.draws));
+    setSeed(String(past.seed));
+    setLottery(null);
+  };
+
+  const runMutation = useMutation({
+    mutationFn: () => {
+      const parsed: LotteryEntry[] = entries.map(e => {
+        const slotOdds = slots.map(slot => parseFloat(e.slotOdds[slot] ?? '') || 0);
+        return {
+          managerId: e.managerId,
+          standing: parseInt(e.standing),
+          // Teams with no odds anywhere are outside the lottery
+          slotOdds: slotOdds.some(o => o > 0) ? slotOdds : []
+        };
+      });
+      if (parsed.some(e => isNaN(e.standing))) {
+        throw new Error('Every manager needs a standing');
+      }
+      return lotteryService.run({
+        year,
+        seed: seed === '' ? undefined : parseInt(seed),
+        draws: drawCount,
+        entries: parsed
+      });
+    },
+    onSuccess: (response) => {
+      setError(null);
+      setLottery(response.value);
+      setRevealed(0);
+      queryClient.invalidateQueries({ queryKey: ['lotteries'] });
+    },
+    onError: (error) => {
+      setError(`Error running lottery: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  });
+
+  const revealComplete = !!lottery && revealed >= lottery.results.length;
+  const dialogBgColor = mode === 'light' ? theme.colors.background.elevated.light : theme.colors.background.elevated.dark;
+
+  return (
+    <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth PaperProps={{ sx: { bgcolor: dialogBgColor } }}>
+      <DialogTitle>{year} Draft Lottery</DialogTitle>
+      <DialogContent>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }} onClose={() => setError(null)}>{error}</Alert>
+        )}
+
+        {!lottery ? (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Enter last season's standings (1 is the best record) and each team's percent chance of landing
+              each drawn pick; every pick's odds add up to 100%. Picks are drawn in order among the teams still
+              left; everyone else picks from worst record up, with playoff teams last.
+            </Typography>
+            <Table size="small">
+              <TableHead>
+                <TableRow>
+                  <TableCell>Manager</TableCell>
+                  <TableCell>Standing</TableCell>
+                  {slots.map(slot => (
+                    <TableCell key={slot}>#{slot + 1} %</TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {entries.map(entry => (
+                  <TableRow key={entry.managerId}>
+                    <TableCell>{getManagerName(entry.managerId)}</TableCell>
+                    <TableCell>
+                      <TextField
+                        type="number"
+                        size="small"
+                        value={entry.standing}
+                        onChange={(e) => updateEntry(entry.managerId, { standing: e.target.value })}
+                        inputProps={{ min: 1, max: entries.length }}
+                        sx={{ width: 90 }}
+                      />
+                    </TableCell>
+                    {slots.map(slot => (
+                      <TableCell key={slot}>
+                        <TextField
+                          type="number"
+                          size="small"
+                          value={entry.slotOdds[slot] ?? ''}
+                          onChange={(e) => updateSlotOdds(entry, slot, e.target.value)}
+                          inputProps={{ min: 0, max: 100, step: 0.1 }}
+                          sx={{ width: 90 }}
+                        />
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                ))}
+                {drawCount > 0 && (
+                  <TableRow>
+                    <TableCell colSpan={2} align="right">Total</TableCell>
+                    {slotTotals.map((total, slot) => (
+                      <TableCell
+                        key={slot}
+                        sx={{ color: Math.abs(total - 100) > 0.1 ? 'error.main' : undefined }}
+                      >
+                        {Math.round(total * 10) / 10}%
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+            <Box sx={{ mt: 2, display: 'flex', gap: 2, alignItems: 'center', flexWrap: 'wrap' }}>
+              <TextField
+                type="number"
+                size="small"
+                label="Playoff Teams"
+                value={playoffTeams}
+                onChange={(e) => setPlayoffTeams(e.target.value)}
+                inputProps={{ min: 0, max: entries.length }}
+                sx={{ width: 130 }}
+              />
+              <Button onClick={fillDefaultOdds}>Default Odds</Button>
+              <TextField
+                type="number"
+                size="small"
+                label="Draws"
+                value={draws}
+                onChange={(e) => setDraws(e.target.value)}
+                helperText="Picks decided by the drawing"
+                inputProps={{ min: 0 }}
+                sx={{ width: 130 }}
+              />
+              <TextField
+                type="number"
+                size="small"
+                label="Seed"
+                value={seed}
+                onChange={(e) => setSeed(e.target.value)}
+                helperText="Blank for random"
+                sx={{ width: 150 }}
+              />
+            </Box>
+
+            {history.length > 0 && (
+              <Box sx={{ mt: 3 }}>
+                <Typography variant="subtitle2" gutterBottom>Earlier {year} lotteries</Typography>
+                {history.map(past => (
+                  <Box key={past.id} sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.5 }}>
+                    <Typography variant="body2" sx={{ flex: 1 }}>
+                      {new Date(past.createdAt).toLocaleString()} • seed {past.seed} • #1 {getManagerName(past.results[0]?.managerId ?? '')}
+                    </Typography>
+                    {past.draftId && <Chip size="small" label="Used for draft" />}
+                    <Button size="small" onClick={() => loadLottery(past)}>Load</Button>
+                  </Box>
+                ))}
+              </Box>
+            )}
+          </>
+        ) : (
+          <>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Seed {lottery.seed}. Rerunning with the same seed and entries gives the same order.
+            </Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+              {lottery.results.map(result => {
+                const isRevealed = result.slot > lottery.results.length - revealed;
+                const movement = result.preLotterySlot - result.slot;
+                return (
+                  <Grow key={result.slot} in={isRevealed} timeout={500}>
+                    <Box
+                      sx={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: 2,
+                        p: 1,
+                        borderRadius: 1,
+                        bgcolor: result.roll != null
+                          ? (mode === 'light' ? theme.colors.background.paper.light : theme.colors.background.paper.dark)
+                          : 'transparent'
+                      }}
+                    >
+                      <Typography variant="h6" sx={{ width: 48, fontWeight: 700 }}>#{result.slot}</Typography>
+                      <Typography variant="body1" sx={{ flex: 1 }}>{getManagerName(result.managerId)}</Typography>
+                      {result.chance != null && (
+                        <Chip size="small" label={`Drawn at ${(result.chance * 100).toFixed(1)}%`} />
+                      )}
+                      {movement !== 0 && (
+                        <Chip
+                          size="small"
+                          color={movement > 0 ? 'success' : 'error'}
+                          label={`${movement > 0 ? '▲' : '▼'} ${Math.abs(movement)} from #${result.preLotterySlot}`}
+                        />
+                      )}
+                    </Box>
+                  </Grow>
+                );
+              })}
+            </Box>
+          </>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+        {!lottery ? (
+          <Button
+            variant="contained"
+            startIcon={<CasinoIcon />}
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending || entries.length === 0}
+          >
+            Run Lottery
+          </Button>
+        ) : (
+          <>
+            <Button onClick={() => setLottery(null)}>Back</Button>
+            {!revealComplete && <Button onClick={() => setRevealed(lottery.results.length)}>Reveal All</Button>}
+            <Button variant="contained" onClick={() => onUseOrder(lottery)} disabled={!revealComplete}>
+              Use This Order
+            </Button>
+          </>
+        )}
+      </DialogActions>
+    </Dialog>
+  );
+};
@@ -17,13 +17,21 @@ import {
   Divider,
   FormControlLabel,
   Switch,
-  Tooltip
+  Tooltip,
+  MenuItem
 } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
-import { Draft, Manager } from '../../types/models';
+import PauseIcon from '@mui/icons-material/Pause';
+import PlayArrowIcon from '@mui/icons-material/PlayArrow';
+import { Draft, DraftLottery, DraftOrderStrategy, Manager, PickClockExpiryPolicy, RoundClockOverride, RoundOrder } from '../../types/models';
 import { DraftOrderList } from '../DraftOrderList';
+import { RoundOrderEditor } from './RoundOrderEditor';
+import { DraftLotteryDialog } from './DraftLotteryDialog';
+import { PickClockDisplay } from '../PickClockDisplay';
 import { draftService } from '../../services/draftService';
 import { managerService } from '../../services/managerService';
+import { usePickClock } from '../../hooks/usePickClock';
+import { getOrderStrategy, ORDER_STRATEGY_LABELS } from '../../utils/draftUtils';
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 
 export const DraftManagement: React.FC = () => {
@@ -43,9 +51,22 @@ export const DraftManagement: React.FC = () => {
   const [hasTradesError, setHasTradesError] = useState(false);
   const [selectedManagers, setSelectedManagers] = useState<string[]>([]);
   const [initialRounds, setInitialRounds] = useState<string>('5');
-  const [isSnakeDraft, setIsSnakeDraft] = useState<boolean>(true);
+  const [orderStrategy, setOrderStrategy] = useState<DraftOrderStrategy>(DraftOrderStrategy.Snake);
+  const [customRoundOrders, setCustomRoundOrders] = useState<RoundOrder[]>([]);
+  const [lotteryDialogOpen, setLotteryDialogOpen] = useState(false);
+  const [lottery, setLottery] = useState<DraftLottery | null>(null);
+  const [isAuction, setIsAuction] = useState<boolean>(false);
+  const [auctionBudget, setAuctionBudget] = useState<string>('260');
+  const [minimumBid, setMinimumBid] = useState<string>('1');
   const [draftYear, setDraftYear] = useState<number>(new Date().getFullYear());
   const [draftType, setDraftType] = useState<string>('');
+  const [clockDialogOpen, setClockDialogOpen] = useState(false);
+  const [clockEnabled, setClockEnabled] = useState(true);
+  const [secondsPerPick, setSecondsPerPick] = useState<string>('120');
+  const [timeBankSeconds, setTimeBankSeconds] = useState<string>('0');
+  const [expiryPolicy, setExpiryPolicy] = useState<PickClockExpiryPolicy>(PickClockExpiryPolicy.AutoAdvance);
+  const [roundOverrides, setRoundOverrides] = useState<RoundClockOverride[]>([]);
+  const [resetTimeBanks, setResetTimeBanks] = useState(false);
 
   // Queries
   const { data: managersResponse } = useQuery({
@@ -66,6 +87,8 @@ export const DraftManagement: React.FC = () => {
     staleTime: 0
   });
 
+  const pickClock = usePickClock();
+
   const currentDraft = activeDraftResponse?.value;
   const allDrafts = allDraftsResponse?.value ?? [];
   const managers = managersResponse?.value ?? [];
@@ -102,7 +125,8 @@ export const DraftManagement: React.FC = () => {
     onSuccess: () => {
       return Promise.all([
         queryClient.invalidateQueries({ queryKey: ['drafts'] }),
-        queryClient.invalidateQueries({ queryKey: ['activeDraft'] })
+        queryClient.invalidateQueries({ queryKey: ['activeDraft'] }),
+        queryClient.invalidateQueries({ queryKey: ['futurePicks'] })
       ]).then(() => {
         setDraftStatus({
           success: true,
@@ -134,7 +158,8 @@ export const DraftManagement: React.FC = () => {
     onSuccess: (response) => {
       return Promise.all([
         queryClient.invalidateQueries({ queryKey: ['activeDraft'] }),
-        queryClient.invalidateQueries({ queryKey: ['drafts'] })
+        queryClient.invalidateQueries({ queryKey: ['drafts'] }),
+        queryClient.invalidateQueries({ queryKey: ['futurePicks'] })
       ]).then(() => {
         setDraftStatus({
           success: true,
@@ -158,7 +183,8 @@ export const DraftManagement: React.FC = () => {
     onSuccess: () => {
       return Promise.all([
         queryClient.invalidateQueries({ queryKey: ['activeDraft'] }),
-        queryClient.invalidateQueries({ queryKey: ['drafts'] })
+        queryClient.invalidateQueries({ queryKey: ['drafts'] }),
+        queryClient.invalidateQueries({ queryKey: ['futurePicks'] })
       ]).then(() => {
         setDraftStatus({
           success: true,
@@ -183,11 +209,26 @@ export const DraftManagement: React.FC = () => {
       if (rounds < 1) {
         throw new Error('Number of rounds must be at least 1');
       }
+      const budget = parseInt(auctionBudget);
+      const minBid = parseInt(minimumBid);
+      if (isAuction && (isNaN(budget) || isNaN(minBid) || budget < minBid * rounds)) {
+        throw new Error('Auction budget must cover the minimum bid for every round');
+      }
+      const isCustom = orderStrategy === DraftOrderStrategy.Custom && !isAuction;
+      const roundOrders = customRoundOrders.filter(o => o.round <= rounds);
+      const staleOrder = roundOrders.find(o =>
+        o.managerIds.length !== selectedManagers.length || !selectedManagers.every(id => o.managerIds.includes(id)));
+      if (isCustom && staleOrder) {
+        throw new Error(`Round ${staleOrder.round}'s order must include every manager in the draft order`);
+      }
       return draftService.createDraft({
         year: draftYear,
-        type: draftType || 'standard',
-        isSnakeDraft,
+        type: draftType || (isAuction ? 'auction' : 'standard'),
+        orderStrategy: isAuction ? DraftOrderStrategy.Linear : orderStrategy,
+        customRoundOrders: isCustom ? roundOrders : undefined,
+        lotteryId: lottery?.id,
         initialRounds: rounds,
+        auction: isAuction ? { budget, minimumBid: minBid } : undefined,
         draftOrder: selectedManagers.map((managerId, index) => ({
           managerId,
           pickNumber: index + 1,
@@ -200,7 +241,10 @@ export const DraftManagement: React.FC = () => {
     onSuccess: () => {
       return Promise.all([
         queryClient.invalidateQueries({ queryKey: ['drafts'] }),
-        queryClient.invalidateQueries({ queryKey: ['activeDraft'] })
+        queryClient.invalidateQueries({ queryKey: ['activeDraft'] }),
+        // The new draft takes over its year's future picks
+        queryClient.invalidateQueries({ queryKey: ['futurePicks'] }),
+        queryClient.invalidateQueries({ queryKey: ['lotteries'] })
       ]).then(() => {
         setDraftStatus({
           success: true,
@@ -240,6 +284,71 @@ export const DraftManagement: React.FC = () => {
     }
   });
 
+  const updatePickClockMutation = useMutation({
+    mutationFn: async (draftId: string) => {
+      const seconds = parseInt(secondsPerPick);
+      if (isNaN(seconds) || seconds < 5) {
+        throw new Error('Seconds per pick must be at least 5');
+      }
+      return draftService.updatePickClock(draftId, {
+        enabled: clockEnabled,
+        secondsPerPick: seconds,
+        roundOverrides: roundOverrides.filter(o => o.round > 0 && o.seconds > 0),
+        timeBankSeconds: parseInt(timeBankSeconds) || 0,
+        expiryPolicy,
+        resetTimeBanks
+      });
+    },
+    onSuccess: (response) => {
+      queryClient.setQueryData(['pickClock'], response);
+      return queryClient.invalidateQueries({ queryKey: ['activeDraft'] }).then(() => {
+        setDraftStatus({
+          success: true,
+          message: 'Pick clock settings saved'
+        });
+        setClockDialogOpen(false);
+      });
+    },
+    onError: (error) => {
+      setDraftStatus({
+        success: false,
+        message: `Error saving pick clock: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  });
+
+  const toggleClockMutation = useMutation({
+    mutationFn: async ({ draftId, pause }: { draftId: string; pause: boolean }) => {
+      return pause ? draftService.pauseClock(draftId) : draftService.resumeClock(draftId);
+    },
+    onSuccess: (response) => {
+      queryClient.setQueryData(['pickClock'], response);
+    },
+    onError: (error) => {
+      setDraftStatus({
+        success: false,
+        message: `Error updating pick clock: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  });
+
+  const openClockDialog = () => {
+    const clock = currentDraft?.pickClock;
+    setClockEnabled(clock?.enabled ?? true);
+    setSecondsPerPick(String(clock?.secondsPerPick ?? 120));
+    setTimeBankSeconds(String(clock?.timeBankSeconds ?? 0));
+    setExpiryPolicy(clock?.expiryPolicy ?? PickClockExpiryPolicy.AutoAdvance);
+    setRoundOverrides(clock?.roundOverrides ?? []);
+    setResetTimeBanks(false);
+    setDraftStatus(null);
+    setClockDialogOpen(true);
+  };
+
+  const updateRoundOverride = (index: number, field: keyof RoundClockOverride, value: string) => {
+    const parsed = parseInt(value);
+    setRoundOverrides(roundOverrides.map((o, i) => i === index ? { ...o, [field]: isNaN(parsed) ? 0 : parsed } : o));
+  };
+
   const handleResetDraft = () => {
     if (!currentDraft?.id) return;
     resetDraftMutation.mutate(currentDraft.id);
@@ -286,6 +395,7 @@ export const DraftManagement: React.FC = () => {
           }}
           onClick={() => {
             setSelectedManagers([]);
+            setLottery(null);
             setDraftStatus(null);
             setDraftOrderDialogOpen(true);
           }}
@@ -337,6 +447,31 @@ export const DraftManagement: React.FC = () => {
         >
           {isLoading ? 'Resetting...' : 'Reset Draft'}
         </Button>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+          <Button
+            variant="outlined"
+            onClick={openClockDialog}
+            disabled={!currentDraft?.id || !!currentDraft.auction || updatePickClockMutation.isPending}
+          >
+            Pick Clock Settings
+          </Button>
+          {currentDraft?.pickClock?.enabled && (
+            <>
+              <Button
+                variant="contained"
+                startIcon={pickClock.status?.isPaused ? <PlayArrowIcon /> : <PauseIcon />}
+                onClick={() => toggleClockMutation.mutate({
+                  draftId: currentDraft.id!,
+                  pause: !pickClock.status?.isPaused
+                })}
+                disabled={toggleClockMutation.isPending}
+              >
+                {pickClock.status?.isPaused ? 'Resume Clock' : 'Pause Clock'}
+              </Button>
+              <PickClockDisplay clock={pickClock} />
+            </>
+          )}
+        </Box>
       </Box>
 
       {allDrafts.length > 0 && (
@@ -389,7 +524,7 @@ export const DraftManagement: React.FC = () => {
                         {draft.type} Draft ({draft.year})
                       </Typography>
                       <Typography variant="body2" color="text.secondary">
-                        {draft.rounds.length} rounds • {draft.isSnakeDraft ? 'Snake' : 'Standard'} • {draft.isActive ? 'Active' : 'Inactive'}
+                        {draft.rounds.length} rounds • {draft.auction ? `Auction ($${draft.auction.budget})` : ORDER_STRATEGY_LABELS[getOrderStrategy(draft)]} • {draft.isActive ? 'Active' : 'Inactive'}
                       </Typography>
                     </Box>
                   </ListItem>
@@ -410,14 +545,27 @@ export const DraftManagement: React.FC = () => {
       >
         <DialogTitle>Set Draft Order</DialogTitle>
         <DialogContent sx={{ width: 800, maxWidth: '90vw', overflow: 'hidden' }}>
-          <Typography gutterBottom>
-            Set the draft order by dragging managers or clicking to select and add them. All managers must be included in the draft order.
-          </Typography>
+          <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 2 }}>
+            <Typography gutterBottom sx={{ flex: 1 }}>
+              Set the draft order by dragging managers or clicking to select and add them. All managers must be included in the draft order.
+            </Typography>
+            <Button variant="outlined" onClick={() => setLotteryDialogOpen(true)} disabled={isLoading}>
+              Run Lottery
+            </Button>
+          </Box>
+          {lottery && (
+            <Alert severity="info" sx={{ mt: 1 }} onClose={() => setLottery(null)}>
+              Order from the {lottery.year} lottery (seed {lottery.seed}). Changing the order drops the lottery.
+            </Alert>
+          )}
           <Box sx={{ mt: 2 }}>
             <DraftOrderList
               managers={managers}
               selectedManagers={selectedManagers}
-              onOrderChange={setSelectedManagers}
+              onOrderChange={(newOrder) => {
+                setSelectedManagers(newOrder);
+                setLottery(null);
+              }}
               maxSlots={managers.length}
             />
           </Box>
@@ -485,18 +633,87 @@ export const DraftManagement: React.FC = () => {
                 }}
               />
             </Box>
+            <Box sx={{ width: 200 }}>
+              <TextField
+                select
+                fullWidth
+                label="Pick Order"
+                value={isAuction ? DraftOrderStrategy.Linear : orderStrategy}
+                onChange={(e) => setOrderStrategy(e.target.value as DraftOrderStrategy)}
+                disabled={isAuction}
+                sx={{
+                  mt: 2,
+                  '& .MuiInputBase-root': {
+                    bgcolor: dialogContentBgColor
+                  }
+                }}
+              >
+                {Object.values(DraftOrderStrategy).map(strategy => (
+                  <MenuItem key={strategy} value={strategy}>{ORDER_STRATEGY_LABELS[strategy]}</MenuItem>
+                ))}
+              </TextField>
+            </Box>
+          </Box>
+          {orderStrategy === DraftOrderStrategy.Custom && !isAuction && (
+            <Box sx={{ mt: 3, px: 2 }}>
+              <RoundOrderEditor
+                managers={managers}
+                draftOrder={selectedManagers}
+                rounds={parseInt(initialRounds) || 0}
+                value={customRoundOrders}
+                onChange={setCustomRoundOrders}
+              />
+            </Box>
+          )}
+          <Box sx={{ mt: 2, display: 'flex', alignItems: 'flex-start', justifyContent: 'center', gap: 4 }}>
             <Box sx={{ width: 200, display: 'flex', alignItems: 'center', minHeight: 56, mt: 2 }}>
               <FormControlLabel
                 control={
                   <Switch
-                    checked={isSnakeDraft}
-                    onChange={(e) => setIsSnakeDraft(e.target.checked)}
+                    checked={isAuction}
+                    onChange={(e) => setIsAuction(e.target.checked)}
                     color="primary"
                   />
                 }
-                label="Snake Draft"
+                label="Auction"
               />
             </Box>
+            <Box sx={{ width: 200 }}>
+              <TextField
+                fullWidth
+                type="number"
+                label="Budget per Manager"
+                value={auctionBudget}
+                onChange={(e) => setAuctionBudget(e.target.value)}
+                disabled={!isAuction}
+                inputProps={{ min: 1 }}
+                sx={{
+                  mt: 2,
+                  '& .MuiInputBase-root': {
+                    bgcolor: dialogContentBgColor
+                  }
+                }}
+              />
+            </Box>
+            <Box sx={{ width: 200 }}>
+              <TextField
+                fullWidth
+                type="number"
+                label="Minimum Bid"
+                value={minimumBid}
+                onChange={(e) => setMinimumBid(e.target.value)}
+                disabled={!isAuction}
+                helperText={isAuction ? 'Rounds are roster spots; nominations follow the draft order' : undefined}
+                inputProps={{ min: 0 }}
+                sx={{
+                  mt: 2,
+                  '& .MuiInputBase-root': {
+                    bgcolor: dialogContentBgColor
+                  }
+                }}
+              />
+            </Box>
+            <Box sx={{ width: 200 }} />
           </Box>
         </DialogContent>
         <DialogActions sx={{ display: 'flex', alignItems: 'center', px: 3 }}>
@@ -511,7 +728,10 @@ export const DraftManagement: React.FC = () => {
             onClick={() => {
               setDraftOrderDialogOpen(false);
               setDraftStatus(null);
-              setIsSnakeDraft(true); // Reset to default
+              setOrderStrategy(DraftOrderStrategy.Snake); // Reset to default
+              setCustomRoundOrders([]);
+              setLottery(null);
+              setIsAuction(false);
             }}
             disabled={isLoading}
           >
@@ -532,6 +752,135 @@ export const DraftManagement: React.FC = () => {
         </DialogActions>
       </Dialog>
 
+      {lotteryDialogOpen && (
+        <DraftLotteryDialog
+          open={lotteryDialogOpen}
+          year={draftYear}
+          managers={managers}
+          onClose={() => setLotteryDialogOpen(false)}
+          onUseOrder={(result) => {
+            setSelectedManagers([...result.results].sort((a, b) => a.slot - b.slot).map(r => r.managerId));
+            setLottery(result);
+            setLotteryDialogOpen(false);
+          }}
+        />
+      )}
+
+      <Dialog
+        open={clockDialogOpen}
+        onClose={() => !updatePickClockMutation.isPending && setClockDialogOpen(false)}
+        PaperProps={{
+          sx: { bgcolor: dialogBgColor }
+        }}
+      >
+        <DialogTitle>Pick Clock</DialogTitle>
+        <DialogContent sx={{ width: 480, maxWidth: '90vw' }}>
+          <FormControlLabel
+            control={
+              <Switch
+                checked={clockEnabled}
+                onChange={(e) => setClockEnabled(e.target.checked)}
+                color="primary"
+              />
+            }
+            label="Enable pick clock"
+          />
+          <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+            <TextField
+              fullWidth
+              type="number"
+              label="Seconds per Pick"
+              value={secondsPerPick}
+              onChange={(e) => setSecondsPerPick(e.target.value)}
+              inputProps={{ min: 5, max: 3600 }}
+              sx={{ '& .MuiInputBase-root': { bgcolor: dialogContentBgColor } }}
+            />
+            <TextField
+              fullWidth
+              type="number"
+              label="Time Bank (seconds)"
+              value={timeBankSeconds}
+              onChange={(e) => setTimeBankSeconds(e.target.value)}
+              helperText="Extra time per manager for the whole draft"
+              inputProps={{ min: 0 }}
+              sx={{ '& .MuiInputBase-root': { bgcolor: dialogContentBgColor } }}
+            />
+          </Box>
+          <TextField
+            select
+            fullWidth
+            label="When Time Runs Out"
+            value={expiryPolicy}
+            onChange={(e) => setExpiryPolicy(e.target.value as PickClockExpiryPolicy)}
+            sx={{ mt: 2, '& .MuiInputBase-root': { bgcolor: dialogContentBgColor } }}
+          >
+            <MenuItem value={PickClockExpiryPolicy.AutoAdvance}>Skip to the next pick</MenuItem>
+            <MenuItem value={PickClockExpiryPolicy.AutoDraftFromQueue}>Draft from the manager's queue</MenuItem>
+          </TextField>
+          <Typography variant="subtitle2" sx={{ mt: 3, mb: 1 }}>
+            Round Overrides
+          </Typography>
+          {roundOverrides.map((override, index) => (
+            <Box key={index} sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 1 }}>
+              <TextField
+                type="number"
+                label="Round"
+                size="small"
+                value={override.round || ''}
+                onChange={(e) => updateRoundOverride(index, 'round', e.target.value)}
+                inputProps={{ min: 1 }}
+                sx={{ '& .MuiInputBase-root': { bgcolor: dialogContentBgColor } }}
+              />
+              <TextField
+                type="number"
+                label="Seconds"
+                size="small"
+                value={override.seconds || ''}
+                onChange={(e) => updateRoundOverride(index, 'seconds', e.target.value)}
+                inputProps={{ min: 5 }}
+                sx={{ '& .MuiInputBase-root': { bgcolor: dialogContentBgColor } }}
+              />
+              <IconButton onClick={() => setRoundOverrides(roundOverrides.filter((_, i) => i !== index))}>
+                <DeleteIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+          <Button
+            size="small"
+            onClick={() => setRoundOverrides([...roundOverrides, { round: 0, seconds: 0 }])}
+          >
+            Add Round Override
+          </Button>
+          {currentDraft?.pickClock && (
+            <FormControlLabel
+              sx={{ display: 'block', mt: 2 }}
+              control={
+                <Switch
+                  checked={resetTimeBanks}
+                  onChange={(e) => setResetTimeBanks(e.target.checked)}
+                />
+              }
+              label="Refill every manager's time bank"
+            />
+          )}
+        </DialogContent>
+        <DialogActions sx={{ px: 3 }}>
+          <Button
+            onClick={() => setClockDialogOpen(false)}
+            disabled={updatePickClockMutation.isPending}
+          >
+            Cancel
+          </Button>
+          <Button
+            variant="contained"
+            onClick={() => currentDraft?.id && updatePickClockMutation.mutate(currentDraft.id)}
+            disabled={updatePickClockMutation.isPending || secondsPerPick === ''}
+          >
+            {updatePickClockMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogActions>
+      </Dialog>
+
       <Dialog
         open={resetDialogOpen}
         onClose={() => !isLoading && setResetDialogOpen(false)}
@@ -545,7 +894,7 @@ export const DraftManagement: React.FC = () => {
             Are you sure you want to reset the current draft? This will:
           </Typography>
           <Box component="ul" sx={{ pl: 2, mb: 2 }}>
-            <Typography component="li">Delete all draft picks</Typography>
+            <Typography component="li">Delete all draft picks except keepers</Typography>
             <Typography component="li">Clear the draft order</Typography>
             <Typography component="li">Remove all draft progress</Typography>
           </Box>
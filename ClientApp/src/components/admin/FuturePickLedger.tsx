@@ -0,0 +1,195 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTheme } from '../../contexts/ThemeContext';
+import { FuturePick } from '../../types/models';
+import { draftService } from '../../services/draftService';
+import { futurePickService } from '../../services/futurePickService';
+import { managerService } from '../../services/managerService';
+import { getFuturePickOwner } from '../../utils/tradeUtils';
+
+/**
+ * Tracks who owns picks in drafts that haven't been created yet. When a year's draft is generated,
+ * its picks start out owned by whoever holds them here.
+ */
+export const FuturePickLedger: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { theme, mode } = useTheme();
+  const [year, setYear] = useState<string>('');
+  const [rounds, setRounds] = useState<string>('3');
+  const [status, setStatus] = useState<{ success: boolean; message: string } | null>(null);
+
+  const { data: managersResponse } = useQuery({
+    queryKey: ['managers'],
+    queryFn: () => managerService.getAll(),
+    staleTime: 0
+  });
+
+  const { data: activeDraftResponse } = useQuery({
+    queryKey: ['activeDraft'],
+    queryFn: () => draftService.getActiveDraft(),
+    staleTime: 0
+  });
+
+  const { data: ledgerResponse } = useQuery({
+    queryKey: ['futurePicks'],
+    queryFn: () => futurePickService.getLedger(),
+    staleTime: 0
+  });
+
+  const managers = managersResponse?.value ?? [];
+  const activeDraft = activeDraftResponse?.value;
+  const ledger = ledgerResponse?.value ?? [];
+  const selectedYear = parseInt(year) || (activeDraft ? activeDraft.year + 1 : new Date().getFullYear() + 1);
+
+  const picksByYear = ledger.reduce((acc, pick) => {
+    (acc[pick.year] ??= []).push(pick);
+    return acc;
+  }, {} as Record<number, FuturePick[]>);
+
+  const getManagerName = (managerId: string) =>
+    managers.find(m => m.id === managerId)?.name ?? 'Unknown Manager';
+
+  const createYearMutation = useMutation({
+    mutationFn: () => futurePickService.createYear(selectedYear, parseInt(rounds)),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ['futurePicks'] }).then(() => {
+      setStatus({ success: true, message: `Added ${selectedYear} picks` });
+    }),
+    onError: (error) => {
+      setStatus({
+        success: false,
+        message: `Error adding future picks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  });
+
+  const deleteYearMutation = useMutation({
+    mutationFn: (deleteYear: number) => futurePickService.deleteYear(deleteYear),
+    onSuccess: (_, deleteYear) => queryClient.invalidateQueries({ queryKey: ['futurePicks'] }).then(() => {
+      setStatus({ success: true, message: `Removed ${deleteYear} picks` });
+    }),
+    onError: (error) => {
+      setStatus({
+        success: false,
+        message: `Error removing future picks: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  });
+
+  const tradedColor = mode === 'light' ? theme.colors.pickState.current.light : theme.colors.pickState.current.dark;
+
+  return (
+    <Paper sx={{ p: 4 }}>
+      <Typography variant="h5" gutterBottom>
+        Future Picks
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Picks in drafts that haven't been created yet. They can be traded like any other pick, and
+        the trades carry over when that year's draft is generated.
+      </Typography>
+
+      {status && (
+        <Alert severity={status.success ? 'success' : 'error'} sx={{ mb: 2 }} onClose={() => setStatus(null)}>
+          {status.message}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+        <TextField
+          type="number"
+          label="Year"
+          size="small"
+          value={year || selectedYear}
+          onChange={(e) => setYear(e.target.value)}
+          sx={{ width: 110 }}
+        />
+        <TextField
+          type="number"
+          label="Rounds"
+          size="small"
+          value={rounds}
+          onChange={(e) => setRounds(e.target.value)}
+          inputProps={{ min: 1, max: 50 }}
+          sx={{ width: 90 }}
+        />
+        <Button
+          variant="contained"
+          onClick={() => createYearMutation.mutate()}
+          disabled={!activeDraft || !(parseInt(rounds) > 0) || createYearMutation.isPending}
+        >
+          Add Picks
+        </Button>
+      </Box>
+
+      {Object.entries(picksByYear).map(([pickYear, picks]) => {
+        const roundNumbers = [...new Set(picks.map(p => p.round))].sort((a, b) => a - b);
+        const originalManagers = [...new Set(picks.map(p => p.originalManagerId))];
+
+        return (
+          <Box key={pickYear} sx={{ mt: 3 }}>
+            <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+              <Typography variant="h6">{pickYear}</Typography>
+              <Tooltip title={`Remove ${pickYear} picks`}>
+                <span>
+                  <IconButton
+                    onClick={() => deleteYearMutation.mutate(Number(pickYear))}
+                    disabled={deleteYearMutation.isPending || picks.some(p => p.tradedTo.length > 0)}
+                  >
+                    <DeleteIcon />
+                  </IconButton>
+                </span>
+              </Tooltip>
+            </Box>
+            <TableContainer component={Paper} variant="outlined">
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Original Owner</TableCell>
+                    {roundNumbers.map(round => (
+                      <TableCell key={round}>Round {round}</TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {originalManagers.map(managerId => (
+                    <TableRow key={managerId}>
+                      <TableCell>{getManagerName(managerId)}</TableCell>
+                      {roundNumbers.map(round => {
+                        const pick = picks.find(p => p.round === round && p.originalManagerId === managerId);
+                        const owner = pick ? getFuturePickOwner(pick) : undefined;
+                        return (
+                          <TableCell
+                            key={round}
+                            sx={{ color: owner && owner !== managerId ? tradedColor : undefined }}
+                          >
+                            {!pick ? '-' : owner === managerId ? 'Own' : getManagerName(owner!)}
+                          </TableCell>
+                        );
+                      })}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Box>
+        );
+      })}
+    </Paper>
+  );
+};
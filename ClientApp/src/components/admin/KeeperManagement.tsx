@@ -0,0 +1,242 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../../contexts/AuthContext';
+import { draftService } from '../../services/draftService';
+import { keeperService } from '../../services/keeperService';
+import { managerService } from '../../services/managerService';
+
+// Select value meaning the keeper costs the manager's last open pick
+const LAST_OPEN_PICK = 'last';
+
+/**
+ * Lets each manager carry players over from prior seasons before the active draft starts.
+ * Every keeper fills one of the manager's picks, either in a chosen round or their last open one.
+ * Commissioners manage every team's keepers; managers only their own.
+ */
+export const KeeperManagement: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { isCommissioner } = useAuth();
+  const [managerId, setManagerId] = useState<string>('');
+  const [playerId, setPlayerId] = useState<string>('');
+  const [round, setRound] = useState<string>(LAST_OPEN_PICK);
+  const [status, setStatus] = useState<{ success: boolean; message: string } | null>(null);
+
+  const { data: managersResponse } = useQuery({
+    queryKey: ['managers'],
+    queryFn: () => managerService.getAll(),
+    staleTime: 0
+  });
+
+  const { data: activeDraftResponse } = useQuery({
+    queryKey: ['activeDraft'],
+    queryFn: () => draftService.getActiveDraft(),
+    staleTime: 0
+  });
+
+  const { data: keepersResponse } = useQuery({
+    queryKey: ['keepers'],
+    queryFn: () => keeperService.getKeepers(),
+    staleTime: 0
+  });
+
+  const { data: candidatesResponse } = useQuery({
+    queryKey: ['keeperCandidates', managerId],
+    queryFn: () => keeperService.getCandidates(managerId),
+    enabled: !!managerId && !!activeDraftResponse?.value,
+    staleTime: 0
+  });
+
+  const managers = managersResponse?.value ?? [];
+  const keepingManagers = isCommissioner ? managers : managers.filter(m => m.isUser);
+  const activeDraft = activeDraftResponse?.value;
+  const keepers = keepersResponse?.value ?? [];
+  const candidates = candidatesResponse?.value ?? [];
+
+  // Once a regular pick is made the keeper phase is over
+  const keeperPicks = new Set(keepers.map(k => k.overallPickNumber));
+  const draftStarted = !!activeDraft?.rounds.some(r =>
+    r.picks.some(p => p.isComplete && !keeperPicks.has(p.overallPickNumber)));
+
+  const getManagerName = (id: string) =>
+    managers.find(m => m.id === id)?.name ?? 'Unknown Manager';
+
+  const addKeeperMutation = useMutation({
+    mutationFn: () => keeperService.addKeeper(
+      playerId,
+      managerId,
+      round === LAST_OPEN_PICK ? undefined : parseInt(round)
+    ),
+    onSuccess: (response) => {
+      const keeper = response.value;
+      setPlayerId('');
+      setStatus({
+        success: true,
+        message: `${getManagerName(keeper.managerId)} kept ${keeper.playerName} with pick #${keeper.overallPickNumber}`
+      });
+      queryClient.invalidateQueries({ queryKey: ['keepers'] });
+      queryClient.invalidateQueries({ queryKey: ['keeperCandidates'] });
+    },
+    onError: (error) => {
+      setStatus({
+        success: false,
+        message: `Error keeping player: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  });
+
+  const removeKeeperMutation = useMutation({
+    mutationFn: (keeperId: string) => keeperService.removeKeeper(keeperId),
+    onSuccess: () => {
+      setStatus({ success: true, message: 'Keeper released' });
+      queryClient.invalidateQueries({ queryKey: ['keepers'] });
+      queryClient.invalidateQueries({ queryKey: ['keeperCandidates'] });
+    },
+    onError: (error) => {
+      setStatus({
+        success: false,
+        message: `Error releasing keeper: ${error instanceof Error ? error.message : 'Unknown error'}`
+      });
+    }
+  });
+
+  return (
+    <Paper sx={{ p: 4 }}>
+      <Typography variant="h5" gutterBottom>
+        Keepers
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Carry players over from earlier drafts. Each keeper uses up one of the manager's picks and
+        shows on the board as already made.
+      </Typography>
+
+      {status && (
+        <Alert severity={status.success ? 'success' : 'error'} sx={{ mb: 2 }} onClose={() => setStatus(null)}>
+          {status.message}
+        </Alert>
+      )}
+
+      {!activeDraft && (
+        <Alert severity="info">Create a draft to start choosing keepers</Alert>
+      )}
+
+      {draftStarted && (
+        <Alert severity="info" sx={{ mb: 2 }}>The draft has started, so keepers can no longer change</Alert>
+      )}
+
+      {activeDraft && !draftStarted && (
+        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 2 }}>
+          <TextField
+            select
+            label="Manager"
+            size="small"
+            value={managerId}
+            onChange={(e) => {
+              setManagerId(e.target.value);
+              setPlayerId('');
+            }}
+          >
+            {keepingManagers.map(manager => (
+              <MenuItem key={manager.id} value={manager.id}>{manager.name}</MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Player"
+            size="small"
+            value={playerId}
+            onChange={(e) => setPlayerId(e.target.value)}
+            disabled={!managerId || candidates.length === 0}
+            helperText={managerId && candidates.length === 0 ? 'No players from prior drafts to keep' : undefined}
+          >
+            {candidates.map(candidate => (
+              <MenuItem key={candidate.player.id} value={candidate.player.id}>
+                {candidate.player.name} ({candidate.draftYear}, {candidate.wasKeeper ? 'kept' : `round ${candidate.round}`})
+              </MenuItem>
+            ))}
+          </TextField>
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <TextField
+              select
+              label="Costs"
+              size="small"
+              value={round}
+              onChange={(e) => setRound(e.target.value)}
+              sx={{ flex: 1 }}
+            >
+              <MenuItem value={LAST_OPEN_PICK}>Last open pick</MenuItem>
+              {activeDraft.rounds.map(r => (
+                <MenuItem key={r.roundNumber} value={String(r.roundNumber)}>Round {r.roundNumber} pick</MenuItem>
+              ))}
+            </TextField>
+            <Button
+              variant="contained"
+              onClick={() => addKeeperMutation.mutate()}
+              disabled={!managerId || !playerId || addKeeperMutation.isPending}
+            >
+              Keep
+            </Button>
+          </Box>
+        </Box>
+      )}
+
+      {keepers.length > 0 && (
+        <TableContainer component={Paper} variant="outlined" sx={{ mt: 3 }}>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Pick</TableCell>
+                <TableCell>Manager</TableCell>
+                <TableCell>Player</TableCell>
+                <TableCell />
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {keepers.map(keeper => (
+                <TableRow key={keeper.playerId}>
+                  <TableCell>{keeper.round}.{keeper.pickNumber} (#{keeper.overallPickNumber})</TableCell>
+                  <TableCell>{getManagerName(keeper.managerId)}</TableCell>
+                  <TableCell>{keeper.playerName}</TableCell>
+                  <TableCell align="right">
+                    <Tooltip title="Release keeper">
+                      <span>
+                        <IconButton
+                          size="small"
+                          onClick={() => removeKeeperMutation.mutate(keeper.playerId)}
+                          disabled={
+                            draftStarted
+                            || removeKeeperMutation.isPending
+                            || !keepingManagers.some(m => m.id === keeper.managerId)
+                          }
+                        >
+                          <DeleteIcon fontSize="small" />
+                        </IconButton>
+                      </span>
+                    </Tooltip>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </TableContainer>
+      )}
+    </Paper>
+  );
+};
@@ -1,13 +1,129 @@
-import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, TextField } from '@mui/material';
+import { Dialog, DialogTitle, DialogContent, DialogActions, Button, Box, TextField, Typography, IconButton, MenuItem, Checkbox, FormControlLabel } from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
 import { useState, useEffect } from 'react';
-import { LeagueSettings } from '../../types/models';
+import { LeagueSettings, PickValueCurve, ProjectionSource, RosterSlot, ScoringCategory, ScoringFormat } from '../../types/models';
 import { leagueSettingsService } from '../../services/leagueSettingsService';
+import { DEFAULT_ROSTER_SLOTS, SLOT_POSITIONS } from '../../utils/rosterUtils';
+import { DEFAULT_PICK_VALUE_CURVE, getPickValue } from '../../utils/tradeUtils';
+import {
+    DEFAULT_HITTER_CATEGORIES,
+    DEFAULT_PITCHER_CATEGORIES,
+    HITTER_STATS,
+    LOWER_IS_BETTER_STATS,
+    PITCHER_STATS,
+    SCORING_FORMAT_LABELS
+} from '../../utils/scoringUtils';
 
 interface LeagueSettingsModalProps {
     open: boolean;
     onClose: () => void;
 }
 
+interface ScoringCategoryEditorProps {
+    title: string;
+    categories: ScoringCategory[];
+    stats: string[];
+    isPoints: boolean;
+    onChange: (categories: ScoringCategory[]) => void;
+}
+
+function ScoringCategoryEditor({ title, categories, stats, isPoints, onChange }: ScoringCategoryEditorProps) {
+    const updateCategory = (index: number, category: ScoringCategory) =>
+        onChange(categories.map((c, i) => i === index ? category : c));
+
+    const addCategory = () => {
+        const stat = stats.find(s => !categories.some(c => c.stat === s));
+        if (!stat) return;
+        onChange([...categories, { stat, lowerIsBetter: LOWER_IS_BETTER_STATS.includes(stat), weight: 1 }]);
+    };
+
+    return (
+        <Box sx={{ flex: 1 }}>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>{title}</Typography>
+            <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                {categories.map((category, index) => (
+                    <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                        <TextField
+                            select
+                            size="small"
+                            label="Stat"
+                            value={category.stat}
+                            onChange={(e) => updateCategory(index, {
+                                ...category,
+                                stat: e.target.value,
+                                lowerIsBetter: LOWER_IS_BETTER_STATS.includes(e.target.value)
+                            })}
+                            sx={{ width: 100 }}
+                        >
+                            {stats.map(stat => (
+                                <MenuItem
+                                    key={stat}
+                                    value={stat}
+                                    disabled={stat !== category.stat && categories.some(c => c.stat === stat)}
+                                >
+                                    {stat}
+                                </MenuItem>
+                            ))}
+                        </TextField>
+                        {isPoints ? (
+                            <TextField
+                                size="small"
+                                label="Points"
+                                type="number"
+                                value={category.weight}
+                                onChange={(e) => updateCategory(index, { ...category, weight: parseFloat(e.target.value) || 0 })}
+                                inputProps={{ step: 0.5 }}
+                                sx={{ width: 90 }}
+                            />
+                        ) : (
+                            <>
+                                <TextField
+                                    size="small"
+                                    label="SGP"
+                                    type="number"
+                                    value={category.sgpDenominator ?? ''}
+                                    onChange={(e) => updateCategory(index, {
+                                        ...category,
+                                        sgpDenominator: e.target.value === '' ? null : parseFloat(e.target.value)
+                                    })}
+                                    inputProps={{ min: 0, step: 'any' }}
+                                    title="Amount of the stat worth one place in the standings. Leave blank to estimate it."
+                                    sx={{ width: 90 }}
+                                />
+                                <FormControlLabel
+                                    control={
+                                        <Checkbox
+                                            size="small"
+                                            checked={category.lowerIsBetter}
+                                            onChange={(e) => updateCategory(index, { ...category, lowerIsBetter: e.target.checked })}
+                                        />
+                                    }
+                                    label="Lower wins"
+                                />
+                            </>
+                        )}
+                        <IconButton
+                            size="small"
+                            onClick={() => onChange(categories.filter((_, i) => i !== index))}
+                            title="Remove category"
+                        >
+                            <DeleteIcon fontSize="small" />
+                        </IconButton>
+                    </Box>
+                ))}
+                <Button
+                    size="small"
+                    onClick={addCategory}
+                    disabled={categories.length >= stats.length}
+                    sx={{ alignSelf: 'flex-start' }}
+                >
+                    Add Category
+                </Button>
+            </Box>
+        </Box>
+    );
+}
+
 export function LeagueSettingsModal({ open, onClose }: LeagueSettingsModalProps) {
     const [settings, setSettings] = useState<LeagueSettings | null>(null);
     const [loading, setLoading] = useState(true);
@@ -25,12 +141,63 @@ export function LeagueSettingsModal({ open, onClose }: LeagueSettingsModalProps)
                 .catch(err => {
                     console.error('Error loading league settings:', err);
                     setError('Failed to load settings');
-                    setSettings({ minGamesForPosition: 10 }); // Default fallback
+                    // Default fallback
+                    setSettings({
+                        minGamesForPosition: 10,
+                        rosterSlots: DEFAULT_ROSTER_SLOTS,
+                        maxRosterSize: 40,
+                        minorLeagueSlots: 10,
+                        taxiSlots: 3,
+                        scoringFormat: ScoringFormat.Roto,
+                        hitterCategories: DEFAULT_HITTER_CATEGORIES,
+                        pitcherCategories: DEFAULT_PITCHER_CATEGORIES,
+                        valueProjectionSource: ProjectionSource.STEAMER,
+                        pickValueCurve: DEFAULT_PICK_VALUE_CURVE,
+                        lopsidedTradeThreshold: 0.25
+                    });
                     setLoading(false);
                 });
         }
     }, [open]);
 
+    const updateSlot = (index: number, slot: RosterSlot) => {
+        if (!settings) return;
+        setSettings({
+            ...settings,
+            rosterSlots: settings.rosterSlots.map((s, i) => i === index ? slot : s)
+        });
+    };
+
+    const removeSlot = (index: number) => {
+        if (!settings) return;
+        setSettings({
+            ...settings,
+            rosterSlots: settings.rosterSlots.filter((_, i) => i !== index)
+        });
+    };
+
+    const addSlot = () => {
+        if (!settings) return;
+        // Offer the first position that isn't already listed
+        const position = SLOT_POSITIONS.find(p => !settings.rosterSlots.some(s => s.position === p)) ?? 'BN';
+        setSettings({
+            ...settings,
+            rosterSlots: [...settings.rosterSlots, { position, count: 1 }]
+        });
+    };
+
+    const updateCurve = (changes: Partial<PickValueCurve>) => {
+        if (!settings) return;
+        setSettings({
+            ...settings,
+            pickValueCurve: { ...(settings.pickValueCurve ?? DEFAULT_PICK_VALUE_CURVE), ...changes }
+        });
+    };
+
+    const pickValueCurve = settings?.pickValueCurve ?? DEFAULT_PICK_VALUE_CURVE;
+
+    const lineupSize = settings?.rosterSlots.reduce((total, slot) => total + slot.count, 0) ?? 0;
+
     const handleSave = async () => {
         if (!settings) return;
         
@@ -44,7 +211,7 @@ export function LeagueSettingsModal({ open, onClose }: LeagueSettingsModalProps)
     };
 
     return (
-        <Dialog open={open} onClose={onClose} maxWidth="sm" fullWidth>
+        <Dialog open={open} onClose={onClose} maxWidth="md" fullWidth>
             <DialogTitle>League Settings</DialogTitle>
             <DialogContent>
                 {loading ? (
@@ -66,6 +233,195 @@ export function LeagueSettingsModal({ open, onClose }: LeagueSettingsModalProps)
                         inputProps={{ min: 0 }}
                         helperText="Number of games a player must play at a position to be listed at that position"
                         />
+
+                        <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+                            Roster Slots ({lineupSize})
+                        </Typography>
+                        <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+                            {settings.rosterSlots.map((slot, index) => (
+                                <Box key={index} sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+                                    <TextField
+                                        select
+                                        size="small"
+                                        label="Position"
+                                        value={slot.position}
+                                        onChange={(e) => updateSlot(index, { ...slot, position: e.target.value })}
+                                        sx={{ width: 120 }}
+                                    >
+                                        {SLOT_POSITIONS.map(position => (
+                                            <MenuItem
+                                                key={position}
+                                                value={position}
+                                                disabled={position !== slot.position && settings.rosterSlots.some(s => s.position === position)}
+                                            >
+                                                {position}
+                                            </MenuItem>
+                                        ))}
+                                    </TextField>
+                                    <TextField
+                                        size="small"
+                                        label="Count"
+                                        type="number"
+                                        value={slot.count}
+                                        onChange={(e) => updateSlot(index, { ...slot, count: parseInt(e.target.value) || 0 })}
+                                        inputProps={{ min: 0 }}
+                                        sx={{ width: 100 }}
+                                    />
+                                    <IconButton size="small" onClick={() => removeSlot(index)} title="Remove slot">
+                                        <DeleteIcon fontSize="small" />
+                                    </IconButton>
+                                </Box>
+                            ))}
+                            <Button
+                                size="small"
+                                onClick={addSlot}
+                                disabled={settings.rosterSlots.length >= SLOT_POSITIONS.length}
+                                sx={{ alignSelf: 'flex-start' }}
+                            >
+                                Add Slot
+                            </Button>
+                        </Box>
+
+                        <Box sx={{ display: 'flex', gap: 2, mt: 3 }}>
+                            <TextField
+                                label="Minor League Slots"
+                                type="number"
+                                value={settings.minorLeagueSlots}
+                                onChange={(e) => setSettings({
+                                    ...settings,
+                                    minorLeagueSlots: parseInt(e.target.value) || 0
+                                })}
+                                inputProps={{ min: 0 }}
+                                helperText="For players not yet in the majors"
+                            />
+                            <TextField
+                                label="Taxi Slots"
+                                type="number"
+                                value={settings.taxiSlots}
+                                onChange={(e) => setSettings({
+                                    ...settings,
+                                    taxiSlots: parseInt(e.target.value) || 0
+                                })}
+                                inputProps={{ min: 0 }}
+                                helperText="Reserve players off the active roster"
+                            />
+                            <TextField
+                                label="Max Roster Size"
+                                type="number"
+                                value={settings.maxRosterSize}
+                                onChange={(e) => setSettings({
+                                    ...settings,
+                                    maxRosterSize: parseInt(e.target.value) || 0
+                                })}
+                                inputProps={{ min: 0 }}
+                                helperText={`Slots above: ${lineupSize + settings.minorLeagueSlots + settings.taxiSlots}`}
+                            />
+                        </Box>
+
+                        <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+                            Scoring
+                        </Typography>
+                        <Box sx={{ display: 'flex', gap: 2 }}>
+                            <TextField
+                                select
+                                label="Format"
+                                value={settings.scoringFormat}
+                                onChange={(e) => setSettings({
+                                    ...settings,
+                                    scoringFormat: e.target.value as ScoringFormat
+                                })}
+                                sx={{ flex: 1 }}
+                            >
+                                {Object.values(ScoringFormat).map(format => (
+                                    <MenuItem key={format} value={format}>{SCORING_FORMAT_LABELS[format]}</MenuItem>
+                                ))}
+                            </TextField>
+                            <TextField
+                                select
+                                label="Value Projections"
+                                value={settings.valueProjectionSource}
+                                onChange={(e) => setSettings({
+                                    ...settings,
+                                    valueProjectionSource: e.target.value
+                                })}
+                                helperText="League values are calculated from these"
+                                sx={{ flex: 1 }}
+                            >
+                                {Object.values(ProjectionSource).map(source => (
+                                    <MenuItem key={source} value={source}>{source}</MenuItem>
+                                ))}
+                            </TextField>
+                        </Box>
+                        <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+                            <ScoringCategoryEditor
+                                title="Hitting"
+                                categories={settings.hitterCategories ?? []}
+                                stats={HITTER_STATS}
+                                isPoints={settings.scoringFormat === ScoringFormat.Points}
+                                onChange={(hitterCategories) => setSettings({ ...settings, hitterCategories })}
+                            />
+                            <ScoringCategoryEditor
+                                title="Pitching"
+                                categories={settings.pitcherCategories ?? []}
+                                stats={PITCHER_STATS}
+                                isPoints={settings.scoringFormat === ScoringFormat.Points}
+                                onChange={(pitcherCategories) => setSettings({ ...settings, pitcherCategories })}
+                            />
+                        </Box>
+
+                        <Typography variant="subtitle1" sx={{ mt: 3, mb: 1 }}>
+                            Trade Values
+                        </Typography>
+                        <Box sx={{ display: 'flex', gap: 2 }}>
+                            <TextField
+                                label="First Pick Value"
+                                type="number"
+                                value={pickValueCurve.topValue}
+                                onChange={(e) => updateCurve({ topValue: parseFloat(e.target.value) || 0 })}
+                                inputProps={{ min: 1 }}
+                                sx={{ flex: 1 }}
+                            />
+                            <TextField
+                                label="Decay per Pick (%)"
+                                type="number"
+                                value={Math.round(pickValueCurve.decayRate * 1000) / 10}
+                                onChange={(e) => updateCurve({ decayRate: (parseFloat(e.target.value) || 0) / 100 })}
+                                inputProps={{ min: 0, max: 99, step: 0.5 }}
+                                helperText={`Pick 12 is worth ${getPickValue(pickValueCurve, 12).toFixed(1)}`}
+                                sx={{ flex: 1 }}
+                            />
+                            <TextField
+                                label="Minimum Value"
+                                type="number"
+                                value={pickValueCurve.minimumValue}
+                                onChange={(e) => updateCurve({ minimumValue: parseFloat(e.target.value) || 0 })}
+                                inputProps={{ min: 0 }}
+                                sx={{ flex: 1 }}
+                            />
+                        </Box>
+                        <Box sx={{ display: 'flex', gap: 2, mt: 2 }}>
+                            <TextField
+                                label="Future Year Discount (%)"
+                                type="number"
+                                value={Math.round(pickValueCurve.futureYearDiscount * 100)}
+                                onChange={(e) => updateCurve({ futureYearDiscount: (parseFloat(e.target.value) || 0) / 100 })}
+                                inputProps={{ min: 0, max: 99 }}
+                                helperText="Taken off future picks for each year away"
+                                sx={{ flex: 1 }}
+                            />
+                            <TextField
+                                label="Lopsided Trade Threshold (%)"
+                                type="number"
+                                value={Math.round(settings.lopsidedTradeThreshold * 100)}
+                                onChange={(e) => setSettings({
+                                    ...settings,
+                                    lopsidedTradeThreshold: (parseFloat(e.target.value) || 0) / 100
+                                })}
+                                inputProps={{ min: 1, max: 100 }}
+                                helperText="Flag trades where a manager loses this share of what they give up"
+                                sx={{ flex: 1 }}
+                            />
+                        </Box>
                     </Box>
                 ) : null}
             </DialogContent>
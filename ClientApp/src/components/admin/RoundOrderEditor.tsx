@@ -0,0 +1,86 @@
+import React from 'react';
+import { Box, Button, Chip, IconButton, Tooltip, Typography } from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import DeleteIcon from '@mui/icons-material/Delete';
+import SwapHorizIcon from '@mui/icons-material/SwapHoriz';
+import { Manager, RoundOrder } from '../../types/models';
+
+interface RoundOrderEditorProps {
+  managers: Manager[];
+  draftOrder: string[];
+  rounds: number;
+  value: RoundOrder[];
+  onChange: (roundOrders: RoundOrder[]) => void;
+}
+
+/**
+ * Sets a pick order for individual rounds of a custom-order draft, e.g. a lottery order for the first two rounds.
+ * Rounds without their own order follow the draft order.
+ */
+export const RoundOrderEditor: React.FC<RoundOrderEditorProps> = ({
+  managers,
+  draftOrder,
+  rounds,
+  value,
+  onChange
+}) => {
+  const getManagerName = (managerId: string) =>
+    managers.find(m => m.id === managerId)?.name ?? 'Unknown Manager';
+
+  const nextRound = Array.from({ length: rounds }, (_, i) => i + 1)
+    .find(round => !value.some(o => o.round === round));
+
+  const updateRound = (round: number, managerIds: string[]) =>
+    onChange(value.map(o => (o.round === round ? { ...o, managerIds } : o)));
+
+  const moveEarlier = (roundOrder: RoundOrder, index: number) => {
+    const managerIds = [...roundOrder.managerIds];
+    [managerIds[index - 1], managerIds[index]] = [managerIds[index], managerIds[index - 1]];
+    updateRound(roundOrder.round, managerIds);
+  };
+
+  return (
+    <Box sx={{ display: 'flex', flexDirection: 'column', gap: 1 }}>
+      {[...value].sort((a, b) => a.round - b.round).map(roundOrder => (
+        <Box key={roundOrder.round} sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <Typography variant="body2" sx={{ width: 64, fontWeight: 600 }}>Round {roundOrder.round}</Typography>
+          <Box sx={{ flex: 1, display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+            {roundOrder.managerIds.map((managerId, index) => (
+              <Chip
+                key={managerId}
+                size="small"
+                label={`${index + 1}. ${getManagerName(managerId)}`}
+                onDelete={index > 0 ? () => moveEarlier(roundOrder, index) : undefined}
+                deleteIcon={<ArrowBackIcon />}
+              />
+            ))}
+          </Box>
+          <Tooltip title="Reverse">
+            <IconButton size="small" onClick={() => updateRound(roundOrder.round, [...roundOrder.managerIds].reverse())}>
+              <SwapHorizIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+          <Tooltip title="Use the draft order">
+            <IconButton size="small" onClick={() => onChange(value.filter(o => o.round !== roundOrder.round))}>
+              <DeleteIcon fontSize="small" />
+            </IconButton>
+          </Tooltip>
+        </Box>
+      ))}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 2 }}>
+        <Button
+          size="small"
+          startIcon={<AddIcon />}
+          onClick={() => nextRound && onChange([...value, { round: nextRound, managerIds: [...draftOrder] }])}
+          disabled={!nextRound || draftOrder.length === 0}
+        >
+          Round Order
+        </Button>
+        <Typography variant="caption" color="text.secondary">
+          Rounds without their own order follow the draft order
+        </Typography>
+      </Box>
+    </Box>
+  );
+};
@@ -0,0 +1,92 @@
+import { Alert, Box, Chip, LinearProgress, Table, TableBody, TableCell, TableHead, TableRow, Tooltip, Typography } from '@mui/material';
+import { useTheme } from '../../contexts/ThemeContext';
+import { Manager, TradeAnalysis } from '../../types/models';
+import { getTradeAssetLabel } from '../../utils/tradeUtils';
+
+interface TradeAnalysisPanelProps {
+  analysis?: TradeAnalysis;
+  managers: Manager[];
+  loading: boolean;
+}
+
+const formatValue = (value: number) => (value > 0 ? `+${value.toFixed(1)}` : value.toFixed(1));
+
+/**
+ * Shows what each manager gives up and gets back in a trade being built, on the league's pick value scale
+ */
+export function TradeAnalysisPanel({ analysis, managers, loading }: TradeAnalysisPanelProps) {
+  const { theme, mode } = useTheme();
+  const textSecondary = mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark;
+
+  const getManagerName = (managerId: string) =>
+    managers.find(m => m.id === managerId)?.name ?? 'Unknown Manager';
+
+  return (
+    <Box>
+      <Typography variant="subtitle1" sx={{ mb: 1 }}>Trade Value</Typography>
+      {loading && !analysis && <LinearProgress />}
+      {analysis && (
+        <>
+          <Table size="small">
+            <TableHead>
+              <TableRow>
+                <TableCell>Manager</TableCell>
+                <TableCell>Gives</TableCell>
+                <TableCell align="right">Given</TableCell>
+                <TableCell align="right">Received</TableCell>
+                <TableCell align="right">Net</TableCell>
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {analysis.parties.map(party => (
+                <TableRow key={party.managerId}>
+                  <TableCell>
+                    {getManagerName(party.managerId)}
+                    {party.isLopsided && <Chip label="Lopsided" color="warning" size="small" sx={{ ml: 1 }} />}
+                  </TableCell>
+                  <TableCell>
+                    <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap' }}>
+                      {analysis.assets
+                        .filter(a => a.fromManagerId === party.managerId)
+                        .map((assetValue, index) => (
+                          <Tooltip key={index} title={assetValue.basis}>
+                            <Chip
+                              label={`${getTradeAssetLabel(assetValue.asset)} · ${assetValue.value.toFixed(1)}`}
+                              size="small"
+                              variant="outlined"
+                            />
+                          </Tooltip>
+                        ))}
+                    </Box>
+                  </TableCell>
+                  <TableCell align="right">{party.given.toFixed(1)}</TableCell>
+                  <TableCell align="right">{party.received.toFixed(1)}</TableCell>
+                  <TableCell
+                    align="right"
+                    sx={{
+                      fontWeight: 600,
+                      color: party.net > 0 ? 'success.main' : party.net < 0 ? 'error.main' : undefined
+                    }}
+                  >
+                    {formatValue(party.net)}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+          {!analysis.isComplete && analysis.assets.length > 0 && (
+            <Typography variant="caption" sx={{ color: textSecondary }}>
+              Assets without a destination count against the manager giving them up until they're distributed
+            </Typography>
+          )}
+          {analysis.isLopsided && (
+            <Alert severity="warning" sx={{ mt: 1 }}>
+              {analysis.parties.filter(p => p.isLopsided).map(p => getManagerName(p.managerId)).join(', ')} would
+              lose at least {Math.round(analysis.lopsidedThreshold * 100)}% of the value they give up.
+            </Alert>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
@@ -1,9 +1,10 @@
 import { Box, Popover, Typography, Button, Snackbar, Alert, CircularProgress, Divider, Paper, Chip } from '@mui/material';
 import { useTheme } from '../../contexts/ThemeContext';
-import { Trade, Manager, TradeStatus, Draft, TradeAsset } from '../../types/models';
+import { Trade, Manager, TradeStatus, Draft, TradeAsset, TradeAssetType } from '../../types/models';
 import { tradeService } from '../../services/tradeService';
 import { useQueryClient, useQuery } from '@tanstack/react-query';
 import { useState, useMemo } from 'react';
+import { getTradeAssetLabel, isSameTradeAsset } from '../../utils/tradeUtils';
 
 interface TradeDetailsPopoverProps {
   anchorEl: HTMLElement | null;
@@ -60,6 +61,42 @@ export function TradeDetailsPopover({
     enabled: draftIds.length > 0
   });
 
+  const { data: dependencies } = useQuery({
+    queryKey: ['tradeDependencies', trade.id],
+    queryFn: () => tradeService.getTradeDependencies(trade.id!),
+    enabled: trade.status === TradeStatus.Completed,
+    staleTime: 0
+  });
+
+  const handleCascadeCancel = async () => {
+    try {
+      const cancelled = await tradeService.cancelTradeCascade(trade.id!);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['trades'] }),
+        queryClient.invalidateQueries({ queryKey: ['activeDraft'] }),
+        queryClient.invalidateQueries({ queryKey: ['canCancelTrades'] }),
+        queryClient.invalidateQueries({ queryKey: ['tradeDependencies'] }),
+        queryClient.invalidateQueries({ queryKey: ['players'] }),
+        queryClient.invalidateQueries({ queryKey: ['teamSummaries'] }),
+        queryClient.invalidateQueries({ queryKey: ['futurePicks'] }),
+        queryClient.invalidateQueries({ queryKey: ['managerPicks'] })
+      ]);
+      setSnackbar({
+        open: true,
+        message: `Cancelled ${cancelled.length} trades and returned their assets`,
+        severity: 'success'
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error cancelling trade chain:', error);
+      setSnackbar({
+        open: true,
+        message: error instanceof Error ? error.message : 'Failed to cancel trades',
+        severity: 'error'
+      });
+    }
+  };
+
   const handleDeleteTrade = async () => {
     try {
       await tradeService.deleteTrade(trade.id!);
@@ -101,11 +138,7 @@ export function TradeDetailsPopover({
       for (const [toId, assets] of Object.entries(toMap)) {
         if (!assets) continue;
         if (toId === party) {
-          const matchingAsset = assets.find(a => 
-            a.draftId === asset.draftId && 
-            a.roundNumber === asset.roundNumber && 
-            a.pickNumber === asset.pickNumber
-          );
+          const matchingAsset = assets.find(a => isSameTradeAsset(a, asset));
           if (matchingAsset) {
             return getManagerName(fromId);
           }
@@ -140,12 +173,10 @@ export function TradeDetailsPopover({
   const formatPickInfo = (asset: TradeAsset, draftInfo: Draft | null | undefined, sourceManager?: string | null) => {
     const ordinal = `${asset.roundNumber}${getOrdinalSuffix(asset.roundNumber)}`;
     const originalOwner = sourceManager ? sourceManager : getManagerName(trade.parties.find(p => 
-      p.assets.some(a => 
-        a.draftId === asset.draftId && 
-        a.roundNumber === asset.roundNumber && 
-        a.pickNumber === asset.pickNumber
-      )
+      p.assets.some(a => isSameTradeAsset(a, asset))
     )?.managerId!);
+    const isPlayer = asset.type === TradeAssetType.Player;
+    const isFuturePick = asset.type === TradeAssetType.FuturePick;
 
     return (
       <Box sx={{ 
@@ -166,7 +197,11 @@ export function TradeDetailsPopover({
             minWidth: 0,
             flex: '1 1 auto'
           }}>
-            {originalOwner}'s {ordinal} round {draftInfo?.type ?? ''} {draftInfo?.year ?? ''}
+            {isPlayer
+              ? `${asset.playerName ?? 'Unknown Player'}${sourceManager ? '' : ` from ${originalOwner}`}`
+              : isFuturePick
+                ? `${getManagerName(asset.originalManagerId ?? '')}'s ${ordinal} round ${asset.year}`
+                : `${originalOwner}'s ${ordinal} round ${draftInfo?.type ?? ''} ${draftInfo?.year ?? ''}`}
           </Typography>
           {sourceManager && (
             <Box sx={{ flex: '0 0 auto' }}>
@@ -189,7 +224,9 @@ export function TradeDetailsPopover({
           opacity: 0.8,
           lineHeight: 1
         }}>
-          Pick {asset.pickNumber} (Overall: {asset.overallPickNumber})
+          {isFuturePick
+            ? 'Future pick'
+            : <>{isPlayer ? `Drafted ${ordinal} round, ` : ''}Pick {asset.pickNumber} (Overall: {asset.overallPickNumber})</>}
         </Typography>
       </Box>
     );
@@ -350,6 +387,62 @@ export function TradeDetailsPopover({
             </>
           )}
 
+          {dependencies && !dependencies.canCancel && (
+            <>
+              <Divider sx={{ 
+                borderColor: mode === 'light' ? 
+                  'rgba(0, 0, 0, 0.12)' : 
+                  'rgba(255, 255, 255, 0.12)'
+              }} />
+              <Box sx={{ p: 0.5, display: 'flex', flexDirection: 'column', gap: 1 }}>
+                <Typography variant="subtitle1" sx={{ 
+                  color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark,
+                  fontWeight: 600
+                }}>
+                  Undoing This Trade
+                </Typography>
+                {dependencies.usedPicks.length > 0 && (
+                  <Alert severity="warning">
+                    Can't be undone: {dependencies.usedPicks.map(getTradeAssetLabel).join(', ')}
+                    {dependencies.usedPicks.length === 1 ? ' has' : ' have'} been used since.
+                  </Alert>
+                )}
+                {dependencies.dependentTrades.length > 0 && (
+                  <>
+                    <Typography variant="body2" sx={{ 
+                      color: mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark
+                    }}>
+                      Later trades moved the same assets and would have to be undone first, in this order:
+                    </Typography>
+                    <Box component="ol" sx={{ m: 0, pl: 2.5 }}>
+                      {dependencies.dependentTrades.map(dependent => (
+                        <Typography
+                          key={dependent.tradeId}
+                          component="li"
+                          variant="body2"
+                          sx={{ color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark }}
+                        >
+                          {new Date(dependent.timestamp).toLocaleDateString()}: {dependent.managerIds.map(getManagerName).join(' ⟷ ')}
+                          <Typography component="span" variant="caption" sx={{ display: 'block', opacity: 0.8 }}>
+                            Moved {dependent.sharedAssets.map(getTradeAssetLabel).join(', ')} again
+                          </Typography>
+                        </Typography>
+                      ))}
+                    </Box>
+                    <Button
+                      variant="outlined"
+                      color="warning"
+                      onClick={handleCascadeCancel}
+                      disabled={!dependencies.canCascade}
+                    >
+                      Undo All {dependencies.dependentTrades.length + 1} Trades
+                    </Button>
+                  </>
+                )}
+              </Box>
+            </>
+          )}
+
           <Box sx={{ 
             mt: 0.5, 
             pt: 0.5,
@@ -1,9 +1,9 @@
-import { Box, Button, Typography, Snackbar, Alert, List, ListItem, ListItemText, IconButton, Paper, Dialog, DialogTitle, DialogContent, DialogActions } from '@mui/material';
+import { Box, Button, Chip, Typography, Snackbar, Alert, List, ListItem, ListItemText, IconButton, Paper, Dialog, DialogTitle, DialogContent, DialogActions } from '@mui/material';
 import DeleteIcon from '@mui/icons-material/Delete';
 import UndoIcon from '@mui/icons-material/Undo';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useState } from 'react';
-import { Trade, Manager, TradeStatus } from '../../types/models';
+import { Trade, Manager, TradeAsset, TradeAssetType, TradeStatus } from '../../types/models';
 import { TradeModal } from './TradeModal';
 import { TradeDetailsPopover } from './TradeDetailsPopover';
 import { tradeService } from '../../services/tradeService';
@@ -12,9 +12,20 @@ import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { managerService } from '../../services/managerService';
 import { draftService } from '../../services/draftService';
 
+const isPending = (trade: Trade) =>
+  trade.status === TradeStatus.Proposed || trade.status === TradeStatus.Accepted;
+
+// Trades that never went through or were undone
+const isInactive = (trade: Trade) =>
+  trade.status === TradeStatus.Cancelled ||
+  trade.status === TradeStatus.Reversed ||
+  trade.status === TradeStatus.Rejected ||
+  trade.status === TradeStatus.Countered;
+
 export function TradeManagement() {
   const { theme, mode } = useTheme();
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [counter, setCounter] = useState<{ trade: Trade; managerId: string } | null>(null);
   const [selectedTrade, setSelectedTrade] = useState<{
     trade: Trade;
     anchorEl: HTMLElement;
@@ -51,17 +62,18 @@ export function TradeManagement() {
   const managers = managersResponse?.value ?? [];
   const activeDraft = activeDraftResponse?.value;
   const trades = tradesResponse ?? [];
+  const pendingTrades = trades.filter(isPending);
+  const tradeHistory = trades.filter(t => !isPending(t));
 
-  // Get canCancel status for all trades in a single query
+  // Get canCancel status for all completed trades in a single query
   const { data: canCancelStatuses } = useQuery({
     queryKey: ['canCancelTrades', trades.map(t => t.id)],
     queryFn: async () => {
+      const completedTrades = trades.filter(t => t.status === TradeStatus.Completed);
       const statuses = await Promise.all(
-        trades
-          .filter(t => t.status !== TradeStatus.Cancelled && t.status !== TradeStatus.Reversed)
-          .map(t => tradeService.canCancelTrade(t.id!))
+        completedTrades.map(t => tradeService.canCancelTrade(t.id!))
       );
-      return trades.reduce((acc, trade, index) => {
+      return completedTrades.reduce((acc, trade, index) => {
         acc[trade.id!] = statuses[index] ?? false;
         return acc;
       }, {} as Record<string, boolean>);
@@ -82,18 +94,23 @@ export function TradeManagement() {
     return managerNames.join(' ⟷ ');
   };
 
-  const handleCancelTrade = async (tradeId: string) => {
+  const handleCancelTrade = async (trade: Trade) => {
     try {
-      await tradeService.cancelTrade(tradeId);
+      await tradeService.cancelTrade(trade.id!);
       // Invalidate both trades and activeDraft queries
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ['trades'] }),
         queryClient.invalidateQueries({ queryKey: ['activeDraft'] }),
-        queryClient.invalidateQueries({ queryKey: ['canCancelTrades'] })
+        queryClient.invalidateQueries({ queryKey: ['canCancelTrades'] }),
+        queryClient.invalidateQueries({ queryKey: ['players'] }),
+        queryClient.invalidateQueries({ queryKey: ['teamSummaries'] }),
+        queryClient.invalidateQueries({ queryKey: ['futurePicks'] })
       ]);
       setSnackbar({
         open: true,
-        message: 'Trade cancelled and picks returned to original owners',
+        message: isPending(trade)
+          ? 'Trade proposal withdrawn'
+          : 'Trade cancelled and assets returned to original owners',
         severity: 'success'
       });
       setCancelConfirmTrade(null);
@@ -122,21 +139,31 @@ export function TradeManagement() {
 
   const handleCloseModal = () => {
     setIsModalOpen(false);
+    setCounter(null);
   };
 
-  const handleSubmitTrade = async (trade: Omit<Trade, 'id'>) => {
+  const handleSubmitTrade = async (trade: Omit<Trade, 'id'>, proposedBy?: string) => {
     try {
-      await tradeService.createTrade(trade);
+      if (counter) {
+        await tradeService.counterTrade(counter.trade.id!, trade, counter.managerId);
+      } else if (proposedBy) {
+        await tradeService.proposeTrade(trade, proposedBy);
+      } else {
+        await tradeService.createTrade(trade);
+      }
       await Promise.all([
         queryClient.invalidateQueries({ queryKey: ['trades'] }),
         queryClient.invalidateQueries({ queryKey: ['canCancelTrades'] })
       ]);
       setSnackbar({
         open: true,
-        message: 'Trade completed successfully',
+        message: counter
+          ? 'Counteroffer sent'
+          : proposedBy ? 'Trade proposed' : 'Trade completed successfully',
         severity: 'success'
       });
       setIsModalOpen(false);
+      setCounter(null);
     } catch (error: any) {
       console.error('Error creating trade:', error);
       console.error('Error details:', {
@@ -153,6 +180,57 @@ export function TradeManagement() {
     }
   };
 
+  const handleRespond = async (trade: Trade, managerId: string, accept: boolean) => {
+    try {
+      const updated = accept
+        ? await tradeService.acceptTrade(trade.id!, managerId)
+        : await tradeService.rejectTrade(trade.id!, managerId);
+      const completed = updated.status === TradeStatus.Completed;
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['trades'] }),
+        queryClient.invalidateQueries({ queryKey: ['canCancelTrades'] }),
+        // Once the last party accepts, picks and players change hands
+        ...(completed ? [
+          queryClient.invalidateQueries({ queryKey: ['activeDraft'] }),
+          queryClient.invalidateQueries({ queryKey: ['players'] }),
+          queryClient.invalidateQueries({ queryKey: ['teamSummaries'] }),
+          queryClient.invalidateQueries({ queryKey: ['futurePicks'] })
+        ] : [])
+      ]);
+      setSnackbar({
+        open: true,
+        message: !accept
+          ? `${getManagerName(managerId)} rejected the trade`
+          : completed
+            ? 'All managers accepted. Trade completed'
+            : `${getManagerName(managerId)} accepted the trade`,
+        severity: 'success'
+      });
+    } catch (error) {
+      console.error('Error responding to trade:', error);
+      setSnackbar({
+        open: true,
+        message: error instanceof Error ? error.message : 'Unable to update trade',
+        severity: 'error'
+      });
+    }
+  };
+
+  const handleCounter = (trade: Trade, managerId: string) => {
+    setCounter({ trade, managerId });
+    setIsModalOpen(true);
+  };
+
+  const getAssetDescription = (asset: TradeAsset) => {
+    if (asset.type === TradeAssetType.Player) {
+      return `${asset.playerName ?? 'Unknown Player'} (drafted Round ${asset.roundNumber}, Pick ${asset.pickNumber})`;
+    }
+    if (asset.type === TradeAssetType.FuturePick) {
+      return `${asset.year} Round ${asset.roundNumber} (${getManagerName(asset.originalManagerId ?? '')}'s pick)`;
+    }
+    return `Round ${asset.roundNumber}, Pick ${asset.pickNumber} (Overall: ${asset.overallPickNumber})`;
+  };
+
   const handleCloseSnackbar = () => {
     setSnackbar(prev => ({ ...prev, open: false }));
   };
@@ -199,6 +277,97 @@ export function TradeManagement() {
         </Button>
       </Box>
 
+      <Box sx={{ mt: 4 }}>
+        <Typography variant="subtitle1" sx={{ 
+          mb: 1,
+          color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark 
+        }}>
+          Pending Trades
+        </Typography>
+        <Paper variant="outlined" sx={{ maxHeight: 400, overflow: 'auto' }}>
+          <List>
+            {pendingTrades.length === 0 ? (
+              <ListItem>
+                <ListItemText primary="No trades waiting on a response" />
+              </ListItem>
+            ) : (
+              pendingTrades.map((trade) => {
+                const proposer = trade.parties.find(p => p.proposed);
+
+                return (
+                  <ListItem
+                    key={trade.id}
+                    onClick={(e) => handleTradeClick(trade, e)}
+                    sx={{
+                      cursor: 'pointer',
+                      flexDirection: 'column',
+                      alignItems: 'stretch',
+                      gap: 1,
+                      '&:hover': {
+                        bgcolor: mode === 'light' ? theme.colors.action.hover.light : theme.colors.action.hover.dark
+                      }
+                    }}
+                    secondaryAction={
+                      <IconButton
+                        edge="end"
+                        aria-label="withdraw"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setCancelConfirmTrade(trade);
+                        }}
+                        title="Withdraw this proposal"
+                        sx={{
+                          color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark
+                        }}
+                      >
+                        <DeleteIcon />
+                      </IconButton>
+                    }
+                  >
+                    <ListItemText
+                      primary={getTradeDescription(trade)}
+                      secondary={`${trade.counterOfTradeId ? 'Counteroffer' : 'Proposed'} by ${
+                        proposer ? getManagerName(proposer.managerId) : 'Unknown Manager'
+                      } on ${new Date(trade.proposedAt ?? trade.timestamp).toLocaleDateString()}`}
+                      sx={{
+                        color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark
+                      }}
+                    />
+                    {trade.parties.map(party => (
+                      <Box
+                        key={party.managerId}
+                        onClick={(e) => e.stopPropagation()}
+                        sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap', pr: 6 }}
+                      >
+                        <Chip
+                          size="small"
+                          label={`${getManagerName(party.managerId)}: ${party.accepted ? 'Accepted' : 'Waiting'}`}
+                          color={party.accepted ? 'success' : 'default'}
+                          variant={party.accepted ? 'filled' : 'outlined'}
+                        />
+                        {!party.accepted && (
+                          <>
+                            <Button size="small" onClick={() => handleRespond(trade, party.managerId, true)}>
+                              Accept
+                            </Button>
+                            <Button size="small" color="error" onClick={() => handleRespond(trade, party.managerId, false)}>
+                              Reject
+                            </Button>
+                            <Button size="small" onClick={() => handleCounter(trade, party.managerId)}>
+                              Counter
+                            </Button>
+                          </>
+                        )}
+                      </Box>
+                    ))}
+                  </ListItem>
+                );
+              })
+            )}
+          </List>
+        </Paper>
+      </Box>
+
       <Box sx={{ mt: 4 }}>
         <Typography variant="subtitle1" sx={{ 
           mb: 1,
@@ -208,16 +377,14 @@ export function TradeManagement() {
         </Typography>
         <Paper variant="outlined" sx={{ maxHeight: 300, overflow: 'auto' }}>
           <List>
-            {trades.length === 0 ? (
+            {tradeHistory.length === 0 ? (
               <ListItem>
                 <ListItemText primary="No trades found" />
               </ListItem>
             ) : (
-              trades.map((trade) => {
+              tradeHistory.map((trade) => {
                 const canCancel = canCancelStatuses?.[trade.id!] ?? false;
-                const showCancelButton = trade.status !== TradeStatus.Cancelled && 
-                  trade.status !== TradeStatus.Reversed && 
-                  canCancel;
+                const showCancelButton = trade.status === TradeStatus.Completed && canCancel;
 
                 return (
                   <ListItem
@@ -225,13 +392,13 @@ export function TradeManagement() {
                     onClick={(e) => handleTradeClick(trade, e)}
                     sx={{ 
                       cursor: 'pointer',
-                      bgcolor: (trade.status === TradeStatus.Cancelled || trade.status === TradeStatus.Reversed) ? 
+                      bgcolor: isInactive(trade) ? 
                         (mode === 'light' ? 
                           theme.colors.pickState.selected.light + '15' : 
                           theme.colors.pickState.selected.dark + '15') : 
                         'transparent',
                       '&:hover': {
-                        bgcolor: (trade.status === TradeStatus.Cancelled || trade.status === TradeStatus.Reversed) ?
+                        bgcolor: isInactive(trade) ?
                           (mode === 'light' ? 
                             theme.colors.pickState.selected.light + '25' : 
                             theme.colors.pickState.selected.dark + '25') :
@@ -263,13 +430,18 @@ export function TradeManagement() {
                   >
                     <ListItemText
                       primary={`${new Date(trade.timestamp).toLocaleDateString()} - ${getTradeDescription(trade)}`}
+                      secondary={trade.status !== TradeStatus.Completed
+                        ? trade.status
+                        : canCancelStatuses && !canCancel
+                          ? 'Later trades or drafted picks depend on this trade; open it for details'
+                          : undefined}
                       sx={{
                         color: mode === 'light' ? 
                           theme.colors.text.primary.light : 
                           theme.colors.text.primary.dark,
-                        fontStyle: (trade.status === TradeStatus.Cancelled || trade.status === TradeStatus.Reversed) ? 'italic' : 'normal',
+                        fontStyle: isInactive(trade) ? 'italic' : 'normal',
                         '& .MuiTypography-root': {
-                          textDecoration: (trade.status === TradeStatus.Cancelled || trade.status === TradeStatus.Reversed) ? 'line-through' : 'none'
+                          textDecoration: isInactive(trade) ? 'line-through' : 'none'
                         }
                       }}
                     />
@@ -296,14 +468,16 @@ export function TradeManagement() {
         <DialogTitle id="cancel-trade-dialog-title" sx={{
           color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark
         }}>
-          Cancel Trade
+          {cancelConfirmTrade && isPending(cancelConfirmTrade) ? 'Withdraw Proposal' : 'Cancel Trade'}
         </DialogTitle>
         <DialogContent>
           <Typography sx={{
             color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark,
             mb: 2
           }}>
-            Are you sure you want to cancel this trade? This action cannot be undone.
+            {cancelConfirmTrade && isPending(cancelConfirmTrade)
+              ? 'Are you sure you want to withdraw this proposal? Nothing has changed hands yet.'
+              : 'Are you sure you want to cancel this trade? This action cannot be undone.'}
           </Typography>
           {cancelConfirmTrade && (
             <>
@@ -326,7 +500,7 @@ export function TradeManagement() {
                       <Typography key={assetIndex} component="li" sx={{
                         color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark
                       }}>
-                        Round {asset.roundNumber}, Pick {asset.pickNumber} (Overall: {asset.overallPickNumber})
+                        {getAssetDescription(asset)}
                       </Typography>
                     ))}
                   </Box>
@@ -343,12 +517,12 @@ export function TradeManagement() {
             Keep Trade
           </Button>
           <Button
-            onClick={() => cancelConfirmTrade && handleCancelTrade(cancelConfirmTrade.id!)}
+            onClick={() => cancelConfirmTrade && handleCancelTrade(cancelConfirmTrade)}
             variant="contained"
             color="error"
             sx={{ opacity: 0.9, '&:hover': { opacity: 1 } }}
           >
-            Cancel Trade
+            {cancelConfirmTrade && isPending(cancelConfirmTrade) ? 'Withdraw' : 'Cancel Trade'}
           </Button>
         </DialogActions>
       </Dialog>
@@ -375,6 +549,7 @@ export function TradeManagement() {
           onSubmit={handleSubmitTrade}
           managers={managers}
           activeDraftId={activeDraft.id!}
+          counter={counter}
         />
       )}
 
@@ -1,15 +1,20 @@
-import { Box, Button, Dialog, DialogActions, DialogContent, DialogTitle, IconButton, TextField, Typography, Alert } from '@mui/material';
+import { Box, Button, Dialog, DialogActions, DialogContent, DialogTitle, IconButton, MenuItem, TextField, Typography, Alert } from '@mui/material';
 import CloseIcon from '@mui/icons-material/Close';
 import DeleteIcon from '@mui/icons-material/Delete';
 import { useTheme } from '../../contexts/ThemeContext';
 import { useEffect, useState, useCallback } from 'react';
-import { TradeAssetType, TradeStatus, TradeAsset, Trade, Manager, DraftPosition, Draft } from '../../types/models';
+import { TradeAssetType, TradeStatus, TradeAsset, Trade, Manager, DraftPosition, Draft, FuturePick, Player } from '../../types/models';
 import { ManagerSelector } from '../admin/ManagerSelector';
-import { useQuery } from '@tanstack/react-query';
+import { keepPreviousData, useQuery } from '@tanstack/react-query';
 import { draftService } from '../../services/draftService';
+import { playerService } from '../../services/playerService';
+import { futurePickService } from '../../services/futurePickService';
+import { tradeService } from '../../services/tradeService';
 import { getDisplayPickNumber } from '../../utils/draftUtils';
+import { getTradeAssetKey, isSameTradeAsset } from '../../utils/tradeUtils';
 import { AvailablePicksPopover } from './AvailablePicksPopover';
 import { AssetDistributionPopover } from './AssetDistributionPopover';
+import { TradeAnalysisPanel } from './TradeAnalysisPanel';
 import { apiClient } from '../../services/apiClient';
 
 interface AssetDistribution {
@@ -21,9 +26,12 @@ interface AssetDistribution {
 interface TradeModalProps {
   open: boolean;
   onClose: () => void;
-  onSubmit: (trade: Omit<Trade, 'id'>) => void;
+  // proposedBy is set when the trade should wait for the other parties to accept
+  onSubmit: (trade: Omit<Trade, 'id'>, proposedBy?: string) => void;
   managers: Manager[];
   activeDraftId: string;
+  // Starts the modal from a pending trade so one of its parties can send back a counteroffer
+  counter?: { trade: Trade; managerId: string } | null;
 }
 
 interface AssetProps { 
@@ -41,8 +49,10 @@ interface AssetProps {
 
 function Asset({ asset, activeDraft, mode, theme, dialogBgColor, onRemove, isDistributed, managerId, showAssetDistribution, onClick }: AssetProps) {
   const roundNumber = asset.roundNumber!;
-  const displayPickNumber = getDisplayPickNumber(activeDraft!, asset.pickNumber!, roundNumber);
-  const id = `tradeAsset|${asset.overallPickNumber?.toString() ?? ''}-${roundNumber}-${asset.pickNumber}|${managerId}`;
+  const displayPickNumber = asset.type === TradeAssetType.FuturePick
+    ? undefined
+    : getDisplayPickNumber(activeDraft!, asset.pickNumber!, roundNumber);
+  const id = `tradeAsset|${getTradeAssetKey(asset)}|${managerId}`;
 
   return (
     <Box
@@ -72,10 +82,26 @@ function Asset({ asset, activeDraft, mode, theme, dialogBgColor, onRemove, isDis
         } : undefined
       }}
     >
-      <span style={{ userSelect: 'none' }}>
-        Round {roundNumber}, Pick {displayPickNumber}
-        (Overall: {asset.overallPickNumber?.toString() ?? ''})
-      </span>
+      {asset.type === TradeAssetType.Player ? (
+        <span style={{ userSelect: 'none' }}>
+          {asset.playerName}
+          <Typography component="span" variant="caption" sx={{ display: 'block', opacity: 0.7 }}>
+            Drafted Round {roundNumber}, Pick {displayPickNumber}
+          </Typography>
+        </span>
+      ) : asset.type === TradeAssetType.FuturePick ? (
+        <span style={{ userSelect: 'none' }}>
+          {asset.year} Round {roundNumber}
+          <Typography component="span" variant="caption" sx={{ display: 'block', opacity: 0.7 }}>
+            Future pick
+          </Typography>
+        </span>
+      ) : (
+        <span style={{ userSelect: 'none' }}>
+          Round {roundNumber}, Pick {displayPickNumber}
+          (Overall: {asset.overallPickNumber?.toString() ?? ''})
+        </span>
+      )}
       {onRemove && (
         <IconButton
           size="small"
@@ -103,11 +129,14 @@ function Asset({ asset, activeDraft, mode, theme, dialogBgColor, onRemove, isDis
   );
 }
 
-export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }: TradeModalProps) {
+export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId, counter }: TradeModalProps) {
   const { theme, mode } = useTheme();
   const [selectedManagers, setSelectedManagers] = useState<Manager[]>([]);
   const [notes, setNotes] = useState('');
+  const [proposedBy, setProposedBy] = useState('');
   const [error, setError] = useState<string | null>(null);
+  // Set once the user has been warned that the trade is lopsided, so a second submit goes through
+  const [lopsidedConfirmed, setLopsidedConfirmed] = useState(false);
   const [tradeAssets, setTradeAssets] = useState<Record<string, TradeAsset[]>>({});
   const [assetDistribution, setAssetDistribution] = useState<AssetDistribution>({});
   const [distributedAssets, setDistributedAssets] = useState<Record<string, {
@@ -119,10 +148,10 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
   const [distributionAnchorEl, setDistributionAnchorEl] = useState<{ el: HTMLElement; asset: TradeAsset; managerId: string } | null>(null);
 
   const isAssetDistributed = useCallback((asset: TradeAsset) => {
-    if (!asset.overallPickNumber) return false;
+    if (!asset.overallPickNumber && !asset.playerId && !asset.futurePickId) return false;
     
     // First check if it's in the distributed assets tracking
-    if (asset.overallPickNumber?.toString() in distributedAssets) {
+    if (getTradeAssetKey(asset) in distributedAssets) {
       return true;
     }
 
@@ -131,11 +160,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
       .some(distributions => 
         Object.values(distributions)
           .some(assets => 
-            assets.some(a => 
-              a.overallPickNumber !== undefined && 
-              asset.overallPickNumber !== undefined && 
-              a.overallPickNumber === asset.overallPickNumber
-            )
+            assets.some(a => isSameTradeAsset(a, asset))
           )
       );
   }, [assetDistribution, distributedAssets]);
@@ -144,7 +169,9 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
     if (!open) {
       setSelectedManagers([]);
       setNotes('');
+      setProposedBy('');
       setError(null);
+      setLopsidedConfirmed(false);
       setTradeAssets({});
       setAssetDistribution({});
       setShowAssetDistribution(false);
@@ -153,6 +180,22 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
     }
   }, [open]);
 
+  useEffect(() => {
+    if (!open || !counter) return;
+
+    const { trade } = counter;
+    setSelectedManagers(trade.parties
+      .map(party => managers.find(m => m.id === party.managerId))
+      .filter((m): m is Manager => m !== undefined));
+    setTradeAssets(Object.fromEntries(trade.parties.map(party => [party.managerId, party.assets])));
+    setNotes(trade.notes ?? '');
+    setProposedBy(counter.managerId);
+    if (trade.parties.length >= 3) {
+      setAssetDistribution(trade.assetDistribution);
+      setShowAssetDistribution(true);
+    }
+  }, [open, counter, managers]);
+
   useEffect(() => {
     if (selectedManagers.length < 3) {
       setShowAssetDistribution(false);
@@ -172,6 +215,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
 
   const handleRemoveManager = (managerId: string) => {
     setSelectedManagers(prev => prev.filter(m => m.id !== managerId));
+    if (managerId === proposedBy) setProposedBy('');
     setTradeAssets(prev => {
       const { [managerId]: _, ...rest } = prev;
       return rest;
@@ -203,6 +247,65 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
 
   const activeDraft = activeDraftResponse?.value;
 
+  const { data: draftedPlayers } = useQuery({
+    queryKey: ['players', 'drafted'],
+    queryFn: () => playerService.getDrafted(),
+    enabled: open && !!activeDraft,
+    staleTime: 0
+  });
+
+  const { data: futurePicksResponse } = useQuery({
+    queryKey: ['futurePicks'],
+    queryFn: () => futurePickService.getLedger(),
+    enabled: open,
+    staleTime: 0
+  });
+
+  // Two-party trades don't need configuring; each side gets everything the other gives up
+  const getAssetDistribution = (): AssetDistribution => selectedManagers.length === 2 ? {
+    [selectedManagers[0].id!]: {
+      [selectedManagers[1].id!]: tradeAssets[selectedManagers[1].id!] || []
+    },
+    [selectedManagers[1].id!]: {
+      [selectedManagers[0].id!]: tradeAssets[selectedManagers[0].id!] || []
+    }
+  } : assetDistribution;
+
+  const buildTrade = (): Trade => ({
+    timestamp: new Date().toISOString(),
+    notes,
+    status: proposedBy ? TradeStatus.Proposed : TradeStatus.Completed,
+    parties: selectedManagers.map(manager => ({
+      managerId: manager.id!,
+      proposed: manager.id === proposedBy,
+      // Trades made directly by the admin don't wait on anyone
+      accepted: !proposedBy || manager.id === proposedBy,
+      assets: tradeAssets[manager.id!] || []
+    })),
+    assetDistribution: getAssetDistribution()
+  });
+
+  const tradeInProgress = buildTrade();
+  const hasAssets = Object.values(tradeAssets).some(assets => assets.length > 0);
+
+  const { data: analysis, isFetching: analyzing } = useQuery({
+    queryKey: ['tradeAnalysis', tradeInProgress.parties.map(p => p.assets), tradeInProgress.assetDistribution],
+    queryFn: () => tradeService.analyzeTrade(tradeInProgress),
+    enabled: open && !!activeDraft && selectedManagers.length >= 2 && hasAssets,
+    placeholderData: keepPreviousData,
+    staleTime: 0,
+    retry: false
+  });
+
+  // A changed trade needs a fresh look before it can go through lopsided
+  useEffect(() => {
+    setLopsidedConfirmed(false);
+  }, [tradeAssets, assetDistribution]);
+
+  const getRoster = (managerId: string) => (draftedPlayers ?? []).filter(player =>
+    player.draftStatuses?.some(ds => ds.draftId === activeDraftId && ds.isDrafted && ds.managerId === managerId)
+  );
+
   const handleAddPick = (managerId: string, pick: DraftPosition) => {
     console.log('Adding pick with draft ID:', activeDraftId);
     const roundNumber = Math.floor((pick.overallPickNumber - 1) / activeDraft!.draftOrder.length) + 1;
@@ -220,15 +323,45 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
     }));
   };
 
+  const handleAddPlayer = (managerId: string, player: Player) => {
+    const draftStatus = player.draftStatuses?.find(ds => ds.draftId === activeDraftId && ds.isDrafted);
+    const asset: TradeAsset = {
+      type: TradeAssetType.Player,
+      draftId: activeDraftId,
+      playerId: player.id,
+      playerName: player.name,
+      overallPickNumber: draftStatus?.overallPick,
+      pickNumber: draftStatus?.pick,
+      roundNumber: draftStatus?.round
+    };
+
+    setTradeAssets(prev => ({
+      ...prev,
+      [managerId]: [...(prev[managerId] || []), asset]
+    }));
+  };
+
+  const handleAddFuturePick = (managerId: string, pick: FuturePick) => {
+    const asset: TradeAsset = {
+      type: TradeAssetType.FuturePick,
+      // Its draft doesn't exist yet
+      draftId: '',
+      futurePickId: pick.id,
+      year: pick.year,
+      roundNumber: pick.round,
+      originalManagerId: pick.originalManagerId
+    };
+
+    setTradeAssets(prev => ({
+      ...prev,
+      [managerId]: [...(prev[managerId] || []), asset]
+    }));
+  };
+
   const handleRemoveAsset = (managerId: string, asset: TradeAsset) => {
     setTradeAssets(prev => ({
       ...prev,
-      [managerId]: prev[managerId].filter(a => 
-        !(a.type === asset.type && 
-          a.overallPickNumber !== undefined && 
-          asset.overallPickNumber !== undefined && 
-          a.overallPickNumber === asset.overallPickNumber)
-      )
+      [managerId]: prev[managerId].filter(a => !isSameTradeAsset(a, asset))
     }));
   };
 
@@ -239,11 +372,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
       
       if (newDistribution[toManagerId] && newDistribution[toManagerId][fromManagerId]) {
         newDistribution[toManagerId][fromManagerId] = newDistribution[toManagerId][fromManagerId]
-          .filter(a => 
-            a.overallPickNumber !== undefined && 
-            asset.overallPickNumber !== undefined && 
-            a.overallPickNumber !== asset.overallPickNumber
-          );
+          .filter(a => !isSameTradeAsset(a, asset));
         
         if (newDistribution[toManagerId][fromManagerId].length === 0) {
           delete newDistribution[toManagerId][fromManagerId];
@@ -307,13 +436,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
             Object.values(distributions)
               .flatMap(assets => assets)
           );
-        return managerAssets.length > 0 && !distributedAssets.some(
-          da => managerAssets.some(ma => 
-            ma.overallPickNumber !== undefined && 
-            da.overallPickNumber !== undefined && 
-            ma.overallPickNumber === da.overallPickNumber
-          )
-        );
+        return managerAssets.some(ma => !distributedAssets.some(da => isSameTradeAsset(da, ma)));
       });
 
       if (undistributedAssets) {
@@ -337,33 +460,13 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
       }
     }
 
-    // Create or get asset distribution
-    const finalAssetDistribution = selectedManagers.length === 2 ? {
-      [selectedManagers[0].id!]: {
-        [selectedManagers[1].id!]: tradeAssets[selectedManagers[1].id!] || []
-      },
-      [selectedManagers[1].id!]: {
-        [selectedManagers[0].id!]: tradeAssets[selectedManagers[0].id!] || []
-      }
-    } : assetDistribution;
-
-    // Update state for future reference
-    if (selectedManagers.length === 2) {
-      setAssetDistribution(finalAssetDistribution);
+    if (analysis?.isLopsided && !lopsidedConfirmed) {
+      setLopsidedConfirmed(true);
+      setError('This trade looks lopsided. Submit again to go ahead with it anyway.');
+      return;
     }
 
-    const trade: Trade = {
-      timestamp: new Date().toISOString(),
-      notes,
-      status: TradeStatus.Completed,
-      parties: selectedManagers.map(manager => ({
-        managerId: manager.id!,
-        proposed: false,
-        accepted: true,
-        assets: tradeAssets[manager.id!] || []
-      })),
-      assetDistribution: finalAssetDistribution
-    };
+    const trade = buildTrade();
 
     console.log('Submitting trade:', trade);
     apiClient.post('/debug/log', {
@@ -371,7 +474,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
       message: `Submitting trade with draft ID: ${activeDraftId}, Trade: ${JSON.stringify(trade)}`
     });
 
-    onSubmit(trade);
+    onSubmit(trade, proposedBy || undefined);
     onClose();
   };
 
@@ -415,7 +518,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
         p: 2,
         color: mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark
       }}>
-        Create Trade
+        {counter ? 'Counter Trade' : 'Create Trade'}
         <IconButton
           onClick={onClose}
           sx={{
@@ -558,7 +661,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
                     }
                   }}
                 >
-                  Available Picks
+                  Picks & Players
                 </Button>
               )}
           <Box sx={{ flex: 1, display: 'flex', flexDirection: 'column' }}>
@@ -595,7 +698,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
                 >
                   {tradeAssets[manager.id!]?.map((asset) => (
                     <Asset
-                      key={`${asset.overallPickNumber?.toString() ?? ''}-${asset.roundNumber}-${asset.pickNumber}`}
+                      key={getTradeAssetKey(asset)}
                       asset={asset}
                       activeDraft={activeDraft!}
                       mode={mode}
@@ -607,7 +710,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
                       showAssetDistribution={showAssetDistribution}
                       onClick={showAssetDistribution && !isAssetDistributed(asset) ? 
                         () => {
-                          const element = document.getElementById(`tradeAsset|${asset.overallPickNumber?.toString() ?? ''}-${asset.roundNumber}-${asset.pickNumber}|${manager.id}`);
+                          const element = document.getElementById(`tradeAsset|${getTradeAssetKey(asset)}|${manager.id}`);
                           if (element) {
                             setDistributionAnchorEl({ el: element, asset, managerId: manager.id! });
                           }
@@ -714,7 +817,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
                         </Box>
                         {assets.map((asset) => (
                           <Asset
-                            key={`${asset.overallPickNumber?.toString() ?? ''}-${asset.roundNumber}-${asset.pickNumber}`}
+                            key={getTradeAssetKey(asset)}
                             asset={asset}
                             activeDraft={activeDraft!}
                             mode={mode}
@@ -734,6 +837,39 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
           </Box>
         )}
 
+        {selectedManagers.length >= 2 && hasAssets && (
+          <TradeAnalysisPanel
+            analysis={analysis}
+            managers={selectedManagers}
+            loading={analyzing}
+          />
+        )}
+
+        {counter ? (
+          <Typography variant="body2" color="text.secondary">
+            Counteroffer from {managers.find(m => m.id === counter.managerId)?.name}.
+            The other managers will need to accept it before anything changes hands.
+          </Typography>
+        ) : (
+          <TextField
+            select
+            fullWidth
+            label="Send As"
+            value={selectedManagers.some(m => m.id === proposedBy) ? proposedBy : ''}
+            onChange={(e) => setProposedBy(e.target.value)}
+            helperText={proposedBy
+              ? 'The other managers must accept before picks or players change hands'
+              : 'The trade is completed as soon as it is submitted'}
+          >
+            <MenuItem value="">Complete now</MenuItem>
+            {selectedManagers.map(manager => (
+              <MenuItem key={manager.id} value={manager.id}>
+                Proposal from {manager.name}
+              </MenuItem>
+            ))}
+          </TextField>
+        )}
+
         <TextField
           fullWidth
           multiline
@@ -757,7 +893,7 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
             }
           }}
         >
-          Submit Trade
+          {proposedBy ? 'Send Proposal' : 'Submit Trade'}
         </Button>
       </DialogActions>
 
@@ -769,7 +905,11 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
           draft={activeDraft!}
           managers={managers}
           tradeAssets={tradeAssets[anchorEl.managerId] || []}
+          players={getRoster(anchorEl.managerId)}
+          futurePicks={futurePicksResponse?.value}
           onAddPick={(pick) => handleAddPick(anchorEl.managerId, pick)}
+          onAddPlayer={(player) => handleAddPlayer(anchorEl.managerId, player)}
+          onAddFuturePick={(pick) => handleAddFuturePick(anchorEl.managerId, pick)}
         />
       )}
 
@@ -778,6 +918,11 @@ export function TradeModal({ open, onClose, onSubmit, managers, activeDraftId }:
           anchorEl={distributionAnchorEl.el}
           onClose={() => setDistributionAnchorEl(null)}
           managers={selectedManagers.filter(m => m.id !== distributionAnchorEl.managerId)}
+          assetLabel={distributionAnchorEl.asset.type === TradeAssetType.Player
+            ? distributionAnchorEl.asset.playerName
+            : distributionAnchorEl.asset.type === TradeAssetType.FuturePick
+              ? `the ${distributionAnchorEl.asset.year} round ${distributionAnchorEl.asset.roundNumber} pick`
+              : `pick ${distributionAnchorEl.asset.overallPickNumber} overall`}
           onSelectManager={(managerId) => handleDistributeAsset(distributionAnchorEl.asset, distributionAnchorEl.managerId, managerId)}
         />
       )}
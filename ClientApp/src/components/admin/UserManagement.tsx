@@ -0,0 +1,204 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import DeleteIcon from '@mui/icons-material/Delete';
+import KeyIcon from '@mui/icons-material/Key';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '../../contexts/AuthContext';
+import { managerService } from '../../services/managerService';
+import { userService } from '../../services/userService';
+import { UserRole } from '../../types/models';
+
+/**
+ * Sign-in accounts for everyone in the league. Accounts are linked to a team from the manager's edit
+ * dialog; commissioners can act for any team, managers only for their own.
+ */
+export const UserManagement: React.FC = () => {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>(UserRole.Manager);
+  const [status, setStatus] = useState<{ success: boolean; message: string } | null>(null);
+
+  const { data: usersResponse } = useQuery({
+    queryKey: ['users'],
+    queryFn: () => userService.getAll()
+  });
+
+  const { data: managersResponse } = useQuery({
+    queryKey: ['managers'],
+    queryFn: () => managerService.getAll()
+  });
+
+  const users = usersResponse?.value ?? [];
+  const managers = managersResponse?.value ?? [];
+
+  const showError = (action: string) => (error: Error) => {
+    setStatus({ success: false, message: `Error ${action}: ${error instanceof Error ? error.message : 'Unknown error'}` });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => userService.create(username.trim(), password, role),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      setUsername('');
+      setPassword('');
+      setRole(UserRole.Manager);
+      setStatus({ success: true, message: `Added ${response.value.username}` });
+    },
+    onError: showError('adding account')
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ id, role, password }: { id: string; role: UserRole; password?: string }) =>
+      userService.update(id, role, password),
+    onSuccess: (response) => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      // A commissioner demoting themselves loses access to this page
+      queryClient.invalidateQueries({ queryKey: ['auth'] });
+      setStatus({ success: true, message: `Updated ${response.value.username}` });
+    },
+    onError: showError('updating account')
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => userService.delete(id),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['users'] });
+      queryClient.invalidateQueries({ queryKey: ['managers'] });
+      setStatus({ success: true, message: 'Account deleted' });
+    },
+    onError: showError('deleting account')
+  });
+
+  const handleResetPassword = (id: string, name: string, currentRole: UserRole) => {
+    const newPassword = window.prompt(`New password for ${name} (at least 8 characters)`);
+    if (newPassword) {
+      updateMutation.mutate({ id, role: currentRole, password: newPassword });
+    }
+  };
+
+  const handleDelete = (id: string, name: string) => {
+    if (window.confirm(`Delete the account ${name}? Any team it manages will be left without an account.`)) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  return (
+    <Paper sx={{ p: 4 }}>
+      <Typography variant="h5" gutterBottom>
+        Accounts
+      </Typography>
+      <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+        Commissioners run drafts, trades and data. Managers pick, bid and trade for the team linked to their account.
+      </Typography>
+
+      {status && (
+        <Alert severity={status.success ? 'success' : 'error'} sx={{ mb: 2 }} onClose={() => setStatus(null)}>
+          {status.message}
+        </Alert>
+      )}
+
+      <Table size="small">
+        <TableHead>
+          <TableRow>
+            <TableCell>Username</TableCell>
+            <TableCell>Team</TableCell>
+            <TableCell>Role</TableCell>
+            <TableCell />
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {users.map(account => (
+            <TableRow key={account.id}>
+              <TableCell>{account.username}</TableCell>
+              <TableCell>{managers.find(m => m.userId === account.id)?.name ?? '-'}</TableCell>
+              <TableCell>
+                <TextField
+                  select
+                  size="small"
+                  variant="standard"
+                  value={account.role}
+                  onChange={(e) => updateMutation.mutate({ id: account.id!, role: e.target.value as UserRole })}
+                >
+                  <MenuItem value={UserRole.Manager}>Manager</MenuItem>
+                  <MenuItem value={UserRole.Commissioner}>Commissioner</MenuItem>
+                </TextField>
+              </TableCell>
+              <TableCell align="right" sx={{ whiteSpace: 'nowrap' }}>
+                {account.provider === 'local' && (
+                  <Tooltip title="Reset password">
+                    <IconButton size="small" onClick={() => handleResetPassword(account.id!, account.username, account.role)}>
+                      <KeyIcon fontSize="small" />
+                    </IconButton>
+                  </Tooltip>
+                )}
+                <Tooltip title={account.id === user?.id ? "You can't delete your own account" : 'Delete account'}>
+                  <span>
+                    <IconButton
+                      size="small"
+                      onClick={() => handleDelete(account.id!, account.username)}
+                      disabled={account.id === user?.id || deleteMutation.isPending}
+                    >
+                      <DeleteIcon fontSize="small" />
+                    </IconButton>
+                  </span>
+                </Tooltip>
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+
+      <Box sx={{ display: 'flex', gap: 1, mt: 2, alignItems: 'center' }}>
+        <TextField
+          label="Username"
+          size="small"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <TextField
+          label="Password"
+          type="password"
+          size="small"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete="new-password"
+        />
+        <TextField
+          select
+          label="Role"
+          size="small"
+          value={role}
+          onChange={(e) => setRole(e.target.value as UserRole)}
+          sx={{ minWidth: 140 }}
+        >
+          <MenuItem value={UserRole.Manager}>Manager</MenuItem>
+          <MenuItem value={UserRole.Commissioner}>Commissioner</MenuItem>
+        </TextField>
+        <Button
+          variant="contained"
+          onClick={() => createMutation.mutate()}
+          disabled={!username.trim() || !password || createMutation.isPending}
+        >
+          Add
+        </Button>
+      </Box>
+    </Paper>
+  );
+};
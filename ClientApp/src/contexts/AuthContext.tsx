@@ -0,0 +1,88 @@
+import React, { createContext, useContext, useEffect } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { apiClient } from '../services/apiClient';
+import { authService } from '../services/authService';
+import { Manager, UserAccount, UserRole } from '../types/models';
+
+interface AuthContextType {
+  user: UserAccount | null;
+  // The signed-in account's manager in the current league
+  manager: Manager | null;
+  isCommissioner: boolean;
+  setupRequired: boolean;
+  providers: string[];
+  isLoading: boolean;
+  login: (username: string, password: string, provider?: string) => Promise<void>;
+  setup: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextType>({
+  user: null,
+  manager: null,
+  isCommissioner: false,
+  setupRequired: false,
+  providers: [],
+  isLoading: true,
+  login: async () => {},
+  setup: async () => {},
+  logout: async () => {},
+});
+
+export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const queryClient = useQueryClient();
+
+  const { data, isLoading } = useQuery({
+    queryKey: ['auth'],
+    queryFn: authService.getStatus
+  });
+
+  // An expired or revoked session shows up as a 401 on any request
+  useEffect(() => {
+    apiClient.setUnauthorizedHandler(() => queryClient.invalidateQueries({ queryKey: ['auth'] }));
+    return () => apiClient.setUnauthorizedHandler(null);
+  }, [queryClient]);
+
+  // Everything cached was fetched as someone else, or as nobody
+  const signedIn = async () => {
+    await queryClient.resetQueries();
+  };
+
+  const login = async (username: string, password: string, provider?: string) => {
+    await authService.login(username, password, provider);
+    await signedIn();
+  };
+
+  const setup = async (username: string, password: string) => {
+    await authService.setup(username, password);
+    await signedIn();
+  };
+
+  const logout = async () => {
+    await authService.logout();
+    queryClient.clear();
+    await queryClient.invalidateQueries({ queryKey: ['auth'] });
+  };
+
+  const user = data?.value ?? null;
+
+  return (
+    <AuthContext.Provider value={{
+      user,
+      manager: data?.manager ?? null,
+      isCommissioner: user?.role === UserRole.Commissioner,
+      setupRequired: data?.setupRequired ?? false,
+      providers: data?.providers ?? [],
+      isLoading,
+      login,
+      setup,
+      logout,
+    }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export const useAuth = () => useContext(AuthContext);
+
+export default AuthContext;
@@ -0,0 +1,28 @@
+import { useQuery } from '@tanstack/react-query';
+import { auctionService } from '../services/auctionService';
+import { AuctionBudget, AuctionStatus, Draft } from '../types/models';
+
+export interface AuctionState {
+  status: AuctionStatus | null;
+  getBudget: (managerId: string) => AuctionBudget | undefined;
+}
+
+/**
+ * Reads the auction state for the active draft. The draft event stream replaces the cached
+ * status whenever a bid, nomination or sale changes it.
+ */
+export function useAuction(activeDraft?: Draft | null): AuctionState {
+  const { data: auctionResponse } = useQuery({
+    queryKey: ['auction'],
+    queryFn: auctionService.getStatus,
+    enabled: !!activeDraft?.auction,
+    staleTime: 0
+  });
+
+  const status = activeDraft?.auction ? auctionResponse?.value ?? null : null;
+
+  return {
+    status,
+    getBudget: (managerId: string) => status?.budgets.find(b => b.managerId === managerId)
+  };
+}
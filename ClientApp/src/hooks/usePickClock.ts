@@ -0,0 +1,54 @@
+import { useEffect, useState } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { draftService } from '../services/draftService';
+import { PickClockStatus } from '../types/models';
+
+export interface PickClockCountdown {
+  status: PickClockStatus | null;
+  pickSecondsRemaining: number;
+  timeBankRemaining: number;
+  totalSecondsRemaining: number;
+  isRunning: boolean;
+}
+
+/**
+ * Reads the active draft's pick clock and counts it down locally between server updates.
+ * The server pushes a fresh status over the draft event stream whenever the clock changes,
+ * so only the elapsed time since the last status needs to be derived here.
+ */
+export function usePickClock(): PickClockCountdown {
+  const { data: clockResponse, dataUpdatedAt } = useQuery({
+    queryKey: ['pickClock'],
+    queryFn: draftService.getPickClock,
+    staleTime: 0
+  });
+
+  const status = clockResponse?.value ?? null;
+  const isRunning = !!status?.enabled && !status.isPaused && status.overallPickNumber != null;
+
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    if (!isRunning) return;
+
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  if (!status) {
+    return { status: null, pickSecondsRemaining: 0, timeBankRemaining: 0, totalSecondsRemaining: 0, isRunning: false };
+  }
+
+  const elapsed = isRunning ? Math.max(0, Math.floor((now - dataUpdatedAt) / 1000)) : 0;
+  // Pick time is used up first, then the bank
+  const pickSecondsRemaining = Math.max(0, status.pickSecondsRemaining - elapsed);
+  const bankUsed = Math.max(0, elapsed - status.pickSecondsRemaining);
+
+  return {
+    status,
+    pickSecondsRemaining,
+    timeBankRemaining: Math.max(0, status.timeBankRemaining - bankUsed),
+    totalSecondsRemaining: Math.max(0, status.totalSecondsRemaining - elapsed),
+    isRunning
+  };
+}
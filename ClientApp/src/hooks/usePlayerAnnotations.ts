@@ -0,0 +1,41 @@
+import { useCallback, useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { playerAnnotationService } from '../services/playerAnnotationService';
+import { Player, PlayerAnnotation } from '../types/models';
+
+export interface PlayerAnnotationsState {
+  annotations: Map<string, PlayerAnnotation>;
+  // Copies the players with the signed-in account's highlight, notes, stars and rank filled in
+  annotate: (players: Player[]) => Player[];
+}
+
+/**
+ * Reads the signed-in account's player annotations. They're kept apart from the shared player
+ * documents, so every list that shows them merges them in with annotate.
+ */
+export function usePlayerAnnotations(): PlayerAnnotationsState {
+  const { data: response } = useQuery({
+    queryKey: ['playerAnnotations'],
+    queryFn: playerAnnotationService.getMine,
+    staleTime: 0
+  });
+
+  const annotations = useMemo(
+    () => new Map((response?.value ?? []).map(a => [a.playerId, a])),
+    [response]
+  );
+
+  const annotate = useCallback((players: Player[]) => players.map(player => {
+    const annotation = player.id ? annotations.get(player.id) : undefined;
+    return {
+      ...player,
+      isHighlighted: annotation?.isHighlighted ?? false,
+      notes: annotation?.notes ?? undefined,
+      personalRank: annotation?.personalRank ?? undefined,
+      starsRating: annotation?.starsRating ?? undefined,
+      isNoteShared: annotation?.isNoteShared ?? false
+    };
+  }), [annotations]);
+
+  return { annotations, annotate };
+}
@@ -0,0 +1,29 @@
+import { useCallback } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { tierService } from '../services/tierService';
+import { TierSet } from '../types/models';
+import { findBreaks } from '../utils/tierUtils';
+
+export interface TierSetsState {
+  tierSets: TierSet[];
+  // The tier breaks for a position and ranking source; empty when it hasn't been tiered
+  getBreaks: (position: string, rankingSource: string) => number[];
+}
+
+/**
+ * Reads the signed-in account's tiers in the current league
+ */
+export function useTierSets(): TierSetsState {
+  const { data: response } = useQuery({
+    queryKey: ['tierSets'],
+    queryFn: tierService.getMine
+  });
+  const tierSets = response?.value ?? [];
+
+  const getBreaks = useCallback(
+    (position: string, rankingSource: string) => findBreaks(response?.value ?? [], position, rankingSource),
+    [response]
+  );
+
+  return { tierSets, getBreaks };
+}
@@ -6,9 +6,12 @@ import {
 import { DataManagement } from '../components/admin/DataManagement';
 import { DraftManagement } from '../components/admin/DraftManagement';
 import { TradeManagement } from '../components/admin/TradeManagement';
+import { FuturePickLedger } from '../components/admin/FuturePickLedger';
+import { KeeperManagement } from '../components/admin/KeeperManagement';
 import { DraftOrderDisplay } from '../components/admin/DraftOrderDisplay';
 import { ManagerSection } from '../components/admin/ManagerSection';
 import { ThemeSelector } from '../components/admin/ThemeSelector';
+import { UserManagement } from '../components/admin/UserManagement';
 
 export const AdminPanel: React.FC = () => {
   return (
@@ -21,6 +24,7 @@ export const AdminPanel: React.FC = () => {
         <Box flex={2} display="flex" flexDirection="column" gap={4} sx={{ position: 'sticky', top: 24 }}>
           <DataManagement />
           <DraftManagement />
+          <UserManagement />
         </Box>
 
         <Box flex={1} display="flex" flexDirection="column" gap={4} sx={{ position: 'sticky', top: 24 }}>
@@ -30,6 +34,8 @@ export const AdminPanel: React.FC = () => {
 
         <Box flex={2} display="flex" flexDirection="column" gap={4} sx={{ position: 'sticky', top: 24 }}>
           <TradeManagement />
+          <FuturePickLedger />
+          <KeeperManagement />
         </Box>
       </Box>
     </Container>
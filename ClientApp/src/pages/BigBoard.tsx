@@ -0,0 +1,483 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItem,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import DragIndicatorIcon from '@mui/icons-material/DragIndicator';
+import CloseIcon from '@mui/icons-material/Close';
+import AddIcon from '@mui/icons-material/Add';
+import VerticalAlignTopIcon from '@mui/icons-material/VerticalAlignTop';
+import MergeIcon from '@mui/icons-material/CallMerge';
+import { draggable, dropTargetForElements, monitorForElements } from '@atlaskit/pragmatic-drag-and-drop/element/adapter';
+import { combine } from '@atlaskit/pragmatic-drag-and-drop/combine';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTheme } from '../contexts/ThemeContext';
+import { useDebounce } from '../hooks/useDebounce';
+import { BigBoardPlayer, Player, RankingSource } from '../types/models';
+import { playerAnnotationService } from '../services/playerAnnotationService';
+import { playerService } from '../services/playerService';
+import { SearchInput } from '../components/SearchInput';
+
+// Marks drag data as coming from the board so other drop targets can ignore it
+const BOARD_ITEM = 'big-board-item';
+const DEFAULT_SEED_COUNT = 300;
+const SEARCH_RESULT_COUNT = 10;
+
+// Numbers ranks and tiers down the board, closing gaps left by emptied tiers
+const renumber = (board: BigBoardPlayer[]) => {
+  let tier = 0;
+  let previous: number | null = null;
+  return board.map((entry, index) => {
+    if (entry.tier !== previous) {
+      tier++;
+      previous = entry.tier;
+    }
+    return { ...entry, rank: index + 1, tier };
+  });
+};
+
+interface DropTarget {
+  // Where the dragged player lands: in front of the row at this index, joining the given tier
+  insertBefore: number;
+  tier: number;
+}
+
+const movePlayer = (board: BigBoardPlayer[], startIndex: number, target: DropTarget) => {
+  const entries = [...board];
+  const [moved] = entries.splice(startIndex, 1);
+  const at = startIndex < target.insertBefore ? target.insertBefore - 1 : target.insertBefore;
+  entries.splice(at, 0, { ...moved, tier: target.tier });
+  return renumber(entries);
+};
+
+interface BoardRowProps {
+  entry: BigBoardPlayer;
+  index: number;
+  isFirstInTier: boolean;
+  onRemove: (index: number) => void;
+  onStartTier: (index: number) => void;
+}
+
+function BoardRow({ entry, index, isFirstInTier, onRemove, onStartTier }: BoardRowProps) {
+  const { theme, mode } = useTheme();
+  const ref = useRef<HTMLLIElement | null>(null);
+  const [isDragging, setIsDragging] = useState(false);
+  const [isDraggedOver, setIsDraggedOver] = useState(false);
+  const { player, tier } = entry;
+
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    return combine(
+      draggable({
+        element,
+        getInitialData: () => ({ type: BOARD_ITEM, index }),
+        onDragStart: () => setIsDragging(true),
+        onDrop: () => setIsDragging(false)
+      }),
+      dropTargetForElements({
+        element,
+        canDrop: ({ source }) => source.data.type === BOARD_ITEM,
+        getData: () => ({ insertBefore: index, tier }),
+        onDragEnter: () => setIsDraggedOver(true),
+        onDragLeave: () => setIsDraggedOver(false),
+        onDrop: () => setIsDraggedOver(false)
+      })
+    );
+  }, [index, tier]);
+
+  const secondaryText = mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark;
+
+  return (
+    <ListItem
+      ref={ref}
+      sx={{
+        py: 0.5,
+        px: 1,
+        gap: 1,
+        cursor: 'grab',
+        opacity: isDragging ? 0.5 : 1,
+        borderTop: isDraggedOver ? `2px dashed ${theme.colors.pickState.selected.light}` : '2px solid transparent',
+        '&:hover': {
+          bgcolor: mode === 'light' ? theme.colors.action.hover.light : theme.colors.action.hover.dark
+        }
+      }}
+    >
+      <DragIndicatorIcon fontSize="small" sx={{ color: secondaryText }} />
+      <Typography sx={{ minWidth: 36, color: secondaryText }}>{index + 1}.</Typography>
+      <Box sx={{ flex: 1, minWidth: 0 }}>
+        <Typography noWrap sx={{ fontWeight: 500 }}>{player.name}</Typography>
+        <Typography variant="caption" sx={{ color: secondaryText }}>
+          {[player.position?.join(', '), player.mlbTeam, player.level].filter(Boolean).join(' • ')}
+        </Typography>
+      </Box>
+      <Box sx={{ display: 'flex', gap: 0.5 }}>
+        {Object.entries(player.rank ?? {}).map(([source, rank]) => (
+          <Chip key={source} size="small" variant="outlined" label={`${source.toUpperCase()} #${rank}`} />
+        ))}
+      </Box>
+      <IconButton
+        size="small"
+        onClick={() => onStartTier(index)}
+        disabled={isFirstInTier}
+        title="Start a new tier with this player"
+      >
+        <VerticalAlignTopIcon fontSize="small" />
+      </IconButton>
+      <IconButton size="small" onClick={() => onRemove(index)} title="Take off the board">
+        <CloseIcon fontSize="small" sx={{ color: secondaryText }} />
+      </IconButton>
+    </ListItem>
+  );
+}
+
+interface TierHeaderProps {
+  tier: number;
+  firstIndex: number;
+  playerCount: number;
+  onMerge: (tier: number) => void;
+}
+
+function TierHeader({ tier, firstIndex, playerCount, onMerge }: TierHeaderProps) {
+  const { theme, mode } = useTheme();
+  const ref = useRef<HTMLLIElement | null>(null);
+  const [isDraggedOver, setIsDraggedOver] = useState(false);
+
+  // Dropping on the header puts the player at the top of the tier
+  useEffect(() => {
+    const element = ref.current;
+    if (!element) return;
+
+    return dropTargetForElements({
+      element,
+      canDrop: ({ source }) => source.data.type === BOARD_ITEM,
+      getData: () => ({ insertBefore: firstIndex, tier }),
+      onDragEnter: () => setIsDraggedOver(true),
+      onDragLeave: () => setIsDraggedOver(false),
+      onDrop: () => setIsDraggedOver(false)
+    });
+  }, [firstIndex, tier]);
+
+  return (
+    <ListItem
+      ref={ref}
+      sx={{
+        py: 0.5,
+        px: 1,
+        gap: 1,
+        mt: tier > 1 ? 1 : 0,
+        bgcolor: mode === 'light' ? theme.colors.background.elevated.light : theme.colors.background.elevated.dark,
+        borderBottom: isDraggedOver ? `2px dashed ${theme.colors.pickState.selected.light}` : '2px solid transparent'
+      }}
+    >
+      <Typography variant="subtitle2" sx={{ flex: 1 }}>
+        Tier {tier}
+        <Typography component="span" variant="caption" sx={{ ml: 1 }}>
+          {playerCount} {playerCount === 1 ? 'player' : 'players'}
+        </Typography>
+      </Typography>
+      {tier > 1 && (
+        <IconButton size="small" onClick={() => onMerge(tier)} title="Merge into the tier above">
+          <MergeIcon fontSize="small" />
+        </IconButton>
+      )}
+    </ListItem>
+  );
+}
+
+/**
+ * The signed-in account's big board: every player they've ranked, in order and split into tiers.
+ * Changes are made to a working copy and saved together, since a drag can renumber hundreds of players.
+ */
+export function BigBoard() {
+  const { theme, mode } = useTheme();
+  const queryClient = useQueryClient();
+
+  const [board, setBoard] = useState<BigBoardPlayer[] | null>(null);
+  const [seedSource, setSeedSource] = useState<RankingSource>(RankingSource.IBW);
+  const [seedCount, setSeedCount] = useState(DEFAULT_SEED_COUNT);
+  const [seedDialogOpen, setSeedDialogOpen] = useState(false);
+  const [searchTerm, setSearchTerm] = useState('');
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: boardResponse, isLoading } = useQuery({
+    queryKey: ['bigBoard'],
+    queryFn: playerAnnotationService.getBigBoard,
+    staleTime: 0
+  });
+
+  const saved = useMemo(() => boardResponse?.value ?? [], [boardResponse?.value]);
+  // Until something is moved, the board is whatever was last saved
+  const working = board ?? saved;
+  const isDirty = board !== null;
+
+  const { data: searchResponse } = useQuery({
+    queryKey: ['players', 'bigBoardSearch', debouncedSearchTerm],
+    queryFn: () => playerService.search({
+      searchTerm: debouncedSearchTerm,
+      pageNumber: 1,
+      pageSize: SEARCH_RESULT_COUNT
+    }),
+    enabled: debouncedSearchTerm.trim().length >= 2
+  });
+
+  const onBoard = useMemo(() => new Set(working.map(entry => entry.player.id)), [working]);
+  const searchResults = (searchResponse?.items ?? []).filter(player => !onBoard.has(player.id));
+
+  const tiers = useMemo(() => {
+    const groups: { tier: number; firstIndex: number; entries: BigBoardPlayer[] }[] = [];
+    working.forEach((entry, index) => {
+      const last = groups[groups.length - 1];
+      if (last && last.tier === entry.tier) {
+        last.entries.push(entry);
+      } else {
+        groups.push({ tier: entry.tier, firstIndex: index, entries: [entry] });
+      }
+    });
+    return groups;
+  }, [working]);
+
+  const onSaved = (value: BigBoardPlayer[]) => {
+    queryClient.setQueryData(['bigBoard'], { value });
+    setBoard(null);
+    setError(null);
+    // Personal ranks show in the player grid and feed recommendations
+    queryClient.invalidateQueries({ queryKey: ['playerAnnotations'] });
+    queryClient.invalidateQueries({ queryKey: ['players'] });
+    queryClient.invalidateQueries({ queryKey: ['recommendations'] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => playerAnnotationService.saveBigBoard(
+      working.map(entry => ({ playerId: entry.player.id!, tier: entry.tier }))
+    ),
+    onSuccess: (response) => onSaved(response.value),
+    onError: (err) => setError(err instanceof Error ? err.message : 'Error saving big board')
+  });
+
+  const seedMutation = useMutation({
+    mutationFn: () => playerAnnotationService.seedBigBoard(seedSource, seedCount),
+    onSuccess: (response) => {
+      setSeedDialogOpen(false);
+      onSaved(response.value);
+    },
+    onError: (err) => {
+      setSeedDialogOpen(false);
+      setError(err instanceof Error ? err.message : 'Error seeding big board');
+    }
+  });
+
+  const edit = (change: (entries: BigBoardPlayer[]) => BigBoardPlayer[]) => {
+    setBoard(renumber(change([...working])));
+  };
+
+  useEffect(() => {
+    return monitorForElements({
+      canMonitor: ({ source }) => source.data.type === BOARD_ITEM,
+      onDrop: ({ source, location }) => {
+        const target = location.current.dropTargets[0];
+        if (!target) return;
+
+        setBoard(movePlayer(working, source.data.index as number, {
+          insertBefore: target.data.insertBefore as number,
+          tier: target.data.tier as number
+        }));
+      }
+    });
+  }, [working]);
+
+  const addPlayer = (player: Player) => {
+    const lastTier = working[working.length - 1]?.tier ?? 1;
+    edit(entries => [...entries, { player, rank: entries.length + 1, tier: lastTier }]);
+  };
+
+  const removePlayer = (index: number) => edit(entries => entries.filter((_, i) => i !== index));
+
+  const startTier = (index: number) =>
+    edit(entries => entries.map((entry, i) => (i >= index ? { ...entry, tier: entry.tier + 1 } : entry)));
+
+  const mergeTier = (tier: number) =>
+    edit(entries => entries.map(entry => (entry.tier === tier ? { ...entry, tier: tier - 1 } : entry)));
+
+  const textPrimary = mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark;
+  const textSecondary = mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark;
+  const paperSx = {
+    p: 3,
+    borderRadius: '16px',
+    bgcolor: mode === 'light' ? theme.colors.background.paper.light : theme.colors.background.paper.dark
+  };
+  const dialogBgColor = mode === 'light' ? theme.colors.background.elevated.light : theme.colors.background.elevated.dark;
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: 3,
+      p: 4,
+      minHeight: '100%',
+      bgcolor: mode === 'light' ? theme.colors.background.default.light : theme.colors.background.default.dark
+    }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, flexWrap: 'wrap' }}>
+        <Typography variant="h4" sx={{ color: textPrimary }}>
+          Big Board
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2, alignItems: 'center' }}>
+          {isDirty && <Chip label="Unsaved changes" color="warning" size="small" />}
+          <Button variant="outlined" disabled={!isDirty} onClick={() => setBoard(null)}>
+            Discard
+          </Button>
+          <Button
+            variant="contained"
+            disabled={!isDirty || saveMutation.isPending}
+            onClick={() => saveMutation.mutate()}
+          >
+            {saveMutation.isPending ? 'Saving...' : 'Save'}
+          </Button>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      <Box sx={{ display: 'flex', gap: 3, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+        <Paper elevation={2} sx={{ ...paperSx, flex: 1, minWidth: 480 }}>
+          <Typography variant="body2" sx={{ color: textSecondary, mb: 2 }}>
+            Drag players into order. Drop a player on a tier's heading to put them at the top of that tier.
+            Your ranks are private; they show as the PERSONAL ranking source in the player list.
+          </Typography>
+          {isLoading ? (
+            <Typography sx={{ color: textSecondary }}>Loading...</Typography>
+          ) : working.length === 0 ? (
+            <Typography sx={{ color: textSecondary }}>
+              Nobody is ranked yet. Start from a ranking source, or search for players to add.
+            </Typography>
+          ) : (
+            <List dense>
+              {tiers.map(group => (
+                <Box key={group.tier}>
+                  <TierHeader
+                    tier={group.tier}
+                    firstIndex={group.firstIndex}
+                    playerCount={group.entries.length}
+                    onMerge={mergeTier}
+                  />
+                  {group.entries.map((entry, offset) => (
+                    <BoardRow
+                      key={entry.player.id}
+                      entry={entry}
+                      index={group.firstIndex + offset}
+                      isFirstInTier={offset === 0}
+                      onRemove={removePlayer}
+                      onStartTier={startTier}
+                    />
+                  ))}
+                </Box>
+              ))}
+            </List>
+          )}
+        </Paper>
+
+        <Box sx={{ width: 360, display: 'flex', flexDirection: 'column', gap: 3 }}>
+          <Paper elevation={2} sx={{ ...paperSx, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Typography variant="h6">Start From a Ranking</Typography>
+            <Typography variant="body2" sx={{ color: textSecondary }}>
+              Replaces the board with a source's top players, in one tier.
+            </Typography>
+            <TextField
+              select
+              label="Ranking source"
+              size="small"
+              value={seedSource}
+              onChange={(e) => setSeedSource(e.target.value as RankingSource)}
+            >
+              {Object.values(RankingSource).map(source => (
+                <MenuItem key={source} value={source}>
+                  {source}
+                </MenuItem>
+              ))}
+            </TextField>
+            <TextField
+              label="Players"
+              type="number"
+              size="small"
+              value={seedCount}
+              onChange={(e) => setSeedCount(Math.max(1, Math.min(1000, Number(e.target.value) || 1)))}
+              inputProps={{ min: 1, max: 1000 }}
+            />
+            <Button variant="outlined" onClick={() => setSeedDialogOpen(true)}>
+              Start Over
+            </Button>
+          </Paper>
+
+          <Paper elevation={2} sx={{ ...paperSx, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Typography variant="h6">Add Players</Typography>
+            <SearchInput value={searchTerm} onChange={setSearchTerm} />
+            <List dense>
+              {searchResults.map(player => (
+                <ListItem
+                  key={player.id}
+                  secondaryAction={
+                    <IconButton size="small" onClick={() => addPlayer(player)} title="Add to the bottom of the board">
+                      <AddIcon fontSize="small" />
+                    </IconButton>
+                  }
+                >
+                  <Box sx={{ minWidth: 0 }}>
+                    <Typography noWrap>{player.name}</Typography>
+                    <Typography variant="caption" sx={{ color: textSecondary }}>
+                      {[player.position?.join(', '), player.mlbTeam, player.level].filter(Boolean).join(' • ')}
+                    </Typography>
+                  </Box>
+                </ListItem>
+              ))}
+            </List>
+          </Paper>
+        </Box>
+      </Box>
+
+      <Dialog
+        open={seedDialogOpen}
+        onClose={() => setSeedDialogOpen(false)}
+        PaperProps={{ sx: { bgcolor: dialogBgColor } }}
+      >
+        <DialogTitle>Start Over From {seedSource}?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Your board will be replaced with the top {seedCount} players by {seedSource}, and your tiers removed.
+            {isDirty && ' Unsaved changes will be lost.'}
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setSeedDialogOpen(false)}>Cancel</Button>
+          <Button
+            variant="contained"
+            color="warning"
+            disabled={seedMutation.isPending}
+            onClick={() => seedMutation.mutate()}
+          >
+            Start Over
+          </Button>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Container,
+  MenuItem,
+  Paper,
+  TextField,
+  Typography
+} from '@mui/material';
+import { useAuth } from '../contexts/AuthContext';
+import { useTheme } from '../contexts/ThemeContext';
+
+/**
+ * Sign-in page shown to anyone without a session. Before the first account exists it creates that
+ * account instead, as the league's commissioner.
+ */
+export const Login: React.FC = () => {
+  const { login, setup, setupRequired, providers } = useAuth();
+  const { theme, mode } = useTheme();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [provider, setProvider] = useState('local');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const passwordsMatch = !setupRequired || password === confirmPassword;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError(null);
+    setSubmitting(true);
+    try {
+      if (setupRequired) {
+        await setup(username.trim(), password);
+      } else {
+        await login(username.trim(), password, provider);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Container maxWidth="xs" sx={{ mt: 8 }}>
+      <Paper
+        component="form"
+        onSubmit={handleSubmit}
+        sx={{
+          p: 4,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 2,
+          bgcolor: mode === 'light' ? theme.colors.background.paper.light : theme.colors.background.paper.dark
+        }}
+      >
+        <Typography variant="h5">
+          {setupRequired ? 'Create Commissioner Account' : 'Sign In'}
+        </Typography>
+        {setupRequired && (
+          <Typography variant="body2" color="text.secondary">
+            No accounts exist yet. This first account runs the league and can add accounts for the other managers.
+          </Typography>
+        )}
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)}>{error}</Alert>
+        )}
+        <TextField
+          label="Username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+          autoComplete="username"
+          autoFocus
+          required
+        />
+        <TextField
+          label="Password"
+          type="password"
+          value={password}
+          onChange={(e) => setPassword(e.target.value)}
+          autoComplete={setupRequired ? 'new-password' : 'current-password'}
+          helperText={setupRequired ? 'At least 8 characters' : undefined}
+          required
+        />
+        {setupRequired && (
+          <TextField
+            label="Confirm Password"
+            type="password"
+            value={confirmPassword}
+            onChange={(e) => setConfirmPassword(e.target.value)}
+            autoComplete="new-password"
+            error={!passwordsMatch}
+            helperText={!passwordsMatch ? "Passwords don't match" : undefined}
+            required
+          />
+        )}
+        {!setupRequired && providers.length > 1 && (
+          <TextField
+            select
+            label="Sign in with"
+            value={provider}
+            onChange={(e) => setProvider(e.target.value)}
+          >
+            {providers.map(p => (
+              <MenuItem key={p} value={p}>{p}</MenuItem>
+            ))}
+          </TextField>
+        )}
+        <Box display="flex" justifyContent="flex-end">
+          <Button
+            type="submit"
+            variant="contained"
+            disabled={submitting || !username.trim() || !password || !passwordsMatch}
+          >
+            {setupRequired ? 'Create Account' : 'Sign In'}
+          </Button>
+        </Box>
+      </Paper>
+    </Container>
+  );
+};
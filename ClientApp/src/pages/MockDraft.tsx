@@ -0,0 +1,380 @@
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  IconButton,
+  List,
+  ListItem,
+  MenuItem,
+  Paper,
+  Slider,
+  TextField,
+  Typography
+} from '@mui/material';
+import GavelIcon from '@mui/icons-material/Gavel';
+import DeleteIcon from '@mui/icons-material/Delete';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { useTheme } from '../contexts/ThemeContext';
+import { useDebounce } from '../hooks/useDebounce';
+import { Draft, MockDraft as MockDraftModel, Player, RankingSource } from '../types/models';
+import { draftService } from '../services/draftService';
+import { managerService } from '../services/managerService';
+import { mockDraftService } from '../services/mockDraftService';
+import { playerService } from '../services/playerService';
+import { DraftBoard } from '../components/DraftBoard';
+
+// Enough of the board to pick from without paging
+const AVAILABLE_PLAYER_COUNT = 200;
+
+export function MockDraft() {
+  const { theme, mode } = useTheme();
+  const queryClient = useQueryClient();
+
+  const [mockDraftId, setMockDraftId] = useState<string | null>(null);
+  const [userManagerId, setUserManagerId] = useState<string>('');
+  const [rankingSource, setRankingSource] = useState<RankingSource>(RankingSource.IBW);
+  const [randomness, setRandomness] = useState(3);
+  const [searchTerm, setSearchTerm] = useState('');
+  const debouncedSearchTerm = useDebounce(searchTerm, 300);
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: activeDraftResponse } = useQuery({
+    queryKey: ['activeDraft'],
+    queryFn: () => draftService.getActiveDraft(),
+    staleTime: 0
+  });
+
+  const { data: managersResponse } = useQuery({
+    queryKey: ['managers'],
+    queryFn: () => managerService.getAll(),
+    staleTime: 0
+  });
+
+  const { data: recentResponse } = useQuery({
+    queryKey: ['mockDrafts'],
+    queryFn: mockDraftService.getRecent,
+    staleTime: 0
+  });
+
+  const { data: mockDraftResponse } = useQuery({
+    queryKey: ['mockDraft', mockDraftId],
+    queryFn: () => mockDraftService.getById(mockDraftId!),
+    enabled: !!mockDraftId,
+    staleTime: 0
+  });
+
+  const activeDraft = activeDraftResponse?.value;
+  const managers = useMemo(() => managersResponse?.value ?? [], [managersResponse?.value]);
+  const mockDraft = mockDraftResponse?.value;
+  const selectedManagerId = userManagerId || managers.find(m => m.isUser)?.id || '';
+
+  const { data: playersResponse } = useQuery({
+    queryKey: ['players', 'mockDraft', mockDraft?.rankingSource, debouncedSearchTerm],
+    queryFn: () => playerService.search({
+      searchTerm: debouncedSearchTerm,
+      excludeDrafted: true,
+      rankingSource: mockDraft!.rankingSource,
+      sortField: 'rankingValue',
+      pageNumber: 1,
+      pageSize: AVAILABLE_PLAYER_COUNT
+    }),
+    enabled: !!mockDraft && !mockDraft.isComplete
+  });
+
+  const availablePlayers = useMemo(() => {
+    if (!mockDraft) return [];
+    const taken = new Set(mockDraft.picks.map(p => p.playerId));
+    const rankKey = mockDraft.rankingSource.toLowerCase();
+    // Unranked players sort last rather than first
+    const getRank = (player: Player) => player.rank?.[rankKey] ?? Number.MAX_SAFE_INTEGER;
+
+    return (playersResponse?.items ?? [])
+      .filter(player => player.id && !taken.has(player.id))
+      .sort((a, b) => getRank(a) - getRank(b));
+  }, [mockDraft, playersResponse?.items]);
+
+  const setMockDraft = (updated: MockDraftModel) => {
+    queryClient.setQueryData(['mockDraft', updated.id], { value: updated });
+    queryClient.invalidateQueries({ queryKey: ['mockDrafts'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: () => mockDraftService.create({
+      userManagerId: selectedManagerId || undefined,
+      rankingSource,
+      randomness
+    }),
+    onSuccess: (response) => {
+      setError(null);
+      setMockDraft(response.value);
+      setMockDraftId(response.value.id);
+    },
+    onError: (err) => setError(err instanceof Error ? err.message : 'Error starting mock draft')
+  });
+
+  const pickMutation = useMutation({
+    mutationFn: (playerId: string) => mockDraftService.makePick(mockDraftId!, playerId),
+    onSuccess: (response) => {
+      setError(null);
+      setMockDraft(response.value);
+    },
+    onError: (err) => setError(err instanceof Error ? err.message : 'Error making pick')
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (id: string) => mockDraftService.delete(id),
+    onSuccess: (_, id) => {
+      if (id === mockDraftId) setMockDraftId(null);
+      queryClient.invalidateQueries({ queryKey: ['mockDrafts'] });
+    },
+    onError: (err) => setError(err instanceof Error ? err.message : 'Error deleting mock draft')
+  });
+
+  const textPrimary = mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark;
+  const textSecondary = mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark;
+  const paperSx = {
+    p: 3,
+    borderRadius: '16px',
+    bgcolor: mode === 'light' ? theme.colors.background.paper.light : theme.colors.background.paper.dark
+  };
+
+  const getManagerName = (managerId: string) => managers.find(m => m.id === managerId)?.name ?? 'Unknown';
+
+  // Shape the mock like a draft so the regular board can show it
+  const boardDraft: Draft | null = mockDraft ? {
+    id: mockDraft.id,
+    year: activeDraft?.year ?? new Date().getFullYear(),
+    type: 'Mock',
+    isSnakeDraft: mockDraft.isSnakeDraft,
+    rounds: mockDraft.rounds,
+    draftOrder: mockDraft.draftOrder,
+    isActive: false,
+    createdAt: new Date(mockDraft.createdAt),
+    currentOverallPick: mockDraft.currentOverallPick ?? undefined
+  } : null;
+
+  const playerNames = useMemo(() => Object.fromEntries(
+    (mockDraft?.picks ?? []).map(pick => [pick.overallPickNumber, pick.playerName])
+  ), [mockDraft?.picks]);
+
+  const currentPick = mockDraft && mockDraft.currentOverallPick != null
+    ? mockDraft.rounds
+        .flatMap(round => round.picks.map(pick => ({ round: round.roundNumber, pick })))
+        .find(({ pick }) => pick.overallPickNumber === mockDraft.currentOverallPick)
+    : undefined;
+
+  const userRoster = (mockDraft?.picks ?? [])
+    .filter(pick => pick.managerId === mockDraft?.userManagerId)
+    .sort((a, b) => a.overallPickNumber - b.overallPickNumber);
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: 3,
+      p: 4,
+      minHeight: '100%',
+      bgcolor: mode === 'light' ? theme.colors.background.default.light : theme.colors.background.default.dark
+    }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+        <Typography variant="h4" sx={{ color: textPrimary }}>
+          Mock Draft
+        </Typography>
+        {mockDraft && (
+          <Button variant="outlined" onClick={() => setMockDraftId(null)}>
+            New Mock Draft
+          </Button>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" onClose={() => setError(null)}>
+          {error}
+        </Alert>
+      )}
+
+      {!mockDraft ? (
+        <Box sx={{ display: 'flex', gap: 3, alignItems: 'flex-start', flexWrap: 'wrap' }}>
+          <Paper elevation={2} sx={{ ...paperSx, width: 400, display: 'flex', flexDirection: 'column', gap: 2 }}>
+            <Typography variant="h6">Start a Mock Draft</Typography>
+            {!activeDraft ? (
+              <Typography sx={{ color: textSecondary }}>
+                A mock draft copies the active draft's order and rounds. Activate a draft first.
+              </Typography>
+            ) : (
+              <>
+                <Typography variant="body2" sx={{ color: textSecondary }}>
+                  Copies the order, rounds and picks made so far in the active {activeDraft.year} draft.
+                  You pick for your manager; everyone else picks from the ranking you choose.
+                  Nothing in the real draft changes.
+                </Typography>
+                <TextField
+                  select
+                  label="Draft as"
+                  size="small"
+                  value={selectedManagerId}
+                  onChange={(e) => setUserManagerId(e.target.value)}
+                >
+                  {managers.map(manager => (
+                    <MenuItem key={manager.id} value={manager.id}>
+                      {manager.name}
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <TextField
+                  select
+                  label="Opponents draft by"
+                  size="small"
+                  value={rankingSource}
+                  onChange={(e) => setRankingSource(e.target.value as RankingSource)}
+                >
+                  {Object.values(RankingSource).map(source => (
+                    <MenuItem key={source} value={source}>
+                      {source} rankings
+                    </MenuItem>
+                  ))}
+                </TextField>
+                <Box>
+                  <Typography variant="body2" gutterBottom>
+                    Randomness: ±{randomness} spots
+                  </Typography>
+                  <Slider
+                    value={randomness}
+                    min={0}
+                    max={20}
+                    step={1}
+                    marks={[{ value: 0, label: 'Strict' }, { value: 20, label: 'Chaotic' }]}
+                    onChange={(_, value) => setRandomness(value as number)}
+                  />
+                </Box>
+                <Button
+                  variant="contained"
+                  disabled={createMutation.isPending}
+                  onClick={() => createMutation.mutate()}
+                >
+                  {createMutation.isPending ? 'Simulating...' : 'Start'}
+                </Button>
+              </>
+            )}
+          </Paper>
+          <Paper elevation={2} sx={{ ...paperSx, flex: 1, minWidth: 300 }}>
+            <Typography variant="h6" gutterBottom>Recent Mock Drafts</Typography>
+            {!recentResponse?.value.length ? (
+              <Typography variant="body2" sx={{ color: textSecondary }}>
+                No mock drafts yet.
+              </Typography>
+            ) : (
+              <List dense>
+                {recentResponse.value.map(mock => (
+                  <ListItem
+                    key={mock.id}
+                    secondaryAction={
+                      <IconButton size="small" onClick={() => deleteMutation.mutate(mock.id)} title="Delete mock draft">
+                        <DeleteIcon fontSize="small" />
+                      </IconButton>
+                    }
+                  >
+                    <Box
+                      sx={{ cursor: 'pointer', '&:hover': { textDecoration: 'underline' } }}
+                      onClick={() => setMockDraftId(mock.id)}
+                    >
+                      <Typography>
+                        {getManagerName(mock.userManagerId)} • {mock.rankingSource} ±{mock.randomness}
+                      </Typography>
+                      <Typography variant="caption" sx={{ color: textSecondary }}>
+                        {new Date(mock.createdAt).toLocaleString()} • {mock.isComplete ? 'Complete' : 'In progress'}
+                      </Typography>
+                    </Box>
+                  </ListItem>
+                ))}
+              </List>
+            )}
+          </Paper>
+        </Box>
+      ) : (
+        <>
+          {mockDraft.isComplete ? (
+            <Alert severity="success">
+              Mock draft complete. Final rosters are on the board below.
+            </Alert>
+          ) : (
+            <Box sx={{ display: 'flex', gap: 3, height: 480 }}>
+              <Paper elevation={2} sx={{ ...paperSx, flex: 2, display: 'flex', flexDirection: 'column', minHeight: 0 }}>
+                <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, mb: 1 }}>
+                  <Typography variant="h6">
+                    {currentPick
+                      ? `You're on the clock: Round ${currentPick.round}, Overall #${currentPick.pick.overallPickNumber}`
+                      : 'Available Players'}
+                  </Typography>
+                  <TextField
+                    size="small"
+                    placeholder="Search players"
+                    value={searchTerm}
+                    onChange={(e) => setSearchTerm(e.target.value)}
+                  />
+                </Box>
+                <List dense sx={{ overflow: 'auto', flex: 1 }}>
+                  {availablePlayers.map(player => (
+                    <ListItem
+                      key={player.id}
+                      sx={{ gap: 1 }}
+                      secondaryAction={
+                        <IconButton
+                          size="small"
+                          disabled={pickMutation.isPending}
+                          onClick={() => pickMutation.mutate(player.id!)}
+                          title="Draft player"
+                        >
+                          <GavelIcon fontSize="small" />
+                        </IconButton>
+                      }
+                    >
+                      <Typography sx={{ minWidth: 40, color: textSecondary }}>
+                        {player.rank?.[mockDraft.rankingSource.toLowerCase()] ?? '-'}
+                      </Typography>
+                      <Box sx={{ minWidth: 0 }}>
+                        <Typography noWrap sx={{ fontWeight: 500 }}>{player.name}</Typography>
+                        <Typography variant="caption" sx={{ color: textSecondary }}>
+                          {[player.position?.join(', '), player.mlbTeam, player.level].filter(Boolean).join(' • ')}
+                        </Typography>
+                      </Box>
+                    </ListItem>
+                  ))}
+                </List>
+              </Paper>
+              <Paper elevation={2} sx={{ ...paperSx, flex: 1, display: 'flex', flexDirection: 'column', minHeight: 0 }}>
+                <Typography variant="h6" gutterBottom>
+                  {getManagerName(mockDraft.userManagerId)}'s Picks
+                </Typography>
+                {userRoster.length === 0 ? (
+                  <Typography variant="body2" sx={{ color: textSecondary }}>
+                    No picks yet.
+                  </Typography>
+                ) : (
+                  <List dense sx={{ overflow: 'auto', flex: 1 }}>
+                    {userRoster.map(pick => (
+                      <ListItem key={pick.overallPickNumber} sx={{ gap: 1 }}>
+                        <Typography sx={{ minWidth: 48, color: textSecondary }}>
+                          #{pick.overallPickNumber}
+                        </Typography>
+                        <Typography noWrap>{pick.playerName}</Typography>
+                      </ListItem>
+                    ))}
+                  </List>
+                )}
+              </Paper>
+            </Box>
+          )}
+          {boardDraft && (
+            <DraftBoard
+              activeDraft={boardDraft}
+              managers={managers}
+              playerNames={playerNames}
+            />
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
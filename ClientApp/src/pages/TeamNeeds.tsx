@@ -0,0 +1,352 @@
+import { useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  MenuItem,
+  Paper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  TextField,
+  Tooltip,
+  Typography
+} from '@mui/material';
+import { useQuery } from '@tanstack/react-query';
+import { useTheme } from '../contexts/ThemeContext';
+import { CategoryTotal, ProjectionSource, SummaryCategory, TeamSummary } from '../types/models';
+import { draftService } from '../services/draftService';
+import { managerService } from '../services/managerService';
+import { useAuth } from '../contexts/AuthContext';
+import { KeeperManagement } from '../components/admin/KeeperManagement';
+
+const RADAR_SIZE = 320;
+const RADAR_RADIUS = 120;
+const RADAR_RINGS = [0.25, 0.5, 0.75, 1];
+
+// Red for the league's worst total through green for its best
+const strengthColor = (strength: number, alpha = 1) => `hsla(${Math.round(strength * 120)}, 65%, 45%, ${alpha})`;
+
+const formatTotal = (total: number | null) => {
+  if (total === null) return '-';
+  // Batting average style stats read better without the leading zero
+  if (Math.abs(total) < 1) return total.toFixed(3).replace(/^0/, '');
+  return Math.abs(total) < 20 ? total.toFixed(2) : Math.round(total).toString();
+};
+
+const categoryLabel = (category: SummaryCategory, categories: SummaryCategory[]) =>
+  categories.filter(c => c.stat === category.stat).length > 1
+    ? `${category.stat} (${category.isPitching ? 'P' : 'H'})`
+    : category.stat;
+
+interface CategoryRadarProps {
+  categories: SummaryCategory[];
+  team: TeamSummary;
+  teams: TeamSummary[];
+  color: string;
+  gridColor: string;
+  labelColor: string;
+}
+
+/**
+ * Plots a team's category strengths against the league average.
+ * The edge of the chart is the best total in the league and the center is the worst.
+ */
+function CategoryRadar({ categories, team, teams, color, gridColor, labelColor }: CategoryRadarProps) {
+  const center = RADAR_SIZE / 2;
+  const angle = (index: number) => (Math.PI * 2 * index) / categories.length - Math.PI / 2;
+  const point = (index: number, value: number) => ({
+    x: center + Math.cos(angle(index)) * RADAR_RADIUS * value,
+    y: center + Math.sin(angle(index)) * RADAR_RADIUS * value
+  });
+  const polygon = (values: number[]) =>
+    values.map((value, index) => {
+      const { x, y } = point(index, value);
+      return `${x},${y}`;
+    }).join(' ');
+
+  const average = categories.map((_, index) =>
+    teams.reduce((sum, t) => sum + (t.totals[index]?.strength ?? 0), 0) / Math.max(teams.length, 1)
+  );
+
+  return (
+    <svg width={RADAR_SIZE} height={RADAR_SIZE} viewBox={`0 0 ${RADAR_SIZE} ${RADAR_SIZE}`}>
+      {RADAR_RINGS.map(ring => (
+        <polygon
+          key={ring}
+          points={polygon(categories.map(() => ring))}
+          fill="none"
+          stroke={gridColor}
+          strokeWidth={1}
+        />
+      ))}
+      {categories.map((category, index) => {
+        const edge = point(index, 1);
+        const label = point(index, 1.18);
+        return (
+          <g key={`${category.stat}-${category.isPitching}`}>
+            <line x1={center} y1={center} x2={edge.x} y2={edge.y} stroke={gridColor} strokeWidth={1} />
+            <text
+              x={label.x}
+              y={label.y}
+              fill={labelColor}
+              fontSize={12}
+              textAnchor="middle"
+              dominantBaseline="middle"
+            >
+              {categoryLabel(category, categories)}
+            </text>
+          </g>
+        );
+      })}
+      <polygon
+        points={polygon(average)}
+        fill="none"
+        stroke={labelColor}
+        strokeWidth={1}
+        strokeDasharray="4 4"
+      />
+      <polygon
+        points={polygon(team.totals.map(t => t.strength))}
+        fill={color}
+        fillOpacity={0.3}
+        stroke={color}
+        strokeWidth={2}
+      />
+      {team.totals.map((total, index) => {
+        const { x, y } = point(index, total.strength);
+        return <circle key={index} cx={x} cy={y} r={3} fill={color} />;
+      })}
+    </svg>
+  );
+}
+
+export function TeamNeeds() {
+  const { theme, mode } = useTheme();
+  const { isCommissioner } = useAuth();
+  const [managerId, setManagerId] = useState<string>('');
+  const [projectionSource, setProjectionSource] = useState<string>('');
+
+  const { data: managersResponse } = useQuery({
+    queryKey: ['managers'],
+    queryFn: () => managerService.getAll(),
+    staleTime: 0
+  });
+
+  const { data: summariesResponse, isLoading, error } = useQuery({
+    queryKey: ['teamSummaries', projectionSource],
+    queryFn: () => draftService.getTeamSummaries(projectionSource || undefined),
+    staleTime: 0,
+    retry: false
+  });
+
+  const summaries = summariesResponse?.value;
+  const teams = useMemo(() => summaries?.teams ?? [], [summaries?.teams]);
+  const categories = summaries?.categories ?? [];
+
+  // Default to the user's own team, then whoever picks first
+  const userManagerId = managersResponse?.value.find(m => m.isUser)?.id;
+  const selectedTeam = teams.find(t => t.managerId === managerId)
+    ?? teams.find(t => t.managerId === userManagerId)
+    ?? teams[0];
+
+  const textPrimary = mode === 'light' ? theme.colors.text.primary.light : theme.colors.text.primary.dark;
+  const textSecondary = mode === 'light' ? theme.colors.text.secondary.light : theme.colors.text.secondary.dark;
+  const gridColor = mode === 'light' ? theme.colors.action.hover.light : theme.colors.action.hover.dark;
+  const selectedRow = mode === 'light' ? theme.colors.action.selected.light : theme.colors.action.selected.dark;
+  const paperSx = {
+    p: 3,
+    borderRadius: '16px',
+    bgcolor: mode === 'light' ? theme.colors.background.paper.light : theme.colors.background.paper.dark
+  };
+
+  const strongest = (totals: CategoryTotal[], best: boolean) =>
+    [...totals]
+      .filter(t => t.total !== null)
+      .sort((a, b) => best ? b.strength - a.strength : a.strength - b.strength)
+      .slice(0, 2)
+      .map(t => categoryLabel(categories[totals.indexOf(t)], categories));
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: 3,
+      p: 4,
+      minHeight: '100%',
+      bgcolor: mode === 'light' ? theme.colors.background.default.light : theme.colors.background.default.dark
+    }}>
+      <Box sx={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', gap: 2, flexWrap: 'wrap' }}>
+        <Typography variant="h4" sx={{ color: textPrimary }}>
+          Team Needs
+        </Typography>
+        <Box sx={{ display: 'flex', gap: 2 }}>
+          <TextField
+            select
+            label="Team"
+            size="small"
+            sx={{ minWidth: 200 }}
+            value={selectedTeam?.managerId ?? ''}
+            onChange={(e) => setManagerId(e.target.value)}
+            disabled={teams.length === 0}
+          >
+            {teams.map(team => (
+              <MenuItem key={team.managerId} value={team.managerId}>
+                {team.managerName}
+              </MenuItem>
+            ))}
+          </TextField>
+          <TextField
+            select
+            label="Projections"
+            size="small"
+            sx={{ minWidth: 160 }}
+            value={projectionSource || summaries?.projectionSource || ''}
+            onChange={(e) => setProjectionSource(e.target.value)}
+          >
+            {Object.values(ProjectionSource).map(source => (
+              <MenuItem key={source} value={source}>
+                {source}
+              </MenuItem>
+            ))}
+          </TextField>
+        </Box>
+      </Box>
+
+      {error && (
+        <Alert severity="error">
+          {error instanceof Error ? error.message : 'Error loading team summaries'}
+        </Alert>
+      )}
+
+      {isLoading ? (
+        <Box sx={{ display: 'flex', justifyContent: 'center', p: 4 }}>
+          <CircularProgress />
+        </Box>
+      ) : selectedTeam && (
+        <>
+          <Box sx={{ display: 'flex', gap: 3, flexWrap: 'wrap', alignItems: 'stretch' }}>
+            <Paper elevation={2} sx={{ ...paperSx, flex: 1, minWidth: 320 }}>
+              <Typography variant="h6" gutterBottom>
+                {selectedTeam.managerName}
+              </Typography>
+              <Typography variant="body2" sx={{ color: textSecondary, mb: 2 }}>
+                {selectedTeam.playerCount} players drafted
+                {selectedTeam.unprojectedCount > 0 && ` • ${selectedTeam.unprojectedCount} without ${summaries?.projectionSource} projections`}
+              </Typography>
+
+              <Typography variant="subtitle2" gutterBottom>Position Coverage</Typography>
+              <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 3 }}>
+                {selectedTeam.positions.map(position => (
+                  <Chip
+                    key={position.position}
+                    label={`${position.position} ${position.filled}/${position.target}`}
+                    size="small"
+                    color={position.filled >= position.target ? 'success' : position.filled > 0 ? 'warning' : 'default'}
+                    variant={position.filled >= position.target ? 'filled' : 'outlined'}
+                  />
+                ))}
+              </Box>
+
+              {selectedTeam.totals.some(t => t.total !== null) && (
+                <>
+                  <Typography variant="body2">
+                    <strong>Strengths:</strong> {strongest(selectedTeam.totals, true).join(', ')}
+                  </Typography>
+                  <Typography variant="body2">
+                    <strong>Needs:</strong> {strongest(selectedTeam.totals, false).join(', ')}
+                  </Typography>
+                </>
+              )}
+            </Paper>
+
+            <Paper elevation={2} sx={{ ...paperSx, display: 'flex', flexDirection: 'column', alignItems: 'center' }}>
+              <Typography variant="subtitle2" sx={{ alignSelf: 'flex-start' }}>
+                Category Strength
+              </Typography>
+              <Typography variant="caption" sx={{ color: textSecondary, alignSelf: 'flex-start' }}>
+                Outer edge is the league's best total; dashed line is the league average
+              </Typography>
+              {categories.length > 0 && (
+                <CategoryRadar
+                  categories={categories}
+                  team={selectedTeam}
+                  teams={teams}
+                  color={theme.colors.primary.main}
+                  gridColor={gridColor}
+                  labelColor={textSecondary}
+                />
+              )}
+            </Paper>
+          </Box>
+
+          <Paper elevation={2} sx={paperSx}>
+            <Typography variant="h6" gutterBottom>League Standings by Category</Typography>
+            <Typography variant="body2" sx={{ color: textSecondary, mb: 2 }}>
+              Projected totals for every drafted roster, shaded from the league's worst (red) to best (green).
+              Select a row to chart that team.
+            </Typography>
+            <TableContainer>
+              <Table size="small">
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Team</TableCell>
+                    <TableCell align="right">Players</TableCell>
+                    {categories.map(category => (
+                      <TableCell key={`${category.stat}-${category.isPitching}`} align="center">
+                        {categoryLabel(category, categories)}
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {teams.map(team => (
+                    <TableRow
+                      key={team.managerId}
+                      hover
+                      onClick={() => setManagerId(team.managerId)}
+                      sx={{
+                        cursor: 'pointer',
+                        bgcolor: team.managerId === selectedTeam.managerId ? selectedRow : undefined
+                      }}
+                    >
+                      <TableCell sx={{ fontWeight: team.managerId === selectedTeam.managerId ? 600 : 400 }}>
+                        {team.managerName}
+                      </TableCell>
+                      <TableCell align="right">{team.playerCount}</TableCell>
+                      {team.totals.map((total, index) => (
+                        <Tooltip
+                          key={index}
+                          title={total.total === null ? 'No projections' : `Rank ${total.rank} of ${teams.length}`}
+                        >
+                          <TableCell
+                            align="center"
+                            sx={{ bgcolor: total.total === null ? undefined : strengthColor(total.strength, 0.35) }}
+                          >
+                            {formatTotal(total.total)}
+                            {total.total !== null && (
+                              <Typography component="span" variant="caption" sx={{ color: textSecondary, ml: 0.5 }}>
+                                ({total.rank})
+                              </Typography>
+                            )}
+                          </TableCell>
+                        </Tooltip>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </TableContainer>
+          </Paper>
+        </>
+      )}
+
+      {/* Commissioners keep players for every team from the admin panel */}
+      {!isCommissioner && <KeeperManagement />}
+    </Box>
+  );
+}
@@ -1,6 +1,18 @@
 const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:5246';
 const IS_PRODUCTION = import.meta.env.PROD;
 const API_TIMEOUT = 10000; // 10 seconds
+const LEAGUE_STORAGE_KEY = 'leagueId';
+const LEAGUE_HEADER = 'X-League-Id';
+
+// League every request works in; the server uses its default league when none is chosen
+let leagueId: string | null = localStorage.getItem(LEAGUE_STORAGE_KEY);
+
+function leagueHeaders(): Record<string, string> {
+  return leagueId ? { [LEAGUE_HEADER]: leagueId } : {};
+}
+
+// Called when the server says the session is gone, so the app can show the sign-in page
+let onUnauthorized: (() => void) | null = null;
 
 export class ApiError extends Error {
   constructor(
@@ -26,6 +38,10 @@ function timeout(ms: number): Promise<never> {
 }
 
 async function handleResponse<T>(response: Response): Promise<T> {
+  if (response.status === 401) {
+    onUnauthorized?.();
+  }
+
   if (!response.ok) {
     let errorMessage = response.statusText;
     let errorData;
@@ -62,7 +78,7 @@ export const apiClient = {
   get: async <T>(endpoint: string): Promise<T> => {
     const url = getApiUrl(endpoint);
     const response = await Promise.race([
-      fetch(url),
+      fetch(url, { headers: leagueHeaders(), credentials: 'include' }),
       timeout(API_TIMEOUT)
     ]);
     return handleResponse<T>(response);
@@ -75,8 +91,10 @@ export const apiClient = {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
+          ...leagueHeaders(),
         },
         body: data ? JSON.stringify(data) : undefined,
+        credentials: 'include',
       }),
       timeout(API_TIMEOUT)
     ]);
@@ -90,8 +108,10 @@ export const apiClient = {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
+          ...leagueHeaders(),
         },
         body: data ? JSON.stringify(data) : undefined,
+        credentials: 'include',
       }),
       timeout(API_TIMEOUT)
     ]);
@@ -103,6 +123,8 @@ export const apiClient = {
     const response = await Promise.race([
       fetch(url, {
         method: 'DELETE',
+        headers: leagueHeaders(),
+        credentials: 'include',
       }),
       timeout(API_TIMEOUT)
     ]);
@@ -114,10 +136,37 @@ export const apiClient = {
     const response = await Promise.race([
       fetch(url, {
         method: 'POST',
+        headers: leagueHeaders(),
         body: formData,
+        credentials: 'include',
       }),
       timeout(API_TIMEOUT)
     ]);
     return handleResponse<T>(response);
   },
+
+  // Long-lived server-sent event stream; no timeout applies. EventSource can't send headers,
+  // so the league goes in the query string.
+  eventSource: (endpoint: string): EventSource => {
+    const url = getApiUrl(endpoint);
+    if (!leagueId) return new EventSource(url, { withCredentials: true });
+    const separator = url.includes('?') ? '&' : '?';
+    return new EventSource(`${url}${separator}leagueId=${encodeURIComponent(leagueId)}`, { withCredentials: true });
+  },
+
+  setUnauthorizedHandler: (handler: (() => void) | null) => {
+    onUnauthorized = handler;
+  },
+
+  getLeagueId: (): string | null => leagueId,
+
+  // Switches every later request to another league, or back to the server's default with null
+  setLeagueId: (id: string | null) => {
+    leagueId = id;
+    if (id) {
+      localStorage.setItem(LEAGUE_STORAGE_KEY, id);
+    } else {
+      localStorage.removeItem(LEAGUE_STORAGE_KEY);
+    }
+  },
 };
@@ -0,0 +1,50 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, AuctionStatus } from '../types/models';
+
+const BASE_PATH = '/auction';
+
+export const auctionService = {
+  /**
+   * Retrieves budgets, the next nominator and the player up for bids in the active draft
+   * @returns Promise containing the auction status, or null if the active draft isn't an auction
+   */
+  getStatus: () =>
+    apiClient.get<ApiResponse<AuctionStatus | null>>(BASE_PATH),
+
+  /**
+   * Puts a player up for bids. Only the manager whose turn it is can nominate.
+   * @param managerId - The nominating manager
+   * @param playerId - The player being nominated
+   * @param openingBid - The nominating manager's opening bid
+   */
+  nominate: (managerId: string, playerId: string, openingBid: number) =>
+    apiClient.post<ApiResponse<AuctionStatus>>(`${BASE_PATH}/nominate`, { managerId, playerId, openingBid }),
+
+  /**
+   * Raises the high bid on the player up for bids
+   * @param managerId - The bidding manager
+   * @param amount - The new high bid; can't be more than the manager's max bid
+   */
+  bid: (managerId: string, amount: number) =>
+    apiClient.post<ApiResponse<AuctionStatus>>(`${BASE_PATH}/bid`, { managerId, amount }),
+
+  /**
+   * Sells the player up for bids to the high bidder, filling the winner's earliest open pick
+   */
+  closeLot: () =>
+    apiClient.post<ApiResponse<AuctionStatus>>(`${BASE_PATH}/close`),
+
+  /**
+   * Takes the player up for bids off the block; the nominating manager keeps their turn
+   */
+  cancelLot: () =>
+    apiClient.delete<ApiResponse<AuctionStatus>>(`${BASE_PATH}/lot`),
+
+  /**
+   * Sets a manager's total auction budget
+   * @param managerId - The manager whose budget changes
+   * @param budget - The new total budget; can't be less than they've spent
+   */
+  updateBudget: (managerId: string, budget: number) =>
+    apiClient.put<ApiResponse<AuctionStatus>>(`${BASE_PATH}/budget/${managerId}`, { budget })
+};
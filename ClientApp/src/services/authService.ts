@@ -0,0 +1,39 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, Manager, UserAccount } from '../types/models';
+
+const BASE_PATH = '/auth';
+
+export interface AuthStatus extends ApiResponse<UserAccount | null> {
+  manager: Manager | null;
+  setupRequired: boolean;
+  providers: string[];
+}
+
+export const authService = {
+  /**
+   * Retrieves the signed-in account, if any
+   * @returns Promise containing the account (null when signed out), its manager in the current league,
+   * whether the first account still needs creating, and the login providers
+   */
+  getStatus: () =>
+    apiClient.get<AuthStatus>(`${BASE_PATH}/me`),
+
+  /**
+   * Signs in; the server sets the session cookie
+   * @param provider - Login provider to check the credentials with; the server uses local sign-in when omitted
+   */
+  login: (username: string, password: string, provider?: string) =>
+    apiClient.post<ApiResponse<UserAccount>>(`${BASE_PATH}/login`, { username, password, provider }),
+
+  /**
+   * Creates the first account as a commissioner and signs in with it. Only works before any account exists.
+   */
+  setup: (username: string, password: string) =>
+    apiClient.post<ApiResponse<UserAccount>>(`${BASE_PATH}/setup`, { username, password }),
+
+  /**
+   * Signs out and clears the session cookie
+   */
+  logout: () =>
+    apiClient.post<{ message: string }>(`${BASE_PATH}/logout`)
+};
@@ -0,0 +1,254 @@
+import { QueryClient } from '@tanstack/react-query';
+import { apiClient } from './apiClient';
+import { ApiResponse, AuctionStatus, Draft, PaginatedResult, PickClockStatus, Player, Trade } from '../types/models';
+import { config } from '../config/config';
+
+export enum DraftEventType {
+  PickMade = 'pick-made',
+  PickUndone = 'pick-undone',
+  ActivePickChanged = 'active-pick-changed',
+  TradeCreated = 'trade-created',
+  TradeUpdated = 'trade-updated',
+  RoundAdded = 'round-added',
+  RoundRemoved = 'round-removed',
+  DraftReset = 'draft-reset',
+  HistoryChanged = 'history-changed',
+  ClockChanged = 'clock-changed',
+  QueueChanged = 'queue-changed',
+  KeepersChanged = 'keepers-changed',
+  AuctionChanged = 'auction-changed'
+}
+
+export interface DraftEventPayload {
+  draft?: Draft | null;
+  player?: Player | null;
+  trade?: Trade;
+  overallPickNumber?: number;
+  managerId?: string;
+  clock?: PickClockStatus | null;
+  auction?: AuctionStatus | null;
+}
+
+export interface DraftEvent {
+  type: DraftEventType;
+  leagueId: string;
+  timestamp: string;
+  payload: DraftEventPayload;
+}
+
+const RECONNECT_DELAY = 3000;
+
+/**
+ * Keeps the react-query cache in sync with draft changes made on other clients.
+ * Listens to the server's draft event stream and patches cached queries in place,
+ * falling back to invalidation where a patch can't reproduce server-side filtering.
+ */
+export class DraftEventsService {
+  private source: EventSource | null = null;
+  private queryClient: QueryClient | null = null;
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private listeners: ((event: DraftEvent) => void)[] = [];
+
+  connect(queryClient: QueryClient) {
+    this.queryClient = queryClient;
+    if (this.source) return;
+
+    this.source = apiClient.eventSource('/draft/events');
+
+    Object.values(DraftEventType).forEach(type => {
+      this.source!.addEventListener(type, (message: MessageEvent) => {
+        this.handleMessage(message);
+      });
+    });
+
+    this.source.onerror = () => {
+      // EventSource retries on its own unless the server closed the stream for good
+      if (this.source?.readyState === EventSource.CLOSED) {
+        this.source = null;
+        this.scheduleReconnect();
+      }
+    };
+  }
+
+  disconnect() {
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.source?.close();
+    this.source = null;
+    this.queryClient = null;
+  }
+
+  isConnected(): boolean {
+    return this.source?.readyState === EventSource.OPEN;
+  }
+
+  addListener(callback: (event: DraftEvent) => void) {
+    this.listeners.push(callback);
+  }
+
+  removeListener(callback: (event: DraftEvent) => void) {
+    const index = this.listeners.indexOf(callback);
+    if (index > -1) {
+      this.listeners.splice(index, 1);
+    }
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectTimeout || !this.queryClient) return;
+
+    const queryClient = this.queryClient;
+    this.reconnectTimeout = setTimeout(() => {
+      this.reconnectTimeout = null;
+      this.connect(queryClient);
+      // Anything could have changed while we were disconnected
+      queryClient.invalidateQueries({ queryKey: ['activeDraft'] });
+      queryClient.invalidateQueries({ queryKey: ['currentPick'] });
+      queryClient.invalidateQueries({ queryKey: ['players'] });
+    }, RECONNECT_DELAY);
+  }
+
+  private handleMessage(message: MessageEvent) {
+    let event: DraftEvent;
+    try {
+      event = JSON.parse(message.data);
+    } catch (error) {
+      console.error('Failed to parse draft event', error);
+      return;
+    }
+
+    if (config.debug.enableConsoleLogging) {
+      console.log('Draft event received:', event.type, event.payload);
+    }
+
+    this.applyToCache(event);
+    this.listeners.forEach(listener => listener(event));
+  }
+
+  private applyToCache(event: DraftEvent) {
+    const queryClient = this.queryClient;
+    if (!queryClient) return;
+
+    const { draft, player, clock, auction } = event.payload ?? {};
+
+    if (draft) {
+      this.patchDraft(queryClient, draft);
+      if (event.type !== DraftEventType.TradeCreated && event.type !== DraftEventType.ClockChanged) {
+        queryClient.invalidateQueries({ queryKey: ['draftHistory', draft.id] });
+      }
+    }
+
+    switch (event.type) {
+      case DraftEventType.PickMade:
+      case DraftEventType.PickUndone:
+        if (player) {
+          this.patchPlayer(queryClient, player);
+        }
+        // Search results are filtered and sorted server-side, so refetch to reconcile
+        queryClient.invalidateQueries({ queryKey: ['players'] });
+        queryClient.invalidateQueries({ queryKey: ['currentPick'] });
+        // Drafted players drop out of every queue
+        queryClient.invalidateQueries({ queryKey: ['managerQueue'] });
+        queryClient.invalidateQueries({ queryKey: ['recommendations'] });
+        queryClient.invalidateQueries({ queryKey: ['teamSummaries'] });
+        // Spend follows the prices on drafted players
+        queryClient.invalidateQueries({ queryKey: ['auction'] });
+        break;
+      case DraftEventType.ActivePickChanged:
+        queryClient.invalidateQueries({ queryKey: ['currentPick'] });
+        queryClient.invalidateQueries({ queryKey: ['recommendations'] });
+        break;
+      case DraftEventType.TradeCreated:
+        queryClient.invalidateQueries({ queryKey: ['trades'] });
+        queryClient.invalidateQueries({ queryKey: ['canCancelTrades'] });
+        queryClient.invalidateQueries({ queryKey: ['tradeDependencies'] });
+        // A traded pick changes who the active pick belongs to
+        queryClient.invalidateQueries({ queryKey: ['recommendations'] });
+        // Traded players change rosters
+        queryClient.invalidateQueries({ queryKey: ['players'] });
+        queryClient.invalidateQueries({ queryKey: ['teamSummaries'] });
+        queryClient.invalidateQueries({ queryKey: ['futurePicks'] });
+        queryClient.invalidateQueries({ queryKey: ['managerPicks'] });
+        queryClient.invalidateQueries({ queryKey: ['auction'] });
+        break;
+      case DraftEventType.TradeUpdated:
+        // Proposals and responses don't move anything until the trade completes
+        queryClient.invalidateQueries({ queryKey: ['trades'] });
+        queryClient.invalidateQueries({ queryKey: ['canCancelTrades'] });
+        queryClient.invalidateQueries({ queryKey: ['tradeDependencies'] });
+        // but cancelling a completed trade hands its picks back
+        queryClient.invalidateQueries({ queryKey: ['managerPicks'] });
+        break;
+      case DraftEventType.RoundAdded:
+      case DraftEventType.RoundRemoved:
+        queryClient.invalidateQueries({ queryKey: ['drafts'] });
+        // Rounds are roster spots, which cap what a manager can bid
+        queryClient.invalidateQueries({ queryKey: ['auction'] });
+        break;
+      case DraftEventType.DraftReset:
+      case DraftEventType.HistoryChanged:
+        queryClient.invalidateQueries({ queryKey: ['currentPick'] });
+        queryClient.invalidateQueries({ queryKey: ['players'] });
+        queryClient.invalidateQueries({ queryKey: ['recommendations'] });
+        queryClient.invalidateQueries({ queryKey: ['teamSummaries'] });
+        break;
+      case DraftEventType.KeepersChanged:
+        if (player) {
+          this.patchPlayer(queryClient, player);
+        }
+        queryClient.invalidateQueries({ queryKey: ['keepers'] });
+        queryClient.invalidateQueries({ queryKey: ['keeperCandidates'] });
+        queryClient.invalidateQueries({ queryKey: ['players'] });
+        queryClient.invalidateQueries({ queryKey: ['currentPick'] });
+        queryClient.invalidateQueries({ queryKey: ['recommendations'] });
+        queryClient.invalidateQueries({ queryKey: ['teamSummaries'] });
+        queryClient.invalidateQueries({ queryKey: ['auction'] });
+        break;
+      case DraftEventType.QueueChanged:
+        queryClient.invalidateQueries({ queryKey: ['managerQueue', event.payload.managerId] });
+        break;
+      case DraftEventType.AuctionChanged:
+        queryClient.setQueryData<ApiResponse<AuctionStatus | null>>(['auction'], { value: auction ?? null });
+        break;
+      case DraftEventType.ClockChanged:
+        if (clock) {
+          queryClient.setQueryData<ApiResponse<PickClockStatus | null>>(['pickClock'], { value: clock });
+        }
+        break;
+    }
+  }
+
+  private patchDraft(queryClient: QueryClient, draft: Draft) {
+    const current = queryClient.getQueryData<ApiResponse<Draft>>(['activeDraft']);
+
+    if (draft.isActive) {
+      queryClient.setQueryData<ApiResponse<Draft>>(['activeDraft'], {
+        ...current,
+        value: draft
+      } as ApiResponse<Draft>);
+    } else if (current?.value?.id === draft.id) {
+      queryClient.invalidateQueries({ queryKey: ['activeDraft'] });
+    }
+
+    queryClient.setQueryData<ApiResponse<Draft[]>>(['drafts'], old => old && {
+      ...old,
+      value: old.value.map(d => d.id === draft.id ? draft : d)
+    });
+  }
+
+  private patchPlayer(queryClient: QueryClient, player: Player) {
+    const replace = (players: Player[]) => players.map(p => p.id === player.id ? player : p);
+
+    // ['players'] holds plain arrays (board) as well as paginated search results
+    queryClient.setQueriesData<Player[] | PaginatedResult<Player>>({ queryKey: ['players'] }, old => {
+      if (!old) return old;
+      if (Array.isArray(old)) return replace(old);
+      if (Array.isArray(old.items)) return { ...old, items: replace(old.items) };
+      return old;
+    });
+  }
+}
+
+// Create a singleton instance
+export const draftEventsService = new DraftEventsService();
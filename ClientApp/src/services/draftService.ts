@@ -1,5 +1,18 @@
 import { apiClient } from './apiClient';
-import { ApiResponse, Draft, DraftPosition } from '../types/models';
+import {
+  ApiResponse,
+  Draft,
+  DraftHistoryEntry,
+  DraftOrderStrategy,
+  DraftPosition,
+  PickClockExpiryPolicy,
+  PickClockStatus,
+  RecommendationOptions,
+  RecommendationResult,
+  RoundClockOverride,
+  RoundOrder,
+  TeamSummaryResult
+} from '../types/models';
 
 /**
  * Response type for pick information
@@ -60,17 +73,23 @@ export const draftService = {
    * Creates a new draft with specified settings
    * @param params.year - Draft year
    * @param params.type - Type of draft
-   * @param params.isSnakeDraft - Whether to use snake draft ordering
+   * @param params.orderStrategy - How pick order changes from round to round
+   * @param params.customRoundOrders - Rounds with their own order when the strategy is Custom
    * @param params.initialRounds - Number of rounds to create initially
    * @param params.draftOrder - Array defining the draft order
+   * @param params.lotteryId - Lottery whose results set the draft order in place of draftOrder
+   * @param params.auction - Budget and minimum bid when players are bought at auction instead of picked in order
    * @returns Promise containing the newly created draft
    */
   createDraft: (params: {
     year: number;
     type: string;
-    isSnakeDraft: boolean;
+    orderStrategy: DraftOrderStrategy;
+    customRoundOrders?: RoundOrder[];
     initialRounds: number;
     draftOrder: DraftPosition[];
+    lotteryId?: string;
+    auction?: { budget: number; minimumBid: number };
   }) => apiClient.post<ApiResponse<Draft>>('/draft', params),
 
   /**
@@ -150,6 +169,108 @@ export const draftService = {
   toggleActive: (draftId: string) =>
     apiClient.post<ApiResponse<Draft>>(`/draft/${draftId}/toggleActive`),
 
+  /**
+   * Retrieves the event log for a draft, newest first
+   * @param draftId - ID of the draft
+   * @param limit - Maximum number of entries to return
+   * @returns Promise containing the draft history entries
+   */
+  getHistory: (draftId: string, limit: number = 50) =>
+    apiClient.get<ApiResponse<DraftHistoryEntry[]>>(`/draft/${draftId}/history?limit=${limit}`),
+
+  /**
+   * Reverts the most recent draft actions as one operation
+   * Restores pick completion, pick state and player draft statuses
+   * @param draftId - ID of the draft
+   * @param count - Number of actions to undo
+   * @returns Promise containing the updated draft
+   */
+  undo: (draftId: string, count: number = 1) =>
+    apiClient.post<ApiResponse<Draft>>(`/draft/${draftId}/undo`, { count }),
+
+  /**
+   * Re-applies previously undone draft actions as one operation
+   * @param draftId - ID of the draft
+   * @param count - Number of actions to redo
+   * @returns Promise containing the updated draft
+   */
+  redo: (draftId: string, count: number = 1) =>
+    apiClient.post<ApiResponse<Draft>>(`/draft/${draftId}/redo`, { count }),
+
+  /**
+   * Retrieves the pick clock status for the active draft
+   * @returns Promise containing the clock status, or null if there is no active draft
+   */
+  getPickClock: () =>
+    apiClient.get<ApiResponse<PickClockStatus | null>>('/draft/clock'),
+
+  /**
+   * Suggests the best available players for the active pick
+   * @param options - Sources to blend into the score and the manager to suggest for
+   * @returns Promise containing the top suggestions with the reasons for each
+   */
+  getRecommendations: (options: RecommendationOptions) => {
+    const params = new URLSearchParams();
+    options.rankingSources?.forEach(source => params.append('rankingSources', source));
+    if (options.prospectSource) params.append('prospectSource', options.prospectSource);
+    if (options.projectionSource && options.projectionCategory) {
+      params.append('projectionSource', options.projectionSource);
+      params.append('projectionCategory', options.projectionCategory);
+    }
+    if (options.includePersonalRank !== undefined) {
+      params.append('includePersonalRank', options.includePersonalRank ? 'true' : 'false');
+    }
+    if (options.managerId) params.append('managerId', options.managerId);
+    if (options.count) params.append('count', options.count.toString());
+
+    return apiClient.get<ApiResponse<RecommendationResult>>(`/draft/recommendations?${params.toString()}`);
+  },
+
+  /**
+   * Summarizes every manager's roster in the active draft: position coverage and projected category totals
+   * ranked against the other managers
+   * @param projectionSource - Projections to total; defaults to the league's value projections
+   * @returns Promise containing a summary per manager
+   */
+  getTeamSummaries: (projectionSource?: string) => {
+    const params = new URLSearchParams();
+    if (projectionSource) params.append('projectionSource', projectionSource);
+    return apiClient.get<ApiResponse<TeamSummaryResult>>(`/draft/team-summaries?${params.toString()}`);
+  },
+
+  /**
+   * Configures the pick clock for a draft
+   * A newly enabled clock starts paused
+   * @param draftId - ID of the draft
+   * @param params.resetTimeBanks - Refill every manager's time bank to timeBankSeconds
+   * @returns Promise containing the updated clock status
+   */
+  updatePickClock: (draftId: string, params: {
+    enabled: boolean;
+    secondsPerPick: number;
+    roundOverrides: RoundClockOverride[];
+    timeBankSeconds: number;
+    expiryPolicy: PickClockExpiryPolicy;
+    resetTimeBanks?: boolean;
+  }) =>
+    apiClient.put<ApiResponse<PickClockStatus>>(`/draft/${draftId}/clock`, params),
+
+  /**
+   * Pauses the pick clock, keeping the time already used on the current pick
+   * @param draftId - ID of the draft
+   * @returns Promise containing the updated clock status
+   */
+  pauseClock: (draftId: string) =>
+    apiClient.post<ApiResponse<PickClockStatus>>(`/draft/${draftId}/clock/pause`),
+
+  /**
+   * Resumes a paused pick clock
+   * @param draftId - ID of the draft
+   * @returns Promise containing the updated clock status
+   */
+  resumeClock: (draftId: string) =>
+    apiClient.post<ApiResponse<PickClockStatus>>(`/draft/${draftId}/clock/resume`),
+
   /**
    * Retrieves the draft order for the active draft
    * Returns the ordered list of managers and their positions
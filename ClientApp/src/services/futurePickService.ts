@@ -0,0 +1,29 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, FuturePick } from '../types/models';
+
+const BASE_PATH = '/futurepick';
+
+export const futurePickService = {
+  /**
+   * Retrieves picks in drafts that haven't been created yet, by year then round
+   */
+  getLedger: () =>
+    apiClient.get<ApiResponse<FuturePick[]>>(BASE_PATH),
+
+  /**
+   * Adds a future year's picks, one per round for every manager in the active draft's order.
+   * Picks that already exist are kept, so this can also add rounds to a year.
+   * @param year - The draft year
+   * @param rounds - How many rounds of picks to track
+   * @returns Promise containing all of the year's picks
+   */
+  createYear: (year: number, rounds: number) =>
+    apiClient.post<ApiResponse<FuturePick[]>>(BASE_PATH, { year, rounds }),
+
+  /**
+   * Removes a year from the ledger. Fails if any of its picks have been traded.
+   * @param year - The draft year
+   */
+  deleteYear: (year: number) =>
+    apiClient.delete<void>(`${BASE_PATH}/${year}`)
+};
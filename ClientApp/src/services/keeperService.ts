@@ -0,0 +1,37 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, Keeper, KeeperCandidate } from '../types/models';
+
+const BASE_PATH = '/keeper';
+
+export const keeperService = {
+  /**
+   * Retrieves the players kept in the active draft, in pick order
+   */
+  getKeepers: () =>
+    apiClient.get<ApiResponse<Keeper[]>>(BASE_PATH),
+
+  /**
+   * Retrieves the players a manager held after their most recent prior draft and can keep now
+   * @param managerId - The manager choosing keepers
+   */
+  getCandidates: (managerId: string) =>
+    apiClient.get<ApiResponse<KeeperCandidate[]>>(`${BASE_PATH}/candidates/${managerId}`),
+
+  /**
+   * Keeps a player, filling one of the manager's open picks in the active draft.
+   * Only allowed before the first regular pick is made.
+   * @param playerId - The player being kept
+   * @param managerId - The manager keeping them
+   * @param round - The round whose pick the keeper costs; the manager's last open pick when omitted
+   * @returns Promise containing the keeper and the pick it filled
+   */
+  addKeeper: (playerId: string, managerId: string, round?: number) =>
+    apiClient.post<ApiResponse<Keeper>>(BASE_PATH, { playerId, managerId, round }),
+
+  /**
+   * Releases a keeper into the draft pool and reopens the pick it filled
+   * @param playerId - The kept player
+   */
+  removeKeeper: (playerId: string) =>
+    apiClient.delete<void>(`${BASE_PATH}/${playerId}`)
+};
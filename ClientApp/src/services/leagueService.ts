@@ -0,0 +1,32 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, League } from '../types/models';
+
+const BASE_PATH = '/league';
+
+export const leagueService = {
+  /**
+   * Retrieves every league, oldest first
+   * @returns Promise containing the leagues and the id of the default league used when none is chosen
+   */
+  getAll: () =>
+    apiClient.get<ApiResponse<League[]> & { defaultLeagueId: string | null }>(BASE_PATH),
+
+  /**
+   * Creates a league with no managers or drafts and default settings
+   * @param name - Unique name for the league
+   */
+  create: (name: string) =>
+    apiClient.post<ApiResponse<League>>(BASE_PATH, { name }),
+
+  /**
+   * Renames a league
+   */
+  rename: (id: string, name: string) =>
+    apiClient.put<ApiResponse<League>>(`${BASE_PATH}/${id}`, { name }),
+
+  /**
+   * Deletes a league; only leagues without managers or drafts can be deleted, and never the default
+   */
+  delete: (id: string) =>
+    apiClient.delete<{ message: string }>(`${BASE_PATH}/${id}`)
+};
@@ -0,0 +1,24 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, DraftLottery, LotteryEntry } from '../types/models';
+
+const BASE_PATH = '/lottery';
+
+export const lotteryService = {
+  /**
+   * Retrieves past draft lotteries, newest first
+   * @param year - Only lotteries for this draft year, if set
+   */
+  getAll: (year?: number) =>
+    apiClient.get<ApiResponse<DraftLottery[]>>(year ? `${BASE_PATH}?year=${year}` : BASE_PATH),
+
+  /**
+   * Runs a draft lottery and records its seed and results
+   * @param params.year - The draft year the order is for
+   * @param params.seed - Seed for the drawing; leave out for a random one, or reuse one to rerun a lottery
+   * @param params.draws - How many slots are drawn
+   * @param params.entries - Every manager's standing and odds of landing each drawn slot
+   * @returns Promise containing the lottery with its results in slot order
+   */
+  run: (params: { year: number; seed?: number; draws: number; entries: LotteryEntry[] }) =>
+    apiClient.post<ApiResponse<DraftLottery>>(BASE_PATH, params)
+};
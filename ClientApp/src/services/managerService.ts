@@ -1,5 +1,5 @@
 import { apiClient } from './apiClient';
-import { Manager, ApiResponse } from '../types/models';
+import { Manager, ApiResponse, PickOwnership, Player } from '../types/models';
 
 class ManagerService {
     private baseUrl = 'manager';
@@ -23,6 +23,26 @@ class ManagerService {
     async delete(id: string): Promise<void> {
         await apiClient.delete(`${this.baseUrl}/${id}`);
     }
+
+    async getPicks(id: string): Promise<ApiResponse<PickOwnership[]>> {
+        return await apiClient.get(`${this.baseUrl}/${id}/picks`);
+    }
+
+    async getQueue(id: string): Promise<ApiResponse<Player[]>> {
+        return await apiClient.get(`${this.baseUrl}/${id}/queue`);
+    }
+
+    async setQueue(id: string, playerIds: string[]): Promise<ApiResponse<Player[]>> {
+        return await apiClient.put(`${this.baseUrl}/${id}/queue`, { playerIds });
+    }
+
+    async addToQueue(id: string, playerId: string): Promise<ApiResponse<Player[]>> {
+        return await apiClient.post(`${this.baseUrl}/${id}/queue/${playerId}`);
+    }
+
+    async removeFromQueue(id: string, playerId: string): Promise<ApiResponse<Player[]>> {
+        return await apiClient.delete(`${this.baseUrl}/${id}/queue/${playerId}`);
+    }
 }
 
 export const managerService = new ManagerService();
@@ -0,0 +1,44 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, MockDraft, RankingSource } from '../types/models';
+
+const BASE_PATH = '/mockdraft';
+
+export const mockDraftService = {
+  /**
+   * Retrieves the most recent mock drafts, newest first
+   */
+  getRecent: () =>
+    apiClient.get<ApiResponse<MockDraft[]>>(BASE_PATH),
+
+  /**
+   * Retrieves a mock draft by ID
+   * @param id - The mock draft ID
+   */
+  getById: (id: string) =>
+    apiClient.get<ApiResponse<MockDraft>>(`${BASE_PATH}/${id}`),
+
+  /**
+   * Starts a mock draft from the active draft's order and rounds
+   * @param params.userManagerId - Manager the user drafts as; defaults to the user manager
+   * @param params.rankingSource - Ranking the simulated managers draft from
+   * @param params.randomness - How far, in ranking spots, simulated managers stray from the ranking
+   * @returns Promise containing the mock draft, simulated up to the user's first pick
+   */
+  create: (params: { userManagerId?: string; rankingSource: RankingSource; randomness: number }) =>
+    apiClient.post<ApiResponse<MockDraft>>(BASE_PATH, params),
+
+  /**
+   * Makes the user's pick, after which the other managers are simulated up to the user's next pick
+   * @param id - The mock draft ID
+   * @param playerId - The player to pick
+   */
+  makePick: (id: string, playerId: string) =>
+    apiClient.post<ApiResponse<MockDraft>>(`${BASE_PATH}/${id}/pick`, { playerId }),
+
+  /**
+   * Deletes a mock draft
+   * @param id - The mock draft ID
+   */
+  delete: (id: string) =>
+    apiClient.delete<ApiResponse<boolean>>(`${BASE_PATH}/${id}`)
+};
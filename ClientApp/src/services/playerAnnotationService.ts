@@ -0,0 +1,55 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, BigBoardEntry, BigBoardPlayer, PlayerAnnotation, RankingSource, SharedPlayerNote } from '../types/models';
+
+const BASE_PATH = '/playerannotation';
+
+export interface PlayerAnnotationUpdate {
+  notes: string | null;
+  personalRank: number | null;
+  starsRating: number | null;
+  isNoteShared: boolean;
+}
+
+export const playerAnnotationService = {
+  /**
+   * Retrieves the signed-in account's highlights, notes, stars and personal ranks in the current league
+   */
+  getMine: () =>
+    apiClient.get<ApiResponse<PlayerAnnotation[]>>(BASE_PATH),
+
+  /**
+   * Retrieves notes others in the league have shared on a player, newest first
+   */
+  getSharedNotes: (playerId: string) =>
+    apiClient.get<ApiResponse<SharedPlayerNote[]>>(`${BASE_PATH}/${playerId}/shared`),
+
+  /**
+   * Highlights a player for the signed-in account, or removes the highlight
+   */
+  toggleHighlight: (playerId: string) =>
+    apiClient.post<ApiResponse<PlayerAnnotation>>(`${BASE_PATH}/${playerId}/toggleHighlight`),
+
+  /**
+   * Sets the signed-in account's notes, stars and personal rank on a player; the highlight is kept
+   */
+  update: (playerId: string, update: PlayerAnnotationUpdate) =>
+    apiClient.put<ApiResponse<PlayerAnnotation>>(`${BASE_PATH}/${playerId}`, update),
+
+  /**
+   * Retrieves the signed-in account's big board, best first
+   */
+  getBigBoard: () =>
+    apiClient.get<ApiResponse<BigBoardPlayer[]>>(`${BASE_PATH}/bigboard`),
+
+  /**
+   * Saves the whole big board; players are ranked in the order given and anyone left off is unranked
+   */
+  saveBigBoard: (players: BigBoardEntry[]) =>
+    apiClient.put<ApiResponse<BigBoardPlayer[]>>(`${BASE_PATH}/bigboard`, { players }),
+
+  /**
+   * Replaces the big board with a ranking source's top players, all in one tier
+   */
+  seedBigBoard: (source: RankingSource, count: number) =>
+    apiClient.post<ApiResponse<BigBoardPlayer[]>>(`${BASE_PATH}/bigboard/seed`, { source, count })
+};
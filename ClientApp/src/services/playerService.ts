@@ -8,7 +8,7 @@ import {
   BirthDateVerificationResult,
   PaginatedResult,
   PositionUpdateResult,
-  RankingSource,
+  RankingChoice,
   ProspectSource
 } from '../types/models';
 
@@ -29,7 +29,7 @@ export interface PlayerFilters {
   position?: string;
   sortField?: string;
   sortDescending?: boolean;
-  rankingSource?: RankingSource | null;
+  rankingSource?: RankingChoice | null;
   prospectSource?: ProspectSource | null;
   projectionConfig?: {
     source: string | null;
@@ -77,6 +77,14 @@ const playerService = {
     apiClient.get<ApiResponse<PaginatedResult<Player>>>(`${BASE_PATH}/undrafted?pageNumber=${pageNumber}&pageSize=${pageSize}`)
       .then(response => response.value.items),
 
+  /**
+   * Retrieves every player drafted in the active draft, in pick order
+   * A player's draft status names the manager who has them now, which may not be the one who picked them
+   */
+  getDrafted: () =>
+    apiClient.get<ApiResponse<Player[]>>(`${BASE_PATH}/drafted`)
+      .then(response => response.value),
+
   getHighlighted: (pageNumber: number = 1, pageSize: number = 100) =>
     apiClient.get<ApiResponse<PaginatedResult<Player>>>(`${BASE_PATH}/highlighted?pageNumber=${pageNumber}&pageSize=${pageSize}`)
       .then(response => response.value.items),
@@ -161,16 +169,6 @@ const playerService = {
     apiClient.post<ApiResponse<boolean>>(`${BASE_PATH}/${id}/undraft`)
       .then(response => response.value),
 
-  // Personal tracking
-  toggleHighlight: (id: string) =>
-    apiClient.post<void>(`${BASE_PATH}/${id}/toggleHighlight`),
-
-  updateNotes: (id: string, notes: string) =>
-    apiClient.put<void>(`${BASE_PATH}/${id}/notes`, notes),
-
-  updatePersonalRank: (id: string, rank: number) =>
-    apiClient.put<void>(`${BASE_PATH}/${id}/personalRank`, rank),
-
   // Advanced filtering
   getByAgeRange: ({ minAge, maxAge }: AgeRangeParams, pageNumber: number = 1, pageSize: number = 100) =>
     apiClient.get<ApiResponse<PaginatedResult<Player>>>(`${BASE_PATH}/byAge?minAge=${minAge}&maxAge=${maxAge}&pageNumber=${pageNumber}&pageSize=${pageSize}`)
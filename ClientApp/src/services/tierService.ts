@@ -0,0 +1,38 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, RankingChoice, TierAlert, TierPlayer, TierSet } from '../types/models';
+
+const BASE_PATH = '/tier';
+
+export const tierService = {
+  /**
+   * Retrieves the signed-in account's tiers in the current league
+   */
+  getMine: () =>
+    apiClient.get<ApiResponse<TierSet[]>>(BASE_PATH),
+
+  /**
+   * Retrieves the players a ranking source ranks at a position (or ALL), best first
+   */
+  getPlayers: (position: string, rankingSource: RankingChoice, count: number) =>
+    apiClient.get<ApiResponse<TierPlayer[]>>(
+      `${BASE_PATH}/players?${new URLSearchParams({ position, rankingSource, count: String(count) }).toString()}`
+    ),
+
+  /**
+   * Suggests where tiers should break by clustering composite values; nothing is saved
+   */
+  generate: (position: string, rankingSource: RankingChoice, tierCount: number, playerCount: number) =>
+    apiClient.post<ApiResponse<number[]>>(`${BASE_PATH}/generate`, { position, rankingSource, tierCount, playerCount }),
+
+  /**
+   * Saves the tiers for a position and ranking source; no breaks removes them
+   */
+  save: (position: string, rankingSource: RankingChoice, breaks: number[]) =>
+    apiClient.put<ApiResponse<TierSet | null>>(BASE_PATH, { position, rankingSource, breaks }),
+
+  /**
+   * Retrieves the positions whose current tier is down to its last one or two undrafted players
+   */
+  getAlerts: (rankingSource: RankingChoice) =>
+    apiClient.get<ApiResponse<TierAlert[]>>(`${BASE_PATH}/alerts?rankingSource=${rankingSource}`)
+};
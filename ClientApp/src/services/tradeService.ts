@@ -1,4 +1,4 @@
-import { ApiResponse, Trade, TradeParty, Draft } from '../types/models';
+import { ApiResponse, Trade, TradeAnalysis, TradeDependencies, TradeParty, Draft } from '../types/models';
 import { apiClient } from './apiClient';
 
 const tradeService = {
@@ -42,6 +42,80 @@ const tradeService = {
     }
   },
 
+  /**
+   * Sends a trade to the other parties for approval. Nothing changes hands until they all accept.
+   */
+  proposeTrade: async (trade: Trade, proposedBy: string) => {
+    try {
+      const response = await apiClient.post<ApiResponse<Trade>>('/trade/propose', { proposedBy, trade });
+      return response.value;
+    } catch (error) {
+      console.error('Error proposing trade:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('Failed to propose trade. Please try again.');
+      }
+    }
+  },
+
+  /**
+   * Accepts a pending trade on behalf of one of its parties.
+   * The trade completes once the last party accepts.
+   */
+  acceptTrade: async (tradeId: string, managerId: string) => {
+    try {
+      const response = await apiClient.post<ApiResponse<Trade>>(`/trade/${tradeId}/accept`, { managerId });
+      return response.value;
+    } catch (error) {
+      console.error('Error accepting trade:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('Failed to accept trade. Please try again.');
+      }
+    }
+  },
+
+  rejectTrade: async (tradeId: string, managerId: string) => {
+    try {
+      const response = await apiClient.post<ApiResponse<Trade>>(`/trade/${tradeId}/reject`, { managerId });
+      return response.value;
+    } catch (error) {
+      console.error('Error rejecting trade:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('Failed to reject trade. Please try again.');
+      }
+    }
+  },
+
+  /**
+   * Replaces a pending trade with a counteroffer from one of its parties
+   */
+  counterTrade: async (tradeId: string, trade: Trade, proposedBy: string) => {
+    try {
+      const response = await apiClient.post<ApiResponse<Trade>>(`/trade/${tradeId}/counter`, { proposedBy, trade });
+      return response.value;
+    } catch (error) {
+      console.error('Error countering trade:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('Failed to counter trade. Please try again.');
+      }
+    }
+  },
+
+  /**
+   * Values each side of a trade that may still be in progress. Nothing is saved.
+   */
+  analyzeTrade: async (trade: Trade) => {
+    const response = await apiClient.post<ApiResponse<TradeAnalysis>>('/trade/analyze', trade);
+    return response.value;
+  },
+
   getTrades: async () => {
     try {
       const response = await apiClient.get<ApiResponse<Trade[]>>('/trade');
@@ -80,6 +154,32 @@ const tradeService = {
     }
   },
 
+  /**
+   * Gets the later trades that would need undoing before this one, and any of its picks that can't be returned
+   */
+  getTradeDependencies: async (tradeId: string) => {
+    const response = await apiClient.get<ApiResponse<TradeDependencies>>(`/trade/${tradeId}/dependencies`);
+    return response.value;
+  },
+
+  /**
+   * Undoes a trade and every later trade that depends on it, most recent first
+   * @returns IDs of the cancelled trades in the order they were undone
+   */
+  cancelTradeCascade: async (tradeId: string) => {
+    try {
+      const response = await apiClient.delete<ApiResponse<string[]>>(`/trade/${tradeId}/cascade`);
+      return response.value;
+    } catch (error) {
+      console.error('Error cancelling trade chain:', error);
+      if (error instanceof Error) {
+        throw error;
+      } else {
+        throw new Error('Failed to cancel trades. Please try again.');
+      }
+    }
+  },
+
   cancelTrade: async (tradeId: string) => {
     try {
       console.log('Cancelling trade:', tradeId);
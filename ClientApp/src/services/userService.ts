@@ -0,0 +1,30 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, UserAccount, UserRole } from '../types/models';
+
+const BASE_PATH = '/user';
+
+export const userService = {
+  /**
+   * Retrieves every account, by username. Commissioner only.
+   */
+  getAll: () =>
+    apiClient.get<ApiResponse<UserAccount[]>>(BASE_PATH),
+
+  /**
+   * Creates an account that signs in with a local password
+   */
+  create: (username: string, password: string, role: UserRole) =>
+    apiClient.post<ApiResponse<UserAccount>>(BASE_PATH, { username, password, role }),
+
+  /**
+   * Changes an account's role, and its password when one is given
+   */
+  update: (id: string, role: UserRole, password?: string) =>
+    apiClient.put<ApiResponse<UserAccount>>(`${BASE_PATH}/${id}`, { role, password: password || null }),
+
+  /**
+   * Deletes an account; managers it ran are left without an account. The last commissioner can't be deleted.
+   */
+  delete: (id: string) =>
+    apiClient.delete<{ message: string }>(`${BASE_PATH}/${id}`)
+};
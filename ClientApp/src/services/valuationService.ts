@@ -0,0 +1,22 @@
+import { apiClient } from './apiClient';
+import { ApiResponse, ValuationMethod, ValuationResult } from '../types/models';
+
+const BASE_PATH = '/valuation';
+
+export const valuationService = {
+  /**
+   * Calculates dollar values and ranks from projections, replacing the previous run
+   * @param params.projectionSource - Projections to value players from
+   * @param params.method - Z-scores or standings gain points
+   * @param params.budgetPerTeam - Each team's auction budget
+   * @param params.minimumBid - Lowest price for a rostered player
+   * @returns Promise containing a summary of the run, including replacement levels by position
+   */
+  calculate: (params: {
+    projectionSource: string;
+    method: ValuationMethod;
+    budgetPerTeam: number;
+    minimumBid: number;
+  }) =>
+    apiClient.post<ApiResponse<ValuationResult>>(BASE_PATH, params)
+};
@@ -22,9 +22,15 @@ export interface ProjectionData {
 
 export enum RankingSource {
   IBW = 'IBW',
-  STEAMER = 'STEAMER'
+  STEAMER = 'STEAMER',
+  // Calculated from projections rather than imported
+  VALUE = 'VALUE'
 }
 
+// The signed-in account's big board, offered alongside the imported ranking sources
+export const PERSONAL_RANKING_SOURCE = 'personal';
+export type RankingChoice = RankingSource | typeof PERSONAL_RANKING_SOURCE;
+
 export enum ProspectSource {
   IBW = 'IBW'
 }
@@ -45,6 +51,8 @@ export interface DraftStatus {
   pick: number;
   overallPick: number;
   managerId: string;
+  isKeeper?: boolean;
+  price?: number | null;
 }
 
 export interface Player {
@@ -57,14 +65,44 @@ export interface Player {
   level?: string;
   birthDate?: Date;
   draftStatuses?: DraftStatus[];
+  // Merged in from the signed-in account's PlayerAnnotation; not stored on the player
   isHighlighted?: boolean;
   notes?: string;
   personalRank?: number;
   starsRating?: number;
+  isNoteShared?: boolean;
   projections?: { [source: string]: ProjectionData };
+  leagueValue?: number;
+  valuation?: PlayerValuation;
   positionStats?: { [year: string]: { [position: string]: number } };
 }
 
+export enum ValuationMethod {
+  ZScore = 'ZScore',
+  Sgp = 'Sgp'
+}
+
+export interface PlayerValuation {
+  method: ValuationMethod;
+  projectionSource: string;
+  position: string;
+  score: number;
+  valueAboveReplacement: number;
+  dollarValue: number;
+  rank: number;
+  calculatedAt: string;
+}
+
+export interface ValuationResult {
+  method: ValuationMethod;
+  projectionSource: string;
+  teams: number;
+  playersValued: number;
+  playersRostered: number;
+  replacementLevels: { [position: string]: number };
+  calculatedAt: string;
+}
+
 export interface DraftRound {
   roundNumber: number;
   picks: DraftPick[];
@@ -75,13 +113,17 @@ export interface DraftPick {
   managerId: string;
   isComplete: boolean;
   tradedTo?: string[];
+  overallPickNumber: number;
 }
 
 export interface Draft {
   id?: string;
+  leagueId?: string;
   year: number;
   type: string;
   isSnakeDraft: boolean;
+  orderStrategy?: DraftOrderStrategy | null;
+  customRoundOrders?: RoundOrder[];
   rounds: DraftRound[];
   isActive: boolean;
   createdAt: Date;
@@ -90,34 +132,531 @@ export interface Draft {
   activeOverallPick?: number;
   currentOverallPick?: number;
   draftOrder: string[];
+  pickClock?: PickClock | null;
+  auction?: Auction | null;
+}
+
+export enum DraftOrderStrategy {
+  Linear = 'Linear',
+  Snake = 'Snake',
+  ThirdRoundReversal = 'ThirdRoundReversal',
+  Custom = 'Custom'
+}
+
+export interface RoundOrder {
+  round: number;
+  // Managers in the order they pick in this round
+  managerIds: string[];
+}
+
+export interface Auction {
+  budget: number;
+  minimumBid: number;
+  managerBudgets: { [managerId: string]: number };
+  nominationOrder: string[];
+  nominationIndex: number;
+  currentLot?: AuctionLot | null;
+}
+
+export interface AuctionLot {
+  playerId: string;
+  nominatedBy: string;
+  nominatedAt: string;
+  highBidderId: string;
+  highBid: number;
+  bids: AuctionBid[];
+}
+
+export interface AuctionBid {
+  managerId: string;
+  amount: number;
+  timestamp: string;
+}
+
+export interface AuctionBudget {
+  managerId: string;
+  budget: number;
+  spent: number;
+  remaining: number;
+  openRosterSpots: number;
+  maxBid: number;
+}
+
+export interface AuctionStatus {
+  draftId: string;
+  minimumBid: number;
+  currentLot?: AuctionLot | null;
+  nominatorId?: string | null;
+  budgets: AuctionBudget[];
+}
+
+export enum PickClockExpiryPolicy {
+  AutoAdvance = 'AutoAdvance',
+  AutoDraftFromQueue = 'AutoDraftFromQueue'
+}
+
+export interface RoundClockOverride {
+  round: number;
+  seconds: number;
+}
+
+export interface PickClock {
+  enabled: boolean;
+  secondsPerPick: number;
+  roundOverrides: RoundClockOverride[];
+  timeBankSeconds: number;
+  managerTimeBanks: { [managerId: string]: number };
+  expiryPolicy: PickClockExpiryPolicy;
+  isPaused: boolean;
+  clockOverallPick?: number | null;
+  segmentStartedAt?: string | null;
+  elapsedSeconds: number;
+}
+
+export interface PickClockStatus {
+  draftId: string;
+  enabled: boolean;
+  isPaused: boolean;
+  overallPickNumber?: number | null;
+  round?: number | null;
+  managerId?: string | null;
+  secondsForPick: number;
+  pickSecondsRemaining: number;
+  timeBankRemaining: number;
+  totalSecondsRemaining: number;
+  expiryPolicy: PickClockExpiryPolicy;
+  serverTime: string;
+}
+
+export interface MockDraftPick {
+  overallPickNumber: number;
+  round: number;
+  pickNumber: number;
+  managerId: string;
+  playerId: string;
+  playerName: string;
+  isSimulated: boolean;
+}
+
+export interface MockDraft extends Pick<Draft, 'isSnakeDraft' | 'rounds' | 'draftOrder'> {
+  id: string;
+  sourceDraftId: string;
+  userManagerId: string;
+  rankingSource: RankingSource;
+  randomness: number;
+  createdAt: string;
+  picks: MockDraftPick[];
+  currentOverallPick?: number | null;
+  isComplete: boolean;
+}
+
+export interface RecommendationOptions {
+  rankingSources?: RankingSource[];
+  prospectSource?: ProspectSource | null;
+  projectionSource?: string | null;
+  projectionCategory?: string | null;
+  includePersonalRank?: boolean;
+  managerId?: string | null;
+  count?: number;
+}
+
+export interface PlayerRecommendation {
+  player: Player;
+  eligiblePositions: string[];
+  score: number;
+  baseScore: number;
+  needMultiplier: number;
+  componentScores: { [component: string]: number };
+  reasons: string[];
+}
+
+export interface RecommendationResult {
+  draftId: string;
+  overallPickNumber: number;
+  managerId?: string | null;
+  openPositions: { [position: string]: number };
+  recommendations: PlayerRecommendation[];
+}
+
+export interface SummaryCategory {
+  stat: string;
+  isPitching: boolean;
+  lowerIsBetter: boolean;
+}
+
+export interface PositionCoverage {
+  position: string;
+  filled: number;
+  target: number;
+}
+
+export interface CategoryTotal {
+  stat: string;
+  isPitching: boolean;
+  total: number | null;
+  // 1 is best in the league; ties share a rank
+  rank: number;
+  // 1 for the league's best total down to 0 for the worst
+  strength: number;
+}
+
+export interface TeamSummary {
+  managerId: string;
+  managerName: string;
+  playerCount: number;
+  unprojectedCount: number;
+  positions: PositionCoverage[];
+  totals: CategoryTotal[];
+}
+
+export interface TeamSummaryResult {
+  draftId: string;
+  projectionSource: string;
+  categories: SummaryCategory[];
+  teams: TeamSummary[];
+}
+
+export enum DraftActionType {
+  Pick = 'Pick',
+  Undraft = 'Undraft',
+  ActivePickMove = 'ActivePickMove',
+  RoundAdded = 'RoundAdded',
+  RoundRemoved = 'RoundRemoved',
+  Reset = 'Reset'
+}
+
+export interface PlayerDraftStatusChange {
+  playerId: string;
+  playerName: string;
+  before?: DraftStatus | null;
+  after?: DraftStatus | null;
+}
+
+export interface DraftHistoryEntry {
+  id: string;
+  draftId: string;
+  sequence: number;
+  timestamp: string;
+  action: DraftActionType;
+  description: string;
+  isUndone: boolean;
+  playerChanges: PlayerDraftStatusChange[];
+}
+
+export interface RosterSlot {
+  position: string;
+  count: number;
+}
+
+export enum ScoringFormat {
+  Roto = 'Roto',
+  HeadToHeadCategories = 'HeadToHeadCategories',
+  Points = 'Points'
+}
+
+export interface ScoringCategory {
+  stat: string;
+  lowerIsBetter: boolean;
+  weight: number;
+  sgpDenominator?: number | null;
+}
+
+export interface LeagueSettings {
+  id?: string;
+  minGamesForPosition: number;
+  rosterSlots: RosterSlot[];
+  maxRosterSize: number;
+  minorLeagueSlots: number;
+  taxiSlots: number;
+  scoringFormat: ScoringFormat;
+  hitterCategories: ScoringCategory[];
+  pitcherCategories: ScoringCategory[];
+  valueProjectionSource: string;
+  pickValueCurve: PickValueCurve;
+  // Share of what a manager gives up that they can lose on a trade before it's flagged
+  lopsidedTradeThreshold: number;
+}
+
+/**
+ * Values picks by draft position: the first overall pick is worth topValue and each later pick
+ * loses decayRate of the one before it, down to minimumValue
+ */
+export interface PickValueCurve {
+  topValue: number;
+  decayRate: number;
+  minimumValue: number;
+  futureYearDiscount: number;
+}
+
+export interface League {
+  id?: string;
+  name: string;
+  createdAt: string;
+}
+
+// One account's scouting on a player in the current league
+export interface PlayerAnnotation {
+  id?: string;
+  leagueId?: string;
+  userId: string;
+  playerId: string;
+  isHighlighted: boolean;
+  notes: string | null;
+  personalRank: number | null;
+  personalTier: number | null;
+  starsRating: number | null;
+  isNoteShared: boolean;
+  updatedAt: string;
+}
+
+export interface BigBoardPlayer {
+  player: Player;
+  rank: number;
+  tier: number;
+}
+
+export interface BigBoardEntry {
+  playerId: string;
+  tier: number;
+}
+
+// Position a tier set covers when it spans every position
+export const ALL_POSITIONS = 'ALL';
+
+// One account's tiers for a position under a ranking source; breaks are the ranks where tiers 2, 3... start
+export interface TierSet {
+  id?: string;
+  leagueId?: string;
+  userId: string;
+  position: string;
+  rankingSource: RankingChoice;
+  breaks: number[];
+  updatedAt: string;
+}
+
+export interface TierPlayer {
+  player: Player;
+  rank: number;
+  compositeValue: number;
+}
+
+// The best tier at a position that still has undrafted players, down to its last one or two
+export interface TierAlert {
+  tierSetId: string;
+  position: string;
+  rankingSource: RankingChoice;
+  tier: number;
+  remaining: Player[];
+}
+
+export interface SharedPlayerNote {
+  userId: string;
+  username: string;
+  managerName: string | null;
+  notes: string;
+  updatedAt: string;
+}
+
+export enum UserRole {
+  Manager = 'Manager',
+  Commissioner = 'Commissioner'
+}
+
+export interface UserAccount {
+  id?: string;
+  username: string;
+  provider: string;
+  role: UserRole;
+  createdAt: string;
 }
 
 export interface Manager {
   id?: string;
+  leagueId?: string;
   name: string;
   email?: string;
+  // Account that picks and trades for this manager
+  userId?: string | null;
+  // Set by the server when this is the signed-in account's manager
   isUser?: boolean;
+  queue?: string[];
 }
 
 export enum TradeAssetType {
-  DraftPick = 'DraftPick'
+  DraftPick = 'DraftPick',
+  Player = 'Player',
+  FuturePick = 'FuturePick'
 }
 
 export enum TradeStatus {
-  Completed = 'Completed'
+  Proposed = 'Proposed',
+  Accepted = 'Accepted',
+  Approved = 'Approved',
+  Completed = 'Completed',
+  Reversed = 'Reversed',
+  Cancelled = 'Cancelled',
+  Rejected = 'Rejected',
+  Countered = 'Countered'
 }
 
 export interface TradeAsset {
   type: TradeAssetType;
   draftId: string;
+  playerId?: string;
+  // For players, the pick they were drafted with
   overallPickNumber?: number;
   pickNumber?: number;
   roundNumber?: number;
+  playerName?: string;
+  // Future picks have no draft yet and are identified by their ledger entry
+  futurePickId?: string;
+  year?: number;
+  originalManagerId?: string;
+}
+
+/**
+ * A pick in a draft that hasn't been created yet. Owned by the last manager in tradedTo,
+ * or the original manager if it has never been traded.
+ */
+export interface FuturePick {
+  id: string;
+  year: number;
+  round: number;
+  originalManagerId: string;
+  tradedTo: string[];
+  draftId?: string | null;
+}
+
+export interface LotteryEntry {
+  managerId: string;
+  // Final place last season, 1 being the best record
+  standing: number;
+  // Percent chance of landing each drawn slot, first slot first; empty for teams outside the lottery
+  slotOdds: number[];
+}
+
+export interface LotteryResult {
+  slot: number;
+  managerId: string;
+  preLotterySlot: number;
+  // Null when the slot followed standings rather than a draw
+  roll?: number | null;
+  chance?: number | null;
+}
+
+export interface DraftLottery {
+  id: string;
+  year: number;
+  seed: number;
+  draws: number;
+  createdAt: string;
+  entries: LotteryEntry[];
+  results: LotteryResult[];
+  draftId?: string | null;
+}
+
+export interface Keeper {
+  playerId: string;
+  playerName: string;
+  managerId: string;
+  round: number;
+  pickNumber: number;
+  overallPickNumber: number;
+}
+
+export interface KeeperCandidate {
+  player: Player;
+  draftId: string;
+  draftYear: number;
+  round: number;
+  overallPick: number;
+  wasKeeper: boolean;
+}
+
+export enum PickOwnershipStatus {
+  Owned = 'Owned',
+  Acquired = 'Acquired',
+  TradedAway = 'TradedAway'
+}
+
+export interface PickTradeEvent {
+  tradeId: string;
+  timestamp: string;
+  fromManagerId: string;
+  toManagerId: string;
+}
+
+/**
+ * A pick a manager holds or once held. Future picks have no draft, pick number or overall pick yet.
+ */
+export interface PickOwnership {
+  draftId?: string | null;
+  futurePickId?: string | null;
+  year: number;
+  round: number;
+  pickNumber?: number | null;
+  overallPickNumber?: number | null;
+  isComplete: boolean;
+  originalManagerId: string;
+  currentOwnerId: string;
+  status: PickOwnershipStatus;
+  // Completed trades that moved the pick, oldest first
+  timeline: PickTradeEvent[];
+}
+
+/**
+ * What stands in the way of undoing a trade. Dependent trades are listed most recent first,
+ * the order they'd be undone in.
+ */
+export interface TradeDependencies {
+  tradeId: string;
+  canCancel: boolean;
+  // Whether undoing the dependent trades first would free this one up
+  canCascade: boolean;
+  dependentTrades: DependentTrade[];
+  // Picks used since the trade, which can't be handed back
+  usedPicks: TradeAsset[];
+}
+
+export interface DependentTrade {
+  tradeId: string;
+  timestamp: string;
+  managerIds: string[];
+  sharedAssets: TradeAsset[];
+}
+
+export interface TradeAssetValue {
+  asset: TradeAsset;
+  fromManagerId: string;
+  toManagerId?: string | null;
+  value: number;
+  // What the value was based on, e.g. "Pick 14" or "#32 by VALUE"
+  basis: string;
+}
+
+export interface TradePartyValue {
+  managerId: string;
+  given: number;
+  received: number;
+  net: number;
+  isLopsided: boolean;
+}
+
+export interface TradeAnalysis {
+  assets: TradeAssetValue[];
+  parties: TradePartyValue[];
+  // False until every asset has a receiving manager; nobody is flagged before then
+  isComplete: boolean;
+  isLopsided: boolean;
+  lopsidedThreshold: number;
 }
 
 export interface Trade {
   id?: string;
   timestamp: string;
+  proposedAt?: string;
+  // Set on a counteroffer to the proposal it replaced
+  counterOfTradeId?: string;
   notes: string;
   status: TradeStatus;
   parties: {
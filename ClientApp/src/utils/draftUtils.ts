@@ -1,20 +1,86 @@
-import { Draft } from '../types/models';
+import { Draft, DraftOrderStrategy, DraftPick, DraftRound } from '../types/models';
 
 /**
- * Gets the display pick number for snake drafts
- * In snake rounds (even rounds), inverts the pick number
+ * Display names for each pick order strategy
+ */
+export const ORDER_STRATEGY_LABELS: Record<DraftOrderStrategy, string> = {
+  [DraftOrderStrategy.Linear]: 'Linear',
+  [DraftOrderStrategy.Snake]: 'Snake',
+  [DraftOrderStrategy.ThirdRoundReversal]: 'Third-Round Reversal',
+  [DraftOrderStrategy.Custom]: 'Custom'
+};
+
+/**
+ * Gets a draft's pick order strategy. Drafts created before strategies existed only say whether they snake.
+ * @param draft The draft object
+ * @returns The order strategy
+ */
+export const getOrderStrategy = (draft: Pick<Draft, 'orderStrategy' | 'isSnakeDraft'>) =>
+  draft.orderStrategy ?? (draft.isSnakeDraft ? DraftOrderStrategy.Snake : DraftOrderStrategy.Linear);
+
+/**
+ * Gets a round's picks in the order they're made. The server lays out every round from the draft's
+ * order strategy, so reading the order from the picks keeps every view in step with it.
+ * @param round The round
+ * @returns The round's picks, first pick first
+ */
+export const getPicksInOrder = (round: DraftRound) =>
+  [...round.picks].sort((a, b) => a.overallPickNumber - b.overallPickNumber);
+
+/**
+ * Gets where a pick falls within its round, e.g. the manager with the first slot picks 12th in a
+ * reversed round of a 12-team draft
  * @param draft The draft object
- * @param pickNumber The actual pick number
+ * @param pickNumber The pick's draft order slot
+ * @param round The round, defaulting to the active round for toolbar display
  * @returns The display pick number
  */
-export const getDisplayPickNumber = (draft: Draft, pickNumber: number, round?: number) => {
-  // For toolbar display, use active round if no specific round provided
+export const getDisplayPickNumber = (draft: Pick<Draft, 'rounds' | 'activeRound'>, pickNumber: number, round?: number) => {
   const roundToCheck = round ?? draft.activeRound;
-  
-  if (!draft.isSnakeDraft || !roundToCheck || roundToCheck % 2 !== 0) {
-    return pickNumber;
-  }
-  // In snake rounds (even rounds), invert the pick number
-  const totalPicks = draft.draftOrder.length;
-  return totalPicks - pickNumber + 1;
+  const draftRound = draft.rounds.find(r => r.roundNumber === roundToCheck);
+  const position = draftRound ? getPicksInOrder(draftRound).findIndex(p => p.pickNumber === pickNumber) : -1;
+  return position === -1 ? pickNumber : position + 1;
+};
+
+/**
+ * Whether a round runs the draft order backwards, as even snake rounds do
+ * @param draft The draft object
+ * @param roundNumber The round to check
+ * @returns True if the last slot picks first and the first slot picks last
+ */
+export const isReversedRound = (draft: Pick<Draft, 'rounds'>, roundNumber: number) => {
+  const draftRound = draft.rounds.find(r => r.roundNumber === roundNumber);
+  if (!draftRound || draftRound.picks.length < 2) return false;
+  return getPicksInOrder(draftRound).every((pick, index, picks) => index === 0 || pick.pickNumber < picks[index - 1].pickNumber);
+};
+
+/**
+ * Gets the overall number of a slot's pick in a round
+ * @param draft The draft object
+ * @param roundNumber The round
+ * @param pickNumber The pick's draft order slot
+ * @returns The overall pick number, or undefined if the round has no such pick
+ */
+export const getOverallPickNumber = (draft: Pick<Draft, 'rounds'>, roundNumber: number, pickNumber: number) =>
+  draft.rounds
+    .find(r => r.roundNumber === roundNumber)
+    ?.picks.find(p => p.pickNumber === pickNumber)
+    ?.overallPickNumber;
+
+/**
+ * Gets the manager who holds a pick now: whoever it was last traded to, or the manager it started with
+ * @param pick The pick
+ * @returns The owning manager's ID
+ */
+export const getPickOwner = (pick: Pick<DraftPick, 'managerId' | 'tradedTo'>) =>
+  pick.tradedTo?.length ? pick.tradedTo[pick.tradedTo.length - 1] : pick.managerId;
+
+/**
+ * Formats a number of seconds as m:ss for the pick clock
+ * @param seconds Whole seconds remaining
+ * @returns The formatted time
+ */
+export const formatClockTime = (seconds: number) => {
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}:${String(seconds % 60).padStart(2, '0')}`;
 };
@@ -1,3 +1,5 @@
+import { Player } from '../types/models';
+
 const positionMap: { [key: string]: { abbr: string, name: string } } = {
   '1': { abbr: 'P', name: 'Pitcher' },
   '2': { abbr: 'C', name: 'Catcher' },
@@ -65,3 +67,14 @@ export const determineEligiblePositions = (positionStats: { [key: string]: numbe
 
   return Array.from(positions).sort();
 };
+
+// Positions a player qualifies at from their most recent season, falling back to their listed positions
+export const getEligiblePositions = (player: Player, minGames: number): string[] => {
+  const years = Object.keys(player.positionStats ?? {});
+  if (years.length > 0) {
+    const mostRecentYear = Math.max(...years.map(Number)).toString();
+    const eligible = determineEligiblePositions(player.positionStats![mostRecentYear], minGames);
+    if (eligible.length > 0) return eligible;
+  }
+  return player.position ?? [];
+};
@@ -0,0 +1,134 @@
+import { LeagueSettings, Player, RosterSlot } from '../types/models';
+
+export const SLOT_POSITIONS = ['C', '1B', '2B', '3B', 'SS', 'OF', 'UTIL', 'SP', 'RP', 'P', 'BN'];
+
+const HITTER_POSITIONS = ['C', '1B', '2B', '3B', 'SS', 'OF', 'DH'];
+const PITCHER_POSITIONS = ['P', 'SP', 'RP'];
+
+export const DEFAULT_ROSTER_SLOTS: RosterSlot[] = [
+  { position: 'C', count: 1 },
+  { position: '1B', count: 1 },
+  { position: '2B', count: 1 },
+  { position: '3B', count: 1 },
+  { position: 'SS', count: 1 },
+  { position: 'OF', count: 3 },
+  { position: 'UTIL', count: 1 },
+  { position: 'SP', count: 5 },
+  { position: 'RP', count: 3 },
+  { position: 'BN', count: 5 }
+];
+
+export interface RosterSlotAssignment {
+  slot: string;
+  player: Player | null;
+}
+
+export interface RosterAssignment {
+  lineup: RosterSlotAssignment[];
+  minors: Player[];
+  taxi: Player[];
+  // Players with nowhere to go: every slot they qualify for is taken
+  unplaced: Player[];
+  overMaxRoster: boolean;
+}
+
+/**
+ * Checks whether a player with the given positions can fill a roster slot
+ * @param slot The slot position (C, OF, UTIL, SP, BN...)
+ * @param positions The player's eligible positions
+ */
+export const canFillSlot = (slot: string, positions: string[]) => {
+  switch (slot) {
+    case 'UTIL':
+      return positions.some(p => HITTER_POSITIONS.includes(p));
+    case 'SP':
+    case 'RP':
+      // Eligibility only says "pitcher", so any pitcher can fill either
+      return positions.includes(slot) || positions.includes('P');
+    case 'P':
+      return positions.some(p => PITCHER_POSITIONS.includes(p));
+    case 'BN':
+      return true;
+    default:
+      return positions.includes(slot);
+  }
+};
+
+// Bench and utility slots take the leftovers, so try every other slot first
+const slotPreference = (slot: string) => slot === 'BN' ? 2 : slot === 'UTIL' || slot === 'P' ? 1 : 0;
+
+/**
+ * Places a manager's players into the league's roster slots.
+ * Minor leaguers go to minor league slots first, then everyone left is matched to the lineup
+ * so that as many players as possible get a slot; anyone still left over goes to the taxi squad.
+ * @param players The manager's players, in draft order
+ * @param settings League roster settings
+ * @param getPositions Looks up a player's eligible positions
+ */
+export const assignRosterSlots = (
+  players: Player[],
+  settings: LeagueSettings,
+  getPositions: (player: Player) => string[]
+): RosterAssignment => {
+  const minors: Player[] = [];
+  const remaining: Player[] = [];
+
+  players.forEach(player => {
+    const isMinorLeaguer = !!player.level && player.level !== 'MLB';
+    if (isMinorLeaguer && minors.length < settings.minorLeagueSlots) {
+      minors.push(player);
+    } else {
+      remaining.push(player);
+    }
+  });
+
+  const lineup: RosterSlotAssignment[] = (settings.rosterSlots ?? []).flatMap(slot =>
+    Array.from({ length: Math.max(0, slot.count) }, () => ({ slot: slot.position, player: null }))
+  );
+  const slotOrder = lineup
+    .map((_, index) => index)
+    .sort((a, b) => slotPreference(lineup[a].slot) - slotPreference(lineup[b].slot));
+
+  // Bipartite matching: a player may bump another into a different slot they also qualify for
+  const owner: (number | null)[] = lineup.map(() => null);
+  const positions = remaining.map(getPositions);
+
+  const tryPlace = (playerIndex: number, visited: Set<number>): boolean => {
+    for (const slotIndex of slotOrder) {
+      if (visited.has(slotIndex) || !canFillSlot(lineup[slotIndex].slot, positions[playerIndex])) continue;
+      visited.add(slotIndex);
+
+      const current = owner[slotIndex];
+      if (current === null || tryPlace(current, visited)) {
+        owner[slotIndex] = playerIndex;
+        return true;
+      }
+    }
+    return false;
+  };
+
+  const taxi: Player[] = [];
+  const unplaced: Player[] = [];
+
+  remaining.forEach((player, index) => {
+    if (tryPlace(index, new Set())) return;
+
+    if (taxi.length < settings.taxiSlots) {
+      taxi.push(player);
+    } else {
+      unplaced.push(player);
+    }
+  });
+
+  owner.forEach((playerIndex, slotIndex) => {
+    if (playerIndex !== null) lineup[slotIndex].player = remaining[playerIndex];
+  });
+
+  return {
+    lineup,
+    minors,
+    taxi,
+    unplaced,
+    overMaxRoster: settings.maxRosterSize > 0 && players.length > settings.maxRosterSize
+  };
+};
@@ -0,0 +1,72 @@
+import { LeagueSettings, Player, ScoringCategory, ScoringFormat } from '../types/models';
+
+// Stats the projection import provides, by player type
+export const HITTER_STATS = ['R', 'HR', 'RBI', 'SB', 'AVG', 'OPS', 'ISO', 'WRC+', 'BB', 'SO', 'BB%', 'K%', 'WAR', 'G'];
+export const PITCHER_STATS = ['QS', 'SV', 'SO', 'ERA', 'WHIP', 'IP', 'GS', 'K/9', 'BB/9', 'HR/9', 'BB', 'HR', 'GB%', 'WAR', 'G'];
+
+export const LOWER_IS_BETTER_STATS = ['ERA', 'WHIP', 'BB/9', 'HR/9'];
+
+export const DEFAULT_HITTER_CATEGORIES: ScoringCategory[] = ['R', 'HR', 'RBI', 'SB', 'AVG']
+  .map(stat => ({ stat, lowerIsBetter: false, weight: 1 }));
+
+// Projections don't include wins, so quality starts stand in for them
+export const DEFAULT_PITCHER_CATEGORIES: ScoringCategory[] = ['QS', 'SV', 'SO', 'ERA', 'WHIP']
+  .map(stat => ({ stat, lowerIsBetter: LOWER_IS_BETTER_STATS.includes(stat), weight: 1 }));
+
+export const SCORING_FORMAT_LABELS: Record<ScoringFormat, string> = {
+  [ScoringFormat.Roto]: 'Rotisserie',
+  [ScoringFormat.HeadToHeadCategories]: 'Head-to-Head Categories',
+  [ScoringFormat.Points]: 'Points'
+};
+
+/**
+ * Lists the league's scoring categories, hitting first, without repeating stats both sides score
+ * @param settings League settings, or null while they load
+ */
+export const getScoringCategories = (settings: LeagueSettings | null): ScoringCategory[] => {
+  const categories = settings
+    ? [...(settings.hitterCategories ?? []), ...(settings.pitcherCategories ?? [])]
+    : [...DEFAULT_HITTER_CATEGORIES, ...DEFAULT_PITCHER_CATEGORIES];
+
+  return categories.filter((category, index) =>
+    categories.findIndex(c => c.stat.toUpperCase() === category.stat.toUpperCase()) === index
+  );
+};
+
+/**
+ * Checks whether lower numbers win a stat, using the league's category setting when it has one
+ */
+export const isLowerBetter = (settings: LeagueSettings | null, stat: string) => {
+  const category = getScoringCategories(settings).find(c => c.stat.toUpperCase() === stat.toUpperCase());
+  return category ? category.lowerIsBetter : LOWER_IS_BETTER_STATS.includes(stat.toUpperCase());
+};
+
+// Pitching-only stats live on the pitcher projection; shared ones (SO, BB, WAR) go by the league's categories
+const isPitchingStat = (settings: LeagueSettings | null, stat: string) => {
+  const upper = stat.toUpperCase();
+  const inCategories = (categories?: ScoringCategory[]) => categories?.some(c => c.stat.toUpperCase() === upper) ?? false;
+
+  if (inCategories(settings?.pitcherCategories) !== inCategories(settings?.hitterCategories)) {
+    return inCategories(settings?.pitcherCategories);
+  }
+  return PITCHER_STATS.includes(upper) && !HITTER_STATS.includes(upper);
+};
+
+/**
+ * Looks up a player's projected stat. Projection sources and stat keys both arrive lowercased from the API.
+ */
+export const getProjectedStat = (player: Player, source: string, stat: string): number | null => {
+  const projection = player.projections?.[source.toLowerCase()] ?? player.projections?.[source];
+  if (!projection) return null;
+
+  const key = stat.toLowerCase();
+  const hitting = projection.hitter?.stats?.[key];
+  const pitching = projection.pitcher?.stats?.[key];
+  return hitting ?? pitching ?? null;
+};
+
+/**
+ * Builds the search sort field for a projected stat, which is stored under the hitter or pitcher projection
+ */
+export const getProjectionSortField = (settings: LeagueSettings | null, source: string, stat: string) =>
+  `Projections.${source}.${isPitchingStat(settings, stat) ? 'Pitcher' : 'Hitter'}.Stats.${stat.toLowerCase()}`;
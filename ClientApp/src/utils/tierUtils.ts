@@ -0,0 +1,31 @@
+import { ALL_POSITIONS, PERSONAL_RANKING_SOURCE, Player, RankingChoice, TierSet } from '../types/models';
+
+// Shared so lists without tiers keep the same props between renders
+const NO_BREAKS: number[] = [];
+
+/**
+ * The tier a rank falls in, counting from 1. Breaks are the ranks where tiers 2, 3... start.
+ */
+export const getTier = (breaks: number[], rank: number): number =>
+  1 + breaks.filter(b => rank >= b).length;
+
+/**
+ * The breaks saved for a position and ranking source, or none when it hasn't been tiered
+ */
+export const findBreaks = (tierSets: TierSet[], position: string, rankingSource: string): number[] =>
+  tierSets.find(t => t.position === position && t.rankingSource === rankingSource)?.breaks ?? NO_BREAKS;
+
+/**
+ * A player's rank under a ranking source. The personal rank comes from the account's annotations,
+ * so the player must have been annotated first.
+ */
+export const getRankingValue = (player: Player, rankingSource: RankingChoice): number | null =>
+  rankingSource === PERSONAL_RANKING_SOURCE
+    ? player.personalRank ?? null
+    : player.rank?.[rankingSource.toLowerCase()] ?? null;
+
+/**
+ * Label for the position a tier set covers
+ */
+export const getTierPositionLabel = (position: string): string =>
+  position === ALL_POSITIONS ? 'Overall' : position === 'P' ? 'Pitchers' : position;
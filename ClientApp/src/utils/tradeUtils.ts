@@ -0,0 +1,50 @@
+import { FuturePick, PickValueCurve, TradeAsset, TradeAssetType } from '../types/models';
+
+/**
+ * Checks whether two trade assets are the same pick or the same player.
+ * Picks are matched by their slot in the draft, players by who they are and future picks by their ledger entry.
+ */
+export const isSameTradeAsset = (a: TradeAsset, b: TradeAsset) => {
+  if (a.type !== b.type) return false;
+  if (a.type === TradeAssetType.FuturePick) {
+    return a.futurePickId !== undefined && a.futurePickId === b.futurePickId;
+  }
+  if (a.draftId !== b.draftId) return false;
+  return a.type === TradeAssetType.Player
+    ? a.playerId !== undefined && a.playerId === b.playerId
+    : a.overallPickNumber !== undefined && a.overallPickNumber === b.overallPickNumber;
+};
+
+/**
+ * Builds a key that identifies a trade asset, for React keys and element IDs
+ */
+export const getTradeAssetKey = (asset: TradeAsset) => {
+  if (asset.type === TradeAssetType.Player) return `player-${asset.playerId}`;
+  if (asset.type === TradeAssetType.FuturePick) return `future-${asset.futurePickId}`;
+  return `${asset.overallPickNumber?.toString() ?? ''}-${asset.roundNumber}-${asset.pickNumber}`;
+};
+
+/**
+ * Short label for a trade asset, e.g. a player's name, "Pick 14" or "2027 Round 2"
+ */
+export const getTradeAssetLabel = (asset: TradeAsset) => {
+  if (asset.type === TradeAssetType.Player) return asset.playerName ?? 'Player';
+  if (asset.type === TradeAssetType.FuturePick) return `${asset.year} Round ${asset.roundNumber}`;
+  return `Pick ${asset.overallPickNumber}`;
+};
+
+export const getFuturePickOwner = (pick: FuturePick) =>
+  pick.tradedTo.length ? pick.tradedTo[pick.tradedTo.length - 1] : pick.originalManagerId;
+
+export const DEFAULT_PICK_VALUE_CURVE: PickValueCurve = {
+  topValue: 100,
+  decayRate: 0.03,
+  minimumValue: 1,
+  futureYearDiscount: 0.1
+};
+
+/**
+ * Value of a pick under the league's curve; matches how the server values trades
+ */
+export const getPickValue = (curve: PickValueCurve, overallPickNumber: number) =>
+  Math.max(curve.minimumValue, curve.topValue * Math.pow(1 - curve.decayRate, Math.max(overallPickNumber, 1) - 1));
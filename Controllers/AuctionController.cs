@@ -0,0 +1,246 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+[ApiController]
+[Route("[controller]")]
+public class AuctionController : ControllerBase
+{
+    private readonly AuctionService _auctionService;
+    private readonly DraftService _draftService;
+    private readonly PlayerService _playerService;
+    private readonly ManagerService _managerService;
+    private readonly DraftEventService _draftEventService;
+    private readonly ILogger<AuctionController> _logger;
+
+    public AuctionController(
+        AuctionService auctionService,
+        DraftService draftService,
+        PlayerService playerService,
+        ManagerService managerService,
+        DraftEventService draftEventService,
+        ILogger<AuctionController> logger)
+    {
+        _auctionService = auctionService;
+        _draftService = draftService;
+        _playerService = playerService;
+        _managerService = managerService;
+        _draftEventService = draftEventService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Retrieves the state of the auction in the active draft
+    /// </summary>
+    /// <remarks>
+    /// Includes each manager's budget, spend and open roster spots, who nominates next, and the player
+    /// currently up for bids. A manager's max bid leaves enough to pay the minimum bid for every other
+    /// open roster spot.
+    /// </remarks>
+    /// <response code="200">Returns the auction status, or null if the active draft isn't an auction</response>
+    /// <response code="500">Internal server error retrieving the auction</response>
+    [HttpGet]
+    [ProducesResponseType(typeof(ApiResponse<AuctionStatus>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetStatus()
+    {
+        try
+        {
+            var status = await _auctionService.GetStatusAsync();
+            return Ok(new { value = status });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting auction status");
+            return StatusCode(500, new { message = "Error getting auction status" });
+        }
+    }
+
+    /// <summary>
+    /// Puts a player up for bids
+    /// </summary>
+    /// <remarks>
+    /// Only the manager whose turn it is can nominate, and their nomination is the opening bid. Managers
+    /// nominate for their own team; commissioners can nominate for anyone.
+    ///
+    /// Sample request:
+    ///
+    ///     POST /auction/nominate
+    ///     {
+    ///         "managerId": "507f1f77bcf86cd799439012",
+    ///         "playerId": "507f1f77bcf86cd799439011",
+    ///         "openingBid": 1
+    ///     }
+    /// </remarks>
+    /// <param name="request">The nominating manager, the player and the opening bid</param>
+    /// <response code="200">Returns the updated auction status</response>
+    /// <response code="400">Not the manager's turn, the player is taken, or the bid isn't allowed</response>
+    /// <response code="403">The manager isn't the signed-in account's team</response>
+    /// <response code="500">Internal server error nominating the player</response>
+    [HttpPost("nominate")]
+    [ProducesResponseType(typeof(ApiResponse<AuctionStatus>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 403)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Nominate([FromBody] NominatePlayerRequest request)
+    {
+        try
+        {
+            if (!await _managerService.CanActForAsync(request.ManagerId))
+                return StatusCode(403, new { message = "You can only nominate for your own team" });
+
+            var status = await _auctionService.NominateAsync(request.ManagerId, request.PlayerId, request.OpeningBid);
+            _draftEventService.Publish(DraftEventTypes.AuctionChanged, new { auction = status });
+            return Ok(new { value = status });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error nominating player {PlayerId}", request.PlayerId);
+            return StatusCode(500, new { message = "Error nominating player" });
+        }
+    }
+
+    /// <summary>
+    /// Bids on the player up for bids
+    /// </summary>
+    /// <param name="request">The bidding manager and amount</param>
+    /// <response code="200">Returns the updated auction status</response>
+    /// <response code="400">No player is up, the bid is too low, or it is more than the manager can bid</response>
+    /// <response code="403">The manager isn't the signed-in account's team</response>
+    /// <response code="500">Internal server error placing the bid</response>
+    [HttpPost("bid")]
+    [ProducesResponseType(typeof(ApiResponse<AuctionStatus>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 403)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Bid([FromBody] PlaceBidRequest request)
+    {
+        try
+        {
+            if (!await _managerService.CanActForAsync(request.ManagerId))
+                return StatusCode(403, new { message = "You can only bid for your own team" });
+
+            var status = await _auctionService.BidAsync(request.ManagerId, request.Amount);
+            _draftEventService.Publish(DraftEventTypes.AuctionChanged, new { auction = status });
+            return Ok(new { value = status });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error placing bid for manager {ManagerId}", request.ManagerId);
+            return StatusCode(500, new { message = "Error placing bid" });
+        }
+    }
+
+    /// <summary>
+    /// Sells the player up for bids to the high bidder
+    /// </summary>
+    /// <remarks>
+    /// The player fills the winner's earliest open pick and the winning price is recorded on their draft status.
+    /// </remarks>
+    /// <response code="200">Returns the updated auction status</response>
+    /// <response code="400">No player is up for bids or the winner has no open roster spot</response>
+    /// <response code="500">Internal server error closing the bidding</response>
+    [HttpPost("close")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<AuctionStatus>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> CloseLot()
+    {
+        try
+        {
+            var (playerId, overallPickNumber) = await _auctionService.CloseLotAsync();
+
+            var draft = await _draftService.GetActiveDraftAsync();
+            var player = await _playerService.GetAsync(playerId);
+            var status = await _auctionService.GetStatusAsync();
+            var managerId = player?.DraftStatuses.FirstOrDefault(ds => ds.DraftId == draft?.Id)?.ManagerId;
+            _draftEventService.Publish(DraftEventTypes.PickMade, new { draft, player, overallPickNumber, managerId });
+            _draftEventService.Publish(DraftEventTypes.AuctionChanged, new { auction = status });
+
+            return Ok(new { value = status });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error closing auction lot");
+            return StatusCode(500, new { message = "Error closing bidding" });
+        }
+    }
+
+    /// <summary>
+    /// Takes the player up for bids off the block without selling them
+    /// </summary>
+    /// <response code="200">Returns the updated auction status</response>
+    /// <response code="400">No player is up for bids</response>
+    /// <response code="500">Internal server error cancelling the bidding</response>
+    [HttpDelete("lot")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<AuctionStatus>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> CancelLot()
+    {
+        try
+        {
+            var status = await _auctionService.CancelLotAsync();
+            _draftEventService.Publish(DraftEventTypes.AuctionChanged, new { auction = status });
+            return Ok(new { value = status });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error cancelling auction lot");
+            return StatusCode(500, new { message = "Error cancelling bidding" });
+        }
+    }
+
+    /// <summary>
+    /// Sets a manager's total auction budget
+    /// </summary>
+    /// <param name="managerId">The manager whose budget changes</param>
+    /// <param name="request">The new total budget</param>
+    /// <response code="200">Returns the updated auction status</response>
+    /// <response code="400">The budget is less than the manager has already spent</response>
+    /// <response code="500">Internal server error updating the budget</response>
+    [HttpPut("budget/{managerId}")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<AuctionStatus>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> UpdateBudget(string managerId, [FromBody] UpdateAuctionBudgetRequest request)
+    {
+        try
+        {
+            var status = await _auctionService.UpdateBudgetAsync(managerId, request.Budget);
+            _draftEventService.Publish(DraftEventTypes.AuctionChanged, new { auction = status });
+            return Ok(new { value = status });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating auction budget for manager {ManagerId}", managerId);
+            return StatusCode(500, new { message = "Error updating auction budget" });
+        }
+    }
+}
@@ -0,0 +1,196 @@
+using Microsoft.AspNetCore.Authentication;
+using Microsoft.AspNetCore.Authentication.Cookies;
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+/// <summary>
+/// Signs accounts in and out
+/// </summary>
+/// <remarks>
+/// Signing in sets an HTTP-only cookie that every other endpoint requires. Until the first account exists
+/// the app is in setup: POST /auth/setup creates it as a commissioner and takes over the manager that was
+/// marked as the user before accounts existed.
+/// </remarks>
+[ApiController]
+[Route("[controller]")]
+public class AuthController : ControllerBase
+{
+    private readonly UserAccountService _userAccountService;
+    private readonly IEnumerable<ILoginProvider> _loginProviders;
+    private readonly ManagerService _managerService;
+    private readonly PlayerAnnotationService _playerAnnotationService;
+    private readonly UserContext _userContext;
+    private readonly ILogger<AuthController> _logger;
+
+    public AuthController(
+        UserAccountService userAccountService,
+        IEnumerable<ILoginProvider> loginProviders,
+        ManagerService managerService,
+        PlayerAnnotationService playerAnnotationService,
+        UserContext userContext,
+        ILogger<AuthController> logger)
+    {
+        _userAccountService = userAccountService;
+        _loginProviders = loginProviders;
+        _managerService = managerService;
+        _playerAnnotationService = playerAnnotationService;
+        _userContext = userContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Retrieves the signed-in account and its manager in the current league
+    /// </summary>
+    /// <remarks>
+    /// Open to everyone so the client can tell whether to show the sign-in page. value is null when
+    /// nobody is signed in; setupRequired is true until the first account has been created.
+    /// </remarks>
+    /// <response code="200">Returns the account (or null), its manager (or null), whether setup is required and the login providers</response>
+    /// <response code="500">Internal server error retrieving the account</response>
+    [HttpGet("me")]
+    [AllowAnonymous]
+    [ProducesResponseType(typeof(ApiResponse<UserAccount>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Me()
+    {
+        try
+        {
+            var userId = _userContext.UserId;
+            var account = userId == null ? null : await _userAccountService.GetByIdAsync(userId);
+            var manager = account == null ? null : await _managerService.GetCurrentAsync();
+            return Ok(new
+            {
+                value = account,
+                manager,
+                setupRequired = !await _userAccountService.AnyAsync(),
+                providers = _loginProviders.Select(p => p.Name)
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting the signed-in account");
+            return StatusCode(500, new { message = "Error getting the signed-in account" });
+        }
+    }
+
+    /// <summary>
+    /// Creates the first account, as a commissioner, and signs in with it
+    /// </summary>
+    /// <remarks>
+    /// Only allowed while no accounts exist. Managers marked as the user before accounts existed are
+    /// linked to the new account, and highlights, notes and personal ranks become its own.
+    ///
+    /// Sample request:
+    ///
+    ///     POST /auth/setup
+    ///     {
+    ///         "username": "commish",
+    ///         "password": "correct horse"
+    ///     }
+    /// </remarks>
+    /// <response code="200">Returns the new account</response>
+    /// <response code="400">Setup is already done, or the username or password is invalid</response>
+    /// <response code="500">Internal server error creating the account</response>
+    [HttpPost("setup")]
+    [AllowAnonymous]
+    [ProducesResponseType(typeof(ApiResponse<UserAccount>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Setup([FromBody] SetupRequest request)
+    {
+        try
+        {
+            if (await _userAccountService.AnyAsync())
+                return BadRequest(new { message = "Setup has already been done; sign in instead" });
+
+            var account = await _userAccountService.CreateAsync(request.Username, request.Password, UserRole.Commissioner);
+            await _managerService.AdoptLegacyUserManagersAsync(account.Id!);
+            await _playerAnnotationService.AdoptLegacyAnnotationsAsync();
+            await SignInAsync(account);
+            return Ok(new { value = account });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating the first account");
+            return StatusCode(500, new { message = "Error creating the first account" });
+        }
+    }
+
+    /// <summary>
+    /// Signs in
+    /// </summary>
+    /// <remarks>
+    /// Sample request:
+    ///
+    ///     POST /auth/login
+    ///     {
+    ///         "username": "commish",
+    ///         "password": "correct horse",
+    ///         "provider": "local"
+    ///     }
+    /// </remarks>
+    /// <response code="200">Returns the signed-in account</response>
+    /// <response code="400">The login provider doesn't exist</response>
+    /// <response code="401">The username or password is wrong</response>
+    /// <response code="500">Internal server error signing in</response>
+    [HttpPost("login")]
+    [AllowAnonymous]
+    [ProducesResponseType(typeof(ApiResponse<UserAccount>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 401)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Login([FromBody] LoginRequest request)
+    {
+        try
+        {
+            var providerName = request.Provider ?? LocalLoginProvider.ProviderName;
+            var provider = _loginProviders.FirstOrDefault(p => string.Equals(p.Name, providerName, StringComparison.OrdinalIgnoreCase));
+            if (provider == null)
+                return BadRequest(new { message = $"Unknown login provider {providerName}" });
+
+            var account = await provider.AuthenticateAsync(request.Username, request.Password);
+            if (account == null)
+            {
+                _logger.LogWarning("Failed sign-in for {Username} with {Provider}", request.Username, provider.Name);
+                return StatusCode(401, new { message = "Wrong username or password" });
+            }
+
+            await SignInAsync(account);
+            _logger.LogInformation("{Username} signed in", account.Username);
+            return Ok(new { value = account });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error signing in {Username}", request.Username);
+            return StatusCode(500, new { message = "Error signing in" });
+        }
+    }
+
+    /// <summary>
+    /// Signs out
+    /// </summary>
+    /// <response code="200">The authentication cookie was cleared</response>
+    [HttpPost("logout")]
+    [AllowAnonymous]
+    [ProducesResponseType(typeof(ApiResponse<string>), 200)]
+    public async Task<IActionResult> Logout()
+    {
+        await HttpContext.SignOutAsync(CookieAuthenticationDefaults.AuthenticationScheme);
+        return Ok(new { message = "Signed out" });
+    }
+
+    private Task SignInAsync(UserAccount account) =>
+        HttpContext.SignInAsync(
+            CookieAuthenticationDefaults.AuthenticationScheme,
+            UserContext.CreatePrincipal(account, CookieAuthenticationDefaults.AuthenticationScheme),
+            new AuthenticationProperties { IsPersistent = true });
+}
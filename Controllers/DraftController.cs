@@ -1,3 +1,4 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using DraftEngine.Models;
 using DraftEngine.Services;
@@ -14,17 +15,63 @@ public class DraftController : ControllerBase
 {
     private readonly DraftService _draftService;
     private readonly PlayerService _playerService;
+    private readonly DraftEventService _draftEventService;
+    private readonly DraftHistoryService _draftHistoryService;
+    private readonly PickClockService _pickClockService;
+    private readonly RecommendationService _recommendationService;
+    private readonly TeamSummaryService _teamSummaryService;
+    private readonly LotteryService _lotteryService;
+    private readonly ManagerService _managerService;
+    private readonly LeagueContext _leagueContext;
     private readonly ILogger<DraftController> _logger;
     public DraftController(
         DraftService draftService,
         PlayerService playerService,
+        DraftEventService draftEventService,
+        DraftHistoryService draftHistoryService,
+        PickClockService pickClockService,
+        RecommendationService recommendationService,
+        TeamSummaryService teamSummaryService,
+        LotteryService lotteryService,
+        ManagerService managerService,
+        LeagueContext leagueContext,
         ILogger<DraftController> logger)
     {
         _draftService = draftService;
         _playerService = playerService;
+        _draftEventService = draftEventService;
+        _draftHistoryService = draftHistoryService;
+        _pickClockService = pickClockService;
+        _recommendationService = recommendationService;
+        _teamSummaryService = teamSummaryService;
+        _lotteryService = lotteryService;
+        _managerService = managerService;
+        _leagueContext = leagueContext;
         _logger = logger;
     }
 
+    /// <summary>
+    /// Appends a draft action to the event log without failing the request if logging fails
+    /// </summary>
+    private async Task RecordHistoryAsync(
+        DraftActionType action,
+        Draft before,
+        Draft? after,
+        string description,
+        IEnumerable<PlayerDraftStatusChange>? playerChanges = null)
+    {
+        if (after == null) return;
+
+        try
+        {
+            await _draftHistoryService.RecordAsync(action, before, after, playerChanges, description);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to record draft action {Action}: {Description}", action, description);
+        }
+    }
+
     /// <summary>
     /// Retrieves all drafts in the system
     /// </summary>
@@ -217,6 +264,71 @@ public class DraftController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Streams live draft events to the client
+    /// </summary>
+    /// <remarks>
+    /// Opens a server-sent event stream that stays open until the client disconnects. Only events from
+    /// the chosen league are sent; since EventSource can't set headers, choose it with ?leagueId=.
+    /// 
+    /// Event Types:
+    /// - pick-made / pick-undone: payload contains the updated draft and player
+    /// - active-pick-changed: payload contains the updated draft
+    /// - round-added / round-removed / draft-reset: payload contains the updated draft
+    /// - trade-created: payload contains the trade and the updated draft
+    /// 
+    /// A comment line is sent every 15 seconds to keep idle connections (and proxies) alive.
+    /// </remarks>
+    /// <response code="200">Event stream (text/event-stream)</response>
+    [HttpGet("events")]
+    [Produces("text/event-stream")]
+    public async Task StreamEvents(CancellationToken cancellationToken)
+    {
+        Response.ContentType = "text/event-stream";
+        Response.Headers.Append("Cache-Control", "no-cache");
+        Response.Headers.Append("X-Accel-Buffering", "no");
+
+        var (subscriberId, reader) = _draftEventService.Subscribe(_leagueContext.LeagueId);
+        try
+        {
+            await Response.WriteAsync(": connected\n\n", cancellationToken);
+            await Response.Body.FlushAsync(cancellationToken);
+
+            while (!cancellationToken.IsCancellationRequested)
+            {
+                using var heartbeat = CancellationTokenSource.CreateLinkedTokenSource(cancellationToken);
+                heartbeat.CancelAfter(TimeSpan.FromSeconds(15));
+
+                try
+                {
+                    if (!await reader.WaitToReadAsync(heartbeat.Token))
+                    {
+                        break;
+                    }
+                }
+                catch (OperationCanceledException) when (!cancellationToken.IsCancellationRequested)
+                {
+                    await Response.WriteAsync(": keepalive\n\n", cancellationToken);
+                    await Response.Body.FlushAsync(cancellationToken);
+                    continue;
+                }
+
+                while (reader.TryRead(out var draftEvent))
+                {
+                    await Response.WriteAsync(DraftEventService.ToServerSentEvent(draftEvent), cancellationToken);
+                }
+                await Response.Body.FlushAsync(cancellationToken);
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            // Client disconnected
+        }
+        finally
+        {
+            _draftEventService.Unsubscribe(subscriberId);
+        }
+    }
     
     /// <summary>
     /// Updates the active pick in the current draft
@@ -236,6 +348,7 @@ public class DraftController : ControllerBase
     /// <response code="404">No active draft found</response>
     /// <response code="500">Internal server error updating pick state</response>
     [HttpPost("updateActivePick")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
     [ProducesResponseType(typeof(ApiResponse<Draft>), 200)]
     [ProducesResponseType(typeof(ApiResponse<string>), 400)]
     [ProducesResponseType(typeof(ApiResponse<string>), 404)]
@@ -262,6 +375,7 @@ public class DraftController : ControllerBase
             }
 
             // Get updated draft
+            var previousDraft = draft;
             draft = await _draftService.GetByIdAsync(draft.Id!);
 
             _logger.LogInformation(
@@ -269,6 +383,14 @@ public class DraftController : ControllerBase
                 draft.CurrentRound, draft.CurrentPick, draft.CurrentOverallPick,
                 draft.ActiveRound, draft.ActivePick, draft.ActiveOverallPick);
 
+            await RecordHistoryAsync(
+                DraftActionType.ActivePickMove,
+                previousDraft,
+                draft,
+                $"Moved active pick from #{previousDraft.ActiveOverallPick} to #{request.OverallPickNumber}");
+
+            _draftEventService.Publish(DraftEventTypes.ActivePickChanged, new { draft });
+
             return Ok(new { value = draft });
         }
         catch (Exception ex)
@@ -283,13 +405,16 @@ public class DraftController : ControllerBase
     /// Creates a new draft
     /// </summary>
     /// <remarks>
-    /// Creates a draft with specified settings including year, type, snake draft option, initial rounds, and draft order.
+    /// Creates a draft with specified settings including year, type, pick order strategy, initial rounds, and draft order.
+    /// Older clients can still send isSnakeDraft; orderStrategy wins when both are set.
+    /// With a lotteryId, the draft order comes from that lottery's results and the lottery is marked as used.
     /// </remarks>
     /// <param name="request">Draft creation parameters including year, type, rounds, and order</param>
     /// <response code="200">Returns the newly created Draft object</response>
     /// <response code="400">Invalid draft creation parameters</response>
     /// <response code="500">Internal server error creating draft</response>
     [HttpPost]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
     [ProducesResponseType(typeof(ApiResponse<Draft>), 200)]
     [ProducesResponseType(typeof(ApiResponse<string>), 400)]
     [ProducesResponseType(typeof(ApiResponse<string>), 500)]
@@ -297,12 +422,39 @@ public class DraftController : ControllerBase
     {
         try
         {
+            var draftOrder = request.DraftOrder;
+            if (request.LotteryId != null)
+            {
+                var lottery = await _lotteryService.GetByIdAsync(request.LotteryId);
+                if (lottery == null)
+                    return BadRequest(new { message = "Lottery not found" });
+                if (lottery.DraftId != null)
+                    return BadRequest(new { message = "That lottery's order has already been used for a draft" });
+                if (lottery.Year != request.Year)
+                    return BadRequest(new { message = $"That lottery was for the {lottery.Year} draft" });
+
+                draftOrder = lottery.Results
+                    .OrderBy(r => r.Slot)
+                    .Select(r => new DraftPosition { ManagerId = r.ManagerId, PickNumber = r.Slot })
+                    .ToArray();
+            }
+
             var draft = await _draftService.CreateDraftAsync(
                 request.Year,
                 request.Type,
-                request.IsSnakeDraft,
+                request.OrderStrategy ?? (request.IsSnakeDraft ? DraftOrderStrategy.Snake : DraftOrderStrategy.Linear),
                 request.InitialRounds,
-                request.DraftOrder);
+                draftOrder,
+                request.CustomRoundOrders,
+                request.Auction == null ? null : new Auction
+                {
+                    Budget = request.Auction.Budget,
+                    MinimumBid = request.Auction.MinimumBid
+                });
+            if (request.LotteryId != null)
+            {
+                await _lotteryService.AttachToDraftAsync(request.LotteryId, draft.Id!);
+            }
             return Ok(new { value = draft });
         }
         catch (InvalidOperationException ex)
@@ -311,6 +463,12 @@ public class DraftController : ControllerBase
 
             return BadRequest(new { message = ex.Message });
         }
+        catch (ArgumentException ex)
+        {
+            // Bad draft settings, such as a custom round order that leaves out a manager
+            _logger.LogWarning(ex, "Invalid draft settings when creating draft");
+            return BadRequest(new { message = ex.Message });
+        }
         catch (Exception ex)
         {
             _logger.LogError(ex, "Error creating draft");
@@ -331,10 +489,13 @@ public class DraftController : ControllerBase
     /// - Each status contains the draft ID, manager ID, round, pick, and overall pick number
     /// - Multiple draft statuses allow tracking a player across different drafts
     /// - Draft status is immutable once created
+    /// 
+    /// Managers can only make or undo their own team's picks; commissioners can change any pick.
     /// </remarks>
     /// <param name="request">Pick completion details including round, manager, and player</param>
     /// <response code="200">Returns the updated Draft object</response>
-    /// <response code="400">Pick is already complete</response>
+    /// <response code="400">Pick is already complete, or the player being undrafted wasn't taken with this pick</response>
+    /// <response code="403">The pick, or the player being undrafted, doesn't belong to the signed-in account's team</response>
     /// <response code="404">No active draft found or pick not found</response>
     /// <response code="500">Internal server error marking pick complete</response>
     [HttpPost("pick")]
@@ -354,8 +515,7 @@ public class DraftController : ControllerBase
                 return NotFound(new { message = "No active draft found" });
             }
 
-            // Determine if snake draft
-            string isSnakeDraft = existingDraft?.IsSnakeDraft == true ? "snake" : "standard";
+            var orderStrategy = DraftOrderEngine.GetStrategy(existingDraft);
 
             // Find the round and pick in the draft
             DraftRound? round = existingDraft?.Rounds.FirstOrDefault(r => r.Picks.Any(p => p.OverallPickNumber == request.OverallPickNumber)) ?? null;
@@ -371,12 +531,37 @@ public class DraftController : ControllerBase
                 _logger.LogWarning("Pick {OverallPick} not found", request.OverallPickNumber);
                 return NotFound(new { message = "Pick not found in draft" });
             }
+            var pickOwner = pick.TradedTo.Any() ? pick.TradedTo.Last() : pick.ManagerId;
+            if (!await _managerService.CanActForAsync(pickOwner) || !await _managerService.CanActForAsync(request.ManagerId))
+            {
+                _logger.LogWarning("Rejected pick {OverallPick} for manager {ManagerId} from another team's account", request.OverallPickNumber, request.ManagerId);
+                return StatusCode(403, new { message = "You can only make picks for your own team" });
+            }
             string pickNumber = pick?.PickNumber.ToString() ?? "N/A";
+            // Keep a copy of the player for the event log
+            var playerBefore = await _playerService.GetAsync(request.PlayerId);
             // Get the pick complete state BEFORE we toggle it
             bool IsComplete = pick?.IsComplete ?? false;
+            if (!IsComplete && existingDraft!.Auction != null)
+            {
+                return BadRequest(new { message = "Players in an auction draft go to the highest bidder" });
+            }
             // If it's a previously completed pick, we're toggling it to not complete
             if (IsComplete)
             {
+                // The player has to be the one taken with this pick, by a team the caller can act for
+                var draftStatus = playerBefore?.DraftStatuses.FirstOrDefault(ds => ds.DraftId == existingDraft!.Id && ds.IsDrafted);
+                if (draftStatus == null || draftStatus.OverallPick != request.OverallPickNumber)
+                {
+                    _logger.LogWarning("Player {PlayerId} was not taken with pick {OverallPick}", request.PlayerId, request.OverallPickNumber);
+                    return BadRequest(new { message = "That player wasn't taken with this pick" });
+                }
+                if (!await _managerService.CanActForAsync(draftStatus.ManagerId))
+                {
+                    _logger.LogWarning("Rejected undrafting player {PlayerId} from manager {ManagerId} by another team's account", request.PlayerId, draftStatus.ManagerId);
+                    return StatusCode(403, new { message = "You can only undo your own team's picks" });
+                }
+
                 var playerSuccess = await _playerService.UndraftPlayerAsync(request.PlayerId);
                 if (!playerSuccess)
                 {
@@ -430,8 +615,10 @@ public class DraftController : ControllerBase
             if (pick?.OverallPickNumber >= currentPick.OverallPickNumber && !IsComplete)
             {
                 _logger.LogInformation("Completed pick is current pick. Updating active and current pick.");
-                // Update active and current picks
-                var stateSuccess = await _draftService.UpdatePickStateAsync(pick.OverallPickNumber + 1, true);
+                // Update active and current picks, skipping keeper picks that were filled before the draft started
+                var nextPick = await _draftService.GetNextPickAsync(pick.OverallPickNumber, skipCompleted: true);
+                var targetPick = nextPick?.OverallPickNumber ?? existingDraft!.Rounds.Sum(r => r.Picks.Length) + 1;
+                var stateSuccess = await _draftService.UpdatePickStateAsync(targetPick, true);
                 if (stateSuccess == null)
                 {
                     _logger.LogWarning("Failed to update pick state");
@@ -439,11 +626,27 @@ public class DraftController : ControllerBase
                 }
             }
            
-            _logger.LogInformation("Updated pick {PickNumber} in round {RoundNumber} of {DraftType} draft", pickNumber, roundNumber, isSnakeDraft);
+            _logger.LogInformation("Updated pick {PickNumber} in round {RoundNumber} of {DraftType} draft", pickNumber, roundNumber, orderStrategy);
 
             // Get updated draft
             var draft = await _draftService.GetActiveDraftAsync();
             _logger.LogInformation("Retrieved active draft: {DraftId}", draft?.Id ?? "none");
+
+            var player = await _playerService.GetAsync(request.PlayerId);
+            var playerName = player?.Name ?? playerBefore?.Name ?? request.PlayerId;
+            await RecordHistoryAsync(
+                IsComplete ? DraftActionType.Undraft : DraftActionType.Pick,
+                existingDraft!,
+                draft,
+                IsComplete
+                    ? $"Undrafted {playerName} from pick #{request.OverallPickNumber}"
+                    : $"Drafted {playerName} with pick #{request.OverallPickNumber}",
+                new[] { DraftHistoryService.CreatePlayerChange(playerBefore, player, existingDraft!.Id!) });
+
+            _draftEventService.Publish(
+                IsComplete ? DraftEventTypes.PickUndone : DraftEventTypes.PickMade,
+                new { draft, player, overallPickNumber = request.OverallPickNumber, managerId = request.ManagerId });
+
             return Ok(new { value = draft });
         }
         catch (InvalidOperationException ex)
@@ -480,6 +683,7 @@ public class DraftController : ControllerBase
     /// <response code="404">Draft not found</response>
     /// <response code="500">Internal server error adding round</response>
     [HttpPost("{id}/addRound")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
     [ProducesResponseType(typeof(ApiResponse<Draft>), 200)]
     [ProducesResponseType(typeof(ApiResponse<string>), 400)]
     [ProducesResponseType(typeof(ApiResponse<string>), 404)]
@@ -502,7 +706,11 @@ public class DraftController : ControllerBase
             _logger.LogInformation(
                 "Added round {RoundNumber} to {DraftType} draft", 
                 draft.Rounds.Count,
-                draft.IsSnakeDraft ? "snake" : "standard");
+                DraftOrderEngine.GetStrategy(draft));
+
+            await RecordHistoryAsync(DraftActionType.RoundAdded, existingDraft, draft, $"Added round {draft.Rounds.Count}");
+
+            _draftEventService.Publish(DraftEventTypes.RoundAdded, new { draft });
 
             return Ok(new { value = draft });
         }
@@ -530,6 +738,7 @@ public class DraftController : ControllerBase
     /// <param name="id">The unique identifier of the draft to remove a round from</param>
     /// <returns>The updated draft with the last round removed</returns>
     [HttpPost("{id}/removeRound")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
     [ProducesResponseType(typeof(ApiResponse<Draft>), 200)]
     [ProducesResponseType(typeof(ApiResponse<string>), 400)]
     [ProducesResponseType(typeof(ApiResponse<string>), 404)]
@@ -552,7 +761,11 @@ public class DraftController : ControllerBase
             _logger.LogInformation(
                 "Removed round {RoundNumber} from {DraftType} draft", 
                 draft.Rounds.Count + 1,
-                draft.IsSnakeDraft ? "snake" : "standard");
+                DraftOrderEngine.GetStrategy(draft));
+
+            await RecordHistoryAsync(DraftActionType.RoundRemoved, existingDraft, draft, $"Removed round {draft.Rounds.Count + 1}");
+
+            _draftEventService.Publish(DraftEventTypes.RoundRemoved, new { draft });
 
             return Ok(new { value = draft });
         }
@@ -581,6 +794,7 @@ public class DraftController : ControllerBase
     /// <response code="404">Draft not found</response>
     /// <response code="500">Internal server error toggling draft status</response>
     [HttpPost("{id}/toggleActive")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
     [ProducesResponseType(typeof(ApiResponse<Draft>), 200)]
     [ProducesResponseType(typeof(ApiResponse<string>), 400)]
     [ProducesResponseType(typeof(ApiResponse<string>), 404)]
@@ -603,7 +817,7 @@ public class DraftController : ControllerBase
             _logger.LogInformation(
                 "{Action} {DraftType} draft {DraftId}", 
                 existingDraft.IsActive ? "Deactivated" : "Activated",
-                existingDraft.IsSnakeDraft ? "snake" : "standard",
+                DraftOrderEngine.GetStrategy(existingDraft),
                 id);
 
             return Ok(new { value = true });
@@ -626,10 +840,10 @@ public class DraftController : ControllerBase
     /// <remarks>
     /// Resets a draft to its initial state with the following validations and operations:
     /// - Draft must exist and be active
-    /// - Clears all completed picks
-    /// - Resets pick tracking to round 1, pick 1
-    /// - Resets draft status for all players
-    /// - Both current and active picks are reset to the start
+    /// - Clears all completed picks except those spent on keepers
+    /// - Resets pick tracking to the first pick not spent on a keeper
+    /// - Resets draft status for all players other than keepers
+    /// - Both current and active picks are reset to that pick
     /// </remarks>
     /// <param name="id">The ID of the draft to reset</param>
     /// <response code="200">Returns the updated Draft object</response>
@@ -637,6 +851,7 @@ public class DraftController : ControllerBase
     /// <response code="404">Draft not found</response>
     /// <response code="500">Internal server error resetting draft</response>
     [HttpPost("{id}/reset")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
     [ProducesResponseType(typeof(ApiResponse<Draft>), 200)]
     [ProducesResponseType(typeof(ApiResponse<string>), 400)]
     [ProducesResponseType(typeof(ApiResponse<string>), 404)]
@@ -659,18 +874,39 @@ public class DraftController : ControllerBase
 
             _logger.LogInformation("Resetting draft {Year} {Type} {DraftId}", existingDraft.Year, existingDraft.Type, id);
 
+            // Capture drafted players so the reset can be undone; keepers stay on their picks
+            var draftedPlayers = await _playerService.GetDraftedInDraftAsync(id);
+            var keeperPicks = draftedPlayers
+                .SelectMany(p => p.DraftStatuses.Where(ds => ds.DraftId == id && ds.IsKeeper))
+                .Select(ds => ds.OverallPick)
+                .ToList();
+            var undrafted = draftedPlayers
+                .Where(p => !p.DraftStatuses.Any(ds => ds.DraftId == id && ds.IsKeeper))
+                .ToList();
+
             // Reset the draft itself first
-            var draftResult = await _draftService.ResetAsync(id);
+            var draftResult = await _draftService.ResetAsync(id, keeperPicks);
 
             // Then reset player statuses
             var playersResult = await _playerService.ResetDraftStatusAsync(id);
             
             _logger.LogInformation(
                 "Reset {DraftType} draft with {RoundCount} rounds", 
-                draftResult.IsSnakeDraft ? "snake" : "standard",
+                DraftOrderEngine.GetStrategy(draftResult),
                 draftResult.Rounds.Count);
 
-            return Ok(new { value = draftResult });
+            // ResetAsync hands back the draft as it was before the reset
+            var resetDraft = await _draftService.GetByIdAsync(id);
+            await RecordHistoryAsync(
+                DraftActionType.Reset,
+                existingDraft,
+                resetDraft,
+                $"Reset draft ({undrafted.Count} players undrafted)",
+                undrafted.Select(p => DraftHistoryService.CreatePlayerChange(p, null, id)));
+
+            _draftEventService.Publish(DraftEventTypes.DraftReset, new { draft = resetDraft });
+
+            return Ok(new { value = resetDraft });
         }
         catch (InvalidOperationException ex)
         {
@@ -684,6 +920,361 @@ public class DraftController : ControllerBase
         }
     }    
 
+    /// <summary>
+    /// Retrieves the event log for a draft
+    /// </summary>
+    /// <remarks>
+    /// Returns the most recent draft actions (picks, undrafts, active pick moves, round changes and resets),
+    /// newest first. Undone actions remain in the list, flagged with isUndone, until a new action is recorded.
+    /// </remarks>
+    /// <param name="id">The ID of the draft</param>
+    /// <param name="limit">Maximum number of entries to return (default 50)</param>
+    /// <response code="200">Returns list of DraftHistoryEntry objects</response>
+    /// <response code="404">Draft not found</response>
+    /// <response code="500">Internal server error retrieving history</response>
+    [HttpGet("{id}/history")]
+    [ProducesResponseType(typeof(ApiResponse<List<DraftHistoryEntry>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 404)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetHistory(string id, int limit = 50)
+    {
+        try
+        {
+            var draft = await _draftService.GetByIdAsync(id);
+            if (draft == null)
+            {
+                return NotFound(new { message = "Draft not found" });
+            }
+
+            var history = await _draftHistoryService.GetHistoryAsync(id, limit);
+            return Ok(new { value = history });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting history for draft {DraftId}", id);
+            return StatusCode(500, new { message = "Error getting draft history" });
+        }
+    }
+
+    /// <summary>
+    /// Undoes the most recent draft actions
+    /// </summary>
+    /// <remarks>
+    /// Reverts the last N actions in one operation, restoring both the draft (pick completion, current and
+    /// active pick, rounds) and the draft status of every affected player.
+    /// 
+    /// Pick ownership from trades, the pick clock, auction budgets and custom round orders are not rolled back.
+    /// </remarks>
+    /// <param name="id">The ID of the draft</param>
+    /// <param name="request">Number of actions to undo</param>
+    /// <response code="200">Returns the updated Draft object</response>
+    /// <response code="400">Nothing to undo</response>
+    /// <response code="404">Draft not found</response>
+    /// <response code="500">Internal server error undoing actions</response>
+    [HttpPost("{id}/undo")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<Draft>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 404)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Undo(string id, [FromBody] DraftHistoryStepRequest request)
+    {
+        try
+        {
+            var existingDraft = await _draftService.GetByIdAsync(id);
+            if (existingDraft == null)
+            {
+                _logger.LogWarning("Draft not found: {DraftId}", id);
+                return NotFound(new { message = "Draft not found" });
+            }
+
+            var draft = await _draftHistoryService.UndoAsync(id, request.Count);
+            _draftEventService.Publish(DraftEventTypes.HistoryChanged, new { draft });
+
+            return Ok(new { value = draft });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning("Cannot undo: {Message}", ex.Message);
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to undo draft actions");
+            return StatusCode(500, new { message = "Error undoing draft actions" });
+        }
+    }
+
+    /// <summary>
+    /// Redoes previously undone draft actions
+    /// </summary>
+    /// <remarks>
+    /// Re-applies the next N undone actions in one operation. Recording any new draft action clears the redo history.
+    /// </remarks>
+    /// <param name="id">The ID of the draft</param>
+    /// <param name="request">Number of actions to redo</param>
+    /// <response code="200">Returns the updated Draft object</response>
+    /// <response code="400">Nothing to redo</response>
+    /// <response code="404">Draft not found</response>
+    /// <response code="500">Internal server error redoing actions</response>
+    [HttpPost("{id}/redo")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<Draft>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 404)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Redo(string id, [FromBody] DraftHistoryStepRequest request)
+    {
+        try
+        {
+            var existingDraft = await _draftService.GetByIdAsync(id);
+            if (existingDraft == null)
+            {
+                _logger.LogWarning("Draft not found: {DraftId}", id);
+                return NotFound(new { message = "Draft not found" });
+            }
+
+            var draft = await _draftHistoryService.RedoAsync(id, request.Count);
+            _draftEventService.Publish(DraftEventTypes.HistoryChanged, new { draft });
+
+            return Ok(new { value = draft });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning("Cannot redo: {Message}", ex.Message);
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to redo draft actions");
+            return StatusCode(500, new { message = "Error redoing draft actions" });
+        }
+    }
+
+    /// <summary>
+    /// Retrieves the pick clock status for the active draft
+    /// </summary>
+    /// <remarks>
+    /// Returns the time remaining on the pick currently on the clock and the owning manager's time bank.
+    /// Remaining times are computed at serverTime; clients count down locally between updates.
+    /// </remarks>
+    /// <response code="200">Returns the PickClockStatus, or null if there is no active draft</response>
+    /// <response code="500">Internal server error retrieving the clock</response>
+    [HttpGet("clock")]
+    [ProducesResponseType(typeof(ApiResponse<PickClockStatus>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetPickClock()
+    {
+        try
+        {
+            var status = await _pickClockService.GetStatusAsync();
+            return Ok(new { value = status });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting pick clock");
+            return StatusCode(500, new { message = "Error getting pick clock" });
+        }
+    }
+
+    /// <summary>
+    /// Suggests the best available players for the active pick
+    /// </summary>
+    /// <remarks>
+    /// Blends the chosen ranking sources, prospect ranks, a projection category and personal ranks into a
+    /// 0-100 score across the undrafted pool, then boosts players at positions the picking manager still needs.
+    /// Each suggestion lists the reasons it was made.
+    /// 
+    /// Sample request:
+    /// 
+    ///     GET /draft/recommendations?rankingSources=IBW&amp;rankingSources=STEAMER&amp;projectionSource=STEAMER&amp;projectionCategory=HR&amp;count=10
+    /// </remarks>
+    /// <param name="request">Sources to blend, the manager to recommend for and how many players to return</param>
+    /// <response code="200">Returns the RecommendationResult</response>
+    /// <response code="400">No active draft</response>
+    /// <response code="500">Internal server error building recommendations</response>
+    [HttpGet("recommendations")]
+    [ProducesResponseType(typeof(ApiResponse<RecommendationResult>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetRecommendations([FromQuery] RecommendationRequest request)
+    {
+        try
+        {
+            var result = await _recommendationService.GetRecommendationsAsync(request);
+            return Ok(new { value = result });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting recommendations");
+            return StatusCode(500, new { message = "Error getting recommendations" });
+        }
+    }
+
+    /// <summary>
+    /// Summarizes every manager's roster in the active draft
+    /// </summary>
+    /// <remarks>
+    /// For each manager with a pick in the draft, counts how many of the league's position slots their drafted
+    /// players cover and totals their projections in each scoring category. Counting stats are summed and
+    /// rate stats are averaged by projected games or innings. Each total is ranked against the other managers.
+    /// 
+    /// Sample request:
+    /// 
+    ///     GET /draft/team-summaries?projectionSource=STEAMER
+    /// </remarks>
+    /// <param name="projectionSource">Projections to total; defaults to the league's value projections</param>
+    /// <response code="200">Returns the TeamSummaryResult</response>
+    /// <response code="400">No active draft</response>
+    /// <response code="500">Internal server error building team summaries</response>
+    [HttpGet("team-summaries")]
+    [ProducesResponseType(typeof(ApiResponse<TeamSummaryResult>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetTeamSummaries([FromQuery] string? projectionSource = null)
+    {
+        try
+        {
+            var result = await _teamSummaryService.GetSummariesAsync(projectionSource);
+            return Ok(new { value = result });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting team summaries");
+            return StatusCode(500, new { message = "Error getting team summaries" });
+        }
+    }
+
+    /// <summary>
+    /// Configures the pick clock for a draft
+    /// </summary>
+    /// <remarks>
+    /// Sets the seconds allowed per pick, optional per-round overrides, each manager's time bank and what
+    /// happens when a manager runs out of time. A newly enabled clock starts paused.
+    /// 
+    /// Sample request:
+    /// 
+    ///     PUT /draft/{id}/clock
+    ///     {
+    ///         "enabled": true,
+    ///         "secondsPerPick": 90,
+    ///         "roundOverrides": [{ "round": 1, "seconds": 180 }],
+    ///         "timeBankSeconds": 300,
+    ///         "expiryPolicy": "AutoAdvance",
+    ///         "resetTimeBanks": false
+    ///     }
+    /// </remarks>
+    /// <param name="id">The ID of the draft</param>
+    /// <param name="request">The clock settings</param>
+    /// <response code="200">Returns the updated PickClockStatus</response>
+    /// <response code="400">Invalid clock settings, or the draft is an auction draft</response>
+    /// <response code="404">Draft not found</response>
+    /// <response code="500">Internal server error updating the clock</response>
+    [HttpPut("{id}/clock")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<PickClockStatus>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 404)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> UpdatePickClock(string id, [FromBody] UpdatePickClockRequest request)
+    {
+        try
+        {
+            var existingDraft = await _draftService.GetByIdAsync(id);
+            if (existingDraft == null)
+            {
+                _logger.LogWarning("Draft not found: {DraftId}", id);
+                return NotFound(new { message = "Draft not found" });
+            }
+
+            var status = await _pickClockService.ConfigureAsync(id, request);
+            return Ok(new { value = status });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning("Cannot update pick clock: {Message}", ex.Message);
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to update pick clock for draft {DraftId}", id);
+            return StatusCode(500, new { message = "Error updating pick clock" });
+        }
+    }
+
+    /// <summary>
+    /// Pauses the pick clock for a draft
+    /// </summary>
+    /// <param name="id">The ID of the draft</param>
+    /// <response code="200">Returns the updated PickClockStatus</response>
+    /// <response code="400">The draft has no enabled pick clock</response>
+    /// <response code="500">Internal server error pausing the clock</response>
+    [HttpPost("{id}/clock/pause")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<PickClockStatus>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> PausePickClock(string id)
+    {
+        try
+        {
+            var status = await _pickClockService.PauseAsync(id);
+            return Ok(new { value = status });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning("Cannot pause pick clock: {Message}", ex.Message);
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to pause pick clock for draft {DraftId}", id);
+            return StatusCode(500, new { message = "Error pausing pick clock" });
+        }
+    }
+
+    /// <summary>
+    /// Resumes the pick clock for a draft
+    /// </summary>
+    /// <remarks>
+    /// If the active pick changed while paused, the clock restarts on the new active pick.
+    /// </remarks>
+    /// <param name="id">The ID of the draft</param>
+    /// <response code="200">Returns the updated PickClockStatus</response>
+    /// <response code="400">The draft has no enabled pick clock</response>
+    /// <response code="500">Internal server error resuming the clock</response>
+    [HttpPost("{id}/clock/resume")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<PickClockStatus>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> ResumePickClock(string id)
+    {
+        try
+        {
+            var status = await _pickClockService.ResumeAsync(id);
+            return Ok(new { value = status });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning("Cannot resume pick clock: {Message}", ex.Message);
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to resume pick clock for draft {DraftId}", id);
+            return StatusCode(500, new { message = "Error resuming pick clock" });
+        }
+    }
+
     /// <summary>
     /// Deletes a draft and resets associated player draft statuses
     /// </summary>
@@ -697,6 +1288,7 @@ public class DraftController : ControllerBase
     /// <response code="404">Draft not found</response>
     /// <response code="500">Internal server error deleting draft</response>
     [HttpDelete("{id}")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
     [ProducesResponseType(typeof(ApiResponse<bool>), 200)]
     [ProducesResponseType(typeof(ApiResponse<string>), 400)]
     [ProducesResponseType(typeof(ApiResponse<string>), 404)]
@@ -715,14 +1307,16 @@ public class DraftController : ControllerBase
             }
             
             // Reset draft status for players before deleting the draft
-            await _playerService.ResetDraftStatusAsync(id);
+            await _playerService.ResetDraftStatusAsync(id, includeKeepers: true);
             
             // Delete the draft
             await _draftService.DeleteAsync(id);
+            await _draftHistoryService.ClearAsync(id);
+            await _lotteryService.DetachFromDraftAsync(id);
             
             _logger.LogInformation(
                 "Deleted {DraftType} draft with {RoundCount} rounds", 
-                existingDraft.IsSnakeDraft ? "snake" : "standard",
+                DraftOrderEngine.GetStrategy(existingDraft),
                 existingDraft.Rounds.Count);
 
             return Ok(new { value = true });
@@ -0,0 +1,121 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+[ApiController]
+[Route("[controller]")]
+public class FuturePickController : ControllerBase
+{
+    private readonly FuturePickService _futurePickService;
+    private readonly ILogger<FuturePickController> _logger;
+
+    public FuturePickController(
+        FuturePickService futurePickService,
+        ILogger<FuturePickController> logger)
+    {
+        _futurePickService = futurePickService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Retrieves the ledger of picks in drafts that haven't been created yet
+    /// </summary>
+    /// <remarks>
+    /// A pick's current owner is the last manager in its tradedTo list, or its original manager if it
+    /// has never been traded. Picks drop out of the ledger once their year's draft is created.
+    /// </remarks>
+    /// <response code="200">Returns future picks ordered by year and round</response>
+    /// <response code="500">Internal server error retrieving the ledger</response>
+    [HttpGet]
+    [ProducesResponseType(typeof(ApiResponse<List<FuturePick>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetLedger()
+    {
+        try
+        {
+            var picks = await _futurePickService.GetLedgerAsync();
+            return Ok(new { value = picks });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting future picks");
+            return StatusCode(500, new { message = "Error getting future picks" });
+        }
+    }
+
+    /// <summary>
+    /// Adds a future year's picks to the ledger
+    /// </summary>
+    /// <remarks>
+    /// Every manager in the active draft's order gets one pick per round. Running this again with more
+    /// rounds adds the missing ones without touching picks that already exist.
+    ///
+    /// Sample request:
+    ///
+    ///     POST /futurepick
+    ///     {
+    ///         "year": 2026,
+    ///         "rounds": 3
+    ///     }
+    /// </remarks>
+    /// <param name="request">The year and how many rounds of picks to track</param>
+    /// <response code="200">Returns the year's future picks</response>
+    /// <response code="400">No active draft, the year is out of range, or its draft already exists</response>
+    /// <response code="500">Internal server error adding the picks</response>
+    [HttpPost]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<List<FuturePick>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> CreateYear([FromBody] CreateFuturePicksRequest request)
+    {
+        try
+        {
+            var picks = await _futurePickService.CreateYearAsync(request.Year, request.Rounds);
+            return Ok(new { value = picks });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating future picks for {Year}", request.Year);
+            return StatusCode(500, new { message = "Error creating future picks" });
+        }
+    }
+
+    /// <summary>
+    /// Removes a year from the ledger
+    /// </summary>
+    /// <param name="year">The year to remove</param>
+    /// <response code="200">The year's picks were removed</response>
+    /// <response code="400">Some of the year's picks have been traded</response>
+    /// <response code="500">Internal server error removing the picks</response>
+    [HttpDelete("{year:int}")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> DeleteYear(int year)
+    {
+        try
+        {
+            await _futurePickService.DeleteYearAsync(year);
+            return Ok();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting future picks for {Year}", year);
+            return StatusCode(500, new { message = "Error deleting future picks" });
+        }
+    }
+}
@@ -0,0 +1,185 @@
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+[ApiController]
+[Route("[controller]")]
+public class KeeperController : ControllerBase
+{
+    private readonly KeeperService _keeperService;
+    private readonly DraftService _draftService;
+    private readonly PlayerService _playerService;
+    private readonly ManagerService _managerService;
+    private readonly DraftEventService _draftEventService;
+    private readonly ILogger<KeeperController> _logger;
+
+    public KeeperController(
+        KeeperService keeperService,
+        DraftService draftService,
+        PlayerService playerService,
+        ManagerService managerService,
+        DraftEventService draftEventService,
+        ILogger<KeeperController> logger)
+    {
+        _keeperService = keeperService;
+        _draftService = draftService;
+        _playerService = playerService;
+        _managerService = managerService;
+        _draftEventService = draftEventService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Retrieves the players kept in the active draft
+    /// </summary>
+    /// <response code="200">Returns keepers in pick order, or an empty list if there is no active draft</response>
+    /// <response code="500">Internal server error retrieving keepers</response>
+    [HttpGet]
+    [ProducesResponseType(typeof(ApiResponse<List<Keeper>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetKeepers()
+    {
+        try
+        {
+            var keepers = await _keeperService.GetKeepersAsync();
+            return Ok(new { value = keepers });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting keepers");
+            return StatusCode(500, new { message = "Error getting keepers" });
+        }
+    }
+
+    /// <summary>
+    /// Retrieves the players a manager is allowed to keep in the active draft
+    /// </summary>
+    /// <remarks>
+    /// A player can be kept by whoever held them after the most recent earlier-year draft they were part of,
+    /// including players acquired by trade. Players already taken in the active draft are left out.
+    /// </remarks>
+    /// <param name="managerId">The manager choosing keepers</param>
+    /// <response code="200">Returns the candidates, most recently drafted first</response>
+    /// <response code="400">No active draft</response>
+    /// <response code="500">Internal server error retrieving candidates</response>
+    [HttpGet("candidates/{managerId}")]
+    [ProducesResponseType(typeof(ApiResponse<List<KeeperCandidate>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetCandidates(string managerId)
+    {
+        try
+        {
+            var candidates = await _keeperService.GetCandidatesAsync(managerId);
+            return Ok(new { value = candidates });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting keeper candidates for manager {ManagerId}", managerId);
+            return StatusCode(500, new { message = "Error getting keeper candidates" });
+        }
+    }
+
+    /// <summary>
+    /// Keeps a player for a manager in the active draft
+    /// </summary>
+    /// <remarks>
+    /// The keeper fills one of the manager's open picks, which is marked complete. Give a round to spend
+    /// that round's pick; otherwise the manager's last open pick is used. Keepers can only be added before
+    /// the first regular pick is made.
+    ///
+    /// Sample request:
+    ///
+    ///     POST /keeper
+    ///     {
+    ///         "playerId": "507f1f77bcf86cd799439011",
+    ///         "managerId": "507f1f77bcf86cd799439012",
+    ///         "round": 3
+    ///     }
+    /// </remarks>
+    /// <param name="request">The player, the manager keeping them, and optionally the round it costs</param>
+    /// <response code="200">Returns the keeper and the pick it filled</response>
+    /// <response code="400">The draft has started, the player can't be kept, or there is no open pick to spend</response>
+    /// <response code="403">The manager isn't the signed-in account's team</response>
+    /// <response code="500">Internal server error keeping the player</response>
+    [HttpPost]
+    [ProducesResponseType(typeof(ApiResponse<Keeper>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 403)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> AddKeeper([FromBody] AddKeeperRequest request)
+    {
+        try
+        {
+            if (!await _managerService.CanActForAsync(request.ManagerId))
+            {
+                return StatusCode(403, new { message = "You can only keep players for your own team" });
+            }
+
+            var keeper = await _keeperService.AddKeeperAsync(request.PlayerId, request.ManagerId, request.Round);
+            await PublishChangeAsync(request.PlayerId);
+            return Ok(new { value = keeper });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error keeping player {PlayerId} for manager {ManagerId}", request.PlayerId, request.ManagerId);
+            return StatusCode(500, new { message = "Error keeping player" });
+        }
+    }
+
+    /// <summary>
+    /// Releases a keeper into the draft pool and reopens the pick it filled
+    /// </summary>
+    /// <param name="playerId">The kept player</param>
+    /// <response code="200">The keeper was released</response>
+    /// <response code="400">The draft has started or the player isn't a keeper</response>
+    /// <response code="403">The keeper belongs to another team</response>
+    /// <response code="500">Internal server error releasing the keeper</response>
+    [HttpDelete("{playerId}")]
+    [ProducesResponseType(200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 403)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> RemoveKeeper(string playerId)
+    {
+        try
+        {
+            var keeper = (await _keeperService.GetKeepersAsync()).FirstOrDefault(k => k.PlayerId == playerId);
+            if (keeper != null && !await _managerService.CanActForAsync(keeper.ManagerId))
+            {
+                return StatusCode(403, new { message = "You can only release your own team's keepers" });
+            }
+
+            await _keeperService.RemoveKeeperAsync(playerId);
+            await PublishChangeAsync(playerId);
+            return Ok();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error releasing keeper {PlayerId}", playerId);
+            return StatusCode(500, new { message = "Error releasing keeper" });
+        }
+    }
+
+    private async Task PublishChangeAsync(string playerId)
+    {
+        var draft = await _draftService.GetActiveDraftAsync();
+        var player = await _playerService.GetAsync(playerId);
+        _draftEventService.Publish(DraftEventTypes.KeepersChanged, new { draft, player });
+    }
+}
@@ -0,0 +1,152 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+/// <summary>
+/// Lists and manages leagues
+/// </summary>
+/// <remarks>
+/// Every other endpoint works in the league named by the X-League-Id header (or ?leagueId= on the event
+/// stream), falling back to the default league when neither is sent.
+/// </remarks>
+[ApiController]
+[Route("[controller]")]
+public class LeagueController : ControllerBase
+{
+    private readonly LeagueService _leagueService;
+    private readonly LeagueContext _leagueContext;
+    private readonly ILogger<LeagueController> _logger;
+
+    public LeagueController(
+        LeagueService leagueService,
+        LeagueContext leagueContext,
+        ILogger<LeagueController> logger)
+    {
+        _leagueService = leagueService;
+        _leagueContext = leagueContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Retrieves every league and which one is the default
+    /// </summary>
+    /// <response code="200">Returns the leagues, oldest first, and the default league's id</response>
+    /// <response code="500">Internal server error retrieving leagues</response>
+    [HttpGet]
+    [ProducesResponseType(typeof(ApiResponse<List<League>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetAll()
+    {
+        try
+        {
+            var leagues = await _leagueService.GetAllAsync();
+            return Ok(new { value = leagues, defaultLeagueId = _leagueContext.DefaultLeagueId });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting leagues");
+            return StatusCode(500, new { message = "Error getting leagues" });
+        }
+    }
+
+    /// <summary>
+    /// Creates a league
+    /// </summary>
+    /// <remarks>
+    /// The new league starts without managers or drafts, and with default settings.
+    ///
+    /// Sample request:
+    ///
+    ///     POST /league
+    ///     {
+    ///         "name": "Dynasty League"
+    ///     }
+    /// </remarks>
+    /// <response code="200">Returns the created league</response>
+    /// <response code="400">The name is blank or already used</response>
+    /// <response code="500">Internal server error creating the league</response>
+    [HttpPost]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<League>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Create([FromBody] LeagueRequest request)
+    {
+        try
+        {
+            var league = await _leagueService.CreateAsync(request.Name);
+            return Ok(new { value = league });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating league {LeagueName}", request.Name);
+            return StatusCode(500, new { message = "Error creating league" });
+        }
+    }
+
+    /// <summary>
+    /// Renames a league
+    /// </summary>
+    /// <response code="200">Returns the renamed league</response>
+    /// <response code="400">The league wasn't found, or the name is blank or already used</response>
+    /// <response code="500">Internal server error renaming the league</response>
+    [HttpPut("{id:length(24)}")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<League>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Rename(string id, [FromBody] LeagueRequest request)
+    {
+        try
+        {
+            var league = await _leagueService.RenameAsync(id, request.Name);
+            return Ok(new { value = league });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error renaming league {LeagueId}", id);
+            return StatusCode(500, new { message = "Error renaming league" });
+        }
+    }
+
+    /// <summary>
+    /// Deletes a league that has no managers or drafts
+    /// </summary>
+    /// <response code="200">The league was deleted</response>
+    /// <response code="400">The league wasn't found, is the default league, or isn't empty</response>
+    /// <response code="500">Internal server error deleting the league</response>
+    [HttpDelete("{id:length(24)}")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Delete(string id)
+    {
+        try
+        {
+            await _leagueService.DeleteAsync(id);
+            return Ok(new { message = "League deleted" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting league {LeagueId}", id);
+            return StatusCode(500, new { message = "Error deleting league" });
+        }
+    }
+}
@@ -1,3 +1,4 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using DraftEngine.Models;
 using DraftEngine.Models.Data;
@@ -10,13 +11,16 @@ namespace DraftEngine.Controllers
     public class LeagueSettingsController : ControllerBase
     {
         private readonly LeagueSettingsService _settingsService;
+        private readonly LeagueValueService _leagueValueService;
         private readonly ILogger<LeagueSettingsController> _logger;
 
         public LeagueSettingsController(
             LeagueSettingsService settingsService,
+            LeagueValueService leagueValueService,
             ILogger<LeagueSettingsController> logger)
         {
             _settingsService = settingsService;
+            _leagueValueService = leagueValueService;
             _logger = logger;
         }
 
@@ -36,13 +40,21 @@ namespace DraftEngine.Controllers
         }
 
         [HttpPut]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         public async Task<IActionResult> UpdateSettings(LeagueSettings settings)
         {
             try
             {
                 await _settingsService.UpdateSettingsAsync(settings);
+
+                // Scoring changes move every player's value, so recalculate them all
+                await _leagueValueService.RecalculateAsync();
                 return Ok();
             }
+            catch (InvalidOperationException ex)
+            {
+                return BadRequest(ex.Message);
+            }
             catch (Exception ex)
             {
                 _logger.LogError(ex, "Error updating league settings");
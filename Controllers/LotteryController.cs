@@ -0,0 +1,98 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+[ApiController]
+[Route("[controller]")]
+public class LotteryController : ControllerBase
+{
+    private readonly LotteryService _lotteryService;
+    private readonly ILogger<LotteryController> _logger;
+
+    public LotteryController(
+        LotteryService lotteryService,
+        ILogger<LotteryController> logger)
+    {
+        _lotteryService = lotteryService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Retrieves past draft lotteries for audit
+    /// </summary>
+    /// <param name="year">Only lotteries for this draft year, if set</param>
+    /// <response code="200">Returns lotteries, newest first</response>
+    /// <response code="500">Internal server error retrieving lotteries</response>
+    [HttpGet]
+    [ProducesResponseType(typeof(ApiResponse<List<DraftLottery>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetAll([FromQuery] int? year)
+    {
+        try
+        {
+            var lotteries = await _lotteryService.GetAllAsync(year);
+            return Ok(new { value = lotteries });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting draft lotteries");
+            return StatusCode(500, new { message = "Error getting draft lotteries" });
+        }
+    }
+
+    /// <summary>
+    /// Runs a draft lottery and records its seed and results
+    /// </summary>
+    /// <remarks>
+    /// Every manager is entered with last season's standing (1 is the best record) and their percent chance
+    /// of landing each drawn slot. Each slot's odds must add up to 100%; teams outside the lottery leave their
+    /// odds empty. Slots are drawn first to last among the teams still left, weighted by their odds for that
+    /// slot; the rest pick from worst record up, with playoff teams last. Pass an earlier lottery's seed and
+    /// entries to rerun it.
+    /// Create a draft with the returned lottery's id to use its order.
+    ///
+    /// Sample request:
+    ///
+    ///     POST /lottery
+    ///     {
+    ///         "year": 2026,
+    ///         "draws": 2,
+    ///         "entries": [
+    ///             { "managerId": "65f1a...", "standing": 4, "slotOdds": [50, 30] },
+    ///             { "managerId": "65f1b...", "standing": 3, "slotOdds": [35, 40] },
+    ///             { "managerId": "65f1c...", "standing": 2, "slotOdds": [15, 30] },
+    ///             { "managerId": "65f1d...", "standing": 1, "slotOdds": [] }
+    ///         ]
+    ///     }
+    /// </remarks>
+    /// <param name="request">The draft year, optional seed, number of draws and entries</param>
+    /// <response code="200">Returns the lottery with its results in slot order</response>
+    /// <response code="400">There are no entries, or the entries, standings, odds or number of draws don't match up</response>
+    /// <response code="500">Internal server error running the lottery</response>
+    [HttpPost]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<DraftLottery>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Run([FromBody] RunLotteryRequest request)
+    {
+        try
+        {
+            var lottery = await _lotteryService.RunAsync(request.Year, request.Seed, request.Draws, request.Entries);
+            return Ok(new { value = lottery });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error running {Year} draft lottery", request.Year);
+            return StatusCode(500, new { message = "Error running draft lottery" });
+        }
+    }
+}
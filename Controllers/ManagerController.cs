@@ -1,3 +1,4 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using DraftEngine.Models;
 using DraftEngine.Models.Data;
@@ -34,11 +35,22 @@ namespace DraftEngine.Controllers
     public class ManagerController : ControllerBase
     {
         private readonly ManagerService _managerService;
+        private readonly PlayerService _playerService;
+        private readonly PickOwnershipService _pickOwnershipService;
+        private readonly DraftEventService _draftEventService;
         private readonly ILogger<ManagerController> _logger;
 
-        public ManagerController(ManagerService managerService, ILogger<ManagerController> logger)
+        public ManagerController(
+            ManagerService managerService,
+            PlayerService playerService,
+            PickOwnershipService pickOwnershipService,
+            DraftEventService draftEventService,
+            ILogger<ManagerController> logger)
         {
             _managerService = managerService;
+            _playerService = playerService;
+            _pickOwnershipService = pickOwnershipService;
+            _draftEventService = draftEventService;
             _logger = logger;
         }
 
@@ -48,7 +60,7 @@ namespace DraftEngine.Controllers
         /// <remarks>
         /// Returns all managers, including:
         /// - Basic manager information
-        /// - User manager status
+        /// - Which manager belongs to the signed-in account (isUser)
         /// - Email (if provided)
         /// 
         /// Results are typically used for:
@@ -104,28 +116,31 @@ namespace DraftEngine.Controllers
         /// <remarks>
         /// Creates a new manager with the following validation:
         /// - Ensures unique manager name
-        /// - Validates user manager designation
+        /// - Validates the linked account
         /// - Initializes required fields
         /// 
-        /// User Manager Rules:
-        /// - Only one manager can be designated as the user manager
-        /// - Attempting to create a second user manager will fail
-        /// - User manager status cannot be changed through updates
+        /// Account Rules:
+        /// - The linked account (userId) picks and trades for this manager
+        /// - An account can manage only one team per league
+        /// - isUser is worked out from the signed-in account and is ignored here
         /// 
         /// Required Fields:
         /// - Name (must be unique)
-        /// - IsUser (boolean)
         /// 
         /// Optional Fields:
         /// - Email
+        /// - UserId
+        /// 
+        /// Commissioner only.
         /// </remarks>
         /// <param name="manager">The manager data to create</param>
         /// <returns>The newly created manager</returns>
         /// <response code="201">Returns the newly created manager</response>
-        /// <response code="400">If the manager data is invalid or a user manager already exists</response>
+        /// <response code="400">If the manager data is invalid or the account already manages a team</response>
         /// <response code="409">If a manager with the same name already exists</response>
         /// <response code="500">If there was an internal server error</response>
         [HttpPost]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(StatusCodes.Status201Created)]
         [ProducesResponseType(StatusCodes.Status400BadRequest)]
         public async Task<IActionResult> Create([FromBody] Manager manager)
@@ -141,8 +156,8 @@ namespace DraftEngine.Controllers
             }
             catch (InvalidOperationException ex)
             {
-                _logger.LogError(ex, "Error creating manager: User manager already exists");
-                return BadRequest(ApiResponse<Manager>.Create(null, "A user manager already exists. Only one manager can be marked as the current user."));
+                _logger.LogError(ex, "Error creating manager: {Message}", ex.Message);
+                return BadRequest(ApiResponse<Manager>.Create(null, ex.Message));
             }
             catch (Exception ex)
             {
@@ -157,29 +172,31 @@ namespace DraftEngine.Controllers
         /// <remarks>
         /// Updates a manager with the following validation:
         /// - Ensures manager exists
-        /// - Validates user manager designation
+        /// - Validates the linked account
         /// - Maintains name uniqueness
         /// 
-        /// User Manager Rules:
-        /// - Cannot create a second user manager through updates
-        /// - Existing user manager can be updated
-        /// - Non-user managers cannot become user manager if one exists
+        /// Account Rules:
+        /// - Linking an account that already manages another team in the league fails
+        /// - Clearing userId leaves the team without an account
         /// 
         /// Update Behavior:
         /// - Replaces entire manager document
         /// - Maintains manager ID
         /// - Validates all constraints
         /// - Returns 204 on success
+        /// 
+        /// Commissioner only.
         /// </remarks>
         /// <param name="id">The ID of the manager to update</param>
         /// <param name="manager">The updated manager data</param>
         /// <returns>No content</returns>
         /// <response code="204">If the manager was successfully updated</response>
-        /// <response code="400">If a user manager already exists or the data is invalid</response>
+        /// <response code="400">If the account already manages a team or the data is invalid</response>
         /// <response code="404">If the manager is not found</response>
         /// <response code="409">If the update would create a name conflict</response>
         /// <response code="500">If there was an internal server error</response>
         [HttpPut("{id:length(24)}")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(StatusCodes.Status204NoContent)]
         [ProducesResponseType(StatusCodes.Status400BadRequest)]
         [ProducesResponseType(StatusCodes.Status404NotFound)]
@@ -199,8 +216,8 @@ namespace DraftEngine.Controllers
             }
             catch (InvalidOperationException ex)
             {
-                _logger.LogError(ex, "Error updating manager: User manager already exists");
-                return BadRequest(ApiResponse<Manager>.Create(null, "A user manager already exists. Only one manager can be marked as the current user."));
+                _logger.LogError(ex, "Error updating manager: {Message}", ex.Message);
+                return BadRequest(ApiResponse<Manager>.Create(null, ex.Message));
             }
             catch (Exception ex)
             {
@@ -209,6 +226,214 @@ namespace DraftEngine.Controllers
             }
         }
 
+        /// <summary>
+        /// Get every pick a manager owns or has traded away
+        /// </summary>
+        /// <remarks>
+        /// Covers picks in every draft as well as future picks that haven't become part of a draft yet.
+        /// Each pick lists who it started with, who holds it now, and the completed trades that moved it,
+        /// oldest first.
+        /// </remarks>
+        /// <param name="id">The ID of the manager</param>
+        /// <returns>The manager's picks by year, round and pick</returns>
+        /// <response code="200">Returns the manager's picks</response>
+        /// <response code="404">If the manager is not found</response>
+        /// <response code="500">If there was an internal server error</response>
+        [HttpGet("{id:length(24)}/picks")]
+        [ProducesResponseType(StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status404NotFound)]
+        public async Task<ActionResult<ApiResponse<List<PickOwnership>>>> GetPicks(string id)
+        {
+            try
+            {
+                var manager = await _managerService.GetByIdAsync(id);
+                if (manager is null)
+                {
+                    return NotFound(ApiResponse<List<PickOwnership>>.Create(null, $"Manager with ID {id} not found"));
+                }
+
+                var picks = await _pickOwnershipService.GetManagerPicksAsync(id);
+                return Ok(ApiResponse<List<PickOwnership>>.Create(picks));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error getting picks for manager {ManagerId}", id);
+                return StatusCode(500, ApiResponse<List<PickOwnership>>.Create(null, "Error getting picks"));
+            }
+        }
+
+        /// <summary>
+        /// Get a manager's draft queue
+        /// </summary>
+        /// <remarks>
+        /// Returns the queued players in the manager's preferred draft order.
+        /// Players are removed from every queue automatically once drafted.
+        /// </remarks>
+        /// <param name="id">The ID of the manager</param>
+        /// <returns>The queued players, top of the queue first</returns>
+        /// <response code="200">Returns the queued players</response>
+        /// <response code="404">If the manager is not found</response>
+        /// <response code="500">If there was an internal server error</response>
+        [HttpGet("{id:length(24)}/queue")]
+        [ProducesResponseType(StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status404NotFound)]
+        public async Task<ActionResult<ApiResponse<List<Player>>>> GetQueue(string id)
+        {
+            try
+            {
+                var manager = await _managerService.GetByIdAsync(id);
+                if (manager is null)
+                {
+                    return NotFound(ApiResponse<List<Player>>.Create(null, $"Manager with ID {id} not found"));
+                }
+
+                var players = await _playerService.GetByIdsAsync(manager.Queue);
+                return Ok(ApiResponse<List<Player>>.Create(players));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error getting queue for manager {ManagerId}", id);
+                return StatusCode(500, ApiResponse<List<Player>>.Create(null, "Error getting queue"));
+            }
+        }
+
+        /// <summary>
+        /// Replace a manager's draft queue
+        /// </summary>
+        /// <remarks>
+        /// Saves a new queue ordering, e.g. after a drag-and-drop reorder.
+        /// 
+        /// Sample request:
+        /// 
+        ///     PUT /manager/{id}/queue
+        ///     {
+        ///         "playerIds": ["507f1f77bcf86cd799439011", "507f1f77bcf86cd799439012"]
+        ///     }
+        /// </remarks>
+        /// <param name="id">The ID of the manager</param>
+        /// <param name="request">The player IDs in draft preference order</param>
+        /// <returns>The queued players, top of the queue first</returns>
+        /// <response code="200">Returns the updated queue</response>
+        /// <response code="403">If the manager isn't the signed-in account's team</response>
+        /// <response code="404">If the manager is not found</response>
+        /// <response code="500">If there was an internal server error</response>
+        [HttpPut("{id:length(24)}/queue")]
+        [ProducesResponseType(StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status404NotFound)]
+        public async Task<ActionResult<ApiResponse<List<Player>>>> SetQueue(string id, [FromBody] UpdateQueueRequest request)
+        {
+            try
+            {
+                if (!await _managerService.CanActForAsync(id))
+                {
+                    return StatusCode(403, ApiResponse<List<Player>>.Create(null, "You can only change your own queue"));
+                }
+
+                var queue = await _managerService.SetQueueAsync(id, request.PlayerIds);
+                return Ok(await QueueChangedAsync(id, queue));
+            }
+            catch (InvalidOperationException ex)
+            {
+                return NotFound(ApiResponse<List<Player>>.Create(null, ex.Message));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error setting queue for manager {ManagerId}", id);
+                return StatusCode(500, ApiResponse<List<Player>>.Create(null, "Error saving queue"));
+            }
+        }
+
+        /// <summary>
+        /// Add a player to the end of a manager's draft queue
+        /// </summary>
+        /// <remarks>
+        /// Adding a player who is already queued leaves the queue unchanged.
+        /// </remarks>
+        /// <param name="id">The ID of the manager</param>
+        /// <param name="playerId">The ID of the player to queue</param>
+        /// <returns>The queued players, top of the queue first</returns>
+        /// <response code="200">Returns the updated queue</response>
+        /// <response code="403">If the manager isn't the signed-in account's team</response>
+        /// <response code="404">If the manager or player is not found</response>
+        /// <response code="500">If there was an internal server error</response>
+        [HttpPost("{id:length(24)}/queue/{playerId:length(24)}")]
+        [ProducesResponseType(StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status404NotFound)]
+        public async Task<ActionResult<ApiResponse<List<Player>>>> AddToQueue(string id, string playerId)
+        {
+            try
+            {
+                if (!await _managerService.CanActForAsync(id))
+                {
+                    return StatusCode(403, ApiResponse<List<Player>>.Create(null, "You can only change your own queue"));
+                }
+
+                var player = await _playerService.GetAsync(playerId);
+                if (player is null)
+                {
+                    return NotFound(ApiResponse<List<Player>>.Create(null, $"Player with ID {playerId} not found"));
+                }
+
+                var queue = await _managerService.AddToQueueAsync(id, playerId);
+                return Ok(await QueueChangedAsync(id, queue));
+            }
+            catch (InvalidOperationException ex)
+            {
+                return NotFound(ApiResponse<List<Player>>.Create(null, ex.Message));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error adding player {PlayerId} to queue for manager {ManagerId}", playerId, id);
+                return StatusCode(500, ApiResponse<List<Player>>.Create(null, "Error adding player to queue"));
+            }
+        }
+
+        /// <summary>
+        /// Remove a player from a manager's draft queue
+        /// </summary>
+        /// <param name="id">The ID of the manager</param>
+        /// <param name="playerId">The ID of the player to remove</param>
+        /// <returns>The queued players, top of the queue first</returns>
+        /// <response code="200">Returns the updated queue</response>
+        /// <response code="403">If the manager isn't the signed-in account's team</response>
+        /// <response code="404">If the manager is not found</response>
+        /// <response code="500">If there was an internal server error</response>
+        [HttpDelete("{id:length(24)}/queue/{playerId:length(24)}")]
+        [ProducesResponseType(StatusCodes.Status200OK)]
+        [ProducesResponseType(StatusCodes.Status404NotFound)]
+        public async Task<ActionResult<ApiResponse<List<Player>>>> RemoveFromQueue(string id, string playerId)
+        {
+            try
+            {
+                if (!await _managerService.CanActForAsync(id))
+                {
+                    return StatusCode(403, ApiResponse<List<Player>>.Create(null, "You can only change your own queue"));
+                }
+
+                var queue = await _managerService.RemoveFromQueueAsync(id, playerId);
+                return Ok(await QueueChangedAsync(id, queue));
+            }
+            catch (InvalidOperationException ex)
+            {
+                return NotFound(ApiResponse<List<Player>>.Create(null, ex.Message));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error removing player {PlayerId} from queue for manager {ManagerId}", playerId, id);
+                return StatusCode(500, ApiResponse<List<Player>>.Create(null, "Error removing player from queue"));
+            }
+        }
+
+        /// <summary>
+        /// Notifies other clients of a queue edit and resolves the queue to players for the response
+        /// </summary>
+        private async Task<ApiResponse<List<Player>>> QueueChangedAsync(string managerId, List<string> queue)
+        {
+            _draftEventService.Publish(DraftEventTypes.QueueChanged, new { managerId });
+            var players = await _playerService.GetByIdsAsync(queue);
+            return ApiResponse<List<Player>>.Create(players);
+        }
+
         /// <summary>
         /// Delete a specific manager
         /// </summary>
@@ -232,6 +457,7 @@ namespace DraftEngine.Controllers
         /// <response code="404">If the manager is not found</response>
         /// <response code="500">If there was an internal server error</response>
         [HttpDelete("{id:length(24)}")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(StatusCodes.Status204NoContent)]
         [ProducesResponseType(StatusCodes.Status404NotFound)]
         public async Task<IActionResult> Delete(string id)
@@ -0,0 +1,186 @@
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+[ApiController]
+[Route("[controller]")]
+public class MockDraftController : ControllerBase
+{
+    private readonly MockDraftService _mockDraftService;
+    private readonly ILogger<MockDraftController> _logger;
+
+    public MockDraftController(
+        MockDraftService mockDraftService,
+        ILogger<MockDraftController> logger)
+    {
+        _mockDraftService = mockDraftService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Retrieves recent mock drafts
+    /// </summary>
+    /// <response code="200">Returns the most recent mock drafts, newest first</response>
+    /// <response code="500">Internal server error retrieving mock drafts</response>
+    [HttpGet]
+    [ProducesResponseType(typeof(ApiResponse<List<MockDraft>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetRecent()
+    {
+        try
+        {
+            var mockDrafts = await _mockDraftService.GetRecentAsync();
+            return Ok(new { value = mockDrafts });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting mock drafts");
+            return StatusCode(500, new { message = "Error getting mock drafts" });
+        }
+    }
+
+    /// <summary>
+    /// Retrieves a mock draft by its ID
+    /// </summary>
+    /// <param name="id">The ID of the mock draft</param>
+    /// <response code="200">Returns the MockDraft</response>
+    /// <response code="404">Mock draft not found</response>
+    /// <response code="500">Internal server error retrieving the mock draft</response>
+    [HttpGet("{id:length(24)}")]
+    [ProducesResponseType(typeof(ApiResponse<MockDraft>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 404)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetById(string id)
+    {
+        try
+        {
+            var mockDraft = await _mockDraftService.GetByIdAsync(id);
+            if (mockDraft == null)
+            {
+                return NotFound(new { message = "Mock draft not found" });
+            }
+            return Ok(new { value = mockDraft });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting mock draft {MockDraftId}", id);
+            return StatusCode(500, new { message = "Error getting mock draft" });
+        }
+    }
+
+    /// <summary>
+    /// Starts a mock draft from the active draft
+    /// </summary>
+    /// <remarks>
+    /// Copies the active draft's order, rounds and completed picks, then simulates the other managers
+    /// until it is the user's pick. Simulated managers take the best player on the chosen ranking source,
+    /// with each pick's board shuffled by normally distributed noise of the given size in ranking spots.
+    /// Nothing in the real draft or on players' draft statuses is changed.
+    ///
+    /// Sample request:
+    ///
+    ///     POST /mockdraft
+    ///     {
+    ///         "userManagerId": "507f1f77bcf86cd799439011",
+    ///         "rankingSource": "IBW",
+    ///         "randomness": 3
+    ///     }
+    /// </remarks>
+    /// <param name="request">Who the user drafts as and how the other managers pick</param>
+    /// <response code="200">Returns the new MockDraft</response>
+    /// <response code="400">No active draft or no manager to draft as</response>
+    /// <response code="500">Internal server error starting the mock draft</response>
+    [HttpPost]
+    [ProducesResponseType(typeof(ApiResponse<MockDraft>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Create([FromBody] CreateMockDraftRequest request)
+    {
+        try
+        {
+            var mockDraft = await _mockDraftService.CreateAsync(request);
+            return Ok(new { value = mockDraft });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating mock draft");
+            return StatusCode(500, new { message = "Error creating mock draft" });
+        }
+    }
+
+    /// <summary>
+    /// Makes the user's pick in a mock draft
+    /// </summary>
+    /// <remarks>
+    /// After the pick, the other managers are simulated until the user is on the clock again
+    /// or the mock draft is complete.
+    /// </remarks>
+    /// <param name="id">The ID of the mock draft</param>
+    /// <param name="request">The player to pick</param>
+    /// <response code="200">Returns the updated MockDraft</response>
+    /// <response code="400">Not the user's pick, or the player is unavailable</response>
+    /// <response code="404">Mock draft not found</response>
+    /// <response code="500">Internal server error making the pick</response>
+    [HttpPost("{id:length(24)}/pick")]
+    [ProducesResponseType(typeof(ApiResponse<MockDraft>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 404)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> MakePick(string id, [FromBody] MockDraftPickRequest request)
+    {
+        try
+        {
+            var mockDraft = await _mockDraftService.MakePickAsync(id, request.PlayerId);
+            if (mockDraft == null)
+            {
+                return NotFound(new { message = "Mock draft not found" });
+            }
+            return Ok(new { value = mockDraft });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error making pick in mock draft {MockDraftId}", id);
+            return StatusCode(500, new { message = "Error making pick" });
+        }
+    }
+
+    /// <summary>
+    /// Deletes a mock draft
+    /// </summary>
+    /// <param name="id">The ID of the mock draft</param>
+    /// <response code="200">Mock draft deleted</response>
+    /// <response code="404">Mock draft not found</response>
+    /// <response code="500">Internal server error deleting the mock draft</response>
+    [HttpDelete("{id:length(24)}")]
+    [ProducesResponseType(typeof(ApiResponse<bool>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 404)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Delete(string id)
+    {
+        try
+        {
+            var deleted = await _mockDraftService.DeleteAsync(id);
+            if (!deleted)
+            {
+                return NotFound(new { message = "Mock draft not found" });
+            }
+            return Ok(new { value = true });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting mock draft {MockDraftId}", id);
+            return StatusCode(500, new { message = "Error deleting mock draft" });
+        }
+    }
+}
@@ -0,0 +1,257 @@
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+/// <summary>
+/// The signed-in account's highlights, notes, stars and personal ranks on players, and the big board they make up
+/// </summary>
+/// <remarks>
+/// Annotations are private to each account and league, except notes the author chooses to share with
+/// the league. Clients merge them into the player lists themselves.
+/// </remarks>
+[ApiController]
+[Route("[controller]")]
+public class PlayerAnnotationController : ControllerBase
+{
+    private readonly PlayerAnnotationService _playerAnnotationService;
+    private readonly PlayerService _playerService;
+    private readonly ILogger<PlayerAnnotationController> _logger;
+
+    public PlayerAnnotationController(
+        PlayerAnnotationService playerAnnotationService,
+        PlayerService playerService,
+        ILogger<PlayerAnnotationController> logger)
+    {
+        _playerAnnotationService = playerAnnotationService;
+        _playerService = playerService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Retrieves the signed-in account's annotations in the current league
+    /// </summary>
+    /// <response code="200">Returns one annotation per player the account has highlighted, noted, starred or ranked</response>
+    /// <response code="500">Internal server error retrieving annotations</response>
+    [HttpGet]
+    [ProducesResponseType(typeof(ApiResponse<List<PlayerAnnotation>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetMine()
+    {
+        try
+        {
+            var annotations = await _playerAnnotationService.GetMineAsync();
+            return Ok(new { value = annotations });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting player annotations");
+            return StatusCode(500, new { message = "Error getting player annotations" });
+        }
+    }
+
+    /// <summary>
+    /// Retrieves the signed-in account's big board
+    /// </summary>
+    /// <response code="200">Returns every player the account has ranked, best first, with their tiers</response>
+    /// <response code="500">Internal server error retrieving the board</response>
+    [HttpGet("bigboard")]
+    [ProducesResponseType(typeof(ApiResponse<List<BigBoardPlayer>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetBigBoard()
+    {
+        try
+        {
+            var board = await _playerAnnotationService.GetBigBoardAsync();
+            return Ok(new { value = board });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting big board");
+            return StatusCode(500, new { message = "Error getting big board" });
+        }
+    }
+
+    /// <summary>
+    /// Saves the signed-in account's big board in one go
+    /// </summary>
+    /// <remarks>
+    /// Players are ranked in the order sent. Tiers must not go back up the board. Players left off lose
+    /// their personal rank but keep their other annotations.
+    ///
+    /// Sample request:
+    ///
+    ///     PUT /playerannotation/bigboard
+    ///     {
+    ///         "players": [
+    ///             { "playerId": "507f1f77bcf86cd799439011", "tier": 1 },
+    ///             { "playerId": "507f1f77bcf86cd799439012", "tier": 2 }
+    ///         ]
+    ///     }
+    /// </remarks>
+    /// <response code="200">Returns the saved board</response>
+    /// <response code="400">A player is listed twice or doesn't exist, or the tiers are out of order</response>
+    /// <response code="500">Internal server error saving the board</response>
+    [HttpPut("bigboard")]
+    [ProducesResponseType(typeof(ApiResponse<List<BigBoardPlayer>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> SaveBigBoard([FromBody] SaveBigBoardRequest request)
+    {
+        try
+        {
+            await _playerAnnotationService.SaveBigBoardAsync(request.Players);
+            var board = await _playerAnnotationService.GetBigBoardAsync();
+            return Ok(new { value = board });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving big board");
+            return StatusCode(500, new { message = "Error saving big board" });
+        }
+    }
+
+    /// <summary>
+    /// Starts the signed-in account's big board over from a ranking source
+    /// </summary>
+    /// <remarks>
+    /// Replaces the whole board with the source's top players, in its order and all in one tier.
+    ///
+    /// Sample request:
+    ///
+    ///     POST /playerannotation/bigboard/seed
+    ///     {
+    ///         "source": "IBW",
+    ///         "count": 300
+    ///     }
+    /// </remarks>
+    /// <response code="200">Returns the new board</response>
+    /// <response code="400">No players are ranked by the source</response>
+    /// <response code="500">Internal server error seeding the board</response>
+    [HttpPost("bigboard/seed")]
+    [ProducesResponseType(typeof(ApiResponse<List<BigBoardPlayer>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> SeedBigBoard([FromBody] SeedBigBoardRequest request)
+    {
+        try
+        {
+            var board = await _playerAnnotationService.SeedBigBoardAsync(request.Source, request.Count);
+            return Ok(new { value = board });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error seeding big board from {Source}", request.Source);
+            return StatusCode(500, new { message = "Error seeding big board" });
+        }
+    }
+
+    /// <summary>
+    /// Retrieves the notes others in the league have shared on a player
+    /// </summary>
+    /// <response code="200">Returns the shared notes, newest first</response>
+    /// <response code="500">Internal server error retrieving the notes</response>
+    [HttpGet("{playerId:length(24)}/shared")]
+    [ProducesResponseType(typeof(ApiResponse<List<SharedPlayerNote>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetSharedNotes(string playerId)
+    {
+        try
+        {
+            var notes = await _playerAnnotationService.GetSharedNotesAsync(playerId);
+            return Ok(new { value = notes });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting shared notes for player {PlayerId}", playerId);
+            return StatusCode(500, new { message = "Error getting shared notes" });
+        }
+    }
+
+    /// <summary>
+    /// Highlights a player for the signed-in account, or removes the highlight
+    /// </summary>
+    /// <response code="200">Returns the updated annotation</response>
+    /// <response code="404">The player wasn't found</response>
+    /// <response code="500">Internal server error updating the highlight</response>
+    [HttpPost("{playerId:length(24)}/toggleHighlight")]
+    [ProducesResponseType(typeof(ApiResponse<PlayerAnnotation>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 404)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> ToggleHighlight(string playerId)
+    {
+        try
+        {
+            if (await _playerService.GetAsync(playerId) == null)
+                return NotFound(new { message = "Player not found" });
+
+            var annotation = await _playerAnnotationService.ToggleHighlightAsync(playerId);
+            return Ok(new { value = annotation });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error toggling highlight on player {PlayerId}", playerId);
+            return StatusCode(500, new { message = "Error updating highlight" });
+        }
+    }
+
+    /// <summary>
+    /// Sets the signed-in account's notes, stars and personal rank on a player
+    /// </summary>
+    /// <remarks>
+    /// Empty fields are cleared. The highlight is left as it is.
+    ///
+    /// Sample request:
+    ///
+    ///     PUT /playerannotation/507f1f77bcf86cd799439011
+    ///     {
+    ///         "notes": "Plus hit tool, swing-and-miss concerns",
+    ///         "personalRank": 12,
+    ///         "starsRating": 3.5,
+    ///         "isNoteShared": true
+    ///     }
+    /// </remarks>
+    /// <response code="200">Returns the updated annotation</response>
+    /// <response code="400">The rank or stars are out of range</response>
+    /// <response code="404">The player wasn't found</response>
+    /// <response code="500">Internal server error saving the annotation</response>
+    [HttpPut("{playerId:length(24)}")]
+    [ProducesResponseType(typeof(ApiResponse<PlayerAnnotation>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 404)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Update(string playerId, [FromBody] UpdatePlayerAnnotationRequest request)
+    {
+        try
+        {
+            if (await _playerService.GetAsync(playerId) == null)
+                return NotFound(new { message = "Player not found" });
+
+            var annotation = await _playerAnnotationService.UpdateAsync(playerId, request);
+            return Ok(new { value = annotation });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving annotation on player {PlayerId}", playerId);
+            return StatusCode(500, new { message = "Error saving annotation" });
+        }
+    }
+}
@@ -1,3 +1,4 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using MongoDB.Driver;
 using Newtonsoft.Json;
@@ -16,14 +17,13 @@ namespace DraftEngine.Controllers
     /// - Basic CRUD operations on player records
     /// - Player filtering and search operations
     /// - Draft-related player operations
-    /// - Personal tracking and notes
+    /// - Filtering on the caller's highlighted players
     /// - Data import operations (CSV, JSON)
     /// - Birthdate verification through MLB Stats API
     /// 
     /// Key Features:
     /// - Comprehensive player management
     /// - Draft status tracking
-    /// - Personal notes and rankings
     /// - Bulk import capabilities
     /// - Data verification and validation
     /// 
@@ -41,18 +41,48 @@ namespace DraftEngine.Controllers
     {
         private readonly PlayerService _playerService;
         private readonly DraftService _draftService;
+        private readonly LeagueValueService _leagueValueService;
+        private readonly PlayerAnnotationService _playerAnnotationService;
+        private readonly DraftEventService _draftEventService;
+        private readonly DraftHistoryService _draftHistoryService;
         private readonly ILogger<PlayerController> _logger;
 
         public PlayerController(
             PlayerService playerService, 
             DraftService draftService,
+            LeagueValueService leagueValueService,
+            PlayerAnnotationService playerAnnotationService,
+            DraftEventService draftEventService,
+            DraftHistoryService draftHistoryService,
             ILogger<PlayerController> logger)
         {
             _playerService = playerService;
             _draftService = draftService;
+            _leagueValueService = leagueValueService;
+            _playerAnnotationService = playerAnnotationService;
+            _draftEventService = draftEventService;
+            _draftHistoryService = draftHistoryService;
             _logger = logger;
         }
 
+        // These endpoints only change the player, so the draft is the same before and after
+        private async Task RecordHistoryAsync(DraftActionType action, Draft draft, Player? before, Player? after, string description)
+        {
+            try
+            {
+                await _draftHistoryService.RecordAsync(
+                    action,
+                    draft,
+                    draft,
+                    new[] { DraftHistoryService.CreatePlayerChange(before, after, draft.Id!) },
+                    description);
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to record draft action {Action}: {Description}", action, description);
+            }
+        }
+
         /// <summary>
         /// Retrieves a paginated list of all players from the database
         /// </summary>
@@ -61,7 +91,8 @@ namespace DraftEngine.Controllers
         /// - Basic player information
         /// - Draft status
         /// - Rankings and grades
-        /// - Personal notes and highlights
+        /// 
+        /// Highlights, notes, stars and personal ranks are per account; get them from /playerannotation.
         /// 
         /// Pagination parameters:
         /// - pageNumber: The page number to retrieve (1-based)
@@ -109,7 +140,6 @@ namespace DraftEngine.Controllers
         /// - Draft status and history
         /// - Rankings from various sources
         /// - Scouting grades and risk assessments
-        /// - Personal notes and rankings
         /// 
         /// The ID must be a valid 24-character MongoDB ObjectId
         /// </remarks>
@@ -173,6 +203,7 @@ namespace DraftEngine.Controllers
         /// <response code="400">If the player data is invalid or missing required fields</response>
         /// <response code="500">If there was an error saving to the database</response>
         [HttpPost]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(StatusCodes.Status201Created)]
         [ProducesResponseType(StatusCodes.Status400BadRequest)]
         public async Task<IActionResult> Post([FromBody] Player newPlayer)
@@ -212,6 +243,7 @@ namespace DraftEngine.Controllers
         /// <response code="204">If the player was successfully updated</response>
         /// <response code="404">If the player is not found</response>
         [HttpPut("{id:length(24)}")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(StatusCodes.Status204NoContent)]
         [ProducesResponseType(StatusCodes.Status404NotFound)]
         public async Task<IActionResult> Update(string id, Player updatedPlayer)
@@ -251,6 +283,7 @@ namespace DraftEngine.Controllers
         /// <response code="204">If the player was successfully deleted</response>
         /// <response code="404">If the player is not found</response>
         [HttpDelete("{id:length(24)}")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(StatusCodes.Status204NoContent)]
         [ProducesResponseType(StatusCodes.Status404NotFound)]
         public async Task<IActionResult> Delete(string id)
@@ -276,6 +309,7 @@ namespace DraftEngine.Controllers
                 }
 
                 await _playerService.RemoveAsync(id);
+                await _playerAnnotationService.DeleteForPlayerAsync(id);
 
                 _logger.LogInformation("Successfully deleted player {PlayerId}", id);
                 return NoContent();
@@ -294,6 +328,7 @@ namespace DraftEngine.Controllers
         /// <response code="200">Returns the number of players deleted</response>
         /// <response code="400">If there was an error deleting players</response>
         [HttpDelete("deleteall")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(StatusCodes.Status200OK)]
         [ProducesResponseType(StatusCodes.Status400BadRequest)]
         public async Task<IActionResult> DeleteAll()
@@ -302,6 +337,7 @@ namespace DraftEngine.Controllers
             {
                 _logger.LogInformation("Attempting to delete all players");
                 var deletedCount = await _playerService.DeleteAllAsync();
+                await _playerAnnotationService.DeleteAllAsync();
                 _logger.LogInformation("Successfully deleted {Count} players", deletedCount);
                 return Ok(new { message = $"Successfully deleted {deletedCount} players" });
             }
@@ -562,7 +598,44 @@ namespace DraftEngine.Controllers
         }
 
         /// <summary>
-        /// Retrieves all players marked as highlighted for special tracking
+        /// Retrieves every player drafted in the active draft
+        /// </summary>
+        /// <remarks>
+        /// Each player's draft status for the active draft says which manager has them now, which
+        /// can differ from the manager who made the pick once players are traded.
+        /// </remarks>
+        /// <returns>Players drafted in the active draft, in pick order</returns>
+        /// <response code="200">Successfully retrieved the drafted players</response>
+        /// <response code="400">If there is no active draft</response>
+        [HttpGet("drafted")]
+        [ProducesResponseType(StatusCodes.Status200OK)]
+        public async Task<ActionResult<ApiResponse<List<Player>>>> GetDrafted()
+        {
+            try
+            {
+                var draft = await _draftService.GetActiveDraftAsync();
+                if (draft == null)
+                {
+                    _logger.LogWarning("No active draft found when attempting to get drafted players");
+                    return BadRequest(ApiResponse<string>.Create("No active draft found"));
+                }
+
+                var players = (await _playerService.GetDraftedInDraftAsync(draft.Id!))
+                    .OrderBy(p => p.DraftStatuses.First(ds => ds.DraftId == draft.Id).OverallPick)
+                    .ToList();
+
+                _logger.LogInformation("Found {Count} players drafted in draft {DraftId}", players.Count, draft.Id);
+                return Ok(ApiResponse<List<Player>>.Create(players));
+            }
+            catch (Exception ex)
+            {
+                _logger.LogError(ex, "Error retrieving drafted players");
+                return StatusCode(500, ApiResponse<string>.Create($"Internal server error: {ex.Message}"));
+            }
+        }
+
+        /// <summary>
+        /// Retrieves the players the signed-in account has highlighted in the current league
         /// </summary>
         /// <remarks>
         /// Returns players that have been highlighted for:
@@ -577,6 +650,7 @@ namespace DraftEngine.Controllers
         /// 3. Name
         /// 
         /// Highlighting is a personal tracking feature that:
+        /// - Is private to each account
         /// - Persists across sessions
         /// - Is independent of draft status
         /// - Can be toggled on/off
@@ -598,7 +672,8 @@ namespace DraftEngine.Controllers
                     "Attempting to get highlighted players (Page {Page}, Size {Size})", 
                     pageNumber, pageSize);
 
-                var result = await _playerService.GetHighlightedPlayersPaginatedAsync(pageNumber, pageSize, sortField, sortDescending);
+                var playerIds = await _playerAnnotationService.GetHighlightedPlayerIdsAsync();
+                var result = await _playerService.GetHighlightedPlayersPaginatedAsync(playerIds, pageNumber, pageSize, sortField, sortDescending);
                 
                 _logger.LogInformation(
                     "Found {Total} highlighted players (Page {Page} of {TotalPages})", 
@@ -623,6 +698,10 @@ namespace DraftEngine.Controllers
         /// - Records the draft details (manager, round, pick)
         /// - Updates the player's draft status
         /// - Maintains draft history for multiple drafts
+        /// - Logs the pick in the draft's event log, so it can be undone
+        /// 
+        /// Only the commissioner can record a pick this way, since it doesn't check or complete the pick itself.
+        /// Managers pick through POST /draft/pick.
         /// 
         /// Draft Status Updates:
         /// - Removes any existing status for this draft
@@ -640,10 +719,11 @@ namespace DraftEngine.Controllers
         /// <param name="request">Draft pick details including manager, round, and pick numbers</param>
         /// <returns>No content on success</returns>
         /// <response code="204">Successfully marked the player as drafted</response>
-        /// <response code="400">If no active draft exists or the request is invalid</response>
+        /// <response code="400">If no active draft exists, it's an auction draft, or the request is invalid</response>
         /// <response code="404">If the player was not found</response>
         /// <response code="409">If the player is already drafted in this draft</response>
         [HttpPost("{id:length(24)}/draft")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(StatusCodes.Status204NoContent)]
         [ProducesResponseType(StatusCodes.Status404NotFound)]
         public async Task<IActionResult> MarkAsDrafted(string id, [FromBody] DraftPickRequest request)
@@ -662,6 +742,12 @@ namespace DraftEngine.Controllers
                     return BadRequest(ApiResponse<string>.Create("No active draft found"));
                 }
 
+                if (draft.Auction != null)
+                {
+                    _logger.LogWarning("Rejected marking player {PlayerId} as drafted in auction draft {DraftId}", id, draft.Id);
+                    return BadRequest(ApiResponse<string>.Create("Players in an auction draft go to the highest bidder"));
+                }
+
                 // Verify player exists
                 var player = await _playerService.GetAsync(id);
                 if (player == null)
@@ -685,6 +771,18 @@ namespace DraftEngine.Controllers
                 }
 
                 _logger.LogInformation("Successfully marked player {PlayerId} as drafted", id);
+
+                var draftedPlayer = await _playerService.GetAsync(id);
+                await RecordHistoryAsync(
+                    DraftActionType.Pick,
+                    draft,
+                    player,
+                    draftedPlayer,
+                    $"Drafted {player.Name} with pick #{request.OverallPick}");
+                _draftEventService.Publish(
+                    DraftEventTypes.PickMade,
+                    new { draft, player = draftedPlayer, overallPickNumber = request.OverallPick, managerId = request.DraftedBy });
+
                 return NoContent();
             }
             catch (Exception ex)
@@ -704,6 +802,7 @@ namespace DraftEngine.Controllers
         /// - Removes only the draft status for the active draft
         /// - Preserves draft history from other drafts
         /// - Updates related draft statistics
+        /// - Logs the change in the draft's event log, so it can be undone
         /// 
         /// This operation:
         /// - Makes the player available for drafting again
@@ -723,6 +822,7 @@ namespace DraftEngine.Controllers
         /// <response code="404">If the player was not found</response>
         /// <response code="409">If the player is not drafted in the active draft</response>
         [HttpPost("{id:length(24)}/undraft")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(typeof(ApiResponse<bool>), StatusCodes.Status200OK)]
         [ProducesResponseType(typeof(ApiResponse<string>), StatusCodes.Status404NotFound)]
         public async Task<IActionResult> UndraftPlayer(string id)
@@ -754,6 +854,7 @@ namespace DraftEngine.Controllers
                     return Conflict(ApiResponse<string>.Create("Player is not drafted in this draft"));
                 }
 
+                var draftStatus = player.DraftStatuses.First(ds => ds.DraftId == draft.Id);
                 var success = await _playerService.UndraftPlayerAsync(id);
                 if (!success)
                 {
@@ -762,6 +863,18 @@ namespace DraftEngine.Controllers
                 }
 
                 _logger.LogInformation("Successfully undrafted player {PlayerId}", id);
+
+                var undraftedPlayer = await _playerService.GetAsync(id);
+                await RecordHistoryAsync(
+                    DraftActionType.Undraft,
+                    draft,
+                    player,
+                    undraftedPlayer,
+                    $"Undrafted {player.Name} from pick #{draftStatus.OverallPick}");
+                _draftEventService.Publish(
+                    DraftEventTypes.PickUndone,
+                    new { draft, player = undraftedPlayer, overallPickNumber = draftStatus.OverallPick, managerId = draftStatus.ManagerId });
+
                 return Ok(ApiResponse<bool>.Create(true));
             }
             catch (Exception ex)
@@ -799,6 +912,7 @@ namespace DraftEngine.Controllers
         /// <response code="400">If the draft ID is invalid</response>
         /// <response code="404">If the specified draft was not found</response>
         [HttpPost("{draftId}/reset-draft-status")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(StatusCodes.Status200OK)]
         [ProducesResponseType(StatusCodes.Status404NotFound)]
         public async Task<IActionResult> ResetDraftStatus(string draftId)
@@ -827,199 +941,6 @@ namespace DraftEngine.Controllers
             }
         }
 
-        // Personal tracking endpoints
-        /// <summary>
-        /// Toggles the highlight status for a player
-        /// </summary>
-        /// <remarks>
-        /// Updates a player's highlight status with the following behavior:
-        /// - If currently highlighted, removes highlight
-        /// - If not highlighted, adds highlight
-        /// - Updates timestamp
-        /// - Maintains other player attributes
-        /// 
-        /// Highlighting is used for:
-        /// - Draft preparation
-        /// - Player tracking
-        /// - Watch list management
-        /// - Personal organization
-        /// 
-        /// The highlight status:
-        /// - Persists across sessions
-        /// - Is independent of draft status
-        /// - Can be toggled repeatedly
-        /// - Does not affect other player attributes
-        /// </remarks>
-        /// <param name="id">The unique identifier of the player to toggle highlight for</param>
-        /// <returns>No content on success</returns>
-        /// <response code="204">Successfully toggled the highlight status</response>
-        /// <response code="404">If the player was not found</response>
-        /// <response code="500">If there was an error updating the player</response>
-        [HttpPost("{id:length(24)}/toggleHighlight")]
-        [ProducesResponseType(StatusCodes.Status204NoContent)]
-        [ProducesResponseType(StatusCodes.Status404NotFound)]
-        public async Task<IActionResult> ToggleHighlight(string id)
-        {
-            try
-            {
-                _logger.LogInformation("Attempting to toggle highlight status for player {PlayerId}", id);
-
-                // Verify player exists
-                var player = await _playerService.GetAsync(id);
-                if (player == null)
-                {
-                    _logger.LogWarning("Player {PlayerId} not found when attempting to toggle highlight", id);
-                    return NotFound(ApiResponse<string>.Create("Player not found"));
-                }
-
-                var success = await _playerService.ToggleHighlightAsync(id);
-                if (!success)
-                {
-                    _logger.LogError("Failed to toggle highlight status for player {PlayerId}", id);
-                    return StatusCode(500, ApiResponse<string>.Create("Failed to update player highlight status"));
-                }
-
-                _logger.LogInformation("Successfully toggled highlight status for player {PlayerId} to {Status}", 
-                    id, !player.IsHighlighted);
-                return NoContent();
-            }
-            catch (Exception ex)
-            {
-                _logger.LogError(ex, "Error toggling highlight status for player {PlayerId}", id);
-                return StatusCode(500, ApiResponse<string>.Create($"Internal server error: {ex.Message}"));
-            }
-        }
-
-        /// <summary>
-        /// Updates the personal notes for a player
-        /// </summary>
-        /// <remarks>
-        /// Updates a player's personal notes with the following behavior:
-        /// - Replaces existing notes with new content
-        /// - Updates timestamp
-        /// - Maintains other player attributes
-        /// 
-        /// Personal notes are used for:
-        /// - Scouting observations
-        /// - Draft strategy notes
-        /// - Player development tracking
-        /// - Personal reminders
-        /// 
-        /// Notes handling:
-        /// - Can be any length
-        /// - Support markdown formatting
-        /// - Can be cleared by passing empty string
-        /// - Are private to the system
-        /// </remarks>
-        /// <param name="id">The unique identifier of the player to update notes for</param>
-        /// <param name="notes">The new notes content</param>
-        /// <returns>No content on success</returns>
-        /// <response code="204">Successfully updated the notes</response>
-        /// <response code="404">If the player was not found</response>
-        /// <response code="500">If there was an error updating the player</response>
-        [HttpPut("{id:length(24)}/notes")]
-        [ProducesResponseType(StatusCodes.Status204NoContent)]
-        [ProducesResponseType(StatusCodes.Status404NotFound)]
-        public async Task<IActionResult> UpdateNotes(string id, [FromBody] string notes)
-        {
-            try
-            {
-                _logger.LogInformation("Attempting to update notes for player {PlayerId}", id);
-
-                // Verify player exists
-                var player = await _playerService.GetAsync(id);
-                if (player == null)
-                {
-                    _logger.LogWarning("Player {PlayerId} not found when attempting to update notes", id);
-                    return NotFound(ApiResponse<string>.Create("Player not found"));
-                }
-
-                var success = await _playerService.UpdateNotesAsync(id, notes);
-                if (!success)
-                {
-                    _logger.LogError("Failed to update notes for player {PlayerId}", id);
-                    return StatusCode(500, ApiResponse<string>.Create("Failed to update player notes"));
-                }
-
-                _logger.LogInformation("Successfully updated notes for player {PlayerId}", id);
-                return NoContent();
-            }
-            catch (Exception ex)
-            {
-                _logger.LogError(ex, "Error updating notes for player {PlayerId}", id);
-                return StatusCode(500, ApiResponse<string>.Create($"Internal server error: {ex.Message}"));
-            }
-        }
-
-        /// <summary>
-        /// Updates the personal ranking for a player
-        /// </summary>
-        /// <remarks>
-        /// Updates a player's personal rank with the following behavior:
-        /// - Sets new rank value
-        /// - Updates timestamp
-        /// - Maintains other player attributes
-        /// 
-        /// Personal rankings are used for:
-        /// - Draft board organization
-        /// - Player prioritization
-        /// - Custom sorting
-        /// - Draft strategy planning
-        /// 
-        /// Ranking behavior:
-        /// - Can be any positive integer
-        /// - Lower numbers indicate higher rank
-        /// - Multiple players can have same rank
-        /// - Can be cleared by setting to 0
-        /// - Used for sorting in various views
-        /// </remarks>
-        /// <param name="id">The unique identifier of the player to update ranking for</param>
-        /// <param name="rank">The new rank value (0 or positive integer)</param>
-        /// <returns>No content on success</returns>
-        /// <response code="204">Successfully updated the rank</response>
-        /// <response code="400">If the rank value is negative</response>
-        /// <response code="404">If the player was not found</response>
-        /// <response code="500">If there was an error updating the player</response>
-        [HttpPut("{id:length(24)}/personalRank")]
-        [ProducesResponseType(StatusCodes.Status204NoContent)]
-        [ProducesResponseType(StatusCodes.Status404NotFound)]
-        public async Task<IActionResult> UpdatePersonalRank(string id, [FromBody] int rank)
-        {
-            try
-            {
-                _logger.LogInformation("Attempting to update personal rank for player {PlayerId} to {Rank}", id, rank);
-
-                if (rank < 0)
-                {
-                    _logger.LogWarning("Invalid rank value {Rank} provided for player {PlayerId}", rank, id);
-                    return BadRequest(ApiResponse<string>.Create("Rank value must be 0 or positive"));
-                }
-
-                // Verify player exists
-                var player = await _playerService.GetAsync(id);
-                if (player == null)
-                {
-                    _logger.LogWarning("Player {PlayerId} not found when attempting to update rank", id);
-                    return NotFound(ApiResponse<string>.Create("Player not found"));
-                }
-
-                var success = await _playerService.UpdatePersonalRankAsync(id, rank);
-                if (!success)
-                {
-                    _logger.LogError("Failed to update personal rank for player {PlayerId}", id);
-                    return StatusCode(500, ApiResponse<string>.Create("Failed to update player rank"));
-                }
-
-                _logger.LogInformation("Successfully updated personal rank for player {PlayerId} to {Rank}", id, rank);
-                return NoContent();
-            }
-            catch (Exception ex)
-            {
-                _logger.LogError(ex, "Error updating personal rank for player {PlayerId}", id);
-                return StatusCode(500, ApiResponse<string>.Create($"Internal server error: {ex.Message}"));
-            }
-        }
-
         // Advanced filtering endpoints
         /// <summary>
         /// Retrieves a paginated list of players within a specified age range
@@ -1154,6 +1075,7 @@ namespace DraftEngine.Controllers
         /// <response code="400">If the request is invalid</response>
         /// <response code="500">If there was an error during update</response>
         [HttpPost("update-positions")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(typeof(ApiResponse<PositionUpdateResult>), StatusCodes.Status200OK)]
         [ProducesResponseType(typeof(ApiResponse<string>), StatusCodes.Status400BadRequest)]
         public async Task<IActionResult> UpdatePositionStats([FromBody] PositionUpdateRequest request)
@@ -1193,6 +1115,7 @@ namespace DraftEngine.Controllers
         }
 
         [HttpPost("verify-birthdates")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(typeof(ApiResponse<BirthDateVerificationResult>), StatusCodes.Status200OK)]
         [ProducesResponseType(typeof(ApiResponse<string>), StatusCodes.Status400BadRequest)]
         public async Task<IActionResult> VerifyBirthDates([FromBody] BirthDateVerificationRequest request)
@@ -1351,8 +1274,15 @@ namespace DraftEngine.Controllers
                 var mappedSortField = sortField;
                 if (sortField?.Contains(".") == true)
                 {
-                    // Field already contains the path (e.g., "Rank.IBW")
-                    mappedSortField = sortField;
+                    // Field already contains the path (e.g., "Rank.IBW"). The grid lowercases ranking sources,
+                    // but they're stored under their enum names.
+                    var parts = sortField.Split('.', 2);
+                    mappedSortField = parts[0].ToLowerInvariant() switch
+                    {
+                        "rank" when Enum.TryParse<RankingSource>(parts[1], true, out var source) => $"Rank.{source}",
+                        "prospectrank" when Enum.TryParse<ProspectSource>(parts[1], true, out var source) => $"ProspectRank.{source}",
+                        _ => sortField
+                    };
                 }
                 else if (sortField == "rankingValue" || sortField == "prospectValue")
                 {
@@ -1367,6 +1297,11 @@ namespace DraftEngine.Controllers
                     }
                 }
 
+                // The personal ranking is the caller's big board, which isn't stored on the players
+                var personalRanking = string.Equals(mappedSortField, $"Rank.{PlayerAnnotationService.PersonalRankingSource}", StringComparison.OrdinalIgnoreCase)
+                    ? await _playerAnnotationService.GetPersonalRankingAsync()
+                    : null;
+
                 var result = await _playerService.SearchPlayersPaginatedAsync(
                     searchTerm, 
                     excludeDrafted,
@@ -1380,7 +1315,8 @@ namespace DraftEngine.Controllers
                     pageSize,
                     mlbId: null,
                     sortField: mappedSortField,
-                    sortDescending: sortDescending);
+                    sortDescending: sortDescending,
+                    rankedPlayerIds: personalRanking);
                 
                 _logger.LogInformation(
                     "Found {Total} players matching '{SearchTerm}' (Page {Page} of {TotalPages})", 
@@ -1403,6 +1339,7 @@ namespace DraftEngine.Controllers
     /// <response code="200">Returns success message with number of players imported</response>
     /// <response code="400">If the file is empty or invalid</response>
     [HttpPost("importcsv")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
     [Consumes("multipart/form-data")]
     [ProducesResponseType(typeof(ApiResponse<string>), StatusCodes.Status200OK)]
     [ProducesResponseType(typeof(ApiResponse<string>), StatusCodes.Status400BadRequest)]
@@ -1596,6 +1533,12 @@ namespace DraftEngine.Controllers
                 await _playerService.CreateManyAsync(players);
                 _logger.LogInformation("Successfully imported {Count} players from {FileName}", 
                     players.Count, request.File.FileName);
+
+                // Projections are shared, so every league's values change with them
+                if (request.DataType == "projections")
+                {
+                    await _leagueValueService.RecalculateAllLeaguesAsync();
+                }
                 return Ok(ApiResponse<string>.Create(
                     $"Successfully imported {players.Count} players from {request.File.FileName}"));
             }
@@ -1615,6 +1558,7 @@ namespace DraftEngine.Controllers
         /// <response code="200">Returns success message with number of players imported</response>
         /// <response code="400">If the player data is invalid</response>
         [HttpPost("batch")]
+        [Authorize(Policy = AuthPolicies.Commissioner)]
         [ProducesResponseType(StatusCodes.Status200OK)]
         [ProducesResponseType(StatusCodes.Status400BadRequest)]
         public async Task<IActionResult> BatchImport([FromBody] List<Player> players)
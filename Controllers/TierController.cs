@@ -0,0 +1,195 @@
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+/// <summary>
+/// The signed-in account's tiers for each position and ranking source
+/// </summary>
+/// <remarks>
+/// Positions are the player list's (C, 1B, 2B, 3B, SS, OF, DH), P for pitchers, or ALL. Ranking sources are
+/// RankingSource names, or "personal" for the account's big board.
+/// </remarks>
+[ApiController]
+[Route("[controller]")]
+public class TierController : ControllerBase
+{
+    private readonly TierService _tierService;
+    private readonly ILogger<TierController> _logger;
+
+    public TierController(
+        TierService tierService,
+        ILogger<TierController> logger)
+    {
+        _tierService = tierService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Retrieves the signed-in account's tiers in the current league
+    /// </summary>
+    /// <response code="200">Returns one tier set per position and ranking source the account has tiered</response>
+    /// <response code="500">Internal server error retrieving tiers</response>
+    [HttpGet]
+    [ProducesResponseType(typeof(ApiResponse<List<TierSet>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetMine()
+    {
+        try
+        {
+            var tierSets = await _tierService.GetMineAsync();
+            return Ok(new { value = tierSets });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting tiers");
+            return StatusCode(500, new { message = "Error getting tiers" });
+        }
+    }
+
+    /// <summary>
+    /// Retrieves the players a ranking source ranks at a position, for tiering
+    /// </summary>
+    /// <param name="position">Position to list, or ALL</param>
+    /// <param name="rankingSource">Ranking source to order by</param>
+    /// <param name="count">How many players to list (default: 100, max: 500)</param>
+    /// <response code="200">Returns the ranked players, best first, with their composite values</response>
+    /// <response code="400">The position or ranking source isn't recognized</response>
+    /// <response code="500">Internal server error retrieving the players</response>
+    [HttpGet("players")]
+    [ProducesResponseType(typeof(ApiResponse<List<TierPlayer>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetPlayers(
+        [FromQuery] string position = TierSet.AllPositions,
+        [FromQuery] string rankingSource = "",
+        [FromQuery] int count = 100)
+    {
+        try
+        {
+            var players = await _tierService.GetRankedPlayersAsync(position, rankingSource, Math.Clamp(count, 1, 500));
+            return Ok(new { value = players });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting {RankingSource} players at {Position} for tiering", rankingSource, position);
+            return StatusCode(500, new { message = "Error getting players" });
+        }
+    }
+
+    /// <summary>
+    /// Suggests tiers by clustering players' composite values
+    /// </summary>
+    /// <remarks>
+    /// The suggestion isn't saved; send it to PUT /tier once it looks right.
+    ///
+    /// Sample request:
+    ///
+    ///     POST /tier/generate
+    ///     {
+    ///         "position": "SS",
+    ///         "rankingSource": "IBW",
+    ///         "tierCount": 6,
+    ///         "playerCount": 60
+    ///     }
+    /// </remarks>
+    /// <response code="200">Returns the ranks where tiers 2 onward would start</response>
+    /// <response code="400">The position or ranking source isn't recognized, or too few players are ranked</response>
+    /// <response code="500">Internal server error generating tiers</response>
+    [HttpPost("generate")]
+    [ProducesResponseType(typeof(ApiResponse<List<int>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Generate([FromBody] GenerateTiersRequest request)
+    {
+        try
+        {
+            var breaks = await _tierService.GenerateBreaksAsync(request);
+            return Ok(new { value = breaks });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error generating {RankingSource} tiers at {Position}", request.RankingSource, request.Position);
+            return StatusCode(500, new { message = "Error generating tiers" });
+        }
+    }
+
+    /// <summary>
+    /// Saves the signed-in account's tiers for a position and ranking source
+    /// </summary>
+    /// <remarks>
+    /// Breaks are the ranks where tiers 2 onward start. Sending none removes the tiers.
+    ///
+    /// Sample request:
+    ///
+    ///     PUT /tier
+    ///     {
+    ///         "position": "SS",
+    ///         "rankingSource": "IBW",
+    ///         "breaks": [8, 19, 34]
+    ///     }
+    /// </remarks>
+    /// <response code="200">Returns the saved tiers, or null when they were removed</response>
+    /// <response code="400">Nobody is signed in, or the position or ranking source isn't recognized</response>
+    /// <response code="500">Internal server error saving tiers</response>
+    [HttpPut]
+    [ProducesResponseType(typeof(ApiResponse<TierSet>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Save([FromBody] SaveTierSetRequest request)
+    {
+        try
+        {
+            var tierSet = await _tierService.SaveAsync(request);
+            return Ok(new { value = tierSet });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error saving {RankingSource} tiers at {Position}", request.RankingSource, request.Position);
+            return StatusCode(500, new { message = "Error saving tiers" });
+        }
+    }
+
+    /// <summary>
+    /// Retrieves the positions whose current tier is down to its last one or two undrafted players
+    /// </summary>
+    /// <param name="rankingSource">Ranking source whose tiers to check</param>
+    /// <response code="200">Returns an alert per nearly empty tier; none when no draft is active</response>
+    /// <response code="400">The ranking source isn't recognized</response>
+    /// <response code="500">Internal server error checking tiers</response>
+    [HttpGet("alerts")]
+    [ProducesResponseType(typeof(ApiResponse<List<TierAlert>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetAlerts([FromQuery] string rankingSource = "")
+    {
+        try
+        {
+            var alerts = await _tierService.GetAlertsAsync(rankingSource);
+            return Ok(new { value = alerts });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error checking {RankingSource} tiers", rankingSource);
+            return StatusCode(500, new { message = "Error checking tiers" });
+        }
+    }
+}
@@ -1,3 +1,4 @@
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Mvc;
 using DraftEngine.Models;
 using DraftEngine.Models.Data;
@@ -12,20 +13,32 @@ namespace DraftEngine.Controllers;
 public class TradeController : ControllerBase
 {
     private readonly TradeService _tradeService;
+    private readonly TradeAnalysisService _tradeAnalysisService;
     private readonly DraftService _draftService;
+    private readonly ManagerService _managerService;
     private readonly ILogger<TradeController> _logger;
     private readonly DebugService _debugService;
+    private readonly DraftEventService _draftEventService;
+    private readonly UserContext _userContext;
 
     public TradeController(
         TradeService tradeService, 
+        TradeAnalysisService tradeAnalysisService,
         DraftService draftService,
+        ManagerService managerService,
         ILogger<TradeController> logger,
-        DebugService debugService)
+        DebugService debugService,
+        DraftEventService draftEventService,
+        UserContext userContext)
     {
         _tradeService = tradeService;
+        _tradeAnalysisService = tradeAnalysisService;
         _draftService = draftService;
+        _managerService = managerService;
         _logger = logger;
         _debugService = debugService;
+        _draftEventService = draftEventService;
+        _userContext = userContext;
     }
 
     [HttpGet("{id}/canCancel")]
@@ -46,7 +59,29 @@ public class TradeController : ControllerBase
         }
     }
 
+    [HttpGet("{id}/dependencies")]
+    public async Task<ActionResult<ApiResponse<TradeDependencies>>> GetTradeDependencies(string id)
+    {
+        try
+        {
+            var dependencies = await _tradeService.GetTradeDependencies(id);
+            if (dependencies == null)
+            {
+                return NotFound(ApiResponse<TradeDependencies>.Create(null, $"Trade {id} not found"));
+            }
+
+            return Ok(ApiResponse<TradeDependencies>.Create(dependencies));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting dependencies for trade {TradeId}", id);
+            _debugService.LogToFrontend(LogLevel.Error, $"Error getting trade dependencies: {ex.Message}");
+            return StatusCode(500, ApiResponse<TradeDependencies>.Create(null, "An error occurred getting the trade's dependencies"));
+        }
+    }
+
     [HttpPost]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
     public async Task<ActionResult<ApiResponse<Trade>>> CreateTrade()
     {
         try
@@ -154,6 +189,10 @@ public class TradeController : ControllerBase
                 var createdTrade = await _tradeService.CreateTrade(trade);
                 _logger.LogInformation("Trade created successfully with ID: {TradeId}", createdTrade.Id);
                 _debugService.LogToFrontend(LogLevel.Information, $"Trade created successfully with ID: {createdTrade.Id}");
+
+                var draft = await _draftService.GetByIdAsync(activeDraft.Id!);
+                _draftEventService.Publish(DraftEventTypes.TradeCreated, new { trade = createdTrade, draft });
+
                 return Ok(ApiResponse<Trade>.Create(createdTrade));
             }
             catch (TradeValidationException ex)
@@ -189,6 +228,155 @@ public class TradeController : ControllerBase
         }
     }
 
+    [HttpPost("propose")]
+    public async Task<ActionResult<ApiResponse<Trade>>> ProposeTrade([FromBody] TradeProposalRequest request)
+    {
+        try
+        {
+            _logger.LogInformation("Manager {ManagerId} proposing trade with {PartyCount} parties",
+                request.ProposedBy, request.Trade.Parties?.Count ?? 0);
+
+            if (!await _managerService.CanActForAsync(request.ProposedBy))
+            {
+                return StatusCode(403, ApiResponse<Trade>.Create(null, "You can only trade for your own team"));
+            }
+
+            var trade = await _tradeService.ProposeTrade(request.Trade, request.ProposedBy);
+            _debugService.LogToFrontend(LogLevel.Information, $"Trade {trade.Id} proposed");
+            _draftEventService.Publish(DraftEventTypes.TradeUpdated, new { trade });
+
+            return Ok(ApiResponse<Trade>.Create(trade));
+        }
+        catch (Exception ex) when (IsTradeError(ex))
+        {
+            return TradeError(ex);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error proposing trade");
+            _debugService.LogToFrontend(LogLevel.Error, $"Error proposing trade: {ex.Message}");
+            return StatusCode(500, ApiResponse<Trade>.Create(null, "An error occurred proposing the trade"));
+        }
+    }
+
+    [HttpPost("{id}/accept")]
+    public async Task<ActionResult<ApiResponse<Trade>>> AcceptTrade(string id, [FromBody] TradeResponseRequest request)
+    {
+        try
+        {
+            _logger.LogInformation("Manager {ManagerId} accepting trade {TradeId}", request.ManagerId, id);
+
+            if (!await _managerService.CanActForAsync(request.ManagerId))
+            {
+                return StatusCode(403, ApiResponse<Trade>.Create(null, "You can only trade for your own team"));
+            }
+
+            var trade = await _tradeService.AcceptTrade(id, request.ManagerId);
+            if (trade.Status == TradeStatus.Completed)
+            {
+                _debugService.LogToFrontend(LogLevel.Information, $"Trade {id} accepted by all parties and completed");
+                var draft = await _draftService.GetActiveDraftAsync();
+                _draftEventService.Publish(DraftEventTypes.TradeCreated, new { trade, draft });
+            }
+            else
+            {
+                _draftEventService.Publish(DraftEventTypes.TradeUpdated, new { trade });
+            }
+
+            return Ok(ApiResponse<Trade>.Create(trade));
+        }
+        catch (Exception ex) when (IsTradeError(ex))
+        {
+            return TradeError(ex);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error accepting trade {TradeId}", id);
+            _debugService.LogToFrontend(LogLevel.Error, $"Error accepting trade: {ex.Message}");
+            return StatusCode(500, ApiResponse<Trade>.Create(null, "An error occurred accepting the trade"));
+        }
+    }
+
+    [HttpPost("{id}/reject")]
+    public async Task<ActionResult<ApiResponse<Trade>>> RejectTrade(string id, [FromBody] TradeResponseRequest request)
+    {
+        try
+        {
+            _logger.LogInformation("Manager {ManagerId} rejecting trade {TradeId}", request.ManagerId, id);
+
+            if (!await _managerService.CanActForAsync(request.ManagerId))
+            {
+                return StatusCode(403, ApiResponse<Trade>.Create(null, "You can only trade for your own team"));
+            }
+
+            var trade = await _tradeService.RejectTrade(id, request.ManagerId);
+            _debugService.LogToFrontend(LogLevel.Information, $"Trade {id} rejected");
+            _draftEventService.Publish(DraftEventTypes.TradeUpdated, new { trade });
+
+            return Ok(ApiResponse<Trade>.Create(trade));
+        }
+        catch (Exception ex) when (IsTradeError(ex))
+        {
+            return TradeError(ex);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error rejecting trade {TradeId}", id);
+            _debugService.LogToFrontend(LogLevel.Error, $"Error rejecting trade: {ex.Message}");
+            return StatusCode(500, ApiResponse<Trade>.Create(null, "An error occurred rejecting the trade"));
+        }
+    }
+
+    [HttpPost("{id}/counter")]
+    public async Task<ActionResult<ApiResponse<Trade>>> CounterTrade(string id, [FromBody] TradeProposalRequest request)
+    {
+        try
+        {
+            _logger.LogInformation("Manager {ManagerId} countering trade {TradeId}", request.ProposedBy, id);
+
+            if (!await _managerService.CanActForAsync(request.ProposedBy))
+            {
+                return StatusCode(403, ApiResponse<Trade>.Create(null, "You can only trade for your own team"));
+            }
+
+            var trade = await _tradeService.CounterTrade(id, request.ProposedBy, request.Trade);
+            _debugService.LogToFrontend(LogLevel.Information, $"Trade {id} countered with trade {trade.Id}");
+            _draftEventService.Publish(DraftEventTypes.TradeUpdated, new { trade });
+
+            return Ok(ApiResponse<Trade>.Create(trade));
+        }
+        catch (Exception ex) when (IsTradeError(ex))
+        {
+            return TradeError(ex);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error countering trade {TradeId}", id);
+            _debugService.LogToFrontend(LogLevel.Error, $"Error countering trade: {ex.Message}");
+            return StatusCode(500, ApiResponse<Trade>.Create(null, "An error occurred countering the trade"));
+        }
+    }
+
+    // Nothing is saved; the trade modal calls this as assets are added to show who comes out ahead
+    [HttpPost("analyze")]
+    public async Task<ActionResult<ApiResponse<TradeAnalysis>>> AnalyzeTrade([FromBody] Trade trade)
+    {
+        try
+        {
+            var analysis = await _tradeAnalysisService.AnalyzeAsync(trade);
+            return Ok(ApiResponse<TradeAnalysis>.Create(analysis));
+        }
+        catch (InvalidOperationException ex)
+        {
+            return TradeError(ex);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error analyzing trade");
+            return StatusCode(500, ApiResponse<TradeAnalysis>.Create(null, "An error occurred analyzing the trade"));
+        }
+    }
+
     [HttpGet]
     public async Task<ActionResult<ApiResponse<List<Trade>>>> GetTrades()
     {
@@ -205,6 +393,7 @@ public class TradeController : ControllerBase
         }
     }
 
+    // Managers can withdraw their own proposals; anything else, such as undoing a completed trade, is the commissioner's call
     [HttpDelete("{id}")]
     public async Task<ActionResult> CancelTrade(string id)
     {
@@ -212,6 +401,12 @@ public class TradeController : ControllerBase
         {
             _logger.LogInformation("Cancelling trade {TradeId}", id);
 
+            var trade = await _tradeService.GetTrade(id);
+            if (trade != null && !await CanCancelAsync(trade))
+            {
+                return StatusCode(403, "Only the commissioner or the manager who proposed it can cancel this trade");
+            }
+
             // Verify active draft exists
             var activeDraft = await _draftService.GetActiveDraftAsync();
             if (activeDraft == null)
@@ -224,6 +419,7 @@ public class TradeController : ControllerBase
             await _tradeService.CancelTrade(id);
             _logger.LogInformation("Trade {TradeId} cancelled successfully", id);
             _debugService.LogToFrontend(LogLevel.Information, $"Trade {id} cancelled successfully");
+            _draftEventService.Publish(DraftEventTypes.TradeUpdated, new { tradeId = id });
             return Ok();
         }
         catch (InvalidOperationException ex)
@@ -240,7 +436,36 @@ public class TradeController : ControllerBase
         }
     }
 
+    // Undoes the trade along with every later trade that re-traded its assets, most recent first
+    [HttpDelete("{id}/cascade")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    public async Task<ActionResult<ApiResponse<List<string>>>> CancelTradeCascade(string id)
+    {
+        try
+        {
+            _logger.LogInformation("Cancelling trade {TradeId} and the trades that depend on it", id);
+
+            var cancelledTradeIds = await _tradeService.CancelTradeCascade(id);
+            _debugService.LogToFrontend(LogLevel.Information,
+                $"Trade {id} cancelled along with {cancelledTradeIds.Count - 1} dependent trade(s)");
+            _draftEventService.Publish(DraftEventTypes.TradeUpdated, new { tradeId = id, cancelledTradeIds });
+
+            return Ok(ApiResponse<List<string>>.Create(cancelledTradeIds));
+        }
+        catch (Exception ex) when (IsTradeError(ex))
+        {
+            return TradeError(ex);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error cancelling trade {TradeId} with its dependent trades", id);
+            _debugService.LogToFrontend(LogLevel.Error, $"Error cancelling trade chain: {ex.Message}");
+            return StatusCode(500, ApiResponse<List<string>>.Create(null, "An error occurred cancelling the trades"));
+        }
+    }
+
     [HttpDelete("{id}/permanent")]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
     public async Task<ActionResult> DeleteTrade(string id)
     {
         try
@@ -265,4 +490,34 @@ public class TradeController : ControllerBase
             return StatusCode(500, "An error occurred permanently deleting the trade");
         }
     }
+
+    private async Task<bool> CanCancelAsync(Trade trade)
+    {
+        var proposer = trade.Parties.FirstOrDefault(p => p.Proposed);
+        if (trade.Status == TradeStatus.Proposed && proposer != null)
+            return await _managerService.CanActForAsync(proposer.ManagerId);
+
+        return _userContext.IsCommissioner;
+    }
+
+    private static bool IsTradeError(Exception ex) =>
+        ex is TradeValidationException
+            or AssetDistributionException
+            or DraftPickValidationException
+            or InvalidOperationException;
+
+    private ActionResult TradeError(Exception ex)
+    {
+        var type = ex switch
+        {
+            TradeValidationException => "validation",
+            AssetDistributionException => "distribution",
+            DraftPickValidationException => "pick",
+            _ => "operation"
+        };
+
+        _logger.LogWarning(ex, "Trade {Type} error: {Message}", type, ex.Message);
+        _debugService.LogToFrontend(LogLevel.Warning, $"Trade {type} error: {ex.Message}");
+        return BadRequest(new { error = ex.Message, type });
+    }
 }
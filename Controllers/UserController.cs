@@ -0,0 +1,150 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+/// <summary>
+/// Manages sign-in accounts. Commissioner only.
+/// </summary>
+/// <remarks>
+/// Accounts are shared by every league; link one to a team by setting the manager's userId.
+/// </remarks>
+[ApiController]
+[Route("[controller]")]
+[Authorize(Policy = AuthPolicies.Commissioner)]
+public class UserController : ControllerBase
+{
+    private readonly UserAccountService _userAccountService;
+    private readonly ILogger<UserController> _logger;
+
+    public UserController(
+        UserAccountService userAccountService,
+        ILogger<UserController> logger)
+    {
+        _userAccountService = userAccountService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Retrieves every account
+    /// </summary>
+    /// <response code="200">Returns the accounts, by username</response>
+    /// <response code="500">Internal server error retrieving accounts</response>
+    [HttpGet]
+    [ProducesResponseType(typeof(ApiResponse<List<UserAccount>>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> GetAll()
+    {
+        try
+        {
+            var accounts = await _userAccountService.GetAllAsync();
+            return Ok(new { value = accounts });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting accounts");
+            return StatusCode(500, new { message = "Error getting accounts" });
+        }
+    }
+
+    /// <summary>
+    /// Creates an account
+    /// </summary>
+    /// <remarks>
+    /// Sample request:
+    ///
+    ///     POST /user
+    ///     {
+    ///         "username": "sam",
+    ///         "password": "changeme123",
+    ///         "role": "Manager"
+    ///     }
+    /// </remarks>
+    /// <response code="200">Returns the created account</response>
+    /// <response code="400">The username is taken or the password is too short</response>
+    /// <response code="500">Internal server error creating the account</response>
+    [HttpPost]
+    [ProducesResponseType(typeof(ApiResponse<UserAccount>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Create([FromBody] CreateUserRequest request)
+    {
+        try
+        {
+            var provider = request.Provider ?? LocalLoginProvider.ProviderName;
+            if (provider == LocalLoginProvider.ProviderName && string.IsNullOrEmpty(request.Password))
+                return BadRequest(new { message = "A password is required" });
+
+            var account = await _userAccountService.CreateAsync(request.Username, request.Password, request.Role, provider);
+            return Ok(new { value = account });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error creating account {Username}", request.Username);
+            return StatusCode(500, new { message = "Error creating account" });
+        }
+    }
+
+    /// <summary>
+    /// Changes an account's role, and its password when one is given
+    /// </summary>
+    /// <response code="200">Returns the updated account</response>
+    /// <response code="400">The account wasn't found, the password is too short, or no commissioner would be left</response>
+    /// <response code="500">Internal server error updating the account</response>
+    [HttpPut("{id:length(24)}")]
+    [ProducesResponseType(typeof(ApiResponse<UserAccount>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Update(string id, [FromBody] UpdateUserRequest request)
+    {
+        try
+        {
+            var account = await _userAccountService.UpdateAsync(id, request.Role, request.Password);
+            return Ok(new { value = account });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating account {UserId}", id);
+            return StatusCode(500, new { message = "Error updating account" });
+        }
+    }
+
+    /// <summary>
+    /// Deletes an account; the teams it managed are left without an account
+    /// </summary>
+    /// <response code="200">The account was deleted</response>
+    /// <response code="400">The account wasn't found or is the last commissioner</response>
+    /// <response code="500">Internal server error deleting the account</response>
+    [HttpDelete("{id:length(24)}")]
+    [ProducesResponseType(typeof(ApiResponse<string>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Delete(string id)
+    {
+        try
+        {
+            await _userAccountService.DeleteAsync(id);
+            return Ok(new { message = "Account deleted" });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting account {UserId}", id);
+            return StatusCode(500, new { message = "Error deleting account" });
+        }
+    }
+}
@@ -0,0 +1,68 @@
+using Microsoft.AspNetCore.Authorization;
+using Microsoft.AspNetCore.Mvc;
+using DraftEngine.Models.Data;
+using DraftEngine.Services;
+
+namespace DraftEngine.Controllers;
+
+[ApiController]
+[Route("[controller]")]
+public class ValuationController : ControllerBase
+{
+    private readonly ValuationService _valuationService;
+    private readonly ILogger<ValuationController> _logger;
+
+    public ValuationController(
+        ValuationService valuationService,
+        ILogger<ValuationController> logger)
+    {
+        _valuationService = valuationService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Calculates dollar values and ranks for every player with projections from the chosen source
+    /// </summary>
+    /// <remarks>
+    /// Scores players in the league's hitting and pitching categories by z-score or standings gain points (SGP),
+    /// subtracts the best player a league this size would leave unrostered at their position, and splits the
+    /// league's budget by that value above replacement. Results replace the league's previous run, show up in each
+    /// player's valuation for this league, and as the VALUE ranking source. Run again after importing new projections.
+    ///
+    /// Sample request:
+    ///
+    ///     POST /valuation
+    ///     {
+    ///         "projectionSource": "STEAMER",
+    ///         "method": "Sgp",
+    ///         "budgetPerTeam": 260,
+    ///         "minimumBid": 1
+    ///     }
+    /// </remarks>
+    /// <param name="request">Projection source, method and auction budget</param>
+    /// <response code="200">Returns a summary of the run, including replacement levels by position</response>
+    /// <response code="400">Not enough managers or roster slots to size the league</response>
+    /// <response code="500">Internal server error calculating values</response>
+    [HttpPost]
+    [Authorize(Policy = AuthPolicies.Commissioner)]
+    [ProducesResponseType(typeof(ApiResponse<ValuationResult>), 200)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 400)]
+    [ProducesResponseType(typeof(ApiResponse<string>), 500)]
+    public async Task<IActionResult> Calculate([FromBody] ValuationRequest request)
+    {
+        try
+        {
+            var result = await _valuationService.CalculateAsync(request);
+            return Ok(new { value = result });
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error calculating player valuations");
+            return StatusCode(500, new { message = "Error calculating player valuations" });
+        }
+    }
+}
@@ -0,0 +1,42 @@
+namespace DraftEngine.Models;
+
+/// <summary>
+/// Settings and running state for a draft played as an auction. Players are nominated in turn and go to the
+/// highest bidder, filling one of the winner's open picks; a manager's open picks are their remaining roster spots.
+/// </summary>
+public class Auction
+{
+    public int Budget { get; set; } = 260;
+    public int MinimumBid { get; set; } = 1;
+
+    // Budgets that differ from the default, by manager
+    public Dictionary<string, int> ManagerBudgets { get; set; } = new();
+
+    // Managers nominate in this order, skipping anyone whose roster is full
+    public List<string> NominationOrder { get; set; } = new();
+    public int NominationIndex { get; set; }
+
+    public AuctionLot? CurrentLot { get; set; }
+
+    public int GetBudget(string managerId) =>
+        ManagerBudgets.TryGetValue(managerId, out var budget) ? budget : Budget;
+}
+
+public class AuctionLot
+{
+    public string PlayerId { get; set; } = string.Empty;
+    public string NominatedBy { get; set; } = string.Empty;
+    public DateTime NominatedAt { get; set; }
+
+    // The nomination itself is the opening bid
+    public string HighBidderId { get; set; } = string.Empty;
+    public int HighBid { get; set; }
+    public List<AuctionBid> Bids { get; set; } = new();
+}
+
+public class AuctionBid
+{
+    public string ManagerId { get; set; } = string.Empty;
+    public int Amount { get; set; }
+    public DateTime Timestamp { get; set; }
+}
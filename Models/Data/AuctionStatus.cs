@@ -0,0 +1,28 @@
+using DraftEngine.Models;
+
+namespace DraftEngine.Models.Data;
+
+public class AuctionStatus
+{
+    public string DraftId { get; set; } = string.Empty;
+    public int MinimumBid { get; set; }
+    public AuctionLot? CurrentLot { get; set; }
+
+    // Null while a player is up for bids or once every roster is full
+    public string? NominatorId { get; set; }
+    public List<AuctionBudget> Budgets { get; set; } = new();
+}
+
+public class AuctionBudget
+{
+    public string ManagerId { get; set; } = string.Empty;
+    public int Budget { get; set; }
+    public int Spent { get; set; }
+    public int Remaining { get; set; }
+
+    // Open picks the manager still holds
+    public int OpenRosterSpots { get; set; }
+
+    // Leaves enough to pay the minimum bid for every other open spot
+    public int MaxBid { get; set; }
+}
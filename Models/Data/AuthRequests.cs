@@ -0,0 +1,48 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace DraftEngine.Models.Data;
+
+public class LoginRequest
+{
+    [Required]
+    [StringLength(50)]
+    public string Username { get; set; } = string.Empty;
+
+    [Required]
+    public string Password { get; set; } = string.Empty;
+
+    // Login provider to check the credentials with; the local provider when omitted
+    public string? Provider { get; set; }
+}
+
+public class SetupRequest
+{
+    [Required]
+    [StringLength(50)]
+    public string Username { get; set; } = string.Empty;
+
+    [Required]
+    public string Password { get; set; } = string.Empty;
+}
+
+public class CreateUserRequest
+{
+    [Required]
+    [StringLength(50)]
+    public string Username { get; set; } = string.Empty;
+
+    // Required for local accounts
+    public string? Password { get; set; }
+
+    public UserRole Role { get; set; } = UserRole.Manager;
+
+    public string? Provider { get; set; }
+}
+
+public class UpdateUserRequest
+{
+    public UserRole Role { get; set; }
+
+    // Leave empty to keep the current password
+    public string? Password { get; set; }
+}
@@ -6,4 +6,6 @@ public class DraftPickRequest
     public int Round { get; set; }
     public int Pick { get; set; }
     public int OverallPick { get; set; }
+    public bool IsKeeper { get; set; }
+    public int? Price { get; set; }
 }
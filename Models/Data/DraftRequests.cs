@@ -9,10 +9,26 @@ public class CreateDraftRequest
     [Required]
     public string Type { get; set; } = string.Empty;
     public bool IsSnakeDraft { get; set; }
+    // Takes precedence over IsSnakeDraft when set
+    public DraftOrderStrategy? OrderStrategy { get; set; }
+    // Rounds with their own order, used when OrderStrategy is Custom
+    public List<RoundOrder>? CustomRoundOrders { get; set; }
     [Required]
     public int InitialRounds { get; set; }
     [Required]
     public DraftPosition[] DraftOrder { get; set; } = Array.Empty<DraftPosition>();
+    // Takes the draft order from this lottery's results instead of DraftOrder
+    public string? LotteryId { get; set; }
+    // Makes the draft an auction when set
+    public CreateAuctionRequest? Auction { get; set; }
+}
+
+public class CreateAuctionRequest
+{
+    [Range(1, 10000)]
+    public int Budget { get; set; } = 260;
+    [Range(0, 100)]
+    public int MinimumBid { get; set; } = 1;
 }
 
 public class MarkPickRequest
@@ -39,3 +55,45 @@ public class UpdateActivePickRequest
     [Required]
     public int OverallPickNumber { get; set; }
 }
+
+public class DraftHistoryStepRequest
+{
+    [Range(1, 100)]
+    public int Count { get; set; } = 1;
+}
+
+public class UpdatePickClockRequest
+{
+    public bool Enabled { get; set; }
+    [Range(5, 3600)]
+    public int SecondsPerPick { get; set; } = 120;
+    public List<RoundClockOverride> RoundOverrides { get; set; } = new();
+    [Range(0, 36000)]
+    public int TimeBankSeconds { get; set; }
+    public PickClockExpiryPolicy ExpiryPolicy { get; set; } = PickClockExpiryPolicy.AutoAdvance;
+    public bool ResetTimeBanks { get; set; }
+}
+
+public class NominatePlayerRequest
+{
+    [Required]
+    public string ManagerId { get; set; } = string.Empty;
+    [Required]
+    public string PlayerId { get; set; } = string.Empty;
+    [Range(0, 10000)]
+    public int OpeningBid { get; set; }
+}
+
+public class PlaceBidRequest
+{
+    [Required]
+    public string ManagerId { get; set; } = string.Empty;
+    [Range(0, 10000)]
+    public int Amount { get; set; }
+}
+
+public class UpdateAuctionBudgetRequest
+{
+    [Range(0, 10000)]
+    public int Budget { get; set; }
+}
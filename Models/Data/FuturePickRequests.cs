@@ -0,0 +1,12 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace DraftEngine.Models.Data;
+
+public class CreateFuturePicksRequest
+{
+    [Required]
+    public int Year { get; set; }
+
+    [Range(1, 50)]
+    public int Rounds { get; set; }
+}
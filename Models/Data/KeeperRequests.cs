@@ -0,0 +1,16 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace DraftEngine.Models.Data;
+
+public class AddKeeperRequest
+{
+    [Required]
+    public string PlayerId { get; set; } = string.Empty;
+
+    [Required]
+    public string ManagerId { get; set; } = string.Empty;
+
+    // The round whose pick the keeper costs; the manager's last open pick when not given
+    [Range(1, 50)]
+    public int? Round { get; set; }
+}
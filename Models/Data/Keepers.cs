@@ -0,0 +1,25 @@
+namespace DraftEngine.Models.Data;
+
+public class Keeper
+{
+    public string PlayerId { get; set; } = string.Empty;
+    public string PlayerName { get; set; } = string.Empty;
+    public string ManagerId { get; set; } = string.Empty;
+
+    // The pick in the active draft spent to keep the player
+    public int Round { get; set; }
+    public int PickNumber { get; set; }
+    public int OverallPickNumber { get; set; }
+}
+
+public class KeeperCandidate
+{
+    public Player Player { get; set; } = null!;
+
+    // Where the manager last got the player, in the most recent prior draft that included them
+    public string DraftId { get; set; } = string.Empty;
+    public int DraftYear { get; set; }
+    public int Round { get; set; }
+    public int OverallPick { get; set; }
+    public bool WasKeeper { get; set; }
+}
@@ -0,0 +1,10 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace DraftEngine.Models.Data;
+
+public class LeagueRequest
+{
+    [Required]
+    [StringLength(100)]
+    public string Name { get; set; } = string.Empty;
+}
@@ -0,0 +1,18 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace DraftEngine.Models.Data;
+
+public class RunLotteryRequest
+{
+    [Required]
+    public int Year { get; set; }
+
+    // Leave empty for a random seed; pass an earlier lottery's seed to rerun it
+    public int? Seed { get; set; }
+
+    [Range(0, 50)]
+    public int Draws { get; set; }
+
+    [Required]
+    public List<LotteryEntry> Entries { get; set; } = new();
+}
@@ -0,0 +1,9 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace DraftEngine.Models.Data;
+
+public class UpdateQueueRequest
+{
+    [Required]
+    public List<string> PlayerIds { get; set; } = new();
+}
@@ -0,0 +1,21 @@
+using System.ComponentModel.DataAnnotations;
+using DraftEngine.Models;
+
+namespace DraftEngine.Models.Data;
+
+public class CreateMockDraftRequest
+{
+    // Defaults to the manager flagged as the user
+    public string? UserManagerId { get; set; }
+
+    public RankingSource RankingSource { get; set; } = RankingSource.IBW;
+
+    [Range(0, 50)]
+    public double Randomness { get; set; } = 3;
+}
+
+public class MockDraftPickRequest
+{
+    [Required]
+    public string PlayerId { get; set; } = string.Empty;
+}
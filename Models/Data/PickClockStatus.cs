@@ -0,0 +1,19 @@
+using DraftEngine.Models;
+
+namespace DraftEngine.Models.Data;
+
+public class PickClockStatus
+{
+    public string DraftId { get; set; } = string.Empty;
+    public bool Enabled { get; set; }
+    public bool IsPaused { get; set; }
+    public int? OverallPickNumber { get; set; }
+    public int? Round { get; set; }
+    public string? ManagerId { get; set; }
+    public int SecondsForPick { get; set; }
+    public int PickSecondsRemaining { get; set; }
+    public int TimeBankRemaining { get; set; }
+    public int TotalSecondsRemaining { get; set; }
+    public PickClockExpiryPolicy ExpiryPolicy { get; set; }
+    public DateTime ServerTime { get; set; }
+}
@@ -0,0 +1,38 @@
+namespace DraftEngine.Models.Data;
+
+public enum PickOwnershipStatus
+{
+    // The manager's own pick, never traded or traded back
+    Owned,
+    // Came from another manager
+    Acquired,
+    // The manager held it at some point but no longer does
+    TradedAway
+}
+
+public class PickOwnership
+{
+    // Null for picks in drafts that haven't been created yet
+    public string? DraftId { get; set; }
+    public string? FuturePickId { get; set; }
+    public int Year { get; set; }
+    public int Round { get; set; }
+    public int? PickNumber { get; set; }
+    public int? OverallPickNumber { get; set; }
+    public bool IsComplete { get; set; }
+
+    public string OriginalManagerId { get; set; } = string.Empty;
+    public string CurrentOwnerId { get; set; } = string.Empty;
+    public PickOwnershipStatus Status { get; set; }
+
+    // Completed trades that moved the pick, oldest first
+    public List<PickTradeEvent> Timeline { get; set; } = new();
+}
+
+public class PickTradeEvent
+{
+    public string TradeId { get; set; } = string.Empty;
+    public DateTime Timestamp { get; set; }
+    public string FromManagerId { get; set; } = string.Empty;
+    public string ToManagerId { get; set; } = string.Empty;
+}
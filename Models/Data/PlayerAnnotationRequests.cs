@@ -0,0 +1,64 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace DraftEngine.Models.Data;
+
+public class UpdatePlayerAnnotationRequest
+{
+    public string? Notes { get; set; }
+
+    [Range(1, int.MaxValue)]
+    public int? PersonalRank { get; set; }
+
+    [Range(0, 5)]
+    public decimal? StarsRating { get; set; }
+
+    public bool IsNoteShared { get; set; }
+}
+
+/// <summary>
+/// A note someone in the league has shared on a player
+/// </summary>
+public class SharedPlayerNote
+{
+    public string UserId { get; set; } = string.Empty;
+    public string Username { get; set; } = string.Empty;
+    public string? ManagerName { get; set; }
+    public string Notes { get; set; } = string.Empty;
+    public DateTime UpdatedAt { get; set; }
+}
+
+/// <summary>
+/// A player's place on a big board. Their rank is where they appear in the list.
+/// </summary>
+public class BigBoardEntry
+{
+    [Required]
+    public string PlayerId { get; set; } = string.Empty;
+
+    [Range(1, int.MaxValue)]
+    public int Tier { get; set; } = 1;
+}
+
+public class SaveBigBoardRequest
+{
+    [Required]
+    public List<BigBoardEntry> Players { get; set; } = new();
+}
+
+public class SeedBigBoardRequest
+{
+    public RankingSource Source { get; set; }
+
+    [Range(1, 1000)]
+    public int Count { get; set; } = 300;
+}
+
+/// <summary>
+/// A player on the signed-in account's big board
+/// </summary>
+public class BigBoardPlayer
+{
+    public Player Player { get; set; } = null!;
+    public int Rank { get; set; }
+    public int Tier { get; set; }
+}
@@ -0,0 +1,39 @@
+using DraftEngine.Models;
+
+namespace DraftEngine.Models.Data;
+
+public class RecommendationRequest
+{
+    // Ranking sources to blend; every source is used when none are given
+    public List<RankingSource>? RankingSources { get; set; }
+    public ProspectSource? ProspectSource { get; set; }
+    public string? ProjectionSource { get; set; }
+    public string? ProjectionCategory { get; set; }
+    public bool IncludePersonalRank { get; set; } = true;
+
+    // Manager to recommend for; defaults to whoever owns the active pick
+    public string? ManagerId { get; set; }
+    public int Count { get; set; } = 10;
+}
+
+public class RecommendationResult
+{
+    public string DraftId { get; set; } = string.Empty;
+    public int OverallPickNumber { get; set; }
+    public string? ManagerId { get; set; }
+
+    // Eligible positions still needed by the manager, keyed by position with the open slot count
+    public Dictionary<string, int> OpenPositions { get; set; } = new();
+    public List<PlayerRecommendation> Recommendations { get; set; } = new();
+}
+
+public class PlayerRecommendation
+{
+    public Player Player { get; set; } = null!;
+    public string[] EligiblePositions { get; set; } = Array.Empty<string>();
+    public double Score { get; set; }
+    public double BaseScore { get; set; }
+    public double NeedMultiplier { get; set; } = 1;
+    public Dictionary<string, double> ComponentScores { get; set; } = new();
+    public List<string> Reasons { get; set; } = new();
+}
@@ -0,0 +1,55 @@
+using DraftEngine.Models;
+
+namespace DraftEngine.Models.Data;
+
+public class TeamSummaryResult
+{
+    public string DraftId { get; set; } = string.Empty;
+    public string ProjectionSource { get; set; } = string.Empty;
+
+    // The league's scoring categories, in the order each team's totals are listed
+    public List<SummaryCategory> Categories { get; set; } = new();
+    public List<TeamSummary> Teams { get; set; } = new();
+}
+
+public class SummaryCategory
+{
+    public string Stat { get; set; } = string.Empty;
+    public bool IsPitching { get; set; }
+    public bool LowerIsBetter { get; set; }
+}
+
+public class TeamSummary
+{
+    public string ManagerId { get; set; } = string.Empty;
+    public string ManagerName { get; set; } = string.Empty;
+    public int PlayerCount { get; set; }
+
+    // Drafted players with no projection from the source; they add nothing to the totals
+    public int UnprojectedCount { get; set; }
+
+    public List<PositionCoverage> Positions { get; set; } = new();
+    public List<CategoryTotal> Totals { get; set; } = new();
+}
+
+public class PositionCoverage
+{
+    public string Position { get; set; } = string.Empty;
+    public int Filled { get; set; }
+    public int Target { get; set; }
+}
+
+public class CategoryTotal
+{
+    public string Stat { get; set; } = string.Empty;
+    public bool IsPitching { get; set; }
+
+    // Null when none of the team's players are projected in the category
+    public double? Total { get; set; }
+
+    // 1 is best in the league; ties share a rank
+    public int Rank { get; set; }
+
+    // 1 for the league's best total down to 0 for the worst
+    public double Strength { get; set; }
+}
@@ -0,0 +1,56 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace DraftEngine.Models.Data;
+
+public class SaveTierSetRequest
+{
+    [Required]
+    public string Position { get; set; } = TierSet.AllPositions;
+
+    [Required]
+    public string RankingSource { get; set; } = string.Empty;
+
+    // An empty list removes the tiers
+    public List<int> Breaks { get; set; } = new();
+}
+
+public class GenerateTiersRequest
+{
+    [Required]
+    public string Position { get; set; } = TierSet.AllPositions;
+
+    [Required]
+    public string RankingSource { get; set; } = string.Empty;
+
+    [Range(2, 20)]
+    public int TierCount { get; set; } = 6;
+
+    // How far down the ranking to tier; everyone below joins the last tier
+    [Range(10, 500)]
+    public int PlayerCount { get; set; } = 100;
+}
+
+/// <summary>
+/// A player as the tiering tool lists them: in ranking order, with the value tiers are clustered on
+/// </summary>
+public class TierPlayer
+{
+    public Player Player { get; set; } = null!;
+    public int Rank { get; set; }
+
+    // The player's average rank across every ranking source, including the one being tiered
+    public double CompositeValue { get; set; }
+}
+
+/// <summary>
+/// A tier that's nearly drafted out: the best tier at a position still holding undrafted players,
+/// with only a couple of them left
+/// </summary>
+public class TierAlert
+{
+    public string TierSetId { get; set; } = string.Empty;
+    public string Position { get; set; } = string.Empty;
+    public string RankingSource { get; set; } = string.Empty;
+    public int Tier { get; set; }
+    public List<Player> Remaining { get; set; } = new();
+}
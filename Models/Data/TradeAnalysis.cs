@@ -0,0 +1,34 @@
+using DraftEngine.Models;
+
+namespace DraftEngine.Models.Data;
+
+public class TradeAnalysis
+{
+    public List<TradeAssetValue> Assets { get; set; } = new();
+    public List<TradePartyValue> Parties { get; set; } = new();
+
+    // False while some assets haven't been given a receiving manager; nobody is flagged until they all have
+    public bool IsComplete { get; set; }
+    public bool IsLopsided { get; set; }
+    public double LopsidedThreshold { get; set; }
+}
+
+public class TradeAssetValue
+{
+    public TradeAsset Asset { get; set; } = new();
+    public string FromManagerId { get; set; } = string.Empty;
+    public string? ToManagerId { get; set; }
+    public double Value { get; set; }
+
+    // What the value was based on, e.g. "Pick 14" or "#32 by VALUE"
+    public string Basis { get; set; } = string.Empty;
+}
+
+public class TradePartyValue
+{
+    public string ManagerId { get; set; } = string.Empty;
+    public double Given { get; set; }
+    public double Received { get; set; }
+    public double Net { get; set; }
+    public bool IsLopsided { get; set; }
+}
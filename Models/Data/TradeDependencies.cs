@@ -0,0 +1,33 @@
+namespace DraftEngine.Models.Data;
+
+/// <summary>
+/// What stands in the way of undoing a trade
+/// </summary>
+public class TradeDependencies
+{
+    public string TradeId { get; set; } = string.Empty;
+
+    // True when the trade can be undone on its own
+    public bool CanCancel { get; set; }
+
+    // True when the trade can be undone by first undoing everything in DependentTrades
+    public bool CanCascade { get; set; }
+
+    // Later completed trades that moved something this trade did, or that depend on one that did.
+    // Listed in the order they'd be undone, most recent first.
+    public List<DependentTrade> DependentTrades { get; set; } = new();
+
+    // Picks that have been used to draft a player, or future picks whose draft now exists.
+    // Their trades can't be undone, with or without the dependent trades.
+    public List<TradeAsset> UsedPicks { get; set; } = new();
+}
+
+public class DependentTrade
+{
+    public string TradeId { get; set; } = string.Empty;
+    public DateTime Timestamp { get; set; }
+    public List<string> ManagerIds { get; set; } = new();
+
+    // Assets this trade moved that an earlier trade in the chain had also moved
+    public List<TradeAsset> SharedAssets { get; set; } = new();
+}
@@ -0,0 +1,18 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace DraftEngine.Models.Data;
+
+public class TradeProposalRequest
+{
+    [Required]
+    public string ProposedBy { get; set; } = string.Empty;
+
+    [Required]
+    public Trade Trade { get; set; } = new();
+}
+
+public class TradeResponseRequest
+{
+    [Required]
+    public string ManagerId { get; set; } = string.Empty;
+}
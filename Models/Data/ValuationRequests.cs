@@ -0,0 +1,34 @@
+using System.ComponentModel.DataAnnotations;
+using DraftEngine.Models;
+
+namespace DraftEngine.Models.Data;
+
+public class ValuationRequest
+{
+    [Required]
+    public string ProjectionSource { get; set; } = "STEAMER";
+
+    public ValuationMethod Method { get; set; } = ValuationMethod.ZScore;
+
+    [Range(1, 10000)]
+    public int BudgetPerTeam { get; set; } = 260;
+
+    [Range(0, 100)]
+    public int MinimumBid { get; set; } = 1;
+}
+
+public class ValuationResult
+{
+    public ValuationMethod Method { get; set; }
+    public string ProjectionSource { get; set; } = string.Empty;
+    public int Teams { get; set; }
+    public int PlayersValued { get; set; }
+
+    // Players who would be rostered in a league of this size
+    public int PlayersRostered { get; set; }
+
+    // Score of the best player left unrostered at each position
+    public Dictionary<string, double> ReplacementLevels { get; set; } = new();
+
+    public DateTime CalculatedAt { get; set; }
+}
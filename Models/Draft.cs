@@ -8,10 +8,21 @@ public class Draft
     [BsonId]
     [BsonRepresentation(BsonType.ObjectId)]
     public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? LeagueId { get; set; }
     
     public int Year { get; set; }
     public string Type { get; set; } = string.Empty;
     public bool IsSnakeDraft { get; set; }
+
+    // How pick order moves from round to round. Drafts saved before this existed only have IsSnakeDraft.
+    [BsonRepresentation(BsonType.String)]
+    public DraftOrderStrategy? OrderStrategy { get; set; }
+
+    // Rounds that set their own order under the Custom strategy
+    public List<RoundOrder> CustomRoundOrders { get; set; } = new();
+
     public DateTime CreatedAt { get; set; }
     public bool IsActive { get; set; }
     public DraftPosition[] DraftOrder { get; set; } = Array.Empty<DraftPosition>();
@@ -36,6 +47,12 @@ public class Draft
 
     [BsonElement("ActiveOverallPick")]
     public int ActiveOverallPick { get; set; } = 1;
+
+    // Optional per-pick timer
+    public PickClock? PickClock { get; set; }
+
+    // Set when players are bought at auction instead of picked in order
+    public Auction? Auction { get; set; }
 }
 
 public class DraftRound
@@ -53,3 +70,19 @@ public class DraftPosition
     public bool IsComplete { get; set; }
     public int OverallPickNumber { get; set; }
 }
+
+public class RoundOrder
+{
+    public int Round { get; set; }
+
+    // Managers in the order they pick in this round
+    public List<string> ManagerIds { get; set; } = new();
+}
+
+public enum DraftOrderStrategy
+{
+    Linear,
+    Snake,
+    ThirdRoundReversal,
+    Custom
+}
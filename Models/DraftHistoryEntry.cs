@@ -0,0 +1,48 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+using Newtonsoft.Json;
+
+namespace DraftEngine.Models;
+
+public class DraftHistoryEntry
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string DraftId { get; set; } = string.Empty;
+    public long Sequence { get; set; }
+    public DateTime Timestamp { get; set; }
+    [BsonRepresentation(BsonType.String)]
+    public DraftActionType Action { get; set; }
+    public string Description { get; set; } = string.Empty;
+    public bool IsUndone { get; set; }
+
+    // Full draft snapshots on either side of the action. Kept server-side only.
+    [JsonIgnore]
+    public Draft DraftBefore { get; set; } = new();
+    [JsonIgnore]
+    public Draft DraftAfter { get; set; } = new();
+
+    public List<PlayerDraftStatusChange> PlayerChanges { get; set; } = new();
+}
+
+public class PlayerDraftStatusChange
+{
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string PlayerId { get; set; } = string.Empty;
+    public string PlayerName { get; set; } = string.Empty;
+    public DraftStatus? Before { get; set; }
+    public DraftStatus? After { get; set; }
+}
+
+public enum DraftActionType
+{
+    Pick,
+    Undraft,
+    ActivePickMove,
+    RoundAdded,
+    RoundRemoved,
+    Reset
+}
@@ -0,0 +1,63 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace DraftEngine.Models;
+
+/// <summary>
+/// A seeded drawing for the top of a draft order among teams that missed the playoffs. The seed, the
+/// entries and every roll are kept, so running the same lottery again gives the same order.
+/// </summary>
+public class DraftLottery
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? LeagueId { get; set; }
+
+    public int Year { get; set; }
+    public int Seed { get; set; }
+
+    // How many slots are drawn; everyone after that picks in reverse order of standings
+    public int Draws { get; set; }
+
+    public DateTime CreatedAt { get; set; }
+    public List<LotteryEntry> Entries { get; set; } = new();
+    public List<LotteryResult> Results { get; set; } = new();
+
+    // Set once a draft has been created with this order
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? DraftId { get; set; }
+}
+
+// Lotteries run before odds were given per slot have a single Odds value, which is ignored
+[BsonIgnoreExtraElements]
+public class LotteryEntry
+{
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string ManagerId { get; set; } = string.Empty;
+
+    // Final place last season, 1 being the best record
+    public int Standing { get; set; }
+
+    // Percent chance of landing each drawn slot, first slot first; empty for teams outside the lottery
+    public List<double> SlotOdds { get; set; } = new();
+}
+
+public class LotteryResult
+{
+    public int Slot { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string ManagerId { get; set; } = string.Empty;
+
+    // Where the manager would have picked by standings alone
+    public int PreLotterySlot { get; set; }
+
+    // The random number this slot was drawn with, or null if the slot followed standings
+    public double? Roll { get; set; }
+
+    // The manager's chance of winning the draw that gave them this slot
+    public double? Chance { get; set; }
+}
@@ -12,4 +12,10 @@ public class DraftStatus
     public int Pick { get; set; }
     public int OverallPick { get; set; }
     public string ManagerId { get; set; } = string.Empty;
+
+    // Carried over from a prior season rather than picked in this draft
+    public bool IsKeeper { get; set; }
+
+    // What the manager paid for the player in an auction draft
+    public int? Price { get; set; }
 }
@@ -0,0 +1,30 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace DraftEngine.Models;
+
+/// <summary>
+/// A pick in a draft that hasn't been created yet. Ownership is tracked the same way as a
+/// <see cref="DraftPosition"/> so the trail can be copied onto the real pick when the draft is made.
+/// </summary>
+public class FuturePick
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? LeagueId { get; set; }
+
+    public int Year { get; set; }
+    public int Round { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string OriginalManagerId { get; set; } = string.Empty;
+
+    public List<string> TradedTo { get; set; } = new();
+
+    // Set once the pick has been copied into that year's draft; it can no longer be traded from the ledger
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? DraftId { get; set; }
+}
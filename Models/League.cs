@@ -0,0 +1,20 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace DraftEngine.Models;
+
+/// <summary>
+/// A league owns its managers, settings, drafts, trades and lotteries. Players are a shared pool
+/// across leagues; what a league drafts is tracked on each player's per-draft statuses.
+/// </summary>
+public class League
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRequired]
+    public string Name { get; set; } = string.Empty;
+
+    public DateTime CreatedAt { get; set; }
+}
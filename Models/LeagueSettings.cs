@@ -9,6 +9,112 @@ namespace DraftEngine.Models
         [BsonRepresentation(BsonType.ObjectId)]
         public string? Id { get; set; }
 
+        [BsonRepresentation(BsonType.ObjectId)]
+        public string? LeagueId { get; set; }
+
         public int MinGamesForPosition { get; set; } = 10;  // Default value
+
+        // Active lineup and bench slots every team fields
+        public List<RosterSlot> RosterSlots { get; set; } = RosterSlot.Defaults();
+
+        // Most players a team can roster, counting minor league and taxi slots
+        public int MaxRosterSize { get; set; } = 40;
+
+        // Slots reserved for players who haven't reached the majors
+        public int MinorLeagueSlots { get; set; } = 10;
+
+        // Reserve slots that don't count against the active roster
+        public int TaxiSlots { get; set; } = 3;
+
+        [BsonRepresentation(BsonType.String)]
+        public ScoringFormat ScoringFormat { get; set; } = ScoringFormat.Roto;
+
+        // Stats the league scores; points leagues use each category's weight as points per unit
+        public List<ScoringCategory> HitterCategories { get; set; } = ScoringCategory.DefaultHitterCategories();
+        public List<ScoringCategory> PitcherCategories { get; set; } = ScoringCategory.DefaultPitcherCategories();
+
+        // Projection source players' league values are calculated from
+        public string ValueProjectionSource { get; set; } = "STEAMER";
+
+        // How much each pick in the draft is worth when weighing up a trade
+        public PickValueCurve PickValueCurve { get; set; } = new();
+
+        // A trade is flagged as lopsided when a manager's net loss is this share of what they give up
+        public double LopsidedTradeThreshold { get; set; } = 0.25;
+    }
+
+    /// <summary>
+    /// Values picks by draft position: the first overall pick is worth TopValue and each pick after it
+    /// is worth DecayRate less than the one before, down to MinimumValue
+    /// </summary>
+    public class PickValueCurve
+    {
+        public double TopValue { get; set; } = 100;
+        public double DecayRate { get; set; } = 0.03;
+        public double MinimumValue { get; set; } = 1;
+
+        // Picks in future drafts lose this share of their value for each year away they are
+        public double FutureYearDiscount { get; set; } = 0.1;
+
+        public double GetValue(double overallPickNumber) =>
+            Math.Max(MinimumValue, TopValue * Math.Pow(1 - DecayRate, Math.Max(overallPickNumber, 1) - 1));
+    }
+
+    public enum ScoringFormat
+    {
+        Roto,
+        HeadToHeadCategories,
+        Points
+    }
+
+    public class ScoringCategory
+    {
+        // Projection stat key, e.g. HR, AVG, ERA
+        public string Stat { get; set; } = string.Empty;
+        public bool LowerIsBetter { get; set; }
+        public double Weight { get; set; } = 1;
+
+        // How much of the stat it takes to gain one place in the standings; estimated when not set
+        public double? SgpDenominator { get; set; }
+
+        public static List<ScoringCategory> DefaultHitterCategories() => new()
+        {
+            new() { Stat = "R" },
+            new() { Stat = "HR" },
+            new() { Stat = "RBI" },
+            new() { Stat = "SB" },
+            new() { Stat = "AVG" }
+        };
+
+        // Projections don't include wins, so quality starts stand in for them
+        public static List<ScoringCategory> DefaultPitcherCategories() => new()
+        {
+            new() { Stat = "QS" },
+            new() { Stat = "SV" },
+            new() { Stat = "SO" },
+            new() { Stat = "ERA", LowerIsBetter = true },
+            new() { Stat = "WHIP", LowerIsBetter = true }
+        };
+    }
+
+    public class RosterSlot
+    {
+        // C, 1B, 2B, 3B, SS, OF, UTIL, SP, RP, P or BN
+        public string Position { get; set; } = string.Empty;
+        public int Count { get; set; }
+
+        public static List<RosterSlot> Defaults() => new()
+        {
+            new() { Position = "C", Count = 1 },
+            new() { Position = "1B", Count = 1 },
+            new() { Position = "2B", Count = 1 },
+            new() { Position = "3B", Count = 1 },
+            new() { Position = "SS", Count = 1 },
+            new() { Position = "OF", Count = 3 },
+            new() { Position = "UTIL", Count = 1 },
+            new() { Position = "SP", Count = 5 },
+            new() { Position = "RP", Count = 3 },
+            new() { Position = "BN", Count = 5 }
+        };
     }
 }
@@ -3,19 +3,32 @@ using MongoDB.Bson.Serialization.Attributes;
 
 namespace DraftEngine.Models;
 
+// Managers saved before accounts existed still carry a stored IsUser flag
+[BsonIgnoreExtraElements]
 public class Manager
 {
     [BsonId]
     [BsonRepresentation(BsonType.ObjectId)]
     public string? Id { get; set; }
 
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? LeagueId { get; set; }
+
     [BsonRequired]
     public string Name { get; set; } = string.Empty;
 
     public string? TeamName { get; set; }
 
-    [BsonRequired]
+    // Account that manages this team; it can pick and trade for it
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? UserId { get; set; }
+
+    // Whether this is the signed-in account's team; worked out per request, never stored
+    [BsonIgnore]
     public bool IsUser { get; set; }
 
     public string? Email { get; set; }
+
+    // Player IDs in the order the manager wants to draft them
+    public List<string> Queue { get; set; } = new();
 }
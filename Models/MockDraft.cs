@@ -0,0 +1,57 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace DraftEngine.Models;
+
+/// <summary>
+/// A practice run of a draft. Picks live only on this document and never touch players' draft statuses.
+/// </summary>
+public class MockDraft
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? LeagueId { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string SourceDraftId { get; set; } = string.Empty;
+
+    // The manager picking by hand; everyone else is simulated
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string UserManagerId { get; set; } = string.Empty;
+
+    [BsonRepresentation(BsonType.String)]
+    public RankingSource RankingSource { get; set; }
+
+    // Standard deviation, in ranking spots, applied to each simulated manager's board
+    public double Randomness { get; set; }
+
+    public DateTime CreatedAt { get; set; }
+    public bool IsSnakeDraft { get; set; }
+    public DraftPosition[] DraftOrder { get; set; } = Array.Empty<DraftPosition>();
+    public List<DraftRound> Rounds { get; set; } = new();
+    public List<MockDraftPick> Picks { get; set; } = new();
+
+    // Next pick to be made, or null once every pick is in
+    public int? CurrentOverallPick { get; set; }
+    public bool IsComplete { get; set; }
+}
+
+public class MockDraftPick
+{
+    public int OverallPickNumber { get; set; }
+    public int Round { get; set; }
+    public int PickNumber { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string ManagerId { get; set; } = string.Empty;
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string PlayerId { get; set; } = string.Empty;
+    public string PlayerName { get; set; } = string.Empty;
+
+    // False for picks made by the user and for picks carried over from the real draft
+    public bool IsSimulated { get; set; }
+}
@@ -0,0 +1,36 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace DraftEngine.Models;
+
+public class PickClock
+{
+    public bool Enabled { get; set; }
+    public int SecondsPerPick { get; set; } = 120;
+    public List<RoundClockOverride> RoundOverrides { get; set; } = new();
+
+    // Extra time each manager can draw on once a pick's own time runs out
+    public int TimeBankSeconds { get; set; }
+    public Dictionary<string, int> ManagerTimeBanks { get; set; } = new();
+
+    [BsonRepresentation(BsonType.String)]
+    public PickClockExpiryPolicy ExpiryPolicy { get; set; } = PickClockExpiryPolicy.AutoAdvance;
+
+    // Running state for the pick currently on the clock
+    public bool IsPaused { get; set; } = true;
+    public int? ClockOverallPick { get; set; }
+    public DateTime? SegmentStartedAt { get; set; }
+    public double ElapsedSeconds { get; set; }
+}
+
+public class RoundClockOverride
+{
+    public int Round { get; set; }
+    public int Seconds { get; set; }
+}
+
+public enum PickClockExpiryPolicy
+{
+    AutoAdvance,
+    AutoDraftFromQueue
+}
@@ -12,7 +12,8 @@ namespace DraftEngine.Models
             var dictionary = new Dictionary<string, int>();
             if (value != null)
             {
-                foreach (var kvp in value)
+                // VALUE ranks belong to a league's valuation and are merged in when players are read, never stored
+                foreach (var kvp in value.Where(kvp => kvp.Key != RankingSource.VALUE))
                 {
                     dictionary[kvp.Key.ToString()] = kvp.Value;
                 }
@@ -65,6 +66,8 @@ namespace DraftEngine.Models
         }
     }
 
+    // Highlights, notes, stars and personal ranks were stored here before they moved to PlayerAnnotation
+    [BsonIgnoreExtraElements]
     public class Player
     {
         static Player()
@@ -121,12 +124,6 @@ namespace DraftEngine.Models
         [BsonIgnore]
         public bool IsDrafted => DraftStatuses.Any(ds => ds.IsDrafted);
 
-        // Personal tracking
-        public bool IsHighlighted { get; set; }
-        public string? Notes { get; set; }
-        public int? PersonalRank { get; set; }
-        public decimal? StarsRating { get; set; }  // 0-5 in 0.5 increments
-
         [BsonRepresentation(BsonType.String)]
         public RankingSource? CreatedFrom { get; set; }
 
@@ -137,6 +134,14 @@ namespace DraftEngine.Models
         // Statistical projections from multiple sources (Steamer, ZiPS, etc.)
         public Dictionary<string, ProjectionData>? Projections { get; set; }
 
+        // Value under the current league's scoring settings, calculated from projections; kept in PlayerLeagueValue
+        [BsonIgnore]
+        public double? LeagueValue { get; set; }
+
+        // Dollar value and rank from the current league's last valuation run; kept in PlayerLeagueValue
+        [BsonIgnore]
+        public PlayerValuation? Valuation { get; set; }
+
         // Position history by season
         public Dictionary<string, Dictionary<string, int>>? PositionStats { get; set; } // Year -> (Position -> Games)
     }
@@ -0,0 +1,37 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace DraftEngine.Models;
+
+/// <summary>
+/// One account's scouting on a player in a league: highlight, notes, stars and big board place. Players are
+/// shared by everyone, so these are kept apart from the player and merged in for whoever is signed in.
+/// </summary>
+public class PlayerAnnotation
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? LeagueId { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string UserId { get; set; } = string.Empty;
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string PlayerId { get; set; } = string.Empty;
+
+    public bool IsHighlighted { get; set; }
+    public string? Notes { get; set; }
+    public int? PersonalRank { get; set; }
+
+    // Tier on the account's big board; players ranked by hand have none and join the tier above them
+    public int? PersonalTier { get; set; }
+    public decimal? StarsRating { get; set; }  // 0-5 in 0.5 increments
+
+    // Lets everyone in the league read the notes
+    public bool IsNoteShared { get; set; }
+
+    public DateTime UpdatedAt { get; set; }
+}
@@ -0,0 +1,24 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace DraftEngine.Models;
+
+/// <summary>
+/// A player's worth to one league: their value under its scoring settings and their latest valuation. Players
+/// are shared by every league, so these are kept apart from the player and merged in for the current league.
+/// </summary>
+public class PlayerLeagueValue
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? LeagueId { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string PlayerId { get; set; } = string.Empty;
+
+    public double? LeagueValue { get; set; }
+    public PlayerValuation? Valuation { get; set; }
+}
@@ -0,0 +1,32 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace DraftEngine.Models;
+
+public enum ValuationMethod
+{
+    ZScore,
+    Sgp
+}
+
+/// <summary>
+/// A player's worth from a league's most recent valuation run. The rank is also merged into
+/// <see cref="Player.Rank"/> under <see cref="RankingSource.VALUE"/> so it reads like any other ranking.
+/// </summary>
+public class PlayerValuation
+{
+    [BsonRepresentation(BsonType.String)]
+    public ValuationMethod Method { get; set; }
+
+    public string ProjectionSource { get; set; } = string.Empty;
+
+    // Position the player was valued at: C, 1B, 2B, 3B, SS, OF, UTIL or P
+    public string Position { get; set; } = string.Empty;
+
+    // Sum of the player's category scores, in z-scores or standings gain points
+    public double Score { get; set; }
+    public double ValueAboveReplacement { get; set; }
+    public double DollarValue { get; set; }
+    public int Rank { get; set; }
+    public DateTime CalculatedAt { get; set; }
+}
@@ -13,7 +13,9 @@ namespace DraftEngine.Models
 public enum RankingSource
 {
     IBW,
-    STEAMER
+    STEAMER,
+    // Calculated from projections by the valuation service rather than imported
+    VALUE
 }
 
 public enum ProspectSource
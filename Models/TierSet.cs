@@ -0,0 +1,38 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace DraftEngine.Models;
+
+/// <summary>
+/// One account's tiers for a position under a ranking source, in a league
+/// </summary>
+/// <remarks>
+/// Tiers are kept as the ranks where each new tier starts rather than as lists of players, so players
+/// ranked later land in the right tier without the tiers being redone.
+/// </remarks>
+public class TierSet
+{
+    // Position used for tiers across every position
+    public const string AllPositions = "ALL";
+
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? LeagueId { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string UserId { get; set; } = string.Empty;
+
+    // A position from the player list filters, P for pitchers, or ALL
+    public string Position { get; set; } = AllPositions;
+
+    // A RankingSource name, or "personal" for the account's big board
+    public string RankingSource { get; set; } = string.Empty;
+
+    // Ranks of the first player in tier 2, tier 3 and so on, ascending
+    public List<int> Breaks { get; set; } = new();
+
+    public DateTime UpdatedAt { get; set; }
+}
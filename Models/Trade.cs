@@ -10,7 +10,16 @@ public class Trade
     [BsonRepresentation(BsonType.ObjectId)]
     public string? Id { get; set; }
 
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? LeagueId { get; set; }
+
+    // When the trade went through; for proposals still waiting on a response, when it was last changed
     public DateTime Timestamp { get; set; }
+    public DateTime? ProposedAt { get; set; }
+
+    // Set on a counteroffer to the proposal it replaces
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? CounterOfTradeId { get; set; }
     public string? Notes { get; set; }
     [BsonRepresentation(BsonType.String)]
     public TradeStatus Status { get; set; }
@@ -41,13 +50,26 @@ public class TradeAsset
     public int? OverallPickNumber { get; set; }
     public int? PickNumber { get; set; }
     public int? RoundNumber { get; set; }
+
+    // Filled in when the trade is made so player assets can be shown without looking the player up
+    public string? PlayerName { get; set; }
+
+    // Future picks have no draft yet; they're identified by their ledger entry
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? FuturePickId { get; set; }
+
+    public int? Year { get; set; }
+
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? OriginalManagerId { get; set; }
 }
 
 [JsonConverter(typeof(JsonStringEnumConverter))]
 public enum TradeAssetType
 {
     DraftPick,    // Will be serialized as "DraftPick" to match TypeScript
-    Player
+    Player,
+    FuturePick
 }
 
 [JsonConverter(typeof(JsonStringEnumConverter))]
@@ -58,5 +80,7 @@ public enum TradeStatus
     Approved,
     Completed,
     Reversed,
-    Cancelled
+    Cancelled,
+    Rejected,
+    Countered
 }
@@ -0,0 +1,38 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization.Attributes;
+
+namespace DraftEngine.Models;
+
+/// <summary>
+/// Someone who can sign in. Accounts are shared across leagues; in each league an account is linked to
+/// at most one manager through <see cref="Manager.UserId"/>.
+/// </summary>
+public class UserAccount
+{
+    [BsonId]
+    [BsonRepresentation(BsonType.ObjectId)]
+    public string? Id { get; set; }
+
+    [BsonRequired]
+    public string Username { get; set; } = string.Empty;
+
+    // Only set for accounts that sign in with the local provider
+    [Newtonsoft.Json.JsonIgnore]
+    public string? PasswordHash { get; set; }
+
+    // The login provider the account signs in with, e.g. "local"
+    public string Provider { get; set; } = "local";
+
+    [BsonRepresentation(BsonType.String)]
+    public UserRole Role { get; set; } = UserRole.Manager;
+
+    public DateTime CreatedAt { get; set; }
+}
+
+public enum UserRole
+{
+    // Picks for their own team and proposes trades
+    Manager,
+    // Runs the league: drafts, managers, settings, trade overrides and data management
+    Commissioner
+}
@@ -75,6 +75,105 @@ namespace DraftEngine
             }
         }
 
+        private IMongoCollection<UserAccount>? _users;
+        public IMongoCollection<UserAccount> Users
+        {
+            get
+            {
+                if (_users == null)
+                {
+                    _users = _database.GetCollection<UserAccount>("users");
+                    // Usernames are unique
+                    var indexKeysDefinition = Builders<UserAccount>.IndexKeys.Ascending(u => u.Username);
+                    var indexOptions = new CreateIndexOptions { Unique = true };
+                    var indexModel = new CreateIndexModel<UserAccount>(indexKeysDefinition, indexOptions);
+                    _users.Indexes.CreateOne(indexModel);
+                }
+                return _users;
+            }
+        }
+
+        private IMongoCollection<League>? _leagues;
+        public IMongoCollection<League> Leagues
+        {
+            get
+            {
+                if (_leagues == null)
+                {
+                    _leagues = _database.GetCollection<League>("leagues");
+                    // League names are unique
+                    var indexKeysDefinition = Builders<League>.IndexKeys.Ascending(l => l.Name);
+                    var indexOptions = new CreateIndexOptions { Unique = true };
+                    var indexModel = new CreateIndexModel<League>(indexKeysDefinition, indexOptions);
+                    _leagues.Indexes.CreateOne(indexModel);
+                }
+                return _leagues;
+            }
+        }
+
+        private IMongoCollection<PlayerAnnotation>? _playerAnnotations;
+        public IMongoCollection<PlayerAnnotation> PlayerAnnotations
+        {
+            get
+            {
+                if (_playerAnnotations == null)
+                {
+                    _playerAnnotations = _database.GetCollection<PlayerAnnotation>("playerAnnotations");
+                    // One annotation per account, player and league
+                    var indexKeysDefinition = Builders<PlayerAnnotation>.IndexKeys
+                        .Ascending(a => a.LeagueId)
+                        .Ascending(a => a.UserId)
+                        .Ascending(a => a.PlayerId);
+                    var indexOptions = new CreateIndexOptions { Unique = true };
+                    var indexModel = new CreateIndexModel<PlayerAnnotation>(indexKeysDefinition, indexOptions);
+                    _playerAnnotations.Indexes.CreateOne(indexModel);
+                }
+                return _playerAnnotations;
+            }
+        }
+
+        private IMongoCollection<PlayerLeagueValue>? _playerLeagueValues;
+        public IMongoCollection<PlayerLeagueValue> PlayerLeagueValues
+        {
+            get
+            {
+                if (_playerLeagueValues == null)
+                {
+                    _playerLeagueValues = _database.GetCollection<PlayerLeagueValue>("playerLeagueValues");
+                    // One set of values per league and player
+                    var indexKeysDefinition = Builders<PlayerLeagueValue>.IndexKeys
+                        .Ascending(v => v.LeagueId)
+                        .Ascending(v => v.PlayerId);
+                    var indexOptions = new CreateIndexOptions { Unique = true };
+                    var indexModel = new CreateIndexModel<PlayerLeagueValue>(indexKeysDefinition, indexOptions);
+                    _playerLeagueValues.Indexes.CreateOne(indexModel);
+                }
+                return _playerLeagueValues;
+            }
+        }
+
+        private IMongoCollection<TierSet>? _tierSets;
+        public IMongoCollection<TierSet> TierSets
+        {
+            get
+            {
+                if (_tierSets == null)
+                {
+                    _tierSets = _database.GetCollection<TierSet>("tierSets");
+                    // One set of tiers per account, position and ranking source in a league
+                    var indexKeysDefinition = Builders<TierSet>.IndexKeys
+                        .Ascending(t => t.LeagueId)
+                        .Ascending(t => t.UserId)
+                        .Ascending(t => t.Position)
+                        .Ascending(t => t.RankingSource);
+                    var indexOptions = new CreateIndexOptions { Unique = true };
+                    var indexModel = new CreateIndexModel<TierSet>(indexKeysDefinition, indexOptions);
+                    _tierSets.Indexes.CreateOne(indexModel);
+                }
+                return _tierSets;
+            }
+        }
+
         private IMongoCollection<Manager>? _managers;
         public IMongoCollection<Manager> Managers
         {
@@ -83,8 +182,10 @@ namespace DraftEngine
                 if (_managers == null)
                 {
                     _managers = _database.GetCollection<Manager>("managers");
-                    // Create unique index on name
-                    var indexKeysDefinition = Builders<Manager>.IndexKeys.Ascending(m => m.Name);
+                    // Names are unique within a league
+                    var indexKeysDefinition = Builders<Manager>.IndexKeys
+                        .Ascending(m => m.LeagueId)
+                        .Ascending(m => m.Name);
                     var indexOptions = new CreateIndexOptions { Unique = true };
                     var indexModel = new CreateIndexModel<Manager>(indexKeysDefinition, indexOptions);
                     _managers.Indexes.CreateOne(indexModel);
@@ -126,6 +227,82 @@ namespace DraftEngine
                 return _trades;
             }
         }
+
+        private IMongoCollection<DraftHistoryEntry>? _draftHistory;
+        public IMongoCollection<DraftHistoryEntry> DraftHistory
+        {
+            get
+            {
+                if (_draftHistory == null)
+                {
+                    _draftHistory = _database.GetCollection<DraftHistoryEntry>("draftHistory");
+                    // Create index on draft + sequence for undo/redo lookups
+                    var indexKeysDefinition = Builders<DraftHistoryEntry>.IndexKeys
+                        .Ascending(h => h.DraftId)
+                        .Descending(h => h.Sequence);
+                    var indexModel = new CreateIndexModel<DraftHistoryEntry>(indexKeysDefinition);
+                    _draftHistory.Indexes.CreateOne(indexModel);
+                }
+                return _draftHistory;
+            }
+        }
+
+        private IMongoCollection<MockDraft>? _mockDrafts;
+        public IMongoCollection<MockDraft> MockDrafts
+        {
+            get
+            {
+                if (_mockDrafts == null)
+                {
+                    _mockDrafts = _database.GetCollection<MockDraft>("mockDrafts");
+                    // Create index on createdAt for listing recent mocks
+                    var indexKeysDefinition = Builders<MockDraft>.IndexKeys.Descending(m => m.CreatedAt);
+                    var indexModel = new CreateIndexModel<MockDraft>(indexKeysDefinition);
+                    _mockDrafts.Indexes.CreateOne(indexModel);
+                }
+                return _mockDrafts;
+            }
+        }
+
+        private IMongoCollection<FuturePick>? _futurePicks;
+        public IMongoCollection<FuturePick> FuturePicks
+        {
+            get
+            {
+                if (_futurePicks == null)
+                {
+                    _futurePicks = _database.GetCollection<FuturePick>("futurePicks");
+                    // One placeholder per year, round and original owner
+                    var indexKeysDefinition = Builders<FuturePick>.IndexKeys
+                        .Ascending(p => p.Year)
+                        .Ascending(p => p.Round)
+                        .Ascending(p => p.OriginalManagerId);
+                    var indexOptions = new CreateIndexOptions { Unique = true };
+                    var indexModel = new CreateIndexModel<FuturePick>(indexKeysDefinition, indexOptions);
+                    _futurePicks.Indexes.CreateOne(indexModel);
+                }
+                return _futurePicks;
+            }
+        }
+
+        private IMongoCollection<DraftLottery>? _draftLotteries;
+        public IMongoCollection<DraftLottery> DraftLotteries
+        {
+            get
+            {
+                if (_draftLotteries == null)
+                {
+                    _draftLotteries = _database.GetCollection<DraftLottery>("draftLotteries");
+                    // Lotteries are listed by year, newest first
+                    var indexKeysDefinition = Builders<DraftLottery>.IndexKeys
+                        .Descending(l => l.Year)
+                        .Descending(l => l.CreatedAt);
+                    var indexModel = new CreateIndexModel<DraftLottery>(indexKeysDefinition);
+                    _draftLotteries.Indexes.CreateOne(indexModel);
+                }
+                return _draftLotteries;
+            }
+        }
     }
 
     public class MongoDbSettings
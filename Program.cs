@@ -1,7 +1,12 @@
+using System.Security.Claims;
 using DraftEngine;
+using DraftEngine.Models;
 using DraftEngine.Swagger;
 using DraftEngine.Services;
 using Microsoft.AspNetCore.Mvc;
+using Microsoft.AspNetCore.Authentication;
+using Microsoft.AspNetCore.Authentication.Cookies;
+using Microsoft.AspNetCore.Authorization;
 using Microsoft.AspNetCore.Diagnostics;
 using Microsoft.AspNetCore.Http;
 using Microsoft.OpenApi.Models;
@@ -20,30 +25,170 @@ builder.WebHost.ConfigureKestrel(serverOptions =>
 
 // Add services to the container.
 builder.Services.AddSingleton<MongoDbContext>(sp => new MongoDbContext(builder.Configuration));
+builder.Services.AddHttpContextAccessor();
+builder.Services.AddSingleton<LeagueContext>(sp => new LeagueContext(
+    sp.GetRequiredService<IHttpContextAccessor>()
+));
+builder.Services.AddSingleton<UserContext>(sp => new UserContext(
+    sp.GetRequiredService<IHttpContextAccessor>()
+));
+builder.Services.AddSingleton<UserAccountService>(sp => new UserAccountService(
+    sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<ILogger<UserAccountService>>()
+));
+builder.Services.AddSingleton<ILoginProvider>(sp => new LocalLoginProvider(
+    sp.GetRequiredService<UserAccountService>()
+));
+builder.Services.AddSingleton<LeagueService>(sp => new LeagueService(
+    sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<ILogger<LeagueService>>()
+));
 builder.Services.AddSingleton<DraftService>(sp => new DraftService(
     sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<LeagueContext>(),
     sp.GetRequiredService<ILogger<DraftService>>()
 ));
+builder.Services.AddSingleton<PlayerLeagueValueService>(sp => new PlayerLeagueValueService(
+    sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<ILogger<PlayerLeagueValueService>>()
+));
 builder.Services.AddSingleton<PlayerService>(sp => new PlayerService(
     sp.GetRequiredService<MongoDbContext>(),
     sp.GetRequiredService<IMlbApiService>(),
     sp.GetRequiredService<DraftService>(),
     sp.GetRequiredService<LeagueSettingsService>(),
+    sp.GetRequiredService<ManagerService>(),
+    sp.GetRequiredService<PlayerLeagueValueService>(),
     sp.GetRequiredService<ILogger<PlayerService>>()
 ));
 builder.Services.AddSingleton<ManagerService>(sp => new ManagerService(
     sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<UserContext>(),
     sp.GetRequiredService<ILogger<ManagerService>>()
 ));
 builder.Services.AddSingleton<TradeService>(sp => new TradeService(
     sp.GetRequiredService<MongoDbContext>(),
     sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<FuturePickService>(),
+    sp.GetRequiredService<LeagueContext>(),
     sp.GetRequiredService<ILogger<TradeService>>()
 ));
+builder.Services.AddSingleton<FuturePickService>(sp => new FuturePickService(
+    sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<ILogger<FuturePickService>>()
+));
+builder.Services.AddSingleton<PickOwnershipService>(sp => new PickOwnershipService(
+    sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<TradeService>(),
+    sp.GetRequiredService<FuturePickService>(),
+    sp.GetRequiredService<ILogger<PickOwnershipService>>()
+));
+builder.Services.AddSingleton<KeeperService>(sp => new KeeperService(
+    sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<ILogger<KeeperService>>()
+));
+builder.Services.AddSingleton<AuctionService>(sp => new AuctionService(
+    sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<ILogger<AuctionService>>()
+));
+builder.Services.AddSingleton<LotteryService>(sp => new LotteryService(
+    sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<ManagerService>(),
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<ILogger<LotteryService>>()
+));
 builder.Services.AddSingleton<LeagueSettingsService>(sp => new LeagueSettingsService(
     sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<LeagueContext>(),
     sp.GetRequiredService<ILogger<LeagueSettingsService>>()
 ));
+builder.Services.AddSingleton<DraftHistoryService>(sp => new DraftHistoryService(
+    sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<ILogger<DraftHistoryService>>()
+));
+builder.Services.AddSingleton<DraftEventService>(sp => new DraftEventService(
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<ILogger<DraftEventService>>()
+));
+builder.Services.AddSingleton<PickClockService>(sp => new PickClockService(
+    sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<ManagerService>(),
+    sp.GetRequiredService<DraftHistoryService>(),
+    sp.GetRequiredService<DraftEventService>(),
+    sp.GetRequiredService<LeagueService>(),
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<ILogger<PickClockService>>()
+));
+builder.Services.AddHostedService(sp => sp.GetRequiredService<PickClockService>());
+builder.Services.AddSingleton<MockDraftService>(sp => new MockDraftService(
+    sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<ManagerService>(),
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<ILogger<MockDraftService>>()
+));
+builder.Services.AddSingleton<PlayerAnnotationService>(sp => new PlayerAnnotationService(
+    sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<UserContext>(),
+    sp.GetRequiredService<PlayerLeagueValueService>(),
+    sp.GetRequiredService<ILogger<PlayerAnnotationService>>()
+));
+builder.Services.AddSingleton<TierService>(sp => new TierService(
+    sp.GetRequiredService<MongoDbContext>(),
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<UserContext>(),
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<PlayerAnnotationService>(),
+    sp.GetRequiredService<PlayerLeagueValueService>(),
+    sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<ILogger<TierService>>()
+));
+builder.Services.AddSingleton<RecommendationService>(sp => new RecommendationService(
+    sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<LeagueSettingsService>(),
+    sp.GetRequiredService<PlayerAnnotationService>(),
+    sp.GetRequiredService<ILogger<RecommendationService>>()
+));
+builder.Services.AddSingleton<LeagueValueService>(sp => new LeagueValueService(
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<PlayerLeagueValueService>(),
+    sp.GetRequiredService<LeagueSettingsService>(),
+    sp.GetRequiredService<LeagueService>(),
+    sp.GetRequiredService<LeagueContext>(),
+    sp.GetRequiredService<ILogger<LeagueValueService>>()
+));
+builder.Services.AddSingleton<ValuationService>(sp => new ValuationService(
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<PlayerLeagueValueService>(),
+    sp.GetRequiredService<ManagerService>(),
+    sp.GetRequiredService<LeagueSettingsService>(),
+    sp.GetRequiredService<ILogger<ValuationService>>()
+));
+builder.Services.AddSingleton<TeamSummaryService>(sp => new TeamSummaryService(
+    sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<ManagerService>(),
+    sp.GetRequiredService<LeagueSettingsService>(),
+    sp.GetRequiredService<ILogger<TeamSummaryService>>()
+));
+builder.Services.AddSingleton<TradeAnalysisService>(sp => new TradeAnalysisService(
+    sp.GetRequiredService<DraftService>(),
+    sp.GetRequiredService<PlayerService>(),
+    sp.GetRequiredService<LeagueSettingsService>(),
+    sp.GetRequiredService<ILogger<TradeAnalysisService>>()
+));
 builder.Services.AddHttpClient();
 builder.Services.Configure<MlbApiOptions>(builder.Configuration.GetSection("MlbApi"));
 builder.Services.Configure<DebugOptions>(builder.Configuration.GetSection("Debug"));
@@ -70,11 +215,62 @@ builder.Services.AddCors(options =>
         builder.WithOrigins(corsOrigins)
             .AllowAnyHeader()
             .AllowAnyMethod()
+            .AllowCredentials()                              // Authentication cookie
             .WithExposedHeaders("X-Total-Count")             // For pagination
             .SetIsOriginAllowedToAllowWildcardSubdomains(); // Allow subdomains
     });
 });
 
+// Configure authentication: accounts sign in with a cookie, and API clients get status codes rather
+// than redirects to a login page
+builder.Services.AddAuthentication(CookieAuthenticationDefaults.AuthenticationScheme)
+    .AddCookie(options =>
+    {
+        options.Cookie.Name = "DraftEngine.Auth";
+        options.Cookie.HttpOnly = true;
+        options.Cookie.SameSite = SameSiteMode.Lax;
+        options.ExpireTimeSpan = TimeSpan.FromDays(30);
+        options.SlidingExpiration = true;
+        options.Events.OnRedirectToLogin = context =>
+        {
+            context.Response.StatusCode = StatusCodes.Status401Unauthorized;
+            return Task.CompletedTask;
+        };
+        options.Events.OnRedirectToAccessDenied = context =>
+        {
+            context.Response.StatusCode = StatusCodes.Status403Forbidden;
+            return Task.CompletedTask;
+        };
+        // Deleted accounts are signed out and role changes apply without signing in again
+        options.Events.OnValidatePrincipal = async context =>
+        {
+            var userId = context.Principal?.FindFirst(ClaimTypes.NameIdentifier)?.Value;
+            var account = userId == null
+                ? null
+                : await context.HttpContext.RequestServices.GetRequiredService<UserAccountService>().GetByIdAsync(userId);
+            if (account == null)
+            {
+                context.RejectPrincipal();
+                await context.HttpContext.SignOutAsync(CookieAuthenticationDefaults.AuthenticationScheme);
+            }
+            else if (!context.Principal!.IsInRole(account.Role.ToString()))
+            {
+                context.ReplacePrincipal(UserContext.CreatePrincipal(account, CookieAuthenticationDefaults.AuthenticationScheme));
+                context.ShouldRenew = true;
+            }
+        };
+    });
+
+// Every endpoint needs a signed-in account unless it says otherwise; commissioner-only endpoints use the
+// Commissioner policy
+builder.Services.AddAuthorization(options =>
+{
+    options.AddPolicy(AuthPolicies.Commissioner, policy => policy.RequireRole(nameof(UserRole.Commissioner)));
+    options.FallbackPolicy = new AuthorizationPolicyBuilder()
+        .RequireAuthenticatedUser()
+        .Build();
+});
+
 // Add custom exception handling middleware
 builder.Services.AddExceptionHandler(options =>
 {
@@ -188,6 +384,13 @@ builder.Services.AddSwaggerGen(c =>
 
 var app = builder.Build();
 
+// Data saved before leagues existed belongs to the default league
+await app.Services.GetRequiredService<LeagueService>().EnsureDefaultLeagueAsync();
+// Highlights, notes and personal ranks stored on players belong to the first commissioner
+await app.Services.GetRequiredService<PlayerAnnotationService>().AdoptLegacyAnnotationsAsync();
+// League values and valuations stored on players belong to the default league
+await app.Services.GetRequiredService<PlayerLeagueValueService>().AdoptLegacyValuesAsync();
+
 // Configure the HTTP request pipeline.
 if (app.Environment.IsDevelopment())
 {
@@ -213,6 +416,7 @@ if (!app.Environment.IsDevelopment())
     app.UseHttpsRedirection();
 }
 
+app.UseAuthentication();
 app.UseAuthorization();
 
 // Configure API path base for production
@@ -228,6 +432,23 @@ if (!app.Environment.IsDevelopment())
     });
 }
 
+// Reject requests for a league that doesn't exist rather than showing it as empty. League endpoints
+// are left open so a client holding a deleted league can still list the others.
+app.Use(async (context, next) =>
+{
+    var leagueId = context.RequestServices.GetRequiredService<LeagueContext>().GetRequestedLeagueId();
+    if (leagueId != null
+        && !context.Request.Path.StartsWithSegments("/league")
+        && await context.RequestServices.GetRequiredService<LeagueService>().GetByIdAsync(leagueId) == null)
+    {
+        context.Response.StatusCode = StatusCodes.Status400BadRequest;
+        await context.Response.WriteAsJsonAsync(new { message = $"League {leagueId} not found" });
+        return;
+    }
+
+    await next();
+});
+
 app.MapControllers();
 
 app.Run();
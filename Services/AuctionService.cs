@@ -0,0 +1,350 @@
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Runs auction drafts. Managers take turns nominating a player with an opening bid, everyone bids, and the
+/// lot closes with the player filling one of the winner's open picks at the winning price.
+/// </summary>
+/// <remarks>
+/// A manager's open picks are their remaining roster spots, so the most they can bid always leaves enough
+/// budget to pay the minimum bid for every other spot. What a manager has spent is the sum of the prices on
+/// the players they hold in the draft, which means undoing a pick refunds it and a traded player's price
+/// moves with the player.
+/// </remarks>
+public class AuctionService
+{
+    private readonly DraftService _draftService;
+    private readonly PlayerService _playerService;
+    private readonly ILogger<AuctionService> _logger;
+
+    // Bids arrive from every manager at once; each one has to see the bid before it
+    private readonly SemaphoreSlim _lock = new SemaphoreSlim(1, 1);
+
+    public AuctionService(
+        DraftService draftService,
+        PlayerService playerService,
+        ILogger<AuctionService> logger)
+    {
+        _draftService = draftService;
+        _playerService = playerService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Gets budgets, the nominating manager and the player up for bids in the active draft
+    /// </summary>
+    /// <returns>The auction status, or null if there is no active draft or it isn't an auction</returns>
+    public async Task<AuctionStatus?> GetStatusAsync()
+    {
+        try
+        {
+            var draft = await _draftService.GetActiveDraftAsync();
+            if (draft?.Auction == null) return null;
+
+            return await BuildStatusAsync(draft, draft.Auction);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting auction status");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Puts a player up for bids. The nominating manager opens the bidding.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when there is no auction, a player is already up, it isn't the manager's turn, the player has
+    /// been drafted, or the manager can't afford the opening bid
+    /// </exception>
+    public async Task<AuctionStatus> NominateAsync(string managerId, string playerId, int openingBid)
+    {
+        await _lock.WaitAsync();
+        try
+        {
+            var (draft, auction) = await GetAuctionAsync();
+            if (auction.CurrentLot != null)
+                throw new InvalidOperationException("Another player is still up for bids");
+
+            var status = await BuildStatusAsync(draft, auction);
+            if (status.NominatorId == null)
+                throw new InvalidOperationException("Every roster is full");
+            if (status.NominatorId != managerId)
+                throw new InvalidOperationException("It isn't this manager's turn to nominate");
+
+            var player = await _playerService.GetAsync(playerId)
+                ?? throw new InvalidOperationException("Player not found");
+            if (player.DraftStatuses.Any(ds => ds.DraftId == draft.Id))
+                throw new InvalidOperationException($"{player.Name} has already been drafted");
+
+            ValidateBid(status, managerId, openingBid);
+
+            var now = DateTime.UtcNow;
+            auction.CurrentLot = new AuctionLot
+            {
+                PlayerId = playerId,
+                NominatedBy = managerId,
+                NominatedAt = now,
+                HighBidderId = managerId,
+                HighBid = openingBid,
+                Bids = new List<AuctionBid> { new AuctionBid { ManagerId = managerId, Amount = openingBid, Timestamp = now } }
+            };
+            auction.NominationIndex = auction.NominationOrder.IndexOf(managerId) + 1;
+            await SaveAsync(draft, auction);
+
+            _logger.LogInformation("Manager {ManagerId} nominated player {PlayerId} at {Amount}", managerId, playerId, openingBid);
+            return await BuildStatusAsync(draft, auction);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error nominating player {PlayerId} for manager {ManagerId}", playerId, managerId);
+            throw;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Raises the high bid on the player up for bids
+    /// </summary>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when there is no player up, the manager already has the high bid, or the bid is too low or
+    /// more than the manager can spend
+    /// </exception>
+    public async Task<AuctionStatus> BidAsync(string managerId, int amount)
+    {
+        await _lock.WaitAsync();
+        try
+        {
+            var (draft, auction) = await GetAuctionAsync();
+            var lot = auction.CurrentLot
+                ?? throw new InvalidOperationException("No player is up for bids");
+            if (lot.HighBidderId == managerId)
+                throw new InvalidOperationException("This manager already has the high bid");
+            if (amount <= lot.HighBid)
+                throw new InvalidOperationException($"Bids must be more than {lot.HighBid}");
+
+            var status = await BuildStatusAsync(draft, auction);
+            ValidateBid(status, managerId, amount);
+
+            lot.HighBidderId = managerId;
+            lot.HighBid = amount;
+            lot.Bids.Add(new AuctionBid { ManagerId = managerId, Amount = amount, Timestamp = DateTime.UtcNow });
+            await SaveAsync(draft, auction);
+
+            _logger.LogInformation("Manager {ManagerId} bid {Amount} on player {PlayerId}", managerId, amount, lot.PlayerId);
+            return await BuildStatusAsync(draft, auction);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error placing bid of {Amount} for manager {ManagerId}", amount, managerId);
+            throw;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Awards the player up for bids to the high bidder, filling the winner's earliest open pick
+    /// </summary>
+    /// <returns>The player's ID and the overall number of the pick they filled</returns>
+    /// <exception cref="InvalidOperationException">Thrown when there is no player up for bids</exception>
+    public async Task<(string PlayerId, int OverallPickNumber)> CloseLotAsync()
+    {
+        await _lock.WaitAsync();
+        try
+        {
+            var (draft, auction) = await GetAuctionAsync();
+            var lot = auction.CurrentLot
+                ?? throw new InvalidOperationException("No player is up for bids");
+
+            var openPick = draft.Rounds
+                .SelectMany(r => r.Picks.Select(p => (Round: r.RoundNumber, Pick: p)))
+                .Where(x => !x.Pick.IsComplete && GetOwner(x.Pick) == lot.HighBidderId)
+                .OrderBy(x => x.Pick.OverallPickNumber)
+                .FirstOrDefault();
+            if (openPick.Pick == null)
+                throw new InvalidOperationException("The high bidder has no open roster spot left");
+
+            var marked = await _playerService.MarkAsDraftedAsync(lot.PlayerId, new DraftPickRequest
+            {
+                DraftedBy = lot.HighBidderId,
+                Round = openPick.Round,
+                Pick = openPick.Pick.PickNumber,
+                OverallPick = openPick.Pick.OverallPickNumber,
+                Price = lot.HighBid
+            });
+            if (!marked)
+                throw new Exception($"Failed to mark player {lot.PlayerId} as drafted");
+
+            if (!await _draftService.TogglePickCompleteAsync(openPick.Pick.OverallPickNumber))
+                throw new Exception($"Failed to mark pick {openPick.Pick.OverallPickNumber} as complete");
+            await _draftService.MoveToFirstOpenPickAsync();
+
+            auction.CurrentLot = null;
+            await SaveAsync(draft, auction);
+
+            _logger.LogInformation("Manager {ManagerId} won player {PlayerId} for {Amount} with pick {OverallPick}",
+                lot.HighBidderId, lot.PlayerId, lot.HighBid, openPick.Pick.OverallPickNumber);
+            return (lot.PlayerId, openPick.Pick.OverallPickNumber);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error closing auction lot");
+            throw;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Takes the player up for bids off the block without a winner. The nominating manager gets their turn back.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown when there is no player up for bids</exception>
+    public async Task<AuctionStatus> CancelLotAsync()
+    {
+        await _lock.WaitAsync();
+        try
+        {
+            var (draft, auction) = await GetAuctionAsync();
+            var lot = auction.CurrentLot
+                ?? throw new InvalidOperationException("No player is up for bids");
+
+            auction.CurrentLot = null;
+            auction.NominationIndex = Math.Max(auction.NominationOrder.IndexOf(lot.NominatedBy), 0);
+            await SaveAsync(draft, auction);
+
+            _logger.LogInformation("Cancelled bidding on player {PlayerId}", lot.PlayerId);
+            return await BuildStatusAsync(draft, auction);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error cancelling auction lot");
+            throw;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Changes one manager's total budget, as when keepers or trades have used some of it
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown when the budget is less than the manager has spent</exception>
+    public async Task<AuctionStatus> UpdateBudgetAsync(string managerId, int budget)
+    {
+        await _lock.WaitAsync();
+        try
+        {
+            var (draft, auction) = await GetAuctionAsync();
+            var spent = (await BuildStatusAsync(draft, auction)).Budgets
+                .FirstOrDefault(b => b.ManagerId == managerId)?.Spent ?? 0;
+            if (budget < spent)
+                throw new InvalidOperationException($"The manager has already spent {spent}");
+
+            if (budget == auction.Budget)
+                auction.ManagerBudgets.Remove(managerId);
+            else
+                auction.ManagerBudgets[managerId] = budget;
+            await SaveAsync(draft, auction);
+
+            _logger.LogInformation("Set auction budget for manager {ManagerId} to {Budget}", managerId, budget);
+            return await BuildStatusAsync(draft, auction);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error updating auction budget for manager {ManagerId}", managerId);
+            throw;
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    private async Task<(Draft Draft, Auction Auction)> GetAuctionAsync()
+    {
+        var draft = await _draftService.GetActiveDraftAsync()
+            ?? throw new InvalidOperationException("No active draft found");
+        if (draft.Auction == null)
+            throw new InvalidOperationException("The active draft isn't an auction");
+        return (draft, draft.Auction);
+    }
+
+    private async Task SaveAsync(Draft draft, Auction auction)
+    {
+        if (!await _draftService.UpdateAuctionAsync(draft.Id!, auction))
+            throw new Exception($"Failed to update auction for draft {draft.Id}");
+    }
+
+    private async Task<AuctionStatus> BuildStatusAsync(Draft draft, Auction auction)
+    {
+        var statuses = (await _playerService.GetDraftedInDraftAsync(draft.Id!))
+            .SelectMany(p => p.DraftStatuses.Where(ds => ds.DraftId == draft.Id))
+            .ToList();
+        var openSpots = draft.Rounds
+            .SelectMany(r => r.Picks)
+            .Where(p => !p.IsComplete)
+            .GroupBy(GetOwner)
+            .ToDictionary(g => g.Key, g => g.Count());
+
+        var budgets = auction.NominationOrder
+            .Concat(auction.ManagerBudgets.Keys)
+            .Distinct()
+            .Select(managerId =>
+            {
+                var budget = auction.GetBudget(managerId);
+                var spent = statuses.Where(ds => ds.ManagerId == managerId).Sum(ds => ds.Price ?? 0);
+                var spots = openSpots.GetValueOrDefault(managerId);
+                return new AuctionBudget
+                {
+                    ManagerId = managerId,
+                    Budget = budget,
+                    Spent = spent,
+                    Remaining = budget - spent,
+                    OpenRosterSpots = spots,
+                    MaxBid = spots == 0 ? 0 : Math.Max(budget - spent - auction.MinimumBid * (spots - 1), 0)
+                };
+            })
+            .ToList();
+
+        // Turns wrap around the order, passing over managers who have nothing left to fill
+        var order = auction.NominationOrder;
+        var nominatorId = auction.CurrentLot != null ? null : Enumerable.Range(0, order.Count)
+            .Select(offset => order[(auction.NominationIndex + offset) % order.Count])
+            .FirstOrDefault(managerId => openSpots.GetValueOrDefault(managerId) > 0);
+
+        return new AuctionStatus
+        {
+            DraftId = draft.Id!,
+            MinimumBid = auction.MinimumBid,
+            CurrentLot = auction.CurrentLot,
+            NominatorId = nominatorId,
+            Budgets = budgets
+        };
+    }
+
+    private static void ValidateBid(AuctionStatus status, string managerId, int amount)
+    {
+        var budget = status.Budgets.FirstOrDefault(b => b.ManagerId == managerId)
+            ?? throw new InvalidOperationException("Manager isn't part of this auction");
+        if (budget.OpenRosterSpots == 0)
+            throw new InvalidOperationException("The manager's roster is full");
+        if (amount < status.MinimumBid)
+            throw new InvalidOperationException($"Bids must be at least {status.MinimumBid}");
+        if (amount > budget.MaxBid)
+            throw new InvalidOperationException(
+                $"The manager can bid at most {budget.MaxBid} with {budget.OpenRosterSpots} roster spots left to fill");
+    }
+
+    private static string GetOwner(DraftPosition pick) => pick.TradedTo.Any() ? pick.TradedTo.Last() : pick.ManagerId;
+}
@@ -0,0 +1,121 @@
+using System.Collections.Concurrent;
+using System.Threading.Channels;
+using Newtonsoft.Json;
+using Newtonsoft.Json.Converters;
+using Newtonsoft.Json.Serialization;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Fans draft state changes out to every client connected to the league they happened in.
+/// </summary>
+/// <remarks>
+/// Each subscriber (one per open event stream) gets its own bounded channel. Slow readers drop their
+/// oldest events rather than blocking publishers, since every event carries enough state for the
+/// client to resynchronize. Events go to the league of the request or background job publishing them.
+/// </remarks>
+public class DraftEventService
+{
+    private const int SubscriberBufferSize = 100;
+
+    private static readonly JsonSerializerSettings SerializerSettings = new JsonSerializerSettings
+    {
+        ContractResolver = new CamelCasePropertyNamesContractResolver(),
+        NullValueHandling = NullValueHandling.Include,
+        Converters = { new StringEnumConverter() }
+    };
+
+    private readonly ConcurrentDictionary<Guid, Subscriber> _subscribers = new ConcurrentDictionary<Guid, Subscriber>();
+    private readonly LeagueContext _leagueContext;
+    private readonly ILogger<DraftEventService> _logger;
+
+    public DraftEventService(LeagueContext leagueContext, ILogger<DraftEventService> logger)
+    {
+        _leagueContext = leagueContext;
+        _logger = logger;
+    }
+
+    public int SubscriberCount => _subscribers.Count;
+
+    public (Guid SubscriberId, ChannelReader<DraftEvent> Reader) Subscribe(string leagueId)
+    {
+        var subscriberId = Guid.NewGuid();
+        var channel = Channel.CreateBounded<DraftEvent>(new BoundedChannelOptions(SubscriberBufferSize)
+        {
+            FullMode = BoundedChannelFullMode.DropOldest,
+            SingleReader = true,
+            SingleWriter = false
+        });
+
+        _subscribers[subscriberId] = new Subscriber(leagueId, channel);
+        _logger.LogInformation("Draft event subscriber {SubscriberId} connected to league {LeagueId} ({Count} total)",
+            subscriberId, leagueId, _subscribers.Count);
+        return (subscriberId, channel.Reader);
+    }
+
+    public void Unsubscribe(Guid subscriberId)
+    {
+        if (_subscribers.TryRemove(subscriberId, out var subscriber))
+        {
+            subscriber.Channel.Writer.TryComplete();
+            _logger.LogInformation("Draft event subscriber {SubscriberId} disconnected ({Count} remaining)", subscriberId, _subscribers.Count);
+        }
+    }
+
+    public void Publish(string type, object? payload)
+    {
+        var draftEvent = new DraftEvent
+        {
+            Type = type,
+            LeagueId = _leagueContext.LeagueId,
+            Timestamp = DateTime.UtcNow,
+            Payload = payload
+        };
+
+        var delivered = 0;
+        foreach (var subscriber in _subscribers.Values.Where(s => s.LeagueId == draftEvent.LeagueId))
+        {
+            subscriber.Channel.Writer.TryWrite(draftEvent);
+            delivered++;
+        }
+
+        _logger.LogInformation("Published draft event {EventType} in league {LeagueId} to {Count} subscribers",
+            type, draftEvent.LeagueId, delivered);
+    }
+
+    /// <summary>
+    /// Formats an event as a server-sent event frame
+    /// </summary>
+    public static string ToServerSentEvent(DraftEvent draftEvent)
+    {
+        var data = JsonConvert.SerializeObject(draftEvent, SerializerSettings);
+        return $"event: {draftEvent.Type}\ndata: {data}\n\n";
+    }
+
+    private sealed record Subscriber(string LeagueId, Channel<DraftEvent> Channel);
+}
+
+public static class DraftEventTypes
+{
+    public const string PickMade = "pick-made";
+    public const string PickUndone = "pick-undone";
+    public const string ActivePickChanged = "active-pick-changed";
+    public const string TradeCreated = "trade-created";
+    public const string TradeUpdated = "trade-updated";
+    public const string RoundAdded = "round-added";
+    public const string RoundRemoved = "round-removed";
+    public const string DraftReset = "draft-reset";
+    public const string HistoryChanged = "history-changed";
+    public const string ClockChanged = "clock-changed";
+    public const string QueueChanged = "queue-changed";
+    public const string KeepersChanged = "keepers-changed";
+    public const string AuctionChanged = "auction-changed";
+}
+
+public class DraftEvent
+{
+    public string Type { get; set; } = string.Empty;
+    public string LeagueId { get; set; } = string.Empty;
+    public DateTime Timestamp { get; set; }
+    public object? Payload { get; set; }
+}
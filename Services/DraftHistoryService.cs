@@ -0,0 +1,342 @@
+using MongoDB.Driver;
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+public class DraftHistoryService
+{
+    private readonly IMongoCollection<DraftHistoryEntry> _history;
+    private readonly IMongoCollection<Draft> _drafts;
+    private readonly IMongoCollection<Player> _players;
+    private readonly ILogger<DraftHistoryService> _logger;
+
+    public DraftHistoryService(
+        MongoDbContext context,
+        ILogger<DraftHistoryService> logger)
+    {
+        _history = context.DraftHistory;
+        _drafts = context.Drafts;
+        _players = context.Players;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Builds the player side of a history entry from before/after copies of the player
+    /// </summary>
+    /// <param name="before">The player as it was before the action</param>
+    /// <param name="after">The player as it is after the action</param>
+    /// <param name="draftId">The draft whose status is being tracked</param>
+    public static PlayerDraftStatusChange CreatePlayerChange(Player? before, Player? after, string draftId)
+    {
+        return new PlayerDraftStatusChange
+        {
+            PlayerId = after?.Id ?? before?.Id ?? string.Empty,
+            PlayerName = after?.Name ?? before?.Name ?? string.Empty,
+            Before = before?.DraftStatuses?.FirstOrDefault(ds => ds.DraftId == draftId),
+            After = after?.DraftStatuses?.FirstOrDefault(ds => ds.DraftId == draftId)
+        };
+    }
+
+    /// <summary>
+    /// Appends an action to a draft's event log
+    /// </summary>
+    /// <remarks>
+    /// Recording a new action discards any undone entries, the same way a text editor clears
+    /// its redo stack once you type after undoing.
+    /// </remarks>
+    /// <param name="action">The kind of draft mutation performed</param>
+    /// <param name="before">The draft before the action</param>
+    /// <param name="after">The draft after the action</param>
+    /// <param name="playerChanges">Player draft status changes made by the action</param>
+    /// <param name="description">Human readable summary shown in the history list</param>
+    /// <returns>The recorded entry</returns>
+    public async Task<DraftHistoryEntry> RecordAsync(
+        DraftActionType action,
+        Draft before,
+        Draft after,
+        IEnumerable<PlayerDraftStatusChange>? playerChanges,
+        string description)
+    {
+        try
+        {
+            var draftId = after.Id ?? before.Id!;
+
+            await _history.DeleteManyAsync(h => h.DraftId == draftId && h.IsUndone);
+
+            var last = await _history.Find(h => h.DraftId == draftId)
+                .SortByDescending(h => h.Sequence)
+                .FirstOrDefaultAsync();
+
+            var entry = new DraftHistoryEntry
+            {
+                DraftId = draftId,
+                Sequence = (last?.Sequence ?? 0) + 1,
+                Timestamp = DateTime.UtcNow,
+                Action = action,
+                Description = description,
+                DraftBefore = before,
+                DraftAfter = after,
+                PlayerChanges = playerChanges?
+                    .Where(c => !string.IsNullOrEmpty(c.PlayerId))
+                    .ToList() ?? new()
+            };
+
+            await _history.InsertOneAsync(entry);
+
+            _logger.LogInformation("Recorded draft action {Action} #{Sequence} for draft {DraftId}: {Description}",
+                action, entry.Sequence, draftId, description);
+
+            return entry;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error recording draft action {Action}", action);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Gets the event log for a draft, newest first
+    /// </summary>
+    /// <param name="draftId">The unique identifier of the draft</param>
+    /// <param name="limit">Maximum number of entries to return</param>
+    public async Task<List<DraftHistoryEntry>> GetHistoryAsync(string draftId, int limit = 50)
+    {
+        try
+        {
+            return await _history.Find(h => h.DraftId == draftId)
+                .SortByDescending(h => h.Sequence)
+                .Limit(limit)
+                .ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting history for draft {DraftId}", draftId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Reverts the last <paramref name="count"/> actions on a draft as a single operation
+    /// </summary>
+    /// <remarks>
+    /// The draft is restored to the snapshot taken before the oldest reverted action and each
+    /// affected player's draft status is restored to what it was before the first reverted action
+    /// that touched it. Pick ownership (TradedTo) is left as it currently is since trades are not
+    /// part of the draft event log.
+    /// </remarks>
+    /// <param name="draftId">The unique identifier of the draft</param>
+    /// <param name="count">Number of actions to revert</param>
+    /// <returns>The draft after the undo</returns>
+    /// <exception cref="InvalidOperationException">Thrown when there is nothing to undo</exception>
+    public async Task<Draft> UndoAsync(string draftId, int count)
+    {
+        try
+        {
+            // Newest first
+            var entries = await _history.Find(h => h.DraftId == draftId && !h.IsUndone)
+                .SortByDescending(h => h.Sequence)
+                .Limit(count)
+                .ToListAsync();
+
+            if (!entries.Any())
+            {
+                throw new InvalidOperationException("There are no draft actions to undo");
+            }
+
+            // Walk newest to oldest so the oldest entry's "before" wins for each player
+            var playerTargets = new Dictionary<string, DraftStatus?>();
+            foreach (var entry in entries)
+            {
+                foreach (var change in entry.PlayerChanges)
+                {
+                    playerTargets[change.PlayerId] = change.Before;
+                }
+            }
+
+            var draft = await ApplyStateAsync(draftId, entries.Last().DraftBefore, playerTargets);
+
+            var ids = entries.Select(e => e.Id).ToList();
+            await _history.UpdateManyAsync(
+                h => ids.Contains(h.Id),
+                Builders<DraftHistoryEntry>.Update.Set(h => h.IsUndone, true));
+
+            _logger.LogInformation("Undid {Count} actions on draft {DraftId} back to #{Sequence}",
+                entries.Count, draftId, entries.Last().Sequence);
+
+            return draft;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error undoing actions on draft {DraftId}", draftId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Re-applies the next <paramref name="count"/> undone actions on a draft as a single operation
+    /// </summary>
+    /// <param name="draftId">The unique identifier of the draft</param>
+    /// <param name="count">Number of actions to re-apply</param>
+    /// <returns>The draft after the redo</returns>
+    /// <exception cref="InvalidOperationException">Thrown when there is nothing to redo</exception>
+    public async Task<Draft> RedoAsync(string draftId, int count)
+    {
+        try
+        {
+            // Oldest first
+            var entries = await _history.Find(h => h.DraftId == draftId && h.IsUndone)
+                .SortBy(h => h.Sequence)
+                .Limit(count)
+                .ToListAsync();
+
+            if (!entries.Any())
+            {
+                throw new InvalidOperationException("There are no draft actions to redo");
+            }
+
+            // Walk oldest to newest so the newest entry's "after" wins for each player
+            var playerTargets = new Dictionary<string, DraftStatus?>();
+            foreach (var entry in entries)
+            {
+                foreach (var change in entry.PlayerChanges)
+                {
+                    playerTargets[change.PlayerId] = change.After;
+                }
+            }
+
+            var draft = await ApplyStateAsync(draftId, entries.Last().DraftAfter, playerTargets);
+
+            var ids = entries.Select(e => e.Id).ToList();
+            await _history.UpdateManyAsync(
+                h => ids.Contains(h.Id),
+                Builders<DraftHistoryEntry>.Update.Set(h => h.IsUndone, false));
+
+            _logger.LogInformation("Redid {Count} actions on draft {DraftId} up to #{Sequence}",
+                entries.Count, draftId, entries.Last().Sequence);
+
+            return draft;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error redoing actions on draft {DraftId}", draftId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Removes the event log for a draft
+    /// </summary>
+    /// <param name="draftId">The unique identifier of the draft</param>
+    public async Task ClearAsync(string draftId)
+    {
+        try
+        {
+            var result = await _history.DeleteManyAsync(h => h.DraftId == draftId);
+            _logger.LogInformation("Cleared {Count} history entries for draft {DraftId}", result.DeletedCount, draftId);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error clearing history for draft {DraftId}", draftId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Rolls a draft's progress back or forward to a snapshot and writes player statuses, restoring the
+    /// original draft if the player writes fail
+    /// </summary>
+    /// <remarks>
+    /// Only pick progress comes from the snapshot: which picks are complete, the current and active picks,
+    /// and how many rounds there are. Ownership, activation, the pick clock, the auction and custom round
+    /// orders keep their live values.
+    /// </remarks>
+    private async Task<Draft> ApplyStateAsync(string draftId, Draft snapshot, Dictionary<string, DraftStatus?> playerTargets)
+    {
+        var current = await _drafts.Find(d => d.Id == draftId).FirstOrDefaultAsync()
+            ?? throw new InvalidOperationException($"Draft {draftId} not found");
+
+        var liveRounds = current.Rounds.ToDictionary(r => r.RoundNumber);
+        var snapshotPicks = snapshot.Rounds
+            .SelectMany(r => r.Picks)
+            .ToDictionary(p => p.OverallPickNumber);
+        // Rounds removed since the snapshot come back as they were; rounds added since are dropped
+        var rounds = snapshot.Rounds
+            .Select(snapshotRound => !liveRounds.TryGetValue(snapshotRound.RoundNumber, out var liveRound)
+                ? snapshotRound
+                : new DraftRound
+                {
+                    RoundNumber = liveRound.RoundNumber,
+                    Picks = liveRound.Picks.Select(pick => new DraftPosition
+                    {
+                        ManagerId = pick.ManagerId,
+                        TradedTo = pick.TradedTo,
+                        PickNumber = pick.PickNumber,
+                        OverallPickNumber = pick.OverallPickNumber,
+                        IsComplete = snapshotPicks.TryGetValue(pick.OverallPickNumber, out var snapshotPick) && snapshotPick.IsComplete
+                    }).ToArray()
+                })
+            .ToList();
+
+        var restored = await _drafts.FindOneAndUpdateAsync(
+            d => d.Id == draftId,
+            Builders<Draft>.Update
+                .Set(d => d.Rounds, rounds)
+                .Set(d => d.CurrentRound, snapshot.CurrentRound)
+                .Set(d => d.CurrentPick, snapshot.CurrentPick)
+                .Set(d => d.CurrentOverallPick, snapshot.CurrentOverallPick)
+                .Set(d => d.ActiveRound, snapshot.ActiveRound)
+                .Set(d => d.ActivePick, snapshot.ActivePick)
+                .Set(d => d.ActiveOverallPick, snapshot.ActiveOverallPick),
+            new FindOneAndUpdateOptions<Draft> { ReturnDocument = ReturnDocument.After });
+
+        if (!playerTargets.Any())
+        {
+            return restored;
+        }
+
+        // Remember the players' current statuses so a failed write can be rolled back too
+        var playerIds = playerTargets.Keys.ToList();
+        var originalStatuses = (await _players.Find(p => playerIds.Contains(p.Id!)).ToListAsync())
+            .ToDictionary(
+                p => p.Id!,
+                p => p.DraftStatuses?.FirstOrDefault(ds => ds.DraftId == draftId));
+
+        try
+        {
+            await WritePlayerStatusesAsync(draftId, playerTargets);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to restore player statuses for draft {DraftId}; rolling back", draftId);
+            await WritePlayerStatusesAsync(draftId, originalStatuses);
+            await _drafts.ReplaceOneAsync(d => d.Id == draftId, current);
+            throw;
+        }
+
+        return restored;
+    }
+
+    private async Task WritePlayerStatusesAsync(string draftId, Dictionary<string, DraftStatus?> statuses)
+    {
+        var writes = new List<WriteModel<Player>>();
+        foreach (var (playerId, status) in statuses)
+        {
+            writes.Add(new UpdateOneModel<Player>(
+                Builders<Player>.Filter.Eq(p => p.Id, playerId),
+                Builders<Player>.Update.PullFilter(p => p.DraftStatuses, ds => ds.DraftId == draftId)));
+
+            if (status != null)
+            {
+                writes.Add(new UpdateOneModel<Player>(
+                    Builders<Player>.Filter.Eq(p => p.Id, playerId),
+                    Builders<Player>.Update.Push(p => p.DraftStatuses, status)));
+            }
+        }
+
+        if (writes.Any())
+        {
+            await _players.BulkWriteAsync(writes, new BulkWriteOptions { IsOrdered = true });
+        }
+    }
+}
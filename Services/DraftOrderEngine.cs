@@ -0,0 +1,105 @@
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Works out who picks when in each round of a draft. Every round is laid out here, and the picks it
+/// produces are stored in pick order, so clients read the order from the rounds rather than recomputing it.
+/// </summary>
+/// <remarks>
+/// Strategies:
+/// - Linear: every round follows the draft order
+/// - Snake: even rounds run the draft order backwards
+/// - ThirdRoundReversal: like snake, but round 3 repeats round 2's reversed order so the teams picking
+///   last in round 1 pick first twice, and the alternation continues from there
+/// - Custom: listed rounds use their own order (e.g. a lottery for rounds 1-2); the rest follow the draft order
+/// </remarks>
+public static class DraftOrderEngine
+{
+    /// <summary>
+    /// Gets a draft's order strategy, falling back to its snake flag for drafts created before strategies
+    /// </summary>
+    public static DraftOrderStrategy GetStrategy(Draft draft) =>
+        draft.OrderStrategy ?? (draft.IsSnakeDraft ? DraftOrderStrategy.Snake : DraftOrderStrategy.Linear);
+
+    /// <summary>
+    /// Builds one round's picks in the order they're made
+    /// </summary>
+    /// <param name="strategy">How order changes from round to round</param>
+    /// <param name="roundNumber">1-based round number</param>
+    /// <param name="draftOrder">First-round draft order; each position's pick number follows its manager</param>
+    /// <param name="customRoundOrders">Per-round orders used by the Custom strategy</param>
+    /// <returns>The round, with overall pick numbers continuing from the rounds before it</returns>
+    public static DraftRound BuildRound(
+        DraftOrderStrategy strategy,
+        int roundNumber,
+        DraftPosition[] draftOrder,
+        IReadOnlyCollection<RoundOrder> customRoundOrders)
+    {
+        var slots = GetRoundSlots(strategy, roundNumber, draftOrder, customRoundOrders);
+
+        return new DraftRound
+        {
+            RoundNumber = roundNumber,
+            Picks = slots.Select((slot, position) => new DraftPosition
+            {
+                ManagerId = draftOrder[slot].ManagerId,
+                PickNumber = draftOrder[slot].PickNumber,
+                IsComplete = false,
+                OverallPickNumber = ((roundNumber - 1) * draftOrder.Length) + position + 1,
+                TradedTo = new List<string>()
+            }).ToArray()
+        };
+    }
+
+    /// <summary>
+    /// Checks that each custom round order covers every manager in the draft exactly once
+    /// </summary>
+    /// <exception cref="ArgumentException">Thrown when a round order is out of range, repeated or incomplete</exception>
+    public static void ValidateCustomRoundOrders(DraftPosition[] draftOrder, IReadOnlyCollection<RoundOrder> customRoundOrders)
+    {
+        var managerIds = draftOrder.Select(p => p.ManagerId).ToHashSet();
+
+        foreach (var roundOrder in customRoundOrders)
+        {
+            if (roundOrder.Round < 1)
+                throw new ArgumentException("Custom round orders must be for round 1 or later");
+            if (customRoundOrders.Count(o => o.Round == roundOrder.Round) > 1)
+                throw new ArgumentException($"Round {roundOrder.Round} has more than one custom order");
+            if (roundOrder.ManagerIds.Count != draftOrder.Length
+                || roundOrder.ManagerIds.Distinct().Count() != draftOrder.Length
+                || !roundOrder.ManagerIds.All(managerIds.Contains))
+                throw new ArgumentException($"The custom order for round {roundOrder.Round} must list every manager in the draft once");
+        }
+    }
+
+    // Positions in the draft order, in the order they pick this round
+    private static int[] GetRoundSlots(
+        DraftOrderStrategy strategy,
+        int roundNumber,
+        DraftPosition[] draftOrder,
+        IReadOnlyCollection<RoundOrder> customRoundOrders)
+    {
+        var forward = Enumerable.Range(0, draftOrder.Length).ToArray();
+
+        switch (strategy)
+        {
+            case DraftOrderStrategy.Snake:
+                return roundNumber % 2 == 0 ? forward.Reverse().ToArray() : forward;
+
+            case DraftOrderStrategy.ThirdRoundReversal:
+                var reversed = roundNumber == 2 || (roundNumber >= 3 && roundNumber % 2 == 1);
+                return reversed ? forward.Reverse().ToArray() : forward;
+
+            case DraftOrderStrategy.Custom:
+                var roundOrder = customRoundOrders.FirstOrDefault(o => o.Round == roundNumber);
+                if (roundOrder == null) return forward;
+                return roundOrder.ManagerIds
+                    .Select(managerId => Array.FindIndex(draftOrder, p => p.ManagerId == managerId))
+                    .ToArray();
+
+            default:
+                return forward;
+        }
+    }
+}
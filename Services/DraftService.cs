@@ -11,13 +11,18 @@ public class DraftService
 {
     private readonly IMongoCollection<Draft> _drafts;
     private readonly IMongoCollection<Trade> _trades;
+    private readonly IMongoCollection<FuturePick> _futurePicks;
+    private readonly LeagueContext _leagueContext;
     private readonly ILogger<DraftService> _logger;
     public DraftService(
         MongoDbContext dbContext, 
+        LeagueContext leagueContext,
         ILogger<DraftService> logger)
     {
         _drafts = dbContext.Drafts;
         _trades = dbContext.Trades;
+        _futurePicks = dbContext.FuturePicks;
+        _leagueContext = leagueContext;
         _logger = logger;
     }
 
@@ -164,7 +169,8 @@ public class DraftService
     {
         try
         {
-            var query = _drafts.Find(_ => true);
+            var leagueId = _leagueContext.LeagueId;
+            var query = _drafts.Find(d => d.LeagueId == leagueId);
             
             return await (sortDescending 
                 ? query.SortByDescending(d => d.CreatedAt)
@@ -208,7 +214,7 @@ public class DraftService
     }
 
     /// <summary>
-    /// Retrieves the currently active draft in the system
+    /// Retrieves the current league's active draft
     /// </summary>
     /// <returns>The active draft, or null if no draft is currently active</returns>
     /// <exception cref="Exception">Thrown when database operation fails or multiple active drafts exist</exception>
@@ -222,7 +228,8 @@ public class DraftService
     {
         try
         {
-            var activeDrafts = await _drafts.Find(d => d.IsActive)
+            var leagueId = _leagueContext.LeagueId;
+            var activeDrafts = await _drafts.Find(d => d.IsActive && d.LeagueId == leagueId)
                 .Limit(2)  // Fetch at most 2 to check for multiple active drafts
                 .ToListAsync();
 
@@ -400,29 +407,43 @@ public class DraftService
     /// </summary>
     /// <param name="year">Draft year</param>
     /// <param name="type">Type of draft</param>
-    /// <param name="isSnakeDraft">Whether to use snake draft ordering</param>
+    /// <param name="orderStrategy">How pick order changes from round to round</param>
     /// <param name="initialRounds">Number of rounds to create initially</param>
     /// <param name="draftOrder">Array of draft positions defining the order</param>
+    /// <param name="customRoundOrders">Rounds with their own order when the strategy is Custom</param>
     /// <returns>The newly created draft</returns>
     /// <exception cref="InvalidOperationException">Thrown when another draft is already active</exception>
     /// <exception cref="ArgumentException">Thrown when input parameters are invalid</exception>
     /// <exception cref="Exception">Thrown when database operation fails</exception>
     /// <remarks>
     /// Draft Creation Rules:
-    /// - Ensures only one active draft exists at a time
+    /// - Ensures only one active draft exists in the league at a time
     /// - Generates sequential overall pick numbers
-    /// - Handles snake draft order for even-numbered rounds
+    /// - Lays out each round's order with <see cref="DraftOrderEngine"/>
     /// - Validates input parameters before draft creation
     /// 
     /// Pick Numbering Mechanism:
     /// - Unique overall pick number across entire draft
     /// - Round-specific pick numbers maintain draft order
-    /// - Snake drafts reverse order in even rounds while maintaining sequential overall picks
+    /// - Picks are stored in the order they're made, so overall picks stay sequential within each round
     /// </remarks>
-    public async Task<Draft> CreateDraftAsync(int year, string type, bool isSnakeDraft, int initialRounds, DraftPosition[] draftOrder)
+    public async Task<Draft> CreateDraftAsync(
+        int year,
+        string type,
+        DraftOrderStrategy orderStrategy,
+        int initialRounds,
+        DraftPosition[] draftOrder,
+        List<RoundOrder>? customRoundOrders = null,
+        Auction? auction = null)
     {
         // Validate input parameters
         ValidateDraftCreationParameters(year, type, initialRounds, draftOrder);
+        customRoundOrders = orderStrategy == DraftOrderStrategy.Custom && customRoundOrders != null
+            ? customRoundOrders
+            : new List<RoundOrder>();
+        DraftOrderEngine.ValidateCustomRoundOrders(draftOrder, customRoundOrders);
+        if (auction != null && auction.Budget < auction.MinimumBid * initialRounds)
+            throw new InvalidOperationException("Auction budget must cover the minimum bid for every roster spot");
 
         try
         {
@@ -433,11 +454,28 @@ public class DraftService
                 throw new InvalidOperationException("An active draft already exists");
             }
 
-            var draft = CreateBaseDraftObject(year, type, isSnakeDraft, draftOrder);
-            draft.Rounds = GenerateInitialRounds(isSnakeDraft, initialRounds, draftOrder);
+            var leagueId = _leagueContext.LeagueId;
+            var draft = CreateBaseDraftObject(year, type, orderStrategy, customRoundOrders, draftOrder);
+            draft.LeagueId = leagueId;
+            draft.Rounds = Enumerable.Range(1, initialRounds)
+                .Select(roundNumber => DraftOrderEngine.BuildRound(orderStrategy, roundNumber, draftOrder, customRoundOrders))
+                .ToList();
+            if (auction != null)
+            {
+                // First-round order doubles as the nomination order
+                auction.NominationOrder = draftOrder.Select(p => p.ManagerId).Distinct().ToList();
+                auction.NominationIndex = 0;
+                auction.CurrentLot = null;
+                draft.Auction = auction;
+            }
+
+            // Picks traded while this draft was still in the future keep their trade history
+            var futurePicks = await _futurePicks.Find(p => p.Year == year && p.DraftId == null && p.LeagueId == leagueId).ToListAsync();
+            var converted = ApplyFuturePicks(draft.Rounds, futurePicks);
 
             // Persist draft to database
             await _drafts.InsertOneAsync(draft);
+            await MarkFuturePicksConvertedAsync(converted, draft.Id!);
 
             return draft;
         }
@@ -448,6 +486,70 @@ public class DraftService
         }
     }
 
+    /// <summary>
+    /// Copies each future pick's trade trail onto the matching pick in the given rounds
+    /// </summary>
+    /// <returns>The future picks that found a match</returns>
+    private List<FuturePick> ApplyFuturePicks(IEnumerable<DraftRound> rounds, List<FuturePick> futurePicks)
+    {
+        var converted = new List<FuturePick>();
+        foreach (var round in rounds)
+        {
+            foreach (var pick in round.Picks)
+            {
+                var futurePick = futurePicks.FirstOrDefault(p =>
+                    p.Round == round.RoundNumber && p.OriginalManagerId == pick.ManagerId);
+                if (futurePick == null) continue;
+
+                pick.TradedTo = new List<string>(futurePick.TradedTo);
+                converted.Add(futurePick);
+            }
+        }
+
+        var unmatched = futurePicks.Where(p => rounds.Any(r => r.RoundNumber == p.Round)).Except(converted).ToList();
+        if (unmatched.Any())
+        {
+            _logger.LogWarning("{Count} future picks belong to managers who aren't in the draft order and were not carried over",
+                unmatched.Count);
+        }
+
+        return converted;
+    }
+
+    private async Task MarkFuturePicksConvertedAsync(List<FuturePick> futurePicks, string draftId)
+    {
+        if (!futurePicks.Any()) return;
+
+        var ids = futurePicks.Select(p => p.Id).ToList();
+        await _futurePicks.UpdateManyAsync(
+            p => ids.Contains(p.Id),
+            Builders<FuturePick>.Update.Set(p => p.DraftId, draftId));
+        _logger.LogInformation("Carried {Count} future picks into draft {DraftId}", futurePicks.Count, draftId);
+    }
+
+    /// <summary>
+    /// Puts future picks back in the ledger when their round leaves the draft, keeping any trades made since
+    /// </summary>
+    private async Task ReleaseFuturePicksAsync(string draftId, IEnumerable<DraftRound> rounds)
+    {
+        var futurePicks = await _futurePicks.Find(p => p.DraftId == draftId).ToListAsync();
+        foreach (var round in rounds)
+        {
+            foreach (var pick in round.Picks)
+            {
+                var futurePick = futurePicks.FirstOrDefault(p =>
+                    p.Round == round.RoundNumber && p.OriginalManagerId == pick.ManagerId);
+                if (futurePick == null) continue;
+
+                await _futurePicks.UpdateOneAsync(
+                    p => p.Id == futurePick.Id,
+                    Builders<FuturePick>.Update
+                        .Set(p => p.TradedTo, pick.TradedTo ?? new List<string>())
+                        .Set(p => p.DraftId, null));
+            }
+        }
+    }
+
     private static void ValidateDraftCreationParameters(int year, string type, int initialRounds, DraftPosition[] draftOrder)
     {
         if (year < 1900 || year > DateTime.UtcNow.Year + 1)
@@ -463,13 +565,20 @@ public class DraftService
             throw new ArgumentException("Draft order must contain at least one manager", nameof(draftOrder));
     }
 
-    private static Draft CreateBaseDraftObject(int year, string type, bool isSnakeDraft, DraftPosition[] draftOrder)
+    private static Draft CreateBaseDraftObject(
+        int year,
+        string type,
+        DraftOrderStrategy orderStrategy,
+        List<RoundOrder> customRoundOrders,
+        DraftPosition[] draftOrder)
     {
         return new Draft
         {
             Year = year,
             Type = type,
-            IsSnakeDraft = isSnakeDraft,
+            IsSnakeDraft = orderStrategy == DraftOrderStrategy.Snake,
+            OrderStrategy = orderStrategy,
+            CustomRoundOrders = customRoundOrders,
             CreatedAt = DateTime.UtcNow,
             IsActive = true,
             DraftOrder = draftOrder,
@@ -483,59 +592,6 @@ public class DraftService
         };
     }
 
-    private static List<DraftRound> GenerateInitialRounds(bool isSnakeDraft, int initialRounds, DraftPosition[] draftOrder)
-    {
-        int totalManagers = draftOrder.Length;
-        var rounds = new List<DraftRound>();
-
-        for (int roundNumber = 1; roundNumber <= initialRounds; roundNumber++)
-        {
-            var roundPicks = new DraftPosition[totalManagers];
-            
-            for (int managerIndex = 0; managerIndex < totalManagers; managerIndex++)
-            {
-                var originalPosition = draftOrder[managerIndex];
-                var newPosition = CreateDraftPosition(isSnakeDraft, roundNumber, totalManagers, managerIndex, originalPosition);
-                
-                roundPicks[GetPickArrayIndex(isSnakeDraft, roundNumber, managerIndex, totalManagers)] = newPosition;
-            }
-
-            rounds.Add(new DraftRound
-            {
-                RoundNumber = roundNumber,
-                Picks = roundPicks
-            });
-        }
-
-        return rounds;
-    }
-
-    private static DraftPosition CreateDraftPosition(bool isSnakeDraft, int roundNumber, int totalManagers, int managerIndex, DraftPosition originalPosition)
-    {
-        return new DraftPosition
-        {
-            ManagerId = originalPosition.ManagerId,
-            PickNumber = originalPosition.PickNumber,
-            IsComplete = false,
-            OverallPickNumber = CalculateOverallPickNumber(isSnakeDraft, roundNumber, totalManagers, managerIndex),
-            TradedTo = new List<string>()
-        };
-    }
-
-    private static int CalculateOverallPickNumber(bool isSnakeDraft, int roundNumber, int totalManagers, int managerIndex)
-    {
-        return isSnakeDraft && roundNumber % 2 == 0
-            ? (roundNumber * totalManagers) - managerIndex
-            : ((roundNumber - 1) * totalManagers) + managerIndex + 1;
-    }
-
-    private static int GetPickArrayIndex(bool isSnakeDraft, int roundNumber, int managerIndex, int totalManagers)
-    {
-        return isSnakeDraft && roundNumber % 2 == 0
-            ? totalManagers - 1 - managerIndex
-            : managerIndex;
-    }
-
     /// <summary>
     /// Updates both current and active pick states in the draft
     /// </summary>
@@ -663,6 +719,62 @@ public class DraftService
         }
     }
     
+    /// <summary>
+    /// Points both the current and active pick at the earliest pick in the active draft that hasn't been made
+    /// </summary>
+    /// <remarks>
+    /// Unlike <see cref="UpdatePickStateAsync"/>, this can move the current pick backwards. It is meant for
+    /// before a draft starts, when keeper picks are filled in and cleared out of order.
+    /// </remarks>
+    /// <returns>The first open pick, or null if there is no active draft or every pick has been made</returns>
+    public async Task<PickResponse?> MoveToFirstOpenPickAsync()
+    {
+        try
+        {
+            var draft = await GetActiveDraftAsync();
+            if (draft == null) return null;
+
+            var openPick = draft.Rounds
+                .SelectMany(r => r.Picks
+                    .Where(p => !p.IsComplete)
+                    .Select(p => new PickResponse
+                    {
+                        Round = r.RoundNumber,
+                        Pick = p.PickNumber,
+                        OverallPickNumber = p.OverallPickNumber
+                    }))
+                .OrderBy(p => p.OverallPickNumber)
+                .FirstOrDefault();
+
+            var update = Builders<Draft>.Update
+                .Set(d => d.CurrentRound, openPick?.Round)
+                .Set(d => d.CurrentPick, openPick?.Pick)
+                .Set(d => d.CurrentOverallPick, openPick?.OverallPickNumber);
+            if (openPick != null)
+            {
+                update = update
+                    .Set(d => d.ActiveRound, openPick.Round)
+                    .Set(d => d.ActivePick, openPick.Pick)
+                    .Set(d => d.ActiveOverallPick, openPick.OverallPickNumber);
+            }
+
+            var result = await _drafts.UpdateOneAsync(d => d.Id == draft.Id, update);
+            if (!result.IsAcknowledged)
+            {
+                throw new Exception($"Failed to update pick state for draft {draft.Id}");
+            }
+
+            _logger.LogInformation("Moved draft {DraftId} to first open pick {OverallPickNumber}",
+                draft.Id, openPick?.OverallPickNumber);
+            return openPick;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error moving to first open pick");
+            throw;
+        }
+    }
+
     /// <summary>
     /// Dynamically modifies the draft by adding or removing the last round
     /// </summary>
@@ -694,6 +806,8 @@ public class DraftService
             Draft? draft = await GetByIdAsync(id) ?? throw new InvalidOperationException("Draft not found");
 
             var filter = Builders<Draft>.Filter.Eq(d => d.Id, draft.Id);
+            DraftRound? removedRound = null;
+            var converted = new List<FuturePick>();
 
             if (!addRound)
             {
@@ -707,11 +821,17 @@ public class DraftService
                     throw new InvalidOperationException("Cannot remove round with completed picks");
                 }
 
+                removedRound = draft.Rounds.Last();
                 draft.Rounds.RemoveAt(draft.Rounds.Count - 1);
             }
             else
             {
-                draft.Rounds.Add(CreateNewRound(draft));
+                var newRound = CreateNewRound(draft);
+                var futurePicks = await _futurePicks
+                    .Find(p => p.Year == draft.Year && p.Round == newRound.RoundNumber && p.DraftId == null)
+                    .ToListAsync();
+                converted = ApplyFuturePicks(new[] { newRound }, futurePicks);
+                draft.Rounds.Add(newRound);
             }
 
             var updateDefinition = Builders<Draft>.Update.Set(d => d.Rounds, draft.Rounds);
@@ -723,6 +843,12 @@ public class DraftService
                 throw new Exception($"Failed to {(addRound ? "add" : "remove")} round for draft {draft.Year} {draft.Type} {draft.Id}");
             }
 
+            await MarkFuturePicksConvertedAsync(converted, draft.Id!);
+            if (removedRound != null)
+            {
+                await ReleaseFuturePicksAsync(draft.Id!, new[] { removedRound });
+            }
+
             return draft;
         }
         catch (Exception ex)
@@ -732,41 +858,15 @@ public class DraftService
         }
     }
 
-    private DraftRound CreateNewRound(Draft draft)
-    {
-        int newRoundNumber = draft.Rounds.Count + 1;
-        int totalManagers = draft.DraftOrder.Length;
-        var roundPicks = new DraftPosition[totalManagers];
-
-        for (int j = 0; j < totalManagers; j++)
-        {
-            var originalPosition = draft.DraftOrder[j];
-            var newPosition = new DraftPosition
-            {
-                ManagerId = originalPosition.ManagerId,
-                PickNumber = originalPosition.PickNumber,
-                IsComplete = false,
-                TradedTo = new List<string>()
-            };
-
-            newPosition.OverallPickNumber = draft.IsSnakeDraft && newRoundNumber % 2 == 0
-                ? (newRoundNumber * totalManagers) - j
-                : ((newRoundNumber - 1) * totalManagers) + j + 1;
-
-            roundPicks[draft.IsSnakeDraft && newRoundNumber % 2 == 0 
-                ? totalManagers - 1 - j 
-                : j] = newPosition;
-        }
-
-        return new DraftRound
-        {
-            RoundNumber = newRoundNumber,
-            Picks = roundPicks
-        };
-    }
+    private static DraftRound CreateNewRound(Draft draft) =>
+        DraftOrderEngine.BuildRound(
+            DraftOrderEngine.GetStrategy(draft),
+            draft.Rounds.Count + 1,
+            draft.DraftOrder,
+            draft.CustomRoundOrders ?? new List<RoundOrder>());
     
     /// <summary>
-    /// Toggles the active state of a draft, ensuring only one draft is active at a time
+    /// Toggles the active state of a draft, ensuring only one draft per league is active at a time
     /// </summary>
     /// <param name="draftId">The unique identifier of the draft to modify</param>
     /// <returns>A task representing the asynchronous toggle operation</returns>
@@ -784,6 +884,8 @@ public class DraftService
         try
         {
             Draft? draft = await GetByIdAsync(draftId) ?? throw new InvalidOperationException("Draft not found");
+            if (draft.LeagueId != _leagueContext.LeagueId)
+                throw new InvalidOperationException("Draft not found in this league");
 
             var filter = Builders<Draft>.Filter.Eq(d => d.Id, draft.Id);
             var updateDefinition = Builders<Draft>.Update.Set(d => d.IsActive, !draft.IsActive);
@@ -818,6 +920,46 @@ public class DraftService
         }
     }
 
+    /// <summary>
+    /// Saves the pick clock settings and running state for a draft
+    /// </summary>
+    /// <param name="draftId">The unique identifier of the draft</param>
+    /// <param name="clock">The pick clock to store, or null to remove it</param>
+    /// <returns>True if the draft was found</returns>
+    public async Task<bool> UpdatePickClockAsync(string draftId, PickClock? clock)
+    {
+        try
+        {
+            var filter = Builders<Draft>.Filter.Eq(d => d.Id, draftId);
+            var update = Builders<Draft>.Update.Set(d => d.PickClock, clock);
+
+            var result = await _drafts.UpdateOneAsync(filter, update);
+            return result.IsAcknowledged && result.MatchedCount > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating pick clock for draft {DraftId}", draftId);
+            throw;
+        }
+    }
+
+    public async Task<bool> UpdateAuctionAsync(string draftId, Auction auction)
+    {
+        try
+        {
+            var filter = Builders<Draft>.Filter.Eq(d => d.Id, draftId);
+            var update = Builders<Draft>.Update.Set(d => d.Auction, auction);
+
+            var result = await _drafts.UpdateOneAsync(filter, update);
+            return result.IsAcknowledged && result.MatchedCount > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error updating auction for draft {DraftId}", draftId);
+            throw;
+        }
+    }
+
     /// <summary>
     /// Marks a pick as complete in the draft
     /// </summary>
@@ -907,6 +1049,7 @@ public class DraftService
     /// Resets a draft to its initial state, clearing all pick completions and resetting draft tracking
     /// </summary>
     /// <param name="id">The unique identifier of the draft to reset</param>
+    /// <param name="keeperPicks">Overall numbers of the picks spent on keepers, which stay made</param>
     /// <returns>A task representing the asynchronous reset operation</returns>
     /// <exception cref="InvalidOperationException">Thrown when no draft is found with the specified ID</exception>
     /// <exception cref="Exception">Thrown when the draft reset fails, either due to:
@@ -915,11 +1058,11 @@ public class DraftService
     /// </exception>
     /// <remarks>
     /// This method performs the following actions:
-    /// - Resets current, active, and overall pick tracking to the first pick (round 1, pick 1)
-    /// - Marks all picks in all rounds as not complete
+    /// - Resets current, active, and overall pick tracking to the first pick not spent on a keeper
+    /// - Marks all other picks in all rounds as not complete
     /// Logs any errors encountered during the reset process
     /// </remarks>
-    public async Task<Draft> ResetAsync(string id)
+    public async Task<Draft> ResetAsync(string id, IReadOnlyCollection<int> keeperPicks)
     {
         try
         {
@@ -929,18 +1072,45 @@ public class DraftService
                 throw new InvalidOperationException("Draft must be active to reset");
             }
 
+            var firstOpen = draft.Rounds
+                .SelectMany(r => r.Picks
+                    .Where(p => !keeperPicks.Contains(p.OverallPickNumber))
+                    .Select(p => new PickResponse
+                    {
+                        Round = r.RoundNumber,
+                        Pick = p.PickNumber,
+                        OverallPickNumber = p.OverallPickNumber
+                    }))
+                .OrderBy(p => p.OverallPickNumber)
+                .FirstOrDefault();
+
             var filter = Builders<Draft>.Filter.Eq(d => d.Id, draft.Id);
             var update = Builders<Draft>.Update
-                .Set(d => d.CurrentRound, 1)
-                .Set(d => d.CurrentPick, 1)
-                .Set(d => d.CurrentOverallPick, 1)
-                .Set(d => d.ActiveRound, 1)
-                .Set(d => d.ActivePick, 1)
-                .Set(d => d.ActiveOverallPick, 1)
-                // Reset all picks to incomplete but preserve trade history
-                .Set("Rounds.$[].Picks.$[].IsComplete", false);
+                .Set(d => d.CurrentRound, firstOpen?.Round)
+                .Set(d => d.CurrentPick, firstOpen?.Pick)
+                .Set(d => d.CurrentOverallPick, firstOpen?.OverallPickNumber)
+                .Set(d => d.ActiveRound, firstOpen?.Round ?? 1)
+                .Set(d => d.ActivePick, firstOpen?.Pick ?? 1)
+                .Set(d => d.ActiveOverallPick, firstOpen?.OverallPickNumber ?? 1)
+                // Reset all picks but the keepers' to incomplete, preserving trade history
+                .Set("Rounds.$[].Picks.$[pick].IsComplete", false);
+            var options = new UpdateOptions
+            {
+                ArrayFilters = new List<ArrayFilterDefinition>
+                {
+                    new BsonDocumentArrayFilterDefinition<BsonDocument>(
+                        new BsonDocument("pick.OverallPickNumber", new BsonDocument("$nin", new BsonArray(keeperPicks))))
+                }
+            };
+            if (draft.Auction != null)
+            {
+                // Budgets and nomination order stay; the bidding starts over
+                draft.Auction.CurrentLot = null;
+                draft.Auction.NominationIndex = 0;
+                update = update.Set(d => d.Auction, draft.Auction);
+            }
 
-            var result = await _drafts.UpdateOneAsync(filter, update);
+            var result = await _drafts.UpdateOneAsync(filter, update, options);
 
             if (!result.IsAcknowledged)
             {
@@ -1048,6 +1218,8 @@ public class DraftService
                 throw new InvalidOperationException(errorMessage);
             }
 
+            var draft = await GetByIdAsync(id);
+
             // Delete the draft
             var result = await _drafts.DeleteOneAsync(d => d.Id == id);
             
@@ -1065,6 +1237,11 @@ public class DraftService
                 throw new Exception(error);
             }
 
+            if (draft != null)
+            {
+                await ReleaseFuturePicksAsync(id, draft.Rounds);
+            }
+
             _logger.LogInformation("Successfully deleted draft {DraftId}", id);
         }
         catch (Exception ex)
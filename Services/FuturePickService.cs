@@ -0,0 +1,204 @@
+using MongoDB.Driver;
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Keeps the ledger of picks in drafts that haven't been created yet, so dynasty leagues can trade
+/// next year's picks. <see cref="DraftService"/> copies each pick's trade trail onto the real pick
+/// when that year's draft is created.
+/// </summary>
+public class FuturePickService
+{
+    // How far past the active draft the ledger reaches
+    public const int MaxYearsAhead = 3;
+
+    private readonly IMongoCollection<FuturePick> _futurePicks;
+    private readonly DraftService _draftService;
+    private readonly LeagueContext _leagueContext;
+    private readonly ILogger<FuturePickService> _logger;
+
+    public FuturePickService(
+        MongoDbContext context,
+        DraftService draftService,
+        LeagueContext leagueContext,
+        ILogger<FuturePickService> logger)
+    {
+        _futurePicks = context.FuturePicks;
+        _draftService = draftService;
+        _leagueContext = leagueContext;
+        _logger = logger;
+    }
+
+    public static string GetOwner(FuturePick pick) => pick.TradedTo.LastOrDefault() ?? pick.OriginalManagerId;
+
+    /// <summary>
+    /// Gets every future pick that hasn't become part of a draft yet, by year then round
+    /// </summary>
+    public async Task<List<FuturePick>> GetLedgerAsync()
+    {
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            return await _futurePicks.Find(p => p.DraftId == null && p.LeagueId == leagueId)
+                .SortBy(p => p.Year)
+                .ThenBy(p => p.Round)
+                .ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving future pick ledger");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Gets every future pick, including those that have since become part of a draft
+    /// </summary>
+    public async Task<List<FuturePick>> GetAllAsync()
+    {
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            return await _futurePicks.Find(p => p.LeagueId == leagueId).ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving future picks");
+            throw;
+        }
+    }
+
+    public async Task<FuturePick?> GetByIdAsync(string id)
+    {
+        try
+        {
+            return await _futurePicks.Find(p => p.Id == id).FirstOrDefaultAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving future pick {FuturePickId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Adds placeholder picks for a future year, one per round for every manager in the active draft's order.
+    /// Picks that already exist are left alone, so a year can be extended with more rounds later.
+    /// </summary>
+    /// <returns>The year's picks</returns>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when there is no active draft, the year isn't after it, or that year's draft already exists
+    /// </exception>
+    public async Task<List<FuturePick>> CreateYearAsync(int year, int rounds)
+    {
+        try
+        {
+            var activeDraft = await _draftService.GetActiveDraftAsync()
+                ?? throw new InvalidOperationException("No active draft found");
+
+            if (year <= activeDraft.Year || year > activeDraft.Year + MaxYearsAhead)
+                throw new InvalidOperationException(
+                    $"Future picks can only be added for {activeDraft.Year + 1} through {activeDraft.Year + MaxYearsAhead}");
+
+            if (rounds < 1 || rounds > 50)
+                throw new InvalidOperationException("Rounds must be between 1 and 50");
+
+            var drafts = await _draftService.GetAllDraftsAsync();
+            if (drafts.Any(d => d.Year == year))
+                throw new InvalidOperationException($"The {year} draft already exists; trade its picks from the draft itself");
+
+            var leagueId = _leagueContext.LeagueId;
+            var existing = await _futurePicks.Find(p => p.Year == year && p.LeagueId == leagueId).ToListAsync();
+            var newPicks = Enumerable.Range(1, rounds)
+                .SelectMany(round => activeDraft.DraftOrder.Select(position => new FuturePick
+                {
+                    LeagueId = leagueId,
+                    Year = year,
+                    Round = round,
+                    OriginalManagerId = position.ManagerId
+                }))
+                .Where(p => !existing.Any(e => e.Round == p.Round && e.OriginalManagerId == p.OriginalManagerId))
+                .ToList();
+
+            if (newPicks.Any())
+            {
+                await _futurePicks.InsertManyAsync(newPicks);
+            }
+            _logger.LogInformation("Added {Count} future picks for {Year}", newPicks.Count, year);
+
+            return existing.Concat(newPicks)
+                .OrderBy(p => p.Round)
+                .ToList();
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error creating future picks for {Year}", year);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Removes a year from the ledger
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown when any of the year's picks have been traded</exception>
+    public async Task DeleteYearAsync(int year)
+    {
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            var picks = await _futurePicks.Find(p => p.Year == year && p.DraftId == null && p.LeagueId == leagueId).ToListAsync();
+            if (picks.Any(p => p.TradedTo.Any()))
+                throw new InvalidOperationException($"Some {year} picks have been traded; cancel those trades first");
+
+            await _futurePicks.DeleteManyAsync(p => p.Year == year && p.DraftId == null && p.LeagueId == leagueId);
+            _logger.LogInformation("Removed {Count} future picks for {Year}", picks.Count, year);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error deleting future picks for {Year}", year);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Hands a future pick to a new owner
+    /// </summary>
+    /// <returns>False if the pick was not found or has already become part of a draft</returns>
+    public async Task<bool> TransferAsync(string id, string managerId)
+    {
+        try
+        {
+            var result = await _futurePicks.UpdateOneAsync(
+                p => p.Id == id && p.DraftId == null,
+                Builders<FuturePick>.Update.Push(p => p.TradedTo, managerId));
+
+            return result.ModifiedCount > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error transferring future pick {FuturePickId} to {ManagerId}", id, managerId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Undoes the most recent transfer of a future pick
+    /// </summary>
+    public async Task<bool> RevertTransferAsync(string id)
+    {
+        try
+        {
+            var result = await _futurePicks.UpdateOneAsync(
+                p => p.Id == id && p.DraftId == null,
+                Builders<FuturePick>.Update.PopLast(p => p.TradedTo));
+
+            return result.ModifiedCount > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error reverting future pick {FuturePickId}", id);
+            throw;
+        }
+    }
+}
@@ -0,0 +1,21 @@
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Checks credentials for one way of signing in. Register more implementations in Program.cs to add
+/// providers (e.g. LDAP); clients choose one by name when they sign in.
+/// </summary>
+public interface ILoginProvider
+{
+    /// <summary>
+    /// Name clients pass to sign in with this provider
+    /// </summary>
+    string Name { get; }
+
+    /// <summary>
+    /// Checks the credentials and returns the account they belong to
+    /// </summary>
+    /// <returns>The account, or null if the credentials aren't valid</returns>
+    Task<UserAccount?> AuthenticateAsync(string username, string password);
+}
@@ -0,0 +1,257 @@
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Runs the keeper phase between seasons. Before the active draft starts, managers can carry players over from
+/// prior drafts; each kept player fills one of the manager's picks, which is then made before the draft begins.
+/// </summary>
+/// <remarks>
+/// Keepers aren't stored separately. A keeper is an ordinary draft status in the active draft flagged as kept,
+/// so searches that exclude drafted players, team summaries and the draft board all treat them as picks.
+/// </remarks>
+public class KeeperService
+{
+    private readonly DraftService _draftService;
+    private readonly PlayerService _playerService;
+    private readonly ILogger<KeeperService> _logger;
+
+    public KeeperService(
+        DraftService draftService,
+        PlayerService playerService,
+        ILogger<KeeperService> logger)
+    {
+        _draftService = draftService;
+        _playerService = playerService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Gets every player kept in the active draft, in pick order
+    /// </summary>
+    public async Task<List<Keeper>> GetKeepersAsync()
+    {
+        try
+        {
+            var draft = await _draftService.GetActiveDraftAsync();
+            if (draft == null) return new List<Keeper>();
+
+            return (await _playerService.GetDraftedInDraftAsync(draft.Id!))
+                .Select(p => ToKeeper(p, draft.Id!))
+                .OfType<Keeper>()
+                .OrderBy(k => k.OverallPickNumber)
+                .ToList();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting keepers");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Gets the players a manager could keep: those on their roster after the most recent prior draft
+    /// that included them, and not already taken in the active draft
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown when there is no active draft</exception>
+    public async Task<List<KeeperCandidate>> GetCandidatesAsync(string managerId)
+    {
+        try
+        {
+            var draft = await _draftService.GetActiveDraftAsync()
+                ?? throw new InvalidOperationException("No active draft found");
+            return await GetCandidatesAsync(draft, managerId);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error getting keeper candidates for manager {ManagerId}", managerId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Keeps a player for a manager, spending one of the manager's open picks in the active draft
+    /// </summary>
+    /// <param name="playerId">The player being kept</param>
+    /// <param name="managerId">The manager keeping them</param>
+    /// <param name="round">
+    /// The round whose pick the keeper costs. Without one, the manager gives up their last open pick.
+    /// </param>
+    /// <returns>The keeper and the pick it filled</returns>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when there is no active draft, the draft has started, the player isn't the manager's to keep,
+    /// or the manager has no open pick to spend
+    /// </exception>
+    public async Task<Keeper> AddKeeperAsync(string playerId, string managerId, int? round)
+    {
+        try
+        {
+            var draft = await _draftService.GetActiveDraftAsync()
+                ?? throw new InvalidOperationException("No active draft found");
+            await EnsureNotStartedAsync(draft);
+
+            var candidate = (await GetCandidatesAsync(draft, managerId))
+                .FirstOrDefault(c => c.Player.Id == playerId)
+                ?? throw new InvalidOperationException(
+                    "Only players on the manager's roster from a prior draft, and not yet taken in this one, can be kept");
+
+            // Later picks cost less, so keepers take the latest pick that fits
+            var openPick = draft.Rounds
+                .Where(r => round == null || r.RoundNumber == round)
+                .SelectMany(r => r.Picks.Select(p => (Round: r.RoundNumber, Pick: p)))
+                .Where(x => !x.Pick.IsComplete && GetOwner(x.Pick) == managerId)
+                .OrderByDescending(x => x.Pick.OverallPickNumber)
+                .FirstOrDefault();
+            if (openPick.Pick == null)
+            {
+                throw new InvalidOperationException(round == null
+                    ? "The manager has no open picks left to spend on a keeper"
+                    : $"The manager has no open pick in round {round}");
+            }
+
+            var marked = await _playerService.MarkAsDraftedAsync(playerId, new DraftPickRequest
+            {
+                DraftedBy = managerId,
+                Round = openPick.Round,
+                Pick = openPick.Pick.PickNumber,
+                OverallPick = openPick.Pick.OverallPickNumber,
+                IsKeeper = true
+            });
+            if (!marked)
+            {
+                throw new Exception($"Failed to mark player {playerId} as kept");
+            }
+
+            if (!await _draftService.TogglePickCompleteAsync(openPick.Pick.OverallPickNumber))
+            {
+                throw new Exception($"Failed to mark pick {openPick.Pick.OverallPickNumber} as complete");
+            }
+            await _draftService.MoveToFirstOpenPickAsync();
+
+            _logger.LogInformation(
+                "Manager {ManagerId} kept player {PlayerId} with round {Round} pick {PickNumber} ({OverallPick} overall)",
+                managerId, playerId, openPick.Round, openPick.Pick.PickNumber, openPick.Pick.OverallPickNumber);
+
+            return new Keeper
+            {
+                PlayerId = playerId,
+                PlayerName = candidate.Player.Name,
+                ManagerId = managerId,
+                Round = openPick.Round,
+                PickNumber = openPick.Pick.PickNumber,
+                OverallPickNumber = openPick.Pick.OverallPickNumber
+            };
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error keeping player {PlayerId} for manager {ManagerId}", playerId, managerId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Releases a keeper back into the draft pool and reopens the pick it filled
+    /// </summary>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when there is no active draft, the draft has started, or the player isn't kept in it
+    /// </exception>
+    public async Task RemoveKeeperAsync(string playerId)
+    {
+        try
+        {
+            var draft = await _draftService.GetActiveDraftAsync()
+                ?? throw new InvalidOperationException("No active draft found");
+            await EnsureNotStartedAsync(draft);
+
+            var player = await _playerService.GetAsync(playerId);
+            var keeper = player == null ? null : ToKeeper(player, draft.Id!);
+            if (keeper == null)
+            {
+                throw new InvalidOperationException("Player isn't a keeper in the active draft");
+            }
+
+            if (!await _playerService.UndraftPlayerAsync(playerId))
+            {
+                throw new Exception($"Failed to release keeper {playerId}");
+            }
+            if (!await _draftService.TogglePickCompleteAsync(keeper.OverallPickNumber))
+            {
+                throw new Exception($"Failed to reopen pick {keeper.OverallPickNumber}");
+            }
+            await _draftService.MoveToFirstOpenPickAsync();
+
+            _logger.LogInformation("Released keeper {PlayerId}, reopening pick {OverallPick}", playerId, keeper.OverallPickNumber);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error releasing keeper {PlayerId}", playerId);
+            throw;
+        }
+    }
+
+    private async Task<List<KeeperCandidate>> GetCandidatesAsync(Draft draft, string managerId)
+    {
+        var priorDrafts = (await _draftService.GetAllDraftsAsync())
+            .Where(d => d.Id != null && d.Year < draft.Year)
+            .ToDictionary(d => d.Id!);
+
+        return (await _playerService.GetDraftedByManagerAsync(managerId))
+            .Where(p => !p.DraftStatuses.Any(ds => ds.DraftId == draft.Id))
+            .Select(player =>
+            {
+                // Whoever has the player after their most recent draft is the one who can keep them
+                var latest = player.DraftStatuses
+                    .Where(ds => ds.IsDrafted && priorDrafts.ContainsKey(ds.DraftId))
+                    .OrderByDescending(ds => priorDrafts[ds.DraftId].Year)
+                    .ThenByDescending(ds => priorDrafts[ds.DraftId].CreatedAt)
+                    .FirstOrDefault();
+
+                if (latest == null || latest.ManagerId != managerId) return null;
+
+                return new KeeperCandidate
+                {
+                    Player = player,
+                    DraftId = latest.DraftId,
+                    DraftYear = priorDrafts[latest.DraftId].Year,
+                    Round = latest.Round,
+                    OverallPick = latest.OverallPick,
+                    WasKeeper = latest.IsKeeper
+                };
+            })
+            .OfType<KeeperCandidate>()
+            .OrderByDescending(c => c.DraftYear)
+            .ThenBy(c => c.OverallPick)
+            .ToList();
+    }
+
+    // Keepers can only change while every pick made so far is a keeper
+    private async Task EnsureNotStartedAsync(Draft draft)
+    {
+        var keeperPicks = (await _playerService.GetDraftedInDraftAsync(draft.Id!))
+            .Select(p => ToKeeper(p, draft.Id!)?.OverallPickNumber)
+            .OfType<int>()
+            .ToHashSet();
+
+        if (draft.Rounds.SelectMany(r => r.Picks).Any(p => p.IsComplete && !keeperPicks.Contains(p.OverallPickNumber)))
+        {
+            throw new InvalidOperationException("Keepers can't be changed once the draft has started");
+        }
+    }
+
+    private static Keeper? ToKeeper(Player player, string draftId)
+    {
+        var status = player.DraftStatuses.FirstOrDefault(ds => ds.DraftId == draftId && ds.IsKeeper);
+        return status == null ? null : new Keeper
+        {
+            PlayerId = player.Id ?? string.Empty,
+            PlayerName = player.Name,
+            ManagerId = status.ManagerId,
+            Round = status.Round,
+            PickNumber = status.Pick,
+            OverallPickNumber = status.OverallPick
+        };
+    }
+
+    private static string GetOwner(DraftPosition pick) => pick.TradedTo.Any() ? pick.TradedTo.Last() : pick.ManagerId;
+}
@@ -0,0 +1,77 @@
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Resolves which league the current request or background job is working in
+/// </summary>
+/// <remarks>
+/// Requests choose a league with the X-League-Id header, or a leagueId query parameter on event streams
+/// since EventSource can't set headers. Requests without either get the default league, so single-league
+/// setups and older clients keep working. Background work has no request and enters a league with
+/// <see cref="Use"/> instead.
+/// </remarks>
+public class LeagueContext
+{
+    public const string HeaderName = "X-League-Id";
+    public const string QueryParameterName = "leagueId";
+
+    private static readonly AsyncLocal<string?> ScopedLeagueId = new AsyncLocal<string?>();
+
+    private readonly IHttpContextAccessor _httpContextAccessor;
+
+    public LeagueContext(IHttpContextAccessor httpContextAccessor)
+    {
+        _httpContextAccessor = httpContextAccessor;
+    }
+
+    /// <summary>
+    /// The league used when nothing else is chosen; set at startup once the default league exists
+    /// </summary>
+    public string? DefaultLeagueId { get; set; }
+
+    /// <summary>
+    /// The league the current work belongs to
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown before the default league has been set up</exception>
+    public string LeagueId =>
+        ScopedLeagueId.Value
+        ?? GetRequestedLeagueId()
+        ?? DefaultLeagueId
+        ?? throw new InvalidOperationException("No league has been set up");
+
+    /// <summary>
+    /// Gets the league the current request asked for, if any
+    /// </summary>
+    public string? GetRequestedLeagueId()
+    {
+        var request = _httpContextAccessor.HttpContext?.Request;
+        if (request == null) return null;
+
+        var header = request.Headers[HeaderName].FirstOrDefault();
+        if (!string.IsNullOrWhiteSpace(header)) return header.Trim();
+
+        var query = request.Query[QueryParameterName].FirstOrDefault();
+        return string.IsNullOrWhiteSpace(query) ? null : query.Trim();
+    }
+
+    /// <summary>
+    /// Runs the work inside the returned scope in a league, whatever the current request asked for
+    /// </summary>
+    public IDisposable Use(string leagueId)
+    {
+        var previous = ScopedLeagueId.Value;
+        ScopedLeagueId.Value = leagueId;
+        return new Scope(() => ScopedLeagueId.Value = previous);
+    }
+
+    private sealed class Scope : IDisposable
+    {
+        private readonly Action _onDispose;
+
+        public Scope(Action onDispose)
+        {
+            _onDispose = onDispose;
+        }
+
+        public void Dispose() => _onDispose();
+    }
+}
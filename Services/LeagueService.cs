@@ -0,0 +1,206 @@
+using MongoDB.Bson;
+using MongoDB.Driver;
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Creates and manages leagues. The oldest league is the default, used by requests that don't choose one.
+/// </summary>
+/// <remarks>
+/// Data saved before leagues existed has no league; on startup it's moved into the default league,
+/// which is created if there isn't one yet.
+/// </remarks>
+public class LeagueService
+{
+    private const string DefaultLeagueName = "My League";
+
+    private readonly MongoDbContext _context;
+    private readonly IMongoCollection<League> _leagues;
+    private readonly LeagueContext _leagueContext;
+    private readonly ILogger<LeagueService> _logger;
+
+    public LeagueService(
+        MongoDbContext context,
+        LeagueContext leagueContext,
+        ILogger<LeagueService> logger)
+    {
+        _context = context;
+        _leagues = context.Leagues;
+        _leagueContext = leagueContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Gets every league, oldest first
+    /// </summary>
+    public async Task<List<League>> GetAllAsync()
+    {
+        try
+        {
+            return await _leagues.Find(_ => true).SortBy(l => l.CreatedAt).ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving leagues");
+            throw;
+        }
+    }
+
+    public async Task<League?> GetByIdAsync(string id)
+    {
+        try
+        {
+            if (!ObjectId.TryParse(id, out _)) return null;
+            return await _leagues.Find(l => l.Id == id).FirstOrDefaultAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving league {LeagueId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Creates a league. Its settings are created with defaults the first time they're read.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown when the name is blank or already used</exception>
+    public async Task<League> CreateAsync(string name)
+    {
+        try
+        {
+            var league = new League
+            {
+                Name = await ValidateNameAsync(name, null),
+                CreatedAt = DateTime.UtcNow
+            };
+            await _leagues.InsertOneAsync(league);
+
+            _logger.LogInformation("Created league {LeagueId} ({LeagueName})", league.Id, league.Name);
+            return league;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error creating league {LeagueName}", name);
+            throw;
+        }
+    }
+
+    /// <exception cref="InvalidOperationException">Thrown when the league isn't found, or the name is blank or already used</exception>
+    public async Task<League> RenameAsync(string id, string name)
+    {
+        try
+        {
+            var league = await GetByIdAsync(id) ?? throw new InvalidOperationException("League not found");
+            league.Name = await ValidateNameAsync(name, id);
+            await _leagues.UpdateOneAsync(l => l.Id == id, Builders<League>.Update.Set(l => l.Name, league.Name));
+
+            _logger.LogInformation("Renamed league {LeagueId} to {LeagueName}", id, league.Name);
+            return league;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error renaming league {LeagueId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Deletes an empty league along with its settings
+    /// </summary>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when the league isn't found, is the default league, or still has managers or drafts
+    /// </exception>
+    public async Task DeleteAsync(string id)
+    {
+        try
+        {
+            var league = await GetByIdAsync(id) ?? throw new InvalidOperationException("League not found");
+            if (league.Id == _leagueContext.DefaultLeagueId)
+                throw new InvalidOperationException("The default league can't be deleted");
+            if (await _context.Managers.CountDocumentsAsync(m => m.LeagueId == id) > 0
+                || await _context.Drafts.CountDocumentsAsync(d => d.LeagueId == id) > 0)
+                throw new InvalidOperationException("Remove the league's drafts and managers before deleting it");
+
+            await _context.Database.GetCollection<LeagueSettings>("leagueSettings").DeleteManyAsync(s => s.LeagueId == id);
+            await _leagues.DeleteOneAsync(l => l.Id == id);
+
+            _logger.LogInformation("Deleted league {LeagueId} ({LeagueName})", id, league.Name);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error deleting league {LeagueId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Makes sure a default league exists and owns everything saved before leagues existed
+    /// </summary>
+    /// <returns>The default league</returns>
+    public async Task<League> EnsureDefaultLeagueAsync()
+    {
+        try
+        {
+            var league = await _leagues.Find(_ => true).SortBy(l => l.CreatedAt).FirstOrDefaultAsync();
+            if (league == null)
+            {
+                league = new League { Name = DefaultLeagueName, CreatedAt = DateTime.UtcNow };
+                await _leagues.InsertOneAsync(league);
+                _logger.LogInformation("Created default league {LeagueId}", league.Id);
+            }
+
+            var adopted =
+                await AdoptAsync(_context.Managers, league.Id!)
+                + await AdoptAsync(_context.Database.GetCollection<LeagueSettings>("leagueSettings"), league.Id!)
+                + await AdoptAsync(_context.Drafts, league.Id!)
+                + await AdoptAsync(_context.Trades, league.Id!)
+                + await AdoptAsync(_context.FuturePicks, league.Id!)
+                + await AdoptAsync(_context.DraftLotteries, league.Id!)
+                + await AdoptAsync(_context.MockDrafts, league.Id!);
+            if (adopted > 0)
+            {
+                _logger.LogInformation("Moved {Count} documents without a league into league {LeagueId}", adopted, league.Id);
+            }
+
+            await DropGlobalManagerNameIndexAsync();
+
+            _leagueContext.DefaultLeagueId = league.Id;
+            return league;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error setting up the default league");
+            throw;
+        }
+    }
+
+    private async Task<string> ValidateNameAsync(string name, string? leagueId)
+    {
+        var trimmed = name?.Trim();
+        if (string.IsNullOrEmpty(trimmed))
+            throw new InvalidOperationException("League name is required");
+        if (await _leagues.Find(l => l.Name == trimmed && l.Id != leagueId).AnyAsync())
+            throw new InvalidOperationException($"A league named {trimmed} already exists");
+        return trimmed;
+    }
+
+    private static async Task<long> AdoptAsync<TDocument>(IMongoCollection<TDocument> collection, string leagueId)
+    {
+        var result = await collection.UpdateManyAsync(
+            Builders<TDocument>.Filter.Eq("LeagueId", (string?)null),
+            Builders<TDocument>.Update.Set("LeagueId", leagueId));
+        return result.ModifiedCount;
+    }
+
+    // Manager names used to be unique across the whole database; now they're only unique within a league
+    private async Task DropGlobalManagerNameIndexAsync()
+    {
+        var indexes = await (await _context.Managers.Indexes.ListAsync()).ToListAsync();
+        if (indexes.Any(i => i["name"] == "Name_1"))
+        {
+            await _context.Managers.Indexes.DropOneAsync("Name_1");
+            _logger.LogInformation("Dropped the global unique index on manager names");
+        }
+    }
+}
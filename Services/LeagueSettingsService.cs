@@ -6,33 +6,69 @@ namespace DraftEngine.Services
     public class LeagueSettingsService
     {
         private readonly IMongoCollection<LeagueSettings> _settings;
+        private readonly LeagueContext _leagueContext;
         private readonly ILogger<LeagueSettingsService> _logger;
 
         public LeagueSettingsService(
             MongoDbContext context,
+            LeagueContext leagueContext,
             ILogger<LeagueSettingsService> logger)
         {
             _settings = context.Database.GetCollection<LeagueSettings>("leagueSettings");
+            _leagueContext = leagueContext;
             _logger = logger;
         }
 
+        /// <summary>
+        /// Gets the current league's settings, creating them with defaults the first time
+        /// </summary>
         public async Task<LeagueSettings> GetSettingsAsync()
         {
-            var settings = await _settings.Find(_ => true).FirstOrDefaultAsync();
+            var leagueId = _leagueContext.LeagueId;
+            var settings = await _settings.Find(s => s.LeagueId == leagueId).FirstOrDefaultAsync();
             if (settings == null)
             {
-                settings = new LeagueSettings();
+                settings = new LeagueSettings { LeagueId = leagueId };
                 await _settings.InsertOneAsync(settings);
-                _logger.LogInformation("Created default league settings");
+                _logger.LogInformation("Created default settings for league {LeagueId}", leagueId);
             }
             return settings;
         }
 
         public async Task UpdateSettingsAsync(LeagueSettings settings)
         {
-            var filter = Builders<LeagueSettings>.Filter.Eq(s => s.Id, settings.Id);
+            if (settings.RosterSlots.Any(slot => string.IsNullOrWhiteSpace(slot.Position) || slot.Count < 0))
+                throw new InvalidOperationException("Each roster slot needs a position and a count of zero or more");
+            if (settings.RosterSlots.GroupBy(slot => slot.Position.ToUpperInvariant()).Any(g => g.Count() > 1))
+                throw new InvalidOperationException("Each position can only be listed once in the roster slots");
+            if (settings.MaxRosterSize < 0 || settings.MinorLeagueSlots < 0 || settings.TaxiSlots < 0)
+                throw new InvalidOperationException("Roster sizes can't be negative");
+            ValidateCategories(settings.HitterCategories, "hitting");
+            ValidateCategories(settings.PitcherCategories, "pitching");
+            if (string.IsNullOrWhiteSpace(settings.ValueProjectionSource))
+                throw new InvalidOperationException("Choose a projection source for league values");
+            ValidatePickValueCurve(settings.PickValueCurve);
+            if (!(settings.LopsidedTradeThreshold > 0 && settings.LopsidedTradeThreshold <= 1))
+                throw new InvalidOperationException("The lopsided trade threshold must be greater than 0 and at most 1");
+
+            // Settings can only be changed for the league the request is in
+            var leagueId = _leagueContext.LeagueId;
+            var filter = Builders<LeagueSettings>.Filter.Eq(s => s.Id, settings.Id)
+                & Builders<LeagueSettings>.Filter.Eq(s => s.LeagueId, leagueId);
             var update = Builders<LeagueSettings>.Update
-                .Set(s => s.MinGamesForPosition, settings.MinGamesForPosition);
+                .Set(s => s.MinGamesForPosition, settings.MinGamesForPosition)
+                .Set(s => s.RosterSlots, settings.RosterSlots
+                    .Select(slot => new RosterSlot { Position = slot.Position.Trim().ToUpperInvariant(), Count = slot.Count })
+                    .ToList())
+                .Set(s => s.MaxRosterSize, settings.MaxRosterSize)
+                .Set(s => s.MinorLeagueSlots, settings.MinorLeagueSlots)
+                .Set(s => s.TaxiSlots, settings.TaxiSlots)
+                .Set(s => s.ScoringFormat, settings.ScoringFormat)
+                .Set(s => s.HitterCategories, NormalizeCategories(settings.HitterCategories))
+                .Set(s => s.PitcherCategories, NormalizeCategories(settings.PitcherCategories))
+                .Set(s => s.ValueProjectionSource, settings.ValueProjectionSource.Trim())
+                .Set(s => s.PickValueCurve, settings.PickValueCurve)
+                .Set(s => s.LopsidedTradeThreshold, settings.LopsidedTradeThreshold);
 
             var result = await _settings.UpdateOneAsync(filter, update);
             if (result.ModifiedCount > 0)
@@ -40,5 +76,40 @@ namespace DraftEngine.Services
                 _logger.LogInformation("Updated league settings");
             }
         }
+
+        private static void ValidateCategories(List<ScoringCategory> categories, string group)
+        {
+            if (categories.Any(c => string.IsNullOrWhiteSpace(c.Stat)))
+                throw new InvalidOperationException($"Each {group} category needs a stat");
+            if (categories.GroupBy(c => c.Stat.Trim().ToUpperInvariant()).Any(g => g.Count() > 1))
+                throw new InvalidOperationException($"Each stat can only be listed once in the {group} categories");
+            if (categories.Any(c => double.IsNaN(c.Weight) || double.IsInfinity(c.Weight)))
+                throw new InvalidOperationException($"Each {group} category needs a numeric weight");
+            if (categories.Any(c => c.SgpDenominator.HasValue && !(c.SgpDenominator > 0)))
+                throw new InvalidOperationException($"SGP denominators for {group} categories must be greater than zero");
+        }
+
+        private static void ValidatePickValueCurve(PickValueCurve curve)
+        {
+            if (!(curve.TopValue > 0) || double.IsInfinity(curve.TopValue))
+                throw new InvalidOperationException("The first pick's value must be greater than zero");
+            if (!(curve.DecayRate >= 0 && curve.DecayRate < 1))
+                throw new InvalidOperationException("The pick value decay rate must be at least 0 and less than 1");
+            if (!(curve.MinimumValue >= 0 && curve.MinimumValue <= curve.TopValue))
+                throw new InvalidOperationException("The minimum pick value must be between zero and the first pick's value");
+            if (!(curve.FutureYearDiscount >= 0 && curve.FutureYearDiscount < 1))
+                throw new InvalidOperationException("The future year discount must be at least 0 and less than 1");
+        }
+
+        private static List<ScoringCategory> NormalizeCategories(List<ScoringCategory> categories) =>
+            categories
+                .Select(c => new ScoringCategory
+                {
+                    Stat = c.Stat.Trim().ToUpperInvariant(),
+                    LowerIsBetter = c.LowerIsBetter,
+                    Weight = c.Weight,
+                    SgpDenominator = c.SgpDenominator
+                })
+                .ToList();
     }
 }
@@ -0,0 +1,165 @@
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Calculates each player's value under the league's scoring settings from their projections
+/// </summary>
+/// <remarks>
+/// Points leagues add up each scored stat times its weight. Category leagues (roto and head-to-head)
+/// add up z-scores instead: how far a player's projection sits from the average projected hitter or
+/// pitcher in each category, flipped for categories where lower is better and scaled by the weight.
+/// Hitters and pitchers are scored against their own pool; two-way players get both.
+/// </remarks>
+public class LeagueValueService
+{
+    private readonly PlayerService _playerService;
+    private readonly PlayerLeagueValueService _playerLeagueValueService;
+    private readonly LeagueSettingsService _leagueSettings;
+    private readonly LeagueService _leagueService;
+    private readonly LeagueContext _leagueContext;
+    private readonly ILogger<LeagueValueService> _logger;
+
+    public LeagueValueService(
+        PlayerService playerService,
+        PlayerLeagueValueService playerLeagueValueService,
+        LeagueSettingsService leagueSettings,
+        LeagueService leagueService,
+        LeagueContext leagueContext,
+        ILogger<LeagueValueService> logger)
+    {
+        _playerService = playerService;
+        _playerLeagueValueService = playerLeagueValueService;
+        _leagueSettings = leagueSettings;
+        _leagueService = leagueService;
+        _leagueContext = leagueContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Recalculates and saves every player's league value in the current league
+    /// </summary>
+    /// <returns>The number of players who have a league value</returns>
+    public async Task<int> RecalculateAsync()
+    {
+        try
+        {
+            var settings = await _leagueSettings.GetSettingsAsync();
+            var players = await _playerService.GetAsync();
+
+            var values = CalculateValues(players, settings);
+            var modified = await _playerLeagueValueService.SaveLeagueValuesAsync(values);
+            var valued = values.Count(kv => kv.Value.HasValue);
+
+            _logger.LogInformation(
+                "Recalculated {Format} league values from {Source} projections: {Valued} players valued, {Modified} changed",
+                settings.ScoringFormat, settings.ValueProjectionSource, valued, modified);
+
+            return valued;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error recalculating league values");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Recalculates league values in every league, for when the shared projections change
+    /// </summary>
+    public async Task RecalculateAllLeaguesAsync()
+    {
+        foreach (var league in await _leagueService.GetAllAsync())
+        {
+            using (_leagueContext.Use(league.Id!))
+            {
+                await RecalculateAsync();
+            }
+        }
+    }
+
+    /// <summary>
+    /// Calculates league values without saving them
+    /// </summary>
+    /// <returns>League value by player ID; null for players with no usable projection</returns>
+    public static Dictionary<string, double?> CalculateValues(List<Player> players, LeagueSettings settings)
+    {
+        var values = players
+            .Where(p => p.Id != null)
+            .ToDictionary(p => p.Id!, _ => (double?)null);
+
+        AddPoolValues(players, p => GetProjection(p, settings.ValueProjectionSource)?.Hitter?.Stats,
+            settings.HitterCategories, settings.ScoringFormat, values);
+        AddPoolValues(players, p => GetProjection(p, settings.ValueProjectionSource)?.Pitcher?.Stats,
+            settings.PitcherCategories, settings.ScoringFormat, values);
+
+        foreach (var id in values.Keys.ToList())
+        {
+            if (values[id].HasValue)
+            {
+                values[id] = Math.Round(values[id]!.Value, 2);
+            }
+        }
+
+        return values;
+    }
+
+    private static void AddPoolValues(
+        List<Player> players,
+        Func<Player, Dictionary<string, double>?> getStats,
+        List<ScoringCategory> categories,
+        ScoringFormat format,
+        Dictionary<string, double?> values)
+    {
+        var pool = players
+            .Where(p => p.Id != null)
+            .Select(p => (Id: p.Id!, Stats: getStats(p)))
+            .Where(x => x.Stats != null && x.Stats.Count > 0)
+            .ToList();
+        if (pool.Count == 0) return;
+
+        foreach (var category in categories)
+        {
+            var entries = pool
+                .Select(x => (x.Id, Value: GetStat(x.Stats!, category.Stat)))
+                .Where(x => x.Value.HasValue)
+                .Select(x => (x.Id, Value: x.Value!.Value))
+                .ToList();
+            if (entries.Count == 0) continue;
+
+            if (format == ScoringFormat.Points)
+            {
+                // Weights carry their own sign, so a stat that costs points just has a negative weight
+                foreach (var (id, value) in entries)
+                {
+                    Add(values, id, value * category.Weight);
+                }
+                continue;
+            }
+
+            var mean = entries.Average(x => x.Value);
+            var stdDev = Math.Sqrt(entries.Average(x => Math.Pow(x.Value - mean, 2)));
+            if (stdDev == 0) continue;
+
+            var direction = category.LowerIsBetter ? -1 : 1;
+            foreach (var (id, value) in entries)
+            {
+                Add(values, id, direction * (value - mean) / stdDev * category.Weight);
+            }
+        }
+    }
+
+    private static void Add(Dictionary<string, double?> values, string id, double amount) =>
+        values[id] = (values[id] ?? 0) + amount;
+
+    internal static ProjectionData? GetProjection(Player player, string source) =>
+        player.Projections?
+            .FirstOrDefault(kv => string.Equals(kv.Key, source, StringComparison.OrdinalIgnoreCase))
+            .Value;
+
+    internal static double? GetStat(Dictionary<string, double> stats, string stat)
+    {
+        var match = stats.FirstOrDefault(kv => string.Equals(kv.Key, stat, StringComparison.OrdinalIgnoreCase));
+        return match.Key != null ? match.Value : null;
+    }
+}
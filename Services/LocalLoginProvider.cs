@@ -0,0 +1,29 @@
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Signs in with a username and a password stored (hashed) on the account
+/// </summary>
+public class LocalLoginProvider : ILoginProvider
+{
+    public const string ProviderName = "local";
+
+    private readonly UserAccountService _userAccountService;
+
+    public LocalLoginProvider(UserAccountService userAccountService)
+    {
+        _userAccountService = userAccountService;
+    }
+
+    public string Name => ProviderName;
+
+    public async Task<UserAccount?> AuthenticateAsync(string username, string password)
+    {
+        var account = await _userAccountService.GetByUsernameAsync(username);
+        if (account == null || account.Provider != ProviderName)
+            return null;
+
+        return UserAccountService.VerifyPassword(account, password) ? account : null;
+    }
+}
@@ -0,0 +1,245 @@
+using MongoDB.Driver;
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Runs draft lotteries. Teams that missed the playoffs are drawn for the first slots by their odds of
+/// landing each one, the rest of the non-playoff teams follow from worst record up, and playoff teams pick last.
+/// </summary>
+/// <remarks>
+/// Each slot is drawn among the teams still left, weighted by their odds for that slot. Draws use
+/// <see cref="Random"/> seeded with the lottery's seed, so the stored seed and entries are enough to rerun
+/// a lottery and get the same order.
+/// </remarks>
+public class LotteryService
+{
+    // Slack for odds entered to a decimal place or two
+    private const double OddsTolerance = 0.1;
+
+    private readonly IMongoCollection<DraftLottery> _lotteries;
+    private readonly ManagerService _managerService;
+    private readonly LeagueContext _leagueContext;
+    private readonly ILogger<LotteryService> _logger;
+
+    public LotteryService(
+        MongoDbContext context,
+        ManagerService managerService,
+        LeagueContext leagueContext,
+        ILogger<LotteryService> logger)
+    {
+        _lotteries = context.DraftLotteries;
+        _managerService = managerService;
+        _leagueContext = leagueContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Gets the current league's past lotteries, newest first
+    /// </summary>
+    /// <param name="year">Only lotteries for this draft year, if set</param>
+    public async Task<List<DraftLottery>> GetAllAsync(int? year = null)
+    {
+        try
+        {
+            var filter = Builders<DraftLottery>.Filter.Eq(l => l.LeagueId, _leagueContext.LeagueId);
+            if (year.HasValue)
+                filter &= Builders<DraftLottery>.Filter.Eq(l => l.Year, year.Value);
+            return await _lotteries.Find(filter)
+                .SortByDescending(l => l.CreatedAt)
+                .ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting draft lotteries");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Gets a lottery run in the current league
+    /// </summary>
+    public async Task<DraftLottery?> GetByIdAsync(string id)
+    {
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            return await _lotteries.Find(l => l.Id == id && l.LeagueId == leagueId).FirstOrDefaultAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting draft lottery {LotteryId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Runs and records a lottery
+    /// </summary>
+    /// <param name="year">The draft year the order is for</param>
+    /// <param name="seed">Seed for the drawing; a random one is chosen when null</param>
+    /// <param name="draws">How many slots are drawn</param>
+    /// <param name="entries">Every manager's standing and odds of landing each drawn slot</param>
+    /// <returns>The lottery with its results in slot order</returns>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when there are no entries, they don't cover every manager once, standings repeat, a team's odds
+    /// don't cover every drawn slot, a slot's odds don't add up to 100%, or there are more draws than teams with odds
+    /// </exception>
+    public async Task<DraftLottery> RunAsync(int year, int? seed, int draws, List<LotteryEntry> entries)
+    {
+        try
+        {
+            var managers = await _managerService.GetAllAsync();
+            ValidateEntries(managers, draws, entries);
+
+            var lottery = new DraftLottery
+            {
+                LeagueId = _leagueContext.LeagueId,
+                Year = year,
+                Seed = seed ?? Random.Shared.Next(),
+                Draws = draws,
+                CreatedAt = DateTime.UtcNow,
+                Entries = entries
+            };
+            lottery.Results = Draw(lottery.Seed, draws, entries);
+
+            await _lotteries.InsertOneAsync(lottery);
+
+            _logger.LogInformation("Ran {Year} draft lottery {LotteryId} with seed {Seed}; {ManagerId} won the first pick",
+                year, lottery.Id, lottery.Seed, lottery.Results.First().ManagerId);
+            return lottery;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error running {Year} draft lottery", year);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Records the draft a lottery's order was used for
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown when the lottery doesn't exist or already set a draft's order</exception>
+    public async Task AttachToDraftAsync(string lotteryId, string draftId)
+    {
+        try
+        {
+            var result = await _lotteries.UpdateOneAsync(
+                l => l.Id == lotteryId && l.DraftId == null,
+                Builders<DraftLottery>.Update.Set(l => l.DraftId, draftId));
+            if (result.MatchedCount == 0)
+                throw new InvalidOperationException("Lottery not found or already used for a draft");
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error attaching lottery {LotteryId} to draft {DraftId}", lotteryId, draftId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Frees a deleted draft's lottery so its order can seed a new draft. The lottery itself stays on record.
+    /// </summary>
+    public async Task DetachFromDraftAsync(string draftId)
+    {
+        try
+        {
+            await _lotteries.UpdateManyAsync(
+                l => l.DraftId == draftId,
+                Builders<DraftLottery>.Update.Set(l => l.DraftId, null));
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error detaching lotteries from draft {DraftId}", draftId);
+            throw;
+        }
+    }
+
+    private static bool InLottery(LotteryEntry entry) => entry.SlotOdds.Any(o => o > 0);
+
+    private static void ValidateEntries(List<Manager> managers, int draws, List<LotteryEntry> entries)
+    {
+        if (entries.Count == 0)
+            throw new InvalidOperationException("A lottery needs at least one team");
+
+        var managerIds = managers.Select(m => m.Id).ToHashSet();
+        if (entries.Count != managerIds.Count
+            || entries.Select(e => e.ManagerId).Distinct().Count() != entries.Count
+            || !entries.All(e => managerIds.Contains(e.ManagerId)))
+            throw new InvalidOperationException("Every manager must be entered in the lottery once");
+        if (entries.Any(e => e.Standing < 1) || entries.Select(e => e.Standing).Distinct().Count() != entries.Count)
+            throw new InvalidOperationException("Each manager needs their own standing, starting at 1");
+        if (entries.Any(e => e.SlotOdds.Count != 0 && e.SlotOdds.Count != draws))
+            throw new InvalidOperationException($"Each team in the lottery needs odds for all {draws} drawn slots");
+        if (entries.Any(e => e.SlotOdds.Any(o => o < 0 || double.IsNaN(o) || double.IsInfinity(o))))
+            throw new InvalidOperationException("Odds can't be negative");
+        if (entries.Any(e => e.SlotOdds.Sum() > 100 + OddsTolerance))
+            throw new InvalidOperationException("A team's odds across the drawn slots can't add up to more than 100%");
+        for (int slot = 0; slot < draws; slot++)
+        {
+            var slotTotal = entries.Where(e => e.SlotOdds.Count > 0).Sum(e => e.SlotOdds[slot]);
+            if (Math.Abs(slotTotal - 100) > OddsTolerance)
+                throw new InvalidOperationException($"Odds for pick {slot + 1} add up to {slotTotal:0.##}% rather than 100%");
+        }
+        if (draws > entries.Count(InLottery))
+            throw new InvalidOperationException("There can't be more draws than teams with lottery odds");
+    }
+
+    private static List<LotteryResult> Draw(int seed, int draws, List<LotteryEntry> entries)
+    {
+        // Before the drawing: non-playoff teams from worst record up, then playoff teams the same way
+        var preLottery = entries
+            .OrderBy(e => InLottery(e) ? 0 : 1)
+            .ThenByDescending(e => e.Standing)
+            .ToList();
+        var remaining = new List<LotteryEntry>(preLottery);
+        var results = new List<LotteryResult>();
+        var random = new Random(seed);
+
+        for (int draw = 0; draw < draws; draw++)
+        {
+            var inDrawing = remaining.Where(e => e.SlotOdds.Count > 0 && e.SlotOdds[draw] > 0).ToList();
+
+            // Everyone with odds for this slot already won an earlier one, so it goes to the worst record left in the lottery
+            if (inDrawing.Count == 0)
+            {
+                var next = remaining.First(InLottery);
+                results.Add(new LotteryResult
+                {
+                    Slot = results.Count + 1,
+                    ManagerId = next.ManagerId,
+                    PreLotterySlot = preLottery.IndexOf(next) + 1
+                });
+                remaining.Remove(next);
+                continue;
+            }
+
+            // Odds are out of whoever's left, since the teams drawn for earlier slots are out of this one
+            var totalOdds = inDrawing.Sum(e => e.SlotOdds[draw]);
+            var roll = random.NextDouble() * totalOdds;
+
+            // Walk the teams in standings order until the roll lands in one's share of the odds
+            var cumulative = 0.0;
+            var winner = inDrawing.FirstOrDefault(e => (cumulative += e.SlotOdds[draw]) > roll) ?? inDrawing.Last();
+
+            results.Add(new LotteryResult
+            {
+                Slot = results.Count + 1,
+                ManagerId = winner.ManagerId,
+                PreLotterySlot = preLottery.IndexOf(winner) + 1,
+                Roll = roll,
+                Chance = winner.SlotOdds[draw] / totalOdds
+            });
+            remaining.Remove(winner);
+        }
+
+        results.AddRange(remaining.Select((entry, index) => new LotteryResult
+        {
+            Slot = draws + index + 1,
+            ManagerId = entry.ManagerId,
+            PreLotterySlot = preLottery.IndexOf(entry) + 1
+        }));
+
+        return results;
+    }
+}
@@ -9,34 +9,44 @@ namespace DraftEngine.Services;
 public class ManagerService
 {
     private readonly IMongoCollection<Manager> _managers;
+    private readonly LeagueContext _leagueContext;
+    private readonly UserContext _userContext;
     private readonly ILogger<ManagerService> _logger;
 
     public ManagerService(
         MongoDbContext dbContext,
+        LeagueContext leagueContext,
+        UserContext userContext,
         ILogger<ManagerService> logger)
     {
         _managers = dbContext.Database.GetCollection<Manager>("managers");
+        _leagueContext = leagueContext;
+        _userContext = userContext;
         _logger = logger;
         CreateUniqueIndexes();
     }
 
     private void CreateUniqueIndexes()
     {
-        var indexKeysDefinition = Builders<Manager>.IndexKeys.Ascending(m => m.Name);
+        var indexKeysDefinition = Builders<Manager>.IndexKeys
+            .Ascending(m => m.LeagueId)
+            .Ascending(m => m.Name);
         var indexOptions = new CreateIndexOptions { Unique = true };
         var indexModel = new CreateIndexModel<Manager>(indexKeysDefinition, indexOptions);
         _managers.Indexes.CreateOne(indexModel);
     }
 
     /// <summary>
-    /// Gets all managers from the database
+    /// Gets all managers in the current league
     /// </summary>
     /// <returns>List of all managers</returns>
     public async Task<List<Manager>> GetAllAsync()
     {
         try
         {
-            var managers = await _managers.Find(_ => true).ToListAsync();
+            var leagueId = _leagueContext.LeagueId;
+            var managers = await _managers.Find(m => m.LeagueId == leagueId).ToListAsync();
+            managers.ForEach(MarkUser);
             _logger.LogInformation("Retrieved {Count} managers", managers.Count);
             return managers;
         }
@@ -61,6 +71,7 @@ public class ManagerService
             
             if (manager != null)
             {
+                MarkUser(manager);
                 _logger.LogInformation("Successfully retrieved manager {ManagerId}", id);
             }
             else
@@ -78,29 +89,55 @@ public class ManagerService
     }
 
     /// <summary>
-    /// Creates a new manager
+    /// Gets the signed-in account's manager in the current league
+    /// </summary>
+    /// <returns>The manager, or null if the account doesn't manage a team here</returns>
+    public async Task<Manager?> GetCurrentAsync()
+    {
+        var userId = _userContext.UserId;
+        if (userId == null) return null;
+
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            var manager = await _managers.Find(m => m.UserId == userId && m.LeagueId == leagueId).FirstOrDefaultAsync();
+            if (manager != null) MarkUser(manager);
+            return manager;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving the manager for account {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Whether the signed-in account may pick, bid, trade or edit the queue for a manager: commissioners
+    /// can act for anyone, everyone else only for their own team
+    /// </summary>
+    public async Task<bool> CanActForAsync(string managerId)
+    {
+        if (_userContext.IsCommissioner) return true;
+        return (await GetCurrentAsync())?.Id == managerId;
+    }
+
+    /// <summary>
+    /// Creates a new manager in the current league
     /// </summary>
     /// <param name="manager">The manager to create</param>
     /// <returns>The created manager</returns>
-    /// <exception cref="InvalidOperationException">Thrown when attempting to create a second user manager</exception>
+    /// <exception cref="InvalidOperationException">Thrown when the account already manages another team in the league</exception>
     public async Task<Manager> CreateAsync(Manager manager)
     {
         try
         {
             _logger.LogInformation("Attempting to create manager: {ManagerName}", manager.Name);
 
-            if (manager.IsUser)
-            {
-                // Ensure there's only one user manager
-                var existingUserManager = await _managers.Find(m => m.IsUser).FirstOrDefaultAsync();
-                if (existingUserManager != null)
-                {
-                    _logger.LogWarning("Attempted to create second user manager");
-                    throw new InvalidOperationException("A user manager already exists");
-                }
-            }
+            manager.LeagueId = _leagueContext.LeagueId;
+            await EnsureAccountUnlinkedAsync(manager, null);
 
             await _managers.InsertOneAsync(manager);
+            MarkUser(manager);
             _logger.LogInformation("Successfully created manager {ManagerId}", manager.Id);
             return manager;
         }
@@ -116,23 +153,20 @@ public class ManagerService
     /// </summary>
     /// <param name="id">The ID of the manager to update</param>
     /// <param name="manager">The updated manager data</param>
-    /// <exception cref="InvalidOperationException">Thrown when attempting to create a second user manager</exception>
+    /// <exception cref="InvalidOperationException">Thrown when the account already manages another team in the league</exception>
     public async Task UpdateAsync(string id, Manager manager)
     {
         try
         {
             _logger.LogInformation("Attempting to update manager {ManagerId}", id);
 
-            if (manager.IsUser)
-            {
-                // Ensure there's only one user manager (excluding current manager)
-                var existingUserManager = await _managers.Find(m => m.IsUser && m.Id != id).FirstOrDefaultAsync();
-                if (existingUserManager != null)
-                {
-                    _logger.LogWarning("Attempted to create second user manager through update");
-                    throw new InvalidOperationException("A user manager already exists");
-                }
-            }
+            // The queue is edited through its own endpoints and a manager can't change leagues,
+            // so don't let a profile edit wipe either
+            var existing = await _managers.Find(m => m.Id == id).FirstOrDefaultAsync();
+            manager.Queue = existing?.Queue ?? new List<string>();
+            manager.LeagueId = existing?.LeagueId ?? _leagueContext.LeagueId;
+
+            await EnsureAccountUnlinkedAsync(manager, id);
 
             var result = await _managers.ReplaceOneAsync(m => m.Id == id, manager);
             if (result.ModifiedCount > 0)
@@ -151,6 +185,131 @@ public class ManagerService
         }
     }
 
+    /// <summary>
+    /// Replaces a manager's queue with a new ordering
+    /// </summary>
+    /// <param name="id">The ID of the manager</param>
+    /// <param name="playerIds">Player IDs in draft preference order; duplicates are dropped</param>
+    /// <returns>The saved queue</returns>
+    /// <exception cref="InvalidOperationException">Thrown when the manager is not found</exception>
+    public async Task<List<string>> SetQueueAsync(string id, IEnumerable<string> playerIds)
+    {
+        try
+        {
+            var queue = playerIds.Where(p => !string.IsNullOrEmpty(p)).Distinct().ToList();
+            var result = await _managers.UpdateOneAsync(
+                m => m.Id == id,
+                Builders<Manager>.Update.Set(m => m.Queue, queue));
+
+            if (result.MatchedCount == 0)
+            {
+                throw new InvalidOperationException($"Manager with ID {id} not found");
+            }
+
+            _logger.LogInformation("Set queue for manager {ManagerId} to {Count} players", id, queue.Count);
+            return queue;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error setting queue for manager {ManagerId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Appends a player to the end of a manager's queue
+    /// </summary>
+    /// <param name="id">The ID of the manager</param>
+    /// <param name="playerId">The ID of the player to queue</param>
+    /// <returns>The updated queue</returns>
+    /// <exception cref="InvalidOperationException">Thrown when the manager is not found</exception>
+    public async Task<List<string>> AddToQueueAsync(string id, string playerId)
+    {
+        try
+        {
+            // Only push when the player isn't queued yet so the existing position is kept
+            await _managers.UpdateOneAsync(
+                m => m.Id == id && !m.Queue.Contains(playerId),
+                Builders<Manager>.Update.Push(m => m.Queue, playerId));
+
+            var manager = await _managers.Find(m => m.Id == id).FirstOrDefaultAsync()
+                ?? throw new InvalidOperationException($"Manager with ID {id} not found");
+
+            _logger.LogInformation("Queued player {PlayerId} for manager {ManagerId}", playerId, id);
+            return manager.Queue;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error queueing player {PlayerId} for manager {ManagerId}", playerId, id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Removes a player from a manager's queue
+    /// </summary>
+    /// <param name="id">The ID of the manager</param>
+    /// <param name="playerId">The ID of the player to remove</param>
+    /// <returns>The updated queue</returns>
+    /// <exception cref="InvalidOperationException">Thrown when the manager is not found</exception>
+    public async Task<List<string>> RemoveFromQueueAsync(string id, string playerId)
+    {
+        try
+        {
+            var result = await _managers.UpdateOneAsync(
+                m => m.Id == id,
+                Builders<Manager>.Update.Pull(m => m.Queue, playerId));
+
+            if (result.MatchedCount == 0)
+            {
+                throw new InvalidOperationException($"Manager with ID {id} not found");
+            }
+
+            var manager = await _managers.Find(m => m.Id == id).FirstOrDefaultAsync();
+            _logger.LogInformation("Removed player {PlayerId} from queue of manager {ManagerId}", playerId, id);
+            return manager?.Queue ?? new List<string>();
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error removing player {PlayerId} from queue of manager {ManagerId}", playerId, id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Removes a player from every queue in the current league, e.g. once the player has been drafted.
+    /// Players are shared between leagues, so queues in other leagues keep them.
+    /// </summary>
+    /// <param name="playerId">The ID of the player to remove</param>
+    /// <returns>The IDs of the managers whose queues changed</returns>
+    public async Task<List<string>> RemoveFromAllQueuesAsync(string playerId)
+    {
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            var affected = await _managers
+                .Find(m => m.LeagueId == leagueId && m.Queue.Contains(playerId))
+                .Project(m => m.Id!)
+                .ToListAsync();
+
+            if (affected.Any())
+            {
+                await _managers.UpdateManyAsync(
+                    m => m.LeagueId == leagueId && m.Queue.Contains(playerId),
+                    Builders<Manager>.Update.Pull(m => m.Queue, playerId));
+
+                _logger.LogInformation("Removed player {PlayerId} from {Count} manager queues", playerId, affected.Count);
+            }
+
+            return affected;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error removing player {PlayerId} from manager queues", playerId);
+            throw;
+        }
+    }
+
     /// <summary>
     /// Deletes a manager
     /// </summary>
@@ -177,4 +336,50 @@ public class ManagerService
             throw;
         }
     }
+
+    /// <summary>
+    /// Links managers flagged as the user before accounts existed to an account, in every league
+    /// </summary>
+    /// <returns>The number of managers linked</returns>
+    public async Task<long> AdoptLegacyUserManagersAsync(string userId)
+    {
+        try
+        {
+            var filter = Builders<Manager>.Filter.Eq("IsUser", true) & Builders<Manager>.Filter.Eq(m => m.UserId, null);
+            var update = Builders<Manager>.Update.Set(m => m.UserId, userId).Unset("IsUser");
+            var result = await _managers.UpdateManyAsync(filter, update);
+            if (result.ModifiedCount > 0)
+            {
+                _logger.LogInformation("Linked {Count} user managers to account {UserId}", result.ModifiedCount, userId);
+            }
+            return result.ModifiedCount;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error linking user managers to account {UserId}", userId);
+            throw;
+        }
+    }
+
+    // An account manages at most one team per league
+    private async Task EnsureAccountUnlinkedAsync(Manager manager, string? id)
+    {
+        if (string.IsNullOrEmpty(manager.UserId))
+        {
+            manager.UserId = null;
+            return;
+        }
+
+        var userId = manager.UserId;
+        var leagueId = manager.LeagueId;
+        var linked = await _managers.Find(m => m.UserId == userId && m.LeagueId == leagueId && m.Id != id).FirstOrDefaultAsync();
+        if (linked != null)
+        {
+            _logger.LogWarning("Attempted to link account {UserId} to a second manager", userId);
+            throw new InvalidOperationException($"That account already manages {linked.Name}");
+        }
+    }
+
+    private void MarkUser(Manager manager) =>
+        manager.IsUser = manager.UserId != null && manager.UserId == _userContext.UserId;
 }
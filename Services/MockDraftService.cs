@@ -0,0 +1,331 @@
+using MongoDB.Driver;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Runs practice drafts against simulated opponents. Everything is kept on the mock draft document;
+/// real drafts and players' draft statuses are only ever read.
+/// </summary>
+public class MockDraftService
+{
+    private const int RecentMockDraftLimit = 20;
+
+    private readonly IMongoCollection<MockDraft> _mockDrafts;
+    private readonly DraftService _draftService;
+    private readonly PlayerService _playerService;
+    private readonly ManagerService _managerService;
+    private readonly LeagueContext _leagueContext;
+    private readonly ILogger<MockDraftService> _logger;
+
+    public MockDraftService(
+        MongoDbContext context,
+        DraftService draftService,
+        PlayerService playerService,
+        ManagerService managerService,
+        LeagueContext leagueContext,
+        ILogger<MockDraftService> logger)
+    {
+        _mockDrafts = context.MockDrafts;
+        _draftService = draftService;
+        _playerService = playerService;
+        _managerService = managerService;
+        _leagueContext = leagueContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Gets the current league's most recent mock drafts, newest first
+    /// </summary>
+    public async Task<List<MockDraft>> GetRecentAsync()
+    {
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            return await _mockDrafts.Find(m => m.LeagueId == leagueId)
+                .SortByDescending(m => m.CreatedAt)
+                .Limit(RecentMockDraftLimit)
+                .ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving mock drafts");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Gets a mock draft by its ID
+    /// </summary>
+    /// <returns>The mock draft if found, null otherwise</returns>
+    public async Task<MockDraft?> GetByIdAsync(string id)
+    {
+        try
+        {
+            return await _mockDrafts.Find(m => m.Id == id).FirstOrDefaultAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving mock draft {MockDraftId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Starts a mock draft from the active draft's order and rounds
+    /// </summary>
+    /// <remarks>
+    /// Picks already made in the real draft carry over, so a mock started mid-draft rehearses the rest of it.
+    /// Simulated managers pick until it is the user's turn.
+    /// </remarks>
+    /// <exception cref="InvalidOperationException">Thrown when there is no active draft or no user manager</exception>
+    public async Task<MockDraft> CreateAsync(CreateMockDraftRequest request)
+    {
+        try
+        {
+            var draft = await _draftService.GetActiveDraftAsync()
+                ?? throw new InvalidOperationException("No active draft found");
+
+            var userManagerId = request.UserManagerId;
+            if (string.IsNullOrEmpty(userManagerId))
+            {
+                var managers = await _managerService.GetAllAsync();
+                userManagerId = managers.FirstOrDefault(m => m.IsUser)?.Id
+                    ?? throw new InvalidOperationException("No user manager found. Pick a manager to draft as.");
+            }
+            else if (!draft.DraftOrder.Any(p => p.ManagerId == userManagerId) &&
+                     !draft.Rounds.Any(r => r.Picks.Any(p => p.TradedTo.Contains(userManagerId))))
+            {
+                throw new InvalidOperationException("That manager has no picks in the active draft");
+            }
+
+            var mockDraft = new MockDraft
+            {
+                LeagueId = draft.LeagueId,
+                SourceDraftId = draft.Id!,
+                UserManagerId = userManagerId,
+                RankingSource = request.RankingSource,
+                Randomness = request.Randomness,
+                CreatedAt = DateTime.UtcNow,
+                IsSnakeDraft = draft.IsSnakeDraft,
+                DraftOrder = draft.DraftOrder.Select(ClonePick).ToArray(),
+                Rounds = draft.Rounds.Select(r => new DraftRound
+                {
+                    RoundNumber = r.RoundNumber,
+                    Picks = r.Picks.Select(ClonePick).ToArray()
+                }).ToList()
+            };
+
+            var drafted = await _playerService.GetDraftedInDraftAsync(draft.Id!);
+            foreach (var player in drafted)
+            {
+                var status = player.DraftStatuses?.FirstOrDefault(ds => ds.DraftId == draft.Id && ds.IsDrafted);
+                if (status == null) continue;
+
+                var (round, pick) = FindPick(mockDraft, status.OverallPick);
+                if (round == null || pick == null) continue;
+
+                pick.IsComplete = true;
+                mockDraft.Picks.Add(new MockDraftPick
+                {
+                    OverallPickNumber = pick.OverallPickNumber,
+                    Round = round.RoundNumber,
+                    PickNumber = pick.PickNumber,
+                    ManagerId = status.ManagerId,
+                    PlayerId = player.Id!,
+                    PlayerName = player.Name
+                });
+            }
+
+            var players = await _playerService.GetAsync();
+            SimulateUntilUserPick(mockDraft, players);
+
+            await _mockDrafts.InsertOneAsync(mockDraft);
+            _logger.LogInformation(
+                "Started mock draft {MockDraftId} from draft {DraftId} for manager {ManagerId}",
+                mockDraft.Id, draft.Id, userManagerId);
+
+            return mockDraft;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error creating mock draft");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Makes the user's pick, then lets the simulated managers pick until the user is up again
+    /// </summary>
+    /// <returns>The updated mock draft, or null if it doesn't exist</returns>
+    /// <exception cref="InvalidOperationException">Thrown when it isn't the user's turn or the player is unavailable</exception>
+    public async Task<MockDraft?> MakePickAsync(string id, string playerId)
+    {
+        try
+        {
+            var mockDraft = await GetByIdAsync(id);
+            if (mockDraft == null) return null;
+
+            if (mockDraft.IsComplete || mockDraft.CurrentOverallPick == null)
+                throw new InvalidOperationException("This mock draft is already complete");
+
+            var (round, pick) = FindPick(mockDraft, mockDraft.CurrentOverallPick.Value);
+            if (round == null || pick == null)
+                throw new InvalidOperationException("Current pick not found in mock draft");
+
+            if (GetPickOwner(pick) != mockDraft.UserManagerId)
+                throw new InvalidOperationException("It isn't your pick");
+
+            if (mockDraft.Picks.Any(p => p.PlayerId == playerId))
+                throw new InvalidOperationException("That player has already been picked in this mock draft");
+
+            var players = await _playerService.GetAsync();
+            var player = players.FirstOrDefault(p => p.Id == playerId)
+                ?? throw new InvalidOperationException("Player not found");
+
+            RecordPick(mockDraft, round, pick, player, simulated: false);
+            SimulateUntilUserPick(mockDraft, players);
+
+            await _mockDrafts.ReplaceOneAsync(m => m.Id == id, mockDraft);
+            return mockDraft;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error making pick in mock draft {MockDraftId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Deletes a mock draft
+    /// </summary>
+    /// <returns>True if a mock draft was deleted</returns>
+    public async Task<bool> DeleteAsync(string id)
+    {
+        try
+        {
+            var result = await _mockDrafts.DeleteOneAsync(m => m.Id == id);
+            return result.DeletedCount > 0;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting mock draft {MockDraftId}", id);
+            throw;
+        }
+    }
+
+    private void SimulateUntilUserPick(MockDraft mockDraft, List<Player> players)
+    {
+        var taken = mockDraft.Picks.Select(p => p.PlayerId).ToHashSet();
+        var available = players.Where(p => p.Id != null && !taken.Contains(p.Id)).ToList();
+
+        while (true)
+        {
+            var next = mockDraft.Rounds
+                .SelectMany(r => r.Picks.Select(p => (Round: r, Pick: p)))
+                .Where(x => !x.Pick.IsComplete)
+                .OrderBy(x => x.Pick.OverallPickNumber)
+                .FirstOrDefault();
+
+            if (next.Pick == null)
+            {
+                mockDraft.CurrentOverallPick = null;
+                mockDraft.IsComplete = true;
+                return;
+            }
+
+            mockDraft.CurrentOverallPick = next.Pick.OverallPickNumber;
+            if (GetPickOwner(next.Pick) == mockDraft.UserManagerId) return;
+
+            var player = ChooseSimulatedPick(available, mockDraft.RankingSource, mockDraft.Randomness);
+            if (player == null)
+            {
+                // Ran out of players; nothing more can be picked
+                mockDraft.CurrentOverallPick = null;
+                mockDraft.IsComplete = true;
+                return;
+            }
+
+            available.Remove(player);
+            RecordPick(mockDraft, next.Round, next.Pick, player, simulated: true);
+        }
+    }
+
+    /// <summary>
+    /// Picks the best player on a noisy copy of the ranking, so simulated managers reach a little
+    /// the way real ones do. Unranked players only go once every ranked player is gone.
+    /// </summary>
+    private static Player? ChooseSimulatedPick(List<Player> available, RankingSource source, double randomness)
+    {
+        Player? best = null;
+        var bestScore = double.MaxValue;
+
+        foreach (var player in available)
+        {
+            if (player.Rank == null || !player.Rank.TryGetValue(source, out var rank)) continue;
+
+            var score = rank + NextGaussian() * randomness;
+            if (score < bestScore)
+            {
+                best = player;
+                bestScore = score;
+            }
+        }
+
+        return best ?? available
+            .OrderBy(p => p.Rank?.Values.DefaultIfEmpty(int.MaxValue).Min() ?? int.MaxValue)
+            .ThenBy(p => p.Name)
+            .FirstOrDefault();
+    }
+
+    private static double NextGaussian()
+    {
+        // Box-Muller transform
+        var u1 = 1.0 - Random.Shared.NextDouble();
+        var u2 = Random.Shared.NextDouble();
+        return Math.Sqrt(-2.0 * Math.Log(u1)) * Math.Cos(2.0 * Math.PI * u2);
+    }
+
+    private static void RecordPick(MockDraft mockDraft, DraftRound round, DraftPosition pick, Player player, bool simulated)
+    {
+        pick.IsComplete = true;
+        mockDraft.Picks.Add(new MockDraftPick
+        {
+            OverallPickNumber = pick.OverallPickNumber,
+            Round = round.RoundNumber,
+            PickNumber = pick.PickNumber,
+            ManagerId = GetPickOwner(pick),
+            PlayerId = player.Id!,
+            PlayerName = player.Name,
+            IsSimulated = simulated
+        });
+    }
+
+    private static DraftPosition ClonePick(DraftPosition pick) => new()
+    {
+        ManagerId = pick.ManagerId,
+        TradedTo = pick.TradedTo.ToList(),
+        PickNumber = pick.PickNumber,
+        IsComplete = false,
+        OverallPickNumber = pick.OverallPickNumber
+    };
+
+    private static string GetPickOwner(DraftPosition pick)
+    {
+        return pick.TradedTo.Any() ? pick.TradedTo.Last() : pick.ManagerId;
+    }
+
+    private static (DraftRound? Round, DraftPosition? Pick) FindPick(MockDraft mockDraft, int overallPickNumber)
+    {
+        foreach (var round in mockDraft.Rounds)
+        {
+            var pick = round.Picks.FirstOrDefault(p => p.OverallPickNumber == overallPickNumber);
+            if (pick != null)
+            {
+                return (round, pick);
+            }
+        }
+        return (null, null);
+    }
+}
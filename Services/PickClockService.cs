@@ -0,0 +1,540 @@
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Runs the pick clock for each league's active draft
+/// </summary>
+/// <remarks>
+/// The clock follows the draft's active pick. Whenever the active pick changes the clock restarts
+/// for the new pick, charging the previous pick's owner for any time drawn from their time bank.
+/// When both the pick time and the owner's bank run out the draft's expiry policy is applied.
+/// </remarks>
+public class PickClockService : BackgroundService
+{
+    private static readonly TimeSpan TickInterval = TimeSpan.FromSeconds(1);
+
+    private readonly DraftService _draftService;
+    private readonly PlayerService _playerService;
+    private readonly ManagerService _managerService;
+    private readonly DraftHistoryService _draftHistoryService;
+    private readonly DraftEventService _draftEventService;
+    private readonly LeagueService _leagueService;
+    private readonly LeagueContext _leagueContext;
+    private readonly ILogger<PickClockService> _logger;
+
+    // Serializes the background tick with pause/resume/configure requests
+    private readonly SemaphoreSlim _lock = new SemaphoreSlim(1, 1);
+
+    public PickClockService(
+        DraftService draftService,
+        PlayerService playerService,
+        ManagerService managerService,
+        DraftHistoryService draftHistoryService,
+        DraftEventService draftEventService,
+        LeagueService leagueService,
+        LeagueContext leagueContext,
+        ILogger<PickClockService> logger)
+    {
+        _draftService = draftService;
+        _playerService = playerService;
+        _managerService = managerService;
+        _draftHistoryService = draftHistoryService;
+        _draftEventService = draftEventService;
+        _leagueService = leagueService;
+        _leagueContext = leagueContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Gets the pick clock status for the active draft
+    /// </summary>
+    /// <returns>The clock status, or null if there is no active draft</returns>
+    public async Task<PickClockStatus?> GetStatusAsync()
+    {
+        var draft = await _draftService.GetActiveDraftAsync();
+        return draft == null ? null : BuildStatus(draft, DateTime.UtcNow);
+    }
+
+    /// <summary>
+    /// Updates the pick clock settings for a draft
+    /// </summary>
+    /// <remarks>
+    /// A newly enabled clock starts paused on the draft's active pick. Reconfiguring a running clock
+    /// keeps its running state; time banks are only refilled for new clocks or when requested.
+    /// </remarks>
+    /// <param name="draftId">The unique identifier of the draft</param>
+    /// <param name="request">The new clock settings</param>
+    /// <returns>The updated clock status</returns>
+    /// <exception cref="InvalidOperationException">Thrown when the draft is not found or is an auction draft</exception>
+    public async Task<PickClockStatus> ConfigureAsync(string draftId, UpdatePickClockRequest request)
+    {
+        await _lock.WaitAsync();
+        try
+        {
+            var draft = await _draftService.GetByIdAsync(draftId)
+                ?? throw new InvalidOperationException("Draft not found");
+            if (draft.Auction != null)
+            {
+                throw new InvalidOperationException("Auction drafts don't use a pick clock");
+            }
+
+            var existing = draft.PickClock;
+            var clock = new PickClock
+            {
+                Enabled = request.Enabled,
+                SecondsPerPick = request.SecondsPerPick,
+                RoundOverrides = request.RoundOverrides
+                    .Where(o => o.Round > 0 && o.Seconds > 0)
+                    .GroupBy(o => o.Round)
+                    .Select(g => g.Last())
+                    .OrderBy(o => o.Round)
+                    .ToList(),
+                TimeBankSeconds = request.TimeBankSeconds,
+                ExpiryPolicy = request.ExpiryPolicy,
+                IsPaused = existing?.IsPaused ?? true,
+                ClockOverallPick = existing?.ClockOverallPick ?? draft.ActiveOverallPick,
+                SegmentStartedAt = existing?.SegmentStartedAt,
+                ElapsedSeconds = existing?.ElapsedSeconds ?? 0
+            };
+
+            if (existing == null || request.ResetTimeBanks)
+            {
+                clock.ManagerTimeBanks = draft.DraftOrder
+                    .Select(p => p.ManagerId)
+                    .Distinct()
+                    .ToDictionary(id => id, _ => request.TimeBankSeconds);
+            }
+            else
+            {
+                clock.ManagerTimeBanks = existing.ManagerTimeBanks;
+            }
+
+            if (!clock.Enabled && !clock.IsPaused)
+            {
+                Pause(clock, DateTime.UtcNow);
+            }
+
+            await SaveAndPublishAsync(draft, clock);
+
+            _logger.LogInformation(
+                "Configured pick clock for draft {DraftId}: {Enabled}, {Seconds}s per pick, {Bank}s bank, {Policy}",
+                draftId, clock.Enabled ? "enabled" : "disabled", clock.SecondsPerPick, clock.TimeBankSeconds, clock.ExpiryPolicy);
+
+            return BuildStatus(draft, DateTime.UtcNow);
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Pauses the pick clock, preserving the time already used on the current pick
+    /// </summary>
+    /// <param name="draftId">The unique identifier of the draft</param>
+    /// <returns>The updated clock status</returns>
+    /// <exception cref="InvalidOperationException">Thrown when the draft has no enabled pick clock</exception>
+    public async Task<PickClockStatus> PauseAsync(string draftId)
+    {
+        await _lock.WaitAsync();
+        try
+        {
+            var (draft, clock) = await GetEnabledClockAsync(draftId);
+            var now = DateTime.UtcNow;
+
+            if (!clock.IsPaused)
+            {
+                Pause(clock, now);
+                await SaveAndPublishAsync(draft, clock);
+                _logger.LogInformation("Paused pick clock for draft {DraftId} on pick {OverallPick}", draftId, clock.ClockOverallPick);
+            }
+
+            return BuildStatus(draft, now);
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    /// <summary>
+    /// Resumes a paused pick clock
+    /// </summary>
+    /// <param name="draftId">The unique identifier of the draft</param>
+    /// <returns>The updated clock status</returns>
+    /// <exception cref="InvalidOperationException">Thrown when the draft has no enabled pick clock</exception>
+    public async Task<PickClockStatus> ResumeAsync(string draftId)
+    {
+        await _lock.WaitAsync();
+        try
+        {
+            var (draft, clock) = await GetEnabledClockAsync(draftId);
+            var now = DateTime.UtcNow;
+
+            if (clock.IsPaused)
+            {
+                if (clock.ClockOverallPick != draft.ActiveOverallPick)
+                {
+                    StartPick(clock, draft.ActiveOverallPick, now);
+                }
+                clock.IsPaused = false;
+                clock.SegmentStartedAt = now;
+                await SaveAndPublishAsync(draft, clock);
+                _logger.LogInformation("Resumed pick clock for draft {DraftId} on pick {OverallPick}", draftId, clock.ClockOverallPick);
+            }
+
+            return BuildStatus(draft, now);
+        }
+        finally
+        {
+            _lock.Release();
+        }
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("Pick clock service started");
+
+        using var timer = new PeriodicTimer(TickInterval);
+        try
+        {
+            while (await timer.WaitForNextTickAsync(stoppingToken))
+            {
+                await _lock.WaitAsync(stoppingToken);
+                try
+                {
+                    foreach (var league in await _leagueService.GetAllAsync())
+                    {
+                        // A clock in one league failing shouldn't stop the others
+                        using (_leagueContext.Use(league.Id!))
+                        {
+                            try
+                            {
+                                await TickAsync();
+                            }
+                            catch (Exception ex)
+                            {
+                                _logger.LogError(ex, "Error running pick clock for league {LeagueId}", league.Id);
+                            }
+                        }
+                    }
+                }
+                catch (Exception ex)
+                {
+                    _logger.LogError(ex, "Error running pick clock");
+                }
+                finally
+                {
+                    _lock.Release();
+                }
+            }
+        }
+        catch (OperationCanceledException)
+        {
+            // Shutting down
+        }
+    }
+
+    private async Task TickAsync()
+    {
+        var draft = await _draftService.GetActiveDraftAsync();
+        var clock = draft?.PickClock;
+        if (draft == null || draft.Auction != null || clock == null || !clock.Enabled)
+        {
+            return;
+        }
+
+        var now = DateTime.UtcNow;
+
+        // The active pick moved (pick made, skipped, or selected by hand); restart for the new pick
+        if (clock.ClockOverallPick != draft.ActiveOverallPick)
+        {
+            ChargeTimeBank(draft, clock, now);
+            StartPick(clock, draft.ActiveOverallPick, now);
+            await SaveAndPublishAsync(draft, clock);
+            return;
+        }
+
+        if (clock.IsPaused || draft.CurrentOverallPick == null)
+        {
+            return;
+        }
+
+        var (round, pick) = FindPick(draft, draft.ActiveOverallPick);
+        if (round == null || pick == null || pick.IsComplete)
+        {
+            return;
+        }
+
+        var elapsed = GetElapsedSeconds(clock, now);
+        var ownerId = GetPickOwner(pick);
+        var remaining = GetSecondsForRound(clock, round.RoundNumber) + GetTimeBank(clock, ownerId) - elapsed;
+        if (remaining > 0)
+        {
+            return;
+        }
+
+        _logger.LogInformation(
+            "Pick clock expired on pick {OverallPick} for manager {ManagerId}; applying {Policy}",
+            pick.OverallPickNumber, ownerId, clock.ExpiryPolicy);
+
+        clock.ManagerTimeBanks[ownerId] = 0;
+        await HandleExpiryAsync(draft, clock, round, pick, now);
+    }
+
+    private async Task HandleExpiryAsync(Draft draft, PickClock clock, DraftRound round, DraftPosition pick, DateTime now)
+    {
+        if (clock.ExpiryPolicy == PickClockExpiryPolicy.AutoDraftFromQueue)
+        {
+            if (await TryDraftFromQueueAsync(draft, clock, round, pick, now))
+            {
+                return;
+            }
+
+            _logger.LogWarning(
+                "No queued player could be drafted for pick {OverallPick}; advancing instead",
+                pick.OverallPickNumber);
+        }
+
+        var nextPick = await _draftService.GetNextPickAsync(pick.OverallPickNumber, true);
+        if (nextPick == null)
+        {
+            // Nothing left to advance to; stop the clock rather than expiring every tick
+            Pause(clock, now);
+            await SaveAndPublishAsync(draft, clock);
+            return;
+        }
+
+        await _draftService.UpdatePickStateAsync(nextPick.OverallPickNumber);
+        StartPick(clock, nextPick.OverallPickNumber, now);
+        await _draftService.UpdatePickClockAsync(draft.Id!, clock);
+
+        var updatedDraft = await _draftService.GetByIdAsync(draft.Id!);
+        if (updatedDraft != null)
+        {
+            try
+            {
+                await _draftHistoryService.RecordAsync(
+                    DraftActionType.ActivePickMove,
+                    draft,
+                    updatedDraft,
+                    null,
+                    $"Pick clock expired on #{pick.OverallPickNumber}; moved to #{nextPick.OverallPickNumber}");
+            }
+            catch (Exception ex)
+            {
+                _logger.LogWarning(ex, "Failed to record pick clock expiry for draft {DraftId}", draft.Id);
+            }
+
+            _draftEventService.Publish(DraftEventTypes.ActivePickChanged, new { draft = updatedDraft });
+            _draftEventService.Publish(DraftEventTypes.ClockChanged, new { clock = BuildStatus(updatedDraft, now) });
+        }
+    }
+
+    /// <summary>
+    /// Drafts the highest queued player still available to the pick's owner
+    /// </summary>
+    /// <returns>True if a player was drafted</returns>
+    private async Task<bool> TryDraftFromQueueAsync(Draft draft, PickClock clock, DraftRound round, DraftPosition pick, DateTime now)
+    {
+        var ownerId = GetPickOwner(pick);
+        var manager = await _managerService.GetByIdAsync(ownerId);
+        if (manager == null || !manager.Queue.Any())
+        {
+            return false;
+        }
+
+        var queued = await _playerService.GetByIdsAsync(manager.Queue);
+        var player = queued.FirstOrDefault(p => p.DraftStatuses?.Any(ds => ds.DraftId == draft.Id) != true);
+        if (player == null)
+        {
+            return false;
+        }
+
+        var drafted = await _playerService.MarkAsDraftedAsync(player.Id!, new DraftPickRequest
+        {
+            DraftedBy = ownerId,
+            Round = round.RoundNumber,
+            Pick = pick.PickNumber,
+            OverallPick = pick.OverallPickNumber
+        });
+        if (!drafted || !await _draftService.TogglePickCompleteAsync(pick.OverallPickNumber))
+        {
+            if (drafted)
+            {
+                await _playerService.UndraftPlayerAsync(player.Id!);
+            }
+            return false;
+        }
+
+        // Same advance rule as a manual pick: only move on when the pick wasn't behind the current pick
+        var currentPick = await _draftService.GetCurrentPickAsync();
+        if (currentPick == null || pick.OverallPickNumber >= currentPick.OverallPickNumber)
+        {
+            var nextPick = await _draftService.GetNextPickAsync(pick.OverallPickNumber, true);
+            var targetPick = nextPick?.OverallPickNumber ?? draft.Rounds.Sum(r => r.Picks.Length) + 1;
+            await _draftService.UpdatePickStateAsync(targetPick, true);
+        }
+
+        var updatedDraft = await _draftService.GetByIdAsync(draft.Id!);
+        var playerAfter = await _playerService.GetAsync(player.Id!);
+        if (updatedDraft == null)
+        {
+            return true;
+        }
+
+        StartPick(clock, updatedDraft.ActiveOverallPick, now);
+        await _draftService.UpdatePickClockAsync(draft.Id!, clock);
+        updatedDraft.PickClock = clock;
+
+        _logger.LogInformation(
+            "Auto-drafted {PlayerName} from the queue of manager {ManagerId} with pick {OverallPick}",
+            player.Name, ownerId, pick.OverallPickNumber);
+
+        try
+        {
+            await _draftHistoryService.RecordAsync(
+                DraftActionType.Pick,
+                draft,
+                updatedDraft,
+                new[] { DraftHistoryService.CreatePlayerChange(player, playerAfter, draft.Id!) },
+                $"Pick clock expired; auto-drafted {player.Name} with pick #{pick.OverallPickNumber}");
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(ex, "Failed to record auto-draft for draft {DraftId}", draft.Id);
+        }
+
+        _draftEventService.Publish(
+            DraftEventTypes.PickMade,
+            new { draft = updatedDraft, player = playerAfter, overallPickNumber = pick.OverallPickNumber, managerId = ownerId });
+        _draftEventService.Publish(DraftEventTypes.ClockChanged, new { clock = BuildStatus(updatedDraft, now) });
+
+        return true;
+    }
+
+    private async Task<(Draft Draft, PickClock Clock)> GetEnabledClockAsync(string draftId)
+    {
+        var draft = await _draftService.GetByIdAsync(draftId)
+            ?? throw new InvalidOperationException("Draft not found");
+
+        if (draft.PickClock is not { Enabled: true } clock)
+        {
+            throw new InvalidOperationException("Pick clock is not enabled for this draft");
+        }
+
+        return (draft, clock);
+    }
+
+    private async Task SaveAndPublishAsync(Draft draft, PickClock clock)
+    {
+        await _draftService.UpdatePickClockAsync(draft.Id!, clock);
+        draft.PickClock = clock;
+        _draftEventService.Publish(DraftEventTypes.ClockChanged, new { clock = BuildStatus(draft, DateTime.UtcNow) });
+    }
+
+    /// <summary>
+    /// Deducts any time a manager spent beyond the pick's own allowance from their bank
+    /// </summary>
+    private static void ChargeTimeBank(Draft draft, PickClock clock, DateTime now)
+    {
+        if (clock.ClockOverallPick == null) return;
+
+        var (round, pick) = FindPick(draft, clock.ClockOverallPick.Value);
+        if (round == null || pick == null) return;
+
+        var overtime = GetElapsedSeconds(clock, now) - GetSecondsForRound(clock, round.RoundNumber);
+        if (overtime <= 0) return;
+
+        var ownerId = GetPickOwner(pick);
+        clock.ManagerTimeBanks[ownerId] = Math.Max(0, GetTimeBank(clock, ownerId) - (int)Math.Ceiling(overtime));
+    }
+
+    private static void StartPick(PickClock clock, int overallPickNumber, DateTime now)
+    {
+        clock.ClockOverallPick = overallPickNumber;
+        clock.ElapsedSeconds = 0;
+        clock.SegmentStartedAt = clock.IsPaused ? null : now;
+    }
+
+    private static void Pause(PickClock clock, DateTime now)
+    {
+        clock.ElapsedSeconds = GetElapsedSeconds(clock, now);
+        clock.SegmentStartedAt = null;
+        clock.IsPaused = true;
+    }
+
+    private static PickClockStatus BuildStatus(Draft draft, DateTime now)
+    {
+        var clock = draft.PickClock;
+        var status = new PickClockStatus
+        {
+            DraftId = draft.Id ?? string.Empty,
+            Enabled = clock?.Enabled ?? false,
+            IsPaused = clock?.IsPaused ?? true,
+            ExpiryPolicy = clock?.ExpiryPolicy ?? PickClockExpiryPolicy.AutoAdvance,
+            ServerTime = now
+        };
+
+        if (clock == null) return status;
+
+        var overallPick = clock.ClockOverallPick ?? draft.ActiveOverallPick;
+        var (round, pick) = FindPick(draft, overallPick);
+        if (round == null || pick == null) return status;
+
+        var ownerId = GetPickOwner(pick);
+        var allowed = GetSecondsForRound(clock, round.RoundNumber);
+        var bank = GetTimeBank(clock, ownerId);
+        // A clock that hasn't caught up with the active pick yet is about to restart
+        var elapsed = overallPick == draft.ActiveOverallPick ? GetElapsedSeconds(clock, now) : 0;
+        var pickRemaining = allowed - elapsed;
+
+        status.OverallPickNumber = overallPick;
+        status.Round = round.RoundNumber;
+        status.ManagerId = ownerId;
+        status.SecondsForPick = allowed;
+        status.PickSecondsRemaining = (int)Math.Max(0, Math.Ceiling(pickRemaining));
+        status.TimeBankRemaining = (int)Math.Max(0, Math.Ceiling(pickRemaining >= 0 ? bank : bank + pickRemaining));
+        status.TotalSecondsRemaining = (int)Math.Max(0, Math.Ceiling(allowed + bank - elapsed));
+
+        return status;
+    }
+
+    private static double GetElapsedSeconds(PickClock clock, DateTime now)
+    {
+        var running = !clock.IsPaused && clock.SegmentStartedAt.HasValue
+            ? (now - clock.SegmentStartedAt.Value).TotalSeconds
+            : 0;
+        return clock.ElapsedSeconds + running;
+    }
+
+    private static int GetSecondsForRound(PickClock clock, int roundNumber)
+    {
+        return clock.RoundOverrides.FirstOrDefault(o => o.Round == roundNumber)?.Seconds ?? clock.SecondsPerPick;
+    }
+
+    private static int GetTimeBank(PickClock clock, string managerId)
+    {
+        return clock.ManagerTimeBanks.TryGetValue(managerId, out var bank) ? bank : clock.TimeBankSeconds;
+    }
+
+    private static string GetPickOwner(DraftPosition pick)
+    {
+        return pick.TradedTo.Any() ? pick.TradedTo.Last() : pick.ManagerId;
+    }
+
+    private static (DraftRound? Round, DraftPosition? Pick) FindPick(Draft draft, int overallPickNumber)
+    {
+        foreach (var round in draft.Rounds)
+        {
+            var pick = round.Picks.FirstOrDefault(p => p.OverallPickNumber == overallPickNumber);
+            if (pick != null)
+            {
+                return (round, pick);
+            }
+        }
+        return (null, null);
+    }
+}
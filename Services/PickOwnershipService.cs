@@ -0,0 +1,138 @@
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Traces which picks a manager holds or has held, in every draft and in the future pick ledger,
+/// along with the trades that moved each one
+/// </summary>
+public class PickOwnershipService
+{
+    private readonly DraftService _draftService;
+    private readonly TradeService _tradeService;
+    private readonly FuturePickService _futurePickService;
+    private readonly ILogger<PickOwnershipService> _logger;
+
+    public PickOwnershipService(
+        DraftService draftService,
+        TradeService tradeService,
+        FuturePickService futurePickService,
+        ILogger<PickOwnershipService> logger)
+    {
+        _draftService = draftService;
+        _tradeService = tradeService;
+        _futurePickService = futurePickService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Gets every pick the manager currently owns or has traded away, by year, round and pick
+    /// </summary>
+    public async Task<List<PickOwnership>> GetManagerPicksAsync(string managerId)
+    {
+        try
+        {
+            var drafts = await _draftService.GetAllDraftsAsync(sortDescending: false);
+            var futurePicks = await _futurePickService.GetAllAsync();
+            var trades = (await _tradeService.GetTrades())
+                .Where(t => t.Status == TradeStatus.Completed)
+                .OrderBy(t => t.Timestamp)
+                .ToList();
+
+            var picks = drafts
+                .SelectMany(draft => draft.Rounds.SelectMany(round => round.Picks.Select(pick =>
+                {
+                    // Trades made before the draft existed moved the ledger entry that became this pick
+                    var ledgerIds = futurePicks
+                        .Where(f => f.DraftId == draft.Id && f.Round == round.RoundNumber && f.OriginalManagerId == pick.ManagerId)
+                        .Select(f => f.Id)
+                        .ToHashSet();
+
+                    return CreateOwnership(
+                        managerId,
+                        pick.ManagerId,
+                        pick.TradedTo,
+                        GetTimeline(trades, asset =>
+                            (asset.Type == TradeAssetType.DraftPick
+                                && asset.DraftId == draft.Id
+                                && asset.OverallPickNumber == pick.OverallPickNumber)
+                            || (asset.Type == TradeAssetType.FuturePick && ledgerIds.Contains(asset.FuturePickId))),
+                        ownership =>
+                        {
+                            ownership.DraftId = draft.Id;
+                            ownership.Year = draft.Year;
+                            ownership.Round = round.RoundNumber;
+                            ownership.PickNumber = pick.PickNumber;
+                            ownership.OverallPickNumber = pick.OverallPickNumber;
+                            ownership.IsComplete = pick.IsComplete;
+                        });
+                })))
+                .Concat(futurePicks
+                    .Where(f => f.DraftId == null)
+                    .Select(futurePick => CreateOwnership(
+                        managerId,
+                        futurePick.OriginalManagerId,
+                        futurePick.TradedTo,
+                        GetTimeline(trades, asset =>
+                            asset.Type == TradeAssetType.FuturePick && asset.FuturePickId == futurePick.Id),
+                        ownership =>
+                        {
+                            ownership.FuturePickId = futurePick.Id;
+                            ownership.Year = futurePick.Year;
+                            ownership.Round = futurePick.Round;
+                        })))
+                .OfType<PickOwnership>()
+                .OrderBy(p => p.Year)
+                .ThenBy(p => p.Round)
+                .ThenBy(p => p.PickNumber ?? int.MaxValue)
+                .ToList();
+
+            _logger.LogInformation("Found {Count} picks for manager {ManagerId}", picks.Count, managerId);
+            return picks;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error getting picks for manager {ManagerId}", managerId);
+            throw;
+        }
+    }
+
+    // Null when the manager has never held the pick
+    private static PickOwnership? CreateOwnership(
+        string managerId,
+        string originalManagerId,
+        List<string> tradedTo,
+        List<PickTradeEvent> timeline,
+        Action<PickOwnership> describe)
+    {
+        if (originalManagerId != managerId && !tradedTo.Contains(managerId))
+            return null;
+
+        var currentOwnerId = tradedTo.LastOrDefault() ?? originalManagerId;
+        var ownership = new PickOwnership
+        {
+            OriginalManagerId = originalManagerId,
+            CurrentOwnerId = currentOwnerId,
+            Status = currentOwnerId != managerId
+                ? PickOwnershipStatus.TradedAway
+                : originalManagerId == managerId ? PickOwnershipStatus.Owned : PickOwnershipStatus.Acquired,
+            Timeline = timeline
+        };
+        describe(ownership);
+        return ownership;
+    }
+
+    private static List<PickTradeEvent> GetTimeline(List<Trade> trades, Func<TradeAsset, bool> isPick) =>
+        trades
+            .SelectMany(trade => trade.AssetDistribution.SelectMany(receiver => receiver.Value
+                .Where(from => from.Value.Any(isPick))
+                .Select(from => new PickTradeEvent
+                {
+                    TradeId = trade.Id ?? string.Empty,
+                    Timestamp = trade.Timestamp,
+                    FromManagerId = from.Key,
+                    ToManagerId = receiver.Key
+                })))
+            .ToList();
+}
@@ -0,0 +1,434 @@
+using MongoDB.Bson;
+using MongoDB.Driver;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Keeps each account's highlights, notes, stars and personal ranks on players, per league
+/// </summary>
+/// <remarks>
+/// These used to be stored on the shared player documents, where managers overwrote each other's
+/// scouting. <see cref="AdoptLegacyAnnotationsAsync"/> moves any still there to the first commissioner.
+/// </remarks>
+public class PlayerAnnotationService
+{
+    /// <summary>
+    /// The ranking source name clients use for the signed-in account's big board
+    /// </summary>
+    public const string PersonalRankingSource = "personal";
+
+    private static readonly string[] LegacyFields = { "IsHighlighted", "Notes", "PersonalRank", "StarsRating" };
+
+    private readonly MongoDbContext _context;
+    private readonly IMongoCollection<PlayerAnnotation> _annotations;
+    private readonly LeagueContext _leagueContext;
+    private readonly UserContext _userContext;
+    private readonly PlayerLeagueValueService _playerLeagueValueService;
+    private readonly ILogger<PlayerAnnotationService> _logger;
+
+    public PlayerAnnotationService(
+        MongoDbContext context,
+        LeagueContext leagueContext,
+        UserContext userContext,
+        PlayerLeagueValueService playerLeagueValueService,
+        ILogger<PlayerAnnotationService> logger)
+    {
+        _context = context;
+        _annotations = context.PlayerAnnotations;
+        _leagueContext = leagueContext;
+        _userContext = userContext;
+        _playerLeagueValueService = playerLeagueValueService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Gets the signed-in account's annotations in the current league
+    /// </summary>
+    public async Task<List<PlayerAnnotation>> GetMineAsync()
+    {
+        var userId = _userContext.UserId;
+        if (userId == null) return new List<PlayerAnnotation>();
+
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            return await _annotations.Find(a => a.LeagueId == leagueId && a.UserId == userId).ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving player annotations for account {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Gets the IDs of players the signed-in account has highlighted
+    /// </summary>
+    public async Task<List<string>> GetHighlightedPlayerIdsAsync() =>
+        (await GetMineAsync()).Where(a => a.IsHighlighted).Select(a => a.PlayerId).ToList();
+
+    /// <summary>
+    /// Gets the IDs of the players the signed-in account has ranked, best first
+    /// </summary>
+    public async Task<List<string>> GetPersonalRankingAsync() =>
+        (await GetMineAsync())
+            .Where(a => a.PersonalRank != null)
+            .OrderBy(a => a.PersonalRank)
+            .Select(a => a.PlayerId)
+            .ToList();
+
+    /// <summary>
+    /// Gets the signed-in account's big board: every player they've ranked, best first, with their tiers
+    /// </summary>
+    public async Task<List<BigBoardPlayer>> GetBigBoardAsync()
+    {
+        try
+        {
+            var ranked = (await GetMineAsync())
+                .Where(a => a.PersonalRank != null)
+                .OrderBy(a => a.PersonalRank)
+                .ToList();
+            var playerIds = ranked.Select(a => a.PlayerId).ToList();
+            var found = await _context.Players.Find(Builders<Player>.Filter.In(p => p.Id, playerIds)).ToListAsync();
+            await _playerLeagueValueService.ApplyAsync(found);
+            var players = found.ToDictionary(p => p.Id!);
+
+            var board = new List<BigBoardPlayer>();
+            var tier = 1;
+            foreach (var annotation in ranked.Where(a => players.ContainsKey(a.PlayerId)))
+            {
+                tier = Math.Max(tier, annotation.PersonalTier ?? tier);
+                board.Add(new BigBoardPlayer
+                {
+                    Player = players[annotation.PlayerId],
+                    Rank = annotation.PersonalRank!.Value,
+                    Tier = tier
+                });
+            }
+            return board;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving the big board for account {UserId}", _userContext.UserId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Replaces the signed-in account's big board, ranking the players in the order given
+    /// </summary>
+    /// <remarks>
+    /// Players left off lose their personal rank and tier but keep their highlight, notes and stars.
+    /// </remarks>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when nobody is signed in, a player is listed twice or doesn't exist, or tiers go back up the board
+    /// </exception>
+    public async Task SaveBigBoardAsync(IReadOnlyList<BigBoardEntry> entries)
+    {
+        var userId = _userContext.UserId ?? throw new InvalidOperationException("Sign in to rank players");
+
+        try
+        {
+            var playerIds = entries.Select(e => e.PlayerId).ToList();
+            if (playerIds.Distinct().Count() != playerIds.Count)
+                throw new InvalidOperationException("A player can only be on the board once");
+            if (entries.Zip(entries.Skip(1)).Any(pair => pair.Second.Tier < pair.First.Tier))
+                throw new InvalidOperationException("Tiers must run in order down the board");
+            if (playerIds.Any(id => !ObjectId.TryParse(id, out _))
+                || await _context.Players.CountDocumentsAsync(Builders<Player>.Filter.In(p => p.Id, playerIds)) != playerIds.Count)
+                throw new InvalidOperationException("Some of those players no longer exist");
+
+            var leagueId = _leagueContext.LeagueId;
+            var now = DateTime.UtcNow;
+            var filter = Builders<PlayerAnnotation>.Filter;
+            var update = Builders<PlayerAnnotation>.Update;
+            var mine = filter.Eq(a => a.LeagueId, leagueId) & filter.Eq(a => a.UserId, userId);
+
+            var writes = new List<WriteModel<PlayerAnnotation>>
+            {
+                new UpdateManyModel<PlayerAnnotation>(
+                    mine & filter.Ne(a => a.PersonalRank, null) & filter.Nin(a => a.PlayerId, playerIds),
+                    update.Set(a => a.PersonalRank, null).Set(a => a.PersonalTier, null).Set(a => a.UpdatedAt, now))
+            };
+            writes.AddRange(entries.Select((entry, index) => new UpdateOneModel<PlayerAnnotation>(
+                mine & filter.Eq(a => a.PlayerId, entry.PlayerId),
+                update
+                    .Set(a => a.PersonalRank, index + 1)
+                    .Set(a => a.PersonalTier, entry.Tier)
+                    .Set(a => a.UpdatedAt, now))
+            {
+                IsUpsert = true
+            }));
+            await _annotations.BulkWriteAsync(writes);
+
+            // Players taken off the board may have had nothing else on them
+            await _annotations.DeleteManyAsync(mine
+                & filter.Eq(a => a.PersonalRank, null)
+                & filter.Eq(a => a.IsHighlighted, false)
+                & filter.Eq(a => a.StarsRating, null)
+                & filter.In(a => a.Notes, new[] { null, string.Empty }));
+
+            _logger.LogInformation("Saved a big board of {Count} players for account {UserId}", entries.Count, userId);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error saving the big board for account {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Starts the signed-in account's big board over with a ranking source's top players, all in one tier
+    /// </summary>
+    /// <returns>The new board</returns>
+    /// <exception cref="InvalidOperationException">Thrown when nobody is signed in or no players are ranked by the source</exception>
+    public async Task<List<BigBoardPlayer>> SeedBigBoardAsync(RankingSource source, int count)
+    {
+        try
+        {
+            var rankField = $"Rank.{source}";
+            var playerIds = source == RankingSource.VALUE
+                ? (await _playerLeagueValueService.GetValueRankingAsync()).Take(count).ToList()
+                : await _context.Players
+                    .Find(Builders<Player>.Filter.Exists(rankField))
+                    .Sort(Builders<Player>.Sort.Ascending(rankField))
+                    .Limit(count)
+                    .Project(p => p.Id!)
+                    .ToListAsync();
+            if (playerIds.Count == 0)
+                throw new InvalidOperationException($"No players are ranked by {source}");
+
+            await SaveBigBoardAsync(playerIds.Select(id => new BigBoardEntry { PlayerId = id }).ToList());
+            return await GetBigBoardAsync();
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error seeding the big board from {Source}", source);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Gets the notes others in the league have shared on a player, newest first
+    /// </summary>
+    public async Task<List<SharedPlayerNote>> GetSharedNotesAsync(string playerId)
+    {
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            var userId = _userContext.UserId;
+            var shared = await _annotations
+                .Find(a => a.LeagueId == leagueId && a.PlayerId == playerId && a.IsNoteShared && a.UserId != userId)
+                .SortByDescending(a => a.UpdatedAt)
+                .ToListAsync();
+            shared = shared.Where(a => !string.IsNullOrWhiteSpace(a.Notes)).ToList();
+            if (shared.Count == 0) return new List<SharedPlayerNote>();
+
+            var userIds = shared.Select(a => a.UserId).ToList();
+            var usernames = (await _context.Users.Find(u => userIds.Contains(u.Id!)).ToListAsync())
+                .ToDictionary(u => u.Id!, u => u.Username);
+            var managerNames = (await _context.Managers.Find(m => m.LeagueId == leagueId && userIds.Contains(m.UserId!)).ToListAsync())
+                .ToDictionary(m => m.UserId!, m => m.Name);
+
+            return shared.Select(a => new SharedPlayerNote
+            {
+                UserId = a.UserId,
+                Username = usernames.GetValueOrDefault(a.UserId) ?? "[Deleted Account]",
+                ManagerName = managerNames.GetValueOrDefault(a.UserId),
+                Notes = a.Notes!,
+                UpdatedAt = a.UpdatedAt
+            }).ToList();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving shared notes for player {PlayerId}", playerId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Flips whether the signed-in account has the player highlighted
+    /// </summary>
+    /// <returns>The updated annotation</returns>
+    /// <exception cref="InvalidOperationException">Thrown when nobody is signed in</exception>
+    public async Task<PlayerAnnotation> ToggleHighlightAsync(string playerId)
+    {
+        try
+        {
+            var annotation = await GetOrNewAsync(playerId);
+            annotation.IsHighlighted = !annotation.IsHighlighted;
+            return await SaveAsync(annotation);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error toggling highlight on player {PlayerId}", playerId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Sets the signed-in account's notes, stars and personal rank on a player; the highlight is kept
+    /// </summary>
+    /// <returns>The updated annotation</returns>
+    /// <exception cref="InvalidOperationException">Thrown when nobody is signed in</exception>
+    public async Task<PlayerAnnotation> UpdateAsync(string playerId, UpdatePlayerAnnotationRequest request)
+    {
+        try
+        {
+            var annotation = await GetOrNewAsync(playerId);
+            annotation.Notes = string.IsNullOrWhiteSpace(request.Notes) ? null : request.Notes;
+            annotation.PersonalRank = request.PersonalRank;
+            if (request.PersonalRank == null) annotation.PersonalTier = null;
+            annotation.StarsRating = request.StarsRating;
+            annotation.IsNoteShared = request.IsNoteShared;
+            return await SaveAsync(annotation);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error updating annotation on player {PlayerId}", playerId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Removes every annotation on a player, e.g. when the player is deleted
+    /// </summary>
+    public async Task DeleteForPlayerAsync(string playerId)
+    {
+        try
+        {
+            await _annotations.DeleteManyAsync(a => a.PlayerId == playerId);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting annotations on player {PlayerId}", playerId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Removes every annotation, for when all players are deleted
+    /// </summary>
+    public async Task DeleteAllAsync()
+    {
+        try
+        {
+            await _annotations.DeleteManyAsync(_ => true);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting player annotations");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Moves highlights, notes, stars and personal ranks still stored on players to the oldest commissioner
+    /// in the default league, then removes them from the players
+    /// </summary>
+    /// <remarks>
+    /// Does nothing until a commissioner account exists; runs at startup and again when the first account is created.
+    /// </remarks>
+    /// <returns>The number of players whose annotations were moved</returns>
+    public async Task<int> AdoptLegacyAnnotationsAsync()
+    {
+        try
+        {
+            var owner = await _context.Users.Find(u => u.Role == UserRole.Commissioner)
+                .SortBy(u => u.CreatedAt)
+                .FirstOrDefaultAsync();
+            var leagueId = _leagueContext.DefaultLeagueId;
+            if (owner == null || leagueId == null) return 0;
+
+            var players = _context.Database.GetCollection<BsonDocument>("players");
+            var filter = Builders<BsonDocument>.Filter;
+
+            // Once the fields have been removed there's nothing left to move
+            var hasLegacyFields = filter.Or(LegacyFields.Select(f => filter.Exists(f)));
+            if (!await players.Find(hasLegacyFields).AnyAsync()) return 0;
+
+            // Only players with something worth keeping; blank notes and unset ranks are just removed
+            var annotated = await players.Find(filter.Or(
+                filter.Eq("IsHighlighted", true),
+                filter.Regex("Notes", new BsonRegularExpression(@"\S")),
+                filter.Type("PersonalRank", "number"),
+                filter.Type("StarsRating", "number"))).ToListAsync();
+
+            var adopted = 0;
+            foreach (var player in annotated)
+            {
+                var playerId = player["_id"].AsObjectId.ToString();
+                if (await _annotations.Find(a => a.LeagueId == leagueId && a.UserId == owner.Id && a.PlayerId == playerId).AnyAsync())
+                    continue;
+
+                var annotation = new PlayerAnnotation
+                {
+                    LeagueId = leagueId,
+                    UserId = owner.Id!,
+                    PlayerId = playerId,
+                    IsHighlighted = player.GetValue("IsHighlighted", false).ToBoolean(),
+                    Notes = player.GetValue("Notes", BsonNull.Value) is { IsString: true } notes ? notes.AsString : null,
+                    PersonalRank = player.GetValue("PersonalRank", BsonNull.Value) is { IsNumeric: true } rank ? rank.ToInt32() : null,
+                    StarsRating = player.GetValue("StarsRating", BsonNull.Value) is { IsBsonNull: false } stars ? stars.ToDecimal() : null,
+                    UpdatedAt = DateTime.UtcNow
+                };
+                if (!IsEmpty(annotation))
+                {
+                    await _annotations.InsertOneAsync(annotation);
+                    adopted++;
+                }
+            }
+
+            await players.UpdateManyAsync(
+                hasLegacyFields,
+                Builders<BsonDocument>.Update.Combine(LegacyFields.Select(f => Builders<BsonDocument>.Update.Unset(f))));
+
+            if (adopted > 0)
+            {
+                _logger.LogInformation("Moved annotations on {Count} players to {Username}", adopted, owner.Username);
+            }
+            return adopted;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error moving player annotations off players");
+            throw;
+        }
+    }
+
+    private async Task<PlayerAnnotation> GetOrNewAsync(string playerId)
+    {
+        var userId = _userContext.UserId ?? throw new InvalidOperationException("Sign in to annotate players");
+        var leagueId = _leagueContext.LeagueId;
+        return await _annotations.Find(a => a.LeagueId == leagueId && a.UserId == userId && a.PlayerId == playerId).FirstOrDefaultAsync()
+            ?? new PlayerAnnotation { LeagueId = leagueId, UserId = userId, PlayerId = playerId };
+    }
+
+    // Annotations with nothing left in them are removed rather than kept around empty
+    private async Task<PlayerAnnotation> SaveAsync(PlayerAnnotation annotation)
+    {
+        annotation.UpdatedAt = DateTime.UtcNow;
+        if (IsEmpty(annotation))
+        {
+            if (annotation.Id != null)
+                await _annotations.DeleteOneAsync(a => a.Id == annotation.Id);
+        }
+        else if (annotation.Id == null)
+        {
+            await _annotations.InsertOneAsync(annotation);
+        }
+        else
+        {
+            await _annotations.ReplaceOneAsync(a => a.Id == annotation.Id, annotation);
+        }
+        return annotation;
+    }
+
+    private static bool IsEmpty(PlayerAnnotation annotation) =>
+        !annotation.IsHighlighted
+        && string.IsNullOrWhiteSpace(annotation.Notes)
+        && annotation.PersonalRank == null
+        && annotation.StarsRating == null;
+}
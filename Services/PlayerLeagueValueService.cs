@@ -0,0 +1,252 @@
+using MongoDB.Bson;
+using MongoDB.Bson.Serialization;
+using MongoDB.Driver;
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Keeps each league's values for players: league values from its scoring settings and its latest valuation run
+/// </summary>
+/// <remarks>
+/// Players are shared by every league, so these are stored apart from them and merged into players as they're
+/// read for the current league. A valuation's rank is merged in as the player's VALUE ranking.
+/// <see cref="AdoptLegacyValuesAsync"/> moves any values still stored on players to the default league.
+/// </remarks>
+public class PlayerLeagueValueService
+{
+    private static readonly string[] LegacyFields = { "LeagueValue", "Valuation", $"Rank.{RankingSource.VALUE}" };
+
+    private readonly MongoDbContext _context;
+    private readonly IMongoCollection<PlayerLeagueValue> _values;
+    private readonly LeagueContext _leagueContext;
+    private readonly ILogger<PlayerLeagueValueService> _logger;
+
+    public PlayerLeagueValueService(
+        MongoDbContext context,
+        LeagueContext leagueContext,
+        ILogger<PlayerLeagueValueService> logger)
+    {
+        _context = context;
+        _values = context.PlayerLeagueValues;
+        _leagueContext = leagueContext;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Fills in players' league values, valuations and VALUE ranks for the current league
+    /// </summary>
+    public async Task ApplyAsync(IReadOnlyCollection<Player> players)
+    {
+        if (players.Count == 0) return;
+
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            var playerIds = players.Where(p => p.Id != null).Select(p => p.Id!).ToList();
+            var values = (await _values
+                .Find(v => v.LeagueId == leagueId && playerIds.Contains(v.PlayerId))
+                .ToListAsync())
+                .ToDictionary(v => v.PlayerId);
+
+            foreach (var player in players)
+            {
+                Apply(player, player.Id != null ? values.GetValueOrDefault(player.Id) : null);
+            }
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error merging league values into {Count} players", players.Count);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Gets the IDs of the players the current league's last valuation run ranked, best first
+    /// </summary>
+    public async Task<List<string>> GetValueRankingAsync()
+    {
+        var leagueId = _leagueContext.LeagueId;
+        return await _values
+            .Find(v => v.LeagueId == leagueId && v.Valuation != null)
+            .SortBy(v => v.Valuation!.Rank)
+            .Project(v => v.PlayerId)
+            .ToListAsync();
+    }
+
+    /// <summary>
+    /// Gets the IDs of the players with a league value in the current league, lowest value first
+    /// </summary>
+    public async Task<List<string>> GetLeagueValueOrderAsync()
+    {
+        var leagueId = _leagueContext.LeagueId;
+        return await _values
+            .Find(v => v.LeagueId == leagueId && v.LeagueValue != null)
+            .SortBy(v => v.LeagueValue)
+            .Project(v => v.PlayerId)
+            .ToListAsync();
+    }
+
+    /// <summary>
+    /// Saves each player's league value in the current league, clearing it for players without one
+    /// </summary>
+    /// <param name="values">League value by player ID</param>
+    /// <returns>The number of players whose value changed</returns>
+    public async Task<long> SaveLeagueValuesAsync(Dictionary<string, double?> values)
+    {
+        if (values.Count == 0) return 0;
+
+        var leagueId = _leagueContext.LeagueId;
+        var updates = values.Select(kv => new UpdateOneModel<PlayerLeagueValue>(
+            Builders<PlayerLeagueValue>.Filter.Where(v => v.LeagueId == leagueId && v.PlayerId == kv.Key),
+            Builders<PlayerLeagueValue>.Update.Set(v => v.LeagueValue, kv.Value))
+        {
+            // Players without a value only need clearing where they had one
+            IsUpsert = kv.Value.HasValue
+        });
+
+        var result = await _values.BulkWriteAsync(updates, new BulkWriteOptions { IsOrdered = false });
+        await DeleteEmptyAsync(leagueId);
+        return result.ModifiedCount + result.Upserts.Count;
+    }
+
+    /// <summary>
+    /// Replaces the current league's valuations with the results of a new run
+    /// </summary>
+    /// <remarks>
+    /// Clears the previous run first, so anyone who has lost their projection drops out.
+    /// </remarks>
+    /// <param name="valuations">Valuation by player ID</param>
+    public async Task ReplaceValuationsAsync(Dictionary<string, PlayerValuation> valuations)
+    {
+        var leagueId = _leagueContext.LeagueId;
+        await _values.UpdateManyAsync(
+            v => v.LeagueId == leagueId && v.Valuation != null,
+            Builders<PlayerLeagueValue>.Update.Unset(v => v.Valuation));
+
+        if (valuations.Count > 0)
+        {
+            var updates = valuations.Select(kv => new UpdateOneModel<PlayerLeagueValue>(
+                Builders<PlayerLeagueValue>.Filter.Where(v => v.LeagueId == leagueId && v.PlayerId == kv.Key),
+                Builders<PlayerLeagueValue>.Update.Set(v => v.Valuation, kv.Value))
+            {
+                IsUpsert = true
+            });
+            await _values.BulkWriteAsync(updates, new BulkWriteOptions { IsOrdered = false });
+        }
+
+        await DeleteEmptyAsync(leagueId);
+    }
+
+    /// <summary>
+    /// Removes a player's values in every league, for when the player is deleted
+    /// </summary>
+    public async Task DeleteForPlayerAsync(string playerId)
+    {
+        try
+        {
+            await _values.DeleteManyAsync(v => v.PlayerId == playerId);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting league values for player {PlayerId}", playerId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Removes every league's player values, for when all players are deleted
+    /// </summary>
+    public async Task DeleteAllAsync()
+    {
+        try
+        {
+            await _values.DeleteManyAsync(_ => true);
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error deleting player league values");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Moves league values and valuations still stored on players to the default league, then removes them
+    /// from the players
+    /// </summary>
+    /// <remarks>
+    /// Runs at startup; values the default league already has are kept over the ones on the player.
+    /// </remarks>
+    /// <returns>The number of players whose values were moved</returns>
+    public async Task<int> AdoptLegacyValuesAsync()
+    {
+        try
+        {
+            var leagueId = _leagueContext.DefaultLeagueId;
+            if (leagueId == null) return 0;
+
+            var players = _context.Database.GetCollection<BsonDocument>("players");
+            var filter = Builders<BsonDocument>.Filter;
+            var hasLegacyFields = filter.Or(LegacyFields.Select(f => filter.Exists(f)));
+            var legacy = await players.Find(hasLegacyFields).ToListAsync();
+            if (legacy.Count == 0) return 0;
+
+            var updates = new List<WriteModel<PlayerLeagueValue>>();
+            foreach (var player in legacy)
+            {
+                var leagueValue = player.GetValue("LeagueValue", BsonNull.Value) is { IsNumeric: true } value ? value.ToDouble() : (double?)null;
+                var valuation = player.GetValue("Valuation", BsonNull.Value) is { IsBsonDocument: true } stored
+                    ? BsonSerializer.Deserialize<PlayerValuation>(stored.AsBsonDocument)
+                    : null;
+                if (leagueValue == null && valuation == null) continue;
+
+                var playerId = player["_id"].AsObjectId.ToString();
+                updates.Add(new UpdateOneModel<PlayerLeagueValue>(
+                    Builders<PlayerLeagueValue>.Filter.Where(v => v.LeagueId == leagueId && v.PlayerId == playerId),
+                    Builders<PlayerLeagueValue>.Update
+                        .SetOnInsert(v => v.LeagueValue, leagueValue)
+                        .SetOnInsert(v => v.Valuation, valuation))
+                {
+                    IsUpsert = true
+                });
+            }
+
+            if (updates.Count > 0)
+            {
+                await _values.BulkWriteAsync(updates, new BulkWriteOptions { IsOrdered = false });
+            }
+            await players.UpdateManyAsync(
+                hasLegacyFields,
+                Builders<BsonDocument>.Update.Combine(LegacyFields.Select(f => Builders<BsonDocument>.Update.Unset(f))));
+
+            if (updates.Count > 0)
+            {
+                _logger.LogInformation("Moved league values on {Count} players to the default league", updates.Count);
+            }
+            return updates.Count;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error moving league values off players");
+            throw;
+        }
+    }
+
+    private static void Apply(Player player, PlayerLeagueValue? value)
+    {
+        player.LeagueValue = value?.LeagueValue;
+        player.Valuation = value?.Valuation;
+
+        // Players are read fresh for each league, but never let another league's VALUE rank carry over
+        player.Rank?.Remove(RankingSource.VALUE);
+        if (value?.Valuation != null)
+        {
+            player.Rank ??= new Dictionary<RankingSource, int>();
+            player.Rank[RankingSource.VALUE] = value.Valuation.Rank;
+        }
+    }
+
+    // Players left with neither a league value nor a valuation aren't worth keeping a document for
+    private async Task DeleteEmptyAsync(string? leagueId) =>
+        await _values.DeleteManyAsync(v => v.LeagueId == leagueId && v.LeagueValue == null && v.Valuation == null);
+}
@@ -13,6 +13,8 @@ namespace DraftEngine.Services
         private readonly IMlbApiService _mlbApiService;
         private readonly DraftService _draftService;
         private readonly LeagueSettingsService _leagueSettings;
+        private readonly ManagerService _managerService;
+        private readonly PlayerLeagueValueService _playerLeagueValueService;
         private readonly ILogger<PlayerService> _logger;
 
         public PlayerService(
@@ -20,18 +22,30 @@ namespace DraftEngine.Services
             IMlbApiService mlbApiService,
             DraftService draftService,
             LeagueSettingsService leagueSettings,
+            ManagerService managerService,
+            PlayerLeagueValueService playerLeagueValueService,
             ILogger<PlayerService> logger)
         {
             _players = context.Players;
             _mlbApiService = mlbApiService;
             _draftService = draftService;
             _leagueSettings = leagueSettings;
+            _managerService = managerService;
+            _playerLeagueValueService = playerLeagueValueService;
             _logger = logger;
         }
 
         private async Task<string[]> DeterminePositions(Dictionary<string, int> positionStats)
         {
             var settings = await _leagueSettings.GetSettingsAsync();
+            return DeterminePositions(positionStats, settings.MinGamesForPosition);
+        }
+
+        /// <summary>
+        /// Maps one season's games-by-position to the positions a player qualifies at
+        /// </summary>
+        public static string[] DeterminePositions(Dictionary<string, int> positionStats, int minGamesForPosition)
+        {
             var positions = new HashSet<string>();
 
             // Always add pitcher if they have any pitching appearances
@@ -44,7 +58,7 @@ namespace DraftEngine.Services
             foreach (var (pos, games) in positionStats)
             {
                 if (pos == "1") continue; // Skip pitcher as it's already handled
-                if (games >= settings.MinGamesForPosition)
+                if (games >= minGamesForPosition)
                 {
                     switch (pos)
                     {
@@ -78,12 +92,46 @@ namespace DraftEngine.Services
             return positions.ToArray();
         }
 
+        // League values and valuations are kept per league and merged into players as they're read
+        private async Task<List<Player>> WithLeagueValuesAsync(List<Player> players)
+        {
+            await _playerLeagueValueService.ApplyAsync(players);
+            return players;
+        }
+
+        private async Task<Player?> WithLeagueValuesAsync(Player? player)
+        {
+            if (player != null)
+                await _playerLeagueValueService.ApplyAsync(new[] { player });
+            return player;
+        }
+
         // Basic CRUD operations
         public async Task<List<Player>> GetAsync() =>
-            await _players.Find(player => true).ToListAsync();
+            await WithLeagueValuesAsync(await _players.Find(player => true).ToListAsync());
 
         public async Task<Player?> GetAsync(string id) =>
-            await _players.Find(player => player.Id == id).FirstOrDefaultAsync();
+            await WithLeagueValuesAsync(await _players.Find(player => player.Id == id).FirstOrDefaultAsync());
+
+        /// <summary>
+        /// Gets the players with the given IDs, in the order the IDs were given
+        /// </summary>
+        /// <remarks>
+        /// IDs that don't match a player are skipped.
+        /// </remarks>
+        /// <param name="ids">The player IDs to look up</param>
+        /// <returns>The matching players</returns>
+        public async Task<List<Player>> GetByIdsAsync(IEnumerable<string> ids)
+        {
+            var idList = ids.ToList();
+            var players = await WithLeagueValuesAsync(await _players.Find(Builders<Player>.Filter.In(p => p.Id, idList)).ToListAsync());
+            var byId = players.ToDictionary(p => p.Id!);
+
+            return idList
+                .Where(byId.ContainsKey)
+                .Select(id => byId[id])
+                .ToList();
+        }
 
         private async Task<Player?> FindDuplicateAsync(Player player)
         {
@@ -187,7 +235,6 @@ namespace DraftEngine.Services
             if (newData.MLBTeam != null) existing.MLBTeam = newData.MLBTeam;
             if (newData.Level != null) existing.Level = newData.Level;
             if (newData.ETA != null) existing.ETA = newData.ETA;
-            if (newData.Notes != null) existing.Notes = newData.Notes;
 
             // Merge dictionary fields
             MergeDictionary(existing.Rank as Dictionary<RankingSource, int>, newData.Rank as Dictionary<RankingSource, int>);
@@ -227,21 +274,28 @@ namespace DraftEngine.Services
         public async Task UpdateAsync(string id, Player updatedPlayer) =>
             await _players.ReplaceOneAsync(player => player.Id == id, updatedPlayer);
 
-        public async Task RemoveAsync(string id) =>
+        public async Task RemoveAsync(string id)
+        {
             await _players.DeleteOneAsync(player => player.Id == id);
+            await _playerLeagueValueService.DeleteForPlayerAsync(id);
+        }
 
-        public async Task<long> DeleteAllAsync() =>
-            (await _players.DeleteManyAsync(player => true)).DeletedCount;
+        public async Task<long> DeleteAllAsync()
+        {
+            var deleted = (await _players.DeleteManyAsync(player => true)).DeletedCount;
+            await _playerLeagueValueService.DeleteAllAsync();
+            return deleted;
+        }
 
         // Player filtering methods
         public async Task<List<Player>> GetByLevelAsync(string level) =>
-            await _players.Find(player => player.Level == level).ToListAsync();
+            await WithLeagueValuesAsync(await _players.Find(player => player.Level == level).ToListAsync());
 
         public async Task<List<Player>> GetByTeamAsync(string team) =>
-            await _players.Find(player => player.MLBTeam == team).ToListAsync();
+            await WithLeagueValuesAsync(await _players.Find(player => player.MLBTeam == team).ToListAsync());
 
         public async Task<List<Player>> GetByPositionAsync(string position) =>
-            await _players.Find(player => player.Position != null && player.Position.Contains(position)).ToListAsync();
+            await WithLeagueValuesAsync(await _players.Find(player => player.Position != null && player.Position.Contains(position)).ToListAsync());
 
         public async Task<List<Player>> GetUndraftedPlayersAsync()
         {
@@ -257,12 +311,9 @@ namespace DraftEngine.Services
                     )
                 )
             );
-            return await _players.Find(filter).ToListAsync();
+            return await WithLeagueValuesAsync(await _players.Find(filter).ToListAsync());
         }
 
-        public async Task<List<Player>> GetHighlightedPlayersAsync() =>
-            await _players.Find(player => player.IsHighlighted).ToListAsync();
-
         public async Task<BirthDateVerificationResult> VerifyBirthDatesAsync(bool includeExisting)
         {
             var result = new BirthDateVerificationResult();
@@ -451,6 +502,7 @@ namespace DraftEngine.Services
         /// - Adds a new draft status entry with draft details
         /// - Removes any existing status for this draft
         /// - Sets the player's drafted state
+        /// - Removes the player from every manager's queue
         /// 
         /// Draft Status Updates:
         /// - Draft ID from active draft
@@ -493,7 +545,9 @@ namespace DraftEngine.Services
                 Round = request.Round,
                 Pick = request.Pick,
                 OverallPick = request.OverallPick,
-                ManagerId = request.DraftedBy
+                ManagerId = request.DraftedBy,
+                IsKeeper = request.IsKeeper,
+                Price = request.Price
             };
 
             // First remove any existing status for this draft
@@ -512,6 +566,17 @@ namespace DraftEngine.Services
                 _logger.LogInformation(
                     "Marked player {PlayerId} as drafted in round {Round} pick {Pick} ({OverallPick} overall) by manager {ManagerId}", 
                     id, request.Round, request.Pick, request.OverallPick, request.DraftedBy);
+
+                try
+                {
+                    await _managerService.RemoveFromAllQueuesAsync(id);
+                }
+                catch (Exception ex)
+                {
+                    // A stale queue entry shouldn't undo a pick that already went through
+                    _logger.LogWarning(ex, "Failed to remove drafted player {PlayerId} from manager queues", id);
+                }
+
                 return true;
             }
             
@@ -557,35 +622,35 @@ namespace DraftEngine.Services
             return false;
         }
 
-        // Personal tracking methods
-        public async Task<bool> ToggleHighlightAsync(string id)
-        {
-            var player = await GetAsync(id);
-            if (player == null) return false;
-
-            var update = Builders<Player>.Update
-                .Set(p => p.IsHighlighted, !player.IsHighlighted);
-
-            var result = await _players.UpdateOneAsync(p => p.Id == id, update);
-            return result.ModifiedCount > 0;
-        }
-
-        public async Task<bool> UpdateNotesAsync(string id, string notes)
+        /// <summary>
+        /// Moves a drafted player to another manager's roster, as when they are traded
+        /// </summary>
+        /// <remarks>
+        /// Only the manager on the player's draft status changes; the round and pick they were
+        /// drafted with stay as they were.
+        /// </remarks>
+        /// <param name="id">The ID of the drafted player</param>
+        /// <param name="draftId">The draft the player was drafted in</param>
+        /// <param name="managerId">The manager receiving the player</param>
+        /// <returns>True if the player's manager was changed, false otherwise</returns>
+        public async Task<bool> UpdateDraftManagerAsync(string id, string draftId, string managerId)
         {
+            var filter = Builders<Player>.Filter.And(
+                Builders<Player>.Filter.Eq(p => p.Id, id),
+                Builders<Player>.Filter.ElemMatch(p => p.DraftStatuses, ds => ds.DraftId == draftId && ds.IsDrafted));
             var update = Builders<Player>.Update
-                .Set(p => p.Notes, notes);
+                .Set("DraftStatuses.$.ManagerId", managerId);
 
-            var result = await _players.UpdateOneAsync(player => player.Id == id, update);
-            return result.ModifiedCount > 0;
-        }
+            var result = await _players.UpdateOneAsync(filter, update);
 
-        public async Task<bool> UpdatePersonalRankAsync(string id, int rank)
-        {
-            var update = Builders<Player>.Update
-                .Set(p => p.PersonalRank, rank);
+            if (result.ModifiedCount > 0)
+            {
+                _logger.LogInformation("Moved player {PlayerId} to manager {ManagerId} in draft {DraftId}", id, managerId, draftId);
+                return true;
+            }
 
-            var result = await _players.UpdateOneAsync(player => player.Id == id, update);
-            return result.ModifiedCount > 0;
+            _logger.LogWarning("Failed to move player {PlayerId} to manager {ManagerId} in draft {DraftId}", id, managerId, draftId);
+            return false;
         }
 
         /// <summary>
@@ -594,12 +659,15 @@ namespace DraftEngine.Services
         /// <remarks>
         /// Removes all draft status entries for the active draft:
         /// - Affects all players that were drafted in this draft
+        /// - Keeps keepers unless told otherwise, since resetting a draft doesn't give them back
         /// - Preserves draft status entries for other drafts
         /// - Logs the operation for tracking
         /// - Used when resetting a draft to its initial state
         /// </remarks>
+        /// <param name="draftId">The draft to reset statuses for</param>
+        /// <param name="includeKeepers">Whether to remove keepers too, as when the draft itself is deleted</param>
         /// <returns>The number of players whose draft status was reset</returns>
-        public async Task<long> ResetDraftStatusAsync(string draftId)
+        public async Task<long> ResetDraftStatusAsync(string draftId, bool includeKeepers = false)
         {
             var draft = await _draftService.GetByIdAsync(draftId);
             if (draft == null)
@@ -608,14 +676,20 @@ namespace DraftEngine.Services
                 return 0;
             }
 
+            var statusFilter = Builders<DraftStatus>.Filter.Eq(ds => ds.DraftId, draftId);
+            if (!includeKeepers)
+            {
+                statusFilter &= Builders<DraftStatus>.Filter.Ne(ds => ds.IsKeeper, true);
+            }
+
             // Remove draft status for the specified draft from all players
             var update = Builders<Player>.Update
-                .PullFilter(p => p.DraftStatuses, ds => ds.DraftId == draftId);
+                .PullFilter(p => p.DraftStatuses, statusFilter);
 
             // Find all players with a draft status for this draft
             var filter = Builders<Player>.Filter.ElemMatch(
                 p => p.DraftStatuses,
-                ds => ds.DraftId == draftId
+                statusFilter
             );
 
             var result = await _players.UpdateManyAsync(filter, update);
@@ -633,16 +707,44 @@ namespace DraftEngine.Services
             return result.ModifiedCount;
         }
 
+        /// <summary>
+        /// Gets all players holding a draft status in the specified draft
+        /// </summary>
+        /// <returns>Players drafted in the draft</returns>
+        public async Task<List<Player>> GetDraftedInDraftAsync(string draftId)
+        {
+            var filter = Builders<Player>.Filter.ElemMatch(
+                p => p.DraftStatuses,
+                ds => ds.DraftId == draftId
+            );
+
+            return await WithLeagueValuesAsync(await _players.Find(filter).ToListAsync());
+        }
+
+        /// <summary>
+        /// Gets all players a manager has drafted, or since acquired, in any draft
+        /// </summary>
+        /// <returns>Players with at least one draft status held by the manager</returns>
+        public async Task<List<Player>> GetDraftedByManagerAsync(string managerId)
+        {
+            var filter = Builders<Player>.Filter.ElemMatch(
+                p => p.DraftStatuses,
+                ds => ds.ManagerId == managerId && ds.IsDrafted
+            );
+
+            return await WithLeagueValuesAsync(await _players.Find(filter).ToListAsync());
+        }
+
         // Advanced filtering
         public async Task<List<Player>> GetByAgeRangeAsync(int minAge, int maxAge)
         {
             var minDate = DateTime.Today.AddYears(-maxAge);
             var maxDate = DateTime.Today.AddYears(-minAge);
             
-            return await _players.Find(player => 
+            return await WithLeagueValuesAsync(await _players.Find(player => 
                 player.BirthDate >= minDate && 
                 player.BirthDate <= maxDate
-            ).ToListAsync();
+            ).ToListAsync());
         }
 
         /// <summary>
@@ -660,6 +762,10 @@ namespace DraftEngine.Services
             bool sortDescending = false)
         {
             filter ??= Builders<Player>.Filter.Empty;
+            var leagueOrder = await GetLeagueOrderAsync(sortField);
+            if (leagueOrder != null)
+                return await GetRankedResultAsync(filter, leagueOrder, pageNumber, pageSize, sortDescending);
+
             var findFluent = _players.Find(filter);
 
             // Apply sorting if specified
@@ -719,7 +825,7 @@ namespace DraftEngine.Services
 
             return new PaginatedResult<Player>
             {
-                Items = items,
+                Items = await WithLeagueValuesAsync(items),
                 TotalCount = (int)totalCount,
                 CurrentPage = pageNumber,
                 PageSize = pageSize
@@ -737,6 +843,10 @@ namespace DraftEngine.Services
             bool sortDescending = false)
         {
             var filter = Builders<Player>.Filter.Eq(p => p.Level, level);
+            var leagueOrder = await GetLeagueOrderAsync(sortField);
+            if (leagueOrder != null)
+                return await GetRankedResultAsync(filter, leagueOrder, pageNumber, pageSize, sortDescending);
+
             var findFluent = _players.Find(filter);
 
             // Apply sorting if specified
@@ -785,7 +895,7 @@ namespace DraftEngine.Services
 
             return new PaginatedResult<Player>
             {
-                Items = items,
+                Items = await WithLeagueValuesAsync(items),
                 TotalCount = (int)totalCount,
                 CurrentPage = pageNumber,
                 PageSize = pageSize
@@ -803,6 +913,10 @@ namespace DraftEngine.Services
             bool sortDescending = false)
         {
             var filter = Builders<Player>.Filter.Eq(p => p.MLBTeam, team);
+            var leagueOrder = await GetLeagueOrderAsync(sortField);
+            if (leagueOrder != null)
+                return await GetRankedResultAsync(filter, leagueOrder, pageNumber, pageSize, sortDescending);
+
             var findFluent = _players.Find(filter);
 
             // Apply sorting if specified
@@ -851,7 +965,7 @@ namespace DraftEngine.Services
 
             return new PaginatedResult<Player>
             {
-                Items = items,
+                Items = await WithLeagueValuesAsync(items),
                 TotalCount = (int)totalCount,
                 CurrentPage = pageNumber,
                 PageSize = pageSize
@@ -869,6 +983,10 @@ namespace DraftEngine.Services
             bool sortDescending = false)
         {
             var filter = Builders<Player>.Filter.AnyEq(p => p.Position, position);
+            var leagueOrder = await GetLeagueOrderAsync(sortField);
+            if (leagueOrder != null)
+                return await GetRankedResultAsync(filter, leagueOrder, pageNumber, pageSize, sortDescending);
+
             var findFluent = _players.Find(filter);
 
             // Apply sorting if specified
@@ -917,7 +1035,7 @@ namespace DraftEngine.Services
 
             return new PaginatedResult<Player>
             {
-                Items = items,
+                Items = await WithLeagueValuesAsync(items),
                 TotalCount = (int)totalCount,
                 CurrentPage = pageNumber,
                 PageSize = pageSize
@@ -952,6 +1070,10 @@ namespace DraftEngine.Services
                 )
             );
 
+            var leagueOrder = await GetLeagueOrderAsync(sortField);
+            if (leagueOrder != null)
+                return await GetRankedResultAsync(filter, leagueOrder, pageNumber, pageSize, sortDescending);
+
             var findFluent = _players.Find(filter);
 
             // Apply sorting if specified
@@ -1000,7 +1122,7 @@ namespace DraftEngine.Services
 
             return new PaginatedResult<Player>
             {
-                Items = items,
+                Items = await WithLeagueValuesAsync(items),
                 TotalCount = (int)totalCount,
                 CurrentPage = pageNumber,
                 PageSize = pageSize
@@ -1010,13 +1132,15 @@ namespace DraftEngine.Services
         /// <summary>
         /// Gets a paginated list of highlighted players
         /// </summary>
+        /// <param name="playerIds">The players highlighted by the signed-in account</param>
         public async Task<PaginatedResult<Player>> GetHighlightedPlayersPaginatedAsync(
+            IEnumerable<string> playerIds,
             int pageNumber = 1,
             int pageSize = 100,
             string sortField = null,
             bool sortDescending = false)
         {
-            var filter = Builders<Player>.Filter.Eq(p => p.IsHighlighted, true);
+            var filter = Builders<Player>.Filter.In(p => p.Id, playerIds);
             return await GetPaginatedAsync(pageNumber, pageSize, filter, sortField, sortDescending);
         }
 
@@ -1210,7 +1334,8 @@ namespace DraftEngine.Services
             int pageSize = 100,
             string mlbId = null,
             string sortField = null,
-            bool sortDescending = false)
+            bool sortDescending = false,
+            IReadOnlyList<string>? rankedPlayerIds = null)
         {
             var filters = new List<FilterDefinition<Player>>();
             
@@ -1351,6 +1476,10 @@ namespace DraftEngine.Services
                 ? Builders<Player>.Filter.And(filters)
                 : Builders<Player>.Filter.Empty;
 
+            rankedPlayerIds ??= await GetLeagueOrderAsync(sortField);
+            if (rankedPlayerIds != null)
+                return await GetRankedResultAsync(filter, rankedPlayerIds, pageNumber, pageSize, sortDescending);
+
             var totalCount = await _players.CountDocumentsAsync(filter);
             var skip = (pageNumber - 1) * pageSize;
 
@@ -1399,11 +1528,74 @@ namespace DraftEngine.Services
 
             return new PaginatedResult<Player>
             {
-                Items = items,
+                Items = await WithLeagueValuesAsync(items),
                 TotalCount = (int)totalCount,
                 CurrentPage = pageNumber,
                 PageSize = pageSize
             };
         }
+
+        // League values and VALUE ranks aren't stored on players, so sorting by them pages through the league's order
+        private async Task<IReadOnlyList<string>?> GetLeagueOrderAsync(string? sortField)
+        {
+            if (sortField == "leagueValue")
+                return await _playerLeagueValueService.GetLeagueValueOrderAsync();
+            if (string.Equals(sortField, $"Rank.{RankingSource.VALUE}", StringComparison.OrdinalIgnoreCase))
+                return await _playerLeagueValueService.GetValueRankingAsync();
+            return null;
+        }
+
+        private async Task<PaginatedResult<Player>> GetRankedResultAsync(
+            FilterDefinition<Player> filter,
+            IReadOnlyList<string> rankedPlayerIds,
+            int pageNumber,
+            int pageSize,
+            bool sortDescending)
+        {
+            var totalCount = await _players.CountDocumentsAsync(filter);
+            var skip = (pageNumber - 1) * pageSize;
+
+            return new PaginatedResult<Player>
+            {
+                Items = await WithLeagueValuesAsync(await GetRankedPageAsync(filter, rankedPlayerIds, skip, pageSize, sortDescending)),
+                TotalCount = (int)totalCount,
+                CurrentPage = pageNumber,
+                PageSize = pageSize
+            };
+        }
+
+        // Pages through matching players in a ranking kept outside the players (an account's big board or the
+        // league's values), with everyone the ranking leaves out following by name
+        private async Task<List<Player>> GetRankedPageAsync(
+            FilterDefinition<Player> filter,
+            IReadOnlyList<string> rankedPlayerIds,
+            int skip,
+            int pageSize,
+            bool sortDescending)
+        {
+            var matching = (await _players
+                .Find(filter & Builders<Player>.Filter.In(p => p.Id, rankedPlayerIds))
+                .Project(p => p.Id!)
+                .ToListAsync())
+                .ToHashSet();
+            var ranked = rankedPlayerIds.Where(matching.Contains).ToList();
+            if (sortDescending) ranked.Reverse();
+
+            var pageIds = ranked.Skip(skip).Take(pageSize).ToList();
+            var page = (await _players.Find(Builders<Player>.Filter.In(p => p.Id, pageIds)).ToListAsync())
+                .OrderBy(p => pageIds.IndexOf(p.Id!))
+                .ToList();
+
+            if (page.Count < pageSize)
+            {
+                page.AddRange(await _players
+                    .Find(filter & Builders<Player>.Filter.Nin(p => p.Id, rankedPlayerIds))
+                    .Sort(Builders<Player>.Sort.Ascending("Name"))
+                    .Skip(Math.Max(0, skip - ranked.Count))
+                    .Limit(pageSize - page.Count)
+                    .ToListAsync());
+            }
+            return page;
+        }
     }
 }
@@ -0,0 +1,376 @@
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+public class RecommendationService
+{
+    // How much each kind of input counts toward the composite score
+    private const double RankingWeight = 0.45;
+    private const double ProspectWeight = 0.2;
+    private const double ProjectionWeight = 0.2;
+    private const double PersonalWeight = 0.15;
+
+    // Boost for filling a position with no one at it yet, and the nudge down once a player's positions are covered
+    private const double MaxNeedBoost = 0.15;
+    private const double CoveredPenalty = 0.05;
+
+    private const int MaxCount = 50;
+
+    // Lineup slots that call for a specific position; UTIL and bench slots take anyone
+    private static readonly HashSet<string> FieldingPositions = new() { "C", "1B", "2B", "3B", "SS", "OF" };
+    private static readonly HashSet<string> PitchingSlots = new() { "SP", "RP", "P" };
+
+    private static readonly HashSet<string> LowerIsBetterCategories = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "ERA", "WHIP", "BB/9", "HR/9"
+    };
+
+    private readonly DraftService _draftService;
+    private readonly PlayerService _playerService;
+    private readonly LeagueSettingsService _leagueSettings;
+    private readonly PlayerAnnotationService _playerAnnotationService;
+    private readonly ILogger<RecommendationService> _logger;
+
+    public RecommendationService(
+        DraftService draftService,
+        PlayerService playerService,
+        LeagueSettingsService leagueSettings,
+        PlayerAnnotationService playerAnnotationService,
+        ILogger<RecommendationService> logger)
+    {
+        _draftService = draftService;
+        _playerService = playerService;
+        _leagueSettings = leagueSettings;
+        _playerAnnotationService = playerAnnotationService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Ranks the best available players for the active pick of the active draft
+    /// </summary>
+    /// <param name="request">Which sources to blend and who the pick is for</param>
+    /// <returns>The top players by composite score, adjusted for the manager's roster needs</returns>
+    /// <exception cref="InvalidOperationException">Thrown when there is no active draft</exception>
+    public async Task<RecommendationResult> GetRecommendationsAsync(RecommendationRequest request)
+    {
+        try
+        {
+            var draft = await _draftService.GetActiveDraftAsync()
+                ?? throw new InvalidOperationException("No active draft found");
+
+            var managerId = request.ManagerId;
+            if (string.IsNullOrEmpty(managerId))
+            {
+                var activePick = draft.Rounds
+                    .SelectMany(r => r.Picks)
+                    .FirstOrDefault(p => p.OverallPickNumber == draft.ActiveOverallPick);
+                managerId = activePick == null ? null
+                    : activePick.TradedTo.Any() ? activePick.TradedTo.Last() : activePick.ManagerId;
+            }
+
+            var settings = await _leagueSettings.GetSettingsAsync();
+            var available = await _playerService.GetUndraftedPlayersAsync();
+
+            var targets = GetPositionTargets(settings);
+            var openPositions = new Dictionary<string, int>(targets);
+            if (!string.IsNullOrEmpty(managerId))
+            {
+                var drafted = await _playerService.GetDraftedInDraftAsync(draft.Id!);
+                var roster = drafted.Where(p => p.DraftStatuses?.Any(ds =>
+                    ds.DraftId == draft.Id && ds.IsDrafted && ds.ManagerId == managerId) == true);
+                openPositions = GetOpenPositions(roster, targets, settings.MinGamesForPosition);
+            }
+
+            var rankingSources = request.RankingSources is { Count: > 0 }
+                ? request.RankingSources.Distinct().ToList()
+                : Enum.GetValues<RankingSource>().ToList();
+
+            var rankScales = rankingSources.ToDictionary(
+                source => source,
+                source => RankScale.For(available.Select(p => GetValue(p.Rank, source))));
+            var prospectScale = request.ProspectSource is { } prospectSource
+                ? RankScale.For(available.Select(p => GetValue(p.ProspectRank, prospectSource)))
+                : null;
+            var hasProjection = !string.IsNullOrEmpty(request.ProjectionSource) && !string.IsNullOrEmpty(request.ProjectionCategory);
+            var projectionScale = hasProjection
+                ? ValueScale.For(available.Select(p => GetProjection(p, request.ProjectionSource!, request.ProjectionCategory!)))
+                : null;
+            // Personal ranks are the signed-in account's own
+            var personalRanks = request.IncludePersonalRank
+                ? (await _playerAnnotationService.GetMineAsync())
+                    .Where(a => a.PersonalRank != null)
+                    .ToDictionary(a => a.PlayerId, a => a.PersonalRank!.Value)
+                : new Dictionary<string, int>();
+            var personalScale = request.IncludePersonalRank
+                ? RankScale.For(available.Select(p => p.Id != null && personalRanks.TryGetValue(p.Id, out var rank) ? rank : (int?)null))
+                : null;
+            var lowerIsBetter = hasProjection && LowerIsBetterCategories.Contains(request.ProjectionCategory!);
+
+            var recommendations = new List<PlayerRecommendation>();
+            foreach (var player in available)
+            {
+                var recommendation = new PlayerRecommendation
+                {
+                    Player = player,
+                    EligiblePositions = GetEligiblePositions(player, targets, settings.MinGamesForPosition)
+                };
+                var weightedTotal = 0.0;
+                var weightUsed = 0.0;
+
+                // Ranking sources share one weight so adding a source doesn't drown out the rest
+                var rankScores = new List<double>();
+                foreach (var source in rankingSources)
+                {
+                    var rank = GetValue(player.Rank, source);
+                    if (rank == null) continue;
+
+                    var score = rankScales[source].Score(rank.Value);
+                    recommendation.ComponentScores[$"rank:{source}"] = score;
+                    recommendation.Reasons.Add($"#{rank} in {source} rankings");
+                    rankScores.Add(score);
+                }
+                if (rankScores.Count > 0)
+                {
+                    weightedTotal += RankingWeight * rankScores.Average();
+                    weightUsed += RankingWeight;
+                }
+
+                if (prospectScale != null && GetValue(player.ProspectRank, request.ProspectSource!.Value) is { } prospectRank)
+                {
+                    var score = prospectScale.Score(prospectRank);
+                    recommendation.ComponentScores[$"prospect:{request.ProspectSource}"] = score;
+                    recommendation.Reasons.Add($"#{prospectRank} {request.ProspectSource} prospect");
+                    weightedTotal += ProspectWeight * score;
+                    weightUsed += ProspectWeight;
+                }
+
+                if (projectionScale != null && GetProjection(player, request.ProjectionSource!, request.ProjectionCategory!) is { } projected)
+                {
+                    var score = projectionScale.Score(projected, lowerIsBetter);
+                    recommendation.ComponentScores[$"projection:{request.ProjectionSource} {request.ProjectionCategory}"] = score;
+                    recommendation.Reasons.Add(
+                        $"Projected {FormatStat(projected, request.ProjectionCategory!)} {request.ProjectionCategory} ({request.ProjectionSource}), " +
+                        $"better than {Math.Round(score)}% of the pool");
+                    weightedTotal += ProjectionWeight * score;
+                    weightUsed += ProjectionWeight;
+                }
+
+                if (personalScale != null && player.Id != null && personalRanks.TryGetValue(player.Id, out var personalRank))
+                {
+                    var score = personalScale.Score(personalRank);
+                    recommendation.ComponentScores["personal"] = score;
+                    recommendation.Reasons.Add($"#{personalRank} on your personal board");
+                    weightedTotal += PersonalWeight * score;
+                    weightUsed += PersonalWeight;
+                }
+
+                // A player nobody has ranked or projected can't be compared with the rest
+                if (weightUsed == 0) continue;
+
+                recommendation.BaseScore = weightedTotal / weightUsed;
+                ApplyRosterNeed(recommendation, targets, openPositions);
+                recommendation.Score = recommendation.BaseScore * recommendation.NeedMultiplier;
+                recommendations.Add(recommendation);
+            }
+
+            var count = Math.Clamp(request.Count, 1, MaxCount);
+            var result = new RecommendationResult
+            {
+                DraftId = draft.Id!,
+                OverallPickNumber = draft.ActiveOverallPick,
+                ManagerId = managerId,
+                OpenPositions = openPositions.Where(kv => kv.Value > 0).ToDictionary(kv => kv.Key, kv => kv.Value),
+                Recommendations = recommendations
+                    .OrderByDescending(r => r.Score)
+                    .ThenBy(r => r.Player.Name)
+                    .Take(count)
+                    .ToList()
+            };
+
+            _logger.LogInformation(
+                "Built {Count} recommendations for pick {Pick} (manager {ManagerId}) from {Available} available players",
+                result.Recommendations.Count, result.OverallPickNumber, managerId, available.Count);
+
+            return result;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error building draft recommendations");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Turns the league's roster slots into how many players each position needs.
+    /// Pitching slots are pooled since eligibility doesn't tell starters from relievers.
+    /// </summary>
+    internal static Dictionary<string, int> GetPositionTargets(LeagueSettings settings)
+    {
+        var targets = new Dictionary<string, int>();
+        foreach (var slot in settings.RosterSlots.Where(s => s.Count > 0))
+        {
+            var position = PitchingSlots.Contains(slot.Position) ? "P" : slot.Position;
+            if (position != "P" && !FieldingPositions.Contains(position)) continue;
+
+            targets[position] = targets.GetValueOrDefault(position) + slot.Count;
+        }
+        return targets;
+    }
+
+    /// <summary>
+    /// Works out the positions a player qualifies at from their most recent season,
+    /// falling back to their listed positions when there are no position stats
+    /// </summary>
+    internal static string[] GetEligiblePositions(Player player, Dictionary<string, int> targets, int minGamesForPosition)
+    {
+        if (player.PositionStats is { Count: > 0 })
+        {
+            var mostRecentYear = player.PositionStats.Keys.Max()!;
+            var positions = PlayerService.DeterminePositions(player.PositionStats[mostRecentYear], minGamesForPosition)
+                .Where(targets.ContainsKey)
+                .ToArray();
+            if (positions.Length > 0) return positions;
+        }
+
+        return (player.Position ?? Array.Empty<string>())
+            .Select(p => p is "LF" or "CF" or "RF" ? "OF" : p is "SP" or "RP" ? "P" : p)
+            .Where(targets.ContainsKey)
+            .Distinct()
+            .ToArray();
+    }
+
+    /// <summary>
+    /// Counts the slots left at each position once the manager's drafted players are placed.
+    /// Multi-position players go wherever the need is greatest.
+    /// </summary>
+    internal static Dictionary<string, int> GetOpenPositions(
+        IEnumerable<Player> roster,
+        Dictionary<string, int> targets,
+        int minGamesForPosition)
+    {
+        var open = new Dictionary<string, int>(targets);
+
+        // Place the least flexible players first so they don't lose their only slot
+        var placements = roster
+            .Select(p => GetEligiblePositions(p, targets, minGamesForPosition))
+            .Where(positions => positions.Length > 0)
+            .OrderBy(positions => positions.Length);
+
+        foreach (var positions in placements)
+        {
+            var best = positions
+                .OrderByDescending(pos => (double)open[pos] / targets[pos])
+                .First();
+            if (open[best] > 0) open[best]--;
+        }
+
+        return open;
+    }
+
+    private static void ApplyRosterNeed(
+        PlayerRecommendation recommendation,
+        Dictionary<string, int> targets,
+        Dictionary<string, int> openPositions)
+    {
+        if (recommendation.EligiblePositions.Length == 0) return;
+
+        var neediest = recommendation.EligiblePositions
+            .OrderByDescending(pos => (double)openPositions[pos] / targets[pos])
+            .First();
+        var open = openPositions[neediest];
+        var target = targets[neediest];
+
+        if (open > 0)
+        {
+            recommendation.NeedMultiplier = 1 + MaxNeedBoost * open / target;
+            recommendation.Reasons.Add($"Fills a need at {neediest} ({target - open} of {target} filled)");
+        }
+        else
+        {
+            recommendation.NeedMultiplier = 1 - CoveredPenalty;
+            recommendation.Reasons.Add($"Already covered at {string.Join("/", recommendation.EligiblePositions)}");
+        }
+    }
+
+    private static int? GetValue<TSource>(Dictionary<TSource, int>? ranks, TSource source) where TSource : notnull =>
+        ranks != null && ranks.TryGetValue(source, out var rank) ? rank : null;
+
+    private static double? GetProjection(Player player, string source, string category)
+    {
+        if (player.Projections == null) return null;
+
+        var projection = player.Projections
+            .FirstOrDefault(kv => string.Equals(kv.Key, source, StringComparison.OrdinalIgnoreCase))
+            .Value;
+        if (projection == null) return null;
+
+        foreach (var stats in new[] { projection.Hitter?.Stats, projection.Pitcher?.Stats })
+        {
+            if (stats == null) continue;
+            var match = stats.FirstOrDefault(kv => string.Equals(kv.Key, category, StringComparison.OrdinalIgnoreCase));
+            if (match.Key != null) return match.Value;
+        }
+        return null;
+    }
+
+    private static string FormatStat(double value, string category) =>
+        category.ToUpperInvariant() switch
+        {
+            "AVG" or "OBP" or "SLG" or "OPS" or "ISO" => value.ToString("0.000"),
+            "ERA" or "WHIP" or "K/9" or "BB/9" or "HR/9" or "WAR" => value.ToString("0.00"),
+            _ => Math.Round(value).ToString()
+        };
+
+    /// <summary>
+    /// Maps ranks onto 0-100 across the available pool, so the best remaining rank scores 100
+    /// </summary>
+    private sealed class RankScale
+    {
+        private readonly int _best;
+        private readonly int _worst;
+
+        private RankScale(int best, int worst)
+        {
+            _best = best;
+            _worst = worst;
+        }
+
+        public static RankScale For(IEnumerable<int?> ranks)
+        {
+            var values = ranks.Where(r => r.HasValue).Select(r => r!.Value).ToList();
+            return values.Count == 0 ? new RankScale(1, 1) : new RankScale(values.Min(), values.Max());
+        }
+
+        public double Score(int rank) =>
+            _worst == _best ? 100 : 100.0 * (_worst - rank) / (_worst - _best);
+    }
+
+    /// <summary>
+    /// Maps stat values onto 0-100 across the available pool
+    /// </summary>
+    private sealed class ValueScale
+    {
+        private readonly double _min;
+        private readonly double _max;
+
+        private ValueScale(double min, double max)
+        {
+            _min = min;
+            _max = max;
+        }
+
+        public static ValueScale For(IEnumerable<double?> values)
+        {
+            var list = values.Where(v => v.HasValue).Select(v => v!.Value).ToList();
+            return list.Count == 0 ? new ValueScale(0, 0) : new ValueScale(list.Min(), list.Max());
+        }
+
+        public double Score(double value, bool lowerIsBetter)
+        {
+            if (_max == _min) return 100;
+            var score = 100.0 * (value - _min) / (_max - _min);
+            return lowerIsBetter ? 100 - score : score;
+        }
+    }
+}
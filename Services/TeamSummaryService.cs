@@ -0,0 +1,172 @@
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Summarizes each manager's roster in the active draft: how well their positions are covered and where
+/// their projected category totals stand against the rest of the league
+/// </summary>
+public class TeamSummaryService
+{
+    private readonly DraftService _draftService;
+    private readonly PlayerService _playerService;
+    private readonly ManagerService _managerService;
+    private readonly LeagueSettingsService _leagueSettings;
+    private readonly ILogger<TeamSummaryService> _logger;
+
+    public TeamSummaryService(
+        DraftService draftService,
+        PlayerService playerService,
+        ManagerService managerService,
+        LeagueSettingsService leagueSettings,
+        ILogger<TeamSummaryService> logger)
+    {
+        _draftService = draftService;
+        _playerService = playerService;
+        _managerService = managerService;
+        _leagueSettings = leagueSettings;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Builds a summary for every manager with a pick in the active draft
+    /// </summary>
+    /// <param name="projectionSource">Projections to total; defaults to the league's value projections</param>
+    /// <exception cref="InvalidOperationException">Thrown when there is no active draft</exception>
+    public async Task<TeamSummaryResult> GetSummariesAsync(string? projectionSource = null)
+    {
+        try
+        {
+            var draft = await _draftService.GetActiveDraftAsync()
+                ?? throw new InvalidOperationException("No active draft found");
+
+            var settings = await _leagueSettings.GetSettingsAsync();
+            var source = string.IsNullOrWhiteSpace(projectionSource)
+                ? settings.ValueProjectionSource
+                : projectionSource.Trim().ToUpperInvariant();
+
+            var managers = (await _managerService.GetAllAsync())
+                .Where(m => m.Id != null)
+                .ToDictionary(m => m.Id!);
+            var drafted = await _playerService.GetDraftedInDraftAsync(draft.Id!);
+
+            // Draft order first, then anyone who only holds picks through trades
+            var managerIds = draft.DraftOrder.Select(p => p.ManagerId)
+                .Concat(draft.Rounds.SelectMany(r => r.Picks).SelectMany(p => p.TradedTo))
+                .Where(id => !string.IsNullOrEmpty(id))
+                .Distinct()
+                .ToList();
+
+            var categories = settings.HitterCategories.Select(c => (Category: c, IsPitching: false))
+                .Concat(settings.PitcherCategories.Select(c => (Category: c, IsPitching: true)))
+                .ToList();
+            var targets = RecommendationService.GetPositionTargets(settings);
+
+            var teams = managerIds.Select(managerId =>
+            {
+                var roster = drafted
+                    .Where(p => p.DraftStatuses?.Any(ds =>
+                        ds.DraftId == draft.Id && ds.IsDrafted && ds.ManagerId == managerId) == true)
+                    .ToList();
+                var open = RecommendationService.GetOpenPositions(roster, targets, settings.MinGamesForPosition);
+                var projections = roster.Select(p => LeagueValueService.GetProjection(p, source)).ToList();
+
+                return new TeamSummary
+                {
+                    ManagerId = managerId,
+                    ManagerName = managers.TryGetValue(managerId, out var manager) ? manager.Name : "Unknown Manager",
+                    PlayerCount = roster.Count,
+                    UnprojectedCount = projections.Count(p => p?.Hitter == null && p?.Pitcher == null),
+                    Positions = targets
+                        .Select(t => new PositionCoverage { Position = t.Key, Filled = t.Value - open[t.Key], Target = t.Value })
+                        .ToList(),
+                    Totals = categories
+                        .Select(c => new CategoryTotal
+                        {
+                            Stat = c.Category.Stat,
+                            IsPitching = c.IsPitching,
+                            Total = GetTotal(
+                                projections.Select(p => c.IsPitching ? p?.Pitcher?.Stats : p?.Hitter?.Stats),
+                                c.Category.Stat,
+                                c.IsPitching ? "IP" : "G")
+                        })
+                        .ToList()
+                };
+            }).ToList();
+
+            for (var i = 0; i < categories.Count; i++)
+            {
+                RankTotals(teams.Select(t => t.Totals[i]).ToList(), categories[i].Category.LowerIsBetter);
+            }
+
+            return new TeamSummaryResult
+            {
+                DraftId = draft.Id!,
+                ProjectionSource = source,
+                Categories = categories
+                    .Select(c => new SummaryCategory
+                    {
+                        Stat = c.Category.Stat,
+                        IsPitching = c.IsPitching,
+                        LowerIsBetter = c.Category.LowerIsBetter
+                    })
+                    .ToList(),
+                Teams = teams
+            };
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error building team summaries");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Adds up a category across a roster. Rate stats are averaged instead, weighted by each player's
+    /// projected games or innings so a part-timer doesn't move the team's ERA as much as an ace.
+    /// </summary>
+    private static double? GetTotal(IEnumerable<Dictionary<string, double>?> roster, string stat, string volumeStat)
+    {
+        var values = roster
+            .Where(stats => stats != null)
+            .Select(stats => (Value: LeagueValueService.GetStat(stats!, stat), Volume: LeagueValueService.GetStat(stats!, volumeStat)))
+            .Where(x => x.Value.HasValue)
+            .ToList();
+        if (values.Count == 0) return null;
+
+        if (!ValuationService.RateStats.Contains(stat))
+            return Math.Round(values.Sum(x => x.Value!.Value), 1);
+
+        var weighted = values.Where(x => x.Volume > 0).ToList();
+        if (weighted.Count == 0) return null;
+
+        var volume = weighted.Sum(x => x.Volume!.Value);
+        return Math.Round(weighted.Sum(x => x.Value!.Value * x.Volume!.Value) / volume, 3);
+    }
+
+    // Teams with nothing projected in a category share last place
+    private static void RankTotals(List<CategoryTotal> totals, bool lowerIsBetter)
+    {
+        var ordered = totals
+            .Where(t => t.Total.HasValue)
+            .OrderBy(t => lowerIsBetter ? t.Total!.Value : -t.Total!.Value)
+            .ToList();
+
+        for (var i = 0; i < ordered.Count; i++)
+        {
+            ordered[i].Rank = i > 0 && ordered[i].Total == ordered[i - 1].Total ? ordered[i - 1].Rank : i + 1;
+        }
+
+        foreach (var total in totals.Where(t => !t.Total.HasValue))
+        {
+            total.Rank = ordered.Count + 1;
+        }
+
+        var worst = totals.Count > 0 ? totals.Max(t => t.Rank) : 1;
+        foreach (var total in totals)
+        {
+            total.Strength = worst > 1 ? Math.Round((double)(worst - total.Rank) / (worst - 1), 3) : 1;
+        }
+    }
+}
@@ -0,0 +1,339 @@
+using MongoDB.Driver;
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Keeps each account's tiers for every position and ranking source, and finds tiers that are nearly drafted out
+/// </summary>
+/// <remarks>
+/// Tiers can be set by hand or generated by splitting a ranking where players' composite values jump the most.
+/// </remarks>
+public class TierService
+{
+    public const string PitcherPosition = "P";
+
+    // Enough of a ranking to cover any sensible set of tiers
+    private const int MaxTieredPlayers = 500;
+
+    // Warn once a tier is down to this many undrafted players
+    private const int LastPlayersWarningCount = 2;
+
+    private static readonly HashSet<string> Positions = new() { "C", "1B", "2B", "3B", "SS", "OF", "DH", PitcherPosition, TierSet.AllPositions };
+
+    private readonly MongoDbContext _context;
+    private readonly IMongoCollection<TierSet> _tierSets;
+    private readonly LeagueContext _leagueContext;
+    private readonly UserContext _userContext;
+    private readonly PlayerService _playerService;
+    private readonly PlayerAnnotationService _playerAnnotationService;
+    private readonly PlayerLeagueValueService _playerLeagueValueService;
+    private readonly DraftService _draftService;
+    private readonly ILogger<TierService> _logger;
+
+    public TierService(
+        MongoDbContext context,
+        LeagueContext leagueContext,
+        UserContext userContext,
+        PlayerService playerService,
+        PlayerAnnotationService playerAnnotationService,
+        PlayerLeagueValueService playerLeagueValueService,
+        DraftService draftService,
+        ILogger<TierService> logger)
+    {
+        _context = context;
+        _tierSets = context.TierSets;
+        _leagueContext = leagueContext;
+        _userContext = userContext;
+        _playerService = playerService;
+        _playerAnnotationService = playerAnnotationService;
+        _playerLeagueValueService = playerLeagueValueService;
+        _draftService = draftService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Gets the signed-in account's tiers in the current league
+    /// </summary>
+    public async Task<List<TierSet>> GetMineAsync()
+    {
+        var userId = _userContext.UserId;
+        if (userId == null) return new List<TierSet>();
+
+        try
+        {
+            var leagueId = _leagueContext.LeagueId;
+            return await _tierSets.Find(t => t.LeagueId == leagueId && t.UserId == userId).ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving tiers for account {UserId}", userId);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Gets the players a ranking source ranks at a position, best first
+    /// </summary>
+    /// <param name="position">A player list position, P for pitchers, or ALL</param>
+    /// <param name="rankingSource">A RankingSource name, or "personal" for the signed-in account's big board</param>
+    /// <param name="count">How many players to return at most</param>
+    /// <exception cref="InvalidOperationException">Thrown when the position or ranking source isn't recognized</exception>
+    public async Task<List<TierPlayer>> GetRankedPlayersAsync(string position, string rankingSource, int count)
+    {
+        try
+        {
+            position = NormalizePosition(position);
+            rankingSource = NormalizeRankingSource(rankingSource);
+            var isPersonal = rankingSource == PlayerAnnotationService.PersonalRankingSource;
+
+            Dictionary<string, int>? personalRanks = null;
+            List<string> rankedPlayerIds;
+            if (isPersonal)
+            {
+                personalRanks = (await _playerAnnotationService.GetMineAsync())
+                    .Where(a => a.PersonalRank != null)
+                    .ToDictionary(a => a.PlayerId, a => a.PersonalRank!.Value);
+                rankedPlayerIds = personalRanks.OrderBy(r => r.Value).Select(r => r.Key).ToList();
+            }
+            else if (rankingSource == nameof(RankingSource.VALUE))
+            {
+                rankedPlayerIds = await _playerLeagueValueService.GetValueRankingAsync();
+            }
+            else
+            {
+                var rankField = $"Rank.{rankingSource}";
+                rankedPlayerIds = await _context.Players
+                    .Find(Builders<Player>.Filter.Exists(rankField))
+                    .Sort(Builders<Player>.Sort.Ascending(rankField))
+                    .Project(p => p.Id!)
+                    .ToListAsync();
+            }
+
+            var page = await _playerService.SearchPlayersPaginatedAsync(
+                searchTerm: null,
+                playerType: position == PitcherPosition ? "pitchers" : "all",
+                position: position is TierSet.AllPositions or PitcherPosition ? null : position,
+                pageNumber: 1,
+                pageSize: count,
+                rankedPlayerIds: rankedPlayerIds);
+
+            var source = isPersonal ? (RankingSource?)null : Enum.Parse<RankingSource>(rankingSource);
+            var players = new List<TierPlayer>();
+            foreach (var player in page.Items)
+            {
+                int? rank = source is { } imported
+                    ? player.Rank != null && player.Rank.TryGetValue(imported, out var sourceRank) ? (int?)sourceRank : null
+                    : personalRanks!.TryGetValue(player.Id!, out var personalRank) ? (int?)personalRank : null;
+                // Players the source doesn't rank follow the ranked ones, so the rest of the page is unranked
+                if (rank == null) break;
+
+                var ranks = (player.Rank?.Values ?? Enumerable.Empty<int>()).Where(r => r > 0).ToList();
+                if (isPersonal) ranks.Add(rank.Value);
+                players.Add(new TierPlayer
+                {
+                    Player = player,
+                    Rank = rank.Value,
+                    CompositeValue = ranks.Average()
+                });
+            }
+            return players;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error retrieving {RankingSource} rankings at {Position}", rankingSource, position);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Suggests tiers for a position by clustering the composite values of the players the source ranks highest
+    /// </summary>
+    /// <remarks>
+    /// The ranking's order is kept; tiers break where splitting leaves the players in each tier valued most alike.
+    /// Nothing is saved.
+    /// </remarks>
+    /// <returns>The ranks where tiers 2 onward start</returns>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when the position or ranking source isn't recognized, or too few players are ranked to tier
+    /// </exception>
+    public async Task<List<int>> GenerateBreaksAsync(GenerateTiersRequest request)
+    {
+        var players = await GetRankedPlayersAsync(request.Position, request.RankingSource, request.PlayerCount);
+        if (players.Count < request.TierCount)
+            throw new InvalidOperationException($"Only {players.Count} players are ranked there, too few for {request.TierCount} tiers");
+
+        return FindTierStarts(players.Select(p => p.CompositeValue).ToList(), request.TierCount)
+            .Select(index => players[index].Rank)
+            .Distinct()
+            .ToList();
+    }
+
+    /// <summary>
+    /// Saves the signed-in account's tiers for a position and ranking source
+    /// </summary>
+    /// <returns>The saved tiers, or null when no breaks were given and the tiers were removed</returns>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when nobody is signed in, or the position or ranking source isn't recognized
+    /// </exception>
+    public async Task<TierSet?> SaveAsync(SaveTierSetRequest request)
+    {
+        var userId = _userContext.UserId ?? throw new InvalidOperationException("Sign in to save tiers");
+
+        try
+        {
+            var position = NormalizePosition(request.Position);
+            var rankingSource = NormalizeRankingSource(request.RankingSource);
+            var leagueId = _leagueContext.LeagueId;
+            var filter = Builders<TierSet>.Filter;
+            var match = filter.Eq(t => t.LeagueId, leagueId)
+                & filter.Eq(t => t.UserId, userId)
+                & filter.Eq(t => t.Position, position)
+                & filter.Eq(t => t.RankingSource, rankingSource);
+
+            // A break at rank 1 or below would leave tier 1 empty
+            var breaks = request.Breaks.Where(b => b > 1).Distinct().OrderBy(b => b).ToList();
+            if (breaks.Count == 0)
+            {
+                await _tierSets.DeleteOneAsync(match);
+                return null;
+            }
+
+            var tierSet = await _tierSets.FindOneAndUpdateAsync(
+                match,
+                Builders<TierSet>.Update.Set(t => t.Breaks, breaks).Set(t => t.UpdatedAt, DateTime.UtcNow),
+                new FindOneAndUpdateOptions<TierSet> { IsUpsert = true, ReturnDocument = ReturnDocument.After });
+
+            _logger.LogInformation("Saved {Count} {RankingSource} tiers at {Position} for account {UserId}",
+                breaks.Count + 1, rankingSource, position, userId);
+            return tierSet;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error saving {RankingSource} tiers at {Position}", request.RankingSource, request.Position);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Finds the signed-in account's tiers under a ranking source that are down to their last undrafted players
+    /// </summary>
+    /// <remarks>
+    /// Only the best tier at each position that still has someone undrafted is checked. The last tier runs to the
+    /// bottom of the ranking, so it's never reported.
+    /// </remarks>
+    /// <exception cref="InvalidOperationException">Thrown when the ranking source isn't recognized</exception>
+    public async Task<List<TierAlert>> GetAlertsAsync(string rankingSource)
+    {
+        try
+        {
+            rankingSource = NormalizeRankingSource(rankingSource);
+            var draft = await _draftService.GetActiveDraftAsync();
+            if (draft == null) return new List<TierAlert>();
+
+            var alerts = new List<TierAlert>();
+            foreach (var tierSet in (await GetMineAsync()).Where(t => t.RankingSource == rankingSource && t.Breaks.Count > 0))
+            {
+                var lastBreak = tierSet.Breaks.Max();
+                var players = await GetRankedPlayersAsync(tierSet.Position, rankingSource, MaxTieredPlayers);
+                var currentTier = players
+                    .Where(p => p.Rank < lastBreak)
+                    .Where(p => p.Player.DraftStatuses?.Any(ds => ds.DraftId == draft.Id && ds.IsDrafted) != true)
+                    .GroupBy(p => GetTier(tierSet.Breaks, p.Rank))
+                    .OrderBy(g => g.Key)
+                    .FirstOrDefault();
+
+                if (currentTier != null && currentTier.Count() <= LastPlayersWarningCount)
+                {
+                    alerts.Add(new TierAlert
+                    {
+                        TierSetId = tierSet.Id!,
+                        Position = tierSet.Position,
+                        RankingSource = rankingSource,
+                        Tier = currentTier.Key,
+                        Remaining = currentTier.Select(p => p.Player).ToList()
+                    });
+                }
+            }
+            return alerts;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error checking {RankingSource} tiers", rankingSource);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Gets which tier a rank falls in, counting from 1
+    /// </summary>
+    public static int GetTier(IEnumerable<int> breaks, int rank) => 1 + breaks.Count(b => rank >= b);
+
+    // Splits values, kept in order, into tierCount runs with the least total squared distance from each run's mean.
+    // Returns the index each run after the first starts at.
+    private static List<int> FindTierStarts(IReadOnlyList<double> values, int tierCount)
+    {
+        var n = values.Count;
+        var sums = new double[n + 1];
+        var squares = new double[n + 1];
+        for (var i = 0; i < n; i++)
+        {
+            sums[i + 1] = sums[i] + values[i];
+            squares[i + 1] = squares[i] + values[i] * values[i];
+        }
+        double Cost(int start, int end)
+        {
+            var sum = sums[end] - sums[start];
+            return squares[end] - squares[start] - sum * sum / (end - start);
+        }
+
+        // best[t, end] is the lowest cost of splitting the first end values into t + 1 runs
+        var best = new double[tierCount, n + 1];
+        var startOfLast = new int[tierCount, n + 1];
+        for (var end = 1; end <= n; end++) best[0, end] = Cost(0, end);
+        for (var t = 1; t < tierCount; t++)
+        {
+            for (var end = t + 1; end <= n; end++)
+            {
+                best[t, end] = double.MaxValue;
+                for (var start = t; start < end; start++)
+                {
+                    var cost = best[t - 1, start] + Cost(start, end);
+                    if (cost < best[t, end])
+                    {
+                        best[t, end] = cost;
+                        startOfLast[t, end] = start;
+                    }
+                }
+            }
+        }
+
+        var starts = new List<int>();
+        var last = n;
+        for (var t = tierCount - 1; t > 0; t--)
+        {
+            last = startOfLast[t, last];
+            starts.Add(last);
+        }
+        starts.Reverse();
+        return starts;
+    }
+
+    private static string NormalizePosition(string position)
+    {
+        var normalized = (position ?? string.Empty).Trim().ToUpperInvariant();
+        return Positions.Contains(normalized)
+            ? normalized
+            : throw new InvalidOperationException($"Tiers can't be set for position {position}");
+    }
+
+    private static string NormalizeRankingSource(string rankingSource)
+    {
+        if (string.Equals(rankingSource, PlayerAnnotationService.PersonalRankingSource, StringComparison.OrdinalIgnoreCase))
+            return PlayerAnnotationService.PersonalRankingSource;
+        return Enum.TryParse<RankingSource>(rankingSource, true, out var source)
+            ? source.ToString()
+            : throw new InvalidOperationException($"Unknown ranking source {rankingSource}");
+    }
+}
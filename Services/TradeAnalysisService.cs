@@ -0,0 +1,159 @@
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Puts a value on everything changing hands in a trade so the managers involved can see who comes out ahead.
+/// Picks and players share one scale: a pick is valued by the league's pick value curve, and a player is
+/// worth whatever the pick matching their ranking would be.
+/// </summary>
+public class TradeAnalysisService
+{
+    private readonly DraftService _draftService;
+    private readonly PlayerService _playerService;
+    private readonly LeagueSettingsService _leagueSettings;
+    private readonly ILogger<TradeAnalysisService> _logger;
+
+    public TradeAnalysisService(
+        DraftService draftService,
+        PlayerService playerService,
+        LeagueSettingsService leagueSettings,
+        ILogger<TradeAnalysisService> logger)
+    {
+        _draftService = draftService;
+        _playerService = playerService;
+        _leagueSettings = leagueSettings;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Values a trade that may still be in progress. Assets without a receiving manager count against
+    /// the manager giving them up, but the trade isn't judged until every asset has somewhere to go.
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown when there is no active draft</exception>
+    public async Task<TradeAnalysis> AnalyzeAsync(Trade trade)
+    {
+        try
+        {
+            var draft = await _draftService.GetActiveDraftAsync()
+                ?? throw new InvalidOperationException("No active draft found");
+            var settings = await _leagueSettings.GetSettingsAsync();
+
+            var playerIds = trade.Parties
+                .SelectMany(p => p.Assets)
+                .Where(a => a.Type == TradeAssetType.Player && !string.IsNullOrEmpty(a.PlayerId))
+                .Select(a => a.PlayerId!)
+                .Distinct();
+            var players = (await _playerService.GetByIdsAsync(playerIds))
+                .Where(p => p.Id != null)
+                .ToDictionary(p => p.Id!);
+
+            var assets = trade.Parties
+                .SelectMany(party => party.Assets.Select(asset =>
+                {
+                    var (value, basis) = GetValue(asset, settings.PickValueCurve, draft, players);
+                    return new TradeAssetValue
+                    {
+                        Asset = asset,
+                        FromManagerId = party.ManagerId,
+                        ToManagerId = GetReceiver(trade, party.ManagerId, asset),
+                        Value = Math.Round(value, 1),
+                        Basis = basis
+                    };
+                }))
+                .ToList();
+
+            var isComplete = assets.Any() && assets.All(a => a.ToManagerId != null);
+            var parties = trade.Parties
+                .Select(party =>
+                {
+                    var given = assets.Where(a => a.FromManagerId == party.ManagerId).Sum(a => a.Value);
+                    var received = assets.Where(a => a.ToManagerId == party.ManagerId).Sum(a => a.Value);
+                    return new TradePartyValue
+                    {
+                        ManagerId = party.ManagerId,
+                        Given = Math.Round(given, 1),
+                        Received = Math.Round(received, 1),
+                        Net = Math.Round(received - given, 1),
+                        IsLopsided = isComplete && given > 0 && (given - received) / given >= settings.LopsidedTradeThreshold
+                    };
+                })
+                .ToList();
+
+            return new TradeAnalysis
+            {
+                Assets = assets,
+                Parties = parties,
+                IsComplete = isComplete,
+                IsLopsided = parties.Any(p => p.IsLopsided),
+                LopsidedThreshold = settings.LopsidedTradeThreshold
+            };
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error analyzing trade");
+            throw;
+        }
+    }
+
+    // Two-party trades don't need a distribution; each side gets everything the other gives up
+    private static string? GetReceiver(Trade trade, string fromManagerId, TradeAsset asset)
+    {
+        if (trade.Parties.Count == 2)
+            return trade.Parties.First(p => p.ManagerId != fromManagerId).ManagerId;
+
+        return trade.AssetDistribution?
+            .FirstOrDefault(receiver => receiver.Value.TryGetValue(fromManagerId, out var received)
+                && received.Any(a => IsSameAsset(a, asset)))
+            .Key;
+    }
+
+    private static bool IsSameAsset(TradeAsset a, TradeAsset b) =>
+        a.Type == b.Type && a.Type switch
+        {
+            TradeAssetType.Player => a.PlayerId == b.PlayerId,
+            TradeAssetType.FuturePick => a.FuturePickId == b.FuturePickId,
+            _ => a.DraftId == b.DraftId && a.OverallPickNumber == b.OverallPickNumber
+        };
+
+    private static (double Value, string Basis) GetValue(
+        TradeAsset asset,
+        PickValueCurve curve,
+        Draft draft,
+        Dictionary<string, Player> players)
+    {
+        switch (asset.Type)
+        {
+            case TradeAssetType.Player:
+                if (asset.PlayerId == null || !players.TryGetValue(asset.PlayerId, out var player))
+                    return (curve.MinimumValue, "Player not found");
+                if (player.Valuation != null)
+                    return (curve.GetValue(player.Valuation.Rank), $"#{player.Valuation.Rank} by {RankingSource.VALUE}");
+
+                // Without projections to value them, fall back to where the rankings have them on average
+                var ranks = player.Rank?.Values.Where(r => r > 0).ToList();
+                if (ranks == null || ranks.Count == 0)
+                    return (curve.MinimumValue, "Unranked");
+                var composite = ranks.Average();
+                return (curve.GetValue(composite), $"#{Math.Round(composite)} composite rank");
+
+            case TradeAssetType.FuturePick:
+                if (asset.Year == null || asset.RoundNumber == null)
+                    return (curve.MinimumValue, "Unknown future pick");
+
+                // Where the pick will fall isn't known yet, so assume the middle of its round
+                var teams = Math.Max(draft.DraftOrder.Length, 1);
+                var estimatedPick = (asset.RoundNumber.Value - 1) * teams + (teams + 1) / 2.0;
+                var yearsAway = Math.Max(asset.Year.Value - draft.Year, 1);
+                return (
+                    curve.GetValue(estimatedPick) * Math.Pow(1 - curve.FutureYearDiscount, yearsAway),
+                    $"Mid round {asset.RoundNumber} in {asset.Year}");
+
+            default:
+                return asset.OverallPickNumber is { } overall
+                    ? (curve.GetValue(overall), $"Pick {overall}")
+                    : (curve.MinimumValue, "Unknown pick");
+        }
+    }
+}
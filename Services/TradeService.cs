@@ -1,4 +1,5 @@
 using DraftEngine.Models;
+using DraftEngine.Models.Data;
 using MongoDB.Driver;
 using Microsoft.Extensions.Logging;
 using MongoDB.Bson;
@@ -25,19 +26,31 @@ public class TradeService
 {
     private readonly IMongoCollection<Trade> _trades;
     private readonly DraftService _draftService;
+    private readonly PlayerService _playerService;
+    private readonly FuturePickService _futurePickService;
+    private readonly LeagueContext _leagueContext;
     private readonly ILogger<TradeService> _logger;
 
     public TradeService(
         MongoDbContext dbContext, 
         DraftService draftService,
+        PlayerService playerService,
+        FuturePickService futurePickService,
+        LeagueContext leagueContext,
         ILogger<TradeService> logger)
     {
         if (dbContext == null) throw new ArgumentNullException(nameof(dbContext));
         if (draftService == null) throw new ArgumentNullException(nameof(draftService));
+        if (playerService == null) throw new ArgumentNullException(nameof(playerService));
+        if (futurePickService == null) throw new ArgumentNullException(nameof(futurePickService));
+        if (leagueContext == null) throw new ArgumentNullException(nameof(leagueContext));
         if (logger == null) throw new ArgumentNullException(nameof(logger));
 
         _trades = dbContext.Trades ?? throw new InvalidOperationException("Trades collection is not initialized");
         _draftService = draftService;
+        _playerService = playerService;
+        _futurePickService = futurePickService;
+        _leagueContext = leagueContext;
         _logger = logger;
 
         _logger.LogInformation("TradeService initialized");
@@ -45,213 +58,157 @@ public class TradeService
 
     public async Task<List<Trade>> GetTrades()
     {
-        return await _trades.Find(_ => true)
+        var leagueId = _leagueContext.LeagueId;
+        return await _trades.Find(t => t.LeagueId == leagueId)
             .SortByDescending(t => t.Timestamp)
             .ToListAsync();
     }
 
-    public async Task<bool> CanCancelTrade(string tradeId)
+    public async Task<Trade?> GetTrade(string tradeId)
     {
-        var trade = await _trades.Find(t => t.Id == tradeId).FirstOrDefaultAsync();
-        if (trade == null)
-            return false;
+        var leagueId = _leagueContext.LeagueId;
+        return await _trades.Find(t => t.Id == tradeId && t.LeagueId == leagueId).FirstOrDefaultAsync();
+    }
 
-        // Get all completed trades after this trade
-        var futureTrades = await _trades.Find(t => 
-            t.Status == TradeStatus.Completed && 
-            t.Timestamp > trade.Timestamp
-        ).ToListAsync();
+    public async Task<bool> CanCancelTrade(string tradeId) =>
+        (await GetTradeDependencies(tradeId))?.CanCancel ?? false;
 
-        if (!futureTrades.Any())
-            return true;
+    /// <summary>
+    /// Works out what has to happen before a trade can be undone: the later trades that moved the same
+    /// picks or players, and any picks that have been used since and so can't be handed back
+    /// </summary>
+    /// <returns>Null if the trade was not found</returns>
+    public async Task<TradeDependencies?> GetTradeDependencies(string tradeId)
+    {
+        var trade = await GetTrade(tradeId);
+        if (trade == null)
+            return null;
 
-        // Get all assets involved in this trade
-        var tradeAssets = trade.Parties.SelectMany(p => p.Assets).ToList();
+        var dependencies = new TradeDependencies { TradeId = tradeId };
 
-        // Check if any assets are involved in future completed trades
-        foreach (var futureTrade in futureTrades)
+        // Nothing has changed hands yet, so a proposal can always be withdrawn
+        if (IsPending(trade))
         {
-            var futureAssets = futureTrade.Parties.SelectMany(p => p.Assets);
-            foreach (var asset in tradeAssets)
-            {
-                if (futureAssets.Any(fa => 
-                    fa.Type == asset.Type &&
-                    fa.DraftId == asset.DraftId &&
-                    fa.OverallPickNumber == asset.OverallPickNumber))
-                {
-                    _logger.LogInformation(
-                        "Trade {TradeId} cannot be cancelled because asset (Type: {Type}, DraftId: {DraftId}, Pick: {Pick}) is involved in future trade {FutureTradeId}",
-                        tradeId, asset.Type, asset.DraftId, asset.OverallPickNumber, futureTrade.Id);
-                    return false;
-                }
-            }
+            dependencies.CanCancel = true;
+            dependencies.CanCascade = true;
+            return dependencies;
         }
 
-        return true;
-    }
-
-    public async Task<Trade> CreateTrade(Trade trade)
-    {
-        try
-        {
-            _logger.LogInformation("=== Starting CreateTrade ===");
-            _logger.LogInformation("Trade object received - ID: {Id}, Status: {Status}, Parties: {PartyCount}", 
-                trade.Id ?? "New", trade.Status, trade.Parties?.Count ?? 0);
-
-            if (trade == null)
-            {
-                _logger.LogError("Trade object is null");
-                throw new TradeValidationException("Trade object cannot be null");
-            }
-
-            if (trade.Parties == null)
-            {
-                _logger.LogError("Trade parties is null");
-                throw new TradeValidationException("Trade parties cannot be null");
-            }
+        if (trade.Status != TradeStatus.Completed)
+            return dependencies;
 
-            // Log trade party count
-            _logger.LogInformation("Processing trade with {PartyCount} parties", trade.Parties.Count);
-            _logger.LogInformation("Asset distribution present: {HasDistribution}", trade.AssetDistribution != null);
+        var laterTrades = await _trades.Find(t =>
+            t.LeagueId == trade.LeagueId &&
+            t.Status == TradeStatus.Completed &&
+            t.Timestamp > trade.Timestamp
+        ).SortBy(t => t.Timestamp).ToListAsync();
 
-            // Validate trade
-            ValidateTrade(trade.Parties);
+        // Walking forward in time, a trade that moved anything already in the chain joins it, and
+        // everything it moved ties up the trades after it in turn
+        var chainAssets = trade.Parties.SelectMany(p => p.Assets).ToList();
+        var tradeAssets = new List<TradeAsset>(chainAssets);
+        foreach (var laterTrade in laterTrades)
+        {
+            var laterAssets = laterTrade.Parties.SelectMany(p => p.Assets).ToList();
+            var sharedAssets = laterAssets.Where(a => chainAssets.Any(c => IsSameAsset(c, a))).ToList();
+            if (!sharedAssets.Any())
+                continue;
 
-            // First verify all draft picks exist and are from the active draft
-            foreach (var party in trade.Parties)
+            _logger.LogInformation("Trade {TradeId} depends on later trade {LaterTradeId}", tradeId, laterTrade.Id);
+            dependencies.DependentTrades.Insert(0, new DependentTrade
             {
-                foreach (var asset in party.Assets.Where(a => a.Type == TradeAssetType.DraftPick))
-                {
-                    _logger.LogInformation("Looking for draft with ID: {DraftId}", asset.DraftId);
-                    
-                    // Ensure we have a valid ObjectId
-                    if (!ObjectId.TryParse(asset.DraftId, out var draftObjectId))
-                    {
-                        _logger.LogError("Invalid draft ID format: {DraftId}", asset.DraftId);
-                        throw new TradeValidationException($"Invalid draft ID format: {asset.DraftId}");
-                    }
+                TradeId = laterTrade.Id!,
+                Timestamp = laterTrade.Timestamp,
+                ManagerIds = laterTrade.Parties.Select(p => p.ManagerId).ToList(),
+                SharedAssets = sharedAssets
+            });
+            chainAssets.AddRange(laterAssets.Where(a => !chainAssets.Any(c => IsSameAsset(c, a))));
+        }
 
-                    // Get the active draft
-                    var activeDraft = await _draftService.GetActiveDraftAsync();
-                    if (activeDraft == null)
-                    {
-                        _logger.LogError("No active draft found");
-                        throw new TradeValidationException("No active draft exists");
-                    }
+        dependencies.UsedPicks = await GetUsedPicks(chainAssets);
+        dependencies.CanCascade = !dependencies.UsedPicks.Any();
+        dependencies.CanCancel = dependencies.CanCascade && !dependencies.DependentTrades.Any();
 
-                    // Verify this is the active draft
-                    if (activeDraft.Id != asset.DraftId)
-                    {
-                        _logger.LogError("Trade draft {TradeDraft} does not match active draft {ActiveDraft}", 
-                            asset.DraftId, activeDraft.Id);
-                        throw new TradeValidationException($"Draft {asset.DraftId} is not the active draft");
-                    }
+        return dependencies;
+    }
 
-                    _logger.LogInformation("Found draft: {DraftId}, Year: {Year}, Type: {Type}", 
-                        activeDraft.Id, activeDraft.Year, activeDraft.Type);
+    /// <summary>
+    /// Undoes a trade along with every later trade that depends on it, most recent first
+    /// </summary>
+    /// <returns>The IDs of the cancelled trades, in the order they were undone</returns>
+    /// <exception cref="TradeValidationException">Thrown when the trade is not found or one of the chain's picks has been used</exception>
+    public async Task<List<string>> CancelTradeCascade(string tradeId)
+    {
+        var dependencies = await GetTradeDependencies(tradeId)
+            ?? throw new TradeValidationException("Trade not found");
 
-                    // Find the pick in the rounds
-                    var pick = activeDraft.Rounds
-                        .SelectMany(r => r.Picks)
-                        .FirstOrDefault(p => p.OverallPickNumber == asset.OverallPickNumber);
+        if (dependencies.UsedPicks.Any())
+            throw new TradeValidationException(GetUsedPicksMessage(dependencies.UsedPicks));
 
-                    if (pick == null)
-                    {
-                        _logger.LogError("Pick {OverallPickNumber} not found in draft {DraftId}", 
-                            asset.OverallPickNumber, asset.DraftId);
-                        throw new TradeValidationException($"Pick {asset.OverallPickNumber} not found in draft {asset.DraftId}");
-                    }
+        var cancelled = new List<string>();
+        foreach (var dependent in dependencies.DependentTrades)
+        {
+            _logger.LogInformation("Cancelling trade {DependentTradeId} before {TradeId}", dependent.TradeId, tradeId);
+            await CancelTrade(dependent.TradeId);
+            cancelled.Add(dependent.TradeId);
+        }
 
-                    // Check if pick is already completed
-                    if (pick.IsComplete)
-                    {
-                        _logger.LogError("Pick {OverallPickNumber} in draft {DraftId} is already completed", 
-                            asset.OverallPickNumber, asset.DraftId);
-                        throw new TradeValidationException($"Pick {asset.OverallPickNumber} has already been used");
-                    }
+        await CancelTrade(tradeId);
+        cancelled.Add(tradeId);
 
-                    // Verify the manager owns this pick
-                    var currentOwner = pick.TradedTo?.LastOrDefault() ?? pick.ManagerId;
-                    if (currentOwner != party.ManagerId)
-                    {
-                        _logger.LogError("Manager {ManagerId} does not own pick {OverallPickNumber}. Current owner: {CurrentOwner}", 
-                            party.ManagerId, asset.OverallPickNumber, currentOwner);
-                        throw new TradeValidationException($"Manager {party.ManagerId} cannot trade pick {asset.OverallPickNumber} as they do not own it");
-                    }
+        _logger.LogInformation("Cancelled trade {TradeId} and {Count} dependent trades", tradeId, cancelled.Count - 1);
+        return cancelled;
+    }
 
-                    _logger.LogInformation("Found pick: Overall {OverallPickNumber}, Round Pick {PickNumber}", 
-                        pick.OverallPickNumber, pick.PickNumber);
-                }
-            }
+    private async Task<List<TradeAsset>> GetUsedPicks(List<TradeAsset> assets)
+    {
+        var usedPicks = new List<TradeAsset>();
+        var drafts = new Dictionary<string, Draft?>();
 
-            // Handle asset distribution based on trade type
-            if (trade.Parties.Count == 2)
+        foreach (var asset in assets)
+        {
+            if (asset.Type == TradeAssetType.DraftPick && !string.IsNullOrEmpty(asset.DraftId))
             {
-                _logger.LogInformation("Processing two-party trade");
-                if (trade.AssetDistribution == null)
+                if (!drafts.TryGetValue(asset.DraftId, out var draft))
                 {
-                    _logger.LogInformation("Creating automatic asset distribution for two-party trade");
-                    trade.AssetDistribution = new Dictionary<string, Dictionary<string, List<TradeAsset>>>
-                    {
-                        [trade.Parties[0].ManagerId] = new Dictionary<string, List<TradeAsset>>
-                        {
-                            [trade.Parties[1].ManagerId] = trade.Parties[1].Assets
-                        },
-                        [trade.Parties[1].ManagerId] = new Dictionary<string, List<TradeAsset>>
-                        {
-                            [trade.Parties[0].ManagerId] = trade.Parties[0].Assets
-                        }
-                    };
+                    draft = await _draftService.GetByIdAsync(asset.DraftId);
+                    drafts[asset.DraftId] = draft;
                 }
+
+                var pick = draft?.Rounds
+                    .SelectMany(r => r.Picks)
+                    .FirstOrDefault(p => p.OverallPickNumber == asset.OverallPickNumber);
+                if (pick?.IsComplete == true)
+                    usedPicks.Add(asset);
             }
-            else
+            else if (asset.Type == TradeAssetType.FuturePick && !string.IsNullOrEmpty(asset.FuturePickId))
             {
-                _logger.LogInformation("Processing multi-party trade with {PartyCount} parties", trade.Parties.Count);
-                if (trade.AssetDistribution == null)
-                {
-                    _logger.LogError("Multi-party trade requires explicit asset distribution");
-                    throw new AssetDistributionException("Multi-party trades require explicit asset distribution configuration");
-                }
-
-                // Validate that each party is involved in the distribution
-                foreach (var party in trade.Parties)
-                {
-                    if (!trade.AssetDistribution.ContainsKey(party.ManagerId))
-                    {
-                        _logger.LogError("Manager {ManagerId} is missing from asset distribution", party.ManagerId);
-                        throw new AssetDistributionException($"Manager {party.ManagerId} is missing from asset distribution");
-                    }
+                var futurePick = await _futurePickService.GetByIdAsync(asset.FuturePickId);
+                if (futurePick?.DraftId != null)
+                    usedPicks.Add(asset);
+            }
+        }
 
-                    // Validate that each party receives assets from at least one other party
-                    var receivedAssets = trade.AssetDistribution[party.ManagerId];
-                    if (!receivedAssets.Any())
-                    {
-                        _logger.LogError("Manager {ManagerId} is not receiving assets from any party", party.ManagerId);
-                        throw new AssetDistributionException($"Manager {party.ManagerId} must receive assets from at least one other party");
-                    }
+        return usedPicks;
+    }
 
-                    // Validate that assets are being received from parties in the trade
-                    foreach (var fromManagerId in receivedAssets.Keys)
-                    {
-                        if (!trade.Parties.Any(p => p.ManagerId == fromManagerId))
-                        {
-                            _logger.LogError("Manager {ManagerId} is receiving assets from non-participant {FromManagerId}", 
-                                party.ManagerId, fromManagerId);
-                            throw new AssetDistributionException($"Invalid asset distribution: Manager {fromManagerId} is not part of the trade");
-                        }
+    private static string GetUsedPicksMessage(List<TradeAsset> usedPicks)
+    {
+        var descriptions = usedPicks.Select(asset => asset.Type == TradeAssetType.FuturePick
+            ? $"the {asset.Year} round {asset.RoundNumber} pick is now part of the {asset.Year} draft"
+            : $"pick {asset.OverallPickNumber} has already been used");
+        return $"Cannot cancel trade because {string.Join(" and ", descriptions)}";
+    }
 
-                        // Prevent managers from receiving assets from themselves
-                        if (fromManagerId == party.ManagerId)
-                        {
-                            _logger.LogError("Manager {ManagerId} is receiving assets from themselves", party.ManagerId);
-                            throw new AssetDistributionException($"Invalid asset distribution: Manager {party.ManagerId} cannot receive assets from themselves");
-                        }
-                    }
-                }
-            }
+    public async Task<Trade> CreateTrade(Trade trade)
+    {
+        try
+        {
+            _logger.LogInformation("=== Starting CreateTrade ===");
+            _logger.LogInformation("Trade object received - ID: {Id}, Status: {Status}, Parties: {PartyCount}", 
+                trade.Id ?? "New", trade.Status, trade.Parties?.Count ?? 0);
 
-            // Validate and process asset distribution
-            ValidateAssetDistribution(trade);
+            await PrepareTrade(trade);
 
             try
             {
@@ -302,17 +259,342 @@ public class TradeService
         }
     }
 
+    /// <summary>
+    /// Saves a trade as a proposal from one of its parties. Nothing changes hands until every party accepts.
+    /// </summary>
+    public async Task<Trade> ProposeTrade(Trade trade, string proposedBy)
+    {
+        try
+        {
+            await PrepareTrade(trade);
+
+            var proposer = trade.Parties.FirstOrDefault(p => p.ManagerId == proposedBy)
+                ?? throw new TradeValidationException($"Manager {proposedBy} is not part of the trade");
+
+            // Proposing a trade counts as accepting it
+            foreach (var party in trade.Parties)
+            {
+                party.Proposed = party == proposer;
+                party.Accepted = party == proposer;
+            }
+
+            trade.Status = TradeStatus.Proposed;
+            trade.ProposedAt = DateTime.UtcNow;
+            trade.Timestamp = trade.ProposedAt.Value;
+
+            await _trades.InsertOneAsync(trade);
+            _logger.LogInformation("Trade {TradeId} proposed by manager {ManagerId}", trade.Id, proposedBy);
+
+            return trade;
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error proposing trade: {Message}", ex.Message);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Records a party's acceptance. Once the last party accepts, the trade is checked again and executed.
+    /// </summary>
+    public async Task<Trade> AcceptTrade(string tradeId, string managerId)
+    {
+        var trade = await GetPendingTrade(tradeId);
+        var party = GetParty(trade, managerId);
+
+        if (party.Accepted)
+            throw new TradeValidationException($"Manager {managerId} has already accepted this trade");
+
+        party.Accepted = true;
+        trade.Timestamp = DateTime.UtcNow;
+
+        if (trade.Parties.All(p => p.Accepted))
+        {
+            // Picks and players may have changed hands since the proposal was made
+            await PrepareTrade(trade);
+            await UpdateDraftPickOwnership(trade);
+            trade.Status = TradeStatus.Completed;
+            LogTradeDetails(trade);
+        }
+        else
+        {
+            trade.Status = TradeStatus.Accepted;
+        }
+
+        await SaveTrade(trade);
+        _logger.LogInformation("Manager {ManagerId} accepted trade {TradeId}, status is now {Status}",
+            managerId, tradeId, trade.Status);
+
+        return trade;
+    }
+
+    public async Task<Trade> RejectTrade(string tradeId, string managerId)
+    {
+        var trade = await GetPendingTrade(tradeId);
+        GetParty(trade, managerId).Accepted = false;
+
+        trade.Status = TradeStatus.Rejected;
+        trade.Timestamp = DateTime.UtcNow;
+        await SaveTrade(trade);
+        _logger.LogInformation("Manager {ManagerId} rejected trade {TradeId}", managerId, tradeId);
+
+        return trade;
+    }
+
+    /// <summary>
+    /// Replaces a pending trade with a new proposal from one of its parties
+    /// </summary>
+    /// <returns>The counteroffer</returns>
+    public async Task<Trade> CounterTrade(string tradeId, string managerId, Trade counter)
+    {
+        var original = await GetPendingTrade(tradeId);
+        GetParty(original, managerId);
+
+        counter.Id = null;
+        counter.CounterOfTradeId = tradeId;
+        var created = await ProposeTrade(counter, managerId);
+
+        original.Status = TradeStatus.Countered;
+        original.Timestamp = DateTime.UtcNow;
+        await SaveTrade(original);
+        _logger.LogInformation("Manager {ManagerId} countered trade {TradeId} with {CounterId}", managerId, tradeId, created.Id);
+
+        return created;
+    }
+
+    private static bool IsPending(Trade trade) =>
+        trade.Status == TradeStatus.Proposed || trade.Status == TradeStatus.Accepted;
+
+    private async Task<Trade> GetPendingTrade(string tradeId)
+    {
+        var trade = await GetTrade(tradeId)
+            ?? throw new TradeValidationException("Trade not found");
+
+        if (!IsPending(trade))
+            throw new TradeValidationException($"Trade is {trade.Status} and can no longer be changed");
+
+        return trade;
+    }
+
+    private static TradeParty GetParty(Trade trade, string managerId) =>
+        trade.Parties.FirstOrDefault(p => p.ManagerId == managerId)
+            ?? throw new TradeValidationException($"Manager {managerId} is not part of this trade");
+
+    private async Task SaveTrade(Trade trade)
+    {
+        var result = await _trades.ReplaceOneAsync(t => t.Id == trade.Id, trade);
+        if (!result.IsAcknowledged || result.ModifiedCount == 0)
+        {
+            var error = $"Failed to update trade {trade.Id}";
+            _logger.LogError(error);
+            throw new InvalidOperationException(error);
+        }
+    }
+
+    /// <summary>
+    /// Checks that every party owns what they're giving up and that the distribution accounts for every asset.
+    /// Fills in the distribution for two-party trades and the details of any traded players.
+    /// </summary>
+    private async Task PrepareTrade(Trade trade)
+    {
+        if (trade == null)
+        {
+            _logger.LogError("Trade object is null");
+            throw new TradeValidationException("Trade object cannot be null");
+        }
+
+        if (trade.Parties == null)
+        {
+            _logger.LogError("Trade parties is null");
+            throw new TradeValidationException("Trade parties cannot be null");
+        }
+
+        // Log trade party count
+        _logger.LogInformation("Processing trade with {PartyCount} parties", trade.Parties.Count);
+        _logger.LogInformation("Asset distribution present: {HasDistribution}", trade.AssetDistribution != null);
+
+        // New trades belong to the league they're made in
+        trade.LeagueId ??= _leagueContext.LeagueId;
+
+        // Validate trade
+        ValidateTrade(trade.Parties);
+
+        // First verify all draft picks exist and are from the active draft
+        foreach (var party in trade.Parties)
+        {
+            foreach (var asset in party.Assets.Where(a => a.Type == TradeAssetType.DraftPick))
+            {
+                _logger.LogInformation("Looking for draft with ID: {DraftId}", asset.DraftId);
+                
+                // Ensure we have a valid ObjectId
+                if (!ObjectId.TryParse(asset.DraftId, out var draftObjectId))
+                {
+                    _logger.LogError("Invalid draft ID format: {DraftId}", asset.DraftId);
+                    throw new TradeValidationException($"Invalid draft ID format: {asset.DraftId}");
+                }
+
+                // Get the active draft
+                var activeDraft = await _draftService.GetActiveDraftAsync();
+                if (activeDraft == null)
+                {
+                    _logger.LogError("No active draft found");
+                    throw new TradeValidationException("No active draft exists");
+                }
+
+                // Verify this is the active draft
+                if (activeDraft.Id != asset.DraftId)
+                {
+                    _logger.LogError("Trade draft {TradeDraft} does not match active draft {ActiveDraft}", 
+                        asset.DraftId, activeDraft.Id);
+                    throw new TradeValidationException($"Draft {asset.DraftId} is not the active draft");
+                }
+
+                _logger.LogInformation("Found draft: {DraftId}, Year: {Year}, Type: {Type}", 
+                    activeDraft.Id, activeDraft.Year, activeDraft.Type);
+
+                // Find the pick in the rounds
+                var pick = activeDraft.Rounds
+                    .SelectMany(r => r.Picks)
+                    .FirstOrDefault(p => p.OverallPickNumber == asset.OverallPickNumber);
+
+                if (pick == null)
+                {
+                    _logger.LogError("Pick {OverallPickNumber} not found in draft {DraftId}", 
+                        asset.OverallPickNumber, asset.DraftId);
+                    throw new TradeValidationException($"Pick {asset.OverallPickNumber} not found in draft {asset.DraftId}");
+                }
+
+                // Check if pick is already completed
+                if (pick.IsComplete)
+                {
+                    _logger.LogError("Pick {OverallPickNumber} in draft {DraftId} is already completed", 
+                        asset.OverallPickNumber, asset.DraftId);
+                    throw new TradeValidationException($"Pick {asset.OverallPickNumber} has already been used");
+                }
+
+                // Verify the manager owns this pick
+                var currentOwner = pick.TradedTo?.LastOrDefault() ?? pick.ManagerId;
+                if (currentOwner != party.ManagerId)
+                {
+                    _logger.LogError("Manager {ManagerId} does not own pick {OverallPickNumber}. Current owner: {CurrentOwner}", 
+                        party.ManagerId, asset.OverallPickNumber, currentOwner);
+                    throw new TradeValidationException($"Manager {party.ManagerId} cannot trade pick {asset.OverallPickNumber} as they do not own it");
+                }
+
+                _logger.LogInformation("Found pick: Overall {OverallPickNumber}, Round Pick {PickNumber}", 
+                    pick.OverallPickNumber, pick.PickNumber);
+            }
+
+            foreach (var asset in party.Assets.Where(a => a.Type == TradeAssetType.Player))
+            {
+                await ValidatePlayerAsset(asset, party.ManagerId);
+            }
+
+            foreach (var asset in party.Assets.Where(a => a.Type == TradeAssetType.FuturePick))
+            {
+                await ValidateFuturePickAsset(asset, party.ManagerId);
+            }
+        }
+
+        // Handle asset distribution based on trade type
+        if (trade.Parties.Count == 2)
+        {
+            _logger.LogInformation("Processing two-party trade");
+            if (trade.AssetDistribution == null)
+            {
+                _logger.LogInformation("Creating automatic asset distribution for two-party trade");
+                trade.AssetDistribution = new Dictionary<string, Dictionary<string, List<TradeAsset>>>
+                {
+                    [trade.Parties[0].ManagerId] = new Dictionary<string, List<TradeAsset>>
+                    {
+                        [trade.Parties[1].ManagerId] = trade.Parties[1].Assets
+                    },
+                    [trade.Parties[1].ManagerId] = new Dictionary<string, List<TradeAsset>>
+                    {
+                        [trade.Parties[0].ManagerId] = trade.Parties[0].Assets
+                    }
+                };
+            }
+        }
+        else
+        {
+            _logger.LogInformation("Processing multi-party trade with {PartyCount} parties", trade.Parties.Count);
+            if (trade.AssetDistribution == null)
+            {
+                _logger.LogError("Multi-party trade requires explicit asset distribution");
+                throw new AssetDistributionException("Multi-party trades require explicit asset distribution configuration");
+            }
+
+            // Validate that each party is involved in the distribution
+            foreach (var party in trade.Parties)
+            {
+                if (!trade.AssetDistribution.ContainsKey(party.ManagerId))
+                {
+                    _logger.LogError("Manager {ManagerId} is missing from asset distribution", party.ManagerId);
+                    throw new AssetDistributionException($"Manager {party.ManagerId} is missing from asset distribution");
+                }
+
+                // Validate that each party receives assets from at least one other party
+                var receivedAssets = trade.AssetDistribution[party.ManagerId];
+                if (!receivedAssets.Any())
+                {
+                    _logger.LogError("Manager {ManagerId} is not receiving assets from any party", party.ManagerId);
+                    throw new AssetDistributionException($"Manager {party.ManagerId} must receive assets from at least one other party");
+                }
+
+                // Validate that assets are being received from parties in the trade
+                foreach (var fromManagerId in receivedAssets.Keys)
+                {
+                    if (!trade.Parties.Any(p => p.ManagerId == fromManagerId))
+                    {
+                        _logger.LogError("Manager {ManagerId} is receiving assets from non-participant {FromManagerId}", 
+                            party.ManagerId, fromManagerId);
+                        throw new AssetDistributionException($"Invalid asset distribution: Manager {fromManagerId} is not part of the trade");
+                    }
+
+                    // Prevent managers from receiving assets from themselves
+                    if (fromManagerId == party.ManagerId)
+                    {
+                        _logger.LogError("Manager {ManagerId} is receiving assets from themselves", party.ManagerId);
+                        throw new AssetDistributionException($"Invalid asset distribution: Manager {party.ManagerId} cannot receive assets from themselves");
+                    }
+                }
+            }
+        }
+
+        // Validate and process asset distribution
+        ValidateAssetDistribution(trade);
+        CopyAssetDetailsToDistribution(trade);
+    }
+
     public async Task CancelTrade(string tradeId)
     {
-        var trade = await _trades.Find(t => t.Id == tradeId).FirstOrDefaultAsync();
+        var trade = await GetTrade(tradeId);
         
         if (trade == null)
             throw new TradeValidationException("Trade not found");
 
-        // Check if trade can be cancelled
-        if (!await CanCancelTrade(tradeId))
+        if (IsPending(trade))
+        {
+            trade.Status = TradeStatus.Cancelled;
+            trade.Timestamp = DateTime.UtcNow;
+            await SaveTrade(trade);
+            _logger.LogInformation("Withdrew pending trade {TradeId}", tradeId);
+            return;
+        }
+
+        if (trade.Status != TradeStatus.Completed)
+            throw new TradeValidationException($"Trade is {trade.Status} and cannot be cancelled");
+
+        var dependencies = await GetTradeDependencies(tradeId);
+        if (dependencies!.UsedPicks.Any())
         {
-            throw new TradeValidationException("Cannot cancel trade because its assets are involved in more recent completed trades");
+            throw new TradeValidationException(GetUsedPicksMessage(dependencies.UsedPicks));
+        }
+        if (dependencies.DependentTrades.Any())
+        {
+            throw new TradeValidationException(
+                $"Cannot cancel trade because its assets are involved in {dependencies.DependentTrades.Count} more recent completed trade(s); undo those first");
         }
 
         // Get active draft to verify it exists
@@ -322,19 +604,24 @@ public class TradeService
             throw new TradeValidationException("No active draft exists");
         }
 
-        // Verify all picks belong to active draft
+        // Verify all picks and players belong to active draft
         foreach (var party in trade.Parties)
         {
-            foreach (var asset in party.Assets.Where(a => a.Type == TradeAssetType.DraftPick))
+            foreach (var asset in party.Assets)
             {
+                // Future picks have no draft yet; ones whose draft now exists were caught as used above
+                if (asset.Type == TradeAssetType.FuturePick)
+                    continue;
+
                 if (asset.DraftId != activeDraft.Id)
                 {
-                    throw new TradeValidationException($"Trade contains picks from draft {asset.DraftId} but active draft is {activeDraft.Id}");
+                    var assetKind = asset.Type == TradeAssetType.Player ? "players" : "picks";
+                    throw new TradeValidationException($"Trade contains {assetKind} from draft {asset.DraftId} but active draft is {activeDraft.Id}");
                 }
             }
         }
 
-        // Revert draft pick ownership
+        // Revert draft pick ownership and send traded players back
         try
         {
             await RevertDraftPickOwnership(trade);
@@ -361,19 +648,19 @@ public class TradeService
 
     public async Task DeleteTrade(string tradeId)
     {
-        var trade = await _trades.Find(t => t.Id == tradeId).FirstOrDefaultAsync();
+        var trade = await GetTrade(tradeId);
         
         if (trade == null)
             throw new TradeValidationException("Trade not found");
 
-        // If trade is not cancelled, cancel it first
-        if (trade.Status != TradeStatus.Cancelled)
+        // If trade went through or is still pending, cancel it first
+        if (trade.Status == TradeStatus.Completed || IsPending(trade))
         {
-            _logger.LogInformation("Trade {TradeId} is not cancelled. Cancelling first...", tradeId);
+            _logger.LogInformation("Trade {TradeId} is {Status}. Cancelling first...", tradeId, trade.Status);
             await CancelTrade(tradeId);
             
             // Refresh trade after cancellation
-            trade = await _trades.Find(t => t.Id == tradeId).FirstOrDefaultAsync();
+            trade = await GetTrade(tradeId);
             if (trade == null)
                 throw new TradeValidationException("Trade not found after cancellation");
         }
@@ -555,10 +842,7 @@ public class TradeService
             // Check that all contributed assets are being distributed
             foreach (var asset in contributedAssets)
             {
-                var matchingDistributedAsset = distributedAssets.FirstOrDefault(a =>
-                    a.Type == asset.Type &&
-                    a.DraftId == asset.DraftId &&
-                    a.OverallPickNumber == asset.OverallPickNumber);
+                var matchingDistributedAsset = distributedAssets.FirstOrDefault(a => IsSameAsset(a, asset));
 
                 if (matchingDistributedAsset == null)
                 {
@@ -571,10 +855,7 @@ public class TradeService
             // Check that all distributed assets were contributed
             foreach (var asset in distributedAssets)
             {
-                var matchingContributedAsset = contributedAssets.FirstOrDefault(a =>
-                    a.Type == asset.Type &&
-                    a.DraftId == asset.DraftId &&
-                    a.OverallPickNumber == asset.OverallPickNumber);
+                var matchingContributedAsset = contributedAssets.FirstOrDefault(a => IsSameAsset(a, asset));
 
                 if (matchingContributedAsset == null)
                 {
@@ -711,6 +992,20 @@ public class TradeService
                                 throw;
                             }
                         }
+                        else if (asset.Type == TradeAssetType.Player)
+                        {
+                            if (!await MoveDraftedPlayer(asset, receivingManagerId))
+                            {
+                                throw new InvalidOperationException($"Failed to move {asset.PlayerName ?? asset.PlayerId} to manager {receivingManagerId}");
+                            }
+                        }
+                        else if (asset.Type == TradeAssetType.FuturePick)
+                        {
+                            if (!await _futurePickService.TransferAsync(asset.FuturePickId!, receivingManagerId))
+                            {
+                                throw new InvalidOperationException($"Failed to move the {asset.Year} round {asset.RoundNumber} pick to manager {receivingManagerId}");
+                            }
+                        }
                     }
                 }
             }
@@ -731,7 +1026,7 @@ public class TradeService
 
         foreach (var fromManagerAssets in trade.AssetDistribution.Values)
         {
-            foreach (var assets in fromManagerAssets.Values)
+            foreach (var (fromManagerId, assets) in fromManagerAssets)
             {
                 foreach (var asset in assets)
                 {
@@ -739,6 +1034,20 @@ public class TradeService
                     {
                         await RevertDraftPickTradedTo(asset);
                     }
+                    else if (asset.Type == TradeAssetType.Player)
+                    {
+                        // Players go straight back to whoever gave them up. One whose pick was undone since
+                        // has no roster to return to, which shouldn't stop the rest of the trade unwinding.
+                        if (!await MoveDraftedPlayer(asset, fromManagerId))
+                        {
+                            _logger.LogWarning("Player {PlayerId} is no longer drafted in draft {DraftId}; leaving them undrafted",
+                                asset.PlayerId, asset.DraftId);
+                        }
+                    }
+                    else if (asset.Type == TradeAssetType.FuturePick)
+                    {
+                        await _futurePickService.RevertTransferAsync(asset.FuturePickId!);
+                    }
                 }
             }
         }
@@ -772,6 +1081,140 @@ public class TradeService
         await _draftService.UpdatePickOwnershipAsync(asset.DraftId!, asset.OverallPickNumber.Value, isRevert: true);
     }
     
+    private async Task ValidatePlayerAsset(TradeAsset asset, string managerId)
+    {
+        if (string.IsNullOrEmpty(asset.PlayerId))
+        {
+            _logger.LogError("Player asset missing PlayerId");
+            throw new TradeValidationException("Player asset is missing PlayerId");
+        }
+
+        var activeDraft = await _draftService.GetActiveDraftAsync();
+        if (activeDraft == null)
+        {
+            _logger.LogError("No active draft found");
+            throw new TradeValidationException("No active draft exists");
+        }
+
+        if (asset.DraftId != activeDraft.Id)
+        {
+            _logger.LogError("Player {PlayerId} was offered from draft {TradeDraft} but the active draft is {ActiveDraft}",
+                asset.PlayerId, asset.DraftId, activeDraft.Id);
+            throw new TradeValidationException($"Draft {asset.DraftId} is not the active draft");
+        }
+
+        var player = await _playerService.GetAsync(asset.PlayerId);
+        if (player == null)
+        {
+            _logger.LogError("Player {PlayerId} not found", asset.PlayerId);
+            throw new TradeValidationException($"Player {asset.PlayerId} not found");
+        }
+
+        var draftStatus = player.DraftStatuses?.FirstOrDefault(ds => ds.DraftId == activeDraft.Id && ds.IsDrafted);
+        if (draftStatus == null)
+        {
+            _logger.LogError("Player {PlayerId} has not been drafted in draft {DraftId}", asset.PlayerId, activeDraft.Id);
+            throw new TradeValidationException($"{player.Name} has not been drafted, so they cannot be traded");
+        }
+
+        if (draftStatus.ManagerId != managerId)
+        {
+            _logger.LogError("Manager {ManagerId} does not have player {PlayerId}. Current manager: {CurrentManager}",
+                managerId, asset.PlayerId, draftStatus.ManagerId);
+            throw new TradeValidationException($"Manager {managerId} cannot trade {player.Name} as they are not on their roster");
+        }
+
+        asset.PlayerName = player.Name;
+        asset.RoundNumber = draftStatus.Round;
+        asset.PickNumber = draftStatus.Pick;
+        asset.OverallPickNumber = draftStatus.OverallPick;
+
+        _logger.LogInformation("Found player: {PlayerName}, drafted at overall pick {OverallPickNumber}",
+            player.Name, draftStatus.OverallPick);
+    }
+
+    private async Task ValidateFuturePickAsset(TradeAsset asset, string managerId)
+    {
+        if (string.IsNullOrEmpty(asset.FuturePickId))
+        {
+            _logger.LogError("Future pick asset missing FuturePickId");
+            throw new TradeValidationException("Future pick asset is missing FuturePickId");
+        }
+
+        var futurePick = await _futurePickService.GetByIdAsync(asset.FuturePickId);
+        if (futurePick == null)
+        {
+            _logger.LogError("Future pick {FuturePickId} not found", asset.FuturePickId);
+            throw new TradeValidationException($"Future pick {asset.FuturePickId} not found");
+        }
+
+        if (futurePick.DraftId != null)
+        {
+            _logger.LogError("Future pick {FuturePickId} is already part of draft {DraftId}", asset.FuturePickId, futurePick.DraftId);
+            throw new TradeValidationException($"The {futurePick.Year} draft has been created; trade round {futurePick.Round} picks from the draft instead");
+        }
+
+        var currentOwner = FuturePickService.GetOwner(futurePick);
+        if (currentOwner != managerId)
+        {
+            _logger.LogError("Manager {ManagerId} does not own future pick {FuturePickId}. Current owner: {CurrentOwner}",
+                managerId, asset.FuturePickId, currentOwner);
+            throw new TradeValidationException($"Manager {managerId} cannot trade the {futurePick.Year} round {futurePick.Round} pick as they do not own it");
+        }
+
+        asset.DraftId = null;
+        asset.Year = futurePick.Year;
+        asset.RoundNumber = futurePick.Round;
+        asset.OriginalManagerId = futurePick.OriginalManagerId;
+    }
+
+    // The distribution arrives with its own copies of each asset, so give them the details looked up during validation
+    private static void CopyAssetDetailsToDistribution(Trade trade)
+    {
+        var contributed = trade.Parties
+            .SelectMany(p => p.Assets)
+            .Where(a => a.Type != TradeAssetType.DraftPick)
+            .ToList();
+
+        foreach (var asset in trade.AssetDistribution.Values.SelectMany(d => d.Values).SelectMany(a => a))
+        {
+            var source = contributed.FirstOrDefault(a => IsSameAsset(a, asset));
+            if (source == null || ReferenceEquals(source, asset)) continue;
+
+            asset.DraftId = source.DraftId;
+            asset.PlayerName = source.PlayerName;
+            asset.RoundNumber = source.RoundNumber;
+            asset.PickNumber = source.PickNumber;
+            asset.OverallPickNumber = source.OverallPickNumber;
+            asset.Year = source.Year;
+            asset.OriginalManagerId = source.OriginalManagerId;
+        }
+    }
+
+    private async Task<bool> MoveDraftedPlayer(TradeAsset asset, string managerId)
+    {
+        if (string.IsNullOrEmpty(asset.PlayerId) || string.IsNullOrEmpty(asset.DraftId))
+        {
+            _logger.LogError("Player asset missing PlayerId or DraftId");
+            throw new TradeValidationException("Player asset is missing PlayerId or DraftId");
+        }
+
+        _logger.LogInformation("Moving player {PlayerId} to manager {ManagerId} in draft {DraftId}",
+            asset.PlayerId, managerId, asset.DraftId);
+
+        return await _playerService.UpdateDraftManagerAsync(asset.PlayerId, asset.DraftId, managerId);
+    }
+
+    // Picks are identified by their draft slot, players by who they are, future picks by their ledger entry
+    private static bool IsSameAsset(TradeAsset a, TradeAsset b) =>
+        a.Type == b.Type &&
+        a.Type switch
+        {
+            TradeAssetType.Player => a.DraftId == b.DraftId && a.PlayerId == b.PlayerId,
+            TradeAssetType.FuturePick => a.FuturePickId == b.FuturePickId,
+            _ => a.DraftId == b.DraftId && a.OverallPickNumber == b.OverallPickNumber
+        };
+
     private void LogTradeDetails(Trade trade)
     {
         var isMultiParty = trade.Parties.Count > 2;
@@ -0,0 +1,218 @@
+using System.Security.Cryptography;
+using MongoDB.Bson;
+using MongoDB.Driver;
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Stores sign-in accounts and checks local passwords
+/// </summary>
+/// <remarks>
+/// Passwords are kept as salted PBKDF2-SHA256 hashes in the form "iterations.salt.hash", so the
+/// iteration count can be raised later without breaking existing accounts.
+/// </remarks>
+public class UserAccountService
+{
+    private const int SaltSize = 16;
+    private const int HashSize = 32;
+    private const int Iterations = 100_000;
+    private const int MinimumPasswordLength = 8;
+
+    private readonly IMongoCollection<UserAccount> _users;
+    private readonly IMongoCollection<Manager> _managers;
+    private readonly ILogger<UserAccountService> _logger;
+
+    public UserAccountService(
+        MongoDbContext context,
+        ILogger<UserAccountService> logger)
+    {
+        _users = context.Users;
+        _managers = context.Managers;
+        _logger = logger;
+    }
+
+    public async Task<List<UserAccount>> GetAllAsync()
+    {
+        try
+        {
+            return await _users.Find(_ => true).SortBy(u => u.Username).ToListAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving user accounts");
+            throw;
+        }
+    }
+
+    public async Task<UserAccount?> GetByIdAsync(string id)
+    {
+        try
+        {
+            if (!ObjectId.TryParse(id, out _)) return null;
+            return await _users.Find(u => u.Id == id).FirstOrDefaultAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving user account {UserId}", id);
+            throw;
+        }
+    }
+
+    public async Task<UserAccount?> GetByUsernameAsync(string username)
+    {
+        try
+        {
+            var normalized = NormalizeUsername(username);
+            return await _users.Find(u => u.Username == normalized).FirstOrDefaultAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error retrieving user account {Username}", username);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Whether any account exists yet; until one does, the first account can be created without signing in
+    /// </summary>
+    public async Task<bool> AnyAsync()
+    {
+        try
+        {
+            return await _users.Find(_ => true).AnyAsync();
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Error checking for user accounts");
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Creates an account
+    /// </summary>
+    /// <param name="username">Unique username; stored in lower case</param>
+    /// <param name="password">Password for local sign-in; null for accounts from another provider</param>
+    /// <param name="role">What the account may do</param>
+    /// <param name="provider">The login provider the account signs in with</param>
+    /// <exception cref="InvalidOperationException">Thrown when the username is blank or taken, or the password is too short</exception>
+    public async Task<UserAccount> CreateAsync(string username, string? password, UserRole role, string provider = LocalLoginProvider.ProviderName)
+    {
+        try
+        {
+            var normalized = NormalizeUsername(username);
+            if (string.IsNullOrEmpty(normalized))
+                throw new InvalidOperationException("Username is required");
+            if (await _users.Find(u => u.Username == normalized).AnyAsync())
+                throw new InvalidOperationException($"The username {normalized} is already taken");
+
+            var account = new UserAccount
+            {
+                Username = normalized,
+                PasswordHash = password == null ? null : HashPassword(password),
+                Provider = provider,
+                Role = role,
+                CreatedAt = DateTime.UtcNow
+            };
+            await _users.InsertOneAsync(account);
+
+            _logger.LogInformation("Created {Role} account {Username}", role, normalized);
+            return account;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error creating account {Username}", username);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Changes an account's role and, when given, its password
+    /// </summary>
+    /// <exception cref="InvalidOperationException">
+    /// Thrown when the account isn't found, the password is too short, or it would leave no commissioner
+    /// </exception>
+    public async Task<UserAccount> UpdateAsync(string id, UserRole role, string? password)
+    {
+        try
+        {
+            var account = await GetByIdAsync(id) ?? throw new InvalidOperationException("Account not found");
+            if (account.Role == UserRole.Commissioner && role != UserRole.Commissioner)
+                await EnsureAnotherCommissionerAsync(id);
+
+            account.Role = role;
+            var update = Builders<UserAccount>.Update.Set(u => u.Role, role);
+            if (!string.IsNullOrEmpty(password))
+            {
+                account.PasswordHash = HashPassword(password);
+                update = update.Set(u => u.PasswordHash, account.PasswordHash);
+            }
+            await _users.UpdateOneAsync(u => u.Id == id, update);
+
+            _logger.LogInformation("Updated account {Username}", account.Username);
+            return account;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error updating account {UserId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Deletes an account, leaving the managers it ran without an account
+    /// </summary>
+    /// <exception cref="InvalidOperationException">Thrown when the account isn't found or is the last commissioner</exception>
+    public async Task DeleteAsync(string id)
+    {
+        try
+        {
+            var account = await GetByIdAsync(id) ?? throw new InvalidOperationException("Account not found");
+            if (account.Role == UserRole.Commissioner)
+                await EnsureAnotherCommissionerAsync(id);
+
+            await _users.DeleteOneAsync(u => u.Id == id);
+            await _managers.UpdateManyAsync(m => m.UserId == id, Builders<Manager>.Update.Set(m => m.UserId, null));
+            _logger.LogInformation("Deleted account {Username}", account.Username);
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error deleting account {UserId}", id);
+            throw;
+        }
+    }
+
+    /// <summary>
+    /// Checks a password against a local account's stored hash
+    /// </summary>
+    public static bool VerifyPassword(UserAccount account, string password)
+    {
+        var parts = account.PasswordHash?.Split('.');
+        if (parts == null || parts.Length != 3 || !int.TryParse(parts[0], out var iterations))
+            return false;
+
+        var salt = Convert.FromBase64String(parts[1]);
+        var expected = Convert.FromBase64String(parts[2]);
+        var actual = Rfc2898DeriveBytes.Pbkdf2(password, salt, iterations, HashAlgorithmName.SHA256, expected.Length);
+        return CryptographicOperations.FixedTimeEquals(actual, expected);
+    }
+
+    private static string HashPassword(string password)
+    {
+        if (password.Length < MinimumPasswordLength)
+            throw new InvalidOperationException($"Passwords must be at least {MinimumPasswordLength} characters");
+
+        var salt = RandomNumberGenerator.GetBytes(SaltSize);
+        var hash = Rfc2898DeriveBytes.Pbkdf2(password, salt, Iterations, HashAlgorithmName.SHA256, HashSize);
+        return $"{Iterations}.{Convert.ToBase64String(salt)}.{Convert.ToBase64String(hash)}";
+    }
+
+    private static string NormalizeUsername(string username) => (username ?? string.Empty).Trim().ToLowerInvariant();
+
+    private async Task EnsureAnotherCommissionerAsync(string id)
+    {
+        if (!await _users.Find(u => u.Role == UserRole.Commissioner && u.Id != id).AnyAsync())
+            throw new InvalidOperationException("There must always be at least one commissioner");
+    }
+}
@@ -0,0 +1,48 @@
+using System.Security.Claims;
+using DraftEngine.Models;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// The signed-in account behind the current request, read from its authentication cookie
+/// </summary>
+/// <remarks>
+/// Background work such as the pick clock has no request and so no user; it acts with the system's authority.
+/// </remarks>
+public class UserContext
+{
+    private readonly IHttpContextAccessor _httpContextAccessor;
+
+    public UserContext(IHttpContextAccessor httpContextAccessor)
+    {
+        _httpContextAccessor = httpContextAccessor;
+    }
+
+    private ClaimsPrincipal? Principal =>
+        _httpContextAccessor.HttpContext?.User is { Identity.IsAuthenticated: true } user ? user : null;
+
+    public string? UserId => Principal?.FindFirstValue(ClaimTypes.NameIdentifier);
+
+    public string? Username => Principal?.FindFirstValue(ClaimTypes.Name);
+
+    public bool IsCommissioner => Principal?.IsInRole(nameof(UserRole.Commissioner)) ?? false;
+
+    /// <summary>
+    /// Builds the identity stored in the authentication cookie for an account
+    /// </summary>
+    public static ClaimsPrincipal CreatePrincipal(UserAccount account, string authenticationScheme) =>
+        new ClaimsPrincipal(new ClaimsIdentity(new[]
+        {
+            new Claim(ClaimTypes.NameIdentifier, account.Id!),
+            new Claim(ClaimTypes.Name, account.Username),
+            new Claim(ClaimTypes.Role, account.Role.ToString())
+        }, authenticationScheme));
+}
+
+/// <summary>
+/// Authorization policy names
+/// </summary>
+public static class AuthPolicies
+{
+    public const string Commissioner = "Commissioner";
+}
@@ -0,0 +1,342 @@
+using DraftEngine.Models;
+using DraftEngine.Models.Data;
+
+namespace DraftEngine.Services;
+
+/// <summary>
+/// Prices players from their projections: scores each player in the league's categories, measures them against
+/// the best player a league this size leaves unrostered at their position, and splits the league's auction
+/// budget in proportion to that value above replacement.
+/// </summary>
+public class ValuationService
+{
+    // Scoring against the rostered pool changes who makes the cut, so re-score a few times to let it settle
+    private const int PoolPasses = 3;
+
+    // Category standings usually span about four standard deviations of team totals
+    private const double StandingsSpread = 4;
+
+    // Stats averaged over playing time rather than added up, so a player's impact depends on how much they play
+    internal static readonly HashSet<string> RateStats = new(StringComparer.OrdinalIgnoreCase)
+    {
+        "AVG", "OBP", "SLG", "OPS", "ISO", "WRC+", "ERA", "WHIP", "K/9", "BB/9", "HR/9", "K%", "BB%", "GB%"
+    };
+
+    private readonly PlayerService _playerService;
+    private readonly PlayerLeagueValueService _playerLeagueValueService;
+    private readonly ManagerService _managerService;
+    private readonly LeagueSettingsService _leagueSettings;
+    private readonly ILogger<ValuationService> _logger;
+
+    public ValuationService(
+        PlayerService playerService,
+        PlayerLeagueValueService playerLeagueValueService,
+        ManagerService managerService,
+        LeagueSettingsService leagueSettings,
+        ILogger<ValuationService> logger)
+    {
+        _playerService = playerService;
+        _playerLeagueValueService = playerLeagueValueService;
+        _managerService = managerService;
+        _leagueSettings = leagueSettings;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Values every player with a projection from the requested source and replaces the current league's previous run
+    /// </summary>
+    /// <remarks>
+    /// Points leagues are scored in points whichever method is chosen. Minor league and taxi slots
+    /// aren't priced, since the players in them rarely have projections.
+    /// </remarks>
+    /// <exception cref="InvalidOperationException">Thrown when there are fewer than two managers or no lineup slots</exception>
+    public async Task<ValuationResult> CalculateAsync(ValuationRequest request)
+    {
+        try
+        {
+            var settings = await _leagueSettings.GetSettingsAsync();
+            var managers = await _managerService.GetAllAsync();
+            if (managers.Count < 2)
+                throw new InvalidOperationException("Add at least two managers before calculating values");
+
+            var players = await _playerService.GetAsync();
+            var (valuations, result) = Calculate(players, settings, managers.Count, request, DateTime.UtcNow);
+
+            await _playerLeagueValueService.ReplaceValuationsAsync(valuations);
+            _logger.LogInformation(
+                "Valued {Valued} players by {Method} from {Source} projections for {Teams} teams ({Rostered} rostered)",
+                result.PlayersValued, result.Method, result.ProjectionSource, result.Teams, result.PlayersRostered);
+
+            return result;
+        }
+        catch (Exception ex) when (!(ex is InvalidOperationException))
+        {
+            _logger.LogError(ex, "Error calculating player valuations");
+            throw;
+        }
+    }
+
+    private static (Dictionary<string, PlayerValuation> Valuations, ValuationResult Result) Calculate(
+        List<Player> players,
+        LeagueSettings settings,
+        int teams,
+        ValuationRequest request,
+        DateTime calculatedAt)
+    {
+        var targets = RecommendationService.GetPositionTargets(settings);
+        var utilSlots = settings.RosterSlots.Where(s => s.Position == "UTIL").Sum(s => s.Count);
+        var benchSlots = settings.RosterSlots.Where(s => s.Position == "BN").Sum(s => s.Count);
+        var hitterStarters = targets.Where(t => t.Key != "P").Sum(t => t.Value) + utilSlots;
+        var pitcherStarters = targets.GetValueOrDefault("P");
+        if (hitterStarters + pitcherStarters == 0)
+            throw new InvalidOperationException("Set up the league's roster slots before calculating values");
+
+        // Bench spots go to hitters and pitchers in the same proportion as the starting lineup
+        var hitterBench = (int)Math.Round(benchSlots * (double)hitterStarters / (hitterStarters + pitcherStarters));
+        var capacity = targets.ToDictionary(t => t.Key, t => t.Value * teams);
+        capacity["UTIL"] = (utilSlots + hitterBench) * teams;
+        capacity["P"] = (pitcherStarters + benchSlots - hitterBench) * teams;
+
+        var entries = BuildEntries(players, settings, targets, request.ProjectionSource);
+        var hitters = entries.Where(e => !e.IsPitcher).ToList();
+        var pitchers = entries.Where(e => e.IsPitcher).ToList();
+
+        for (var pass = 0; pass < PoolPasses; pass++)
+        {
+            ScoreEntries(hitters, settings.HitterCategories, settings.ScoringFormat, request.Method, teams, hitterStarters);
+            ScoreEntries(pitchers, settings.PitcherCategories, settings.ScoringFormat, request.Method, teams, pitcherStarters);
+            Allocate(entries, capacity);
+        }
+
+        var replacementLevels = capacity.Keys.ToDictionary(
+            position => position,
+            position => GetReplacementLevel(entries, position));
+
+        // A two-way player is worth whichever side of the ball values them more
+        var best = entries
+            .Select(e => (Entry: e, Position: GetValuePosition(e, replacementLevels)))
+            .Where(x => x.Position != null)
+            .Select(x => (x.Entry, Position: x.Position!, Value: x.Entry.Score - replacementLevels[x.Position!]))
+            .GroupBy(x => x.Entry.Player.Id!)
+            .Select(g => g.OrderByDescending(x => x.Entry.Slot != null).ThenByDescending(x => x.Value).First())
+            .OrderByDescending(x => x.Value)
+            .ThenBy(x => x.Entry.Player.Name)
+            .ToList();
+
+        var rostered = best.Where(x => x.Entry.Slot != null).ToList();
+        var spendable = Math.Max(0, teams * request.BudgetPerTeam - rostered.Count * request.MinimumBid);
+        var totalValue = rostered.Sum(x => Math.Max(0, x.Value));
+        var dollarsPerPoint = totalValue > 0 ? spendable / totalValue : 0;
+
+        var valuations = new Dictionary<string, PlayerValuation>();
+        for (var i = 0; i < best.Count; i++)
+        {
+            var (entry, position, value) = best[i];
+            var dollars = entry.Slot != null
+                ? request.MinimumBid + Math.Max(0, value) * dollarsPerPoint
+                : Math.Min(0, value * dollarsPerPoint);
+
+            valuations[entry.Player.Id!] = new PlayerValuation
+            {
+                Method = request.Method,
+                ProjectionSource = request.ProjectionSource,
+                Position = position,
+                Score = Math.Round(entry.Score, 2),
+                ValueAboveReplacement = Math.Round(value, 2),
+                DollarValue = Math.Round(dollars, 1),
+                Rank = i + 1,
+                CalculatedAt = calculatedAt
+            };
+        }
+
+        var result = new ValuationResult
+        {
+            Method = request.Method,
+            ProjectionSource = request.ProjectionSource,
+            Teams = teams,
+            PlayersValued = valuations.Count,
+            PlayersRostered = rostered.Count,
+            ReplacementLevels = replacementLevels.ToDictionary(r => r.Key, r => Math.Round(r.Value, 2)),
+            CalculatedAt = calculatedAt
+        };
+
+        return (valuations, result);
+    }
+
+    private static List<Entry> BuildEntries(
+        List<Player> players,
+        LeagueSettings settings,
+        Dictionary<string, int> targets,
+        string projectionSource)
+    {
+        var entries = new List<Entry>();
+        foreach (var player in players.Where(p => p.Id != null))
+        {
+            var projection = LeagueValueService.GetProjection(player, projectionSource);
+            if (projection == null) continue;
+
+            if (projection.Hitter?.Stats is { Count: > 0 } hitting)
+            {
+                entries.Add(new Entry
+                {
+                    Player = player,
+                    Stats = hitting,
+                    // Players without a fielding position, like designated hitters, can still fill UTIL
+                    Positions = RecommendationService.GetEligiblePositions(player, targets, settings.MinGamesForPosition)
+                        .Where(p => p != "P")
+                        .ToArray(),
+                    Volume = LeagueValueService.GetStat(hitting, "G") ?? 0
+                });
+            }
+
+            if (projection.Pitcher?.Stats is { Count: > 0 } pitching)
+            {
+                entries.Add(new Entry
+                {
+                    Player = player,
+                    IsPitcher = true,
+                    Stats = pitching,
+                    Positions = new[] { "P" },
+                    Volume = LeagueValueService.GetStat(pitching, "IP") ?? 0
+                });
+            }
+        }
+        return entries;
+    }
+
+    /// <summary>
+    /// Scores each entry in the categories, measured against the players currently making the cut.
+    /// Z-scores count standard deviations from the pool average; SGP converts the same gap into places
+    /// in the standings, using the category's denominator or an estimate from the pool's spread.
+    /// </summary>
+    private static void ScoreEntries(
+        List<Entry> entries,
+        List<ScoringCategory> categories,
+        ScoringFormat format,
+        ValuationMethod method,
+        int teams,
+        int startersPerTeam)
+    {
+        if (entries.Count == 0) return;
+
+        var pool = entries.Where(e => e.Slot != null).ToList();
+        if (pool.Count < 2) pool = entries;
+
+        var volumes = pool.Where(e => e.Volume > 0).Select(e => e.Volume).ToList();
+        var meanVolume = volumes.Count > 0 ? volumes.Average() : 0;
+        double VolumeShare(Entry e) => e.Volume > 0 && meanVolume > 0 ? e.Volume / meanVolume : 1;
+
+        var perTeam = Math.Max(1, startersPerTeam);
+        foreach (var entry in entries) entry.Score = 0;
+
+        foreach (var category in categories)
+        {
+            if (format == ScoringFormat.Points)
+            {
+                foreach (var entry in entries)
+                {
+                    entry.Score += (LeagueValueService.GetStat(entry.Stats, category.Stat) ?? 0) * category.Weight;
+                }
+                continue;
+            }
+
+            var poolValues = pool
+                .Select(e => LeagueValueService.GetStat(e.Stats, category.Stat))
+                .Where(v => v.HasValue)
+                .Select(v => v!.Value)
+                .ToList();
+            if (poolValues.Count < 2) continue;
+
+            var mean = poolValues.Average();
+            var stdDev = Math.Sqrt(poolValues.Average(v => Math.Pow(v - mean, 2)));
+            if (stdDev == 0) continue;
+
+            var isRate = RateStats.Contains(category.Stat);
+            var direction = category.LowerIsBetter ? -1 : 1;
+
+            // Team totals spread by sqrt(n) for counting stats; team rates average out by the same factor
+            var sgpDenominator = category.SgpDenominator
+                ?? StandingsSpread * (isRate ? stdDev / Math.Sqrt(perTeam) : stdDev * Math.Sqrt(perTeam)) / Math.Max(1, teams - 1);
+
+            foreach (var entry in entries)
+            {
+                var stat = LeagueValueService.GetStat(entry.Stats, category.Stat);
+                if (!stat.HasValue) continue;
+
+                var gap = isRate ? (stat.Value - mean) * VolumeShare(entry) : stat.Value - mean;
+                var score = method == ValuationMethod.Sgp
+                    ? (isRate ? gap / perTeam : gap) / sgpDenominator
+                    : gap / stdDev;
+
+                entry.Score += direction * score * category.Weight;
+            }
+        }
+    }
+
+    /// <summary>
+    /// Fills the league's rosters best player first, putting each player at their scarcest open position
+    /// </summary>
+    private static void Allocate(List<Entry> entries, Dictionary<string, int> capacity)
+    {
+        var remaining = new Dictionary<string, int>(capacity);
+        foreach (var entry in entries) entry.Slot = null;
+
+        foreach (var entry in entries.OrderByDescending(e => e.Score))
+        {
+            var slot = entry.Positions
+                .Where(p => remaining.GetValueOrDefault(p) > 0)
+                .OrderBy(p => remaining[p])
+                .FirstOrDefault();
+            if (slot == null && !entry.IsPitcher && remaining.GetValueOrDefault("UTIL") > 0)
+            {
+                slot = "UTIL";
+            }
+            if (slot == null) continue;
+
+            remaining[slot]--;
+            entry.Slot = slot;
+        }
+    }
+
+    /// <summary>
+    /// The best score left on the table at a position, or the worst rostered one when everyone eligible is taken
+    /// </summary>
+    private static double GetReplacementLevel(List<Entry> entries, string position)
+    {
+        var eligible = entries.Where(e => IsEligible(e, position)).ToList();
+        var unrostered = eligible.Where(e => e.Slot == null).ToList();
+        if (unrostered.Count > 0) return unrostered.Max(e => e.Score);
+
+        var rostered = eligible.Where(e => e.Slot == position).ToList();
+        return rostered.Count > 0 ? rostered.Min(e => e.Score) : 0;
+    }
+
+    // The position with the lowest replacement level is where a player is worth the most
+    private static string? GetValuePosition(Entry entry, Dictionary<string, double> replacementLevels) =>
+        replacementLevels.Keys
+            .Where(position => IsEligible(entry, position))
+            .OrderBy(position => replacementLevels[position])
+            .FirstOrDefault();
+
+    private static bool IsEligible(Entry entry, string position) =>
+        position == "UTIL" ? !entry.IsPitcher : entry.Positions.Contains(position);
+
+    /// <summary>
+    /// One side of a player's projection; two-way players get a hitting and a pitching entry
+    /// </summary>
+    private sealed class Entry
+    {
+        public Player Player { get; init; } = null!;
+        public bool IsPitcher { get; init; }
+        public Dictionary<string, double> Stats { get; init; } = null!;
+        public string[] Positions { get; init; } = Array.Empty<string>();
+
+        // Games for hitters, innings for pitchers; weights rate stats by playing time
+        public double Volume { get; init; }
+
+        public double Score { get; set; }
+
+        // Roster slot the player landed in, or null if a league this size wouldn't roster them
+        public string? Slot { get; set; }
+    }
+}